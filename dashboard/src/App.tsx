@@ -1,29 +1,46 @@
 import { useState } from 'react';
 import { useDashboard } from './hooks/useDashboard';
 import { useActionPlan } from './hooks/useActionPlan';
+import { useClosedAlerts } from './hooks/useClosedAlerts';
 import { useRepoFixAdvisor } from './hooks/useFixAdvisor';
+import { useCodeScanningAlerts } from './hooks/useCodeScanning';
+import { useSecretScanningAlerts } from './hooks/useSecretScanning';
+import { useGroupRollups } from './hooks/useGroups';
 import { useAlertTimeline, useHistory, useVulnDep } from './hooks/useHistory';
+import { useRiskLeaderboard } from './hooks/useRisk';
+import { useRiskExceptions } from './hooks/useRiskExceptions';
 import { useTheme } from './hooks/useTheme';
 import { useSetupWizard } from './hooks/useSetupWizard';
+import { useSchedulerStatus } from './hooks/useSchedulerStatus';
+import { useSyncRuns } from './hooks/useSyncRuns';
+import { useUrlParam } from './hooks/useUrlParam';
 import { AnalyticsTab } from './components/AnalyticsTab';
 import { ErrorBanner } from './components/ErrorBanner';
 import { ExportMenu } from './components/ExportMenu';
 import { Layout } from './components/Layout';
+import { RateLimitIndicator } from './components/RateLimitIndicator';
 import { ReposTab } from './components/ReposTab';
 import { SetupWizard } from './components/SetupWizard';
 import { SettingsPanel } from './components/SettingsPanel';
 import { SummaryCards } from './components/SummaryCards';
+import { SyncHistoryTab } from './components/SyncHistoryTab';
 import { TabNav } from './components/TabNav';
 import { deleteRepo, filterReposByName, filterReposBySeverity, sortRepos } from './api/client';
+import { TREND_BUCKETS, TREND_RANGES } from './utils/range';
 
-type Tab = 'repos' | 'analytics';
+type Tab = 'repos' | 'analytics' | 'sync';
 import type { AnalyticsSubTab } from './components/AnalyticsTab';
 
 const MAIN_TABS: { id: Tab; label: string }[] = [
   { id: 'repos', label: 'Repos' },
   { id: 'analytics', label: 'Analytics' },
+  { id: 'sync', label: 'Sync history' },
 ];
 
+// Stable references so the URL param hooks don't resubscribe every render
+const TREND_RANGE_IDS = TREND_RANGES.map((r) => r.id);
+const TREND_BUCKET_IDS = TREND_BUCKETS.map((b) => b.id);
+
 function NormalDashboard({
   theme,
   toggle,
@@ -38,10 +55,28 @@ function NormalDashboard({
   const [activeTab, setActiveTab] = useState<Tab>('repos');
   const [analyticsSubTab, setAnalyticsSubTab] =
     useState<AnalyticsSubTab>('trends');
+  const [groupId, setGroupId] = useState<number | null>(null);
+
+  const [rangeId, setRangeId] = useUrlParam('range', TREND_RANGE_IDS, 'all');
+  const [bucket, setBucket] = useUrlParam('bucket', TREND_BUCKET_IDS, 'day');
 
   const history = useHistory(
-    activeTab === 'analytics' && analyticsSubTab === 'trends'
+    activeTab === 'analytics' && analyticsSubTab === 'trends',
+    groupId,
+    { days: TREND_RANGES.find((r) => r.id === rangeId)?.days, bucket }
+  );
+  // Also feeds the group picker on the trends sub-tab
+  const groupRollups = useGroupRollups(activeTab === 'analytics');
+  const risk = useRiskLeaderboard(activeTab === 'analytics' && analyticsSubTab === 'risk');
+  const exceptions = useRiskExceptions(
+    activeTab === 'analytics' && analyticsSubTab === 'accepted',
+    () => {
+      dashboard.reload();
+      risk.reload();
+      history.reload();
+    }
   );
+  const closed = useClosedAlerts(activeTab === 'analytics' && analyticsSubTab === 'closed');
   const vulnDep = useVulnDep(
     activeTab === 'analytics' &&
       (analyticsSubTab === 'vulnerabilities' ||
@@ -52,8 +87,12 @@ function NormalDashboard({
     activeTab === 'analytics' && analyticsSubTab === 'action-plan'
   );
   const repoFixAdvisor = useRepoFixAdvisor(dashboard.selectedRepo);
+  const codeScanning = useCodeScanningAlerts(dashboard.selectedRepo);
+  const secretScanning = useSecretScanningAlerts(dashboard.selectedRepo);
 
   const timeline = useAlertTimeline(dashboard.selectedRepo);
+  const scheduler = useSchedulerStatus(dashboard.bulkRefreshing);
+  const syncRuns = useSyncRuns(activeTab === 'sync', dashboard.bulkRefreshing);
 
   const sortedRepos = sortRepos(
     filterReposBySeverity(filterReposByName(dashboard.repos, ''), {
@@ -71,12 +110,37 @@ function NormalDashboard({
       onToggleTheme={toggle}
       headerRight={
         <div className="flex items-center gap-2">
+          <RateLimitIndicator rateLimit={scheduler.status?.rateLimit ?? null} />
           <ExportMenu
             repos={sortedRepos}
             alerts={dashboard.repoAlerts?.alerts ?? null}
             selectedRepo={dashboard.selectedRepo}
           />
-          <SettingsPanel onReset={onReset} />
+          <SettingsPanel
+            onReset={onReset}
+            onDiscovered={dashboard.reload}
+            repos={dashboard.repos.map((r) => r.repo)}
+            onGroupsChanged={() => {
+              setGroupId(null);
+              dashboard.reload();
+              groupRollups.reload();
+            }}
+            onSlaPolicyChanged={() => {
+              history.reload();
+              groupRollups.reload();
+              dashboard.reload();
+              risk.reload();
+            }}
+            onRiskWeightsChanged={() => {
+              dashboard.reload();
+              risk.reload();
+            }}
+            onThreatIntelImported={() => {
+              dashboard.reload();
+              risk.reload();
+              vulnDep.reload();
+            }}
+          />
         </div>
       }
     >
@@ -114,6 +178,8 @@ function NormalDashboard({
               repoAlerts={dashboard.repoAlerts}
               timeline={timeline}
               fixAdvisor={repoFixAdvisor}
+              codeScanning={codeScanning}
+              secretScanning={secretScanning}
               bulkRefreshing={dashboard.bulkRefreshing}
               refreshProgress={dashboard.refreshProgress}
               refreshDone={dashboard.refreshDone}
@@ -131,6 +197,7 @@ function NormalDashboard({
                 await deleteRepo(owner, name);
                 await dashboard.reload();
               }}
+              onAlertsChanged={dashboard.reloadAlerts}
             />
           )}
 
@@ -139,10 +206,28 @@ function NormalDashboard({
               history={history}
               vulnDep={vulnDep}
               actionPlan={actionPlan}
+              groupRollups={groupRollups}
+              risk={risk}
+              exceptions={exceptions}
+              closed={closed}
+              repos={dashboard.repos.map((r) => r.repo)}
+              groupId={groupId}
+              onGroupChange={setGroupId}
+              rangeId={rangeId}
+              onRangeChange={setRangeId}
+              bucket={bucket}
+              onBucketChange={setBucket}
               activeSubTab={analyticsSubTab}
               onSubTabChange={setAnalyticsSubTab}
+              onAlertsTriaged={() => {
+                dashboard.reload();
+                vulnDep.reload();
+                risk.reload();
+              }}
             />
           )}
+
+          {activeTab === 'sync' && <SyncHistoryTab syncRuns={syncRuns} />}
         </div>
       )}
     </Layout>
@@ -1,32 +1,51 @@
 // Re-export shared types from the single source of truth
 export type {
   ActionPlanEntry,
+  AlertSource,
   AlertTimelineEntry,
+  CodeScanningAlert,
   DependencyGroup,
   EcosystemBreakdown,
   FixAction,
   FixActionAlert,
   FixAdvisorResponse,
   MttrMetric,
+  RateLimitStatus,
+  RepoErrorKind,
+  RepoMetadata,
   RepoOption,
   RepoSummary,
+  RepoSyncError,
+  RepoVisibility,
+  SecretMttrMetric,
+  SecretScanningAlert,
+  SecretSlaViolation,
   SeverityCounts,
   SlaViolation,
   TrendPoint,
   VulnerabilityGroup,
 } from '../../../shared/types';
 
-import type { RepoSummary, SeverityCounts } from '../../../shared/types';
+import type {
+  AlertSource,
+  CodeScanningAlert,
+  RepoSummary,
+  RepoSyncError,
+  RepoVisibility,
+  SecretScanningAlert,
+  SeverityCounts,
+} from '../../../shared/types';
 
 // --- Sorting types and helpers ---
 
-export type RepoSortOption = 'name' | 'critical' | 'total';
+export type RepoSortOption = 'name' | 'critical' | 'total' | 'risk';
 
 /**
  * Sort repos by the given option.
  * - 'name': alphabetical by repo name (A-Z)
  * - 'critical': most critical first, then high, then total alerts
  * - 'total': most alerts first, then critical as tiebreaker
+ * - 'risk': highest risk score first, then critical as tiebreaker
  */
 export function sortRepos(
   repos: RepoSummary[],
@@ -63,6 +82,13 @@ export function sortRepos(
         return bCrit - aCrit;
       });
       break;
+
+    case 'risk':
+      sorted.sort((a, b) => {
+        if (b.riskScore !== a.riskScore) return b.riskScore - a.riskScore;
+        return (b.severityCounts.critical ?? 0) - (a.severityCounts.critical ?? 0);
+      });
+      break;
   }
 
   return sorted;
@@ -104,12 +130,92 @@ export function filterReposBySeverity(
   });
 }
 
+export type SourceFilter = 'all' | AlertSource;
+
+/**
+ * Narrow each repo's counts to a single alert source so sorting and
+ * severity filtering operate on that source only. 'all' is a no-op.
+ */
+export function selectRepoSource(
+  repos: RepoSummary[],
+  source: SourceFilter
+): RepoSummary[] {
+  if (source === 'all') return repos;
+
+  return repos.map((r) => {
+    const severityCounts = r.sourceCounts[source] ?? {};
+    const totalAlerts = Object.values(severityCounts).reduce((sum, n) => sum + n, 0);
+    return { ...r, severityCounts, totalAlerts };
+  });
+}
+
+export type MetadataFilter = {
+  topic: string | null;
+  visibility: RepoVisibility | null;
+  language: string | null;
+  archived: 'all' | 'active' | 'archived';
+  /** Group name; repos outside the group are hidden. */
+  group: string | null;
+};
+
+export const EMPTY_METADATA_FILTER: MetadataFilter = {
+  topic: null,
+  visibility: null,
+  language: null,
+  archived: 'all',
+  group: null,
+};
+
+/**
+ * Filter repos by their GitHub metadata and group. Repos without metadata
+ * only pass when no topic, visibility or language is selected.
+ */
+export function filterReposByMetadata(
+  repos: RepoSummary[],
+  filter: MetadataFilter
+): RepoSummary[] {
+  return repos.filter((r) => {
+    const meta = r.metadata;
+    if (filter.topic && !meta?.topics.includes(filter.topic)) return false;
+    if (filter.visibility && meta?.visibility !== filter.visibility) return false;
+    if (filter.language && meta?.language !== filter.language) return false;
+    if (filter.archived !== 'all') {
+      const archived = meta?.archived === true || r.upstreamState === 'archived';
+      if (archived !== (filter.archived === 'archived')) return false;
+    }
+    if (filter.group && !r.groups.includes(filter.group)) return false;
+    return true;
+  });
+}
+
+/** Distinct topics, languages and groups across repos, sorted, for the filter menus. */
+export function collectMetadataOptions(repos: RepoSummary[]): {
+  topics: string[];
+  languages: string[];
+  groups: string[];
+} {
+  const topics = new Set<string>();
+  const languages = new Set<string>();
+  const groups = new Set<string>();
+  for (const r of repos) {
+    r.metadata?.topics.forEach((t) => topics.add(t));
+    if (r.metadata?.language) languages.add(r.metadata.language);
+    r.groups.forEach((g) => groups.add(g));
+  }
+  return {
+    topics: [...topics].sort(),
+    languages: [...languages].sort((a, b) => a.localeCompare(b)),
+    groups: [...groups].sort((a, b) => a.localeCompare(b)),
+  };
+}
+
 // --- Frontend-only types ---
 
 export type SummaryResponse = {
   totalRepos: number;
   totalAlerts: number;
   severityCounts: SeverityCounts;
+  sourceCounts: Partial<Record<AlertSource, SeverityCounts>>;
 };
 
 export type Alert = {
@@ -130,6 +236,24 @@ export type Alert = {
   advisorySummary: string | null;
   cvssScore: number | null;
   patchedVersion: string | null;
+  /** Set while dismissed; see `DismissReason`. */
+  dismissedReason: DismissReason | null;
+  dismissedComment: string | null;
+  /** Login of the user who dismissed the alert. */
+  dismissedBy: string | null;
+  /** EPSS score and percentile of the CVE, when imported. */
+  epssScore: number | null;
+  epssPercentile: number | null;
+  /** CVE is in the CISA Known Exploited Vulnerabilities catalog. */
+  kev: boolean;
+  /** CODEOWNERS owners of the manifest path. */
+  owners: string[];
+  /** Expiry of the active risk exception covering the alert, if any. */
+  acceptedUntil: string | null;
+  /** Local annotation; see `saveAlertAnnotation`. */
+  note: string | null;
+  tags: string[];
+  assignee: string | null;
 };
 
 export type RepoAlertsResponse = {
@@ -153,11 +277,21 @@ async function request<T>(url: string, options?: RequestInit): Promise<T> {
   const response = await fetch(url, options);
   if (!response.ok) {
     const body = await response.text().catch(() => 'Unknown error');
-    throw new ApiError(response.status, body);
+    throw new ApiError(response.status, errorMessage(body));
   }
   return response.json() as Promise<T>;
 }
 
+/** The `error` field of a JSON error response, or the raw body. */
+function errorMessage(body: string): string {
+  try {
+    const parsed = JSON.parse(body) as { error?: unknown };
+    return typeof parsed.error === 'string' ? parsed.error : body;
+  } catch {
+    return body;
+  }
+}
+
 /** Global summary: total repos, total alerts, severity breakdown. */
 export function fetchSummary(): Promise<SummaryResponse> {
   return request<SummaryResponse>('/api/summary');
@@ -178,6 +312,26 @@ export function fetchRepoAlerts(
   );
 }
 
+/** Code scanning alerts for one repo, most severe first. */
+export function fetchCodeScanningAlerts(
+  owner: string,
+  name: string
+): Promise<CodeScanningAlert[]> {
+  return request<CodeScanningAlert[]>(
+    `/api/repos/${encodeURIComponent(owner)}/${encodeURIComponent(name)}/code-scanning`
+  );
+}
+
+/** Secret scanning alerts for one repo, open alerts first. */
+export function fetchSecretScanningAlerts(
+  owner: string,
+  name: string
+): Promise<SecretScanningAlert[]> {
+  return request<SecretScanningAlert[]>(
+    `/api/repos/${encodeURIComponent(owner)}/${encodeURIComponent(name)}/secret-scanning`
+  );
+}
+
 /** Remove a tracked repo and all its alerts/history from the database. */
 export function deleteRepo(owner: string, name: string): Promise<{ ok: boolean }> {
   return request<{ ok: boolean }>(
@@ -192,7 +346,7 @@ export function refreshRepo(
   name: string
 ): Promise<RepoAlertsResponse> {
   return request<RepoAlertsResponse>(
-    `/api/repos/${encodeURIComponent(owner)}/${encodeURIComponent(name)}/refresh`,
+    `/api/repos/${encodeURIComponent(owner)}/${encodeURIComponent(name)}/refresh?trigger=manual`,
     { method: 'POST' }
   );
 }
@@ -201,13 +355,14 @@ export function refreshRepo(
 
 export type BulkRefreshResponse = {
   refreshed: number;
+  unchanged: number;
   total: number;
-  results: { repo: string; success: boolean }[];
+  results: { repo: string; success: boolean; unchanged: boolean }[];
 };
 
 /** Refresh all tracked repos from GitHub in a single request. */
 export function refreshAllRepos(): Promise<BulkRefreshResponse> {
-  return request<BulkRefreshResponse>('/api/repos/refresh-all', {
+  return request<BulkRefreshResponse>('/api/repos/refresh-all?trigger=manual', {
     method: 'POST',
   });
 }
@@ -217,10 +372,16 @@ export type BulkRefreshProgress = {
   total: number;
   repo: string;
   success: boolean;
+  unchanged: boolean;
+  error: RepoSyncError | null;
 };
 
+/** `unchanged` repos answered 304 Not Modified and are included in `refreshed`. */
 export type BulkRefreshDone = {
+  /** Sync run recorded for this refresh; absent in scheduler status. */
+  runId?: number;
   refreshed: number;
+  unchanged: number;
   failed: number;
   total: number;
 };
@@ -229,7 +390,7 @@ export type BulkRefreshDone = {
 export async function refreshAllReposStream(
   onProgress: (event: BulkRefreshProgress) => void
 ): Promise<BulkRefreshDone> {
-  const response = await fetch('/api/repos/refresh-all', { method: 'POST' });
+  const response = await fetch('/api/repos/refresh-all?trigger=manual', { method: 'POST' });
   if (!response.ok || !response.body) throw new ApiError(response.status, 'Stream failed');
 
   const reader = response.body.getReader();
@@ -260,20 +421,420 @@ export async function refreshAllReposStream(
   throw new Error('Stream ended without a done event');
 }
 
+// --- Alert triage ---
+
+import type { AlertRef, AlertStateChangeResult, DismissReason } from '../../../shared/types';
+export type { AlertRef, AlertStateChangeResult, DismissReason } from '../../../shared/types';
+
+/** Alerts to change: an explicit list, or every alert of one advisory. */
+export type AlertTarget = { alerts: AlertRef[] } | { ghsaId: string };
+
+/** Dismiss alerts on GitHub; the stored alerts update straight away. */
+export function dismissAlerts(
+  target: AlertTarget,
+  reason: DismissReason,
+  comment?: string
+): Promise<AlertStateChangeResult> {
+  return request<AlertStateChangeResult>('/api/alerts/dismiss', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...target, reason, comment }),
+  });
+}
+
+/** Reopen dismissed alerts on GitHub. */
+export function reopenAlerts(target: AlertTarget): Promise<AlertStateChangeResult> {
+  return request<AlertStateChangeResult>('/api/alerts/reopen', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(target),
+  });
+}
+
+// --- Alert annotations ---
+
+import type { AlertAnnotation, AlertAnnotationInput } from '../../../shared/types';
+export type { AlertAnnotation, AlertAnnotationInput } from '../../../shared/types';
+
+function annotationUrl(owner: string, name: string, alertNumber: number): string {
+  return `/api/repos/${encodeURIComponent(owner)}/${encodeURIComponent(name)}/alerts/${alertNumber}/annotation`;
+}
+
+/** Replace an alert's local note, tags and assignee. */
+export function saveAlertAnnotation(
+  owner: string,
+  name: string,
+  alertNumber: number,
+  input: AlertAnnotationInput
+): Promise<AlertAnnotation> {
+  return request<AlertAnnotation>(annotationUrl(owner, name, alertNumber), {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+}
+
+/** Remove an alert's annotation. */
+export function deleteAlertAnnotation(
+  owner: string,
+  name: string,
+  alertNumber: number
+): Promise<{ ok: boolean }> {
+  return request<{ ok: boolean }>(annotationUrl(owner, name, alertNumber), { method: 'DELETE' });
+}
+
+// --- Scheduler ---
+
+import type { RateLimitStatus } from '../../../shared/types';
+
+export type SchedulerStatus = {
+  running: boolean;
+  cronExpression: string;
+  lastRun: string | null;
+  lastResult: BulkRefreshDone | null;
+  nextRun: string | null;
+  rateLimit: RateLimitStatus | null;
+  /** Quota of every configured host, keyed by host name. */
+  rateLimits: Record<string, RateLimitStatus | null>;
+};
+
+/** Background scheduler state and the remaining GitHub API quota. */
+export function fetchSchedulerStatus(): Promise<SchedulerStatus> {
+  return request<SchedulerStatus>('/api/scheduler');
+}
+
+// --- Sync history ---
+
+import type { SyncRunDetail, SyncRunPage, SyncRunRepo, SyncTrigger } from '../../../shared/types';
+export type { SyncRun, SyncRunDetail, SyncRunPage, SyncRunRepo, SyncTrigger } from '../../../shared/types';
+
+/** A page of recorded sync runs, newest first. */
+export function fetchSyncRuns(
+  offset: number,
+  limit: number,
+  trigger?: SyncTrigger | null
+): Promise<SyncRunPage> {
+  const params = new URLSearchParams({ offset: String(offset), limit: String(limit) });
+  if (trigger) params.set('trigger', trigger);
+  return request<SyncRunPage>(`/api/sync-runs?${params}`);
+}
+
+/** One sync run with the outcome of every repo it refreshed. */
+export function fetchSyncRun(id: number): Promise<SyncRunDetail> {
+  return request<SyncRunDetail>(`/api/sync-runs/${id}`);
+}
+
+/** Sync outcomes of a single repo across runs. */
+export function fetchRepoSyncRuns(owner: string, name: string): Promise<SyncRunRepo[]> {
+  return request<SyncRunRepo[]>(
+    `/api/repos/${encodeURIComponent(owner)}/${encodeURIComponent(name)}/sync-runs`
+  );
+}
+
+// --- Watch targets ---
+
+import type { DiscoveryResult, WatchTarget, WatchTargetInput } from '../../../shared/types';
+export type { DiscoveryResult, WatchTarget, WatchTargetInput } from '../../../shared/types';
+
+export type DiscoveryResponse = DiscoveryResult & { runId: number | null };
+
+/** Users and orgs whose new repos are tracked automatically. */
+export function fetchWatchTargets(): Promise<WatchTarget[]> {
+  return request<WatchTarget[]>('/api/watch-targets');
+}
+
+/** Start watching a user or org. */
+export function addWatchTarget(input: WatchTargetInput): Promise<WatchTarget> {
+  return request<WatchTarget>('/api/watch-targets', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+}
+
+/** Stop watching a user or org; its repos stay tracked. */
+export function removeWatchTarget(id: number): Promise<{ ok: boolean }> {
+  return request<{ ok: boolean }>(`/api/watch-targets/${id}`, { method: 'DELETE' });
+}
+
+/** Re-list every watch target now, syncing any new repos. */
+export function runDiscovery(): Promise<DiscoveryResponse> {
+  return request<DiscoveryResponse>('/api/watch-targets/discover?trigger=manual', {
+    method: 'POST',
+  });
+}
+
+// --- Repo groups ---
+
+import type { GroupRollup, RepoGroup, RepoGroupInput } from '../../../shared/types';
+export type { GroupRollup, RepoGroup, RepoGroupInput } from '../../../shared/types';
+
+export type GroupImportResponse = { imported: number; groups: RepoGroup[] };
+
+/** User-defined and imported repo groups. */
+export function fetchGroups(): Promise<RepoGroup[]> {
+  return request<RepoGroup[]>('/api/groups');
+}
+
+/** Create a group from a name and repo keys. */
+export function createGroup(input: RepoGroupInput): Promise<RepoGroup> {
+  return request<RepoGroup>('/api/groups', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+}
+
+/** Rename a group or replace its repos. */
+export function updateGroup(id: number, input: Partial<RepoGroupInput>): Promise<RepoGroup> {
+  return request<RepoGroup>(`/api/groups/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+}
+
+/** Delete a group; its repos stay tracked. */
+export function deleteGroup(id: number): Promise<{ ok: boolean }> {
+  return request<{ ok: boolean }>(`/api/groups/${id}`, { method: 'DELETE' });
+}
+
+/** Import (or refresh) one group per GitHub team of an org. */
+export function importTeams(org: string, host?: string): Promise<GroupImportResponse> {
+  return request<GroupImportResponse>('/api/groups/import', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ org, host }),
+  });
+}
+
+/** Open alerts, overdue alerts and MTTR per group. */
+export function fetchGroupRollups(): Promise<GroupRollup[]> {
+  return request<GroupRollup[]>('/api/groups/rollup');
+}
+
+// --- Settings ---
+
+import type { SlaPolicy } from '../../../shared/types';
+export type { SlaLimits, SlaOverride, SlaPolicy, SlaSeverity } from '../../../shared/types';
+
+/** SLA limits per severity with per-group and per-repo overrides. */
+export function fetchSlaPolicy(): Promise<SlaPolicy> {
+  return request<SlaPolicy>('/api/settings/sla');
+}
+
+/** Replace the SLA policy. */
+export function saveSlaPolicy(policy: SlaPolicy): Promise<SlaPolicy> {
+  return request<SlaPolicy>('/api/settings/sla', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(policy),
+  });
+}
+
+import type { RiskWeights } from '../../../shared/types';
+export type { RiskWeights } from '../../../shared/types';
+
+/** Weights of the repo risk score. */
+export function fetchRiskWeights(): Promise<RiskWeights> {
+  return request<RiskWeights>('/api/settings/risk');
+}
+
+/** Replace the risk weights. */
+export function saveRiskWeights(weights: RiskWeights): Promise<RiskWeights> {
+  return request<RiskWeights>('/api/settings/risk', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(weights),
+  });
+}
+
+import type { ThreatDataset, ThreatDatasetStatus } from '../../../shared/types';
+export type { ThreatDataset, ThreatDatasetStatus } from '../../../shared/types';
+
+/** Last import of each threat intel dataset. */
+export function fetchThreatIntelStatus(): Promise<ThreatDatasetStatus[]> {
+  return request<ThreatDatasetStatus[]>('/api/threat-intel');
+}
+
+/** Import EPSS scores or the KEV catalog from the server's configured feed. */
+export function importThreatDataset(dataset: ThreatDataset): Promise<ThreatDatasetStatus> {
+  return request<ThreatDatasetStatus>(`/api/threat-intel/${dataset}/import`, {
+    method: 'POST',
+  });
+}
+
+// --- Risk exceptions ---
+
+import type {
+  RiskException,
+  RiskExceptionInput,
+  RiskExceptionStatus,
+  RiskExceptionUpdate,
+} from '../../../shared/types';
+export type {
+  AcceptedAlert,
+  RiskException,
+  RiskExceptionEvent,
+  RiskExceptionInput,
+  RiskExceptionScope,
+  RiskExceptionStatus,
+  RiskExceptionUpdate,
+} from '../../../shared/types';
+
+/** Risk exceptions with their audit trail and covered alerts, newest first. */
+export function fetchRiskExceptions(status?: RiskExceptionStatus): Promise<RiskException[]> {
+  const qs = status ? `?status=${status}` : '';
+  return request<RiskException[]>(`/api/exceptions${qs}`);
+}
+
+/** Accept the risk of an alert, advisory, package or repo until a date. */
+export function createRiskException(input: RiskExceptionInput): Promise<RiskException> {
+  return request<RiskException>('/api/exceptions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+}
+
+/** Change an exception's justification, approver or expiry. */
+export function updateRiskException(
+  id: number,
+  update: RiskExceptionUpdate
+): Promise<RiskException> {
+  return request<RiskException>(`/api/exceptions/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(update),
+  });
+}
+
+/** End an exception early so its alerts count again. */
+export function revokeRiskException(
+  id: number,
+  actor: string,
+  reason?: string
+): Promise<RiskException> {
+  return request<RiskException>(`/api/exceptions/${id}/revoke`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ actor, reason }),
+  });
+}
+
+// --- Notifications ---
+
+import type { NotificationChannel, NotificationChannelInput } from '../../../shared/types';
+export type {
+  NotificationChannel,
+  NotificationChannelInput,
+  NotificationChannelType,
+  NotificationEventKind,
+} from '../../../shared/types';
+
+/** Channels notified of new, reopened and SLA-breached alerts after each sync. */
+export function fetchNotificationChannels(): Promise<NotificationChannel[]> {
+  return request<NotificationChannel[]>('/api/notifications/channels');
+}
+
+/** Add a Slack, Teams, webhook or email channel. */
+export function createNotificationChannel(
+  input: NotificationChannelInput
+): Promise<NotificationChannel> {
+  return request<NotificationChannel>('/api/notifications/channels', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+}
+
+/** Change some of a channel's settings, e.g. turn it off. */
+export function updateNotificationChannel(
+  id: number,
+  update: Partial<NotificationChannelInput>
+): Promise<NotificationChannel> {
+  return request<NotificationChannel>(`/api/notifications/channels/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(update),
+  });
+}
+
+/** Remove a channel. */
+export function deleteNotificationChannel(id: number): Promise<{ ok: boolean }> {
+  return request<{ ok: boolean }>(`/api/notifications/channels/${id}`, { method: 'DELETE' });
+}
+
+/** Send a sample event to a channel. */
+export function testNotificationChannel(id: number): Promise<{ ok: boolean }> {
+  return request<{ ok: boolean }>(`/api/notifications/channels/${id}/test`, { method: 'POST' });
+}
+
 // --- History analytics fetchers ---
 
-import type { AlertTimelineEntry, MttrMetric, SlaViolation, TrendPoint } from '../../../shared/types';
+import type {
+  AlertTimelineEntry,
+  HistoryRange,
+  MttrDistribution,
+  MttrMetric,
+  SlaComplianceReport,
+  SlaViolation,
+  TrendPoint,
+} from '../../../shared/types';
+export type { HistoryRange, TrendBucket } from '../../../shared/types';
+export type {
+  MttrDistribution,
+  MttrPeriodStats,
+  MttrSeverityDistribution,
+  MttrStats,
+} from '../../../shared/types';
+export type {
+  LateResolvedAlert,
+  SlaCompliancePeriod,
+  SlaComplianceReport,
+  SlaComplianceStat,
+} from '../../../shared/types';
 
-/** Daily trend data: open alert counts grouped by severity. */
-export function fetchTrends(repo?: string | null): Promise<TrendPoint[]> {
-  const params = repo ? `?repo=${encodeURIComponent(repo)}` : '';
-  return request<TrendPoint[]>(`/api/history/trends${params}`);
+/** Builds a query string from the set values, e.g. `?repo=a%2Fb&group=3`. */
+function toQuery(values: Record<string, string | number | null | undefined>): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(values)) {
+    if (value != null && value !== '') params.set(key, String(value));
+  }
+  const query = params.toString();
+  return query ? `?${query}` : '';
 }
 
-/** MTTR metrics: average remediation time per repo and severity. */
-export function fetchMttr(repo?: string | null): Promise<MttrMetric[]> {
-  const params = repo ? `?repo=${encodeURIComponent(repo)}` : '';
-  return request<MttrMetric[]>(`/api/history/mttr${params}`);
+/** A history range; `days` is shorthand for the last N days up to `to`. */
+export type HistoryQuery = HistoryRange & { days?: number | null };
+
+/** Trend data: open alert counts grouped by severity, per day, week or month. */
+export function fetchTrends(
+  repo?: string | null,
+  group?: number | null,
+  range: HistoryQuery = {}
+): Promise<TrendPoint[]> {
+  return request<TrendPoint[]>(`/api/history/trends${toQuery({ repo, group, ...range })}`);
+}
+
+/** MTTR metrics: average remediation time per repo and severity, split per period with a bucket. */
+export function fetchMttr(
+  repo?: string | null,
+  group?: number | null,
+  range: HistoryQuery = {}
+): Promise<MttrMetric[]> {
+  return request<MttrMetric[]>(`/api/history/mttr${toQuery({ repo, group, ...range })}`);
+}
+
+/** MTTR distribution: mean, median, p75 and p90 per severity and per period (month by default). */
+export function fetchMttrDistribution(
+  repo?: string | null,
+  group?: number | null,
+  range: HistoryQuery = {}
+): Promise<MttrDistribution> {
+  return request<MttrDistribution>(
+    `/api/history/mttr/distribution${toQuery({ repo, group, ...range })}`
+  );
 }
 
 /** Per-alert state transitions for a given repo. */
@@ -287,8 +848,34 @@ export function fetchAlertHistory(
 }
 
 /** SLA violations: open alerts exceeding time thresholds. */
-export function fetchSlaViolations(): Promise<SlaViolation[]> {
-  return request<SlaViolation[]>('/api/history/sla');
+export function fetchSlaViolations(
+  source?: AlertSource | null,
+  group?: number | null
+): Promise<SlaViolation[]> {
+  return request<SlaViolation[]>(`/api/history/sla${toQuery({ source, group })}`);
+}
+
+/** SLA attainment, breach days and late resolutions per quarter; defaults to the last four quarters. */
+export function fetchSlaCompliance(
+  range: { from?: string; to?: string } = {},
+  group?: number | null
+): Promise<SlaComplianceReport> {
+  return request<SlaComplianceReport>(
+    `/api/history/sla/compliance${toQuery({ from: range.from, to: range.to, group })}`
+  );
+}
+
+import type { SecretMttrMetric, SecretSlaViolation } from '../../../shared/types';
+
+/** Secret scanning MTTR per repo. */
+export function fetchSecretMttr(repo?: string | null): Promise<SecretMttrMetric[]> {
+  const params = repo ? `?repo=${encodeURIComponent(repo)}` : '';
+  return request<SecretMttrMetric[]>(`/api/history/secrets/mttr${params}`);
+}
+
+/** Open secret scanning alerts checked against the secret SLA. */
+export function fetchSecretSlaViolations(): Promise<SecretSlaViolation[]> {
+  return request<SecretSlaViolation[]>('/api/history/secrets/sla');
 }
 
 // --- Cross-repo analytics fetchers ---
@@ -310,6 +897,49 @@ export function fetchEcosystems(): Promise<EcosystemBreakdown[]> {
   return request<EcosystemBreakdown[]>('/api/analytics/ecosystems');
 }
 
+import type { RepoRisk } from '../../../shared/types';
+export type { RepoRisk } from '../../../shared/types';
+
+/** Risk leaderboard: every tracked repo by risk score, highest first. */
+export function fetchRiskLeaderboard(group?: number | null): Promise<RepoRisk[]> {
+  return request<RepoRisk[]>(`/api/analytics/risk${toQuery({ group })}`);
+}
+
+// --- Closed alerts ---
+
+import type {
+  AlertState,
+  ClosedAlertPage,
+  DismissalAnalytics,
+} from '../../../shared/types';
+export type {
+  AlertState,
+  ClosedAlert,
+  ClosedAlertPage,
+  DismissalAnalytics,
+  DismissalGroupStats,
+} from '../../../shared/types';
+
+export type ClosedAlertFilters = {
+  state?: Exclude<AlertState, 'open'> | null;
+  reason?: DismissReason | null;
+  group?: number | null;
+};
+
+/** Dismissed and fixed alerts across repos, most recently closed first. */
+export function fetchClosedAlerts(
+  offset: number,
+  limit: number,
+  filters: ClosedAlertFilters = {}
+): Promise<ClosedAlertPage> {
+  return request<ClosedAlertPage>(`/api/alerts/closed${toQuery({ offset, limit, ...filters })}`);
+}
+
+/** Dismissed alerts per reason, group and dismisser. */
+export function fetchDismissalAnalytics(group?: number | null): Promise<DismissalAnalytics> {
+  return request<DismissalAnalytics>(`/api/analytics/dismissals${toQuery({ group })}`);
+}
+
 // --- Fix advisor API ---
 
 import type { FixAdvisorResponse } from '../../../shared/types';
@@ -324,9 +954,9 @@ export function fetchFixAdvisor(
   );
 }
 
-/** Cross-repo fix advisor: aggregated across all repos. */
-export function fetchCrossRepoFixAdvisor(): Promise<FixAdvisorResponse> {
-  return request<FixAdvisorResponse>('/api/fix-advisor');
+/** Cross-repo fix advisor: aggregated across all repos, or one group's repos. */
+export function fetchCrossRepoFixAdvisor(group?: number | null): Promise<FixAdvisorResponse> {
+  return request<FixAdvisorResponse>(`/api/fix-advisor${toQuery({ group })}`);
 }
 
 /** Action plan: direct dependencies to update, ranked by impact. */
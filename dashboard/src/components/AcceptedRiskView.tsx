@@ -0,0 +1,449 @@
+import { useState } from 'react';
+import type {
+  RiskException,
+  RiskExceptionInput,
+  RiskExceptionScope,
+  RiskExceptionStatus,
+  RiskExceptionUpdate,
+} from '../api/client';
+import { useExpandableRow } from '../hooks/useExpandableRow';
+import { Card } from './Card';
+import { EmptyState } from './EmptyState';
+import { ErrorBanner } from './ErrorBanner';
+import { ExpandButton } from './ExpandButton';
+import { SeverityBadge } from './SeverityBadge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './Table';
+
+type AcceptedRiskViewProps = {
+  exceptions: {
+    data: RiskException[];
+    loading: boolean;
+    error: string | null;
+    busy: boolean;
+    actionError: string | null;
+    create: (input: RiskExceptionInput) => Promise<boolean>;
+    update: (id: number, changes: RiskExceptionUpdate) => Promise<boolean>;
+    revoke: (id: number, actor: string, reason?: string) => Promise<boolean>;
+  };
+  /** Tracked repo keys offered as suggestions. */
+  repos: string[];
+};
+
+type Draft = {
+  scope: RiskExceptionScope;
+  repo: string;
+  alertNumber: string;
+  ghsaId: string;
+  packageName: string;
+  ecosystem: string;
+  justification: string;
+  approver: string;
+  expiresAt: string;
+};
+
+/** Inline renew or revoke form open on one exception. */
+type Pending = { id: number; kind: 'renew' | 'revoke'; value: string };
+
+const INPUT_CLASS =
+  'rounded-md border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300';
+
+const SCOPES: { id: RiskExceptionScope; label: string }[] = [
+  { id: 'alert', label: 'One alert' },
+  { id: 'advisory', label: 'Advisory (GHSA)' },
+  { id: 'package', label: 'Package' },
+  { id: 'repo', label: 'Whole repo' },
+];
+
+const STATUS_ORDER: RiskExceptionStatus[] = ['active', 'expired', 'revoked'];
+
+const STATUS_BADGE: Record<RiskExceptionStatus, string> = {
+  active: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+  expired: 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-400',
+  revoked: 'bg-slate-100 text-slate-500 line-through dark:bg-slate-800 dark:text-slate-500',
+};
+
+const EMPTY_DRAFT: Draft = {
+  scope: 'alert',
+  repo: '',
+  alertNumber: '',
+  ghsaId: '',
+  packageName: '',
+  ecosystem: '',
+  justification: '',
+  approver: '',
+  expiresAt: '',
+};
+
+/** What an exception covers, e.g. `octo/app#12` or `lodash (npm) in all repos`. */
+function describeTarget(exception: RiskException): string {
+  const where = exception.repo ?? 'all repos';
+  switch (exception.scope) {
+    case 'alert':
+      return `${exception.repo}#${exception.alertNumber}`;
+    case 'advisory':
+      return `${exception.ghsaId} in ${where}`;
+    case 'package':
+      return `${exception.packageName}${exception.ecosystem ? ` (${exception.ecosystem})` : ''} in ${where}`;
+    case 'repo':
+      return `All alerts in ${exception.repo}`;
+  }
+}
+
+/** Builds the create request, or null while a field the scope needs is blank. */
+function toInput(draft: Draft): RiskExceptionInput | null {
+  const text = (value: string) => value.trim() || null;
+  const alertNumber = Number(draft.alertNumber);
+  const input: RiskExceptionInput = {
+    scope: draft.scope,
+    repo: text(draft.repo),
+    alertNumber: draft.scope === 'alert' && Number.isInteger(alertNumber) ? alertNumber : null,
+    ghsaId: draft.scope === 'advisory' ? text(draft.ghsaId) : null,
+    packageName: draft.scope === 'package' ? text(draft.packageName) : null,
+    ecosystem: draft.scope === 'package' ? text(draft.ecosystem) : null,
+    justification: draft.justification.trim(),
+    approver: draft.approver.trim(),
+    expiresAt: draft.expiresAt,
+  };
+  const targeted =
+    (draft.scope === 'alert' && input.repo && input.alertNumber) ||
+    (draft.scope === 'advisory' && input.ghsaId) ||
+    (draft.scope === 'package' && input.packageName) ||
+    (draft.scope === 'repo' && input.repo);
+  return targeted && input.justification && input.approver && input.expiresAt ? input : null;
+}
+
+/**
+ * Accepted risk: alerts excluded from SLA and risk metrics by a time-boxed
+ * exception. Lists exceptions by status with their covered alerts and audit
+ * trail, and creates, renews or revokes them.
+ */
+export function AcceptedRiskView({ exceptions, repos }: AcceptedRiskViewProps) {
+  const { isExpanded, toggle } = useExpandableRow();
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [actor, setActor] = useState('');
+  const [pending, setPending] = useState<Pending | null>(null);
+
+  const input = toInput(draft);
+  const today = new Date().toISOString().slice(0, 10);
+  const set = (key: keyof Draft) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setDraft((prev) => ({ ...prev, [key]: e.target.value }));
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (input && (await exceptions.create(input))) setDraft(EMPTY_DRAFT);
+  };
+
+  const handleConfirm = async () => {
+    if (!pending || !actor.trim()) return;
+    const done =
+      pending.kind === 'renew'
+        ? await exceptions.update(pending.id, { actor: actor.trim(), expiresAt: pending.value })
+        : await exceptions.revoke(pending.id, actor.trim(), pending.value.trim() || undefined);
+    if (done) setPending(null);
+  };
+
+  if (exceptions.loading && exceptions.data.length === 0) {
+    return <div className="h-48 animate-pulse rounded-xl bg-slate-200 dark:bg-slate-800" />;
+  }
+  if (exceptions.error) return <ErrorBanner message={exceptions.error} />;
+
+  const accepted = exceptions.data
+    .filter((x) => x.status === 'active')
+    .reduce((sum, x) => sum + x.alerts.length, 0);
+  const sorted = [...exceptions.data].sort(
+    (a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status)
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-4">
+        <h3 className="mb-1 text-sm font-semibold text-slate-900 dark:text-slate-100">
+          Accept a risk
+        </h3>
+        <p className="mb-3 text-xs text-slate-500 dark:text-slate-400">
+          Accepted Dependabot alerts leave the summary, SLA and risk metrics until the exception
+          expires or is revoked, then count again.
+        </p>
+        <form onSubmit={handleCreate} className="space-y-2">
+          <div className="flex flex-wrap gap-1.5">
+            <select
+              value={draft.scope}
+              onChange={set('scope')}
+              aria-label="Exception scope"
+              className={INPUT_CLASS}
+            >
+              {SCOPES.map((scope) => (
+                <option key={scope.id} value={scope.id}>
+                  {scope.label}
+                </option>
+              ))}
+            </select>
+            <input
+              value={draft.repo}
+              onChange={set('repo')}
+              list="accepted-risk-repos"
+              placeholder={
+                draft.scope === 'alert' || draft.scope === 'repo' ? 'owner/repo' : 'owner/repo (optional)'
+              }
+              aria-label="Repo"
+              className={`${INPUT_CLASS} w-48`}
+            />
+            <datalist id="accepted-risk-repos">
+              {repos.map((repo) => (
+                <option key={repo} value={repo} />
+              ))}
+            </datalist>
+            {draft.scope === 'alert' && (
+              <input
+                type="number"
+                min="1"
+                value={draft.alertNumber}
+                onChange={set('alertNumber')}
+                placeholder="Alert #"
+                aria-label="Alert number"
+                className={`${INPUT_CLASS} w-20`}
+              />
+            )}
+            {draft.scope === 'advisory' && (
+              <input
+                value={draft.ghsaId}
+                onChange={set('ghsaId')}
+                placeholder="GHSA-xxxx-xxxx-xxxx"
+                aria-label="Advisory GHSA ID"
+                className={`${INPUT_CLASS} w-44 font-mono`}
+              />
+            )}
+            {draft.scope === 'package' && (
+              <>
+                <input
+                  value={draft.packageName}
+                  onChange={set('packageName')}
+                  placeholder="Package"
+                  aria-label="Package name"
+                  className={`${INPUT_CLASS} w-36 font-mono`}
+                />
+                <input
+                  value={draft.ecosystem}
+                  onChange={set('ecosystem')}
+                  placeholder="Ecosystem (optional)"
+                  aria-label="Ecosystem"
+                  className={`${INPUT_CLASS} w-36`}
+                />
+              </>
+            )}
+          </div>
+          <input
+            value={draft.justification}
+            onChange={set('justification')}
+            placeholder="Justification, e.g. not reachable from user input"
+            aria-label="Justification"
+            className={`${INPUT_CLASS} w-full`}
+          />
+          <div className="flex flex-wrap items-center gap-1.5">
+            <input
+              value={draft.approver}
+              onChange={set('approver')}
+              placeholder="Approver"
+              aria-label="Approver"
+              className={`${INPUT_CLASS} w-40`}
+            />
+            <label className="flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400">
+              Expires
+              <input
+                type="date"
+                min={today}
+                value={draft.expiresAt}
+                onChange={set('expiresAt')}
+                aria-label="Expiry date"
+                className={INPUT_CLASS}
+              />
+            </label>
+            <button
+              type="submit"
+              disabled={exceptions.busy || !input}
+              className="ml-auto rounded-lg bg-blue-600 px-3 py-1 text-xs font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+            >
+              Accept risk
+            </button>
+          </div>
+        </form>
+        {exceptions.actionError && (
+          <p className="mt-3 text-xs text-red-600 dark:text-red-400">{exceptions.actionError}</p>
+        )}
+      </Card>
+
+      {sorted.length === 0 ? (
+        <EmptyState title="Accepted risk" message="No risk exceptions recorded yet." />
+      ) : (
+        <Card>
+          <div className="flex flex-wrap items-center justify-between gap-2 border-b border-slate-200 px-4 py-3 dark:border-slate-800">
+            <div>
+              <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-100">
+                Accepted risk
+              </h3>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {accepted} open alert{accepted !== 1 ? 's' : ''} currently accepted
+              </p>
+            </div>
+            <input
+              value={actor}
+              onChange={(e) => setActor(e.target.value)}
+              placeholder="Your name (for renew/revoke)"
+              aria-label="Your name"
+              className={`${INPUT_CLASS} w-52`}
+            />
+          </div>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHead>
+                <TableHeader>Status</TableHeader>
+                <TableHeader>Covers</TableHeader>
+                <TableHeader>Justification</TableHeader>
+                <TableHeader>Approver</TableHeader>
+                <TableHeader>Expires</TableHeader>
+                <TableHeader>Alerts</TableHeader>
+                <TableHeader>Actions</TableHeader>
+              </TableHead>
+              <TableBody>
+                {sorted.map((exception) => {
+                  const key = String(exception.id);
+                  const expanded = isExpanded(key);
+                  const open = pending?.id === exception.id ? pending : null;
+
+                  return (
+                    <TableRow key={exception.id}>
+                      <TableCell>
+                        <span
+                          className={`rounded px-1.5 py-0.5 text-[10px] font-medium ${STATUS_BADGE[exception.status]}`}
+                        >
+                          {exception.status}
+                        </span>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs text-slate-700 dark:text-slate-300">
+                        {describeTarget(exception)}
+                      </TableCell>
+                      <TableCell
+                        className="max-w-xs truncate text-xs text-slate-600 dark:text-slate-400"
+                        title={exception.justification}
+                      >
+                        {exception.justification}
+                      </TableCell>
+                      <TableCell className="text-xs text-slate-500 dark:text-slate-400">
+                        {exception.approver}
+                      </TableCell>
+                      <TableCell
+                        className="text-xs text-slate-500 dark:text-slate-400"
+                        title={exception.expiresAt}
+                      >
+                        {exception.expiresAt.slice(0, 10)}
+                      </TableCell>
+                      <TableCell>
+                        <ExpandButton
+                          count={exception.alerts.length}
+                          label="alert"
+                          expanded={expanded}
+                          onClick={() => toggle(key)}
+                        />
+                        {expanded && (
+                          <div className="mt-1 space-y-2">
+                            <div className="space-y-0.5">
+                              {exception.alerts.map((alert) => (
+                                <div
+                                  key={`${alert.repo}#${alert.alertNumber}`}
+                                  className="flex items-center gap-1.5 text-[10px] text-slate-500 dark:text-slate-400"
+                                >
+                                  <SeverityBadge severity={alert.severity} />
+                                  <a
+                                    href={alert.htmlUrl ?? undefined}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="font-mono hover:underline"
+                                  >
+                                    {alert.repo}#{alert.alertNumber}
+                                  </a>
+                                  {alert.packageName}
+                                </div>
+                              ))}
+                            </div>
+                            <ol className="space-y-0.5 border-l border-slate-200 pl-2 dark:border-slate-700">
+                              {exception.events.map((event, i) => (
+                                <li
+                                  key={i}
+                                  className="text-[10px] text-slate-500 dark:text-slate-400"
+                                >
+                                  <span className="font-medium text-slate-700 dark:text-slate-300">
+                                    {event.action}
+                                  </span>{' '}
+                                  by {event.actor} · {event.recordedAt.slice(0, 10)}
+                                  {event.note && <div className="italic">{event.note}</div>}
+                                </li>
+                              ))}
+                            </ol>
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {exception.status === 'revoked' ? (
+                          <span className="text-[10px] text-slate-400 dark:text-slate-500">—</span>
+                        ) : open ? (
+                          <div className="flex items-center gap-1">
+                            <input
+                              type={open.kind === 'renew' ? 'date' : 'text'}
+                              min={open.kind === 'renew' ? today : undefined}
+                              value={open.value}
+                              onChange={(e) => setPending({ ...open, value: e.target.value })}
+                              placeholder={open.kind === 'revoke' ? 'Reason (optional)' : undefined}
+                              aria-label={open.kind === 'renew' ? 'New expiry date' : 'Revoke reason'}
+                              className={`${INPUT_CLASS} w-32`}
+                            />
+                            <button
+                              onClick={handleConfirm}
+                              disabled={
+                                exceptions.busy ||
+                                !actor.trim() ||
+                                (open.kind === 'renew' && !open.value)
+                              }
+                              title={actor.trim() ? undefined : 'Enter your name first'}
+                              className="text-xs font-medium text-blue-600 hover:underline disabled:opacity-50 dark:text-blue-400"
+                            >
+                              {open.kind === 'renew' ? 'Renew' : 'Revoke'}
+                            </button>
+                            <button
+                              onClick={() => setPending(null)}
+                              className="text-xs text-slate-500 hover:underline dark:text-slate-400"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        ) : (
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() =>
+                                setPending({ id: exception.id, kind: 'renew', value: '' })
+                              }
+                              className="text-xs text-blue-600 hover:underline dark:text-blue-400"
+                            >
+                              Renew
+                            </button>
+                            <button
+                              onClick={() =>
+                                setPending({ id: exception.id, kind: 'revoke', value: '' })
+                              }
+                              className="text-xs text-red-600 hover:underline dark:text-red-400"
+                            >
+                              Revoke
+                            </button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,29 +1,84 @@
 import { useCallback, useMemo, useState } from 'react';
-import type { Alert } from '../api/client';
+import type { Alert, AlertAnnotationInput, AlertState, DismissReason } from '../api/client';
+import { useAlertAnnotations } from '../hooks/useAlertAnnotations';
+import { useAlertTriage } from '../hooks/useAlertTriage';
+import { useExpandableRow } from '../hooks/useExpandableRow';
 import { formatRelativeTime } from '../utils/date';
+import { dismissReasonLabel } from '../utils/dismiss';
 import { SEVERITY_ORDER } from '../utils/severity';
+import { epssTextClass, formatEpssPercentile } from '../utils/threat';
+import { AnnotationEditor } from './AnnotationEditor';
 import { Card } from './Card';
+import { KevBadge } from './KevBadge';
 import { SeverityBadge } from './SeverityBadge';
 import { Table, TableBody, TableCell, TableRow } from './Table';
+import { TriageBar } from './TriageBar';
 
-type SortField = 'severity' | 'package' | 'ecosystem' | 'state' | 'created';
+type SortField = 'severity' | 'epss' | 'package' | 'ecosystem' | 'owner' | 'state' | 'created';
 type SortDir = 'asc' | 'desc';
 
 type AlertsTableProps = {
   alerts: Alert[];
   repoFullName: string;
   isLoading: boolean;
+  /** Runs after alerts were dismissed or reopened on GitHub. */
+  onTriaged: () => void;
+  /** Runs after an alert's note, tags or assignee changed. */
+  onAnnotated: () => void;
 };
 
-/** Sortable alerts table shown when a repo is selected. */
+const STATE_OPTIONS: { id: AlertState; label: string }[] = [
+  { id: 'open', label: 'Open' },
+  { id: 'dismissed', label: 'Dismissed' },
+  { id: 'fixed', label: 'Fixed' },
+  { id: 'auto_dismissed', label: 'Auto-dismissed' },
+];
+
+const SELECT_CLASS =
+  'rounded-md border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300';
+
+/** Sorted distinct values, e.g. the owners of a repo's alerts. */
+const distinct = (values: string[]) => [...new Set(values)].sort((a, b) => a.localeCompare(b));
+
+/** Fixed alerts can't be dismissed or reopened. */
+const isTriageable = (alert: Alert) => alert.state === 'open' || alert.state === 'dismissed';
+
+/**
+ * Sortable alerts table shown when a repo is selected. Selected alerts can
+ * be dismissed or reopened on GitHub, and each alert can be given a local
+ * note, tags and an assignee.
+ */
 export function AlertsTable({
   alerts,
   repoFullName,
   isLoading,
+  onTriaged,
+  onAnnotated,
 }: AlertsTableProps) {
   // Default to newest alerts first
   const [sortField, setSortField] = useState<SortField>('created');
   const [sortDir, setSortDir] = useState<SortDir>('desc');
+  const [ownerFilter, setOwnerFilter] = useState<string | null>(null);
+  const [stateFilter, setStateFilter] = useState<AlertState | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [assigneeFilter, setAssigneeFilter] = useState<string | null>(null);
+  // Keyed by repo so a selection never carries over to another repo's alerts
+  const [selection, setSelection] = useState<{ repo: string; numbers: Set<number> } | null>(null);
+  const triage = useAlertTriage(onTriaged);
+  const annotations = useAlertAnnotations(repoFullName, onAnnotated);
+  const { isExpanded: isEditing, toggle: toggleEditing } = useExpandableRow();
+
+  const owners = useMemo(() => distinct(alerts.flatMap((a) => a.owners)), [alerts]);
+  const tags = useMemo(() => distinct(alerts.flatMap((a) => a.tags)), [alerts]);
+  const assignees = useMemo(
+    () => distinct(alerts.flatMap((a) => (a.assignee ? [a.assignee] : []))),
+    [alerts]
+  );
+  // Drop a filter that no longer applies, e.g. after switching repos
+  const activeOwner = ownerFilter && owners.includes(ownerFilter) ? ownerFilter : null;
+  const activeTag = tagFilter && tags.includes(tagFilter) ? tagFilter : null;
+  const activeAssignee =
+    assigneeFilter && assignees.includes(assigneeFilter) ? assigneeFilter : null;
 
   const handleSort = useCallback(
     (field: SortField) => {
@@ -39,13 +94,26 @@ export function AlertsTable({
 
   const sorted = useMemo(() => {
     const mult = sortDir === 'asc' ? 1 : -1;
-    return [...alerts].sort((a, b) => {
+    const visible = alerts.filter(
+      (a) =>
+        (!activeOwner || a.owners.includes(activeOwner)) &&
+        (!stateFilter || a.state === stateFilter) &&
+        (!activeTag || a.tags.includes(activeTag)) &&
+        (!activeAssignee || a.assignee === activeAssignee)
+    );
+    return [...visible].sort((a, b) => {
       switch (sortField) {
         case 'severity': {
           const aIdx = SEVERITY_ORDER[a.severity.toLowerCase() as keyof typeof SEVERITY_ORDER] ?? 99;
           const bIdx = SEVERITY_ORDER[b.severity.toLowerCase() as keyof typeof SEVERITY_ORDER] ?? 99;
           return (aIdx - bIdx) * mult;
         }
+        case 'epss':
+          // Known exploited alerts rank above any EPSS percentile
+          return (
+            (Number(a.kev) - Number(b.kev) ||
+              (a.epssPercentile ?? -1) - (b.epssPercentile ?? -1)) * mult
+          );
         case 'package':
           return (
             (a.packageName ?? '').localeCompare(b.packageName ?? '') * mult
@@ -54,6 +122,10 @@ export function AlertsTable({
           return (
             (a.ecosystem ?? '').localeCompare(b.ecosystem ?? '') * mult
           );
+        case 'owner':
+          return (
+            (a.owners[0] ?? '').localeCompare(b.owners[0] ?? '') * mult
+          );
         case 'state':
           return a.state.localeCompare(b.state) * mult;
         case 'created':
@@ -64,7 +136,51 @@ export function AlertsTable({
           return 0;
       }
     });
-  }, [alerts, sortField, sortDir]);
+  }, [alerts, activeOwner, stateFilter, activeTag, activeAssignee, sortField, sortDir]);
+
+  const selected = alerts.filter(
+    (a) =>
+      selection?.repo === repoFullName && selection.numbers.has(a.alertNumber) && isTriageable(a)
+  );
+  const selectable = sorted.filter(isTriageable);
+  const allSelected = selectable.length > 0 && selected.length === selectable.length;
+
+  // Stays up after a partial failure so the failed alerts remain listed
+  const showTriage =
+    selected.length > 0 || triage.error !== null || (triage.result?.failed.length ?? 0) > 0;
+
+  const toggleSelected = (alertNumbers: number[], on: boolean) => {
+    setSelection((prev) => {
+      const numbers = new Set(prev?.repo === repoFullName ? prev.numbers : []);
+      for (const n of alertNumbers) {
+        if (on) numbers.add(n);
+        else numbers.delete(n);
+      }
+      return { repo: repoFullName, numbers };
+    });
+  };
+
+  const refsIn = (state: string) =>
+    selected
+      .filter((a) => a.state === state)
+      .map((a) => ({ repo: repoFullName, alertNumber: a.alertNumber }));
+
+  const handleDismiss = async (reason: DismissReason, comment?: string) => {
+    const refs = refsIn('open');
+    if (refs.length > 0 && (await triage.dismiss([{ alerts: refs }], reason, comment))) {
+      setSelection(null);
+    }
+  };
+
+  const handleReopen = async () => {
+    if (await triage.reopen([{ alerts: refsIn('dismissed') }])) setSelection(null);
+  };
+
+  const editKey = (alert: Alert) => `${repoFullName}#${alert.alertNumber}`;
+
+  const handleSaveAnnotation = async (alert: Alert, input: AlertAnnotationInput) => {
+    if (await annotations.save(alert.alertNumber, input)) toggleEditing(editKey(alert));
+  };
 
   const SortIcon = ({ field }: { field: SortField }) => {
     if (sortField !== field) {
@@ -91,18 +207,90 @@ export function AlertsTable({
 
   return (
     <Card className="mt-4 overflow-hidden">
-      <div className="border-b border-slate-200 px-4 py-3 dark:border-slate-800">
+      <div className="flex items-center justify-between border-b border-slate-200 px-4 py-3 dark:border-slate-800">
         <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-100">
           Alerts for{' '}
           <span className="text-blue-600 dark:text-blue-400">
             {repoFullName}
           </span>
           <span className="ml-2 text-xs font-normal text-slate-500 dark:text-slate-400">
-            ({alerts.length} {alerts.length === 1 ? 'alert' : 'alerts'})
+            ({sorted.length} {sorted.length === 1 ? 'alert' : 'alerts'})
           </span>
         </h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={stateFilter ?? ''}
+            onChange={(e) => setStateFilter((e.target.value || null) as AlertState | null)}
+            aria-label="Filter by state"
+            className={SELECT_CLASS}
+          >
+            <option value="">Any state</option>
+            {STATE_OPTIONS.map((opt) => (
+              <option key={opt.id} value={opt.id}>
+                {opt.label}
+              </option>
+            ))}
+          </select>
+          {owners.length > 0 && (
+            <select
+              value={activeOwner ?? ''}
+              onChange={(e) => setOwnerFilter(e.target.value || null)}
+              aria-label="Filter by code owner"
+              className={SELECT_CLASS}
+            >
+              <option value="">Any owner</option>
+              {owners.map((owner) => (
+                <option key={owner} value={owner}>
+                  {owner}
+                </option>
+              ))}
+            </select>
+          )}
+          {tags.length > 0 && (
+            <select
+              value={activeTag ?? ''}
+              onChange={(e) => setTagFilter(e.target.value || null)}
+              aria-label="Filter by tag"
+              className={SELECT_CLASS}
+            >
+              <option value="">Any tag</option>
+              {tags.map((tag) => (
+                <option key={tag} value={tag}>
+                  {tag}
+                </option>
+              ))}
+            </select>
+          )}
+          {assignees.length > 0 && (
+            <select
+              value={activeAssignee ?? ''}
+              onChange={(e) => setAssigneeFilter(e.target.value || null)}
+              aria-label="Filter by assignee"
+              className={SELECT_CLASS}
+            >
+              <option value="">Any assignee</option>
+              {assignees.map((assignee) => (
+                <option key={assignee} value={assignee}>
+                  {assignee}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
       </div>
 
+      {showTriage && (
+        <TriageBar
+          label={`${selected.length} selected`}
+          busy={triage.busy}
+          error={triage.error}
+          result={triage.result}
+          onDismiss={handleDismiss}
+          onReopen={selected.some((a) => a.state === 'dismissed') ? handleReopen : undefined}
+          onClear={() => setSelection(null)}
+        />
+      )}
+
       {alerts.length === 0 ? (
         <div className="p-6 text-center">
           <p className="text-sm text-green-600 dark:text-green-400">
@@ -114,11 +302,27 @@ export function AlertsTable({
           <Table>
             <thead>
               <tr className="border-b border-slate-100 bg-slate-50 dark:border-slate-800 dark:bg-slate-900/50">
+                <th className="w-8 px-4 py-2">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    disabled={selectable.length === 0}
+                    onChange={(e) =>
+                      toggleSelected(
+                        selectable.map((a) => a.alertNumber),
+                        e.target.checked
+                      )
+                    }
+                    aria-label="Select all alerts"
+                  />
+                </th>
                 {(
                   [
                     ['severity', 'Severity'],
+                    ['epss', 'Exploit'],
                     ['package', 'Package'],
                     ['ecosystem', 'Ecosystem'],
+                    ['owner', 'Owners'],
                     ['state', 'State'],
                     ['created', 'Created'],
                   ] as [SortField, string][]
@@ -132,6 +336,9 @@ export function AlertsTable({
                     <SortIcon field={field} />
                   </th>
                 ))}
+                <th className="px-4 py-2 text-xs font-medium text-slate-500 dark:text-slate-400">
+                  Notes
+                </th>
                 <th className="px-4 py-2 text-xs font-medium text-slate-500 dark:text-slate-400">
                   Link
                 </th>
@@ -140,17 +347,69 @@ export function AlertsTable({
             <TableBody>
               {sorted.map((alert) => (
                 <TableRow key={alert.alertNumber}>
+                  <TableCell>
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(alert)}
+                      disabled={!isTriageable(alert)}
+                      onChange={(e) => toggleSelected([alert.alertNumber], e.target.checked)}
+                      aria-label={`Select alert ${alert.alertNumber}`}
+                    />
+                  </TableCell>
                   <TableCell>
                     <SeverityBadge severity={alert.severity} />
                   </TableCell>
+                  <TableCell
+                    className="text-xs"
+                    title={
+                      alert.epssScore !== null
+                        ? `EPSS ${(alert.epssScore * 100).toFixed(2)}% chance of exploitation in 30 days`
+                        : undefined
+                    }
+                  >
+                    <div className="flex items-center gap-1.5">
+                      {alert.kev && <KevBadge />}
+                      <span className={epssTextClass(alert.epssPercentile)}>
+                        {formatEpssPercentile(alert.epssPercentile)}
+                      </span>
+                    </div>
+                  </TableCell>
                   <TableCell className="font-mono text-xs text-slate-700 dark:text-slate-300">
                     {alert.packageName ?? '—'}
                   </TableCell>
                   <TableCell className="text-xs text-slate-500 dark:text-slate-400">
                     {alert.ecosystem ?? '—'}
                   </TableCell>
+                  <TableCell
+                    className="text-xs text-slate-500 dark:text-slate-400"
+                    title={alert.manifestPath ?? undefined}
+                  >
+                    {alert.owners.length > 0 ? alert.owners.join(', ') : '—'}
+                  </TableCell>
                   <TableCell className="text-xs text-slate-500 dark:text-slate-400">
-                    {alert.state}
+                    {alert.acceptedUntil ? (
+                      <span
+                        title={`Risk accepted until ${alert.acceptedUntil.slice(0, 10)}`}
+                        className="inline-flex items-center rounded bg-amber-100 px-1.5 py-0.5 text-[10px] font-medium text-amber-700 dark:bg-amber-900/40 dark:text-amber-300"
+                      >
+                        accepted · {alert.acceptedUntil.slice(0, 10)}
+                      </span>
+                    ) : alert.state === 'dismissed' ? (
+                      <span
+                        title={
+                          [alert.dismissedComment, alert.dismissedBy && `by ${alert.dismissedBy}`]
+                            .filter(Boolean)
+                            .join(' — ') || undefined
+                        }
+                      >
+                        dismissed
+                        <span className="block text-[10px] text-slate-400 dark:text-slate-500">
+                          {dismissReasonLabel(alert.dismissedReason)}
+                        </span>
+                      </span>
+                    ) : (
+                      alert.state
+                    )}
                   </TableCell>
                   <TableCell
                     className="text-xs text-slate-500 dark:text-slate-400"
@@ -158,6 +417,50 @@ export function AlertsTable({
                   >
                     {formatRelativeTime(alert.createdAt)}
                   </TableCell>
+                  <TableCell className="text-xs text-slate-500 dark:text-slate-400">
+                    {isEditing(editKey(alert)) ? (
+                      <AnnotationEditor
+                        annotation={alert}
+                        busy={annotations.busy}
+                        error={annotations.error}
+                        onSave={(input) => handleSaveAnnotation(alert, input)}
+                        onCancel={() => toggleEditing(editKey(alert))}
+                      />
+                    ) : (
+                      <div className="space-y-0.5">
+                        {alert.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {alert.tags.map((tag) => (
+                              <span
+                                key={tag}
+                                className="rounded bg-slate-100 px-1.5 py-0.5 text-[10px] font-medium text-slate-600 dark:bg-slate-800 dark:text-slate-300"
+                              >
+                                {tag}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                        {alert.assignee && (
+                          <div className="text-slate-700 dark:text-slate-300">
+                            → {alert.assignee}
+                          </div>
+                        )}
+                        {alert.note && (
+                          <div className="max-w-48 truncate" title={alert.note}>
+                            {alert.note}
+                          </div>
+                        )}
+                        <button
+                          onClick={() => toggleEditing(editKey(alert))}
+                          className="text-blue-600 hover:underline dark:text-blue-400"
+                        >
+                          {alert.note || alert.tags.length > 0 || alert.assignee
+                            ? 'Edit'
+                            : 'Add note'}
+                        </button>
+                      </div>
+                    )}
+                  </TableCell>
                   <TableCell>
                     {alert.htmlUrl ? (
                       <a
@@ -1,19 +1,41 @@
+import type { ComponentProps } from 'react';
+import type { ClosedAlertsState } from '../hooks/useClosedAlerts';
 import type { HistoryState, VulnDepState } from '../hooks/useHistory';
-import type { ActionPlanEntry } from '../api/client';
+import type { ActionPlanEntry, GroupRollup, RepoRisk, TrendBucket } from '../api/client';
+import { TREND_BUCKETS, TREND_RANGES } from '../utils/range';
+import type { TrendRangeId } from '../utils/range';
+import { AcceptedRiskView } from './AcceptedRiskView';
 import { ActionPlanTable } from './ActionPlanTable';
+import { ClosedAlertsView } from './ClosedAlertsView';
 import { DependencyTable } from './DependencyTable';
 import { EcosystemChart } from './EcosystemChart';
 import { ErrorBanner } from './ErrorBanner';
+import { GroupRollupTable } from './GroupRollupTable';
 import { MttrCards } from './MttrCards';
+import { RiskLeaderboard } from './RiskLeaderboard';
+import { SecretSlaPanel } from './SecretSlaPanel';
+import { SlaComplianceChart } from './SlaComplianceChart';
 import { SlaPanel } from './SlaPanel';
 import { TabNav } from './TabNav';
 import { TrendChart } from './TrendChart';
 import { VulnerabilityTable } from './VulnerabilityTable';
 
-export type AnalyticsSubTab = 'trends' | 'vulnerabilities' | 'dependencies' | 'action-plan';
+export type AnalyticsSubTab =
+  | 'trends'
+  | 'teams'
+  | 'risk'
+  | 'accepted'
+  | 'closed'
+  | 'vulnerabilities'
+  | 'dependencies'
+  | 'action-plan';
 
 const SUB_TABS: { id: AnalyticsSubTab; label: string }[] = [
   { id: 'trends', label: 'Trends' },
+  { id: 'teams', label: 'Teams' },
+  { id: 'risk', label: 'Risk' },
+  { id: 'accepted', label: 'Accepted risk' },
+  { id: 'closed', label: 'Closed alerts' },
   { id: 'vulnerabilities', label: 'Vulnerabilities' },
   { id: 'dependencies', label: 'Dependencies' },
   { id: 'action-plan', label: 'Action Plan' },
@@ -23,18 +45,49 @@ type AnalyticsTabProps = {
   history: HistoryState & { reload: () => Promise<void> };
   vulnDep: VulnDepState & { reload: () => Promise<void> };
   actionPlan: { data: ActionPlanEntry[]; loading: boolean; error: string | null; reload: () => Promise<void> };
+  groupRollups: { data: GroupRollup[]; loading: boolean; error: string | null };
+  risk: { data: RepoRisk[]; loading: boolean; error: string | null };
+  exceptions: ComponentProps<typeof AcceptedRiskView>['exceptions'];
+  closed: ClosedAlertsState;
+  /** Tracked repo keys, suggested when accepting a risk. */
+  repos: string[];
+  groupId: number | null;
+  onGroupChange: (groupId: number | null) => void;
+  rangeId: TrendRangeId;
+  onRangeChange: (rangeId: TrendRangeId) => void;
+  bucket: TrendBucket;
+  onBucketChange: (bucket: TrendBucket) => void;
   activeSubTab: AnalyticsSubTab;
   onSubTabChange: (tab: AnalyticsSubTab) => void;
+  /** Runs after alerts were dismissed on GitHub from the vulnerabilities sub-tab. */
+  onAlertsTriaged: () => void;
 };
 
-/** Analytics tab content: sub-tabs for trends, vulnerabilities, dependencies. */
+/**
+ * Analytics tab content: sub-tabs for trends, teams, risk, accepted risk,
+ * closed alerts, vulnerabilities, dependencies.
+ */
 export function AnalyticsTab({
   history,
   vulnDep,
   actionPlan,
+  groupRollups,
+  risk,
+  exceptions,
+  closed,
+  repos,
+  groupId,
+  onGroupChange,
+  rangeId,
+  onRangeChange,
+  bucket,
+  onBucketChange,
   activeSubTab,
   onSubTabChange,
+  onAlertsTriaged,
 }: AnalyticsTabProps) {
+  const groups = groupRollups.data.filter((row) => row.groupId !== null);
+
   return (
     <>
       <TabNav
@@ -46,6 +99,55 @@ export function AnalyticsTab({
       {/* Trends sub-tab */}
       {activeSubTab === 'trends' && (
         <>
+          <div className="mb-4 flex flex-wrap items-center justify-end gap-2">
+            <select
+              value={rangeId}
+              onChange={(e) => onRangeChange(e.target.value as TrendRangeId)}
+              aria-label="Trend and MTTR range"
+              className="rounded-md border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300"
+            >
+              {TREND_RANGES.map((range) => (
+                <option key={range.id} value={range.id}>
+                  {range.label}
+                </option>
+              ))}
+            </select>
+            <div
+              role="group"
+              aria-label="Granularity"
+              className="inline-flex overflow-hidden rounded-md border border-slate-200 dark:border-slate-700"
+            >
+              {TREND_BUCKETS.map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => onBucketChange(option.id)}
+                  aria-pressed={bucket === option.id}
+                  className={`px-2 py-1 text-xs transition-colors ${
+                    bucket === option.id
+                      ? 'bg-slate-900 text-white dark:bg-slate-100 dark:text-slate-900'
+                      : 'bg-white text-slate-600 hover:bg-slate-50 dark:bg-slate-800 dark:text-slate-400 dark:hover:bg-slate-700'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            {groups.length > 0 && (
+              <select
+                value={groupId ?? ''}
+                onChange={(e) => onGroupChange(e.target.value ? Number(e.target.value) : null)}
+                aria-label="Filter by group"
+                className="rounded-md border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300"
+              >
+                <option value="">All groups</option>
+                {groups.map((row) => (
+                  <option key={row.groupId} value={row.groupId as number}>
+                    {row.name}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
           {history.loading ? (
             <div className="space-y-6">
               {Array.from({ length: 3 }).map((_, i) => (
@@ -60,13 +162,44 @@ export function AnalyticsTab({
           ) : (
             <div className="space-y-6">
               <TrendChart data={history.trends} />
-              <MttrCards data={history.mttr} />
-              <SlaPanel data={history.sla} />
+              <MttrCards data={history.mttr} distribution={history.mttrDistribution} />
+              <SlaPanel data={history.sla} policy={history.slaPolicy} />
+              {history.compliance && <SlaComplianceChart data={history.compliance} />}
+              <SecretSlaPanel mttr={history.secretMttr} sla={history.secretSla} />
             </div>
           )}
         </>
       )}
 
+      {/* Teams sub-tab */}
+      {activeSubTab === 'teams' && (
+        <GroupRollupTable
+          data={groupRollups.data}
+          loading={groupRollups.loading}
+          error={groupRollups.error}
+          onSelectGroup={(id) => {
+            onGroupChange(id);
+            onSubTabChange('trends');
+          }}
+        />
+      )}
+
+      {/* Risk sub-tab */}
+      {activeSubTab === 'risk' && (
+        <RiskLeaderboard data={risk.data} loading={risk.loading} error={risk.error} />
+      )}
+
+      {/* Accepted risk sub-tab */}
+      {activeSubTab === 'accepted' && <AcceptedRiskView exceptions={exceptions} repos={repos} />}
+
+      {/* Closed alerts sub-tab */}
+      {activeSubTab === 'closed' && (
+        <ClosedAlertsView
+          closed={closed}
+          groups={groups.map((row) => ({ groupId: row.groupId as number, name: row.name }))}
+        />
+      )}
+
       {/* Vulnerabilities sub-tab */}
       {activeSubTab === 'vulnerabilities' && (
         <>
@@ -75,7 +208,7 @@ export function AnalyticsTab({
           ) : vulnDep.error ? (
             <ErrorBanner message={vulnDep.error} />
           ) : (
-            <VulnerabilityTable data={vulnDep.vulnerabilities} />
+            <VulnerabilityTable data={vulnDep.vulnerabilities} onTriaged={onAlertsTriaged} />
           )}
         </>
       )}
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import type { AlertAnnotationInput } from '../api/client';
+
+type AnnotationEditorProps = {
+  annotation: AlertAnnotationInput;
+  busy: boolean;
+  error: string | null;
+  onSave: (input: AlertAnnotationInput) => void;
+  onCancel: () => void;
+};
+
+const INPUT_CLASS =
+  'w-full rounded-md border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300';
+
+/** The API rejects longer notes. */
+const MAX_NOTE_LENGTH = 2000;
+
+/**
+ * Inline form for an alert's local note, comma-separated tags and
+ * assignee. Saving with every field empty removes the annotation.
+ */
+export function AnnotationEditor({
+  annotation,
+  busy,
+  error,
+  onSave,
+  onCancel,
+}: AnnotationEditorProps) {
+  const [note, setNote] = useState(annotation.note ?? '');
+  const [tags, setTags] = useState(annotation.tags.join(', '));
+  const [assignee, setAssignee] = useState(annotation.assignee ?? '');
+
+  const handleSave = () =>
+    onSave({
+      note: note.trim() || null,
+      tags: tags
+        .split(',')
+        .map((t) => t.trim())
+        .filter(Boolean),
+      assignee: assignee.trim() || null,
+    });
+
+  return (
+    <div className="min-w-56 space-y-1">
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        maxLength={MAX_NOTE_LENGTH}
+        rows={2}
+        placeholder="Note, e.g. waiting on upstream"
+        aria-label="Note"
+        className={INPUT_CLASS}
+      />
+      <input
+        value={tags}
+        onChange={(e) => setTags(e.target.value)}
+        placeholder="Tags, comma-separated"
+        aria-label="Tags"
+        className={INPUT_CLASS}
+      />
+      <input
+        value={assignee}
+        onChange={(e) => setAssignee(e.target.value)}
+        placeholder="Assignee"
+        aria-label="Assignee"
+        className={INPUT_CLASS}
+      />
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleSave}
+          disabled={busy}
+          className="rounded-lg bg-blue-600 px-2 py-0.5 text-xs font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+        >
+          Save
+        </button>
+        <button
+          onClick={onCancel}
+          className="text-xs text-slate-500 hover:underline dark:text-slate-400"
+        >
+          Cancel
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,359 @@
+import type {
+  AlertState,
+  ClosedAlertFilters,
+  DismissalAnalytics,
+  DismissReason,
+} from '../api/client';
+import type { ClosedAlertsState } from '../hooks/useClosedAlerts';
+import { formatDate } from '../utils/date';
+import { DISMISS_REASON_LABEL, DISMISS_REASONS, dismissReasonLabel } from '../utils/dismiss';
+import { Card } from './Card';
+import { ErrorBanner } from './ErrorBanner';
+import { SeverityBadge } from './SeverityBadge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './Table';
+
+type ClosedAlertsViewProps = {
+  closed: ClosedAlertsState;
+  /** Groups offered in the group filter. */
+  groups: { groupId: number; name: string }[];
+};
+
+const INPUT_CLASS =
+  'rounded-md border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300';
+
+const STATE_OPTIONS: { id: Exclude<AlertState, 'open'>; label: string }[] = [
+  { id: 'dismissed', label: 'Dismissed' },
+  { id: 'fixed', label: 'Fixed' },
+  { id: 'auto_dismissed', label: 'Auto-dismissed' },
+];
+
+const STATE_BADGE: Record<Exclude<AlertState, 'open'>, string> = {
+  dismissed: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+  fixed: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+  auto_dismissed: 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-400',
+};
+
+/** Reasons that often mean an alert was silenced rather than assessed. */
+const SILENCING_REASONS = new Set<string>(['tolerable_risk', 'no_bandwidth']);
+
+/** Share of `part` in `total` as a whole percentage. */
+function percent(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 100) : 0;
+}
+
+/** Dismissals per reason, per group next to fixes, and per dismisser. */
+function DismissalBreakdown({ data }: { data: DismissalAnalytics }) {
+  const total = data.reasons.reduce((sum, r) => sum + r.count, 0);
+
+  if (total === 0) {
+    return (
+      <p className="px-4 py-6 text-center text-sm text-slate-500 dark:text-slate-400">
+        No dismissed alerts.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid gap-6 p-4 lg:grid-cols-3">
+      <div className="space-y-2">
+        <h4 className="text-xs font-medium text-slate-700 dark:text-slate-300">By reason</h4>
+        {data.reasons.map((r) => (
+          <div key={r.reason}>
+            <div className="flex justify-between text-xs text-slate-600 dark:text-slate-400">
+              <span>{dismissReasonLabel(r.reason)}</span>
+              <span>
+                {r.count} · {percent(r.count, total)}%
+              </span>
+            </div>
+            <div className="mt-0.5 h-1.5 rounded bg-slate-100 dark:bg-slate-800">
+              <div
+                className={`h-1.5 rounded ${
+                  SILENCING_REASONS.has(r.reason) ? 'bg-amber-500' : 'bg-blue-500'
+                }`}
+                style={{ width: `${percent(r.count, total)}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="lg:col-span-2">
+        <h4 className="mb-2 text-xs font-medium text-slate-700 dark:text-slate-300">By group</h4>
+        <Table>
+          <TableHead>
+            <TableHeader>Group</TableHeader>
+            <TableHeader>Fixed</TableHeader>
+            <TableHeader>Dismissed</TableHeader>
+            <TableHeader>Dismissed share</TableHeader>
+            <TableHeader>Risk tolerable / no bandwidth</TableHeader>
+          </TableHead>
+          <TableBody>
+            {data.groups.map((g) => {
+              const share = percent(g.dismissed, g.dismissed + g.fixed);
+              const silenced = Object.entries(g.reasons)
+                .filter(([reason]) => SILENCING_REASONS.has(reason))
+                .reduce((sum, [, count]) => sum + count, 0);
+              return (
+                <TableRow key={g.groupId ?? 'unassigned'}>
+                  <TableCell
+                    className={`text-xs font-medium ${
+                      g.groupId === null
+                        ? 'italic text-slate-400 dark:text-slate-500'
+                        : 'text-slate-700 dark:text-slate-300'
+                    }`}
+                  >
+                    {g.name}
+                  </TableCell>
+                  <TableCell className="text-xs text-slate-500 dark:text-slate-400">
+                    {g.fixed}
+                  </TableCell>
+                  <TableCell
+                    className="text-xs text-slate-700 dark:text-slate-300"
+                    title={Object.entries(g.reasons)
+                      .map(([reason, count]) => `${dismissReasonLabel(reason)}: ${count}`)
+                      .join('\n')}
+                  >
+                    {g.dismissed}
+                  </TableCell>
+                  <TableCell
+                    className={`text-xs font-medium ${
+                      share > 50
+                        ? 'text-red-600 dark:text-red-400'
+                        : 'text-slate-500 dark:text-slate-400'
+                    }`}
+                  >
+                    {g.dismissed + g.fixed > 0 ? `${share}%` : '—'}
+                  </TableCell>
+                  <TableCell className="text-xs text-slate-500 dark:text-slate-400">
+                    {g.dismissed > 0 ? `${silenced} (${percent(silenced, g.dismissed)}%)` : '—'}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        {data.dismissers.length > 0 && (
+          <div className="mt-4">
+            <h4 className="mb-1 text-xs font-medium text-slate-700 dark:text-slate-300">
+              Top dismissers
+            </h4>
+            <div className="flex flex-wrap gap-1.5">
+              {data.dismissers.slice(0, 10).map((d) => (
+                <span
+                  key={d.login}
+                  className="rounded bg-slate-100 px-1.5 py-0.5 text-[10px] text-slate-600 dark:bg-slate-800 dark:text-slate-400"
+                >
+                  {d.login} · {d.dismissed}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Closed alerts view: how dismissed alerts were justified per reason, group
+ * and dismisser, and a filterable list of dismissed and fixed alerts across
+ * repos.
+ */
+export function ClosedAlertsView({ closed, groups }: ClosedAlertsViewProps) {
+  const { page, analytics, loading, error, filters } = closed;
+
+  if (!page && loading) {
+    return <div className="h-48 animate-pulse rounded-xl bg-slate-200 dark:bg-slate-800" />;
+  }
+
+  const alerts = page?.alerts ?? [];
+  const total = page?.total ?? 0;
+  const offset = page?.offset ?? 0;
+  const limit = page?.limit ?? 0;
+
+  return (
+    <div className="space-y-4">
+      {error && <ErrorBanner message={error} />}
+
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        <select
+          value={filters.state ?? ''}
+          onChange={(e) =>
+            closed.setFilters({
+              ...filters,
+              state: (e.target.value || null) as ClosedAlertFilters['state'],
+            })
+          }
+          aria-label="Filter by state"
+          className={INPUT_CLASS}
+        >
+          <option value="">Dismissed and fixed</option>
+          {STATE_OPTIONS.map((opt) => (
+            <option key={opt.id} value={opt.id}>
+              {opt.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.reason ?? ''}
+          onChange={(e) =>
+            closed.setFilters({
+              ...filters,
+              reason: (e.target.value || null) as DismissReason | null,
+            })
+          }
+          aria-label="Filter by dismissal reason"
+          className={INPUT_CLASS}
+        >
+          <option value="">Any reason</option>
+          {DISMISS_REASONS.map((reason) => (
+            <option key={reason} value={reason}>
+              {DISMISS_REASON_LABEL[reason]}
+            </option>
+          ))}
+        </select>
+        {groups.length > 0 && (
+          <select
+            value={filters.group ?? ''}
+            onChange={(e) =>
+              closed.setFilters({
+                ...filters,
+                group: e.target.value ? Number(e.target.value) : null,
+              })
+            }
+            aria-label="Filter by group"
+            className={INPUT_CLASS}
+          >
+            <option value="">All groups</option>
+            {groups.map((g) => (
+              <option key={g.groupId} value={g.groupId}>
+                {g.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <Card>
+        <div className="border-b border-slate-200 px-4 py-3 dark:border-slate-800">
+          <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-100">
+            Dismissal Reasons
+          </h3>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            A group dismissing more than it fixes, mostly as tolerable risk or no bandwidth, may be
+            silencing alerts.
+          </p>
+        </div>
+        {analytics && <DismissalBreakdown data={analytics} />}
+      </Card>
+
+      <Card>
+        <div className="border-b border-slate-200 px-4 py-3 dark:border-slate-800">
+          <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-100">
+            Closed Alerts
+          </h3>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {total} alert{total !== 1 ? 's' : ''}, most recently closed first
+          </p>
+        </div>
+
+        {alerts.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-slate-500 dark:text-slate-400">
+            No closed alerts match these filters.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHead>
+                <TableHeader>Closed</TableHeader>
+                <TableHeader>Alert</TableHeader>
+                <TableHeader>Severity</TableHeader>
+                <TableHeader>Package</TableHeader>
+                <TableHeader>State</TableHeader>
+                <TableHeader>Reason</TableHeader>
+                <TableHeader>Comment</TableHeader>
+                <TableHeader>By</TableHeader>
+              </TableHead>
+              <TableBody>
+                {alerts.map((alert) => (
+                  <TableRow key={`${alert.repo}#${alert.alertNumber}`}>
+                    <TableCell className="whitespace-nowrap text-xs text-slate-500 dark:text-slate-400">
+                      {alert.closedAt ? formatDate(alert.closedAt) : '—'}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {alert.htmlUrl ? (
+                        <a
+                          href={alert.htmlUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 hover:underline dark:text-blue-400"
+                        >
+                          {alert.repo}#{alert.alertNumber}
+                        </a>
+                      ) : (
+                        `${alert.repo}#${alert.alertNumber}`
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <SeverityBadge severity={alert.severity} />
+                    </TableCell>
+                    <TableCell
+                      className="text-xs text-slate-700 dark:text-slate-300"
+                      title={alert.advisorySummary ?? undefined}
+                    >
+                      {alert.packageName ?? '—'}
+                    </TableCell>
+                    <TableCell>
+                      <span
+                        className={`rounded px-1.5 py-0.5 text-[10px] font-medium ${STATE_BADGE[alert.state]}`}
+                      >
+                        {alert.state}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-xs text-slate-600 dark:text-slate-400">
+                      {alert.state === 'dismissed' ? dismissReasonLabel(alert.dismissedReason) : '—'}
+                    </TableCell>
+                    <TableCell
+                      className="max-w-xs truncate text-xs text-slate-500 dark:text-slate-400"
+                      title={alert.dismissedComment ?? undefined}
+                    >
+                      {alert.dismissedComment ?? '—'}
+                    </TableCell>
+                    <TableCell className="text-xs text-slate-500 dark:text-slate-400">
+                      {alert.dismissedBy ?? '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {total > limit && (
+          <div className="flex items-center justify-between border-t border-slate-200 px-4 py-2 text-xs text-slate-500 dark:border-slate-800 dark:text-slate-400">
+            <span>
+              {offset + 1}–{Math.min(offset + limit, total)} of {total}
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={closed.prevPage}
+                disabled={offset === 0}
+                className="rounded-md border border-slate-200 px-2 py-1 hover:bg-slate-50 disabled:opacity-40 dark:border-slate-700 dark:hover:bg-slate-800"
+              >
+                Previous
+              </button>
+              <button
+                onClick={closed.nextPage}
+                disabled={offset + limit >= total}
+                className="rounded-md border border-slate-200 px-2 py-1 hover:bg-slate-50 disabled:opacity-40 dark:border-slate-700 dark:hover:bg-slate-800"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
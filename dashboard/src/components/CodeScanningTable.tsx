@@ -0,0 +1,108 @@
+import type { CodeScanningState } from '../hooks/useCodeScanning';
+import { formatRelativeTime } from '../utils/date';
+import { Card } from './Card';
+import { ErrorBanner } from './ErrorBanner';
+import { SeverityBadge } from './SeverityBadge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './Table';
+
+type CodeScanningTableProps = {
+  state: CodeScanningState;
+  repoFullName: string;
+};
+
+/** Code scanning alerts for the selected repo, most severe first. */
+export function CodeScanningTable({ state, repoFullName }: CodeScanningTableProps) {
+  const { alerts, loading, error } = state;
+  const openAlerts = alerts.filter((a) => a.state === 'open');
+
+  if (loading) {
+    return (
+      <Card className="mt-4 p-6 text-center">
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Loading code scanning alerts...
+        </p>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return <ErrorBanner message={error} />;
+  }
+
+  return (
+    <Card className="mt-4 overflow-hidden">
+      <div className="border-b border-slate-200 px-4 py-3 dark:border-slate-800">
+        <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-100">
+          Code scanning for{' '}
+          <span className="text-blue-600 dark:text-blue-400">
+            {repoFullName}
+          </span>
+          <span className="ml-2 text-xs font-normal text-slate-500 dark:text-slate-400">
+            ({openAlerts.length} open)
+          </span>
+        </h3>
+      </div>
+
+      {openAlerts.length === 0 ? (
+        <div className="p-6 text-center">
+          <p className="text-sm text-green-600 dark:text-green-400">
+            No open code scanning alerts.
+          </p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHead>
+              <TableHeader>Severity</TableHeader>
+              <TableHeader>Rule</TableHeader>
+              <TableHeader>Tool</TableHeader>
+              <TableHeader>Path</TableHeader>
+              <TableHeader>Created</TableHeader>
+              <TableHeader>Link</TableHeader>
+            </TableHead>
+            <TableBody>
+              {openAlerts.map((alert) => (
+                <TableRow key={alert.alertNumber}>
+                  <TableCell>
+                    <SeverityBadge severity={alert.severity} />
+                  </TableCell>
+                  <TableCell className="text-xs text-slate-700 dark:text-slate-300">
+                    <div className="font-mono">{alert.ruleId ?? '—'}</div>
+                    {alert.ruleDescription && (
+                      <div className="text-slate-500 dark:text-slate-400">
+                        {alert.ruleDescription}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs text-slate-500 dark:text-slate-400">
+                    {alert.toolName ?? '—'}
+                  </TableCell>
+                  <TableCell className="max-w-xs truncate font-mono text-xs text-slate-500 dark:text-slate-400">
+                    {alert.path ?? '—'}
+                  </TableCell>
+                  <TableCell className="text-xs text-slate-500 dark:text-slate-400">
+                    {formatRelativeTime(alert.createdAt)}
+                  </TableCell>
+                  <TableCell>
+                    {alert.htmlUrl ? (
+                      <a
+                        href={alert.htmlUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs text-blue-600 hover:underline dark:text-blue-400"
+                      >
+                        View
+                      </a>
+                    ) : (
+                      <span className="text-xs text-slate-300 dark:text-slate-600">—</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -60,6 +60,7 @@ export function ExportMenu({ repos, alerts, selectedRepo }: ExportMenuProps) {
       high: r.severityCounts.high ?? 0,
       medium: r.severityCounts.medium ?? 0,
       low: r.severityCounts.low ?? 0,
+      riskScore: r.riskScore,
     }));
     downloadCsv(rows, `gh-monit-repos-${timestamp}.csv`);
     setOpen(false);
@@ -1,8 +1,10 @@
 import { useState } from 'react';
 import type { FixAction, FixAdvisorResponse } from '../api/client';
 import { SEVERITY_BADGE } from '../utils/severity';
+import { epssTextClass, formatEpssPercentile } from '../utils/threat';
 import { Card } from './Card';
 import { EmptyState } from './EmptyState';
+import { KevBadge } from './KevBadge';
 
 type FixPlanTableProps = {
   data: FixAdvisorResponse;
@@ -119,6 +121,8 @@ function FixActionRow({
           {action.packageName}
         </span>
 
+        {action.kevAlerts > 0 && <KevBadge />}
+
         {action.ecosystem && (
           <span className="rounded bg-slate-100 px-1.5 py-0.5 text-xs text-slate-500 dark:bg-slate-800 dark:text-slate-400">
             {action.ecosystem}
@@ -135,6 +139,12 @@ function FixActionRow({
           </span>
         )}
 
+        {action.maxEpssPercentile !== null && (
+          <span className={`text-xs ${epssTextClass(action.maxEpssPercentile)}`}>
+            EPSS {formatEpssPercentile(action.maxEpssPercentile)} pct
+          </span>
+        )}
+
         {showRepos && action.affectedRepos && (
           <span className="ml-auto text-xs text-slate-400">
             {action.affectedRepos} repo{action.affectedRepos !== 1 ? 's' : ''}
@@ -238,6 +248,7 @@ function NoFixSection({
               <span className="text-sm text-slate-600 dark:text-slate-300">
                 {action.packageName}
               </span>
+              {action.kevAlerts > 0 && <KevBadge />}
               {action.ecosystem && (
                 <span className="rounded bg-slate-100 px-1.5 py-0.5 text-xs text-slate-500 dark:bg-slate-800 dark:text-slate-400">
                   {action.ecosystem}
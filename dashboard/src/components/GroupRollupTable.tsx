@@ -0,0 +1,108 @@
+import type { GroupRollup } from '../api/client';
+import { SEVERITIES, SEVERITY_BADGE } from '../utils/severity';
+import { Card } from './Card';
+import { EmptyState } from './EmptyState';
+import { ErrorBanner } from './ErrorBanner';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './Table';
+
+type GroupRollupTableProps = {
+  data: GroupRollup[];
+  loading: boolean;
+  error: string | null;
+  onSelectGroup: (groupId: number) => void;
+};
+
+/** Per-team rollup: open alerts by severity, overdue alerts and MTTR per group. */
+export function GroupRollupTable({ data, loading, error, onSelectGroup }: GroupRollupTableProps) {
+  if (loading) {
+    return <div className="h-48 animate-pulse rounded-xl bg-slate-200 dark:bg-slate-800" />;
+  }
+  if (error) return <ErrorBanner message={error} />;
+  if (data.length === 0 || data.every((row) => row.groupId === null)) {
+    return (
+      <EmptyState
+        title="Teams"
+        message="No groups yet — create one or import GitHub teams in Settings."
+      />
+    );
+  }
+
+  return (
+    <Card>
+      <div className="border-b border-slate-200 px-4 py-3 dark:border-slate-800">
+        <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-100">Teams</h3>
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Open alerts per group. A repo in several groups counts towards each.
+        </p>
+      </div>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHead>
+            <TableHeader>Group</TableHeader>
+            <TableHeader>Repos</TableHeader>
+            <TableHeader>Open</TableHeader>
+            {SEVERITIES.map((severity) => (
+              <TableHeader key={severity} className="capitalize">
+                {severity}
+              </TableHeader>
+            ))}
+            <TableHeader>Overdue</TableHeader>
+            <TableHeader>Avg MTTR</TableHeader>
+          </TableHead>
+          <TableBody>
+            {data.map((row) => (
+              <TableRow key={row.groupId ?? 'unassigned'}>
+                <TableCell className="text-xs font-medium text-slate-700 dark:text-slate-300">
+                  {row.groupId === null ? (
+                    <span className="italic text-slate-400 dark:text-slate-500">{row.name}</span>
+                  ) : (
+                    <button
+                      onClick={() => onSelectGroup(row.groupId as number)}
+                      title="Show trends for this group"
+                      className="text-left hover:text-blue-600 hover:underline dark:hover:text-blue-400"
+                    >
+                      {row.name}
+                    </button>
+                  )}
+                </TableCell>
+                <TableCell className="text-xs text-slate-500 dark:text-slate-400">
+                  {row.repoCount}
+                </TableCell>
+                <TableCell className="text-xs font-medium text-slate-700 dark:text-slate-300">
+                  {row.totalAlerts}
+                </TableCell>
+                {SEVERITIES.map((severity) => (
+                  <TableCell key={severity}>
+                    {row.severityCounts[severity] > 0 ? (
+                      <span
+                        className={`rounded px-1.5 py-0.5 text-[10px] font-medium ${SEVERITY_BADGE[severity]}`}
+                      >
+                        {row.severityCounts[severity]}
+                      </span>
+                    ) : (
+                      <span className="text-xs text-slate-300 dark:text-slate-600">0</span>
+                    )}
+                  </TableCell>
+                ))}
+                <TableCell>
+                  <span
+                    className={`text-xs font-medium ${
+                      row.overdue > 0
+                        ? 'text-red-600 dark:text-red-400'
+                        : 'text-slate-500 dark:text-slate-400'
+                    }`}
+                  >
+                    {row.overdue}
+                  </span>
+                </TableCell>
+                <TableCell className="text-xs text-slate-500 dark:text-slate-400">
+                  {row.avgMttrDays === null ? '—' : `${row.avgMttrDays.toFixed(1)}d`}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import type { RepoGroup } from '../api/client';
+import { useGroups } from '../hooks/useGroups';
+import { DEFAULT_HOST } from '../utils/repo';
+
+type GroupsSectionProps = {
+  /** Tracked repo keys offered in the group editor. */
+  repos: string[];
+  onChanged: () => void;
+};
+
+const INPUT_CLASS =
+  'rounded-md border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300';
+
+/** Repo groups (teams): list, create/edit with a repo checklist, and GitHub team import. */
+export function GroupsSection({ repos, onChanged }: GroupsSectionProps) {
+  const groups = useGroups(onChanged);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [name, setName] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [org, setOrg] = useState('');
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setSelected(new Set());
+  };
+
+  const startEdit = (group: RepoGroup) => {
+    setEditingId(group.id);
+    setName(group.name);
+    setSelected(new Set(group.repos));
+  };
+
+  const toggleRepo = (repo: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(repo)) next.delete(repo);
+      else next.add(repo);
+      return next;
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = name.trim();
+    if (!value) return;
+    const input = { name: value, repos: [...selected] };
+    const saved =
+      editingId === null ? await groups.create(input) : await groups.update(editingId, input);
+    if (saved) resetForm();
+  };
+
+  // Accept `host:org` for orgs on another configured host
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = org.trim();
+    if (!value) return;
+    const idx = value.indexOf(':');
+    const imported = await groups.importOrg(
+      idx > 0 ? value.slice(idx + 1) : value,
+      idx > 0 ? value.slice(0, idx) : DEFAULT_HOST
+    );
+    if (imported) setOrg('');
+  };
+
+  // Members of the group being edited may not be tracked yet; keep them listed
+  const options = [...new Set([...repos, ...selected])].sort();
+
+  return (
+    <div className="mb-5 rounded-xl border border-slate-200 p-4 dark:border-slate-700">
+      <h3 className="mb-1 text-sm font-semibold text-slate-900 dark:text-slate-100">
+        Groups
+      </h3>
+      <p className="mb-3 text-xs text-slate-500 dark:text-slate-400">
+        Group repos by owning team to filter analytics and compare teams.
+      </p>
+
+      {groups.loading && groups.groups.length === 0 ? (
+        <div className="h-10 animate-pulse rounded bg-slate-100 dark:bg-slate-800" />
+      ) : (
+        <ul className="mb-3 divide-y divide-slate-100 dark:divide-slate-800">
+          {groups.groups.map((g) => (
+            <li key={g.id} className="flex items-center justify-between py-2">
+              <div className="min-w-0">
+                <p className="truncate text-xs font-medium text-slate-700 dark:text-slate-300">
+                  {g.name}
+                  {g.source === 'github_team' && (
+                    <span className="ml-1 text-[10px] font-normal text-slate-400">team</span>
+                  )}
+                </p>
+                <p className="truncate text-[10px] text-slate-400 dark:text-slate-500">
+                  {g.repos.length} repo{g.repos.length !== 1 ? 's' : ''}
+                  {g.description && ` · ${g.description}`}
+                </p>
+              </div>
+              <div className="flex shrink-0">
+                <button
+                  onClick={() => startEdit(g)}
+                  disabled={groups.busy}
+                  aria-label={`Edit ${g.name}`}
+                  className="rounded px-2 py-1 text-xs text-slate-400 transition-colors hover:bg-slate-100 hover:text-slate-600 disabled:opacity-40 dark:hover:bg-slate-800 dark:hover:text-slate-300"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => {
+                    if (editingId === g.id) resetForm();
+                    groups.remove(g.id);
+                  }}
+                  disabled={groups.busy}
+                  aria-label={`Delete ${g.name}`}
+                  className="rounded px-2 py-1 text-xs text-slate-400 transition-colors hover:bg-red-50 hover:text-red-500 disabled:opacity-40 dark:hover:bg-red-900/20 dark:hover:text-red-400"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+          {groups.groups.length === 0 && (
+            <li className="py-2 text-xs text-slate-400 dark:text-slate-500">No groups yet.</li>
+          )}
+        </ul>
+      )}
+
+      <form onSubmit={handleSave} className="mb-3 space-y-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Group name, e.g. Payments"
+          aria-label="Group name"
+          className={`${INPUT_CLASS} w-full`}
+        />
+        <div className="max-h-32 overflow-y-auto rounded-md border border-slate-200 p-2 dark:border-slate-700">
+          {options.map((repo) => (
+            <label
+              key={repo}
+              className="flex items-center gap-2 py-0.5 text-xs text-slate-600 dark:text-slate-400"
+            >
+              <input type="checkbox" checked={selected.has(repo)} onChange={() => toggleRepo(repo)} />
+              <span className="truncate font-mono">{repo}</span>
+            </label>
+          ))}
+          {options.length === 0 && (
+            <p className="text-xs text-slate-400 dark:text-slate-500">No repos tracked yet.</p>
+          )}
+        </div>
+        <div className="flex items-center justify-end gap-2">
+          {editingId !== null && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="rounded-lg px-3 py-1 text-xs font-medium text-slate-500 hover:bg-slate-100 dark:text-slate-400 dark:hover:bg-slate-800"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={groups.busy || !name.trim()}
+            className="rounded-lg bg-blue-600 px-3 py-1 text-xs font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+          >
+            {editingId === null ? 'Create group' : 'Save group'}
+          </button>
+        </div>
+      </form>
+
+      <form onSubmit={handleImport} className="flex gap-2">
+        <input
+          value={org}
+          onChange={(e) => setOrg(e.target.value)}
+          placeholder="org or host:org"
+          aria-label="Organization to import teams from"
+          className={`${INPUT_CLASS} min-w-0 flex-1`}
+        />
+        <button
+          type="submit"
+          disabled={groups.busy || !org.trim()}
+          className="rounded-lg border border-slate-200 px-3 py-1 text-xs font-medium text-slate-700 transition-colors hover:bg-slate-50 disabled:opacity-50 dark:border-slate-700 dark:text-slate-300 dark:hover:bg-slate-800"
+        >
+          Import teams
+        </button>
+      </form>
+
+      {groups.lastImport && (
+        <p className="mt-3 text-xs text-slate-500 dark:text-slate-400">
+          Imported {groups.lastImport.imported} team{groups.lastImport.imported !== 1 ? 's' : ''}
+        </p>
+      )}
+      {groups.error && (
+        <p className="mt-3 text-xs text-red-600 dark:text-red-400">{groups.error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+/** Pill marking a CVE listed in the CISA Known Exploited Vulnerabilities catalog. */
+export function KevBadge() {
+  return (
+    <span
+      title="In the CISA Known Exploited Vulnerabilities catalog"
+      className="inline-flex items-center rounded bg-red-600 px-1.5 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-white"
+    >
+      KEV
+    </span>
+  );
+}
@@ -1,21 +1,45 @@
 import { useMemo } from 'react';
-import type { MttrMetric } from '../api/client';
+import type { MttrDistribution, MttrMetric, MttrStats } from '../api/client';
 import { parseRepo } from '../utils/repo';
-import { SEVERITIES, SEVERITY_CARD } from '../utils/severity';
+import { SEVERITIES, SEVERITY_CARD, SEVERITY_HEX } from '../utils/severity';
+import type { Severity } from '../utils/severity';
 import { Card } from './Card';
 import { EmptyState } from './EmptyState';
 
 type MttrCardsProps = {
   data: MttrMetric[];
+  /** Median/percentile spread per severity and period; null while unavailable. */
+  distribution: MttrDistribution | null;
 };
 
-/** Grid of metric cards showing average remediation time per severity level. */
-export function MttrCards({ data }: MttrCardsProps) {
+type Weighted = { totalDays: number; resolved: number };
+
+function addWeighted(map: Map<string, Weighted>, key: string, m: MttrMetric) {
+  const entry = map.get(key) ?? { totalDays: 0, resolved: 0 };
+  entry.totalDays += m.avgDays * m.resolvedCount;
+  entry.resolved += m.resolvedCount;
+  map.set(key, entry);
+}
+
+function averageOf(entry: Weighted): number {
+  return entry.resolved > 0 ? Math.round((entry.totalDays / entry.resolved) * 10) / 10 : 0;
+}
+
+function formatDays(days: number | null): string {
+  return days === null ? '—' : `${days}d`;
+}
+
+/**
+ * Grid of metric cards showing remediation time per severity level: the
+ * median with mean, p75 and p90, fixed vs dismissed, a sparkline of the
+ * median per period and the slowest repos by average.
+ */
+export function MttrCards({ data, distribution }: MttrCardsProps) {
   // Aggregate metrics by severity across all repos
   const bySeverity = useMemo(() => {
     const map = new Map<
       string,
-      { totalDays: number; totalResolved: number; repos: Map<string, number> }
+      { totalDays: number; totalResolved: number; repos: Map<string, Weighted> }
     >();
 
     for (const m of data) {
@@ -26,7 +50,7 @@ export function MttrCards({ data }: MttrCardsProps) {
       }
       entry.totalDays += m.avgDays * m.resolvedCount;
       entry.totalResolved += m.resolvedCount;
-      entry.repos.set(m.repo, m.avgDays);
+      addWeighted(entry.repos, m.repo, m);
     }
 
     return SEVERITIES
@@ -41,10 +65,14 @@ export function MttrCards({ data }: MttrCardsProps) {
           severity,
           avgDays,
           resolvedCount: entry.totalResolved,
-          repos: entry.repos,
+          repos: new Map([...entry.repos].map(([repo, w]) => [repo, averageOf(w)])),
+          spread: distribution?.severities.find((d) => d.severity === severity) ?? null,
+          medians: (distribution?.periods ?? [])
+            .filter((p) => p.severity === severity && p.medianDays !== null)
+            .map((p) => ({ period: p.period, days: p.medianDays as number })),
         };
       });
-  }, [data]);
+  }, [data, distribution]);
 
   if (data.length === 0) {
     return (
@@ -56,7 +84,7 @@ export function MttrCards({ data }: MttrCardsProps) {
   }
 
   // Find the max avgDays across all repos for bar scaling
-  const maxDays = Math.max(...data.map((m) => m.avgDays), 1);
+  const maxDays = Math.max(...bySeverity.flatMap((s) => [...s.repos.values()]), 1);
 
   return (
     <Card className="p-6">
@@ -64,7 +92,7 @@ export function MttrCards({ data }: MttrCardsProps) {
         Mean Time to Remediate
       </h3>
       <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
-        {bySeverity.map(({ severity, avgDays, resolvedCount, repos }) => {
+        {bySeverity.map(({ severity, avgDays, resolvedCount, repos, spread, medians }) => {
           const styles = SEVERITY_CARD[severity as keyof typeof SEVERITY_CARD] ?? SEVERITY_CARD.low;
           return (
             <div
@@ -79,10 +107,34 @@ export function MttrCards({ data }: MttrCardsProps) {
                   {resolvedCount} resolved
                 </span>
               </div>
-              <p className={`text-2xl font-bold ${styles.text}`}>
-                {avgDays}
-                <span className="text-sm font-normal"> days</span>
-              </p>
+              {spread ? (
+                <>
+                  <p className={`text-2xl font-bold ${styles.text}`}>
+                    {spread.all.medianDays ?? '—'}
+                    <span className="text-sm font-normal"> days median</span>
+                  </p>
+                  <p className="text-[10px] text-slate-500 dark:text-slate-400">
+                    mean {formatDays(spread.all.meanDays)} · p75 {formatDays(spread.all.p75Days)}{' '}
+                    · p90 {formatDays(spread.all.p90Days)}
+                  </p>
+                  <div className="mt-2 space-y-0.5">
+                    <ResolutionLine label="Fixed" stats={spread.fixed} />
+                    <ResolutionLine label="Dismissed" stats={spread.dismissed} />
+                  </div>
+                </>
+              ) : (
+                <p className={`text-2xl font-bold ${styles.text}`}>
+                  {avgDays}
+                  <span className="text-sm font-normal"> days</span>
+                </p>
+              )}
+              {medians.length > 1 && (
+                <Sparkline
+                  values={medians.map((m) => m.days)}
+                  color={SEVERITY_HEX[severity as Severity]}
+                  title={medians.map((m) => `${m.period}: ${m.days}d`).join('\n')}
+                />
+              )}
               {/* Per-repo bars */}
               {repos.size > 1 && (
                 <div className="mt-3 space-y-1">
@@ -116,3 +168,48 @@ export function MttrCards({ data }: MttrCardsProps) {
     </Card>
   );
 }
+
+function ResolutionLine({ label, stats }: { label: string; stats: MttrStats }) {
+  return (
+    <p className="flex justify-between text-[10px] text-slate-600 dark:text-slate-400">
+      <span>
+        {label} ({stats.resolvedCount})
+      </span>
+      <span>
+        {formatDays(stats.medianDays)} median · {formatDays(stats.p90Days)} p90
+      </span>
+    </p>
+  );
+}
+
+type SparklineProps = {
+  values: number[];
+  color: string;
+  title: string;
+};
+
+/** Median per period, oldest first, scaled to the card width. */
+function Sparkline({ values, color, title }: SparklineProps) {
+  const max = Math.max(...values, 1);
+  const points = values
+    .map((v, i) => `${(i / (values.length - 1)) * 100},${28 - (v / max) * 26}`)
+    .join(' ');
+  return (
+    <svg
+      viewBox="0 0 100 30"
+      preserveAspectRatio="none"
+      className="mt-3 h-8 w-full"
+      role="img"
+      aria-label="Median days to remediate per period"
+    >
+      <title>{title}</title>
+      <polyline
+        points={points}
+        fill="none"
+        stroke={color}
+        strokeWidth="1.5"
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+}
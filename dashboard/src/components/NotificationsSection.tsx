@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import type {
+  NotificationChannel,
+  NotificationChannelType,
+  NotificationEventKind,
+} from '../api/client';
+import { useNotificationChannels } from '../hooks/useNotificationChannels';
+import { formatRelativeTime } from '../utils/date';
+import { SEVERITIES } from '../utils/severity';
+import type { Severity } from '../utils/severity';
+
+const INPUT_CLASS =
+  'rounded-md border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300';
+
+const CHANNEL_TYPES: { id: NotificationChannelType; label: string; placeholder: string }[] = [
+  { id: 'slack', label: 'Slack', placeholder: 'https://hooks.slack.com/services/…' },
+  { id: 'teams', label: 'Teams', placeholder: 'Teams incoming webhook URL' },
+  { id: 'webhook', label: 'Webhook', placeholder: 'https://… (receives JSON)' },
+  { id: 'email', label: 'Email', placeholder: 'appsec@example.com, …' },
+];
+
+const EVENT_KINDS: { id: NotificationEventKind; label: string }[] = [
+  { id: 'new', label: 'New' },
+  { id: 'reopened', label: 'Reopened' },
+  { id: 'sla_breached', label: 'SLA breached' },
+];
+
+function describeChannel(channel: NotificationChannel): string {
+  const type = CHANNEL_TYPES.find((t) => t.id === channel.type)?.label ?? channel.type;
+  const events = EVENT_KINDS.filter((k) => channel.events.includes(k.id))
+    .map((k) => k.label.toLowerCase())
+    .join(', ');
+  return `${type} · ${channel.minSeverity}+ · ${events}`;
+}
+
+/**
+ * Slack, Teams, webhook and email channels notified of new, reopened and
+ * SLA-breached alerts after each sync, with an add form.
+ */
+export function NotificationsSection() {
+  const notify = useNotificationChannels();
+  const [type, setType] = useState<NotificationChannelType>('slack');
+  const [name, setName] = useState('');
+  const [target, setTarget] = useState('');
+  const [minSeverity, setMinSeverity] = useState<Severity>('high');
+  const [events, setEvents] = useState<NotificationEventKind[]>(EVENT_KINDS.map((k) => k.id));
+
+  const toggleEvent = (kind: NotificationEventKind, on: boolean) =>
+    setEvents((prev) => (on ? [...prev, kind] : prev.filter((k) => k !== kind)));
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !target.trim()) return;
+    const added = await notify.add({
+      type,
+      name: name.trim(),
+      target: target.trim(),
+      minSeverity,
+      events,
+      enabled: true,
+    });
+    if (added) {
+      setName('');
+      setTarget('');
+    }
+  };
+
+  return (
+    <div className="mb-5 rounded-xl border border-slate-200 p-4 dark:border-slate-700">
+      <h3 className="mb-1 text-sm font-semibold text-slate-900 dark:text-slate-100">
+        Notifications
+      </h3>
+      <p className="mb-3 text-xs text-slate-500 dark:text-slate-400">
+        After each refresh of all repos, new, reopened and SLA-breached alerts at or above a
+        channel&apos;s severity are sent to it, each only once. Email uses the server&apos;s SMTP
+        settings.
+      </p>
+
+      {notify.loading && notify.channels.length === 0 ? (
+        <div className="h-10 animate-pulse rounded bg-slate-100 dark:bg-slate-800" />
+      ) : (
+        <ul className="mb-3 divide-y divide-slate-100 dark:divide-slate-800">
+          {notify.channels.map((c) => (
+            <li key={c.id} className="flex items-center justify-between gap-2 py-2">
+              <div className={`min-w-0 ${c.enabled ? '' : 'opacity-50'}`}>
+                <p className="truncate text-xs font-medium text-slate-700 dark:text-slate-300">
+                  {c.name}
+                  <span className="ml-1 text-[10px] font-normal text-slate-400">
+                    {describeChannel(c)}
+                  </span>
+                </p>
+                <p className="truncate text-[10px] text-slate-400 dark:text-slate-500">
+                  {c.target}
+                  {c.lastError ? (
+                    <span className="text-red-600 dark:text-red-400"> · {c.lastError}</span>
+                  ) : (
+                    c.lastSentAt && ` · sent ${formatRelativeTime(c.lastSentAt)}`
+                  )}
+                </p>
+              </div>
+              <div className="flex shrink-0 items-center gap-1">
+                <label className="flex items-center gap-1 text-xs text-slate-600 dark:text-slate-400">
+                  <input
+                    type="checkbox"
+                    checked={c.enabled}
+                    onChange={(e) => notify.update(c.id, { enabled: e.target.checked })}
+                    disabled={notify.busy}
+                  />
+                  On
+                </label>
+                <button
+                  onClick={() => notify.test(c)}
+                  disabled={notify.busy}
+                  className="rounded px-2 py-1 text-xs text-blue-600 transition-colors hover:bg-blue-50 disabled:opacity-40 dark:text-blue-400 dark:hover:bg-blue-900/20"
+                >
+                  Test
+                </button>
+                <button
+                  onClick={() => notify.remove(c.id)}
+                  disabled={notify.busy}
+                  aria-label={`Remove channel ${c.name}`}
+                  className="rounded px-2 py-1 text-xs text-slate-400 transition-colors hover:bg-red-50 hover:text-red-500 disabled:opacity-40 dark:hover:bg-red-900/20 dark:hover:text-red-400"
+                >
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+          {notify.channels.length === 0 && (
+            <li className="py-2 text-xs text-slate-400 dark:text-slate-500">
+              No channels yet.
+            </li>
+          )}
+        </ul>
+      )}
+
+      <form onSubmit={handleAdd} className="space-y-2">
+        <div className="flex gap-2">
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as NotificationChannelType)}
+            aria-label="Channel type"
+            className={INPUT_CLASS}
+          >
+            {CHANNEL_TYPES.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.label}
+              </option>
+            ))}
+          </select>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name, e.g. #security"
+            aria-label="Channel name"
+            className={`${INPUT_CLASS} min-w-0 flex-1`}
+          />
+          <select
+            value={minSeverity}
+            onChange={(e) => setMinSeverity(e.target.value as Severity)}
+            aria-label="Minimum severity"
+            className={INPUT_CLASS}
+          >
+            {SEVERITIES.map((s) => (
+              <option key={s} value={s}>
+                {s}+
+              </option>
+            ))}
+          </select>
+        </div>
+        <input
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          placeholder={CHANNEL_TYPES.find((t) => t.id === type)?.placeholder}
+          aria-label={type === 'email' ? 'Recipients' : 'Webhook URL'}
+          className={`${INPUT_CLASS} w-full`}
+        />
+        <div className="flex items-center justify-between">
+          <div className="flex gap-3 text-xs text-slate-600 dark:text-slate-400">
+            {EVENT_KINDS.map((k) => (
+              <label key={k.id} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={events.includes(k.id)}
+                  onChange={(e) => toggleEvent(k.id, e.target.checked)}
+                />
+                {k.label}
+              </label>
+            ))}
+          </div>
+          <button
+            type="submit"
+            disabled={notify.busy || !name.trim() || !target.trim() || events.length === 0}
+            className="rounded-lg bg-blue-600 px-3 py-1 text-xs font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+      </form>
+
+      {notify.tested && (
+        <p className="mt-3 text-xs text-slate-500 dark:text-slate-400">
+          Test notification sent to {notify.tested}.
+        </p>
+      )}
+      {notify.error && (
+        <p className="mt-3 text-xs text-red-600 dark:text-red-400">{notify.error}</p>
+      )}
+    </div>
+  );
+}
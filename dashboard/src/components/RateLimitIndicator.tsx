@@ -0,0 +1,43 @@
+import type { RateLimitStatus } from '../api/client';
+import { formatRelativeTime } from '../utils/date';
+
+type RateLimitIndicatorProps = {
+  rateLimit: RateLimitStatus | null;
+};
+
+/** Compact GitHub API quota meter for the header. */
+export function RateLimitIndicator({ rateLimit }: RateLimitIndicatorProps) {
+  if (!rateLimit || rateLimit.remaining == null || !rateLimit.limit) return null;
+
+  const pct = Math.round((rateLimit.remaining / rateLimit.limit) * 100);
+  const throttled =
+    rateLimit.throttledUntil != null && Date.parse(rateLimit.throttledUntil) > Date.now();
+  const barColor = throttled || pct < 10
+    ? 'bg-red-500'
+    : pct < 30
+      ? 'bg-yellow-500'
+      : 'bg-green-500';
+  const resetIn = rateLimit.resetAt
+    ? formatRelativeTime(rateLimit.resetAt).replace(' ago', '')
+    : null;
+
+  return (
+    <div
+      className="hidden items-center gap-2 text-xs text-slate-500 sm:flex dark:text-slate-400"
+      title={
+        `GitHub API: ${rateLimit.remaining} of ${rateLimit.limit} requests left` +
+        (rateLimit.resetAt ? `, resets at ${new Date(rateLimit.resetAt).toLocaleTimeString()}` : '') +
+        (rateLimit.retries > 0 ? ` — ${rateLimit.retries} rate-limited retries` : '')
+      }
+    >
+      <span>{throttled ? 'Throttled' : 'API'}</span>
+      <div className="h-1.5 w-16 overflow-hidden rounded-full bg-slate-200 dark:bg-slate-700">
+        <div className={`h-full ${barColor}`} style={{ width: `${pct}%` }} />
+      </div>
+      <span className="tabular-nums">
+        {rateLimit.remaining}/{rateLimit.limit}
+      </span>
+      {pct < 30 && resetIn && <span>· resets {resetIn}</span>}
+    </div>
+  );
+}
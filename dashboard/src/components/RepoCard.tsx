@@ -1,8 +1,9 @@
 import { memo, useState } from 'react';
-import type { RepoSummary } from '../api/client';
+import type { AlertSource, RepoSummary } from '../api/client';
 import { formatRelativeTime } from '../utils/date';
-import { parseRepo } from '../utils/repo';
+import { DEFAULT_HOST, REPO_ERROR_LABEL, parseRepo, repoDisplayName } from '../utils/repo';
 import { SEVERITIES, SEVERITY_BAR } from '../utils/severity';
+import { SOURCE_LABEL } from '../utils/source';
 
 type RepoCardProps = {
   repo: RepoSummary;
@@ -26,6 +27,13 @@ export const RepoCard = memo(function RepoCard({
   const [confirming, setConfirming] = useState(false);
   const [removing, setRemoving] = useState(false);
 
+  const sourceTotals = (Object.keys(SOURCE_LABEL) as AlertSource[])
+    .map((source) => ({
+      source,
+      total: Object.values(repo.sourceCounts[source] ?? {}).reduce((sum, n) => sum + n, 0),
+    }))
+    .filter(({ total }) => total > 0);
+
   const handleRemove = async (e: React.MouseEvent) => {
     e.stopPropagation();
     setRemoving(true);
@@ -54,10 +62,55 @@ export const RepoCard = memo(function RepoCard({
           : 'border-slate-200 dark:border-slate-800'
       }`}
     >
-      {/* Repo name */}
-      <h3 className="truncate text-sm font-semibold text-slate-900 dark:text-slate-100">
-        {repo.repo}
-      </h3>
+      {/* Repo name, with its host when it is not the default one */}
+      <div className="flex items-center gap-2">
+        <h3 className="truncate text-sm font-semibold text-slate-900 dark:text-slate-100">
+          {repoDisplayName(repo.repo)}
+        </h3>
+        {repo.host !== DEFAULT_HOST && (
+          <span
+            className="shrink-0 rounded bg-indigo-100 px-1.5 py-0.5 text-[10px] font-medium text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300"
+            title={`Host: ${repo.host}`}
+          >
+            {repo.host}
+          </span>
+        )}
+        {repo.riskScore > 0 && (
+          <span
+            className="ml-auto shrink-0 rounded bg-slate-100 px-1.5 py-0.5 text-[10px] font-medium text-slate-600 dark:bg-slate-800 dark:text-slate-300"
+            title="Risk score"
+          >
+            Risk {Math.round(repo.riskScore)}
+          </span>
+        )}
+        {repo.upstreamState && (
+          <span
+            className="shrink-0 rounded bg-slate-200 px-1.5 py-0.5 text-[10px] font-medium text-slate-600 dark:bg-slate-700 dark:text-slate-300"
+            title={
+              repo.upstreamState === 'archived'
+                ? 'Flagged by watch-target discovery'
+                : 'Flagged by watch-target discovery; left out of refresh-all until refreshed on its own'
+            }
+          >
+            {repo.upstreamState === 'archived' ? 'Archived upstream' : 'Deleted upstream'}
+          </span>
+        )}
+      </div>
+
+      {/* Language, visibility and topics from the repo metadata */}
+      {repo.metadata && (
+        <p className="mt-1 truncate text-[10px] text-slate-400 dark:text-slate-500">
+          {[repo.metadata.language, repo.metadata.visibility, ...repo.metadata.topics]
+            .filter(Boolean)
+            .join(' · ')}
+        </p>
+      )}
+
+      {repo.groups.length > 0 && (
+        <p className="mt-0.5 truncate text-[10px] text-slate-500 dark:text-slate-400" title="Groups">
+          {repo.groups.join(', ')}
+        </p>
+      )}
 
       {/* Severity breakdown bar */}
       {repo.totalAlerts > 0 ? (
@@ -94,6 +147,27 @@ export const RepoCard = memo(function RepoCard({
         })}
       </div>
 
+      {/* Per-source totals, only when more than one source has open alerts */}
+      {sourceTotals.length > 1 && (
+        <div className="mt-1 flex flex-wrap gap-x-3 text-[10px] text-slate-400 dark:text-slate-500">
+          {sourceTotals.map(({ source, total }) => (
+            <span key={source}>
+              {total} {SOURCE_LABEL[source]}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Last sync failure; the counts above are from the last successful sync */}
+      {repo.lastError && (
+        <p
+          className="mt-2 truncate rounded bg-amber-50 px-2 py-1 text-[11px] font-medium text-amber-700 dark:bg-amber-900/20 dark:text-amber-300"
+          title={`${repo.lastError.message} (${formatRelativeTime(repo.lastError.occurredAt)})`}
+        >
+          {REPO_ERROR_LABEL[repo.lastError.kind]} · showing data from last successful sync
+        </p>
+      )}
+
       {/* Footer */}
       <div className="mt-3 flex items-center justify-between">
         {confirming ? (
@@ -128,7 +202,7 @@ export const RepoCard = memo(function RepoCard({
         ) : (
           <>
             <span className="text-xs text-slate-400 dark:text-slate-500">
-              Synced {formatRelativeTime(repo.lastSync)}
+              {repo.lastSync ? `Synced ${formatRelativeTime(repo.lastSync)}` : 'Never synced'}
             </span>
             <div className="flex items-center gap-1">
               {/* Remove button */}
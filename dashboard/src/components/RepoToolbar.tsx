@@ -1,6 +1,14 @@
 import type { ReactNode } from 'react';
-import type { RepoSortOption, SeverityFilter } from '../api/client';
+import type {
+  BulkRefreshDone,
+  MetadataFilter,
+  RepoSortOption,
+  RepoVisibility,
+  SeverityFilter,
+  SourceFilter,
+} from '../api/client';
 import { SEVERITY_OPTIONS } from '../utils/severity';
+import { SOURCE_OPTIONS } from '../utils/source';
 
 type RepoToolbarProps = {
   searchQuery: string;
@@ -9,10 +17,15 @@ type RepoToolbarProps = {
   onSortChange: (option: RepoSortOption) => void;
   severityFilter: SeverityFilter;
   onSeverityFilterChange: (filter: SeverityFilter) => void;
+  sourceFilter: SourceFilter;
+  onSourceFilterChange: (source: SourceFilter) => void;
+  metadataFilter: MetadataFilter;
+  onMetadataFilterChange: (filter: MetadataFilter) => void;
+  metadataOptions: { topics: string[]; languages: string[]; groups: string[] };
   onRefreshAll: () => void;
   bulkRefreshing: boolean;
   refreshProgress: { completed: number; total: number } | null;
-  refreshDone: boolean;
+  refreshDone: BulkRefreshDone | null;
   repoCount: number;
   filteredCount: number;
   extraActions?: ReactNode;
@@ -22,9 +35,21 @@ const SORT_OPTIONS: { id: RepoSortOption; label: string }[] = [
   { id: 'name', label: 'Name' },
   { id: 'critical', label: 'Critical' },
   { id: 'total', label: 'Total' },
+  { id: 'risk', label: 'Risk' },
 ];
 
-/** Toolbar with search, sort, severity filter, and bulk refresh. */
+const VISIBILITY_OPTIONS: RepoVisibility[] = ['public', 'private', 'internal'];
+
+const ARCHIVED_OPTIONS: { id: MetadataFilter['archived']; label: string }[] = [
+  { id: 'all', label: 'Active & archived' },
+  { id: 'active', label: 'Active only' },
+  { id: 'archived', label: 'Archived only' },
+];
+
+const SELECT_CLASS =
+  'rounded-md border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300';
+
+/** Toolbar with search, sort, source, severity and metadata filters, and bulk refresh. */
 export function RepoToolbar({
   searchQuery,
   onSearchChange,
@@ -32,6 +57,11 @@ export function RepoToolbar({
   onSortChange,
   severityFilter,
   onSeverityFilterChange,
+  sourceFilter,
+  onSourceFilterChange,
+  metadataFilter,
+  onMetadataFilterChange,
+  metadataOptions,
   onRefreshAll,
   bulkRefreshing,
   refreshProgress,
@@ -47,8 +77,43 @@ export function RepoToolbar({
     });
   };
 
+  const setMetadata = (patch: Partial<MetadataFilter>) =>
+    onMetadataFilterChange({ ...metadataFilter, ...patch });
+
   const hasActiveFilter =
-    searchQuery.trim() !== '' || Object.values(severityFilter).some(Boolean);
+    searchQuery.trim() !== '' ||
+    Object.values(severityFilter).some(Boolean) ||
+    metadataFilter.topic !== null ||
+    metadataFilter.visibility !== null ||
+    metadataFilter.language !== null ||
+    metadataFilter.archived !== 'all' ||
+    metadataFilter.group !== null;
+
+  const sourceSelect = (
+    <div className="flex items-center gap-2">
+      <span className="text-xs font-medium text-slate-500 dark:text-slate-400">
+        Source
+      </span>
+      <div className="inline-flex rounded-lg bg-slate-100 p-1 dark:bg-slate-800">
+        {SOURCE_OPTIONS.map((opt) => {
+          const isActive = sourceFilter === opt.id;
+          return (
+            <button
+              key={opt.id}
+              onClick={() => onSourceFilterChange(opt.id)}
+              className={`rounded-md px-2.5 py-1 text-xs font-medium transition-colors ${
+                isActive
+                  ? 'bg-white text-slate-900 shadow-sm dark:bg-slate-700 dark:text-slate-100'
+                  : 'text-slate-600 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-200'
+              }`}
+            >
+              {opt.label}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
 
   return (
     <div className="space-y-3">
@@ -94,12 +159,18 @@ export function RepoToolbar({
         {refreshDone ? (
           <button
             disabled
+            title={`${refreshDone.refreshed - refreshDone.unchanged} updated, ${refreshDone.unchanged} unchanged, ${refreshDone.failed} failed`}
             className="inline-flex items-center gap-2 rounded-lg bg-green-600 px-4 py-2 text-sm font-medium text-white disabled:opacity-90 dark:bg-green-500"
           >
             <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
             </svg>
             Done
+            {refreshDone.unchanged > 0 && (
+              <span className="text-xs font-normal opacity-80">
+                ({refreshDone.unchanged} unchanged)
+              </span>
+            )}
           </button>
         ) : (
           <button
@@ -129,7 +200,7 @@ export function RepoToolbar({
         )}
       </div>
 
-      {/* Row 2: Sort + Severity Filter + Count */}
+      {/* Row 2: Sort + Source + Severity Filter + Count */}
       <div className="flex flex-wrap items-center gap-4">
         {/* Sort controls */}
         <div className="flex items-center gap-2">
@@ -156,6 +227,8 @@ export function RepoToolbar({
           </div>
         </div>
 
+        {sourceSelect}
+
         {/* Severity filter */}
         <div className="flex items-center gap-2">
           <span className="text-xs font-medium text-slate-500 dark:text-slate-400">
@@ -193,6 +266,83 @@ export function RepoToolbar({
           )}
         </span>
       </div>
+
+      {/* Row 3: Metadata filters (topic, visibility, language, archived, group) */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-medium text-slate-500 dark:text-slate-400">
+          Repo
+        </span>
+        <select
+          value={metadataFilter.topic ?? ''}
+          onChange={(e) => setMetadata({ topic: e.target.value || null })}
+          aria-label="Filter by topic"
+          className={SELECT_CLASS}
+        >
+          <option value="">Any topic</option>
+          {metadataOptions.topics.map((topic) => (
+            <option key={topic} value={topic}>
+              {topic}
+            </option>
+          ))}
+        </select>
+        <select
+          value={metadataFilter.visibility ?? ''}
+          onChange={(e) =>
+            setMetadata({ visibility: (e.target.value || null) as RepoVisibility | null })
+          }
+          aria-label="Filter by visibility"
+          className={SELECT_CLASS}
+        >
+          <option value="">Any visibility</option>
+          {VISIBILITY_OPTIONS.map((visibility) => (
+            <option key={visibility} value={visibility}>
+              {visibility}
+            </option>
+          ))}
+        </select>
+        <select
+          value={metadataFilter.language ?? ''}
+          onChange={(e) => setMetadata({ language: e.target.value || null })}
+          aria-label="Filter by language"
+          className={SELECT_CLASS}
+        >
+          <option value="">Any language</option>
+          {metadataOptions.languages.map((language) => (
+            <option key={language} value={language}>
+              {language}
+            </option>
+          ))}
+        </select>
+        <select
+          value={metadataFilter.archived}
+          onChange={(e) =>
+            setMetadata({ archived: e.target.value as MetadataFilter['archived'] })
+          }
+          aria-label="Filter by archived state"
+          className={SELECT_CLASS}
+        >
+          {ARCHIVED_OPTIONS.map((opt) => (
+            <option key={opt.id} value={opt.id}>
+              {opt.label}
+            </option>
+          ))}
+        </select>
+        {metadataOptions.groups.length > 0 && (
+          <select
+            value={metadataFilter.group ?? ''}
+            onChange={(e) => setMetadata({ group: e.target.value || null })}
+            aria-label="Filter by group"
+            className={SELECT_CLASS}
+          >
+            <option value="">Any group</option>
+            {metadataOptions.groups.map((group) => (
+              <option key={group} value={group}>
+                {group}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
     </div>
   );
 }
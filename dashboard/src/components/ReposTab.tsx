@@ -1,20 +1,42 @@
 import { useState } from 'react';
-import type { RepoAlertsResponse, RepoSortOption, RepoSummary, SeverityFilter } from '../api/client';
-import { filterReposByName, filterReposBySeverity, sortRepos } from '../api/client';
+import type {
+  BulkRefreshDone,
+  MetadataFilter,
+  RepoAlertsResponse,
+  RepoSortOption,
+  RepoSummary,
+  SeverityFilter,
+  SourceFilter,
+} from '../api/client';
+import {
+  EMPTY_METADATA_FILTER,
+  collectMetadataOptions,
+  filterReposByMetadata,
+  filterReposByName,
+  filterReposBySeverity,
+  selectRepoSource,
+  sortRepos,
+} from '../api/client';
 import type { TimelineState } from '../hooks/useHistory';
 import type { FixAdvisorState } from '../hooks/useFixAdvisor';
+import type { CodeScanningState } from '../hooks/useCodeScanning';
+import type { SecretScanningState } from '../hooks/useSecretScanning';
 import { AddReposModal } from './AddReposModal';
 import { AlertsTable } from './AlertsTable';
 import { AlertTimeline } from './AlertTimeline';
+import { CodeScanningTable } from './CodeScanningTable';
 import { FixPlanTable } from './FixPlanTable';
 import { RepoGrid } from './RepoGrid';
 import { RepoToolbar } from './RepoToolbar';
+import { SecretsTable } from './SecretsTable';
 import { TabNav } from './TabNav';
 
-type RepoDetailTab = 'alerts' | 'fix-plan';
+type RepoDetailTab = 'alerts' | 'code-scanning' | 'secrets' | 'fix-plan';
 
 const DETAIL_TABS: { id: RepoDetailTab; label: string }[] = [
   { id: 'alerts', label: 'Alerts' },
+  { id: 'code-scanning', label: 'Code Scanning' },
+  { id: 'secrets', label: 'Secrets' },
   { id: 'fix-plan', label: 'Fix Plan' },
 ];
 
@@ -24,9 +46,11 @@ type ReposTabProps = {
   repoAlerts: RepoAlertsResponse | null;
   timeline: TimelineState;
   fixAdvisor: FixAdvisorState;
+  codeScanning: CodeScanningState;
+  secretScanning: SecretScanningState;
   bulkRefreshing: boolean;
   refreshProgress: { completed: number; total: number } | null;
-  refreshDone: boolean;
+  refreshDone: BulkRefreshDone | null;
   isRefreshing: (repo: string) => boolean;
   isLoadingAlerts: (repo: string) => boolean;
   onRefreshRepo: (owner: string, name: string) => void;
@@ -34,6 +58,8 @@ type ReposTabProps = {
   onSelectRepo: (repoFullName: string | null) => void;
   onAddedRepos: () => void;
   onRemoveRepo: (owner: string, name: string) => Promise<void>;
+  /** Runs after alerts were dismissed or reopened on GitHub, or annotated. */
+  onAlertsChanged: () => void;
 };
 
 /** Repos tab content: toolbar, grid, alerts table, and timeline. */
@@ -43,6 +69,8 @@ export function ReposTab({
   repoAlerts,
   timeline,
   fixAdvisor,
+  codeScanning,
+  secretScanning,
   bulkRefreshing,
   refreshProgress,
   refreshDone,
@@ -53,21 +81,27 @@ export function ReposTab({
   onSelectRepo,
   onAddedRepos,
   onRemoveRepo,
+  onAlertsChanged,
 }: ReposTabProps) {
   const monitoredRepoNames = new Set(repos.map((r) => r.repo));
   const [searchQuery, setSearchQuery] = useState('');
   const [sortOption, setSortOption] = useState<RepoSortOption>('name');
   const [detailTab, setDetailTab] = useState<RepoDetailTab>('alerts');
+  const [sourceFilter, setSourceFilter] = useState<SourceFilter>('all');
   const [severityFilter, setSeverityFilter] = useState<SeverityFilter>({
     critical: false,
     high: false,
     medium: false,
     low: false,
   });
+  const [metadataFilter, setMetadataFilter] = useState<MetadataFilter>(EMPTY_METADATA_FILTER);
 
-  const filteredRepos = filterReposBySeverity(
-    filterReposByName(repos, searchQuery),
-    severityFilter
+  const filteredRepos = filterReposByMetadata(
+    filterReposBySeverity(
+      filterReposByName(selectRepoSource(repos, sourceFilter), searchQuery),
+      severityFilter
+    ),
+    metadataFilter
   );
   const sortedRepos = sortRepos(filteredRepos, sortOption);
 
@@ -80,6 +114,11 @@ export function ReposTab({
         onSortChange={setSortOption}
         severityFilter={severityFilter}
         onSeverityFilterChange={setSeverityFilter}
+        sourceFilter={sourceFilter}
+        onSourceFilterChange={setSourceFilter}
+        metadataFilter={metadataFilter}
+        onMetadataFilterChange={setMetadataFilter}
+        metadataOptions={collectMetadataOptions(repos)}
         onRefreshAll={onRefreshAll}
         bulkRefreshing={bulkRefreshing}
         refreshProgress={refreshProgress}
@@ -117,6 +156,8 @@ export function ReposTab({
                 alerts={repoAlerts?.alerts ?? []}
                 repoFullName={selectedRepo}
                 isLoading={isLoadingAlerts(selectedRepo)}
+                onTriaged={onAlertsChanged}
+                onAnnotated={onAlertsChanged}
               />
               <AlertTimeline
                 entries={timeline.entries}
@@ -125,6 +166,14 @@ export function ReposTab({
             </>
           )}
 
+          {detailTab === 'code-scanning' && (
+            <CodeScanningTable state={codeScanning} repoFullName={selectedRepo} />
+          )}
+
+          {detailTab === 'secrets' && (
+            <SecretsTable state={secretScanning} repoFullName={selectedRepo} />
+          )}
+
           {detailTab === 'fix-plan' && (
             <FixPlanTable
               data={fixAdvisor.data}
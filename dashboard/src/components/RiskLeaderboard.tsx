@@ -0,0 +1,105 @@
+import type { RepoRisk } from '../api/client';
+import { Card } from './Card';
+import { EmptyState } from './EmptyState';
+import { ErrorBanner } from './ErrorBanner';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './Table';
+
+type RiskLeaderboardProps = {
+  data: RepoRisk[];
+  loading: boolean;
+  error: string | null;
+};
+
+/** Repos ranked by risk score, with the open alerts behind each score. */
+export function RiskLeaderboard({ data, loading, error }: RiskLeaderboardProps) {
+  if (loading) {
+    return <div className="h-48 animate-pulse rounded-xl bg-slate-200 dark:bg-slate-800" />;
+  }
+  if (error) return <ErrorBanner message={error} />;
+
+  const ranked = data.filter((row) => row.riskScore > 0);
+  if (ranked.length === 0) {
+    return <EmptyState title="Risk" message="No open Dependabot alerts — nothing at risk." />;
+  }
+  const maxScore = ranked[0].riskScore;
+
+  return (
+    <Card>
+      <div className="border-b border-slate-200 px-4 py-3 dark:border-slate-800">
+        <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-100">Risk leaderboard</h3>
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Open Dependabot alerts weighted by severity, CVSS, EPSS, KEV listing, dependency scope,
+          SLA and age. Tune the weights in Settings.
+        </p>
+      </div>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHead>
+            <TableHeader>#</TableHeader>
+            <TableHeader>Repo</TableHeader>
+            <TableHeader>Risk</TableHeader>
+            <TableHeader>Open</TableHeader>
+            <TableHeader>Runtime</TableHeader>
+            <TableHeader>Overdue</TableHeader>
+            <TableHeader>KEV</TableHeader>
+            <TableHeader>Max CVSS</TableHeader>
+          </TableHead>
+          <TableBody>
+            {ranked.map((row, i) => (
+              <TableRow key={row.repo}>
+                <TableCell className="text-xs text-slate-400 dark:text-slate-500">{i + 1}</TableCell>
+                <TableCell className="font-mono text-xs text-slate-700 dark:text-slate-300">
+                  {row.repo}
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <div className="h-1.5 w-24 overflow-hidden rounded-full bg-slate-100 dark:bg-slate-800">
+                      <div
+                        className="h-full rounded-full bg-red-500"
+                        style={{ width: `${Math.max((row.riskScore / maxScore) * 100, 4)}%` }}
+                      />
+                    </div>
+                    <span className="text-xs font-medium text-slate-700 dark:text-slate-300">
+                      {row.riskScore.toFixed(1)}
+                    </span>
+                  </div>
+                </TableCell>
+                <TableCell className="text-xs text-slate-500 dark:text-slate-400">
+                  {row.openAlerts}
+                </TableCell>
+                <TableCell className="text-xs text-slate-500 dark:text-slate-400">
+                  {row.runtimeAlerts}
+                </TableCell>
+                <TableCell>
+                  <span
+                    className={`text-xs font-medium ${
+                      row.overdueAlerts > 0
+                        ? 'text-red-600 dark:text-red-400'
+                        : 'text-slate-500 dark:text-slate-400'
+                    }`}
+                  >
+                    {row.overdueAlerts}
+                  </span>
+                </TableCell>
+                <TableCell>
+                  <span
+                    className={`text-xs font-medium ${
+                      row.kevAlerts > 0
+                        ? 'text-red-600 dark:text-red-400'
+                        : 'text-slate-500 dark:text-slate-400'
+                    }`}
+                  >
+                    {row.kevAlerts}
+                  </span>
+                </TableCell>
+                <TableCell className="text-xs text-slate-500 dark:text-slate-400">
+                  {row.maxCvss === null ? '—' : row.maxCvss.toFixed(1)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react';
+import type { RiskWeights } from '../api/client';
+import { useRiskWeights } from '../hooks/useRisk';
+import { SEVERITIES } from '../utils/severity';
+import type { Severity } from '../utils/severity';
+
+type RiskWeightsSectionProps = {
+  onChanged: () => void;
+};
+
+type Factor = 'cvss' | 'epss' | 'kev' | 'developmentScope' | 'overdue' | 'agePerYear';
+
+/** Factors that multiply the whole score; 1 leaves it unchanged. */
+const MULTIPLIERS: (Severity | Factor)[] = ['kev', 'overdue'];
+
+const minimumOf = (key: Severity | Factor) => (MULTIPLIERS.includes(key) ? 1 : 0);
+
+/** Weights as typed, keyed by severity or factor. */
+type DraftWeights = Record<Severity | Factor, string>;
+
+const INPUT_CLASS =
+  'rounded-md border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300';
+
+const FACTORS: { id: Factor; label: string; hint: string }[] = [
+  { id: 'cvss', label: 'CVSS', hint: '× (1 + weight × score / 10)' },
+  { id: 'epss', label: 'EPSS', hint: '× (1 + weight × EPSS percentile)' },
+  { id: 'kev', label: 'KEV', hint: '× weight when the CVE is known exploited' },
+  { id: 'developmentScope', label: 'Dev-only', hint: '× weight for development dependencies' },
+  { id: 'overdue', label: 'Overdue', hint: '× weight once past the SLA limit' },
+  { id: 'agePerYear', label: 'Age', hint: '× (1 + weight × years open)' },
+];
+
+function toDraft(weights: RiskWeights): DraftWeights {
+  const draft = {} as DraftWeights;
+  for (const severity of SEVERITIES) draft[severity] = String(weights.severity[severity]);
+  for (const { id } of FACTORS) draft[id] = String(weights[id]);
+  return draft;
+}
+
+/** Parses the draft; null when any weight is blank or below its minimum. */
+function parseDraft(draft: DraftWeights): RiskWeights | null {
+  const values = {} as Record<Severity | Factor, number>;
+  for (const key of Object.keys(draft) as (Severity | Factor)[]) {
+    const value = Number(draft[key]);
+    if (!draft[key].trim() || !(value >= minimumOf(key))) return null;
+    values[key] = value;
+  }
+  return {
+    severity: {
+      critical: values.critical,
+      high: values.high,
+      medium: values.medium,
+      low: values.low,
+    },
+    cvss: values.cvss,
+    epss: values.epss,
+    kev: values.kev,
+    developmentScope: values.developmentScope,
+    overdue: values.overdue,
+    agePerYear: values.agePerYear,
+  };
+}
+
+/** Weights of the repo risk score: points per severity and the factors scaling them. */
+export function RiskWeightsSection({ onChanged }: RiskWeightsSectionProps) {
+  const risk = useRiskWeights(onChanged);
+  const [draft, setDraft] = useState<DraftWeights | null>(null);
+
+  useEffect(() => {
+    if (risk.weights) setDraft(toDraft(risk.weights));
+  }, [risk.weights]);
+
+  const parsed = draft ? parseDraft(draft) : null;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (parsed) await risk.save(parsed);
+  };
+
+  const field = (key: Severity | Factor, label: string, title?: string) => (
+    <label key={key} className="flex flex-col gap-0.5" title={title}>
+      <span className="text-[10px] font-medium capitalize text-slate-500 dark:text-slate-400">
+        {label}
+      </span>
+      <input
+        type="number"
+        min={minimumOf(key)}
+        step="any"
+        value={draft?.[key] ?? ''}
+        onChange={(e) => setDraft((prev) => prev && { ...prev, [key]: e.target.value })}
+        aria-label={`${label} risk weight`}
+        className={`${INPUT_CLASS} w-full`}
+      />
+    </label>
+  );
+
+  return (
+    <div className="mb-5 rounded-xl border border-slate-200 p-4 dark:border-slate-700">
+      <h3 className="mb-1 text-sm font-semibold text-slate-900 dark:text-slate-100">
+        Risk score
+      </h3>
+      <p className="mb-3 text-xs text-slate-500 dark:text-slate-400">
+        Each open Dependabot alert scores its severity points, scaled by the factors below. A
+        repo&apos;s risk is the sum over its alerts.
+      </p>
+
+      {!draft ? (
+        <div className="h-10 animate-pulse rounded bg-slate-100 dark:bg-slate-800" />
+      ) : (
+        <form onSubmit={handleSave} className="space-y-3">
+          <div className="grid grid-cols-4 gap-1.5">
+            {SEVERITIES.map((severity) => field(severity, severity))}
+          </div>
+          <div className="grid grid-cols-3 gap-1.5">
+            {FACTORS.map(({ id, label, hint }) => field(id, label, hint))}
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={risk.busy || !parsed}
+              className="rounded-lg bg-blue-600 px-3 py-1 text-xs font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+            >
+              Save weights
+            </button>
+          </div>
+        </form>
+      )}
+
+      {risk.error && <p className="mt-3 text-xs text-red-600 dark:text-red-400">{risk.error}</p>}
+    </div>
+  );
+}
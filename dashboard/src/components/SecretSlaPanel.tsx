@@ -0,0 +1,129 @@
+import type { SecretMttrMetric, SecretSlaViolation } from '../api/client';
+import { formatDate } from '../utils/date';
+import { VALIDITY_BADGE } from '../utils/secret';
+import { Card } from './Card';
+import { EmptyState } from './EmptyState';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './Table';
+
+type SecretSlaPanelProps = {
+  mttr: SecretMttrMetric[];
+  sla: SecretSlaViolation[];
+};
+
+/** Secret scanning MTTR and open secrets checked against the secret SLA. */
+export function SecretSlaPanel({ mttr, sla }: SecretSlaPanelProps) {
+  const overdueCount = sla.filter((v) => v.overdue).length;
+  const resolvedCount = mttr.reduce((sum, m) => sum + m.resolvedCount, 0);
+  const avgDays =
+    resolvedCount > 0
+      ? Math.round(
+          (mttr.reduce((sum, m) => sum + m.avgDays * m.resolvedCount, 0) / resolvedCount) * 10
+        ) / 10
+      : null;
+
+  if (sla.length === 0 && mttr.length === 0) {
+    return (
+      <EmptyState
+        title="Secret Scanning"
+        variant="positive"
+        message="No secret scanning alerts yet."
+      />
+    );
+  }
+
+  return (
+    <Card>
+      <div className="flex items-center justify-between border-b border-slate-200 px-4 py-3 dark:border-slate-800">
+        <div>
+          <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-100">
+            Secret Scanning
+          </h3>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {overdueCount > 0 ? (
+              <span className="font-medium text-red-600 dark:text-red-400">
+                {overdueCount} open secret{overdueCount !== 1 ? 's' : ''} past SLA
+              </span>
+            ) : (
+              `${sla.length} open secret${sla.length !== 1 ? 's' : ''}, all within SLA`
+            )}
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="text-lg font-bold text-slate-900 dark:text-slate-100">
+            {avgDays != null ? `${avgDays}d` : '—'}
+          </p>
+          <p className="text-[10px] text-slate-500 dark:text-slate-400">
+            MTTR over {resolvedCount} resolved
+          </p>
+        </div>
+      </div>
+
+      {sla.length > 0 && (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHead>
+              <TableHeader>Repo</TableHeader>
+              <TableHeader>Secret Type</TableHeader>
+              <TableHeader>Validity</TableHeader>
+              <TableHeader>Open Since</TableHeader>
+              <TableHeader>Days Open</TableHeader>
+              <TableHeader>Link</TableHeader>
+            </TableHead>
+            <TableBody>
+              {sla.map((v) => (
+                <TableRow
+                  key={`${v.repo}-${v.alertNumber}`}
+                  className={
+                    v.overdue
+                      ? 'bg-red-50/50 dark:bg-red-900/10'
+                      : 'transition-colors hover:bg-slate-50 dark:hover:bg-slate-800/50'
+                  }
+                >
+                  <TableCell className="font-mono text-xs text-slate-700 dark:text-slate-300">
+                    {v.repo}
+                  </TableCell>
+                  <TableCell className="text-xs text-slate-700 dark:text-slate-300">
+                    {v.secretTypeDisplayName ?? v.secretType}
+                  </TableCell>
+                  <TableCell>
+                    <span
+                      className={`rounded px-1.5 py-0.5 text-[10px] font-medium ${
+                        VALIDITY_BADGE[v.validity ?? 'unknown'] ?? VALIDITY_BADGE.unknown
+                      }`}
+                    >
+                      {v.validity ?? 'unknown'}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-xs text-slate-500 dark:text-slate-400">
+                    {formatDate(v.firstSeen)}
+                  </TableCell>
+                  <TableCell
+                    className={`text-xs font-medium ${
+                      v.overdue ? 'text-red-600 dark:text-red-400' : 'text-slate-600 dark:text-slate-400'
+                    }`}
+                  >
+                    {v.openDays}d
+                  </TableCell>
+                  <TableCell>
+                    {v.htmlUrl ? (
+                      <a
+                        href={v.htmlUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs text-blue-600 hover:underline dark:text-blue-400"
+                      >
+                        View
+                      </a>
+                    ) : (
+                      <span className="text-xs text-slate-300 dark:text-slate-600">—</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,120 @@
+import type { SecretScanningState } from '../hooks/useSecretScanning';
+import { formatRelativeTime } from '../utils/date';
+import { VALIDITY_BADGE } from '../utils/secret';
+import { Card } from './Card';
+import { ErrorBanner } from './ErrorBanner';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './Table';
+
+type SecretsTableProps = {
+  state: SecretScanningState;
+  repoFullName: string;
+};
+
+/** Secret scanning alerts for the selected repo, open first. */
+export function SecretsTable({ state, repoFullName }: SecretsTableProps) {
+  const { alerts, loading, error } = state;
+  const openCount = alerts.filter((a) => a.state === 'open').length;
+
+  if (loading) {
+    return (
+      <Card className="mt-4 p-6 text-center">
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Loading secret scanning alerts...
+        </p>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return <ErrorBanner message={error} />;
+  }
+
+  return (
+    <Card className="mt-4 overflow-hidden">
+      <div className="border-b border-slate-200 px-4 py-3 dark:border-slate-800">
+        <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-100">
+          Secrets for{' '}
+          <span className="text-blue-600 dark:text-blue-400">
+            {repoFullName}
+          </span>
+          <span className="ml-2 text-xs font-normal text-slate-500 dark:text-slate-400">
+            ({openCount} open, {alerts.length - openCount} resolved)
+          </span>
+        </h3>
+      </div>
+
+      {alerts.length === 0 ? (
+        <div className="p-6 text-center">
+          <p className="text-sm text-green-600 dark:text-green-400">
+            No leaked secrets detected.
+          </p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHead>
+              <TableHeader>Secret Type</TableHeader>
+              <TableHeader>State</TableHeader>
+              <TableHeader>Validity</TableHeader>
+              <TableHeader>Push Protection</TableHeader>
+              <TableHeader>Created</TableHeader>
+              <TableHeader>Link</TableHeader>
+            </TableHead>
+            <TableBody>
+              {alerts.map((alert) => (
+                <TableRow key={alert.alertNumber}>
+                  <TableCell className="text-xs text-slate-700 dark:text-slate-300">
+                    {alert.secretTypeDisplayName ?? alert.secretType}
+                  </TableCell>
+                  <TableCell className="text-xs text-slate-500 dark:text-slate-400">
+                    {alert.state}
+                    {alert.resolution && (
+                      <span className="ml-1 text-slate-400 dark:text-slate-500">
+                        ({alert.resolution.replace(/_/g, ' ')})
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <span
+                      className={`rounded px-1.5 py-0.5 text-[10px] font-medium ${
+                        VALIDITY_BADGE[alert.validity ?? 'unknown'] ?? VALIDITY_BADGE.unknown
+                      }`}
+                    >
+                      {alert.validity ?? 'unknown'}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-xs text-slate-500 dark:text-slate-400">
+                    {alert.pushProtectionBypassed ? (
+                      <span className="font-medium text-red-600 dark:text-red-400">
+                        Bypassed{alert.pushProtectionBypassedBy ? ` by ${alert.pushProtectionBypassedBy}` : ''}
+                      </span>
+                    ) : (
+                      '—'
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs text-slate-500 dark:text-slate-400">
+                    {formatRelativeTime(alert.createdAt)}
+                  </TableCell>
+                  <TableCell>
+                    {alert.htmlUrl ? (
+                      <a
+                        href={alert.htmlUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs text-blue-600 hover:underline dark:text-blue-400"
+                      >
+                        View
+                      </a>
+                    ) : (
+                      <span className="text-xs text-slate-300 dark:text-slate-600">—</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </Card>
+  );
+}
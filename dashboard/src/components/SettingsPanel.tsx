@@ -1,11 +1,31 @@
 import { useEffect, useState } from 'react';
 import { postReset } from '../api/client';
+import { GroupsSection } from './GroupsSection';
+import { NotificationsSection } from './NotificationsSection';
+import { RiskWeightsSection } from './RiskWeightsSection';
+import { SlaPolicySection } from './SlaPolicySection';
+import { ThreatIntelSection } from './ThreatIntelSection';
+import { WatchTargetsSection } from './WatchTargetsSection';
 
 type SettingsPanelProps = {
   onReset: () => void;
+  onDiscovered: () => void;
+  repos: string[];
+  onGroupsChanged: () => void;
+  onSlaPolicyChanged: () => void;
+  onRiskWeightsChanged: () => void;
+  onThreatIntelImported: () => void;
 };
 
-export function SettingsPanel({ onReset }: SettingsPanelProps) {
+export function SettingsPanel({
+  onReset,
+  onDiscovered,
+  repos,
+  onGroupsChanged,
+  onSlaPolicyChanged,
+  onRiskWeightsChanged,
+  onThreatIntelImported,
+}: SettingsPanelProps) {
   const [open, setOpen] = useState(false);
   const [confirming, setConfirming] = useState(false);
   const [resetting, setResetting] = useState(false);
@@ -87,6 +107,13 @@ export function SettingsPanel({ onReset }: SettingsPanelProps) {
 
             {/* Body */}
             <div className="px-6 py-5">
+              <WatchTargetsSection onDiscovered={onDiscovered} />
+              <GroupsSection repos={repos} onChanged={onGroupsChanged} />
+              <SlaPolicySection repos={repos} onChanged={onSlaPolicyChanged} />
+              <RiskWeightsSection onChanged={onRiskWeightsChanged} />
+              <ThreatIntelSection onImported={onThreatIntelImported} />
+              <NotificationsSection />
+
               {/* Danger Zone */}
               <div className="rounded-xl border border-red-200 bg-red-50 p-4 dark:border-red-800 dark:bg-red-900/10">
                 <h3 className="mb-1 text-sm font-semibold text-red-700 dark:text-red-400">
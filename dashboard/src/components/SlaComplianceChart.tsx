@@ -0,0 +1,129 @@
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import type { SlaComplianceReport } from '../api/client';
+import { SEVERITIES, SEVERITY_HEX } from '../utils/severity';
+import { Card } from './Card';
+import { EmptyState } from './EmptyState';
+
+type SlaComplianceChartProps = {
+  data: SlaComplianceReport;
+};
+
+function formatRate(rate: number | null): string {
+  return rate === null ? '—' : `${Math.round(rate * 100)}%`;
+}
+
+/** Grouped bar chart of SLA attainment per quarter and severity, with range totals. */
+export function SlaComplianceChart({ data }: SlaComplianceChartProps) {
+  const resolved = data.totals.reduce((sum, s) => sum + s.resolved, 0);
+  if (resolved === 0 && data.totals.every((s) => s.breachDays === 0)) {
+    return (
+      <EmptyState
+        title="SLA Compliance by Quarter"
+        message="No alerts were resolved or breached their SLA in this range yet."
+      />
+    );
+  }
+
+  // Percentages per severity; quarters without resolved alerts leave a gap
+  const chartData = data.periods.map((p) => {
+    const point: Record<string, string | number | null> = { period: p.period };
+    for (const stat of p.severities) {
+      point[stat.severity] =
+        stat.attainmentRate === null ? null : Math.round(stat.attainmentRate * 100);
+    }
+    return point;
+  });
+  const late = data.totals.reduce((sum, s) => sum + s.late, 0);
+  const breachDays = data.totals.reduce((sum, s) => sum + s.breachDays, 0);
+
+  return (
+    <Card className="p-6">
+      <div className="mb-4 flex flex-wrap items-baseline justify-between gap-2">
+        <div>
+          <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-100">
+            SLA Compliance by Quarter
+          </h3>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            Share of resolved alerts fixed or dismissed within SLA, {data.from} to {data.to}
+          </p>
+        </div>
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          <span className={late > 0 ? 'font-medium text-red-600 dark:text-red-400' : ''}>
+            {late} resolved late
+          </span>
+          {' · '}
+          {Math.round(breachDays)} breach-days
+        </p>
+      </div>
+
+      <ResponsiveContainer width="100%" height={260}>
+        <BarChart data={chartData} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
+          <CartesianGrid
+            strokeDasharray="3 3"
+            className="stroke-slate-200 dark:stroke-slate-700"
+            vertical={false}
+          />
+          <XAxis
+            dataKey="period"
+            tick={{ fontSize: 11 }}
+            className="text-slate-500 dark:text-slate-400"
+          />
+          <YAxis
+            domain={[0, 100]}
+            unit="%"
+            tick={{ fontSize: 11 }}
+            className="text-slate-500 dark:text-slate-400"
+          />
+          <Tooltip
+            formatter={(value) => (value == null ? '—' : `${value}%`)}
+            contentStyle={{
+              backgroundColor: 'var(--color-slate-900, #0f172a)',
+              border: '1px solid var(--color-slate-700, #334155)',
+              borderRadius: '8px',
+              fontSize: '12px',
+              color: '#e2e8f0',
+            }}
+          />
+          <Legend wrapperStyle={{ fontSize: '12px' }} />
+          {SEVERITIES.map((severity) => (
+            <Bar
+              key={severity}
+              dataKey={severity}
+              name={severity[0].toUpperCase() + severity.slice(1)}
+              fill={SEVERITY_HEX[severity]}
+              radius={[4, 4, 0, 0]}
+            />
+          ))}
+        </BarChart>
+      </ResponsiveContainer>
+
+      <div className="mt-4 grid grid-cols-2 gap-3 sm:grid-cols-4">
+        {data.totals.map((stat) => (
+          <div
+            key={stat.severity}
+            className="rounded-lg border border-slate-200 px-3 py-2 dark:border-slate-700"
+          >
+            <p className="text-[10px] font-medium capitalize text-slate-500 dark:text-slate-400">
+              {stat.severity}
+            </p>
+            <p className="text-lg font-semibold text-slate-900 dark:text-slate-100">
+              {formatRate(stat.attainmentRate)}
+            </p>
+            <p className="text-[10px] text-slate-500 dark:text-slate-400">
+              {stat.withinSla}/{stat.resolved} within SLA · {stat.breachDays}d in breach
+            </p>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
@@ -1,23 +1,23 @@
-import type { SlaViolation } from '../api/client';
+import { useState } from 'react';
+import type { SlaPolicy, SlaViolation, SourceFilter } from '../api/client';
 import { formatDate } from '../utils/date';
-import { SEVERITY_BADGE } from '../utils/severity';
+import { SEVERITIES, SEVERITY_BADGE } from '../utils/severity';
+import { SOURCE_LABEL, SOURCE_OPTIONS } from '../utils/source';
 import { Card } from './Card';
 import { EmptyState } from './EmptyState';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './Table';
 
-const SLA_DEFAULTS: { severity: string; limit: string }[] = [
-  { severity: 'Critical', limit: '2 days' },
-  { severity: 'High', limit: '7 days' },
-  { severity: 'Medium', limit: '30 days' },
-  { severity: 'Low', limit: '90 days' },
-];
-
 type SlaPanelProps = {
   data: SlaViolation[];
+  /** Policy whose defaults fill the legend; overrides show in each row's SLA limit. */
+  policy: SlaPolicy | null;
 };
 
 /** Table of SLA violations sorted by most overdue first. */
-export function SlaPanel({ data }: SlaPanelProps) {
+export function SlaPanel({ data: allData, policy }: SlaPanelProps) {
+  const [sourceFilter, setSourceFilter] = useState<SourceFilter>('all');
+  const data =
+    sourceFilter === 'all' ? allData : allData.filter((v) => v.source === sourceFilter);
   const overdueCount = data.filter((v) => v.overdue).length;
 
   return (
@@ -43,16 +43,42 @@ export function SlaPanel({ data }: SlaPanelProps) {
           </p>
         </div>
 
-        {/* SLA legend */}
-        <div className="hidden items-center gap-3 sm:flex">
-          {SLA_DEFAULTS.map(({ severity, limit }) => (
-            <span
-              key={severity}
-              className="text-[10px] text-slate-500 dark:text-slate-400"
-            >
-              <span className="font-medium">{severity}:</span> {limit}
-            </span>
-          ))}
+        <div className="flex items-center gap-4">
+          <select
+            value={sourceFilter}
+            onChange={(e) => setSourceFilter(e.target.value as SourceFilter)}
+            aria-label="Filter by alert source"
+            className="rounded-md border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300"
+          >
+            {SOURCE_OPTIONS.map((opt) => (
+              <option key={opt.id} value={opt.id}>
+                {opt.label}
+              </option>
+            ))}
+          </select>
+
+          {/* SLA legend */}
+          {policy && (
+            <div className="hidden items-center gap-3 sm:flex">
+              {SEVERITIES.map((severity) => (
+                <span
+                  key={severity}
+                  className="text-[10px] text-slate-500 dark:text-slate-400"
+                >
+                  <span className="font-medium capitalize">{severity}:</span>{' '}
+                  {policy.defaults[severity]} day{policy.defaults[severity] !== 1 ? 's' : ''}
+                </span>
+              ))}
+              {policy.overrides.length > 0 && (
+                <span
+                  title="Some groups or repos have their own limits"
+                  className="text-[10px] italic text-slate-400 dark:text-slate-500"
+                >
+                  + overrides
+                </span>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
@@ -68,7 +94,8 @@ export function SlaPanel({ data }: SlaPanelProps) {
               <TableHeader>Repo</TableHeader>
               <TableHeader>Alert</TableHeader>
               <TableHeader>Severity</TableHeader>
-              <TableHeader>Package</TableHeader>
+              <TableHeader>Source</TableHeader>
+              <TableHeader>Package / Rule</TableHeader>
               <TableHeader>Open Since</TableHeader>
               <TableHeader>Days Open</TableHeader>
               <TableHeader>SLA Limit</TableHeader>
@@ -82,7 +109,7 @@ export function SlaPanel({ data }: SlaPanelProps) {
 
                 return (
                   <TableRow
-                    key={`${v.repo}-${v.alertNumber}`}
+                    key={`${v.source}-${v.repo}-${v.alertNumber}`}
                     className={
                       isOverdue
                         ? 'bg-red-50/50 dark:bg-red-900/10'
@@ -102,8 +129,11 @@ export function SlaPanel({ data }: SlaPanelProps) {
                         {v.severity}
                       </span>
                     </TableCell>
+                    <TableCell className="text-xs text-slate-500 dark:text-slate-400">
+                      {SOURCE_LABEL[v.source]}
+                    </TableCell>
                     <TableCell className="font-mono text-xs text-slate-700 dark:text-slate-300">
-                      {v.packageName ?? '—'}
+                      {v.packageName ?? v.ruleId ?? '—'}
                     </TableCell>
                     <TableCell className="text-xs text-slate-500 dark:text-slate-400">
                       {formatDate(v.firstSeen)}
@@ -0,0 +1,252 @@
+import { useEffect, useState } from 'react';
+import type { SlaLimits, SlaOverride, SlaPolicy } from '../api/client';
+import { useSlaPolicy } from '../hooks/useSlaPolicy';
+import { SEVERITIES } from '../utils/severity';
+import type { Severity } from '../utils/severity';
+
+type SlaPolicySectionProps = {
+  /** Tracked repo keys offered as override targets. */
+  repos: string[];
+  onChanged: () => void;
+};
+
+/** Days per severity as typed; blank means inherit in an override. */
+type DraftLimits = Record<Severity, string>;
+
+type DraftOverride = { target: string; limits: DraftLimits };
+
+const INPUT_CLASS =
+  'rounded-md border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300';
+
+const EMPTY_LIMITS: DraftLimits = { critical: '', high: '', medium: '', low: '' };
+
+// Overrides are keyed `group:<id>` or `repo:<key>` so one select offers both
+function targetOf(override: SlaOverride): string {
+  return override.scope === 'group' ? `group:${override.groupId}` : `repo:${override.repo}`;
+}
+
+function toDraft(limits: Partial<SlaLimits>): DraftLimits {
+  const draft = { ...EMPTY_LIMITS };
+  for (const severity of SEVERITIES) {
+    if (limits[severity] !== undefined) draft[severity] = String(limits[severity]);
+  }
+  return draft;
+}
+
+/** Parses the filled-in limits; null when any is not a positive number. */
+function parseDraft(draft: DraftLimits): Partial<SlaLimits> | null {
+  const limits: Partial<SlaLimits> = {};
+  for (const severity of SEVERITIES) {
+    if (!draft[severity].trim()) continue;
+    const days = Number(draft[severity]);
+    if (!(days > 0)) return null;
+    limits[severity] = days;
+  }
+  return limits;
+}
+
+/** SLA limits per severity, with per-group and per-repo overrides. */
+export function SlaPolicySection({ repos, onChanged }: SlaPolicySectionProps) {
+  const sla = useSlaPolicy(onChanged);
+  const [defaults, setDefaults] = useState<DraftLimits>(EMPTY_LIMITS);
+  const [overrides, setOverrides] = useState<DraftOverride[]>([]);
+  const [newTarget, setNewTarget] = useState('');
+
+  useEffect(() => {
+    if (!sla.policy) return;
+    setDefaults(toDraft(sla.policy.defaults));
+    setOverrides(
+      sla.policy.overrides.map((o) => ({ target: targetOf(o), limits: toDraft(o.limits) }))
+    );
+  }, [sla.policy]);
+
+  const groupName = (id: number) => sla.groups.find((g) => g.id === id)?.name ?? `Group ${id}`;
+  const labelOf = (target: string) =>
+    target.startsWith('group:') ? groupName(Number(target.slice(6))) : target.slice(5);
+
+  const used = new Set(overrides.map((o) => o.target));
+  const groupTargets = sla.groups.map((g) => `group:${g.id}`).filter((t) => !used.has(t));
+  const repoTargets = [...new Set(repos)]
+    .sort()
+    .map((r) => `repo:${r}`)
+    .filter((t) => !used.has(t));
+
+  const setOverrideDays = (target: string, severity: Severity, value: string) => {
+    setOverrides((prev) =>
+      prev.map((o) => (o.target === target ? { ...o, limits: { ...o.limits, [severity]: value } } : o))
+    );
+  };
+
+  const addOverride = () => {
+    if (!newTarget) return;
+    setOverrides((prev) => [...prev, { target: newTarget, limits: { ...EMPTY_LIMITS } }]);
+    setNewTarget('');
+  };
+
+  const parsedDefaults = parseDraft(defaults);
+  const parsedOverrides = overrides.map((o) => parseDraft(o.limits));
+  const valid =
+    parsedDefaults !== null &&
+    SEVERITIES.every((s) => parsedDefaults[s] !== undefined) &&
+    parsedOverrides.every((limits) => limits !== null);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!valid) return;
+    const policy: SlaPolicy = {
+      defaults: parsedDefaults as SlaLimits,
+      overrides: overrides.map((o, i): SlaOverride => {
+        const limits = parsedOverrides[i] ?? {};
+        return o.target.startsWith('group:')
+          ? { scope: 'group', groupId: Number(o.target.slice(6)), limits }
+          : { scope: 'repo', repo: o.target.slice(5), limits };
+      }),
+    };
+    await sla.save(policy);
+  };
+
+  return (
+    <div className="mb-5 rounded-xl border border-slate-200 p-4 dark:border-slate-700">
+      <h3 className="mb-1 text-sm font-semibold text-slate-900 dark:text-slate-100">
+        SLA policy
+      </h3>
+      <p className="mb-3 text-xs text-slate-500 dark:text-slate-400">
+        Days an alert may stay open per severity. A repo override wins over its groups; a repo in
+        several groups gets the strictest limit. Leave a field blank to inherit.
+      </p>
+
+      {sla.loading && !sla.policy ? (
+        <div className="h-10 animate-pulse rounded bg-slate-100 dark:bg-slate-800" />
+      ) : (
+        <form onSubmit={handleSave} className="space-y-3">
+          <div className="grid grid-cols-[minmax(0,1fr)_repeat(4,3.5rem)_1.5rem] items-center gap-1.5">
+            <span />
+            {SEVERITIES.map((severity) => (
+              <span
+                key={severity}
+                className="text-center text-[10px] font-medium capitalize text-slate-500 dark:text-slate-400"
+              >
+                {severity}
+              </span>
+            ))}
+            <span />
+
+            <span className="text-xs font-medium text-slate-700 dark:text-slate-300">Default</span>
+            {SEVERITIES.map((severity) => (
+              <input
+                key={severity}
+                type="number"
+                min="0"
+                step="any"
+                value={defaults[severity]}
+                onChange={(e) => setDefaults((prev) => ({ ...prev, [severity]: e.target.value }))}
+                aria-label={`Default ${severity} SLA days`}
+                className={`${INPUT_CLASS} w-full`}
+              />
+            ))}
+            <span />
+
+            {overrides.map((o) => (
+              <OverrideRow
+                key={o.target}
+                label={labelOf(o.target)}
+                limits={o.limits}
+                defaults={defaults}
+                onChange={(severity, value) => setOverrideDays(o.target, severity, value)}
+                onRemove={() => setOverrides((prev) => prev.filter((p) => p.target !== o.target))}
+              />
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <select
+              value={newTarget}
+              onChange={(e) => setNewTarget(e.target.value)}
+              aria-label="Group or repo to override"
+              className={`${INPUT_CLASS} min-w-0 flex-1`}
+            >
+              <option value="">Add override for…</option>
+              {groupTargets.length > 0 && (
+                <optgroup label="Groups">
+                  {groupTargets.map((t) => (
+                    <option key={t} value={t}>
+                      {labelOf(t)}
+                    </option>
+                  ))}
+                </optgroup>
+              )}
+              {repoTargets.length > 0 && (
+                <optgroup label="Repos">
+                  {repoTargets.map((t) => (
+                    <option key={t} value={t}>
+                      {labelOf(t)}
+                    </option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+            <button
+              type="button"
+              onClick={addOverride}
+              disabled={!newTarget}
+              className="rounded-lg border border-slate-200 px-3 py-1 text-xs font-medium text-slate-700 transition-colors hover:bg-slate-50 disabled:opacity-50 dark:border-slate-700 dark:text-slate-300 dark:hover:bg-slate-800"
+            >
+              Add
+            </button>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={sla.busy || !valid}
+              className="rounded-lg bg-blue-600 px-3 py-1 text-xs font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+            >
+              Save policy
+            </button>
+          </div>
+        </form>
+      )}
+
+      {sla.error && <p className="mt-3 text-xs text-red-600 dark:text-red-400">{sla.error}</p>}
+    </div>
+  );
+}
+
+type OverrideRowProps = {
+  label: string;
+  limits: DraftLimits;
+  defaults: DraftLimits;
+  onChange: (severity: Severity, value: string) => void;
+  onRemove: () => void;
+};
+
+function OverrideRow({ label, limits, defaults, onChange, onRemove }: OverrideRowProps) {
+  return (
+    <>
+      <span className="truncate font-mono text-xs text-slate-600 dark:text-slate-400" title={label}>
+        {label}
+      </span>
+      {SEVERITIES.map((severity) => (
+        <input
+          key={severity}
+          type="number"
+          min="0"
+          step="any"
+          value={limits[severity]}
+          placeholder={defaults[severity]}
+          onChange={(e) => onChange(severity, e.target.value)}
+          aria-label={`${label} ${severity} SLA days`}
+          className={`${INPUT_CLASS} w-full`}
+        />
+      ))}
+      <button
+        type="button"
+        onClick={onRemove}
+        aria-label={`Remove override for ${label}`}
+        className="rounded text-xs text-slate-400 transition-colors hover:bg-red-50 hover:text-red-500 dark:hover:bg-red-900/20 dark:hover:text-red-400"
+      >
+        ×
+      </button>
+    </>
+  );
+}
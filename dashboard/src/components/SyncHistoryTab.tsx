@@ -0,0 +1,241 @@
+import { Fragment } from 'react';
+import type { SyncRun, SyncRunRepo, SyncTrigger } from '../api/client';
+import type { SyncRunsState } from '../hooks/useSyncRuns';
+import { formatDateTime } from '../utils/date';
+import { Card } from './Card';
+import { ErrorBanner } from './ErrorBanner';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './Table';
+
+const TRIGGER_OPTIONS: { id: SyncTrigger | 'all'; label: string }[] = [
+  { id: 'all', label: 'All triggers' },
+  { id: 'cron', label: 'Scheduled' },
+  { id: 'manual', label: 'Manual' },
+  { id: 'api', label: 'API' },
+];
+
+const TRIGGER_LABEL: Record<SyncTrigger, string> = {
+  cron: 'Scheduled',
+  manual: 'Manual',
+  api: 'API',
+};
+
+const STATUS_BADGE: Record<SyncRun['status'], string> = {
+  running: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300',
+  completed: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+  interrupted: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+};
+
+const OUTCOME_BADGE: Record<SyncRunRepo['outcome'], string> = {
+  updated: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+  unchanged: 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-400',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+};
+
+function formatDuration(startedAt: string, finishedAt: string | null): string {
+  if (!finishedAt) return '—';
+  const seconds = Math.round((Date.parse(finishedAt) - Date.parse(startedAt)) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+/** Per-repo outcomes of one sync run, shown under its row. */
+function SyncRunRepos({ repos }: { repos: SyncRunRepo[] }) {
+  if (repos.length === 0) {
+    return <p className="px-4 py-3 text-xs text-slate-500 dark:text-slate-400">No repos synced.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHead>
+        <TableHeader>Repo</TableHeader>
+        <TableHeader>Outcome</TableHeader>
+        <TableHeader>Δ Alerts</TableHeader>
+        <TableHeader>Error</TableHeader>
+      </TableHead>
+      <TableBody>
+        {repos.map((r) => (
+          <TableRow key={r.repo}>
+            <TableCell className="font-mono text-xs text-slate-700 dark:text-slate-300">
+              {r.repo}
+            </TableCell>
+            <TableCell>
+              <span
+                className={`rounded px-1.5 py-0.5 text-[10px] font-medium ${OUTCOME_BADGE[r.outcome]}`}
+              >
+                {r.outcome}
+              </span>
+            </TableCell>
+            <TableCell
+              className={`text-xs font-medium ${
+                r.alertDelta > 0
+                  ? 'text-red-600 dark:text-red-400'
+                  : r.alertDelta < 0
+                    ? 'text-green-600 dark:text-green-400'
+                    : 'text-slate-500 dark:text-slate-400'
+              }`}
+            >
+              {r.alertDelta > 0 ? `+${r.alertDelta}` : r.alertDelta}
+            </TableCell>
+            <TableCell className="text-xs text-slate-500 dark:text-slate-400">
+              {r.error ?? '—'}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+type SyncHistoryTabProps = {
+  syncRuns: SyncRunsState;
+};
+
+/** Paged history of sync runs with a drill-down into each run's repos. */
+export function SyncHistoryTab({ syncRuns }: SyncHistoryTabProps) {
+  const { page, loading, error, trigger, selectedRunId, selectedRun, loadingRun } = syncRuns;
+
+  if (!page && loading) {
+    return <div className="h-48 animate-pulse rounded-xl bg-slate-200 dark:bg-slate-800" />;
+  }
+
+  const runs = page?.runs ?? [];
+  const total = page?.total ?? 0;
+  const offset = page?.offset ?? 0;
+  const limit = page?.limit ?? 0;
+
+  return (
+    <div className="space-y-4">
+      {error && <ErrorBanner message={error} />}
+
+      <Card>
+        <div className="flex items-center justify-between border-b border-slate-200 px-4 py-3 dark:border-slate-800">
+          <div>
+            <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-100">
+              Sync History
+            </h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {total} run{total !== 1 ? 's' : ''} recorded
+            </p>
+          </div>
+          <select
+            value={trigger ?? 'all'}
+            onChange={(e) =>
+              syncRuns.setTrigger(e.target.value === 'all' ? null : (e.target.value as SyncTrigger))
+            }
+            aria-label="Filter by trigger"
+            className="rounded-md border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300"
+          >
+            {TRIGGER_OPTIONS.map((opt) => (
+              <option key={opt.id} value={opt.id}>
+                {opt.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {runs.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-slate-500 dark:text-slate-400">
+            No sync runs yet. Refresh a repo to record the first one.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHead>
+                <TableHeader>Started</TableHeader>
+                <TableHeader>Trigger</TableHeader>
+                <TableHeader>Status</TableHeader>
+                <TableHeader>Refreshed</TableHeader>
+                <TableHeader>Unchanged</TableHeader>
+                <TableHeader>Failed</TableHeader>
+                <TableHeader>Duration</TableHeader>
+              </TableHead>
+              <TableBody>
+                {runs.map((run) => (
+                  <Fragment key={run.id}>
+                    <TableRow>
+                      <TableCell>
+                        <button
+                          onClick={() => syncRuns.selectRun(run.id)}
+                          className="text-xs font-medium text-slate-700 hover:text-blue-600 dark:text-slate-300 dark:hover:text-blue-400"
+                        >
+                          {formatDateTime(run.startedAt)}
+                          <span className="ml-1 text-[10px] text-slate-400">
+                            {selectedRunId === run.id ? '▲' : '▼'}
+                          </span>
+                        </button>
+                      </TableCell>
+                      <TableCell className="text-xs text-slate-600 dark:text-slate-400">
+                        {TRIGGER_LABEL[run.triggeredBy]}
+                      </TableCell>
+                      <TableCell>
+                        <span
+                          className={`rounded px-1.5 py-0.5 text-[10px] font-medium ${STATUS_BADGE[run.status]}`}
+                          title={run.error ?? undefined}
+                        >
+                          {run.status}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-xs text-slate-700 dark:text-slate-300">
+                        {run.refreshed}/{run.total}
+                      </TableCell>
+                      <TableCell className="text-xs text-slate-500 dark:text-slate-400">
+                        {run.unchanged}
+                      </TableCell>
+                      <TableCell
+                        className={`text-xs font-medium ${
+                          run.failed > 0
+                            ? 'text-red-600 dark:text-red-400'
+                            : 'text-slate-500 dark:text-slate-400'
+                        }`}
+                      >
+                        {run.failed}
+                      </TableCell>
+                      <TableCell className="text-xs text-slate-500 dark:text-slate-400">
+                        {formatDuration(run.startedAt, run.finishedAt)}
+                      </TableCell>
+                    </TableRow>
+                    {selectedRunId === run.id && (
+                      <tr>
+                        <td colSpan={7} className="bg-slate-50 dark:bg-slate-900/50">
+                          {loadingRun || !selectedRun ? (
+                            <div className="m-4 h-16 animate-pulse rounded bg-slate-200 dark:bg-slate-800" />
+                          ) : (
+                            <SyncRunRepos repos={selectedRun.repos} />
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {total > limit && (
+          <div className="flex items-center justify-between border-t border-slate-200 px-4 py-2 text-xs text-slate-500 dark:border-slate-800 dark:text-slate-400">
+            <span>
+              {offset + 1}–{Math.min(offset + limit, total)} of {total}
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={syncRuns.prevPage}
+                disabled={offset === 0}
+                className="rounded-md border border-slate-200 px-2 py-1 hover:bg-slate-50 disabled:opacity-40 dark:border-slate-700 dark:hover:bg-slate-800"
+              >
+                Previous
+              </button>
+              <button
+                onClick={syncRuns.nextPage}
+                disabled={offset + limit >= total}
+                className="rounded-md border border-slate-200 px-2 py-1 hover:bg-slate-50 disabled:opacity-40 dark:border-slate-700 dark:hover:bg-slate-800"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
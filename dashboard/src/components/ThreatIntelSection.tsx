@@ -0,0 +1,64 @@
+import type { ThreatDataset, ThreatDatasetStatus } from '../api/client';
+import { useThreatIntel } from '../hooks/useThreatIntel';
+
+type ThreatIntelSectionProps = {
+  onImported: () => void;
+};
+
+const DATASETS: { id: ThreatDataset; label: string }[] = [
+  { id: 'epss', label: 'EPSS scores' },
+  { id: 'kev', label: 'CISA KEV catalog' },
+];
+
+function describeImport(status: ThreatDatasetStatus): string {
+  const imported = new Date(status.importedAt).toLocaleDateString();
+  const published = status.publishedAt ? ` · published ${status.publishedAt.slice(0, 10)}` : '';
+  return `${status.recordCount.toLocaleString()} records · imported ${imported}${published}`;
+}
+
+/** Imports EPSS scores and the CISA KEV catalog that enrich alerts by CVE. */
+export function ThreatIntelSection({ onImported }: ThreatIntelSectionProps) {
+  const intel = useThreatIntel(onImported);
+
+  return (
+    <div className="mb-5 rounded-xl border border-slate-200 p-4 dark:border-slate-700">
+      <h3 className="mb-1 text-sm font-semibold text-slate-900 dark:text-slate-100">
+        Threat intel
+      </h3>
+      <p className="mb-3 text-xs text-slate-500 dark:text-slate-400">
+        Exploit likelihood (EPSS) and known exploitation (KEV) are matched to alerts by CVE and
+        feed the fix advisor ranking and risk score. Imports read the server&apos;s configured
+        feeds; use the CLI to import a local file.
+      </p>
+
+      <div className="space-y-3">
+        {DATASETS.map(({ id, label }) => {
+          const status = intel.status.find((s) => s.dataset === id);
+          return (
+            <div key={id} className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-xs font-medium text-slate-700 dark:text-slate-300">{label}</p>
+                <p
+                  className="truncate text-[10px] text-slate-500 dark:text-slate-400"
+                  title={status?.source}
+                >
+                  {intel.loading ? 'Loading…' : status ? describeImport(status) : 'Never imported'}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => intel.runImport(id)}
+                disabled={intel.importing !== null}
+                className="rounded-lg bg-blue-600 px-3 py-1 text-xs font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+              >
+                {intel.importing === id ? 'Importing…' : 'Import'}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {intel.error && <p className="mt-3 text-xs text-red-600 dark:text-red-400">{intel.error}</p>}
+    </div>
+  );
+}
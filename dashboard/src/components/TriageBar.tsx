@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import type { AlertStateChangeResult, DismissReason } from '../api/client';
+import { DISMISS_REASON_LABEL, DISMISS_REASONS } from '../utils/dismiss';
+
+type TriageBarProps = {
+  /** What is selected, e.g. "3 alerts". */
+  label: string;
+  busy: boolean;
+  error: string | null;
+  result: AlertStateChangeResult | null;
+  onDismiss: (reason: DismissReason, comment?: string) => void;
+  /** Shown only when given, i.e. when the selection has dismissed alerts. */
+  onReopen?: () => void;
+  onClear: () => void;
+};
+
+const INPUT_CLASS =
+  'rounded-md border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300';
+
+/** GitHub rejects longer dismissal comments. */
+const MAX_COMMENT_LENGTH = 280;
+
+/**
+ * Actions for the selected alerts: dismiss on GitHub with a reason and an
+ * optional comment, or reopen. Reports alerts GitHub refused.
+ */
+export function TriageBar({
+  label,
+  busy,
+  error,
+  result,
+  onDismiss,
+  onReopen,
+  onClear,
+}: TriageBarProps) {
+  const [reason, setReason] = useState<DismissReason>('tolerable_risk');
+  const [comment, setComment] = useState('');
+
+  return (
+    <div className="border-b border-slate-200 bg-slate-50 px-4 py-2 dark:border-slate-800 dark:bg-slate-900/50">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span className="text-xs font-medium text-slate-700 dark:text-slate-300">{label}</span>
+        <select
+          value={reason}
+          onChange={(e) => setReason(e.target.value as DismissReason)}
+          aria-label="Dismiss reason"
+          className={INPUT_CLASS}
+        >
+          {DISMISS_REASONS.map((r) => (
+            <option key={r} value={r}>
+              {DISMISS_REASON_LABEL[r]}
+            </option>
+          ))}
+        </select>
+        <input
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          maxLength={MAX_COMMENT_LENGTH}
+          placeholder="Comment (optional)"
+          aria-label="Dismiss comment"
+          className={`${INPUT_CLASS} min-w-48 flex-1`}
+        />
+        <button
+          onClick={() => onDismiss(reason, comment.trim() || undefined)}
+          disabled={busy}
+          className="rounded-lg bg-blue-600 px-3 py-1 text-xs font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+        >
+          Dismiss on GitHub
+        </button>
+        {onReopen && (
+          <button
+            onClick={onReopen}
+            disabled={busy}
+            className="rounded-lg border border-slate-200 px-3 py-1 text-xs font-medium text-slate-700 transition-colors hover:bg-slate-100 disabled:opacity-50 dark:border-slate-700 dark:text-slate-300 dark:hover:bg-slate-800"
+          >
+            Reopen
+          </button>
+        )}
+        <button
+          onClick={onClear}
+          className="text-xs text-slate-500 hover:underline dark:text-slate-400"
+        >
+          Clear
+        </button>
+      </div>
+
+      {error && <p className="mt-1 text-xs text-red-600 dark:text-red-400">{error}</p>}
+      {result && result.failed.length > 0 && (
+        <div className="mt-1 text-xs text-red-600 dark:text-red-400">
+          {result.updated.length} updated, {result.failed.length} failed:
+          <ul className="mt-0.5 space-y-0.5">
+            {result.failed.map((f) => (
+              <li key={`${f.repo}#${f.alertNumber}`} className="font-mono text-[10px]">
+                {f.repo}#{f.alertNumber}: {f.error}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,18 +1,49 @@
-import type { VulnerabilityGroup } from '../api/client';
+import { useState } from 'react';
+import type { DismissReason, VulnerabilityGroup } from '../api/client';
+import { useAlertTriage } from '../hooks/useAlertTriage';
 import { useExpandableRow } from '../hooks/useExpandableRow';
 import { SEVERITY_BADGE } from '../utils/severity';
+import { epssTextClass, formatEpssPercentile } from '../utils/threat';
 import { Card } from './Card';
 import { EmptyState } from './EmptyState';
 import { ExpandButton } from './ExpandButton';
+import { KevBadge } from './KevBadge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './Table';
+import { TriageBar } from './TriageBar';
 
 type VulnerabilityTableProps = {
   data: VulnerabilityGroup[];
+  /** Runs after alerts were dismissed on GitHub. */
+  onTriaged: () => void;
 };
 
-/** Cross-repo advisory table grouping alerts by GHSA ID. */
-export function VulnerabilityTable({ data }: VulnerabilityTableProps) {
+/**
+ * Cross-repo advisory table grouping alerts by GHSA ID. Dismissing selected
+ * advisories dismisses their open alerts in every repo.
+ */
+export function VulnerabilityTable({ data, onTriaged }: VulnerabilityTableProps) {
   const { isExpanded, toggle } = useExpandableRow();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const triage = useAlertTriage(onTriaged);
+
+  // Advisories that dropped out of the list (e.g. all dismissed) are ignored
+  const selectedIds = data.map((v) => v.ghsaId).filter((id) => selected.has(id));
+  const showTriage =
+    selectedIds.length > 0 || triage.error !== null || (triage.result?.failed.length ?? 0) > 0;
+
+  const toggleSelected = (ghsaId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(ghsaId)) next.delete(ghsaId);
+      else next.add(ghsaId);
+      return next;
+    });
+  };
+
+  const handleDismiss = async (reason: DismissReason, comment?: string) => {
+    const targets = selectedIds.map((ghsaId) => ({ ghsaId }));
+    if (await triage.dismiss(targets, reason, comment)) setSelected(new Set());
+  };
 
   if (data.length === 0) {
     return (
@@ -35,13 +66,28 @@ export function VulnerabilityTable({ data }: VulnerabilityTableProps) {
         </p>
       </div>
 
+      {showTriage && (
+        <TriageBar
+          label={`${selectedIds.length} advisor${selectedIds.length !== 1 ? 'ies' : 'y'} in all repos`}
+          busy={triage.busy}
+          error={triage.error}
+          result={triage.result}
+          onDismiss={handleDismiss}
+          onClear={() => setSelected(new Set())}
+        />
+      )}
+
       <div className="overflow-x-auto">
         <Table>
           <TableHead>
+            <TableHeader className="w-8">
+              <span className="sr-only">Select</span>
+            </TableHeader>
             <TableHeader>GHSA ID</TableHeader>
             <TableHeader>CVE</TableHeader>
             <TableHeader>Severity</TableHeader>
             <TableHeader>CVSS</TableHeader>
+            <TableHeader>EPSS</TableHeader>
             <TableHeader>Summary</TableHeader>
             <TableHeader>Repos</TableHeader>
             <TableHeader>Fix</TableHeader>
@@ -54,6 +100,14 @@ export function VulnerabilityTable({ data }: VulnerabilityTableProps) {
 
               return (
                 <TableRow key={vuln.ghsaId}>
+                  <TableCell>
+                    <input
+                      type="checkbox"
+                      checked={selected.has(vuln.ghsaId)}
+                      onChange={() => toggleSelected(vuln.ghsaId)}
+                      aria-label={`Select ${vuln.ghsaId}`}
+                    />
+                  </TableCell>
                   <TableCell>
                     <a
                       href={`https://github.com/advisories/${vuln.ghsaId}`}
@@ -65,7 +119,10 @@ export function VulnerabilityTable({ data }: VulnerabilityTableProps) {
                     </a>
                   </TableCell>
                   <TableCell className="font-mono text-xs text-slate-500 dark:text-slate-400">
-                    {vuln.cveId ?? '—'}
+                    <div className="flex items-center gap-1.5">
+                      {vuln.cveId ?? '—'}
+                      {vuln.kev && <KevBadge />}
+                    </div>
                   </TableCell>
                   <TableCell>
                     <span
@@ -77,6 +134,16 @@ export function VulnerabilityTable({ data }: VulnerabilityTableProps) {
                   <TableCell className="text-xs text-slate-700 dark:text-slate-300">
                     {vuln.cvssScore !== null ? vuln.cvssScore.toFixed(1) : '—'}
                   </TableCell>
+                  <TableCell
+                    className={`text-xs ${epssTextClass(vuln.epssPercentile)}`}
+                    title={
+                      vuln.epssScore !== null
+                        ? `EPSS ${(vuln.epssScore * 100).toFixed(2)}% chance of exploitation in 30 days`
+                        : undefined
+                    }
+                  >
+                    {formatEpssPercentile(vuln.epssPercentile)}
+                  </TableCell>
                   <TableCell
                     className="max-w-xs truncate text-xs text-slate-600 dark:text-slate-400"
                     title={vuln.summary ?? undefined}
@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import type { WatchTarget } from '../api/client';
+import { useWatchTargets } from '../hooks/useWatchTargets';
+import { formatRelativeTime } from '../utils/date';
+import { DEFAULT_HOST } from '../utils/repo';
+
+type WatchTargetsSectionProps = {
+  onDiscovered: () => void;
+};
+
+const INPUT_CLASS =
+  'rounded-md border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300';
+
+function describeFilters(target: WatchTarget): string {
+  const parts = [
+    target.namePattern ? `matching ${target.namePattern}` : 'all repos',
+    target.includeForks && 'forks',
+    target.includeArchived && 'archived',
+  ].filter(Boolean);
+  return parts.join(', ');
+}
+
+/** Users and orgs whose new repos are enrolled automatically, with an add form. */
+export function WatchTargetsSection({ onDiscovered }: WatchTargetsSectionProps) {
+  const watch = useWatchTargets(onDiscovered);
+  const [type, setType] = useState<'user' | 'org'>('org');
+  const [name, setName] = useState('');
+  const [namePattern, setNamePattern] = useState('');
+  const [includeForks, setIncludeForks] = useState(false);
+  const [includeArchived, setIncludeArchived] = useState(false);
+
+  // Accept `host:name` for accounts on another configured host
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = name.trim();
+    if (!value) return;
+    const idx = value.indexOf(':');
+    const added = await watch.add({
+      type,
+      name: idx > 0 ? value.slice(idx + 1) : value,
+      host: idx > 0 ? value.slice(0, idx) : DEFAULT_HOST,
+      namePattern: namePattern.trim() || null,
+      includeForks,
+      includeArchived,
+    });
+    if (added) {
+      setName('');
+      setNamePattern('');
+    }
+  };
+
+  const discovery = watch.lastDiscovery;
+
+  return (
+    <div className="mb-5 rounded-xl border border-slate-200 p-4 dark:border-slate-700">
+      <div className="mb-1 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-100">
+          Watched accounts
+        </h3>
+        <button
+          onClick={watch.discover}
+          disabled={watch.busy || watch.targets.length === 0}
+          className="text-xs font-medium text-blue-600 hover:underline disabled:opacity-40 dark:text-blue-400"
+        >
+          Check now
+        </button>
+      </div>
+      <p className="mb-3 text-xs text-slate-500 dark:text-slate-400">
+        New repos of these users and orgs are tracked on every scheduled refresh.
+      </p>
+
+      {watch.loading && watch.targets.length === 0 ? (
+        <div className="h-10 animate-pulse rounded bg-slate-100 dark:bg-slate-800" />
+      ) : (
+        <ul className="mb-3 divide-y divide-slate-100 dark:divide-slate-800">
+          {watch.targets.map((t) => (
+            <li key={t.id} className="flex items-center justify-between py-2">
+              <div className="min-w-0">
+                <p className="truncate text-xs font-medium text-slate-700 dark:text-slate-300">
+                  {t.host !== DEFAULT_HOST && `${t.host}:`}
+                  {t.name}
+                  <span className="ml-1 text-[10px] font-normal text-slate-400">{t.type}</span>
+                </p>
+                <p className="truncate text-[10px] text-slate-400 dark:text-slate-500">
+                  {describeFilters(t)}
+                  {t.lastError ? (
+                    <span className="text-red-600 dark:text-red-400"> · {t.lastError}</span>
+                  ) : (
+                    t.lastCheckedAt && ` · checked ${formatRelativeTime(t.lastCheckedAt)}`
+                  )}
+                </p>
+              </div>
+              <button
+                onClick={() => watch.remove(t.id)}
+                disabled={watch.busy}
+                aria-label={`Stop watching ${t.name}`}
+                className="rounded px-2 py-1 text-xs text-slate-400 transition-colors hover:bg-red-50 hover:text-red-500 disabled:opacity-40 dark:hover:bg-red-900/20 dark:hover:text-red-400"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+          {watch.targets.length === 0 && (
+            <li className="py-2 text-xs text-slate-400 dark:text-slate-500">
+              No accounts watched yet.
+            </li>
+          )}
+        </ul>
+      )}
+
+      <form onSubmit={handleAdd} className="space-y-2">
+        <div className="flex gap-2">
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as 'user' | 'org')}
+            aria-label="Account type"
+            className={INPUT_CLASS}
+          >
+            <option value="org">Org</option>
+            <option value="user">User</option>
+          </select>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="name or host:name"
+            aria-label="Account name"
+            className={`${INPUT_CLASS} min-w-0 flex-1`}
+          />
+          <input
+            value={namePattern}
+            onChange={(e) => setNamePattern(e.target.value)}
+            placeholder="repo pattern, e.g. api-*"
+            aria-label="Repo name pattern"
+            className={`${INPUT_CLASS} w-36`}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <div className="flex gap-3 text-xs text-slate-600 dark:text-slate-400">
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={includeForks}
+                onChange={(e) => setIncludeForks(e.target.checked)}
+              />
+              Forks
+            </label>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={includeArchived}
+                onChange={(e) => setIncludeArchived(e.target.checked)}
+              />
+              Archived
+            </label>
+          </div>
+          <button
+            type="submit"
+            disabled={watch.busy || !name.trim()}
+            className="rounded-lg bg-blue-600 px-3 py-1 text-xs font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+          >
+            Watch
+          </button>
+        </div>
+      </form>
+
+      {discovery && (
+        <p className="mt-3 text-xs text-slate-500 dark:text-slate-400">
+          {discovery.added.length} new, {discovery.archived.length} archived,{' '}
+          {discovery.deleted.length} deleted, {discovery.restored.length} restored
+          {discovery.failedTargets > 0 && `, ${discovery.failedTargets} account(s) failed`}
+        </p>
+      )}
+      {watch.error && (
+        <p className="mt-3 text-xs text-red-600 dark:text-red-400">{watch.error}</p>
+      )}
+    </div>
+  );
+}
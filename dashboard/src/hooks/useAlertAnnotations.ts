@@ -0,0 +1,36 @@
+import { useState } from 'react';
+import { deleteAlertAnnotation, saveAlertAnnotation } from '../api/client';
+import type { AlertAnnotationInput } from '../api/client';
+import { parseRepo } from '../utils/repo';
+
+/**
+ * Wraps saving and deleting the local annotations of a repo's alerts. An
+ * input with no note, tags or assignee deletes the annotation. `onChanged`
+ * runs after every change so the alert list can reload.
+ */
+export function useAlertAnnotations(repo: string, onChanged: () => void) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (alertNumber: number, input: AlertAnnotationInput) => {
+    const parsed = parseRepo(repo);
+    if (!parsed) return false;
+    const empty = !input.note && input.tags.length === 0 && !input.assignee;
+
+    setBusy(true);
+    setError(null);
+    try {
+      if (empty) await deleteAlertAnnotation(parsed.owner, parsed.name, alertNumber);
+      else await saveAlertAnnotation(parsed.owner, parsed.name, alertNumber, input);
+      onChanged();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save annotation');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return { busy, error, save } as const;
+}
@@ -0,0 +1,47 @@
+import { useState } from 'react';
+import { dismissAlerts, reopenAlerts } from '../api/client';
+import type { AlertStateChangeResult, AlertTarget, DismissReason } from '../api/client';
+
+/**
+ * Wraps dismissing and reopening alerts on GitHub. Targets are sent one
+ * request at a time and their results merged, so `result` lists every
+ * alert that failed. `onChanged` runs once any alert was updated.
+ */
+export function useAlertTriage(onChanged: () => void) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<AlertStateChangeResult | null>(null);
+
+  const run = async (
+    targets: AlertTarget[],
+    send: (target: AlertTarget) => Promise<AlertStateChangeResult>,
+    fallback: string
+  ) => {
+    setBusy(true);
+    setError(null);
+    setResult(null);
+    const merged: AlertStateChangeResult = { updated: [], failed: [] };
+    try {
+      for (const target of targets) {
+        const next = await send(target);
+        merged.updated.push(...next.updated);
+        merged.failed.push(...next.failed);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setResult(merged);
+      setBusy(false);
+      if (merged.updated.length > 0) onChanged();
+    }
+    return merged.failed.length === 0 && merged.updated.length > 0;
+  };
+
+  const dismiss = (targets: AlertTarget[], reason: DismissReason, comment?: string) =>
+    run(targets, (target) => dismissAlerts(target, reason, comment), 'Failed to dismiss alerts');
+
+  const reopen = (targets: AlertTarget[]) =>
+    run(targets, reopenAlerts, 'Failed to reopen alerts');
+
+  return { busy, error, result, dismiss, reopen };
+}
@@ -17,7 +17,9 @@ type UseAsyncOptions<T> = {
 
 /**
  * Generic async data-fetching hook.
- * Automatically fetches when enabled, supports lazy loading and manual reload.
+ * Automatically fetches when enabled, and again whenever `fetchFn` changes
+ * (e.g. a memoized fetcher whose filters changed). Supports lazy loading
+ * and manual reload.
  */
 export function useAsync<T>(
   fetchFn: () => Promise<T>,
@@ -31,7 +33,7 @@ export function useAsync<T>(
     error: null,
   });
 
-  const hasFetched = useRef(false);
+  const fetchedWith = useRef<(() => Promise<T>) | null>(null);
 
   const reload = useCallback(async () => {
     setState((prev) => ({ ...prev, loading: true, error: null }));
@@ -46,11 +48,11 @@ export function useAsync<T>(
   }, [fetchFn]);
 
   useEffect(() => {
-    if (enabled && !lazy && !hasFetched.current) {
-      hasFetched.current = true;
+    if (enabled && !lazy && fetchedWith.current !== fetchFn) {
+      fetchedWith.current = fetchFn;
       reload();
     }
-  }, [enabled, lazy, reload]);
+  }, [enabled, lazy, fetchFn, reload]);
 
   return { ...state, reload };
 }
@@ -0,0 +1,67 @@
+import { useCallback, useState } from 'react';
+import { fetchClosedAlerts, fetchDismissalAnalytics } from '../api/client';
+import type { ClosedAlertFilters, ClosedAlertPage, DismissalAnalytics } from '../api/client';
+import { useAsync } from './useAsync';
+
+const PAGE_SIZE = 50;
+
+export type ClosedAlertsState = {
+  page: ClosedAlertPage | null;
+  analytics: DismissalAnalytics | null;
+  loading: boolean;
+  error: string | null;
+  filters: ClosedAlertFilters;
+  setFilters: (filters: ClosedAlertFilters) => void;
+  nextPage: () => void;
+  prevPage: () => void;
+  reload: () => Promise<void>;
+};
+
+/**
+ * Hook for the Closed alerts view: pages through dismissed and fixed alerts
+ * across repos and loads the dismissal reason breakdown. The group filter
+ * applies to both. Lazily loads data — only fetches when `enabled` is true.
+ */
+export function useClosedAlerts(enabled: boolean): ClosedAlertsState {
+  const [filters, setFiltersState] = useState<ClosedAlertFilters>({});
+  const [offset, setOffset] = useState(0);
+
+  const fetchPage = useCallback(
+    () => fetchClosedAlerts(offset, PAGE_SIZE, filters),
+    [offset, filters]
+  );
+  const page = useAsync<ClosedAlertPage | null>(fetchPage, { initialData: null, enabled });
+
+  const fetchAnalytics = useCallback(() => fetchDismissalAnalytics(filters.group), [filters.group]);
+  const analytics = useAsync<DismissalAnalytics | null>(fetchAnalytics, {
+    initialData: null,
+    enabled,
+  });
+
+  const setFilters = (next: ClosedAlertFilters) => {
+    setFiltersState(next);
+    setOffset(0);
+  };
+
+  const nextPage = () => {
+    if (page.data && offset + PAGE_SIZE < page.data.total) setOffset(offset + PAGE_SIZE);
+  };
+
+  const prevPage = () => setOffset(Math.max(0, offset - PAGE_SIZE));
+
+  const reload = async () => {
+    await Promise.all([page.reload(), analytics.reload()]);
+  };
+
+  return {
+    page: page.data,
+    analytics: analytics.data,
+    loading: page.loading || analytics.loading,
+    error: page.error ?? analytics.error,
+    filters,
+    setFilters,
+    nextPage,
+    prevPage,
+    reload,
+  };
+}
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import type { CodeScanningAlert } from '../api/client';
+import { fetchCodeScanningAlerts } from '../api/client';
+import { parseRepo } from '../utils/repo';
+
+export type CodeScanningState = {
+  alerts: CodeScanningAlert[];
+  loading: boolean;
+  error: string | null;
+};
+
+/**
+ * Hook for fetching code scanning alerts for a specific repo.
+ * Fetches automatically when `repo` changes to a non-null value.
+ */
+export function useCodeScanningAlerts(repo: string | null): CodeScanningState {
+  const [state, setState] = useState<CodeScanningState>({
+    alerts: [],
+    loading: false,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (!repo) {
+      setState({ alerts: [], loading: false, error: null });
+      return;
+    }
+
+    const parsed = parseRepo(repo);
+    if (!parsed) return;
+
+    setState({ alerts: [], loading: true, error: null });
+
+    fetchCodeScanningAlerts(parsed.owner, parsed.name)
+      .then((alerts) => setState({ alerts, loading: false, error: null }))
+      .catch((err) => {
+        const message =
+          err instanceof Error ? err.message : 'Failed to load code scanning alerts';
+        setState({ alerts: [], loading: false, error: message });
+      });
+  }, [repo]);
+
+  return state;
+}
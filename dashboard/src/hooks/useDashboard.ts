@@ -1,5 +1,6 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import type {
+  BulkRefreshDone,
   RepoAlertsResponse,
   RepoSummary,
   SummaryResponse,
@@ -25,7 +26,7 @@ type RepoLoadingState = {
   loadingAlerts: Set<string>;
   bulkRefreshing: boolean;
   refreshProgress: { completed: number; total: number } | null;
-  refreshDone: boolean;
+  refreshDone: BulkRefreshDone | null;
 };
 
 const POLL_INTERVAL_MS = 60_000;
@@ -48,7 +49,7 @@ export function useDashboard() {
     loadingAlerts: new Set(),
     bulkRefreshing: false,
     refreshProgress: null,
-    refreshDone: false,
+    refreshDone: null,
   });
 
   const [selectedRepo, setSelectedRepo] = useState<string | null>(null);
@@ -98,6 +99,8 @@ export function useDashboard() {
         const message =
           err instanceof Error ? err.message : `Failed to refresh ${key}`;
         setRefreshError(message);
+        // The failure is stored on the repo, so its card can show why
+        await loadDashboard();
       } finally {
         setRepoLoading((prev) => {
           const next = new Set(prev.refreshing);
@@ -113,11 +116,11 @@ export function useDashboard() {
   const handleRefreshAll = useCallback(async () => {
     if (clearDoneRef.current) { clearTimeout(clearDoneRef.current); clearDoneRef.current = null; }
 
-    setRepoLoading((prev) => ({ ...prev, bulkRefreshing: true, refreshDone: false, refreshProgress: null }));
+    setRepoLoading((prev) => ({ ...prev, bulkRefreshing: true, refreshDone: null, refreshProgress: null }));
 
     try {
       setRefreshError(null);
-      await refreshAllReposStream((progress) => {
+      const done = await refreshAllReposStream((progress) => {
         setRepoLoading((prev) => ({
           ...prev,
           refreshProgress: { completed: progress.completed, total: progress.total },
@@ -132,15 +135,15 @@ export function useDashboard() {
         }
       }
 
-      setRepoLoading((prev) => ({ ...prev, bulkRefreshing: false, refreshDone: true }));
+      setRepoLoading((prev) => ({ ...prev, bulkRefreshing: false, refreshDone: done }));
       clearDoneRef.current = setTimeout(() => {
-        setRepoLoading((prev) => ({ ...prev, refreshDone: false, refreshProgress: null }));
+        setRepoLoading((prev) => ({ ...prev, refreshDone: null, refreshProgress: null }));
         clearDoneRef.current = null;
       }, 3000);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to refresh all repos';
       setRefreshError(message);
-      setRepoLoading((prev) => ({ ...prev, bulkRefreshing: false, refreshDone: false, refreshProgress: null }));
+      setRepoLoading((prev) => ({ ...prev, bulkRefreshing: false, refreshDone: null, refreshProgress: null }));
     }
   }, [loadDashboard, selectedRepo]);
 
@@ -177,6 +180,22 @@ export function useDashboard() {
     }
   }, []);
 
+  /**
+   * Reload the selected repo's alerts and the dashboard without a loading
+   * state, e.g. after alerts were dismissed or reopened on GitHub.
+   */
+  const handleReloadAlerts = useCallback(async () => {
+    await loadDashboard();
+    const parsed = selectedRepo ? parseRepo(selectedRepo) : null;
+    if (!parsed) return;
+    try {
+      const result = await fetchRepoAlerts(parsed.owner, parsed.name);
+      setRepoAlerts(result);
+    } catch (err) {
+      setRefreshError(err instanceof Error ? err.message : 'Failed to load alerts');
+    }
+  }, [loadDashboard, selectedRepo]);
+
   // Cleanup the auto-clear timer on unmount
   useEffect(() => () => { if (clearDoneRef.current) clearTimeout(clearDoneRef.current); }, []);
 
@@ -219,6 +238,7 @@ export function useDashboard() {
     refreshRepo: handleRefreshRepo,
     refreshAll: handleRefreshAll,
     selectRepo: handleSelectRepo,
+    reloadAlerts: handleReloadAlerts,
     reload: loadDashboard,
   } as const;
 }
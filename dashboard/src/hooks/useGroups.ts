@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  createGroup,
+  deleteGroup,
+  fetchGroupRollups,
+  fetchGroups,
+  importTeams,
+  updateGroup,
+} from '../api/client';
+import type { GroupImportResponse, GroupRollup, RepoGroup, RepoGroupInput } from '../api/client';
+import { useAsync } from './useAsync';
+
+/**
+ * Loads the repo groups on mount and wraps create, update, delete and team
+ * import so the list stays current. `onChanged` runs after every change so
+ * views showing group names or filters can refresh.
+ */
+export function useGroups(onChanged: () => void) {
+  const [groups, setGroups] = useState<RepoGroup[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastImport, setLastImport] = useState<GroupImportResponse | null>(null);
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    try {
+      setGroups(await fetchGroups());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load groups');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      onChanged();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const create = (input: RepoGroupInput) =>
+    run(async () => {
+      const group = await createGroup(input);
+      setGroups((prev) => [...prev, group].sort((a, b) => a.name.localeCompare(b.name)));
+    }, 'Failed to create group');
+
+  const update = (id: number, input: Partial<RepoGroupInput>) =>
+    run(async () => {
+      const group = await updateGroup(id, input);
+      setGroups((prev) => prev.map((g) => (g.id === id ? group : g)));
+    }, 'Failed to update group');
+
+  const remove = (id: number) =>
+    run(async () => {
+      await deleteGroup(id);
+      setGroups((prev) => prev.filter((g) => g.id !== id));
+    }, 'Failed to delete group');
+
+  const importOrg = (org: string, host?: string) =>
+    run(async () => {
+      setLastImport(await importTeams(org, host));
+      await reload();
+    }, 'Team import failed');
+
+  return { groups, loading, busy, error, lastImport, create, update, remove, importOrg };
+}
+
+/**
+ * Hook for fetching the per-group rollup (open, overdue, MTTR).
+ * Lazily loads data — only fetches when `enabled` is true.
+ */
+export function useGroupRollups(enabled: boolean) {
+  const { data, loading, error, reload } = useAsync<GroupRollup[]>(fetchGroupRollups, {
+    initialData: [],
+    enabled,
+  });
+
+  return { data, loading, error, reload } as const;
+}
@@ -3,7 +3,13 @@ import type {
   AlertTimelineEntry,
   DependencyGroup,
   EcosystemBreakdown,
+  HistoryQuery,
+  MttrDistribution,
   MttrMetric,
+  SecretMttrMetric,
+  SecretSlaViolation,
+  SlaComplianceReport,
+  SlaPolicy,
   SlaViolation,
   TrendPoint,
   VulnerabilityGroup,
@@ -13,6 +19,11 @@ import {
   fetchDependencies,
   fetchEcosystems,
   fetchMttr,
+  fetchMttrDistribution,
+  fetchSecretMttr,
+  fetchSecretSlaViolations,
+  fetchSlaCompliance,
+  fetchSlaPolicy,
   fetchSlaViolations,
   fetchTrends,
   fetchVulnerabilities,
@@ -23,7 +34,12 @@ import { useAsync } from './useAsync';
 export type HistoryData = {
   trends: TrendPoint[];
   mttr: MttrMetric[];
+  mttrDistribution: MttrDistribution | null;
   sla: SlaViolation[];
+  slaPolicy: SlaPolicy | null;
+  compliance: SlaComplianceReport | null;
+  secretMttr: SecretMttrMetric[];
+  secretSla: SecretSlaViolation[];
 };
 
 export type HistoryState = HistoryData & {
@@ -48,24 +64,65 @@ export type TimelineState = {
   error: string | null;
 };
 
-const INITIAL_HISTORY: HistoryData = { trends: [], mttr: [], sla: [] };
+const INITIAL_HISTORY: HistoryData = {
+  trends: [],
+  mttr: [],
+  mttrDistribution: null,
+  sla: [],
+  slaPolicy: null,
+  compliance: null,
+  secretMttr: [],
+  secretSla: [],
+};
 const INITIAL_VULNDEP: VulnDepData = { vulnerabilities: [], dependencies: [], ecosystems: [] };
 
 /**
- * Hook for fetching history analytics data (trends, MTTR, SLA).
- * Lazily loads data — only fetches when `enabled` is true.
+ * Hook for fetching history analytics data (trends, MTTR and its distribution,
+ * SLA with its policy and quarterly compliance, secrets).
+ * Lazily loads data — only fetches when `enabled` is true. Trends, MTTR and
+ * SLA are limited to `groupId`'s repos when set; trends and MTTR also follow
+ * `range`. Everything is refetched when either changes.
  */
-export function useHistory(enabled: boolean) {
+export function useHistory(
+  enabled: boolean,
+  groupId: number | null = null,
+  range: HistoryQuery = {}
+) {
+  const { from, to, days, bucket } = range;
   const fetchAll = useCallback(
     async () => {
-      const [trends, mttr, sla] = await Promise.all([
-        fetchTrends(),
-        fetchMttr(),
-        fetchSlaViolations(),
+      const trendRange = { from, to, days, bucket };
+      const [
+        trends,
+        mttr,
+        mttrDistribution,
+        sla,
+        slaPolicy,
+        compliance,
+        secretMttr,
+        secretSla,
+      ] = await Promise.all([
+        fetchTrends(null, groupId, trendRange),
+        fetchMttr(null, groupId, trendRange),
+        fetchMttrDistribution(null, groupId, trendRange),
+        fetchSlaViolations(null, groupId),
+        fetchSlaPolicy(),
+        fetchSlaCompliance({}, groupId),
+        fetchSecretMttr(),
+        fetchSecretSlaViolations(),
       ]);
-      return { trends, mttr, sla };
+      return {
+        trends,
+        mttr,
+        mttrDistribution,
+        sla,
+        slaPolicy,
+        compliance,
+        secretMttr,
+        secretSla,
+      };
     },
-    []
+    [groupId, from, to, days, bucket]
   );
 
   const { data, loading, error, reload } = useAsync(fetchAll, {
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  createNotificationChannel,
+  deleteNotificationChannel,
+  fetchNotificationChannels,
+  testNotificationChannel,
+  updateNotificationChannel,
+} from '../api/client';
+import type { NotificationChannel, NotificationChannelInput } from '../api/client';
+
+/**
+ * Loads the notification channels on mount and wraps add, update, remove
+ * and test sends so the list stays current after each change. `tested`
+ * names the channel that last received a test notification.
+ */
+export function useNotificationChannels() {
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [tested, setTested] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    try {
+      setChannels(await fetchNotificationChannels());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load notification channels');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setBusy(true);
+    setError(null);
+    setTested(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const replace = (channel: NotificationChannel) =>
+    setChannels((prev) => prev.map((c) => (c.id === channel.id ? channel : c)));
+
+  const add = (input: NotificationChannelInput) =>
+    run(async () => {
+      const channel = await createNotificationChannel(input);
+      setChannels((prev) => [...prev, channel]);
+    }, 'Failed to add channel');
+
+  const update = (id: number, input: Partial<NotificationChannelInput>) =>
+    run(async () => replace(await updateNotificationChannel(id, input)), 'Failed to update channel');
+
+  const remove = (id: number) =>
+    run(async () => {
+      await deleteNotificationChannel(id);
+      setChannels((prev) => prev.filter((c) => c.id !== id));
+    }, 'Failed to remove channel');
+
+  const test = (channel: NotificationChannel) =>
+    run(async () => {
+      await testNotificationChannel(channel.id);
+      setTested(channel.name);
+    }, 'Test notification failed');
+
+  return { channels, loading, busy, error, tested, add, update, remove, test };
+}
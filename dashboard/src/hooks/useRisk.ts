@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useState } from 'react';
+import { fetchRiskLeaderboard, fetchRiskWeights, saveRiskWeights } from '../api/client';
+import type { RepoRisk, RiskWeights } from '../api/client';
+import { useAsync } from './useAsync';
+
+/**
+ * Hook for fetching the risk leaderboard across all tracked repos.
+ * Lazily loads data — only fetches when `enabled` is true.
+ */
+export function useRiskLeaderboard(enabled: boolean) {
+  const fetchFn = useCallback(() => fetchRiskLeaderboard(), []);
+  const { data, loading, error, reload } = useAsync<RepoRisk[]>(fetchFn, {
+    initialData: [],
+    enabled,
+  });
+
+  return { data, loading, error, reload } as const;
+}
+
+/**
+ * Loads the risk weights on mount and wraps saving so the stored weights
+ * stay current. `onChanged` runs after a save so views showing risk scores
+ * can refresh.
+ */
+export function useRiskWeights(onChanged: () => void) {
+  const [weights, setWeights] = useState<RiskWeights | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    try {
+      setWeights(await fetchRiskWeights());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load risk weights');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const save = async (next: RiskWeights) => {
+    setBusy(true);
+    setError(null);
+    try {
+      setWeights(await saveRiskWeights(next));
+      onChanged();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save risk weights');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return { weights, loading, busy, error, save };
+}
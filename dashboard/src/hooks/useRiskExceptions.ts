@@ -0,0 +1,51 @@
+import { useState } from 'react';
+import {
+  createRiskException,
+  fetchRiskExceptions,
+  revokeRiskException,
+  updateRiskException,
+} from '../api/client';
+import type { RiskException, RiskExceptionInput, RiskExceptionUpdate } from '../api/client';
+import { useAsync } from './useAsync';
+
+/**
+ * Hook for the risk exceptions behind the Accepted risk view, wrapping
+ * create, renew and revoke. Lazily loads data — only fetches when
+ * `enabled` is true. `onChanged` runs after every change so views counting
+ * open alerts can refresh.
+ */
+export function useRiskExceptions(enabled: boolean, onChanged: () => void) {
+  const { data, loading, error, reload } = useAsync<RiskException[]>(fetchRiskExceptions, {
+    initialData: [],
+    enabled,
+  });
+  const [busy, setBusy] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setBusy(true);
+    setActionError(null);
+    try {
+      await action();
+      await reload();
+      onChanged();
+      return true;
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : fallback);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const create = (input: RiskExceptionInput) =>
+    run(() => createRiskException(input), 'Failed to create exception');
+
+  const update = (id: number, changes: RiskExceptionUpdate) =>
+    run(() => updateRiskException(id, changes), 'Failed to update exception');
+
+  const revoke = (id: number, actor: string, reason?: string) =>
+    run(() => revokeRiskException(id, actor, reason), 'Failed to revoke exception');
+
+  return { data, loading, error, busy, actionError, reload, create, update, revoke } as const;
+}
@@ -0,0 +1,31 @@
+import { useCallback, useEffect } from 'react';
+import type { SchedulerStatus } from '../api/client';
+import { fetchSchedulerStatus } from '../api/client';
+import { useAsync } from './useAsync';
+
+const POLL_INTERVAL_MS = 30_000;
+
+/**
+ * Hook for the scheduler status, including the GitHub API quota.
+ * Polls every 30 seconds; pass `refreshing` to re-poll as soon as a
+ * bulk refresh finishes.
+ */
+export function useSchedulerStatus(refreshing: boolean) {
+  const fetchStatus = useCallback(() => fetchSchedulerStatus(), []);
+  const { data, error, reload } = useAsync<SchedulerStatus | null>(fetchStatus, {
+    initialData: null,
+    lazy: true,
+  });
+
+  useEffect(() => {
+    const id = setInterval(reload, POLL_INTERVAL_MS);
+    return () => clearInterval(id);
+  }, [reload]);
+
+  // Initial load, and again whenever a bulk refresh completes
+  useEffect(() => {
+    if (!refreshing) reload();
+  }, [refreshing, reload]);
+
+  return { status: data, error };
+}
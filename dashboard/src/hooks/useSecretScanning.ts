@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import type { SecretScanningAlert } from '../api/client';
+import { fetchSecretScanningAlerts } from '../api/client';
+import { parseRepo } from '../utils/repo';
+
+export type SecretScanningState = {
+  alerts: SecretScanningAlert[];
+  loading: boolean;
+  error: string | null;
+};
+
+/**
+ * Hook for fetching secret scanning alerts for a specific repo.
+ * Fetches automatically when `repo` changes to a non-null value.
+ */
+export function useSecretScanningAlerts(repo: string | null): SecretScanningState {
+  const [state, setState] = useState<SecretScanningState>({
+    alerts: [],
+    loading: false,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (!repo) {
+      setState({ alerts: [], loading: false, error: null });
+      return;
+    }
+
+    const parsed = parseRepo(repo);
+    if (!parsed) return;
+
+    setState({ alerts: [], loading: true, error: null });
+
+    fetchSecretScanningAlerts(parsed.owner, parsed.name)
+      .then((alerts) => setState({ alerts, loading: false, error: null }))
+      .catch((err) => {
+        const message =
+          err instanceof Error ? err.message : 'Failed to load secret scanning alerts';
+        setState({ alerts: [], loading: false, error: message });
+      });
+  }, [repo]);
+
+  return state;
+}
@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from 'react';
+import { fetchGroups, fetchSlaPolicy, saveSlaPolicy } from '../api/client';
+import type { RepoGroup, SlaPolicy } from '../api/client';
+
+/**
+ * Loads the SLA policy and the groups it can override on mount, and wraps
+ * saving so the stored policy stays current. `onChanged` runs after a save
+ * so views showing SLA results can refresh.
+ */
+export function useSlaPolicy(onChanged: () => void) {
+  const [policy, setPolicy] = useState<SlaPolicy | null>(null);
+  const [groups, setGroups] = useState<RepoGroup[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [nextPolicy, nextGroups] = await Promise.all([fetchSlaPolicy(), fetchGroups()]);
+      setPolicy(nextPolicy);
+      setGroups(nextGroups);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load SLA policy');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const save = async (next: SlaPolicy) => {
+    setBusy(true);
+    setError(null);
+    try {
+      setPolicy(await saveSlaPolicy(next));
+      onChanged();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save SLA policy');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return { policy, groups, loading, busy, error, save };
+}
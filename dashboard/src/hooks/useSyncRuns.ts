@@ -0,0 +1,94 @@
+import { useEffect, useState } from 'react';
+import { fetchSyncRun, fetchSyncRuns } from '../api/client';
+import type { SyncRunDetail, SyncRunPage, SyncTrigger } from '../api/client';
+
+const PAGE_SIZE = 20;
+
+export type SyncRunsState = {
+  page: SyncRunPage | null;
+  loading: boolean;
+  error: string | null;
+  trigger: SyncTrigger | null;
+  setTrigger: (trigger: SyncTrigger | null) => void;
+  nextPage: () => void;
+  prevPage: () => void;
+  selectedRunId: number | null;
+  selectRun: (id: number | null) => void;
+  selectedRun: SyncRunDetail | null;
+  loadingRun: boolean;
+};
+
+/**
+ * Pages through recorded sync runs, reloading after a bulk refresh finishes.
+ * Selecting a run loads its per-repo outcomes.
+ */
+export function useSyncRuns(enabled: boolean, refreshing: boolean): SyncRunsState {
+  const [page, setPage] = useState<SyncRunPage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [offset, setOffset] = useState(0);
+  const [trigger, setTriggerState] = useState<SyncTrigger | null>(null);
+  const [selectedRunId, setSelectedRunId] = useState<number | null>(null);
+  const [selectedRun, setSelectedRun] = useState<SyncRunDetail | null>(null);
+  const [loadingRun, setLoadingRun] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || refreshing) return;
+
+    setLoading(true);
+    fetchSyncRuns(offset, PAGE_SIZE, trigger)
+      .then((data) => {
+        setPage(data);
+        setError(null);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'Failed to load sync history');
+      })
+      .finally(() => setLoading(false));
+  }, [enabled, refreshing, offset, trigger]);
+
+  useEffect(() => {
+    if (selectedRunId === null) {
+      setSelectedRun(null);
+      return;
+    }
+
+    setLoadingRun(true);
+    fetchSyncRun(selectedRunId)
+      .then(setSelectedRun)
+      .catch((err) => {
+        setSelectedRun(null);
+        setError(err instanceof Error ? err.message : 'Failed to load sync run');
+      })
+      .finally(() => setLoadingRun(false));
+  }, [selectedRunId]);
+
+  const setTrigger = (next: SyncTrigger | null) => {
+    setTriggerState(next);
+    setOffset(0);
+    setSelectedRunId(null);
+  };
+
+  const nextPage = () => {
+    if (page && offset + PAGE_SIZE < page.total) setOffset(offset + PAGE_SIZE);
+  };
+
+  const prevPage = () => setOffset(Math.max(0, offset - PAGE_SIZE));
+
+  const selectRun = (id: number | null) =>
+    setSelectedRunId((prev) => (prev === id ? null : id));
+
+  return {
+    page,
+    loading,
+    error,
+    trigger,
+    setTrigger,
+    nextPage,
+    prevPage,
+    selectedRunId,
+    selectRun,
+    selectedRun,
+    loadingRun,
+  };
+}
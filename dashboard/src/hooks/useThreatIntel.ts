@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from 'react';
+import { fetchThreatIntelStatus, importThreatDataset } from '../api/client';
+import type { ThreatDataset, ThreatDatasetStatus } from '../api/client';
+
+/**
+ * Loads the threat intel import status on mount and wraps importing so the
+ * status stays current. `onImported` runs after an import so views showing
+ * EPSS, KEV or risk scores can refresh.
+ */
+export function useThreatIntel(onImported: () => void) {
+  const [status, setStatus] = useState<ThreatDatasetStatus[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState<ThreatDataset | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    try {
+      setStatus(await fetchThreatIntelStatus());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load threat intel status');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const runImport = async (dataset: ThreatDataset) => {
+    setImporting(dataset);
+    setError(null);
+    try {
+      const next = await importThreatDataset(dataset);
+      setStatus((prev) => [...prev.filter((s) => s.dataset !== dataset), next]);
+      onImported();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to import ${dataset.toUpperCase()}`);
+      return false;
+    } finally {
+      setImporting(null);
+    }
+  };
+
+  return { status, loading, importing, error, runImport };
+}
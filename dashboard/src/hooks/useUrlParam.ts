@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react';
+
+function readParam<T extends string>(key: string, allowed: readonly T[], fallback: T): T {
+  const value = new URLSearchParams(window.location.search).get(key);
+  return allowed.find((option) => option === value) ?? fallback;
+}
+
+/**
+ * Keeps one query-string param in state so views can be bookmarked and
+ * shared. Values outside `allowed` read as `fallback`, and the fallback
+ * itself is left out of the URL. Updates replace the history entry.
+ */
+export function useUrlParam<T extends string>(
+  key: string,
+  allowed: readonly T[],
+  fallback: T
+): [T, (value: T) => void] {
+  const [value, setValue] = useState<T>(() => readParam(key, allowed, fallback));
+
+  // Back/forward navigation restores the param
+  useEffect(() => {
+    const handlePopState = () => setValue(readParam(key, allowed, fallback));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [key, allowed, fallback]);
+
+  const update = useCallback(
+    (next: T) => {
+      const url = new URL(window.location.href);
+      if (next === fallback) url.searchParams.delete(key);
+      else url.searchParams.set(key, next);
+      window.history.replaceState(window.history.state, '', url);
+      setValue(next);
+    },
+    [key, fallback]
+  );
+
+  return [value, update];
+}
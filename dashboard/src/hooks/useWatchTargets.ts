@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  addWatchTarget,
+  fetchWatchTargets,
+  removeWatchTarget,
+  runDiscovery,
+} from '../api/client';
+import type { DiscoveryResponse, WatchTarget, WatchTargetInput } from '../api/client';
+
+/**
+ * Loads the watch targets on mount and wraps add, remove and discovery so
+ * the list stays current after each change.
+ */
+export function useWatchTargets(onDiscovered: () => void) {
+  const [targets, setTargets] = useState<WatchTarget[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastDiscovery, setLastDiscovery] = useState<DiscoveryResponse | null>(null);
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    try {
+      setTargets(await fetchWatchTargets());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load watch targets');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const add = (input: WatchTargetInput) =>
+    run(async () => {
+      const target = await addWatchTarget(input);
+      setTargets((prev) => [...prev, target]);
+    }, 'Failed to add watch target');
+
+  const remove = (id: number) =>
+    run(async () => {
+      await removeWatchTarget(id);
+      setTargets((prev) => prev.filter((t) => t.id !== id));
+    }, 'Failed to remove watch target');
+
+  const discover = () =>
+    run(async () => {
+      setLastDiscovery(await runDiscovery());
+      await reload();
+      onDiscovered();
+    }, 'Discovery failed');
+
+  return { targets, loading, busy, error, lastDiscovery, add, remove, discover };
+}
@@ -0,0 +1,17 @@
+import type { DismissReason } from '../api/client';
+
+/** GitHub's wording for each dismissal reason, in the order GitHub lists them. */
+export const DISMISS_REASON_LABEL: Record<DismissReason, string> = {
+  fix_started: 'Fix has already been started',
+  no_bandwidth: 'No bandwidth to fix',
+  tolerable_risk: 'Risk is tolerable',
+  inaccurate: 'Alert is inaccurate',
+  not_used: 'Vulnerable code is not used',
+};
+
+export const DISMISS_REASONS = Object.keys(DISMISS_REASON_LABEL) as DismissReason[];
+
+/** Label for a stored reason, which may be missing on old alerts. */
+export function dismissReasonLabel(reason: string | null): string {
+  return DISMISS_REASON_LABEL[reason as DismissReason] ?? 'No reason given';
+}
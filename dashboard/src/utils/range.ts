@@ -0,0 +1,19 @@
+import type { TrendBucket } from '../api/client';
+
+export type TrendRangeId = '30d' | '90d' | '180d' | '365d' | 'all';
+
+/** Range options for trends and MTTR (AnalyticsTab); `days` is null for all time. */
+export const TREND_RANGES: { id: TrendRangeId; label: string; days: number | null }[] = [
+  { id: '30d', label: 'Last 30 days', days: 30 },
+  { id: '90d', label: 'Last 90 days', days: 90 },
+  { id: '180d', label: 'Last 6 months', days: 180 },
+  { id: '365d', label: 'Last year', days: 365 },
+  { id: 'all', label: 'All time', days: null },
+];
+
+/** Granularity options for trends and MTTR (AnalyticsTab). */
+export const TREND_BUCKETS: { id: TrendBucket; label: string }[] = [
+  { id: 'day', label: 'Day' },
+  { id: 'week', label: 'Week' },
+  { id: 'month', label: 'Month' },
+];
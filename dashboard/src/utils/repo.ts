@@ -1,6 +1,27 @@
+import type { RepoErrorKind } from '../api/client';
+
 /** Parse "owner/name" into { owner, name }. Returns null if invalid. */
 export function parseRepo(fullName: string): { owner: string; name: string } | null {
   const idx = fullName.indexOf('/');
   if (idx <= 0 || idx === fullName.length - 1) return null;
   return { owner: fullName.slice(0, idx), name: fullName.slice(idx + 1) };
 }
+
+/** Host of repo keys without a `host:` prefix. */
+export const DEFAULT_HOST = 'github.com';
+
+/** Strip the `host:` prefix from a repo key, leaving "owner/name" for display. */
+export function repoDisplayName(fullName: string): string {
+  const idx = fullName.indexOf(':');
+  return idx > 0 ? fullName.slice(idx + 1) : fullName;
+}
+
+/** Short explanation per sync failure kind (RepoCard). */
+export const REPO_ERROR_LABEL: Record<RepoErrorKind, string> = {
+  not_found: 'Repo not found',
+  dependabot_disabled: 'Dependabot alerts disabled',
+  forbidden: 'Access denied — check token scopes',
+  rate_limited: 'GitHub rate limit reached',
+  network: 'GitHub unreachable',
+  unknown: 'Sync failed',
+};
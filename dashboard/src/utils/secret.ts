@@ -0,0 +1,6 @@
+/** Tailwind badge classes per secret validity (SecretsTable, SecretSlaPanel). */
+export const VALIDITY_BADGE: Record<string, string> = {
+  active: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400',
+  inactive: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400',
+  unknown: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-400',
+};
@@ -0,0 +1,14 @@
+import type { AlertSource, SourceFilter } from '../api/client';
+
+/** Display labels per alert source (RepoCard, SlaPanel). */
+export const SOURCE_LABEL: Record<AlertSource, string> = {
+  dependabot: 'Dependabot',
+  code_scanning: 'Code scanning',
+};
+
+/** Source filter options (RepoToolbar, SlaPanel). */
+export const SOURCE_OPTIONS: { id: SourceFilter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'dependabot', label: 'Dependabot' },
+  { id: 'code_scanning', label: 'Code scanning' },
+];
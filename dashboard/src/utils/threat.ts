@@ -0,0 +1,17 @@
+/** EPSS percentile as a whole-number percentile, e.g. 0.973 → "97th". */
+export function formatEpssPercentile(percentile: number | null): string {
+  if (percentile === null) return '—';
+  const value = Math.floor(percentile * 100);
+  const suffix =
+    value % 100 >= 11 && value % 100 <= 13
+      ? 'th'
+      : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[value % 10] ?? 'th';
+  return `${value}${suffix}`;
+}
+
+/** Text color for an EPSS percentile: red from the 90th, amber from the 50th. */
+export function epssTextClass(percentile: number | null): string {
+  if (percentile !== null && percentile >= 0.9) return 'font-medium text-red-600 dark:text-red-400';
+  if (percentile !== null && percentile >= 0.5) return 'text-amber-600 dark:text-amber-400';
+  return 'text-slate-500 dark:text-slate-400';
+}
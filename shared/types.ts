@@ -1,12 +1,62 @@
 /** Severity counts keyed by severity level. */
 export type SeverityCounts = Record<string, number>;
 
-/** Summary for a tracked repo. */
+/** GitHub feature an alert was reported by. */
+export type AlertSource = 'dependabot' | 'code_scanning';
+
+/** Summary for a tracked repo. Counts cover open alerts from every source. */
 export type RepoSummary = {
+  /** Repo key: `owner/name`, or `host:owner/name` for repos on a non-default host. */
   repo: string;
-  lastSync: string;
+  /** Configured host name, `github.com` unless the repo lives on another host. */
+  host: string;
+  /** Null while every sync so far has failed; see `lastError`. */
+  lastSync: string | null;
   severityCounts: SeverityCounts;
   totalAlerts: number;
+  sourceCounts: Partial<Record<AlertSource, SeverityCounts>>;
+  /** Why the most recent sync failed; null once a sync succeeds. */
+  lastError: RepoSyncError | null;
+  /** Set when repo discovery found the repo archived or deleted on GitHub. */
+  upstreamState: UpstreamState | null;
+  /** GitHub repo details from the last listing or refresh; null until first fetched. */
+  metadata: RepoMetadata | null;
+  /** Names of the groups (teams) the repo belongs to. */
+  groups: string[];
+  /** Weighted risk of the open Dependabot alerts; see `RiskWeights`. */
+  riskScore: number;
+};
+
+export type RepoVisibility = 'public' | 'private' | 'internal';
+
+/** Repo details captured from GitHub for triage and filtering. */
+export type RepoMetadata = {
+  topics: string[];
+  visibility: RepoVisibility | null;
+  archived: boolean;
+  defaultBranch: string | null;
+  /** Primary language as detected by GitHub. */
+  language: string | null;
+  updatedAt: string;
+};
+
+/** State of a tracked repo on GitHub, when it is no longer active there. */
+export type UpstreamState = 'archived' | 'deleted';
+
+/** Classification of a failed GitHub request for a repo. */
+export type RepoErrorKind =
+  | 'not_found'
+  | 'dependabot_disabled'
+  | 'forbidden'
+  | 'rate_limited'
+  | 'network'
+  | 'unknown';
+
+/** The last failed sync of a repo. Cached alerts are kept but may be stale. */
+export type RepoSyncError = {
+  kind: RepoErrorKind;
+  message: string;
+  occurredAt: string;
 };
 
 /** Daily trend data point with open alert counts per severity. */
@@ -24,6 +74,48 @@ export type MttrMetric = {
   severity: string;
   avgDays: number;
   resolvedCount: number;
+  /** First day of the resolution bucket; set only when a bucket was requested. */
+  period?: string;
+};
+
+/** Spread of remediation times in days; the figures are null when nothing was resolved. */
+export type MttrStats = {
+  resolvedCount: number;
+  meanDays: number | null;
+  medianDays: number | null;
+  p75Days: number | null;
+  p90Days: number | null;
+};
+
+/** MTTR distribution for one severity, overall and split by how alerts were resolved. */
+export type MttrSeverityDistribution = {
+  severity: string;
+  all: MttrStats;
+  fixed: MttrStats;
+  dismissed: MttrStats;
+};
+
+/** MTTR distribution of alerts resolved in one period, for one severity. */
+export type MttrPeriodStats = MttrStats & {
+  /** First day of the period. */
+  period: string;
+  severity: string;
+};
+
+/** MTTR distribution per severity and per resolution period (month by default). */
+export type MttrDistribution = {
+  severities: MttrSeverityDistribution[];
+  periods: MttrPeriodStats[];
+};
+
+/** Granularity of trend points and MTTR periods. Weeks start on Monday. */
+export type TrendBucket = 'day' | 'week' | 'month';
+
+/** Date range (inclusive `YYYY-MM-DD` days) and granularity for history queries. */
+export type HistoryRange = {
+  from?: string | null;
+  to?: string | null;
+  bucket?: TrendBucket | null;
 };
 
 /** Single alert state transition event. */
@@ -37,9 +129,11 @@ export type AlertTimelineEntry = {
 /** SLA violation for an open alert exceeding its time threshold. */
 export type SlaViolation = {
   repo: string;
+  source: AlertSource;
   alertNumber: number;
   severity: string;
   packageName: string | null;
+  ruleId: string | null;
   htmlUrl: string | null;
   firstSeen: string;
   openDays: number;
@@ -54,6 +148,12 @@ export type VulnerabilityGroup = {
   severity: string;
   summary: string | null;
   cvssScore: number | null;
+  /** EPSS probability of exploitation in the next 30 days, from the imported scores. */
+  epssScore: number | null;
+  /** Rank of `epssScore` among all scored CVEs, from 0 to 1. */
+  epssPercentile: number | null;
+  /** Listed in the CISA Known Exploited Vulnerabilities catalog. */
+  kev: boolean;
   patchedVersion: string | null;
   affectedRepos: number;
   totalAlerts: number;
@@ -79,6 +179,125 @@ export type EcosystemBreakdown = {
   uniquePackages: number;
 };
 
+/** Code scanning (CodeQL or third-party SARIF) alert. */
+export type CodeScanningAlert = {
+  repo: string;
+  alertNumber: number;
+  state: string;
+  severity: string;
+  ruleId: string | null;
+  ruleDescription: string | null;
+  toolName: string | null;
+  path: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+  dismissedAt: string | null;
+  fixedAt: string | null;
+  htmlUrl: string | null;
+};
+
+/** Secret scanning alert. The secret value itself is never stored. */
+export type SecretScanningAlert = {
+  repo: string;
+  alertNumber: number;
+  state: string;
+  secretType: string;
+  secretTypeDisplayName: string | null;
+  validity: string | null;
+  pushProtectionBypassed: boolean;
+  pushProtectionBypassedBy: string | null;
+  pushProtectionBypassedAt: string | null;
+  resolution: string | null;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+  htmlUrl: string | null;
+};
+
+/** Mean Time to Remediate for secret scanning alerts in one repo. */
+export type SecretMttrMetric = {
+  repo: string;
+  avgDays: number;
+  resolvedCount: number;
+};
+
+/** Open secret scanning alert checked against the secret SLA limit. */
+export type SecretSlaViolation = {
+  repo: string;
+  alertNumber: number;
+  secretType: string;
+  secretTypeDisplayName: string | null;
+  validity: string | null;
+  htmlUrl: string | null;
+  firstSeen: string;
+  openDays: number;
+  slaLimitDays: number;
+  overdue: boolean;
+};
+
+/** Latest GitHub API quota as seen in response headers. */
+export type RateLimitStatus = {
+  resource: string | null;
+  limit: number | null;
+  remaining: number | null;
+  used: number | null;
+  resetAt: string | null;
+  /** Set while requests are paused after a rate limit response. */
+  throttledUntil: string | null;
+  /** Requests retried after a 403/429 rate limit response since startup. */
+  retries: number;
+  updatedAt: string | null;
+};
+
+/** What started a sync run. */
+export type SyncTrigger = 'cron' | 'manual' | 'api';
+
+/** 'interrupted' marks runs that were still running when the server stopped. */
+export type SyncRunStatus = 'running' | 'completed' | 'failed' | 'interrupted';
+
+/** One refresh job over one or more repos. */
+export type SyncRun = {
+  id: number;
+  triggeredBy: SyncTrigger;
+  status: SyncRunStatus;
+  startedAt: string;
+  finishedAt: string | null;
+  total: number;
+  refreshed: number;
+  unchanged: number;
+  failed: number;
+  error: string | null;
+};
+
+/** Outcome of one repo within a sync run. */
+export type SyncRunRepo = {
+  runId: number;
+  triggeredBy: SyncTrigger;
+  repo: string;
+  outcome: 'updated' | 'unchanged' | 'failed';
+  error: string | null;
+  startedAt: string;
+  finishedAt: string;
+  openBefore: number;
+  openAfter: number;
+  /**
+   * Change in open Dependabot, code scanning and secret scanning alerts
+   * (openAfter − openBefore).
+   */
+  alertDelta: number;
+};
+
+export type SyncRunDetail = SyncRun & { repos: SyncRunRepo[] };
+
+/** A page of sync runs, newest first. */
+export type SyncRunPage = {
+  runs: SyncRun[];
+  total: number;
+  limit: number;
+  offset: number;
+};
+
 /** Lightweight repo metadata returned by the setup wizard API. */
 export type RepoOption = {
   owner: string;
@@ -106,6 +325,10 @@ export type FixAction = {
   ghsaIds: string[];
   cveIds: string[];
   maxCvssScore: number | null;
+  /** Highest EPSS percentile among the group's CVEs. */
+  maxEpssPercentile: number | null;
+  /** Alerts whose CVE is in the CISA KEV catalog. */
+  kevAlerts: number;
   patchedVersion: string | null;
   hasFix: boolean;
   affectedRepos?: number;
@@ -133,3 +356,421 @@ export type ActionPlanEntry = {
   repos: string[];
   vulnerablePackages: string[];
 };
+
+// --- Watch targets ---
+
+/** A user or org whose new repos are tracked automatically. */
+export type WatchTarget = {
+  id: number;
+  /** Configured host name, `github.com` by default. */
+  host: string;
+  type: 'user' | 'org';
+  name: string;
+  includeForks: boolean;
+  includeArchived: boolean;
+  /** Glob matched against repo names (`*` and `?`), e.g. `api-*`. Null matches all. */
+  namePattern: string | null;
+  createdAt: string;
+  lastCheckedAt: string | null;
+  lastError: string | null;
+};
+
+/** Fields accepted when adding a watch target. */
+export type WatchTargetInput = Pick<WatchTarget, 'type' | 'name'> &
+  Partial<Pick<WatchTarget, 'host' | 'includeForks' | 'includeArchived' | 'namePattern'>>;
+
+/** What one discovery pass changed. Repo keys in each list. */
+export type DiscoveryResult = {
+  /** Repos found for the first time; they are synced right after discovery. */
+  added: string[];
+  archived: string[];
+  deleted: string[];
+  /** Previously flagged repos that are active again. */
+  restored: string[];
+  /** Watch targets whose listing failed. */
+  failedTargets: number;
+};
+
+// --- Repo groups ---
+
+/**
+ * A named set of repos, typically the team that owns them. Groups imported
+ * from GitHub are named `org/team-slug` and refreshed on every import.
+ */
+export type RepoGroup = {
+  id: number;
+  name: string;
+  description: string | null;
+  source: 'manual' | 'github_team';
+  /** Repo keys in the group; they need not all be tracked. */
+  repos: string[];
+  createdAt: string;
+};
+
+/** Fields accepted when creating or updating a group. */
+export type RepoGroupInput = {
+  name: string;
+  description?: string | null;
+  repos?: string[];
+};
+
+/** Open-alert, SLA and MTTR totals across the tracked repos of one group. */
+export type GroupRollup = {
+  /** Null for the row of tracked repos that belong to no group. */
+  groupId: number | null;
+  name: string;
+  repoCount: number;
+  totalAlerts: number;
+  severityCounts: SeverityCounts;
+  /** Open alerts past their SLA limit. */
+  overdue: number;
+  /** Mean days to remediate, weighted by resolved alerts; null when none were resolved. */
+  avgMttrDays: number | null;
+};
+
+// --- SLA policy ---
+
+export type SlaSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+/** Days an open alert of each severity may stay open before it breaches its SLA. */
+export type SlaLimits = Record<SlaSeverity, number>;
+
+/**
+ * Limits for the repos of one group or for one repo. Severities left out
+ * inherit from the next level: repo, then group, then the defaults.
+ */
+export type SlaOverride =
+  | { scope: 'group'; groupId: number; limits: Partial<SlaLimits> }
+  | { scope: 'repo'; repo: string; limits: Partial<SlaLimits> };
+
+export type SlaPolicy = {
+  defaults: SlaLimits;
+  overrides: SlaOverride[];
+};
+
+// --- SLA compliance ---
+
+/** SLA outcomes of one severity over a period. */
+export type SlaComplianceStat = {
+  severity: SlaSeverity;
+  /** Alerts resolved (fixed or dismissed) in the period. */
+  resolved: number;
+  withinSla: number;
+  late: number;
+  /** `withinSla / resolved`; null when nothing was resolved. */
+  attainmentRate: number | null;
+  /** Days alerts spent past their SLA limit within the period. */
+  breachDays: number;
+  /** Alerts still open at the end of the period and past their limit. */
+  openOverdue: number;
+};
+
+export type SlaCompliancePeriod = {
+  /** Calendar quarter, e.g. `2025-Q1`. */
+  period: string;
+  /** First and last day of the quarter within the requested range. */
+  from: string;
+  to: string;
+  severities: SlaComplianceStat[];
+};
+
+export type LateResolvedAlert = {
+  repo: string;
+  source: AlertSource;
+  alertNumber: number;
+  severity: SlaSeverity;
+  openedAt: string;
+  resolvedAt: string;
+  slaLimitDays: number;
+  daysLate: number;
+};
+
+export type SlaComplianceReport = {
+  from: string;
+  to: string;
+  totals: SlaComplianceStat[];
+  periods: SlaCompliancePeriod[];
+  /** Alerts resolved in the range after their limit, latest first. */
+  lateResolved: LateResolvedAlert[];
+};
+
+// --- Risk scores ---
+
+/**
+ * Weights of the repo risk score. Each open Dependabot alert scores its
+ * severity weight, scaled by `1 + cvss × score / 10`, by `1 + epss × EPSS
+ * percentile`, by `kev` when its CVE is known exploited, by
+ * `developmentScope` for development-only dependencies, by `overdue` once
+ * past its SLA limit and by `1 + agePerYear × years open`. A repo scores the
+ * sum of its alerts.
+ */
+export type RiskWeights = {
+  severity: Record<SlaSeverity, number>;
+  cvss: number;
+  /** Added multiplier per EPSS percentile: the score is scaled by `1 + epss × percentile`. */
+  epss: number;
+  /** Multiplier for alerts whose CVE is in the CISA KEV catalog. */
+  kev: number;
+  developmentScope: number;
+  overdue: number;
+  agePerYear: number;
+};
+
+/** A repo's risk score with the open alerts behind it. */
+export type RepoRisk = {
+  repo: string;
+  riskScore: number;
+  openAlerts: number;
+  /** Open alerts on runtime (non-development) dependencies. */
+  runtimeAlerts: number;
+  overdueAlerts: number;
+  /** Open alerts whose CVE is in the CISA KEV catalog. */
+  kevAlerts: number;
+  maxCvss: number | null;
+};
+
+// --- Risk exceptions ---
+
+/**
+ * What a risk exception covers: one alert (`repo` + `alertNumber`), an
+ * advisory (`ghsaId`), a package (`packageName`, optionally `ecosystem`) or
+ * every Dependabot alert of a `repo`. Advisory and package exceptions apply
+ * to all repos unless `repo` is set.
+ */
+export type RiskExceptionScope = 'alert' | 'advisory' | 'package' | 'repo';
+
+/** Active until `expiresAt`, unless revoked earlier. */
+export type RiskExceptionStatus = 'active' | 'expired' | 'revoked';
+
+/** Fields accepted when creating an exception. */
+export type RiskExceptionInput = {
+  scope: RiskExceptionScope;
+  repo: string | null;
+  alertNumber: number | null;
+  ghsaId: string | null;
+  packageName: string | null;
+  ecosystem: string | null;
+  justification: string;
+  /** Who accepted the risk. */
+  approver: string;
+  expiresAt: string;
+};
+
+/** Fields an exception can be renewed or amended with; its scope is fixed. */
+export type RiskExceptionUpdate = Partial<
+  Pick<RiskExceptionInput, 'justification' | 'approver' | 'expiresAt'>
+> & { actor: string };
+
+/** One entry in an exception's audit trail. */
+export type RiskExceptionEvent = {
+  action: 'created' | 'updated' | 'revoked';
+  actor: string;
+  /** Justification on creation, changed fields on update, reason on revocation. */
+  note: string | null;
+  recordedAt: string;
+};
+
+/** An open Dependabot alert covered by an active exception. */
+export type AcceptedAlert = {
+  repo: string;
+  alertNumber: number;
+  severity: string;
+  packageName: string | null;
+  ghsaId: string | null;
+  htmlUrl: string | null;
+};
+
+/**
+ * A locally accepted risk. Alerts it covers are left out of the summary,
+ * SLA and risk metrics while it is active, and count again once it expires
+ * or is revoked.
+ */
+export type RiskException = RiskExceptionInput & {
+  id: number;
+  status: RiskExceptionStatus;
+  createdAt: string;
+  revokedAt: string | null;
+  /** Open alerts covered while active; empty otherwise. */
+  alerts: AcceptedAlert[];
+  events: RiskExceptionEvent[];
+};
+
+// --- Threat intel ---
+
+/** Imported exploit datasets: FIRST EPSS scores and the CISA KEV catalog. */
+export type ThreatDataset = 'epss' | 'kev';
+
+/** Exploit data matched to an alert through its CVE id. */
+export type ThreatIntel = {
+  epssScore: number | null;
+  epssPercentile: number | null;
+  kev: boolean;
+};
+
+/** The last import of one dataset. */
+export type ThreatDatasetStatus = {
+  dataset: ThreatDataset;
+  /** File path or URL the data came from. */
+  source: string;
+  importedAt: string;
+  recordCount: number;
+  /** EPSS score date or KEV catalog release date, when the data states one. */
+  publishedAt: string | null;
+};
+
+// --- Alert triage ---
+
+/** Reasons GitHub accepts when dismissing a Dependabot alert. */
+export type DismissReason =
+  | 'fix_started'
+  | 'inaccurate'
+  | 'no_bandwidth'
+  | 'not_used'
+  | 'tolerable_risk';
+
+/** One Dependabot alert, addressed by repo key and number. */
+export type AlertRef = {
+  repo: string;
+  alertNumber: number;
+};
+
+/** A state change written back to GitHub: dismiss with a reason, or reopen. */
+export type AlertStateChange =
+  | { state: 'dismissed'; dismissedReason: DismissReason; dismissedComment: string | null }
+  | { state: 'open' };
+
+/** Outcome of a bulk state change; each alert succeeds or fails on its own. */
+export type AlertStateChangeResult = {
+  updated: AlertRef[];
+  failed: (AlertRef & { kind: RepoErrorKind; error: string })[];
+};
+
+// --- Closed alerts ---
+
+/** States of a Dependabot alert; all but `open` are closed. */
+export type AlertState = 'open' | 'dismissed' | 'fixed' | 'auto_dismissed';
+
+/** A dismissed or fixed Dependabot alert, for browsing across repos. */
+export type ClosedAlert = {
+  repo: string;
+  alertNumber: number;
+  state: Exclude<AlertState, 'open'>;
+  severity: string;
+  packageName: string | null;
+  ecosystem: string | null;
+  ghsaId: string | null;
+  advisorySummary: string | null;
+  htmlUrl: string | null;
+  /** When the alert was fixed or dismissed. */
+  closedAt: string | null;
+  /** As GitHub reported it: usually a `DismissReason`, but newer values pass through. */
+  dismissedReason: string | null;
+  dismissedComment: string | null;
+  /** Login of the user who dismissed the alert. */
+  dismissedBy: string | null;
+};
+
+export type ClosedAlertPage = {
+  alerts: ClosedAlert[];
+  total: number;
+  limit: number;
+  offset: number;
+};
+
+/** Closed alerts of one group, to compare how teams close alerts. */
+export type DismissalGroupStats = {
+  /** Null for the row of tracked repos that belong to no group. */
+  groupId: number | null;
+  name: string;
+  fixed: number;
+  dismissed: number;
+  /** Dismissed alerts per reason; `unknown` when GitHub gave none or an unknown one. */
+  reasons: Partial<Record<DismissReason | 'unknown', number>>;
+};
+
+/** How dismissed alerts were justified, overall, per group and per dismisser. */
+export type DismissalAnalytics = {
+  reasons: { reason: DismissReason | 'unknown'; count: number }[];
+  groups: DismissalGroupStats[];
+  dismissers: { login: string; dismissed: number }[];
+};
+
+// --- Alert annotations ---
+
+/** Local notes on a Dependabot alert; they stay in this tool and never reach GitHub. */
+export type AlertAnnotationInput = {
+  note: string | null;
+  tags: string[];
+  /** Who is handling the alert; free text, not a GitHub login. */
+  assignee: string | null;
+};
+
+/** The annotation of one alert, kept across refreshes. */
+export type AlertAnnotation = AlertRef &
+  AlertAnnotationInput & {
+    updatedAt: string;
+  };
+
+/** Keeps the alerts carrying `tag` and assigned to `assignee` (both case-insensitive). */
+export type AnnotationFilters = {
+  tag?: string | null;
+  assignee?: string | null;
+};
+
+// --- Notifications ---
+
+/** How a channel delivers: Slack or Teams incoming webhook, JSON webhook or email. */
+export type NotificationChannelType = 'slack' | 'teams' | 'webhook' | 'email';
+
+/** What happened to an open alert: it appeared, was reopened or went past its SLA. */
+export type NotificationEventKind = 'new' | 'reopened' | 'sla_breached';
+
+/** Fields accepted when creating a channel. */
+export type NotificationChannelInput = {
+  type: NotificationChannelType;
+  name: string;
+  /** Webhook URL, or comma-separated recipient addresses for email. */
+  target: string;
+  /** Least severe alerts the channel hears about; unrated alerts count as low. */
+  minSeverity: SlaSeverity;
+  events: NotificationEventKind[];
+  enabled: boolean;
+};
+
+/**
+ * A destination for alert events after each full refresh. Events from
+ * before `createdAt` are never sent, so a new channel starts quiet.
+ */
+export type NotificationChannel = NotificationChannelInput & {
+  id: number;
+  createdAt: string;
+  lastSentAt: string | null;
+  /** Why the last delivery failed; cleared by the next success. */
+  lastError: string | null;
+};
+
+/** GitHub feature a notified alert comes from; alert sources plus secret scanning. */
+export type NotificationEventSource = AlertSource | 'secret_scanning';
+
+/** An event on an open Dependabot, code scanning or secret scanning alert. */
+export type NotificationEvent = {
+  kind: NotificationEventKind;
+  source: NotificationEventSource;
+  repo: string;
+  alertNumber: number;
+  /** Secret scanning alerts have none and are reported as critical. */
+  severity: string;
+  /** Package of a Dependabot alert, rule of a code scanning alert, type of a secret. */
+  subject: string | null;
+  htmlUrl: string | null;
+  /** When the alert was created, reopened or breached its SLA. */
+  occurredAt: string;
+};
+
+/** Outcome of delivering pending events to one channel. */
+export type NotificationDelivery = {
+  channelId: number;
+  name: string;
+  sent: number;
+  error: string | null;
+};
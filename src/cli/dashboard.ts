@@ -10,7 +10,8 @@ import {
   openDatabase,
   resolveDbPath,
 } from '../core/db.js';
-import { createGitHubClient } from '../core/github-client.js';
+import { seedWatchTargets } from '../core/discovery.js';
+import { createGitHubClients } from '../core/github-client.js';
 import { createServer } from '../core/server.js';
 import { startScheduler, stopScheduler } from '../core/scheduler.js';
 
@@ -100,12 +101,17 @@ export function registerDashboardCommand(program: Command): void {
       const dbPath = resolveDbPath(options.db);
       const db = openDatabase(dbPath);
 
-      const octokit = createGitHubClient();
-      if (!octokit) {
+      const clients = createGitHubClients();
+      if (!clients) {
         return;
       }
 
-      const app = createServer(db, octokit, dashboardDir);
+      const seeded = seedWatchTargets(db);
+      if (seeded > 0) {
+        console.log(chalk.gray(`  Watching ${seeded} user/org target(s) from GH_MONIT_USER / GH_MONIT_ORG`));
+      }
+
+      const app = createServer(db, clients, dashboardDir);
       const url = `http://localhost:${port}`;
 
       const cronExpression =
@@ -115,7 +121,7 @@ export function registerDashboardCommand(program: Command): void {
         console.log(chalk.bold('\n  gh-monit Dashboard\n'));
         console.log(`  ${chalk.green('➜')}  ${chalk.cyan(url)}\n`);
 
-        startScheduler(db, octokit, cronExpression);
+        startScheduler(db, clients, cronExpression);
         console.log(
           chalk.gray(`  Auto-refresh scheduled: ${cronExpression}\n`)
         );
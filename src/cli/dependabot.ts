@@ -4,8 +4,11 @@ import { z } from 'zod';
 import chalk from 'chalk';
 import {
   DEFAULT_DB_PATH,
+  clearRepoSyncError,
   getCachedAlerts,
+  isRepoTracked,
   openDatabase,
+  recordRepoSyncError,
   resolveDbPath,
   saveAlerts,
 } from '../core/db.js';
@@ -14,9 +17,11 @@ import {
   fetchDependabotAlerts,
   listOrgRepos,
   listUserRepos,
+  toGitHubApiError,
 } from '../core/github.js';
-import { createGitHubClient } from '../core/github-client.js';
-import type { RepoAlertsResult, RepoRef } from '../types.js';
+import { createGitHubClients } from '../core/github-client.js';
+import { DEFAULT_HOST, toRepoKey } from '../core/hosts.js';
+import type { ConditionalFetchResult, RepoAlertsResult, RepoRef } from '../types.js';
 import {
   renderOrgOutput,
   renderRepoOutput,
@@ -36,6 +41,7 @@ type DependabotOptions = {
   since?: string;
   json?: boolean;
   refresh?: boolean;
+  host: string;
 };
 
 export function registerDependabotCommand(program: Command): void {
@@ -46,6 +52,7 @@ export function registerDependabotCommand(program: Command): void {
     .option('--user <username>', 'GitHub username')
     .option('--org <org>', 'GitHub organization')
     .option('--include-forks', 'Include forked repos', false)
+    .option('--host <name>', 'Configured GitHub host (see GH_MONIT_HOSTS)', DEFAULT_HOST)
     .option('--db <path>', 'Path to sqlite db', DEFAULT_DB_PATH)
     .option('--since <date>', 'Filter alerts updated since ISO date')
     .option('--json', 'Output alerts as JSON', false)
@@ -64,8 +71,15 @@ export function registerDependabotCommand(program: Command): void {
       const dbPath = resolveDbPath(options.db);
       const db = openDatabase(dbPath);
 
-      const octokit = createGitHubClient();
+      const clients = createGitHubClients();
+      if (!clients) {
+        return;
+      }
+
+      const octokit = clients.get(options.host);
       if (!octokit) {
+        console.error(chalk.red(`Unknown host "${options.host}". Configure it in GH_MONIT_HOSTS.`));
+        process.exitCode = 1;
         return;
       }
 
@@ -86,7 +100,7 @@ export function registerDependabotCommand(program: Command): void {
         return;
       }
 
-      const repoList = await loadTargetRepos(octokit, target, options.includeForks ?? false);
+      const repoList = await loadTargetRepos(octokit, target, options.includeForks ?? false, options.host);
       if (!repoList) {
         return;
       }
@@ -128,11 +142,28 @@ async function loadRepoAlerts(
   let usedCache = !refresh && cached.hasCache;
 
   if (refresh || !cached.hasCache) {
-    const fetchedAlerts = await fetchDependabotAlerts(octokit, repo);
-    if (fetchedAlerts) {
-      alerts = normalizeAlerts(repo.fullName, fetchedAlerts);
+    let fetched: ConditionalFetchResult | null = null;
+    try {
+      fetched = await fetchDependabotAlerts(octokit, repo);
+    } catch (error) {
+      const apiError = toGitHubApiError(error);
+      console.error(chalk.red(`Failed to fetch alerts for ${repo.fullName}: ${apiError.message}`));
+      // A one-off query on an untracked repo must not add it to the dashboard
+      if (isRepoTracked(db, repo.fullName)) {
+        recordRepoSyncError(db, repo.fullName, {
+          kind: apiError.kind,
+          message: apiError.message,
+          occurredAt: new Date().toISOString(),
+        });
+      }
+      process.exitCode = 1;
+    }
+
+    if (fetched?.alerts) {
+      alerts = normalizeAlerts(repo.fullName, fetched.alerts);
       lastSync = new Date().toISOString();
       saveAlerts(db, repo.fullName, alerts, lastSync);
+      clearRepoSyncError(db, repo.fullName);
       usedCache = false;
     } else if (!cached.hasCache) {
       return null;
@@ -173,7 +204,7 @@ function resolveTarget(
   }
 
   if (options.repo) {
-    return { type: 'repo', repo: parseRepo(options.repo) };
+    return { type: 'repo', repo: parseRepo(options.repo, options.host) };
   }
 
   if (options.org) {
@@ -183,25 +214,39 @@ function resolveTarget(
   return { type: 'user', username: options.user ?? '' };
 }
 
-function parseRepo(repoInput: string): RepoRef {
+function parseRepo(repoInput: string, host: string): RepoRef {
   const repoValue = repoSchema.parse(repoInput);
   const [owner, name] = repoValue.split('/');
   return {
     owner,
     name,
-    fullName: repoValue,
+    fullName: toRepoKey(host, owner, name),
+    host,
   };
 }
 
 async function loadTargetRepos(
   octokit: Octokit,
   target: { type: 'user'; username: string } | { type: 'org'; org: string },
-  includeForks: boolean
+  includeForks: boolean,
+  host: string
 ): Promise<RepoRef[] | null> {
-  if (target.type === 'user') {
-    return listUserRepos(octokit, target.username, includeForks);
+  try {
+    if (target.type === 'user') {
+      return await listUserRepos(octokit, target.username, includeForks, host);
+    }
+    return await listOrgRepos(octokit, target.org, includeForks, host);
+  } catch (error) {
+    const apiError = toGitHubApiError(error);
+    console.error(chalk.red(`Failed to list repositories: ${apiError.message}`));
+    console.error(
+      chalk.yellow(
+        'Ensure GITHUB_TOKEN (or the GitHub App installation) is valid and the target user/org exists.'
+      )
+    );
+    process.exitCode = 1;
+    return null;
   }
-  return listOrgRepos(octokit, target.org, includeForks);
 }
 
 function parseSinceDate(since?: string): Date | null {
@@ -102,7 +102,7 @@ function renderFixPlan(data: FixAdvisorResponse): void {
       console.log(
         chalk.gray(
           `  ${action.packageName}${eco} — ${action.alertCount} alert${action.alertCount > 1 ? 's' : ''} — no patched version yet${repos}`
-        )
+        ) + (action.kevAlerts > 0 ? chalk.red.bold(' [KEV]') : '')
       );
     }
     console.log();
@@ -118,8 +118,13 @@ function renderAction(action: FixAction, showRepos: boolean): void {
     ? ` — ${action.affectedRepos} repos`
     : '';
 
+  const kev = action.kevAlerts > 0 ? chalk.red.bold(' [KEV]') : '';
+  const epss = action.maxEpssPercentile !== null
+    ? chalk.gray(` — EPSS ${Math.round(action.maxEpssPercentile * 100)}th pct`)
+    : '';
+
   console.log(
-    `  ${action.packageName}${eco} — ${action.alertCount} alert${action.alertCount > 1 ? 's' : ''}${version}${repos}`
+    `  ${action.packageName}${eco} — ${action.alertCount} alert${action.alertCount > 1 ? 's' : ''}${version}${repos}${epss}${kev}`
   );
 
   const ids = [...action.ghsaIds, ...action.cveIds.filter((id) => !action.ghsaIds.length)];
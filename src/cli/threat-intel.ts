@@ -0,0 +1,50 @@
+import type { Command } from 'commander';
+import chalk from 'chalk';
+import { DEFAULT_DB_PATH, openDatabase, resolveDbPath } from '../core/db.js';
+import { importThreatDataset, ThreatIntelError } from '../core/threat-intel.js';
+import type { ThreatDataset } from '../types.js';
+
+type ThreatIntelOptions = {
+  epss?: string | boolean;
+  kev?: string | boolean;
+  db: string;
+};
+
+export function registerThreatIntelCommand(program: Command): void {
+  program
+    .command('threat-intel')
+    .description('Import EPSS scores and the CISA KEV catalog used to enrich alerts')
+    .option('--epss [source]', 'Import EPSS scores (CSV, optionally gzipped) from a URL or file')
+    .option('--kev [source]', 'Import the CISA KEV catalog (JSON) from a URL or file')
+    .option('--db <path>', 'Path to sqlite db', DEFAULT_DB_PATH)
+    .action(async (options: ThreatIntelOptions) => {
+      // Without either flag, both datasets are imported from their configured sources
+      const selected = options.epss === undefined && options.kev === undefined;
+      const imports: [ThreatDataset, string | boolean | undefined][] = [
+        ['epss', selected || options.epss],
+        ['kev', selected || options.kev],
+      ];
+
+      const db = openDatabase(resolveDbPath(options.db));
+      for (const [dataset, source] of imports) {
+        if (!source) continue;
+        try {
+          const status = await importThreatDataset(
+            db,
+            dataset,
+            typeof source === 'string' ? source : undefined
+          );
+          const published = status.publishedAt ? `, published ${status.publishedAt}` : '';
+          console.log(
+            chalk.green(
+              `Imported ${status.recordCount} ${dataset.toUpperCase()} records from ${status.source}${published}`
+            )
+          );
+        } catch (error) {
+          if (!(error instanceof ThreatIntelError)) throw error;
+          console.error(chalk.red(`${dataset.toUpperCase()} import failed: ${error.message}`));
+          process.exitCode = 1;
+        }
+      }
+    });
+}
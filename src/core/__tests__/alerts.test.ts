@@ -1,6 +1,8 @@
 import { describe, it, expect } from "vitest";
 import {
   normalizeAlerts,
+  normalizeCodeScanningAlerts,
+  normalizeSecretScanningAlerts,
   summarizeAlerts,
   sortAlerts,
   filterAlertsBySince,
@@ -59,6 +61,9 @@ function makeNormalizedAlert(
     advisorySummary: "Prototype pollution in lodash",
     cvssScore: 7.5,
     patchedVersion: "4.17.21",
+    dismissedReason: null,
+    dismissedComment: null,
+    dismissedBy: null,
     rawJson: "{}",
     ...overrides,
   };
@@ -111,6 +116,19 @@ describe("normalizeAlerts", () => {
     expect(result.cvssScore).toBeNull();
   });
 
+  it("promotes dismissal reason, comment and dismisser", () => {
+    const raw = makeGitHubAlert({
+      state: "dismissed",
+      dismissed_reason: "tolerable_risk",
+      dismissed_comment: "Only used in tests",
+      dismissed_by: { login: "alice" },
+    });
+    const [result] = normalizeAlerts("owner/repo", [raw]);
+    expect(result.dismissedReason).toBe("tolerable_risk");
+    expect(result.dismissedComment).toBe("Only used in tests");
+    expect(result.dismissedBy).toBe("alice");
+  });
+
   it("handles non-numeric cvss score", () => {
     const raw = makeGitHubAlert({
       security_advisory: {
@@ -141,6 +159,124 @@ describe("normalizeAlerts", () => {
   });
 });
 
+// --- normalizeCodeScanningAlerts ---
+
+function makeCodeScanningAlert(overrides: Record<string, unknown> = {}) {
+  return {
+    number: 3,
+    state: "open",
+    rule: {
+      id: "js/sql-injection",
+      severity: "error",
+      security_severity_level: "critical",
+      description: "Database query built from user-controlled sources",
+    },
+    tool: { name: "CodeQL" },
+    most_recent_instance: { location: { path: "src/db.js" } },
+    created_at: "2024-01-15T10:00:00Z",
+    updated_at: "2024-02-01T12:00:00Z",
+    dismissed_at: null,
+    fixed_at: null,
+    html_url: "https://github.com/owner/repo/security/code-scanning/3",
+    ...overrides,
+  };
+}
+
+describe("normalizeCodeScanningAlerts", () => {
+  it("maps all fields from a code scanning alert", () => {
+    const [result] = normalizeCodeScanningAlerts("owner/repo", [makeCodeScanningAlert()]);
+
+    expect(result.repo).toBe("owner/repo");
+    expect(result.alertNumber).toBe(3);
+    expect(result.state).toBe("open");
+    expect(result.severity).toBe("critical");
+    expect(result.ruleId).toBe("js/sql-injection");
+    expect(result.ruleDescription).toBe("Database query built from user-controlled sources");
+    expect(result.toolName).toBe("CodeQL");
+    expect(result.path).toBe("src/db.js");
+    expect(result.htmlUrl).toBe("https://github.com/owner/repo/security/code-scanning/3");
+  });
+
+  it("falls back to the rule severity when no security severity is set", () => {
+    const [result] = normalizeCodeScanningAlerts("owner/repo", [
+      makeCodeScanningAlert({ rule: { id: "js/unused-local-variable", severity: "warning" } }),
+    ]);
+    expect(result.severity).toBe("medium");
+  });
+
+  it("uses 'unknown' when the rule has no severity", () => {
+    const [result] = normalizeCodeScanningAlerts("owner/repo", [
+      makeCodeScanningAlert({ rule: { id: "custom/rule" } }),
+    ]);
+    expect(result.severity).toBe("unknown");
+  });
+
+  it("handles a missing location", () => {
+    const [result] = normalizeCodeScanningAlerts("owner/repo", [
+      makeCodeScanningAlert({ most_recent_instance: undefined }),
+    ]);
+    expect(result.path).toBeNull();
+  });
+});
+
+// --- normalizeSecretScanningAlerts ---
+
+function makeSecretScanningAlert(overrides: Record<string, unknown> = {}) {
+  return {
+    number: 7,
+    state: "open",
+    secret_type: "github_personal_access_token",
+    secret_type_display_name: "GitHub Personal Access Token",
+    secret: "ghp_should_never_be_stored",
+    validity: "active",
+    push_protection_bypassed: true,
+    push_protection_bypassed_by: { login: "octocat" },
+    push_protection_bypassed_at: "2024-01-15T10:00:00Z",
+    resolution: null,
+    resolved_at: null,
+    resolved_by: null,
+    created_at: "2024-01-15T10:00:00Z",
+    updated_at: "2024-01-15T10:00:00Z",
+    html_url: "https://github.com/owner/repo/security/secret-scanning/7",
+    ...overrides,
+  };
+}
+
+describe("normalizeSecretScanningAlerts", () => {
+  it("maps secret type, validity and push protection fields", () => {
+    const [result] = normalizeSecretScanningAlerts("owner/repo", [makeSecretScanningAlert()]);
+
+    expect(result.alertNumber).toBe(7);
+    expect(result.secretType).toBe("github_personal_access_token");
+    expect(result.secretTypeDisplayName).toBe("GitHub Personal Access Token");
+    expect(result.validity).toBe("active");
+    expect(result.pushProtectionBypassed).toBe(true);
+    expect(result.pushProtectionBypassedBy).toBe("octocat");
+    expect(result.resolvedBy).toBeNull();
+  });
+
+  it("maps resolution details", () => {
+    const [result] = normalizeSecretScanningAlerts("owner/repo", [
+      makeSecretScanningAlert({
+        state: "resolved",
+        resolution: "revoked",
+        resolved_at: "2024-01-16T10:00:00Z",
+        resolved_by: { login: "hubot" },
+      }),
+    ]);
+
+    expect(result.state).toBe("resolved");
+    expect(result.resolution).toBe("revoked");
+    expect(result.resolvedBy).toBe("hubot");
+  });
+
+  it("never keeps the secret value in rawJson", () => {
+    const [result] = normalizeSecretScanningAlerts("owner/repo", [makeSecretScanningAlert()]);
+    expect(result.rawJson).not.toContain("ghp_should_never_be_stored");
+    expect(JSON.parse(result.rawJson).number).toBe(7);
+  });
+});
+
 // --- summarizeAlerts ---
 
 describe("summarizeAlerts", () => {
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from "vitest";
+import type { Octokit } from "@octokit/rest";
+import { fetchCodeowners, matchCodeowners, parseCodeowners } from "../codeowners.js";
+
+const repo = { owner: "acme", name: "shop", fullName: "acme/shop" };
+
+function ownersOf(content: string, path: string): string[] {
+  return matchCodeowners(parseCodeowners(content), path);
+}
+
+describe("parseCodeowners", () => {
+  it("skips comments and blank lines and strips inline comments", () => {
+    const rules = parseCodeowners(
+      ["# Default owners", "", "*       @acme/core   # everyone", "*.md    docs@acme.com"].join("\n")
+    );
+    expect(rules.map((r) => [r.pattern, r.owners])).toEqual([
+      ["*", ["@acme/core"]],
+      ["*.md", ["docs@acme.com"]],
+    ]);
+  });
+
+  it("keeps rules without owners", () => {
+    expect(parseCodeowners("/vendor/")[0].owners).toEqual([]);
+  });
+});
+
+describe("matchCodeowners", () => {
+  const content = [
+    "*                   @acme/core",
+    "*.js                @acme/frontend",
+    "/services/billing/  @acme/payments @alice",
+    "docs/*              @acme/docs",
+    "**/logs             @acme/ops",
+    "apps/               @acme/apps",
+    "/vendor/",
+  ].join("\n");
+
+  it("lets the last matching rule win", () => {
+    expect(ownersOf(content, "services/billing/package.json")).toEqual(["@acme/payments", "@alice"]);
+    expect(ownersOf(content, "services/billing/web/index.js")).toEqual(["@acme/payments", "@alice"]);
+    expect(ownersOf(content, "web/index.js")).toEqual(["@acme/frontend"]);
+    expect(ownersOf(content, "go.mod")).toEqual(["@acme/core"]);
+  });
+
+  it("anchors patterns with a leading or inner slash", () => {
+    expect(ownersOf(content, "legacy/services/billing/package.json")).toEqual(["@acme/core"]);
+    expect(ownersOf(content, "docs/guide.md")).toEqual(["@acme/docs"]);
+    expect(ownersOf(content, "src/docs/guide.md")).toEqual(["@acme/core"]);
+  });
+
+  it("matches only direct children for a trailing /*", () => {
+    expect(ownersOf(content, "docs/build/requirements.txt")).toEqual(["@acme/core"]);
+  });
+
+  it("matches unanchored directories at any depth", () => {
+    expect(ownersOf(content, "deploy/logs/package.json")).toEqual(["@acme/ops"]);
+    expect(ownersOf(content, "frontend/apps/web/package.json")).toEqual(["@acme/apps"]);
+  });
+
+  it("leaves paths of an ownerless rule unowned", () => {
+    expect(ownersOf(content, "vendor/lib/go.mod")).toEqual([]);
+  });
+
+  it("returns no owners without a matching rule", () => {
+    expect(ownersOf("/api/ @acme/api", "web/package.json")).toEqual([]);
+  });
+});
+
+describe("fetchCodeowners", () => {
+  function makeOctokit(files: Record<string, string>, failWith?: number) {
+    const getContent = vi.fn(async ({ path }: { path: string }) => {
+      if (failWith) {
+        throw Object.assign(new Error(`HTTP ${failWith}`), { status: failWith, response: { headers: {} } });
+      }
+      if (!(path in files)) {
+        throw Object.assign(new Error("Not Found"), { status: 404, response: { headers: {} } });
+      }
+      return { data: files[path] };
+    });
+    const request = vi.fn(async (_route: string, params: { headers: Record<string, string> }) => {
+      if (params.headers["if-none-match"] === '"head"') {
+        throw Object.assign(new Error("Not Modified"), { status: 304 });
+      }
+      return { data: "abc123", headers: { etag: '"head"' } };
+    });
+    return { request, rest: { repos: { getContent } } } as unknown as Octokit & {
+      rest: { repos: { getContent: ReturnType<typeof vi.fn> } };
+    };
+  }
+
+  it("returns the first file in GitHub's lookup order at the default branch head", async () => {
+    const octokit = makeOctokit({ CODEOWNERS: "* @root", "docs/CODEOWNERS": "* @docs" });
+
+    expect(await fetchCodeowners(octokit, repo)).toEqual({
+      file: { path: "CODEOWNERS", content: "* @root" },
+      validators: { etag: '"head"', lastModified: null },
+    });
+    expect(octokit.rest.repos.getContent.mock.calls.map(([p]) => [p.path, p.ref])).toEqual([
+      [".github/CODEOWNERS", "abc123"],
+      ["CODEOWNERS", "abc123"],
+    ]);
+  });
+
+  it("returns no file when the repo has none", async () => {
+    expect((await fetchCodeowners(makeOctokit({}), repo))?.file).toBeNull();
+  });
+
+  it("skips the file lookups while the default branch has not moved", async () => {
+    const octokit = makeOctokit({ CODEOWNERS: "* @root" });
+
+    expect(await fetchCodeowners(octokit, repo, { etag: '"head"', lastModified: null })).toBeNull();
+    expect(octokit.rest.repos.getContent).not.toHaveBeenCalled();
+  });
+
+  it("throws on other failures", async () => {
+    await expect(fetchCodeowners(makeOctokit({}, 403), repo)).rejects.toMatchObject({
+      kind: "forbidden",
+    });
+  });
+});
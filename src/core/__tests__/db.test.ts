@@ -3,11 +3,19 @@ import Database from "better-sqlite3";
 import {
   openDatabase,
   saveAlerts,
+  saveCodeScanningAlerts,
+  getCodeScanningAlerts,
+  saveSecretScanningAlerts,
+  getSecretScanningAlerts,
+  getSecretMttrMetrics,
+  getSecretSlaViolations,
   getCachedAlerts,
+  isRepoTracked,
   getGlobalSummary,
   getAllRepoSummaries,
   getRepoAlerts,
   getTrendData,
+  getMttrDistribution,
   getMttrMetrics,
   getSlaViolations,
   getVulnerabilityGroups,
@@ -18,8 +26,67 @@ import {
   saveDependencyChains,
   clearDatabase,
   removeRepo,
+  getCacheValidators,
+  saveCacheValidators,
+  touchRepoSync,
+  recordRepoSyncError,
+  clearRepoSyncError,
+  startSyncRun,
+  recordSyncRunRepo,
+  finishSyncRun,
+  markInterruptedSyncRuns,
+  getSyncRuns,
+  getSyncRun,
+  getLatestSyncRun,
+  getRepoSyncRuns,
+  countOpenAlerts,
+  getWatchTargets,
+  addWatchTarget,
+  removeWatchTarget,
+  recordWatchTargetCheck,
+  setUpstreamState,
+  saveRepoMetadata,
+  getRepoGroups,
+  createRepoGroup,
+  updateRepoGroup,
+  deleteRepoGroup,
+  saveTeamGroup,
+  getGroupRollups,
+  getFixAdvisor,
+  saveCodeowners,
+  getCodeowners,
+  resolveAlertOwners,
+  DEFAULT_SLA_LIMITS,
+  getSlaPolicy,
+  saveSlaPolicy,
+  resolveSlaLimits,
+  getSlaCompliance,
+  DEFAULT_RISK_WEIGHTS,
+  getRiskScores,
+  getRiskWeights,
+  saveRiskWeights,
+  saveEpssScores,
+  saveKevEntries,
+  getThreatIntelStatus,
+  getRiskExceptions,
+  getRiskException,
+  createRiskException,
+  updateRiskException,
+  revokeRiskException,
+  rebuildDailySnapshots,
+  getClosedAlerts,
+  getDismissalAnalytics,
+  getAlertAnnotations,
+  getAlertAnnotation,
+  saveAlertAnnotation,
+  deleteAlertAnnotation,
 } from "../db.js";
-import type { NormalizedAlert } from "../../types.js";
+import type {
+  RiskExceptionInput,
+  NormalizedAlert,
+  NormalizedCodeScanningAlert,
+  NormalizedSecretScanningAlert,
+} from "../../types.js";
 import type { DependencyChain } from "../lockfile.js";
 
 // --- Helpers ---
@@ -43,6 +110,55 @@ function makeAlert(overrides: Partial<NormalizedAlert> = {}): NormalizedAlert {
     advisorySummary: "Prototype pollution in lodash",
     cvssScore: 7.5,
     patchedVersion: "4.17.21",
+    dismissedReason: null,
+    dismissedComment: null,
+    dismissedBy: null,
+    rawJson: JSON.stringify({ number: 1 }),
+    ...overrides,
+  };
+}
+
+function makeCodeScanningAlert(
+  overrides: Partial<NormalizedCodeScanningAlert> = {}
+): NormalizedCodeScanningAlert {
+  return {
+    repo: "owner/repo",
+    alertNumber: 1,
+    state: "open",
+    severity: "high",
+    ruleId: "js/sql-injection",
+    ruleDescription: "Database query built from user-controlled sources",
+    toolName: "CodeQL",
+    path: "src/db.js",
+    createdAt: "2024-01-15T10:00:00Z",
+    updatedAt: "2024-02-01T12:00:00Z",
+    dismissedAt: null,
+    fixedAt: null,
+    htmlUrl: "https://github.com/owner/repo/security/code-scanning/1",
+    rawJson: JSON.stringify({ number: 1 }),
+    ...overrides,
+  };
+}
+
+function makeSecretAlert(
+  overrides: Partial<NormalizedSecretScanningAlert> = {}
+): NormalizedSecretScanningAlert {
+  return {
+    repo: "owner/repo",
+    alertNumber: 1,
+    state: "open",
+    secretType: "github_personal_access_token",
+    secretTypeDisplayName: "GitHub Personal Access Token",
+    validity: "active",
+    pushProtectionBypassed: false,
+    pushProtectionBypassedBy: null,
+    pushProtectionBypassedAt: null,
+    resolution: null,
+    resolvedAt: null,
+    resolvedBy: null,
+    createdAt: "2024-01-15T10:00:00Z",
+    updatedAt: "2024-01-15T10:00:00Z",
+    htmlUrl: "https://github.com/owner/repo/security/secret-scanning/1",
     rawJson: JSON.stringify({ number: 1 }),
     ...overrides,
   };
@@ -170,6 +286,32 @@ describe("getRepoAlerts", () => {
     const { alerts: sorted } = getRepoAlerts(db, "owner/repo");
     expect(sorted.map((a) => a.severity)).toEqual(["critical", "high", "low"]);
   });
+
+  it("filters by state and returns the dismissal fields", () => {
+    const alerts = [
+      makeAlert({ alertNumber: 1 }),
+      makeAlert({
+        alertNumber: 2,
+        state: "dismissed",
+        dismissedAt: "2024-02-10T00:00:00Z",
+        dismissedReason: "not_used",
+        dismissedComment: "Dev dependency",
+        dismissedBy: "alice",
+      }),
+      makeAlert({ alertNumber: 3, state: "fixed", fixedAt: "2024-02-20T00:00:00Z" }),
+    ];
+    saveAlerts(db, "owner/repo", alerts, "2024-03-01T00:00:00Z");
+
+    const { alerts: dismissed } = getRepoAlerts(db, "owner/repo", { state: "dismissed" });
+    expect(dismissed).toHaveLength(1);
+    expect(dismissed[0]).toMatchObject({
+      alertNumber: 2,
+      dismissedReason: "not_used",
+      dismissedComment: "Dev dependency",
+      dismissedBy: "alice",
+    });
+    expect(getRepoAlerts(db, "owner/repo").alerts).toHaveLength(3);
+  });
 });
 
 // --- getGlobalSummary ---
@@ -199,6 +341,31 @@ describe("getGlobalSummary", () => {
     expect(summary.severityCounts.high).toBe(2);
   });
 
+  it("combines sources and splits counts by source", () => {
+    saveAlerts(
+      db,
+      "owner/repo",
+      [makeAlert({ alertNumber: 1, severity: "high" })],
+      "2024-03-01T00:00:00Z"
+    );
+    saveCodeScanningAlerts(
+      db,
+      "owner/repo",
+      [
+        makeCodeScanningAlert({ alertNumber: 1, severity: "high" }),
+        makeCodeScanningAlert({ alertNumber: 2, severity: "medium", state: "fixed" }),
+      ],
+      "2024-03-01T00:00:00Z"
+    );
+
+    const summary = getGlobalSummary(db);
+    expect(summary.totalRepos).toBe(1);
+    expect(summary.totalAlerts).toBe(2);
+    expect(summary.severityCounts.high).toBe(2);
+    expect(summary.sourceCounts.dependabot).toEqual({ high: 1 });
+    expect(summary.sourceCounts.code_scanning).toEqual({ high: 1 });
+  });
+
   it("handles empty database", () => {
     const summary = getGlobalSummary(db);
     expect(summary.totalRepos).toBe(0);
@@ -207,6 +374,164 @@ describe("getGlobalSummary", () => {
   });
 });
 
+// --- saveCodeScanningAlerts ---
+
+describe("saveCodeScanningAlerts", () => {
+  it("stores alerts and returns them most severe first", () => {
+    saveCodeScanningAlerts(
+      db,
+      "owner/repo",
+      [
+        makeCodeScanningAlert({ alertNumber: 1, severity: "low" }),
+        makeCodeScanningAlert({ alertNumber: 2, severity: "critical" }),
+      ],
+      "2024-03-01T00:00:00Z"
+    );
+
+    const alerts = getCodeScanningAlerts(db, "owner/repo");
+    expect(alerts.map((a) => a.alertNumber)).toEqual([2, 1]);
+    expect(alerts[0].ruleId).toBe("js/sql-injection");
+  });
+
+  it("only records history when state or severity changes", () => {
+    const alert = makeCodeScanningAlert();
+    saveCodeScanningAlerts(db, "owner/repo", [alert], "2024-03-01T00:00:00Z");
+    saveCodeScanningAlerts(db, "owner/repo", [alert], "2024-03-02T00:00:00Z");
+    saveCodeScanningAlerts(
+      db,
+      "owner/repo",
+      [{ ...alert, state: "fixed" }],
+      "2024-03-03T00:00:00Z"
+    );
+
+    const count = db
+      .prepare("SELECT COUNT(*) as n FROM code_scanning_history")
+      .get() as { n: number };
+    expect(count.n).toBe(2);
+  });
+
+  it("is cleared by removeRepo", () => {
+    saveAlerts(db, "owner/repo", [makeAlert()], "2024-03-01T00:00:00Z");
+    saveCodeScanningAlerts(db, "owner/repo", [makeCodeScanningAlert()], "2024-03-01T00:00:00Z");
+
+    removeRepo(db, "owner/repo");
+    expect(getCodeScanningAlerts(db, "owner/repo")).toHaveLength(0);
+  });
+});
+
+// --- secret scanning ---
+
+describe("saveSecretScanningAlerts", () => {
+  it("stores alerts and round-trips the push protection flag", () => {
+    saveSecretScanningAlerts(
+      db,
+      "owner/repo",
+      [makeSecretAlert({ pushProtectionBypassed: true, pushProtectionBypassedBy: "octocat" })],
+      "2024-03-01T00:00:00Z"
+    );
+
+    const [alert] = getSecretScanningAlerts(db, "owner/repo");
+    expect(alert.pushProtectionBypassed).toBe(true);
+    expect(alert.pushProtectionBypassedBy).toBe("octocat");
+  });
+
+  it("records history on state and validity transitions only", () => {
+    const alert = makeSecretAlert();
+    saveSecretScanningAlerts(db, "owner/repo", [alert], "2024-03-01T00:00:00Z");
+    saveSecretScanningAlerts(db, "owner/repo", [alert], "2024-03-02T00:00:00Z");
+    saveSecretScanningAlerts(
+      db,
+      "owner/repo",
+      [{ ...alert, validity: "inactive" }],
+      "2024-03-03T00:00:00Z"
+    );
+    saveSecretScanningAlerts(
+      db,
+      "owner/repo",
+      [{ ...alert, validity: "inactive", state: "resolved", resolution: "revoked" }],
+      "2024-03-04T00:00:00Z"
+    );
+
+    const rows = db
+      .prepare("SELECT state, validity FROM secret_scanning_history ORDER BY id")
+      .all();
+    expect(rows).toEqual([
+      { state: "open", validity: "active" },
+      { state: "open", validity: "inactive" },
+      { state: "resolved", validity: "inactive" },
+    ]);
+  });
+});
+
+describe("getSecretMttrMetrics", () => {
+  it("measures time from first open to first resolved", () => {
+    const alert = makeSecretAlert();
+    saveSecretScanningAlerts(db, "owner/repo", [alert], "2024-03-01T00:00:00Z");
+    saveSecretScanningAlerts(
+      db,
+      "owner/repo",
+      [{ ...alert, state: "resolved" }],
+      "2024-03-03T00:00:00Z"
+    );
+
+    const metrics = getSecretMttrMetrics(db);
+    expect(metrics).toEqual([{ repo: "owner/repo", avgDays: 2, resolvedCount: 1 }]);
+    expect(getSecretMttrMetrics(db, "owner/other")).toHaveLength(0);
+  });
+});
+
+describe("getSecretSlaViolations", () => {
+  it("flags open secrets older than the limit and skips resolved ones", () => {
+    saveSecretScanningAlerts(
+      db,
+      "owner/repo",
+      [
+        makeSecretAlert({ alertNumber: 1 }),
+        makeSecretAlert({ alertNumber: 2, state: "resolved" }),
+      ],
+      "2023-01-01T00:00:00Z"
+    );
+
+    const violations = getSecretSlaViolations(db);
+    expect(violations).toHaveLength(1);
+    expect(violations[0].alertNumber).toBe(1);
+    expect(violations[0].slaLimitDays).toBe(1);
+    expect(violations[0].overdue).toBe(true);
+  });
+});
+
+// --- sync cache ---
+
+describe("cache validators", () => {
+  it("stores and replaces validators per repo and source", () => {
+    expect(getCacheValidators(db, "owner/repo", "dependabot")).toBeNull();
+
+    saveCacheValidators(db, "owner/repo", "dependabot", { etag: '"a"', lastModified: null });
+    saveCacheValidators(db, "owner/repo", "dependabot", { etag: '"b"', lastModified: null });
+    saveCacheValidators(db, "owner/repo", "code_scanning", { etag: '"c"', lastModified: null });
+
+    expect(getCacheValidators(db, "owner/repo", "dependabot")).toEqual({ etag: '"b"', lastModified: null });
+    expect(getCacheValidators(db, "owner/repo", "code_scanning")?.etag).toBe('"c"');
+  });
+
+  it("is cleared by removeRepo", () => {
+    saveCacheValidators(db, "owner/repo", "dependabot", { etag: '"a"', lastModified: null });
+    removeRepo(db, "owner/repo");
+    expect(getCacheValidators(db, "owner/repo", "dependabot")).toBeNull();
+  });
+});
+
+describe("touchRepoSync", () => {
+  it("bumps last_sync without touching alerts", () => {
+    saveAlerts(db, "owner/repo", [makeAlert()], "2024-03-01T00:00:00Z");
+    touchRepoSync(db, "owner/repo", "2024-03-02T00:00:00Z");
+
+    const cached = getCachedAlerts(db, "owner/repo");
+    expect(cached.lastSync).toBe("2024-03-02T00:00:00Z");
+    expect(cached.alerts).toHaveLength(1);
+  });
+});
+
 // --- getAllRepoSummaries ---
 
 describe("getAllRepoSummaries", () => {
@@ -251,6 +576,43 @@ describe("getAllRepoSummaries", () => {
     expect(summaries).toHaveLength(1);
     expect(summaries[0].totalAlerts).toBe(0);
   });
+
+  it("keeps the same owner/name on two hosts apart", () => {
+    saveAlerts(db, "owner/repo", [makeAlert({ repo: "owner/repo", alertNumber: 1 })], "2024-03-01T00:00:00Z");
+    saveAlerts(
+      db,
+      "ghes:owner/repo",
+      [makeAlert({ repo: "ghes:owner/repo", alertNumber: 1 })],
+      "2024-03-01T00:00:00Z"
+    );
+
+    const summaries = getAllRepoSummaries(db);
+    expect(summaries.map((s) => [s.repo, s.host, s.totalAlerts])).toEqual([
+      ["ghes:owner/repo", "ghes", 1],
+      ["owner/repo", "github.com", 1],
+    ]);
+  });
+
+  it("includes code scanning alerts in per-source counts", () => {
+    saveAlerts(
+      db,
+      "owner/repo",
+      [makeAlert({ alertNumber: 1, severity: "low" })],
+      "2024-03-01T00:00:00Z"
+    );
+    saveCodeScanningAlerts(
+      db,
+      "owner/repo",
+      [makeCodeScanningAlert({ alertNumber: 1, severity: "critical" })],
+      "2024-03-01T00:00:00Z"
+    );
+
+    const [summary] = getAllRepoSummaries(db);
+    expect(summary.totalAlerts).toBe(2);
+    expect(summary.severityCounts).toEqual({ critical: 1, low: 1 });
+    expect(summary.sourceCounts.code_scanning).toEqual({ critical: 1 });
+    expect(summary.sourceCounts.dependabot).toEqual({ low: 1 });
+  });
 });
 
 // --- getTrendData ---
@@ -294,6 +656,113 @@ describe("getTrendData", () => {
       expect(point.high).toBe(0);
     }
   });
+
+  it("carries each repo's open counts forward over days without a sync", () => {
+    saveAlerts(
+      db,
+      "owner/repo",
+      [
+        makeAlert({ alertNumber: 1, severity: "critical" }),
+        makeAlert({ alertNumber: 2, severity: "high" }),
+      ],
+      "2024-03-01T09:00:00Z"
+    );
+    saveAlerts(
+      db,
+      "owner/other",
+      [makeAlert({ repo: "owner/other", alertNumber: 1, severity: "high" })],
+      "2024-03-02T09:00:00Z"
+    );
+    saveAlerts(
+      db,
+      "owner/repo",
+      [
+        makeAlert({ alertNumber: 1, severity: "critical", state: "fixed" }),
+        makeAlert({ alertNumber: 2, severity: "high" }),
+      ],
+      "2024-03-04T09:00:00Z"
+    );
+
+    const trends = getTrendData(db);
+    expect(trends.slice(0, 4)).toEqual([
+      { day: "2024-03-01", critical: 1, high: 1, medium: 0, low: 0 },
+      { day: "2024-03-02", critical: 1, high: 2, medium: 0, low: 0 },
+      { day: "2024-03-03", critical: 1, high: 2, medium: 0, low: 0 },
+      { day: "2024-03-04", critical: 0, high: 2, medium: 0, low: 0 },
+    ]);
+    // The last sync's counts continue through today
+    expect(trends[trends.length - 1]).toMatchObject({ critical: 0, high: 2 });
+    expect(trends[trends.length - 1].day).toBe(new Date().toISOString().slice(0, 10));
+  });
+
+  it("limits trends to a range and buckets them by week or month", () => {
+    saveAlerts(
+      db,
+      "owner/repo",
+      [
+        makeAlert({ alertNumber: 1, severity: "critical" }),
+        makeAlert({ alertNumber: 2, severity: "high" }),
+      ],
+      "2024-03-01T09:00:00Z"
+    );
+    saveAlerts(
+      db,
+      "owner/repo",
+      [
+        makeAlert({ alertNumber: 1, severity: "critical", state: "fixed" }),
+        makeAlert({ alertNumber: 2, severity: "high" }),
+      ],
+      "2024-03-04T09:00:00Z"
+    );
+
+    expect(getTrendData(db, null, null, { from: "2024-03-02", to: "2024-03-03" })).toEqual([
+      { day: "2024-03-02", critical: 1, high: 1, medium: 0, low: 0 },
+      { day: "2024-03-03", critical: 1, high: 1, medium: 0, low: 0 },
+    ]);
+    // Each week counts the backlog on its last day; 2024-03-04 is a Monday
+    expect(
+      getTrendData(db, null, null, { from: "2024-02-26", to: "2024-03-10", bucket: "week" })
+    ).toEqual([
+      { day: "2024-02-26", critical: 1, high: 1, medium: 0, low: 0 },
+      { day: "2024-03-04", critical: 0, high: 1, medium: 0, low: 0 },
+    ]);
+    expect(
+      getTrendData(db, null, null, { from: "2024-02-01", to: "2024-03-31", bucket: "month" })
+    ).toEqual([{ day: "2024-03-01", critical: 0, high: 1, medium: 0, low: 0 }]);
+  });
+
+  it("clamps the trend range to the first snapshot through today", () => {
+    const yesterday = new Date(Date.now() - 86_400_000).toISOString();
+    saveAlerts(db, "owner/repo", [makeAlert({ severity: "high" })], yesterday);
+
+    const trend = getTrendData(db, null, null, { from: "0001-01-01", to: "9999-12-31" });
+
+    expect(trend.map((p) => p.day)).toEqual([
+      yesterday.slice(0, 10),
+      new Date().toISOString().slice(0, 10),
+    ]);
+    expect(getTrendData(db, null, null, { to: "2000-01-01" })).toEqual([]);
+  });
+
+  it("rebuilds the same snapshots from alert history", () => {
+    saveAlerts(db, "owner/repo", [makeAlert({ alertNumber: 1 })], "2024-03-01T09:00:00Z");
+    saveAlerts(
+      db,
+      "owner/repo",
+      [
+        makeAlert({ alertNumber: 1, state: "dismissed" }),
+        makeAlert({ alertNumber: 2, severity: "low" }),
+      ],
+      "2024-03-05T09:00:00Z"
+    );
+    const before = getTrendData(db);
+
+    db.prepare("DELETE FROM daily_snapshots").run();
+    expect(getTrendData(db)).toEqual([]);
+
+    rebuildDailySnapshots(db);
+    expect(getTrendData(db)).toEqual(before);
+  });
 });
 
 // --- getMttrMetrics ---
@@ -334,6 +803,101 @@ describe("getMttrMetrics", () => {
     const metrics = getMttrMetrics(db);
     expect(metrics).toHaveLength(0);
   });
+
+  it("keeps alerts resolved in the range and splits them per bucket", () => {
+    const alerts = (first: string, second: string) => [
+      makeAlert({ alertNumber: 1, state: first }),
+      makeAlert({ alertNumber: 2, state: second }),
+    ];
+    saveAlerts(db, "owner/repo", alerts("open", "open"), "2024-01-01T00:00:00Z");
+    saveAlerts(db, "owner/repo", alerts("fixed", "open"), "2024-01-11T00:00:00Z");
+    saveAlerts(db, "owner/repo", alerts("fixed", "dismissed"), "2024-02-05T00:00:00Z");
+
+    expect(getMttrMetrics(db, null, null, { from: "2024-02-01" })).toEqual([
+      { repo: "owner/repo", severity: "high", avgDays: 35, resolvedCount: 1 },
+    ]);
+    expect(
+      getMttrMetrics(db, null, null, { bucket: "month" }).map((m) => [m.period, m.avgDays])
+    ).toEqual([
+      ["2024-01-01", 10],
+      ["2024-02-01", 35],
+    ]);
+  });
+});
+
+// --- getMttrDistribution ---
+
+describe("getMttrDistribution", () => {
+  const states = (...list: string[]) =>
+    list.map((state, i) => makeAlert({ alertNumber: i + 1, state, severity: "high" }));
+
+  it("reports mean, median, p75 and p90 overall and per resolution", () => {
+    saveAlerts(db, "owner/repo", states("open", "open", "open", "open", "open"), "2024-01-01T00:00:00Z");
+    saveAlerts(db, "owner/repo", states("fixed", "open", "open", "open", "open"), "2024-01-03T00:00:00Z");
+    saveAlerts(db, "owner/repo", states("fixed", "fixed", "open", "open", "open"), "2024-01-05T00:00:00Z");
+    saveAlerts(db, "owner/repo", states("fixed", "fixed", "fixed", "open", "open"), "2024-01-11T00:00:00Z");
+    saveAlerts(
+      db,
+      "owner/repo",
+      states("fixed", "fixed", "fixed", "dismissed", "open"),
+      "2024-02-10T00:00:00Z"
+    );
+    saveAlerts(
+      db,
+      "owner/repo",
+      states("fixed", "fixed", "fixed", "dismissed", "dismissed"),
+      "2024-12-26T00:00:00Z"
+    );
+
+    const { severities, periods } = getMttrDistribution(db);
+    expect(severities).toEqual([
+      {
+        severity: "high",
+        all: { resolvedCount: 5, meanDays: 83.2, medianDays: 10, p75Days: 40, p90Days: 232 },
+        fixed: { resolvedCount: 3, meanDays: 5.3, medianDays: 4, p75Days: 7, p90Days: 8.8 },
+        dismissed: { resolvedCount: 2, meanDays: 200, medianDays: 200, p75Days: 280, p90Days: 328 },
+      },
+    ]);
+    expect(periods.map((p) => [p.period, p.resolvedCount, p.medianDays])).toEqual([
+      ["2024-01-01", 3, 4],
+      ["2024-02-01", 1, 40],
+      ["2024-12-01", 1, 360],
+    ]);
+  });
+
+  it("counts a reopened alert once, at its first resolution", () => {
+    saveAlerts(db, "owner/repo", states("open"), "2024-01-01T00:00:00Z");
+    saveAlerts(db, "owner/repo", states("fixed"), "2024-01-03T00:00:00Z");
+    saveAlerts(db, "owner/repo", states("open"), "2024-01-05T00:00:00Z");
+    saveAlerts(db, "owner/repo", states("dismissed"), "2024-01-09T00:00:00Z");
+
+    const [high] = getMttrDistribution(db).severities;
+    expect(high.all).toMatchObject({ resolvedCount: 1, medianDays: 2 });
+    expect(high.dismissed).toEqual({
+      resolvedCount: 0,
+      meanDays: null,
+      medianDays: null,
+      p75Days: null,
+      p90Days: null,
+    });
+  });
+
+  it("keeps alerts resolved in the range", () => {
+    saveAlerts(db, "owner/repo", states("open", "open"), "2024-01-01T00:00:00Z");
+    saveAlerts(db, "owner/repo", states("fixed", "open"), "2024-01-11T00:00:00Z");
+    saveAlerts(db, "owner/repo", states("fixed", "fixed"), "2024-03-01T00:00:00Z");
+
+    const { severities, periods } = getMttrDistribution(db, null, null, {
+      from: "2024-02-01",
+      bucket: "week",
+    });
+    expect(severities[0].all).toMatchObject({ resolvedCount: 1, medianDays: 60 });
+    expect(periods.map((p) => p.period)).toEqual(["2024-02-26"]);
+    expect(getMttrDistribution(db, null, null, { to: "2023-12-31" })).toEqual({
+      severities: [],
+      periods: [],
+    });
+  });
 });
 
 // --- getSlaViolations ---
@@ -372,6 +936,29 @@ describe("getSlaViolations", () => {
     expect(v?.overdue).toBe(false);
   });
 
+  it("includes code scanning alerts and filters by source", () => {
+    saveAlerts(
+      db,
+      "owner/repo",
+      [makeAlert({ alertNumber: 1, severity: "high" })],
+      "2023-01-01T00:00:00Z"
+    );
+    saveCodeScanningAlerts(
+      db,
+      "owner/repo",
+      [makeCodeScanningAlert({ alertNumber: 1, severity: "high" })],
+      "2023-01-01T00:00:00Z"
+    );
+
+    const all = getSlaViolations(db);
+    expect(all.map((v) => v.source).sort()).toEqual(["code_scanning", "dependabot"]);
+
+    const codeScanning = getSlaViolations(db, undefined, { source: "code_scanning" });
+    expect(codeScanning).toHaveLength(1);
+    expect(codeScanning[0].ruleId).toBe("js/sql-injection");
+    expect(codeScanning[0].packageName).toBeNull();
+  });
+
   it("returns empty when no open alerts exist", () => {
     const violations = getSlaViolations(db);
     expect(violations).toHaveLength(0);
@@ -656,3 +1243,1160 @@ describe("saveDependencyChains", () => {
     expect(plan[0].directDependency).toBe("new-parent");
   });
 });
+
+describe("repo sync errors", () => {
+  it("surfaces the last error in repo summaries until cleared", () => {
+    saveAlerts(db, "owner/repo", [makeAlert()], "2024-03-01T00:00:00Z");
+    recordRepoSyncError(db, "owner/repo", {
+      kind: "dependabot_disabled",
+      message: "Dependabot alerts are disabled for this repository.",
+      occurredAt: "2024-03-02T00:00:00Z",
+    });
+
+    const [summary] = getAllRepoSummaries(db);
+    expect(summary.lastError).toEqual({
+      kind: "dependabot_disabled",
+      message: "Dependabot alerts are disabled for this repository.",
+      occurredAt: "2024-03-02T00:00:00Z",
+    });
+    expect(summary.lastSync).toBe("2024-03-01T00:00:00Z");
+    expect(summary.totalAlerts).toBe(1);
+
+    clearRepoSyncError(db, "owner/repo");
+    expect(getAllRepoSummaries(db)[0].lastError).toBeNull();
+  });
+
+  it("tracks a repo whose first sync failed, without a sync time", () => {
+    const error = {
+      kind: "not_found" as const,
+      message: "Not Found",
+      occurredAt: "2024-03-02T00:00:00Z",
+    };
+    recordRepoSyncError(db, "owner/repo", error);
+
+    expect(getAllRepoSummaries(db)).toMatchObject([
+      { repo: "owner/repo", lastSync: null, lastError: error, totalAlerts: 0 },
+    ]);
+    expect(getCachedAlerts(db, "owner/repo")).toEqual({
+      alerts: [],
+      lastSync: null,
+      hasCache: false,
+    });
+
+    saveAlerts(db, "owner/repo", [makeAlert()], "2024-03-03T00:00:00Z");
+    expect(getAllRepoSummaries(db)[0]).toMatchObject({
+      lastSync: "2024-03-03T00:00:00Z",
+      lastError: error,
+    });
+  });
+
+  it("reports a repo as tracked once it has a sync row", () => {
+    expect(isRepoTracked(db, "owner/repo")).toBe(false);
+    recordRepoSyncError(db, "owner/repo", {
+      kind: "not_found",
+      message: "Not Found",
+      occurredAt: "2024-03-02T00:00:00Z",
+    });
+    expect(isRepoTracked(db, "owner/repo")).toBe(true);
+    expect(isRepoTracked(db, "owner/other")).toBe(false);
+  });
+});
+
+describe("sync runs", () => {
+  function recordRun(triggeredBy: "cron" | "manual" | "api", startedAt: string) {
+    const runId = startSyncRun(db, triggeredBy, 2, startedAt);
+    recordSyncRunRepo(db, {
+      runId,
+      repo: "owner/a",
+      outcome: "updated",
+      error: null,
+      startedAt,
+      finishedAt: startedAt,
+      openBefore: 3,
+      openAfter: 5,
+    });
+    recordSyncRunRepo(db, {
+      runId,
+      repo: "owner/b",
+      outcome: "failed",
+      error: "GitHub API request failed",
+      startedAt,
+      finishedAt: startedAt,
+      openBefore: 1,
+      openAfter: 1,
+    });
+    finishSyncRun(db, runId, { status: "completed", refreshed: 1, unchanged: 0, failed: 1 }, startedAt);
+    return runId;
+  }
+
+  it("records a run with per-repo outcomes and alert deltas", () => {
+    const runId = recordRun("cron", "2024-03-01T00:00:00Z");
+
+    const run = getSyncRun(db, runId);
+    expect(run).toMatchObject({
+      triggeredBy: "cron",
+      status: "completed",
+      total: 2,
+      refreshed: 1,
+      failed: 1,
+      finishedAt: "2024-03-01T00:00:00Z",
+    });
+    expect(run!.repos.map((r) => [r.repo, r.outcome, r.alertDelta])).toEqual([
+      ["owner/b", "failed", 0],
+      ["owner/a", "updated", 2],
+    ]);
+    expect(getSyncRun(db, runId + 1)).toBeNull();
+  });
+
+  it("pages runs newest first and filters by trigger", () => {
+    recordRun("cron", "2024-03-01T00:00:00Z");
+    recordRun("manual", "2024-03-02T00:00:00Z");
+    recordRun("cron", "2024-03-03T00:00:00Z");
+
+    const page = getSyncRuns(db, { limit: 2, offset: 0 });
+    expect(page.total).toBe(3);
+    expect(page.runs.map((r) => r.startedAt)).toEqual([
+      "2024-03-03T00:00:00Z",
+      "2024-03-02T00:00:00Z",
+    ]);
+
+    const cron = getSyncRuns(db, { limit: 10, offset: 1, triggeredBy: "cron" });
+    expect(cron.total).toBe(2);
+    expect(cron.runs.map((r) => r.startedAt)).toEqual(["2024-03-01T00:00:00Z"]);
+    expect(getLatestSyncRun(db, "manual")?.startedAt).toBe("2024-03-02T00:00:00Z");
+    expect(getLatestSyncRun(db, "api")).toBeNull();
+  });
+
+  it("returns a repo's history across runs", () => {
+    recordRun("cron", "2024-03-01T00:00:00Z");
+    recordRun("api", "2024-03-02T00:00:00Z");
+
+    const history = getRepoSyncRuns(db, "owner/a");
+    expect(history.map((r) => [r.triggeredBy, r.startedAt])).toEqual([
+      ["api", "2024-03-02T00:00:00Z"],
+      ["cron", "2024-03-01T00:00:00Z"],
+    ]);
+  });
+
+  it("marks runs left running as interrupted", () => {
+    const runId = startSyncRun(db, "cron", 4);
+
+    expect(markInterruptedSyncRuns(db)).toBe(1);
+    expect(getSyncRun(db, runId)?.status).toBe("interrupted");
+  });
+
+  it("counts open alerts across sources", () => {
+    saveAlerts(db, "owner/repo", [
+      makeAlert({ alertNumber: 1 }),
+      makeAlert({ alertNumber: 2, state: "fixed" }),
+    ], "2024-03-01T00:00:00Z");
+    saveCodeScanningAlerts(db, "owner/repo", [makeCodeScanningAlert()], "2024-03-01T00:00:00Z");
+    saveSecretScanningAlerts(
+      db,
+      "owner/repo",
+      [makeSecretAlert(), makeSecretAlert({ alertNumber: 2, state: "resolved" })],
+      "2024-03-01T00:00:00Z"
+    );
+
+    expect(countOpenAlerts(db, "owner/repo")).toBe(3);
+  });
+});
+
+describe("watch targets", () => {
+  it("adds targets with defaults and ignores case-insensitive duplicates", () => {
+    const target = addWatchTarget(db, { type: "org", name: "Acme" }, "2024-03-01T00:00:00Z");
+    expect(target).toEqual({
+      id: expect.any(Number),
+      host: "github.com",
+      type: "org",
+      name: "Acme",
+      includeForks: false,
+      includeArchived: false,
+      namePattern: null,
+      createdAt: "2024-03-01T00:00:00Z",
+      lastCheckedAt: null,
+      lastError: null,
+    });
+
+    expect(addWatchTarget(db, { type: "org", name: "acme" })).toBeNull();
+    expect(addWatchTarget(db, { type: "user", name: "acme" })).not.toBeNull();
+    expect(addWatchTarget(db, { type: "org", name: "acme", host: "ghes" })).not.toBeNull();
+    expect(getWatchTargets(db)).toHaveLength(3);
+  });
+
+  it("records checks and removes targets, surviving a database reset", () => {
+    const target = addWatchTarget(db, { type: "user", name: "octocat" })!;
+    recordWatchTargetCheck(db, target.id, "Failed to list repositories", "2024-03-02T00:00:00Z");
+
+    clearDatabase(db);
+    const [stored] = getWatchTargets(db);
+    expect(stored.lastCheckedAt).toBe("2024-03-02T00:00:00Z");
+    expect(stored.lastError).toBe("Failed to list repositories");
+
+    expect(removeWatchTarget(db, target.id)).toBe(true);
+    expect(removeWatchTarget(db, target.id)).toBe(false);
+  });
+
+  it("flags repos archived or deleted upstream in summaries", () => {
+    saveAlerts(db, "owner/repo", [makeAlert()], "2024-03-01T00:00:00Z");
+    expect(getAllRepoSummaries(db)[0].upstreamState).toBeNull();
+
+    setUpstreamState(db, "owner/repo", "archived");
+    expect(getAllRepoSummaries(db)[0].upstreamState).toBe("archived");
+
+    setUpstreamState(db, "owner/repo", null);
+    expect(getAllRepoSummaries(db)[0].upstreamState).toBeNull();
+  });
+});
+
+describe("repo metadata", () => {
+  const metadata = {
+    topics: ["production", "payments"],
+    visibility: "private" as const,
+    archived: false,
+    defaultBranch: "main",
+    language: "Go",
+    updatedAt: "2024-03-01T00:00:00Z",
+  };
+
+  it("is null until stored, then returned with the summary", () => {
+    saveAlerts(db, "owner/repo", [makeAlert()], "2024-03-01T00:00:00Z");
+    expect(getAllRepoSummaries(db)[0].metadata).toBeNull();
+
+    saveRepoMetadata(db, "owner/repo", metadata);
+    saveRepoMetadata(db, "owner/repo", { ...metadata, archived: true });
+    expect(getAllRepoSummaries(db)[0].metadata).toEqual({ ...metadata, archived: true });
+  });
+
+  it("is removed with the repo", () => {
+    saveAlerts(db, "owner/repo", [makeAlert()], "2024-03-01T00:00:00Z");
+    saveRepoMetadata(db, "owner/repo", metadata);
+
+    removeRepo(db, "owner/repo");
+    saveAlerts(db, "owner/repo", [makeAlert()], "2024-03-02T00:00:00Z");
+    expect(getAllRepoSummaries(db)[0].metadata).toBeNull();
+  });
+});
+
+describe("repo groups", () => {
+  function seedTwoRepos() {
+    saveAlerts(
+      db,
+      "owner/repo-a",
+      [makeAlert({ repo: "owner/repo-a", alertNumber: 1, severity: "critical" })],
+      "2023-01-01T00:00:00Z"
+    );
+    saveAlerts(
+      db,
+      "owner/repo-b",
+      [makeAlert({ repo: "owner/repo-b", alertNumber: 1, severity: "high" })],
+      "2023-01-01T00:00:00Z"
+    );
+  }
+
+  it("creates, renames and deletes groups, rejecting duplicate names", () => {
+    const group = createRepoGroup(
+      db,
+      { name: "Payments", repos: ["owner/repo-a"] },
+      "manual",
+      "2024-03-01T00:00:00Z"
+    );
+    expect(group).toEqual({
+      id: expect.any(Number),
+      name: "Payments",
+      description: null,
+      source: "manual",
+      repos: ["owner/repo-a"],
+      createdAt: "2024-03-01T00:00:00Z",
+    });
+    expect(createRepoGroup(db, { name: "payments" })).toBeNull();
+
+    const updated = updateRepoGroup(db, group!.id, { name: "Billing", repos: ["owner/repo-b"] });
+    expect(updated).toMatchObject({ name: "Billing", repos: ["owner/repo-b"] });
+    expect(updateRepoGroup(db, 999, { name: "Nope" })).toBeNull();
+
+    expect(deleteRepoGroup(db, group!.id)).toBe(true);
+    expect(deleteRepoGroup(db, group!.id)).toBe(false);
+    expect(getRepoGroups(db)).toEqual([]);
+  });
+
+  it("lists each repo's groups in summaries and survives a database reset", () => {
+    seedTwoRepos();
+    createRepoGroup(db, { name: "Payments", repos: ["owner/repo-a"] });
+    createRepoGroup(db, { name: "Core", repos: ["owner/repo-a", "owner/repo-b"] });
+
+    const groups = Object.fromEntries(getAllRepoSummaries(db).map((s) => [s.repo, s.groups]));
+    expect(groups).toEqual({
+      "owner/repo-a": ["Core", "Payments"],
+      "owner/repo-b": ["Core"],
+    });
+
+    clearDatabase(db);
+    expect(getRepoGroups(db).map((g) => g.name)).toEqual(["Core", "Payments"]);
+  });
+
+  it("refreshes the repos of an imported team on re-import", () => {
+    const first = saveTeamGroup(db, "acme/payments", "Payments team", ["acme/billing"]);
+    const second = saveTeamGroup(db, "acme/payments", "Payments team", ["acme/ledger"]);
+
+    expect(second.id).toBe(first.id);
+    expect(second).toMatchObject({ source: "github_team", repos: ["acme/ledger"] });
+  });
+
+  it("limits analytics to a group's repos", () => {
+    seedTwoRepos();
+    saveAlerts(
+      db,
+      "owner/repo-b",
+      [makeAlert({ repo: "owner/repo-b", alertNumber: 1, state: "fixed", severity: "high" })],
+      "2023-01-11T00:00:00Z"
+    );
+    const group = createRepoGroup(db, { name: "Payments", repos: ["owner/repo-a"] })!;
+
+    for (const point of getTrendData(db, undefined, group.id)) {
+      expect(point.high).toBe(0);
+    }
+    expect(getMttrMetrics(db, undefined, group.id)).toEqual([]);
+    expect(getSlaViolations(db, undefined, { groupId: group.id }).map((v) => v.repo)).toEqual([
+      "owner/repo-a",
+    ]);
+    expect(getFixAdvisor(db, null, { groupId: group.id }).totalAlerts).toBe(1);
+  });
+
+  it("rolls up open, overdue and MTTR per group with an Unassigned row", () => {
+    seedTwoRepos();
+    saveAlerts(db, "owner/repo-c", [], "2023-01-01T00:00:00Z");
+    createRepoGroup(db, { name: "Payments", repos: ["owner/repo-a", "owner/untracked"] });
+    createRepoGroup(db, { name: "Platform", repos: ["owner/repo-b"] });
+
+    const rollups = getGroupRollups(db);
+    expect(rollups.map((r) => [r.name, r.repoCount, r.totalAlerts, r.overdue])).toEqual([
+      ["Payments", 1, 1, 1],
+      ["Platform", 1, 1, 1],
+      ["Unassigned", 1, 0, 0],
+    ]);
+    expect(rollups[0].severityCounts).toMatchObject({ critical: 1 });
+    expect(rollups[2].groupId).toBeNull();
+  });
+});
+
+describe("alert owners", () => {
+  const codeowners = {
+    path: ".github/CODEOWNERS",
+    content: ["* @acme/core", "/services/billing/ @acme/payments", "src/ @acme/web"].join("\n"),
+  };
+
+  function seedOwnedAlerts() {
+    saveAlerts(
+      db,
+      "owner/repo",
+      [
+        makeAlert({ alertNumber: 1, manifestPath: "services/billing/package.json" }),
+        makeAlert({ alertNumber: 2, manifestPath: "go.mod", packageName: "golang.org/x/net" }),
+        makeAlert({ alertNumber: 3, manifestPath: null, packageName: "left-pad" }),
+      ],
+      "2023-01-01T00:00:00Z"
+    );
+    saveCodeScanningAlerts(db, "owner/repo", [makeCodeScanningAlert()], "2023-01-01T00:00:00Z");
+    saveCodeowners(db, "owner/repo", codeowners, "2024-03-01T00:00:00Z");
+    resolveAlertOwners(db, "owner/repo");
+  }
+
+  it("resolves each alert's owners from its manifest path", () => {
+    seedOwnedAlerts();
+
+    const owners = Object.fromEntries(
+      getRepoAlerts(db, "owner/repo").alerts.map((a) => [a.alertNumber, a.owners])
+    );
+    expect(owners).toEqual({ 1: ["@acme/payments"], 2: ["@acme/core"], 3: [] });
+    expect(getCodeowners(db, "owner/repo")).toEqual({ ...codeowners, fetchedAt: "2024-03-01T00:00:00Z" });
+  });
+
+  it("filters alerts, SLA violations and the fix advisor by owner", () => {
+    seedOwnedAlerts();
+
+    const alerts = getRepoAlerts(db, "owner/repo", { owner: "@ACME/payments" }).alerts;
+    expect(alerts.map((a) => a.alertNumber)).toEqual([1]);
+
+    const sla = getSlaViolations(db, undefined, { owner: "@acme/web" });
+    expect(sla.map((v) => [v.source, v.alertNumber])).toEqual([["code_scanning", 1]]);
+
+    const advisor = getFixAdvisor(db, "owner/repo", { owner: "@acme/core" });
+    expect(advisor.totalAlerts).toBe(1);
+    expect(getFixAdvisor(db, null, { owner: "@nobody" }).totalAlerts).toBe(0);
+  });
+
+  it("clears owners once the repo has no CODEOWNERS", () => {
+    seedOwnedAlerts();
+
+    saveCodeowners(db, "owner/repo", null);
+    resolveAlertOwners(db, "owner/repo");
+
+    expect(getCodeowners(db, "owner/repo")).toBeNull();
+    expect(getRepoAlerts(db, "owner/repo").alerts.every((a) => a.owners.length === 0)).toBe(true);
+  });
+
+  it("is removed with the repo", () => {
+    seedOwnedAlerts();
+
+    removeRepo(db, "owner/repo");
+    expect(getCodeowners(db, "owner/repo")).toBeNull();
+    expect(getSlaViolations(db, undefined, { owner: "@acme/core" })).toEqual([]);
+  });
+});
+
+// --- SLA policy ---
+
+describe("SLA policy", () => {
+  const tiers = { critical: 1, high: 5, medium: 20, low: 60 };
+
+  it("defaults to the built-in limits and survives clearing the database", () => {
+    expect(getSlaPolicy(db)).toEqual({ defaults: DEFAULT_SLA_LIMITS, overrides: [] });
+
+    saveSlaPolicy(db, { defaults: tiers, overrides: [{ scope: "repo", repo: "owner/repo", limits: { low: 30 } }] });
+    clearDatabase(db);
+
+    expect(getSlaPolicy(db)).toEqual({
+      defaults: tiers,
+      overrides: [{ scope: "repo", repo: "owner/repo", limits: { low: 30 } }],
+    });
+  });
+
+  it("resolves repo overrides over the strictest group override over defaults", () => {
+    const policy = {
+      defaults: tiers,
+      overrides: [
+        { scope: "group" as const, groupId: 1, limits: { critical: 2, high: 10 } },
+        { scope: "group" as const, groupId: 2, limits: { high: 8, medium: 40 } },
+        { scope: "repo" as const, repo: "owner/tool", limits: { high: 15 } },
+      ],
+    };
+
+    expect(resolveSlaLimits(policy, "owner/tool", [1, 2])).toEqual({
+      critical: 2,
+      high: 15,
+      medium: 40,
+      low: 60,
+    });
+    expect(resolveSlaLimits(policy, "owner/other", [])).toEqual(tiers);
+  });
+
+  it("applies each repo's limits to SLA violations", () => {
+    saveAlerts(
+      db,
+      "owner/prod",
+      [makeAlert({ repo: "owner/prod", alertNumber: 1, severity: "high" })],
+      "2024-12-01T00:00:00Z"
+    );
+    saveAlerts(
+      db,
+      "owner/tool",
+      [makeAlert({ repo: "owner/tool", alertNumber: 1, severity: "high" })],
+      "2024-12-01T00:00:00Z"
+    );
+    const internal = createRepoGroup(db, { name: "Internal tools", repos: ["owner/tool"] })!;
+    saveSlaPolicy(db, {
+      defaults: tiers,
+      overrides: [{ scope: "group", groupId: internal.id, limits: { high: 10 } }],
+    });
+
+    const limits = Object.fromEntries(getSlaViolations(db).map((v) => [v.repo, v.slaLimitDays]));
+    expect(limits).toEqual({ "owner/prod": 5, "owner/tool": 10 });
+    expect(getSlaViolations(db, { high: 3 }).find((v) => v.repo === "owner/prod")?.slaLimitDays).toBe(3);
+  });
+
+  it("drops a group's override when the group is deleted", () => {
+    const group = createRepoGroup(db, { name: "Payments" })!;
+    saveSlaPolicy(db, {
+      defaults: tiers,
+      overrides: [{ scope: "group", groupId: group.id, limits: { critical: 1 } }],
+    });
+
+    deleteRepoGroup(db, group.id);
+    expect(getSlaPolicy(db).overrides).toEqual([]);
+  });
+});
+
+// --- getSlaCompliance ---
+
+describe("getSlaCompliance", () => {
+  function seedLifecycles() {
+    const critical = (alertNumber: number, state: string) =>
+      makeAlert({ alertNumber, severity: "critical", state });
+    saveAlerts(db, "owner/repo", [critical(1, "open"), critical(2, "open")], "2025-01-01T00:00:00Z");
+    saveAlerts(db, "owner/repo", [critical(1, "fixed"), critical(2, "open")], "2025-01-02T00:00:00Z");
+    saveAlerts(
+      db,
+      "owner/repo",
+      [critical(1, "fixed"), critical(2, "dismissed")],
+      "2025-01-10T00:00:00Z"
+    );
+    saveAlerts(
+      db,
+      "owner/repo",
+      [critical(1, "fixed"), critical(2, "dismissed"), makeAlert({ alertNumber: 3, severity: "high" })],
+      "2025-03-01T00:00:00Z"
+    );
+  }
+
+  function stat<T extends { severity: string }>(stats: T[], severity: string) {
+    return stats.find((s) => s.severity === severity);
+  }
+
+  it("reports attainment, late resolutions and breach days per quarter", () => {
+    seedLifecycles();
+
+    const report = getSlaCompliance(db, { from: "2025-01-01", to: "2025-06-30" });
+
+    expect(report.periods.map((p) => [p.period, p.from, p.to])).toEqual([
+      ["2025-Q1", "2025-01-01", "2025-03-31"],
+      ["2025-Q2", "2025-04-01", "2025-06-30"],
+    ]);
+    const [q1, q2] = report.periods;
+    expect(stat(q1.severities, "critical")).toEqual({
+      severity: "critical",
+      resolved: 2,
+      withinSla: 1,
+      late: 1,
+      attainmentRate: 0.5,
+      breachDays: 7,
+      openOverdue: 0,
+    });
+    // The high alert breached on Mar 8 and is still open
+    expect(stat(q1.severities, "high")).toMatchObject({
+      resolved: 0,
+      attainmentRate: null,
+      breachDays: 24,
+      openOverdue: 1,
+    });
+    expect(stat(q2.severities, "high")).toMatchObject({ breachDays: 91, openOverdue: 1 });
+    expect(stat(report.totals, "high")).toMatchObject({ breachDays: 115, openOverdue: 1 });
+
+    expect(report.lateResolved).toEqual([
+      {
+        repo: "owner/repo",
+        source: "dependabot",
+        alertNumber: 2,
+        severity: "critical",
+        openedAt: "2025-01-01T00:00:00Z",
+        resolvedAt: "2025-01-10T00:00:00Z",
+        slaLimitDays: 2,
+        daysLate: 7,
+      },
+    ]);
+  });
+
+  it("applies the SLA policy and leaves out alerts resolved before the range", () => {
+    seedLifecycles();
+    saveSlaPolicy(db, { defaults: { ...DEFAULT_SLA_LIMITS, critical: 10 }, overrides: [] });
+
+    const q1 = getSlaCompliance(db, { from: "2025-01-01", to: "2025-03-31" });
+    expect(stat(q1.totals, "critical")).toMatchObject({ withinSla: 2, late: 0, attainmentRate: 1 });
+    expect(q1.lateResolved).toEqual([]);
+
+    const later = getSlaCompliance(db, { from: "2025-02-01", to: "2025-03-31" });
+    expect(stat(later.totals, "critical")?.resolved).toBe(0);
+  });
+
+  it("leaves out alerts under an active risk exception", () => {
+    seedLifecycles();
+    createRiskException(db, {
+      scope: "alert",
+      repo: "owner/repo",
+      alertNumber: 2,
+      ghsaId: null,
+      packageName: null,
+      ecosystem: null,
+      justification: "Dismissed as tolerable",
+      approver: "alice",
+      expiresAt: new Date(Date.now() + 86_400_000).toISOString(),
+    });
+
+    const report = getSlaCompliance(db, { from: "2025-01-01", to: "2025-03-31" });
+
+    expect(stat(report.totals, "critical")).toMatchObject({ resolved: 1, withinSla: 1, late: 0 });
+    expect(report.lateResolved).toEqual([]);
+  });
+
+  it("filters by group", () => {
+    seedLifecycles();
+    const group = createRepoGroup(db, { name: "Other", repos: ["owner/other"] })!;
+
+    const report = getSlaCompliance(
+      db,
+      { from: "2025-01-01", to: "2025-03-31" },
+      { groupId: group.id }
+    );
+    expect(report.totals.every((s) => s.resolved === 0 && s.breachDays === 0)).toBe(true);
+  });
+});
+
+// --- Risk scores ---
+
+describe("risk scores", () => {
+  const now = () => new Date().toISOString();
+  const flat = { ...DEFAULT_RISK_WEIGHTS, overdue: 1, agePerYear: 0 };
+
+  it("weights severity, CVSS and dependency scope", () => {
+    saveRiskWeights(db, { ...flat, developmentScope: 0.5 });
+    saveAlerts(
+      db,
+      "owner/app",
+      [
+        makeAlert({ repo: "owner/app", alertNumber: 1, severity: "critical", cvssScore: 9 }),
+        makeAlert({
+          repo: "owner/app",
+          alertNumber: 2,
+          severity: "high",
+          cvssScore: null,
+          rawJson: JSON.stringify({ number: 2, dependency: { scope: "development" } }),
+        }),
+      ],
+      now()
+    );
+    saveAlerts(db, "owner/quiet", [], now());
+
+    // critical: 10 × 1.9; high dev-only: 5 × 1 × 0.5
+    expect(getRiskScores(db)).toEqual([
+      {
+        repo: "owner/app",
+        riskScore: 21.5,
+        openAlerts: 2,
+        runtimeAlerts: 1,
+        overdueAlerts: 0,
+        kevAlerts: 0,
+        maxCvss: 9,
+      },
+      {
+        repo: "owner/quiet",
+        riskScore: 0,
+        openAlerts: 0,
+        runtimeAlerts: 0,
+        overdueAlerts: 0,
+        kevAlerts: 0,
+        maxCvss: null,
+      },
+    ]);
+    expect(getAllRepoSummaries(db).map((s) => [s.repo, s.riskScore])).toEqual([
+      ["owner/app", 21.5],
+      ["owner/quiet", 0],
+    ]);
+  });
+
+  it("multiplies alerts past their SLA limit and by age", () => {
+    const since = "2024-01-01T00:00:00Z";
+    saveAlerts(db, "owner/app", [makeAlert({ severity: "critical", repo: "owner/app" })], since);
+    const years = (Date.now() - Date.parse(since)) / (365 * 86_400_000);
+
+    saveRiskWeights(db, { ...flat, cvss: 0, overdue: 3 });
+    expect(getRiskScores(db)[0]).toMatchObject({ riskScore: 30, overdueAlerts: 1 });
+
+    saveRiskWeights(db, { ...flat, cvss: 0, agePerYear: 1 });
+    expect(getRiskScores(db)[0].riskScore).toBeCloseTo(10 * (1 + years), 0);
+  });
+
+  it("limits the leaderboard to a group", () => {
+    saveAlerts(db, "owner/app", [makeAlert({ repo: "owner/app" })], now());
+    saveAlerts(db, "owner/tool", [makeAlert({ repo: "owner/tool" })], now());
+    const group = createRepoGroup(db, { name: "Tools", repos: ["owner/tool"] })!;
+
+    expect(getRiskScores(db, { groupId: group.id }).map((r) => r.repo)).toEqual(["owner/tool"]);
+  });
+
+  it("defaults the weights and keeps saved ones when clearing the database", () => {
+    expect(getRiskWeights(db)).toEqual(DEFAULT_RISK_WEIGHTS);
+
+    saveRiskWeights(db, flat);
+    clearDatabase(db);
+    expect(getRiskWeights(db)).toEqual(flat);
+  });
+});
+
+describe("threat intel", () => {
+  const kevEntry = {
+    cveId: "CVE-2024-0001",
+    vendorProject: "Lodash",
+    product: "lodash",
+    vulnerabilityName: "Lodash Prototype Pollution",
+    dateAdded: "2024-03-01",
+    dueDate: "2024-03-22",
+    knownRansomware: false,
+  };
+
+  function importBoth() {
+    saveEpssScores(db, "epss.csv", {
+      scoredOn: "2024-03-01",
+      scores: [
+        { cveId: "CVE-2024-0001", epss: 0.42, percentile: 0.97 },
+        { cveId: "CVE-2024-0002", epss: 0.01, percentile: 0.5 },
+      ],
+    });
+    saveKevEntries(db, "kev.json", {
+      catalogVersion: "2024.03.01",
+      releasedAt: "2024-03-01",
+      entries: [kevEntry],
+    });
+  }
+
+  it("enriches alerts and advisories by CVE", () => {
+    importBoth();
+    saveAlerts(
+      db,
+      "owner/repo",
+      [
+        makeAlert({ alertNumber: 1 }),
+        makeAlert({ alertNumber: 2, ghsaId: "GHSA-2222", cveId: "CVE-2024-0002" }),
+        makeAlert({ alertNumber: 3, ghsaId: "GHSA-3333", cveId: null }),
+      ],
+      "2024-03-01T00:00:00Z"
+    );
+
+    const alerts = getRepoAlerts(db, "owner/repo").alerts;
+    expect(
+      alerts.map((a) => [a.alertNumber, a.epssScore, a.epssPercentile, a.kev]).sort()
+    ).toEqual([
+      [1, 0.42, 0.97, true],
+      [2, 0.01, 0.5, false],
+      [3, null, null, false],
+    ]);
+
+    const groups = getVulnerabilityGroups(db);
+    expect(groups.find((g) => g.ghsaId === "GHSA-1234-5678")).toMatchObject({
+      epssScore: 0.42,
+      epssPercentile: 0.97,
+      kev: true,
+    });
+    expect(groups.find((g) => g.ghsaId === "GHSA-3333")).toMatchObject({
+      epssScore: null,
+      kev: false,
+    });
+  });
+
+  it("scales risk by EPSS percentile and KEV listing", () => {
+    saveRiskWeights(db, { ...DEFAULT_RISK_WEIGHTS, cvss: 0, overdue: 1, agePerYear: 0 });
+    saveAlerts(
+      db,
+      "owner/app",
+      [makeAlert({ repo: "owner/app", severity: "critical" })],
+      new Date().toISOString()
+    );
+    expect(getRiskScores(db)[0]).toMatchObject({ riskScore: 10, kevAlerts: 0 });
+
+    importBoth();
+    // 10 × (1 + 0.97) × 3
+    expect(getRiskScores(db)[0]).toMatchObject({ riskScore: 59.1, kevAlerts: 1 });
+  });
+
+  it("replaces a dataset on re-import and keeps it when clearing the database", () => {
+    importBoth();
+    saveKevEntries(
+      db,
+      "https://example.com/kev.json",
+      { catalogVersion: null, releasedAt: null, entries: [] },
+      "2024-04-01T00:00:00Z"
+    );
+    clearDatabase(db);
+
+    expect(getThreatIntelStatus(db)).toEqual([
+      expect.objectContaining({
+        dataset: "epss",
+        source: "epss.csv",
+        recordCount: 2,
+        publishedAt: "2024-03-01",
+      }),
+      {
+        dataset: "kev",
+        source: "https://example.com/kev.json",
+        importedAt: "2024-04-01T00:00:00Z",
+        recordCount: 0,
+        publishedAt: null,
+      },
+    ]);
+    saveAlerts(db, "owner/repo", [makeAlert()], "2024-03-01T00:00:00Z");
+    expect(getRepoAlerts(db, "owner/repo").alerts[0]).toMatchObject({ epssScore: 0.42, kev: false });
+  });
+
+  it("fills EPSS and KEV weights missing from weights saved before them", () => {
+    const { epss: _epss, kev: _kev, ...older } = DEFAULT_RISK_WEIGHTS;
+    db.prepare("INSERT INTO settings (key, value, updated_at) VALUES (?, ?, ?)").run(
+      "risk_weights",
+      JSON.stringify({ ...older, overdue: 4 }),
+      "2024-01-01T00:00:00Z"
+    );
+    expect(getRiskWeights(db)).toEqual({ ...DEFAULT_RISK_WEIGHTS, overdue: 4 });
+  });
+});
+
+// --- Risk exceptions ---
+
+describe("risk exceptions", () => {
+  const future = "2099-01-01T00:00:00.000Z";
+  const past = "2000-01-01T00:00:00.000Z";
+
+  function makeException(overrides: Partial<RiskExceptionInput> = {}): RiskExceptionInput {
+    return {
+      scope: "alert",
+      repo: "owner/repo",
+      alertNumber: 1,
+      ghsaId: null,
+      packageName: null,
+      ecosystem: null,
+      justification: "Not reachable from user input",
+      approver: "alice",
+      expiresAt: future,
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    saveAlerts(
+      db,
+      "owner/repo",
+      [
+        makeAlert({ alertNumber: 1, severity: "critical" }),
+        makeAlert({ alertNumber: 2, ghsaId: "GHSA-2222", packageName: "axios" }),
+        makeAlert({
+          alertNumber: 3,
+          ghsaId: "GHSA-3333",
+          packageName: "requests",
+          ecosystem: "pip",
+        }),
+      ],
+      "2024-01-01T00:00:00Z"
+    );
+    saveAlerts(
+      db,
+      "owner/other",
+      [
+        makeAlert({
+          repo: "owner/other",
+          alertNumber: 1,
+          ghsaId: "GHSA-2222",
+          packageName: "axios",
+        }),
+      ],
+      "2024-01-01T00:00:00Z"
+    );
+  });
+
+  const covered = (id: number) =>
+    getRiskException(db, id)!.alerts.map((a) => `${a.repo}#${a.alertNumber}`);
+
+  it("matches alerts by alert, advisory, package and repo scope", () => {
+    const alert = createRiskException(db, makeException());
+    const advisory = createRiskException(
+      db,
+      makeException({ scope: "advisory", repo: null, alertNumber: null, ghsaId: "GHSA-2222" })
+    );
+    const pkg = createRiskException(
+      db,
+      makeException({
+        scope: "package",
+        repo: null,
+        alertNumber: null,
+        packageName: "requests",
+        ecosystem: "npm",
+      })
+    );
+    const repo = createRiskException(
+      db,
+      makeException({ scope: "repo", repo: "owner/other", alertNumber: null })
+    );
+
+    expect(covered(alert.id)).toEqual(["owner/repo#1"]);
+    expect(covered(advisory.id)).toEqual(["owner/other#1", "owner/repo#2"]);
+    // The ecosystem narrows a package exception
+    expect(covered(pkg.id)).toEqual([]);
+    expect(covered(repo.id)).toEqual(["owner/other#1"]);
+  });
+
+  it("leaves accepted alerts out of summaries, SLA and risk metrics", () => {
+    createRiskException(
+      db,
+      makeException({ scope: "advisory", alertNumber: null, ghsaId: "GHSA-2222" })
+    );
+    createRiskException(db, makeException());
+
+    expect(getGlobalSummary(db).totalAlerts).toBe(2);
+    expect(getSlaViolations(db).map((v) => [v.repo, v.alertNumber])).toEqual([
+      ["owner/other", 1],
+      ["owner/repo", 3],
+    ]);
+    expect(getRiskScores(db).find((r) => r.repo === "owner/repo")!.openAlerts).toBe(1);
+    expect(countOpenAlerts(db, "owner/repo")).toBe(3);
+
+    const alerts = getRepoAlerts(db, "owner/repo").alerts;
+    expect(alerts.map((a) => [a.alertNumber, a.acceptedUntil]).sort()).toEqual([
+      [1, future],
+      [2, future],
+      [3, null],
+    ]);
+  });
+
+  it("resurfaces alerts once the exception expires or is revoked", () => {
+    const expired = createRiskException(db, makeException({ expiresAt: past }));
+    expect(expired).toMatchObject({ status: "expired", alerts: [] });
+    expect(getGlobalSummary(db).totalAlerts).toBe(4);
+
+    const active = createRiskException(db, makeException({ alertNumber: 2 }));
+    expect(getGlobalSummary(db).totalAlerts).toBe(3);
+    expect(revokeRiskException(db, active.id, "bob", "Fix shipped")).toMatchObject({
+      status: "revoked",
+      alerts: [],
+    });
+    expect(revokeRiskException(db, active.id, "bob")).toBeNull();
+    expect(getGlobalSummary(db).totalAlerts).toBe(4);
+
+    expect(getRiskExceptions(db, { status: "revoked" }).map((x) => x.id)).toEqual([active.id]);
+    expect(getRiskExceptions(db, { status: "active" })).toEqual([]);
+  });
+
+  it("renews an exception and records every change in its audit trail", () => {
+    const exception = createRiskException(
+      db,
+      makeException({ expiresAt: past }),
+      "2024-01-01T00:00:00Z"
+    );
+    const renewed = updateRiskException(
+      db,
+      exception.id,
+      { actor: "bob", expiresAt: future, justification: "Not reachable from user input" },
+      "2024-02-01T00:00:00Z"
+    )!;
+    expect(renewed.status).toBe("active");
+    expect(covered(exception.id)).toEqual(["owner/repo#1"]);
+
+    revokeRiskException(db, exception.id, "carol", null, "2024-03-01T00:00:00Z");
+    expect(updateRiskException(db, exception.id, { actor: "bob", approver: "dave" })).toBeNull();
+    expect(updateRiskException(db, 999, { actor: "bob" })).toBeNull();
+
+    expect(getRiskException(db, exception.id)!.events).toEqual([
+      {
+        action: "created",
+        actor: "alice",
+        note: "Not reachable from user input",
+        recordedAt: "2024-01-01T00:00:00Z",
+      },
+      {
+        action: "updated",
+        actor: "bob",
+        note: `expiresAt: ${past} → ${future}`,
+        recordedAt: "2024-02-01T00:00:00Z",
+      },
+      { action: "revoked", actor: "carol", note: null, recordedAt: "2024-03-01T00:00:00Z" },
+    ]);
+  });
+
+  it("keeps exceptions when clearing the database", () => {
+    createRiskException(db, makeException());
+    clearDatabase(db);
+    expect(getRiskExceptions(db)).toHaveLength(1);
+  });
+});
+
+// --- Closed alerts ---
+
+describe("closed alerts", () => {
+  beforeEach(() => {
+    const dismissed = (
+      alertNumber: number,
+      dismissedReason: string,
+      dismissedBy: string,
+      dismissedAt: string
+    ) =>
+      makeAlert({
+        alertNumber,
+        state: "dismissed",
+        dismissedAt,
+        dismissedReason,
+        dismissedBy,
+      });
+
+    saveAlerts(
+      db,
+      "owner/repo-a",
+      [
+        dismissed(1, "tolerable_risk", "alice", "2024-02-01T00:00:00Z"),
+        dismissed(2, "tolerable_risk", "alice", "2024-02-03T00:00:00Z"),
+        dismissed(3, "no_bandwidth", "bob", "2024-02-02T00:00:00Z"),
+        makeAlert({ alertNumber: 4 }),
+      ].map((a) => ({ ...a, repo: "owner/repo-a" })),
+      "2024-03-01T00:00:00Z"
+    );
+    saveAlerts(
+      db,
+      "owner/repo-b",
+      [
+        makeAlert({ alertNumber: 1, state: "fixed", fixedAt: "2024-02-05T00:00:00Z" }),
+        makeAlert({ alertNumber: 2, state: "fixed", fixedAt: "2024-01-05T00:00:00Z" }),
+        dismissed(3, "inaccurate", "bob", "2024-01-20T00:00:00Z"),
+        makeAlert({ alertNumber: 4, state: "auto_dismissed" }),
+      ].map((a) => ({ ...a, repo: "owner/repo-b" })),
+      "2024-03-01T00:00:00Z"
+    );
+    createRepoGroup(db, { name: "Payments", repos: ["owner/repo-a"] });
+  });
+
+  it("lists closed alerts across repos, most recently closed first", () => {
+    const page = getClosedAlerts(db, { limit: 3, offset: 0 });
+
+    expect(page.total).toBe(7);
+    expect(page.alerts.map((a) => [a.repo, a.alertNumber, a.closedAt])).toEqual([
+      ["owner/repo-b", 1, "2024-02-05T00:00:00Z"],
+      ["owner/repo-a", 2, "2024-02-03T00:00:00Z"],
+      ["owner/repo-a", 3, "2024-02-02T00:00:00Z"],
+    ]);
+    expect(page.alerts[1]).toMatchObject({
+      dismissedReason: "tolerable_risk",
+      dismissedBy: "alice",
+    });
+  });
+
+  it("filters closed alerts by state, reason, repo and group", () => {
+    const refs = (options: Parameters<typeof getClosedAlerts>[1]) =>
+      getClosedAlerts(db, options).alerts.map((a) => `${a.repo}#${a.alertNumber}`);
+
+    expect(refs({ limit: 10, offset: 0, state: "fixed" })).toEqual([
+      "owner/repo-b#1",
+      "owner/repo-b#2",
+    ]);
+    expect(refs({ limit: 10, offset: 0, reason: "tolerable_risk" })).toEqual([
+      "owner/repo-a#2",
+      "owner/repo-a#1",
+    ]);
+    expect(refs({ limit: 10, offset: 0, repo: "owner/repo-b", state: "dismissed" })).toEqual([
+      "owner/repo-b#3",
+    ]);
+    const group = getRepoGroups(db)[0];
+    expect(refs({ limit: 10, offset: 0, groupId: group.id })).toHaveLength(3);
+  });
+
+  it("breaks down dismissals by reason, group and dismisser", () => {
+    const analytics = getDismissalAnalytics(db);
+
+    expect(analytics.reasons).toEqual([
+      { reason: "tolerable_risk", count: 2 },
+      { reason: "no_bandwidth", count: 1 },
+      { reason: "inaccurate", count: 1 },
+    ]);
+    expect(analytics.groups).toEqual([
+      {
+        groupId: expect.any(Number),
+        name: "Payments",
+        fixed: 0,
+        dismissed: 3,
+        reasons: { tolerable_risk: 2, no_bandwidth: 1 },
+      },
+      { groupId: null, name: "Unassigned", fixed: 2, dismissed: 1, reasons: { inaccurate: 1 } },
+    ]);
+    expect(analytics.dismissers).toEqual([
+      { login: "alice", dismissed: 2 },
+      { login: "bob", dismissed: 2 },
+    ]);
+
+    const group = getRepoGroups(db)[0];
+    const filtered = getDismissalAnalytics(db, group.id);
+    expect(filtered.groups.map((g) => g.name)).toEqual(["Payments"]);
+    expect(filtered.dismissers).toEqual([
+      { login: "alice", dismissed: 2 },
+      { login: "bob", dismissed: 1 },
+    ]);
+  });
+
+  it("keeps reasons GitHub added later and counts them as unknown", () => {
+    saveAlerts(
+      db,
+      "owner/repo-c",
+      [
+        makeAlert({
+          repo: "owner/repo-c",
+          alertNumber: 1,
+          state: "dismissed",
+          dismissedAt: "2024-02-10T00:00:00Z",
+          dismissedReason: "false_positive",
+          dismissedBy: "carol",
+        }),
+      ],
+      "2024-03-01T00:00:00Z"
+    );
+
+    expect(getClosedAlerts(db, { limit: 1, offset: 0 }).alerts[0]).toMatchObject({
+      repo: "owner/repo-c",
+      dismissedReason: "false_positive",
+    });
+    const analytics = getDismissalAnalytics(db);
+    expect(analytics.reasons).toContainEqual({ reason: "unknown", count: 1 });
+    expect(analytics.groups.find((g) => g.groupId === null)?.reasons).toEqual({
+      inaccurate: 1,
+      unknown: 1,
+    });
+  });
+});
+
+describe("alert annotations", () => {
+  const ref = { repo: "owner/repo", alertNumber: 1 };
+
+  beforeEach(() => {
+    saveAlerts(
+      db,
+      "owner/repo",
+      [
+        makeAlert({ alertNumber: 1 }),
+        makeAlert({ alertNumber: 2, packageName: "left-pad", ecosystem: "npm" }),
+      ],
+      "2023-01-01T00:00:00Z"
+    );
+    saveCodeScanningAlerts(db, "owner/repo", [makeCodeScanningAlert()], "2023-01-01T00:00:00Z");
+    saveAlertAnnotation(
+      db,
+      ref,
+      { note: "Waiting on upstream", tags: ["SEC-123", "upstream"], assignee: "Alice" },
+      "2024-03-01T00:00:00Z"
+    );
+  });
+
+  it("merges the annotation into the alert and survives refreshes", () => {
+    saveAlerts(db, "owner/repo", [makeAlert({ alertNumber: 1 })], "2024-04-01T00:00:00Z");
+
+    const [alert] = getRepoAlerts(db, "owner/repo").alerts;
+    expect(alert).toMatchObject({
+      note: "Waiting on upstream",
+      tags: ["SEC-123", "upstream"],
+      assignee: "Alice",
+    });
+    expect(getAlertAnnotation(db, ref)?.updatedAt).toBe("2024-03-01T00:00:00Z");
+  });
+
+  it("filters alerts, SLA violations and the fix advisor by tag and assignee", () => {
+    const numbers = (filters: { tag?: string; assignee?: string }) =>
+      getRepoAlerts(db, "owner/repo", filters).alerts.map((a) => a.alertNumber);
+    expect(numbers({ tag: "sec-123" })).toEqual([1]);
+    expect(numbers({ assignee: "alice", tag: "other" })).toEqual([]);
+
+    // Code scanning alerts carry no annotations, so a filter leaves them out
+    const sla = getSlaViolations(db, undefined, { assignee: "ALICE" });
+    expect(sla.map((v) => [v.source, v.alertNumber])).toEqual([["dependabot", 1]]);
+    expect(getSlaViolations(db)).toHaveLength(3);
+
+    expect(getFixAdvisor(db, "owner/repo", { tag: "Upstream" }).totalAlerts).toBe(1);
+    expect(getFixAdvisor(db, null, { assignee: "bob" }).totalAlerts).toBe(0);
+    expect(getAlertAnnotations(db, { tag: "UPSTREAM" }).map((a) => a.alertNumber)).toEqual([1]);
+  });
+
+  it("replaces and deletes annotations", () => {
+    saveAlertAnnotation(db, ref, { note: null, tags: [], assignee: "Bob" });
+    expect(getAlertAnnotation(db, ref)).toMatchObject({ note: null, tags: [], assignee: "Bob" });
+
+    expect(deleteAlertAnnotation(db, ref)).toBe(true);
+    expect(deleteAlertAnnotation(db, ref)).toBe(false);
+    expect(getRepoAlerts(db, "owner/repo").alerts[0]).toMatchObject({ tags: [], assignee: null });
+  });
+
+  it("is kept by clearDatabase and removed with the repo", () => {
+    clearDatabase(db);
+    expect(getAlertAnnotations(db)).toHaveLength(1);
+
+    removeRepo(db, "owner/repo");
+    expect(getAlertAnnotations(db)).toEqual([]);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Octokit } from '@octokit/rest';
+import {
+  addWatchTarget,
+  getAllRepoSummaries,
+  getWatchTargets,
+  openDatabase,
+  saveAlerts,
+} from '../db.js';
+import { discoverRepos, matchesNamePattern, seedWatchTargets } from '../discovery.js';
+
+type ListedRepo = { name: string; fork?: boolean; archived?: boolean; topics?: string[] };
+
+function httpError(status: number) {
+  return Object.assign(new Error(`HTTP ${status}`), { status, response: { headers: {} } });
+}
+
+/** An org listing plus a `repos.get` lookup for repos missing from it; unknown repos 404. */
+function makeOctokit(
+  listing: ListedRepo[] | Error,
+  lookup: Record<string, 'active' | 'archived'> = {}
+) {
+  const listForOrg = vi.fn();
+  const get = vi.fn(async ({ repo }: { repo: string }) => {
+    if (!lookup[repo]) throw httpError(404);
+    return { data: { archived: lookup[repo] === 'archived' } };
+  });
+  const paginate = vi.fn(async () => {
+    if (listing instanceof Error) throw listing;
+    return listing.map((repo) => ({
+      owner: { login: 'acme' },
+      fork: false,
+      archived: false,
+      ...repo,
+    }));
+  });
+  return { paginate, rest: { repos: { listForOrg, get } } } as unknown as Octokit & {
+    rest: { repos: { get: ReturnType<typeof vi.fn> } };
+  };
+}
+
+function track(db: ReturnType<typeof openDatabase>, key: string) {
+  saveAlerts(db, key, [], '2024-01-01T00:00:00Z');
+}
+
+describe('matchesNamePattern', () => {
+  it('matches everything without a pattern', () => {
+    expect(matchesNamePattern(null, 'anything')).toBe(true);
+  });
+
+  it('supports * and ? wildcards case-insensitively', () => {
+    expect(matchesNamePattern('api-*', 'API-gateway')).toBe(true);
+    expect(matchesNamePattern('svc-?', 'svc-1')).toBe(true);
+    expect(matchesNamePattern('svc-?', 'svc-12')).toBe(false);
+    expect(matchesNamePattern('api-*', 'web-api')).toBe(false);
+  });
+
+  it('treats regex characters literally', () => {
+    expect(matchesNamePattern('a.b', 'a.b')).toBe(true);
+    expect(matchesNamePattern('a.b', 'axb')).toBe(false);
+  });
+});
+
+describe('seedWatchTargets', () => {
+  it('seeds users and orgs from the environment, host-qualified ones included', () => {
+    const db = openDatabase(':memory:');
+    const added = seedWatchTargets(db, {
+      GH_MONIT_USER: 'octocat',
+      GH_MONIT_ORG: 'acme, ghe.example.com:platform',
+    });
+
+    expect(added).toBe(3);
+    expect(getWatchTargets(db).map((t) => [t.host, t.type, t.name])).toEqual([
+      ['github.com', 'user', 'octocat'],
+      ['github.com', 'org', 'acme'],
+      ['ghe.example.com', 'org', 'platform'],
+    ]);
+  });
+
+  it('leaves existing targets alone', () => {
+    const db = openDatabase(':memory:');
+    addWatchTarget(db, { type: 'org', name: 'other' });
+
+    expect(seedWatchTargets(db, { GH_MONIT_ORG: 'acme' })).toBe(0);
+    expect(getWatchTargets(db)).toHaveLength(1);
+  });
+});
+
+describe('discoverRepos', () => {
+  it('returns untracked repos that pass the target filters', async () => {
+    const db = openDatabase(':memory:');
+    addWatchTarget(db, { type: 'org', name: 'acme', namePattern: 'api-*' });
+    track(db, 'acme/api-core');
+    const octokit = makeOctokit([
+      { name: 'api-core' },
+      { name: 'api-new' },
+      { name: 'api-fork', fork: true },
+      { name: 'api-old', archived: true },
+      { name: 'web' },
+    ]);
+
+    const result = await discoverRepos(db, new Map([['github.com', octokit]]));
+
+    expect(result.added).toEqual(['acme/api-new']);
+    expect(result.failedTargets).toBe(0);
+    expect(getWatchTargets(db)[0].lastCheckedAt).not.toBeNull();
+  });
+
+  it('stores the listing metadata of tracked repos', async () => {
+    const db = openDatabase(':memory:');
+    addWatchTarget(db, { type: 'org', name: 'acme' });
+    track(db, 'acme/api');
+    const octokit = makeOctokit([{ name: 'api', topics: ['production'] }]);
+
+    await discoverRepos(db, new Map([['github.com', octokit]]));
+
+    expect(getAllRepoSummaries(db)[0].metadata).toMatchObject({
+      topics: ['production'],
+      archived: false,
+    });
+  });
+
+  it('flags archived and deleted repos and clears the flag once restored', async () => {
+    const db = openDatabase(':memory:');
+    addWatchTarget(db, { type: 'org', name: 'acme' });
+    track(db, 'acme/frozen');
+    track(db, 'acme/gone');
+    track(db, 'acme/private');
+    const clients = (octokit: Octokit) => new Map([['github.com', octokit]]);
+
+    // "private" is missing from the listing but still exists
+    const first = await discoverRepos(
+      db,
+      clients(makeOctokit([{ name: 'frozen', archived: true }], { private: 'active' }))
+    );
+    expect(first.archived).toEqual(['acme/frozen']);
+    expect(first.deleted).toEqual(['acme/gone']);
+
+    const states = Object.fromEntries(
+      getAllRepoSummaries(db).map((s) => [s.repo, s.upstreamState])
+    );
+    expect(states).toEqual({ 'acme/frozen': 'archived', 'acme/gone': 'deleted', 'acme/private': null });
+
+    const second = await discoverRepos(
+      db,
+      clients(makeOctokit([{ name: 'frozen' }, { name: 'gone' }], { private: 'active' }))
+    );
+    expect(second.restored.sort()).toEqual(['acme/frozen', 'acme/gone']);
+    expect(second.archived).toEqual([]);
+    expect(second.deleted).toEqual([]);
+  });
+
+  it('records a failed listing on the target without flagging repos', async () => {
+    const db = openDatabase(':memory:');
+    addWatchTarget(db, { type: 'org', name: 'acme' });
+    addWatchTarget(db, { type: 'org', name: 'platform', host: 'ghes' });
+    track(db, 'acme/repo');
+    const octokit = makeOctokit(httpError(500));
+
+    const result = await discoverRepos(db, new Map([['github.com', octokit]]));
+
+    expect(result.failedTargets).toBe(2);
+    expect(result.deleted).toEqual([]);
+    expect(octokit.rest.repos.get).not.toHaveBeenCalled();
+    expect(getWatchTargets(db).map((t) => t.lastError)).toEqual([
+      'Failed to list repositories: HTTP 500',
+      'Host "ghes" is not configured',
+    ]);
+    expect(process.exitCode).toBeUndefined();
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import Database from "better-sqlite3";
-import { openDatabase, saveAlerts, getFixAdvisor } from "../db.js";
+import { openDatabase, saveAlerts, getFixAdvisor, saveEpssScores, saveKevEntries } from "../db.js";
 import type { NormalizedAlert } from "../../types.js";
 
 function makeAlert(overrides: Partial<NormalizedAlert> = {}): NormalizedAlert {
@@ -22,6 +22,9 @@ function makeAlert(overrides: Partial<NormalizedAlert> = {}): NormalizedAlert {
     advisorySummary: "Prototype pollution in lodash",
     cvssScore: 7.5,
     patchedVersion: "4.17.21",
+    dismissedReason: null,
+    dismissedComment: null,
+    dismissedBy: null,
     rawJson: JSON.stringify({
       number: 1,
       dependency: { scope: "runtime" },
@@ -140,6 +143,46 @@ describe("getFixAdvisor", () => {
     expect(result.actions[2].packageName).toBe("pkg-a");
   });
 
+  it("ranks known exploited packages first, then by EPSS percentile within severity", () => {
+    const alerts = [
+      makeAlert({ alertNumber: 1, packageName: "pkg-a", severity: "critical", cveId: "CVE-2024-0001" }),
+      makeAlert({ alertNumber: 2, packageName: "pkg-a", severity: "critical", cveId: "CVE-2024-0001" }),
+      makeAlert({ alertNumber: 3, packageName: "pkg-b", severity: "critical", cveId: "CVE-2024-0002" }),
+      makeAlert({ alertNumber: 4, packageName: "pkg-c", severity: "medium", cveId: "CVE-2024-0003" }),
+    ];
+    saveAlerts(db, "owner/repo", alerts, "2024-03-01T00:00:00Z");
+    saveEpssScores(db, "epss.csv", {
+      scoredOn: null,
+      scores: [
+        { cveId: "CVE-2024-0001", epss: 0.001, percentile: 0.2 },
+        { cveId: "CVE-2024-0002", epss: 0.3, percentile: 0.95 },
+      ],
+    });
+    saveKevEntries(db, "kev.json", {
+      catalogVersion: null,
+      releasedAt: null,
+      entries: [
+        {
+          cveId: "CVE-2024-0003",
+          vendorProject: null,
+          product: null,
+          vulnerabilityName: null,
+          dateAdded: null,
+          dueDate: null,
+          knownRansomware: false,
+        },
+      ],
+    });
+
+    const result = getFixAdvisor(db, "owner/repo");
+    // pkg-c (KEV) first, then pkg-b (critical, 95th pct) over pkg-a (critical, 2 alerts, 20th pct)
+    expect(result.actions.map((a) => [a.packageName, a.kevAlerts, a.maxEpssPercentile])).toEqual([
+      ["pkg-c", 1, null],
+      ["pkg-b", 0, 0.95],
+      ["pkg-a", 0, 0.2],
+    ]);
+  });
+
   it("only includes open alerts", () => {
     const alerts = [
       makeAlert({ alertNumber: 1, state: "open" }),
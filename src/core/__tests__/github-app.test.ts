@@ -0,0 +1,205 @@
+import { describe, it, expect, vi } from "vitest";
+import { createPublicKey, createVerify, generateKeyPairSync } from "node:crypto";
+import { Octokit } from "@octokit/rest";
+import { createAppAuth, createAppJwt, resolveAppCredentials } from "../github-app.js";
+import { fetchDependabotAlerts } from "../github.js";
+
+const { privateKey } = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: "pkcs8", format: "pem" },
+  publicKeyEncoding: { type: "spki", format: "pem" },
+});
+
+const NOW = Date.parse("2024-01-01T00:00:00Z");
+
+function json(data: unknown, status = 200, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "content-type": "application/json", ...headers },
+  });
+}
+
+/** Octokit backed by a fake fetch that plays the GitHub App endpoints. */
+function makeAppOctokit(options: { installationId?: number | null; now?: () => number } = {}) {
+  let tokenCount = 0;
+  const calls: Array<{ url: string; authorization: string }> = [];
+
+  const fetch = vi.fn(async (url: string, init: { headers: Record<string, string> }) => {
+    const path = new URL(url).pathname;
+    calls.push({ url: path, authorization: init.headers.authorization });
+
+    if (path === "/app/installations") {
+      return json([
+        { id: 11, account: { login: "Acme" } },
+        { id: 22, account: { login: "octo" } },
+      ]);
+    }
+    const exchange = path.match(/^\/app\/installations\/(\d+)\/access_tokens$/);
+    if (exchange) {
+      tokenCount += 1;
+      const expiresAt = new Date((options.now?.() ?? NOW) + 60 * 60 * 1000).toISOString();
+      return json({ token: `ghs_${exchange[1]}_${tokenCount}`, expires_at: expiresAt }, 201);
+    }
+    if (path === "/repos/octo/repo/dependabot/alerts") {
+      const next = "https://api.github.com/repositories/42/dependabot/alerts?page=2";
+      return json([{ number: 1 }], 200, { link: `<${next}>; rel="next"` });
+    }
+    if (path === "/repositories/42/dependabot/alerts") {
+      return json([{ number: 2 }]);
+    }
+    return json([]);
+  });
+
+  const auth = createAppAuth(
+    { appId: "123", privateKey, installationId: options.installationId ?? null },
+    { now: options.now ?? (() => NOW) }
+  );
+  const octokit = new Octokit({ authStrategy: () => auth, request: { fetch } });
+  return { octokit, calls };
+}
+
+describe("createAppJwt", () => {
+  it("signs an RS256 token for the app", () => {
+    const jwt = createAppJwt("123", privateKey, NOW);
+    const [header, payload, signature] = jwt.split(".");
+
+    expect(JSON.parse(Buffer.from(header, "base64url").toString())).toEqual({
+      alg: "RS256",
+      typ: "JWT",
+    });
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    expect(claims).toEqual({ iat: NOW / 1000 - 60, exp: NOW / 1000 + 540, iss: "123" });
+
+    const verified = createVerify("RSA-SHA256")
+      .update(`${header}.${payload}`)
+      .verify(createPublicKey(privateKey), signature, "base64url");
+    expect(verified).toBe(true);
+  });
+});
+
+describe("resolveAppCredentials", () => {
+  it("returns null without an app ID", () => {
+    expect(resolveAppCredentials({})).toBeNull();
+  });
+
+  it("accepts an inline key with escaped newlines", () => {
+    const credentials = resolveAppCredentials({
+      GH_MONIT_APP_ID: "123",
+      GH_MONIT_APP_PRIVATE_KEY: "-----BEGIN KEY-----\\nabc\\n-----END KEY-----",
+      GH_MONIT_APP_INSTALLATION_ID: "42",
+    });
+    expect(credentials).toEqual({
+      appId: "123",
+      privateKey: "-----BEGIN KEY-----\nabc\n-----END KEY-----",
+      installationId: 42,
+    });
+  });
+
+  it("rejects an app ID without a private key", () => {
+    expect(() => resolveAppCredentials({ GH_MONIT_APP_ID: "123" })).toThrow(/PRIVATE_KEY/);
+  });
+});
+
+describe("createAppAuth", () => {
+  it("uses the installation of the repo owner", async () => {
+    const { octokit, calls } = makeAppOctokit();
+
+    await octokit.request("GET /repos/{owner}/{repo}/dependabot/alerts", {
+      owner: "octo",
+      repo: "app",
+    });
+
+    expect(calls.map((call) => call.url)).toEqual([
+      "/app/installations",
+      "/app/installations/22/access_tokens",
+      "/repos/octo/app/dependabot/alerts",
+    ]);
+    expect(calls[0].authorization).toMatch(/^bearer /);
+    expect(calls[2].authorization).toBe("token ghs_22_1");
+  });
+
+  it("matches accounts case-insensitively and reuses cached tokens", async () => {
+    const { octokit, calls } = makeAppOctokit();
+
+    await octokit.request("GET /orgs/{org}/repos", { org: "acme" });
+    await octokit.request("GET /repos/{owner}/{repo}/dependabot/alerts", {
+      owner: "ACME",
+      repo: "api",
+    });
+
+    const exchanges = calls.filter((call) => call.url.endsWith("/access_tokens"));
+    expect(exchanges).toHaveLength(1);
+    expect(calls.at(-1)?.authorization).toBe("token ghs_11_1");
+  });
+
+  it("renews the token shortly before it expires", async () => {
+    let now = NOW;
+    const { octokit, calls } = makeAppOctokit({ now: () => now });
+
+    await octokit.request("GET /orgs/{org}/repos", { org: "acme" });
+    now += 56 * 60 * 1000;
+    await octokit.request("GET /orgs/{org}/repos", { org: "acme" });
+
+    expect(calls.at(-1)?.authorization).toBe("token ghs_11_2");
+  });
+
+  it("takes the account from the installationAccount request option", async () => {
+    const { octokit, calls } = makeAppOctokit();
+
+    await octokit.request("GET /installation/repositories", {
+      request: { installationAccount: "octo" },
+    });
+
+    expect(calls.at(-1)).toEqual({
+      url: "/installation/repositories",
+      authorization: "token ghs_22_1",
+    });
+  });
+
+  it("follows alert pages with the installation of the repo owner", async () => {
+    const { octokit, calls } = makeAppOctokit();
+
+    const result = await fetchDependabotAlerts(octokit, {
+      owner: "octo",
+      name: "repo",
+      fullName: "octo/repo",
+    });
+
+    expect(result.alerts).toEqual([{ number: 1 }, { number: 2 }]);
+    expect(calls.at(-1)).toEqual({
+      url: "/repositories/42/dependabot/alerts",
+      authorization: "token ghs_22_1",
+    });
+  });
+
+  it("keys rate limit quotas by installation", () => {
+    const auth = createAppAuth({ appId: "123", privateKey, installationId: null });
+    const pinned = createAppAuth({ appId: "123", privateKey, installationId: 99 });
+
+    expect(auth.quotaKey({ url: "/app/installations" })).toBe("app");
+    expect(auth.quotaKey({ url: "/orgs/{org}/repos", org: "Acme" })).toBe("account:acme");
+    expect(
+      auth.quotaKey({ url: "/repositories/42/alerts", request: { installationAccount: "octo" } })
+    ).toBe("account:octo");
+    expect(pinned.quotaKey({ url: "/orgs/{org}/repos", org: "acme" })).toBe("installation:99");
+  });
+
+  it("honors a pinned installation ID", async () => {
+    const { octokit, calls } = makeAppOctokit({ installationId: 99 });
+
+    await octokit.request("GET /user/repos");
+
+    expect(calls.map((call) => call.url)).toEqual([
+      "/app/installations/99/access_tokens",
+      "/user/repos",
+    ]);
+  });
+
+  it("fails for an account without an installation", async () => {
+    const { octokit } = makeAppOctokit();
+
+    await expect(
+      octokit.request("GET /orgs/{org}/repos", { org: "elsewhere" })
+    ).rejects.toThrow('The GitHub App is not installed on "elsewhere".');
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi } from "vitest";
+import type { Octokit } from "@octokit/rest";
+import {
+  GitHubApiError,
+  fetchCodeScanningAlerts,
+  fetchDependabotAlerts,
+  fetchRepoMetadata,
+  toGitHubApiError,
+} from "../github.js";
+
+const repo = { owner: "owner", name: "repo", fullName: "owner/repo" };
+
+function httpError(status: number, message = `HTTP ${status}`, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(message), { status, response: { headers } });
+}
+
+function makeOctokit(request: (...args: any[]) => unknown) {
+  return { request: vi.fn(request) } as unknown as Octokit & {
+    request: ReturnType<typeof vi.fn>;
+  };
+}
+
+describe("fetchDependabotAlerts (conditional)", () => {
+  it("follows pagination and returns the first page validators", async () => {
+    const octokit = makeOctokit(async (route: string) => {
+      if (route.startsWith("GET https://")) {
+        return { data: [{ number: 2 }], headers: {} };
+      }
+      return {
+        data: [{ number: 1 }],
+        headers: {
+          etag: 'W/"abc"',
+          "last-modified": "Mon, 01 Jan 2024 00:00:00 GMT",
+          link: '<https://api.github.com/repos/owner/repo/dependabot/alerts?after=x>; rel="next"',
+        },
+      };
+    });
+
+    const result = await fetchDependabotAlerts(octokit, repo);
+    expect(result?.alerts).toEqual([{ number: 1 }, { number: 2 }]);
+    expect(result?.validators).toEqual({
+      etag: 'W/"abc"',
+      lastModified: "Mon, 01 Jan 2024 00:00:00 GMT",
+    });
+    expect(octokit.request).toHaveBeenCalledTimes(2);
+  });
+
+  it("sends If-None-Match and returns null alerts on 304", async () => {
+    const octokit = makeOctokit(async () => {
+      throw httpError(304);
+    });
+    const validators = { etag: 'W/"abc"', lastModified: null };
+
+    const result = await fetchDependabotAlerts(octokit, repo, validators);
+    expect(result).toEqual({ alerts: null, validators });
+
+    const [, params] = octokit.request.mock.calls[0];
+    expect(params.headers).toEqual({ "if-none-match": 'W/"abc"' });
+    expect(params.sort).toBe("updated");
+  });
+
+  it("falls back to If-Modified-Since without an ETag", async () => {
+    const octokit = makeOctokit(async () => ({ data: [], headers: {} }));
+
+    await fetchDependabotAlerts(octokit, repo, {
+      etag: null,
+      lastModified: "Mon, 01 Jan 2024 00:00:00 GMT",
+    });
+
+    const [, params] = octokit.request.mock.calls[0];
+    expect(params.headers).toEqual({ "if-modified-since": "Mon, 01 Jan 2024 00:00:00 GMT" });
+  });
+
+  it("throws a typed error instead of returning null", async () => {
+    const octokit = makeOctokit(async () => {
+      throw httpError(403, "Dependabot alerts are disabled for this repository.");
+    });
+
+    const error = await fetchDependabotAlerts(octokit, repo).catch((err) => err);
+    expect(error).toBeInstanceOf(GitHubApiError);
+    expect(error).toMatchObject({ kind: "dependabot_disabled", status: 403 });
+  });
+});
+
+describe("toGitHubApiError", () => {
+  it.each([
+    [httpError(404, "Not Found"), "not_found"],
+    [httpError(403, "Resource not accessible by integration"), "forbidden"],
+    [httpError(401, "Bad credentials"), "forbidden"],
+    [httpError(403, "API rate limit exceeded", { "x-ratelimit-remaining": "0" }), "rate_limited"],
+    [httpError(403, "You have exceeded a secondary rate limit"), "rate_limited"],
+    [httpError(429, "Too Many Requests"), "rate_limited"],
+    [httpError(500, "fetch failed"), "network"],
+    [new TypeError("fetch failed"), "network"],
+    [httpError(502, "Bad Gateway"), "unknown"],
+    [new Error("Something else"), "unknown"],
+  ])("classifies %s", (error, kind) => {
+    expect(toGitHubApiError(error).kind).toBe(kind);
+  });
+});
+
+describe("fetchCodeScanningAlerts", () => {
+  it("treats a disabled feature as no listing", async () => {
+    const octokit = makeOctokit(async () => {
+      throw httpError(404);
+    });
+
+    const result = await fetchCodeScanningAlerts(octokit, repo);
+    expect(result).toEqual({ alerts: null, validators: null });
+  });
+
+  it("still fails on rate limits", async () => {
+    const octokit = makeOctokit(async () => {
+      throw httpError(429, "Too Many Requests");
+    });
+
+    await expect(fetchCodeScanningAlerts(octokit, repo)).rejects.toMatchObject({
+      kind: "rate_limited",
+    });
+  });
+});
+
+describe("fetchRepoMetadata", () => {
+  it("maps the repo fields and stores validators", async () => {
+    const octokit = makeOctokit(async () => ({
+      data: {
+        topics: ["production"],
+        visibility: "internal",
+        archived: false,
+        default_branch: "main",
+        language: "TypeScript",
+      },
+      headers: { etag: '"repo"' },
+    }));
+
+    const result = await fetchRepoMetadata(octokit, repo);
+    expect(result.metadata).toMatchObject({
+      topics: ["production"],
+      visibility: "internal",
+      archived: false,
+      defaultBranch: "main",
+      language: "TypeScript",
+    });
+    expect(result.validators).toEqual({ etag: '"repo"', lastModified: null });
+  });
+
+  it("derives visibility from the private flag when it is missing", async () => {
+    const octokit = makeOctokit(async () => ({ data: { private: true }, headers: {} }));
+
+    const result = await fetchRepoMetadata(octokit, repo);
+    expect(result.metadata).toMatchObject({ visibility: "private", topics: [], language: null });
+  });
+
+  it("returns null metadata on 304", async () => {
+    const octokit = makeOctokit(async () => {
+      throw httpError(304);
+    });
+    const validators = { etag: '"repo"', lastModified: null };
+
+    const result = await fetchRepoMetadata(octokit, repo, validators);
+    expect(result).toEqual({ metadata: null, validators });
+    expect(octokit.request.mock.calls[0][1].headers).toEqual({ "if-none-match": '"repo"' });
+  });
+});
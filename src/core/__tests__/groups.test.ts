@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Octokit } from '@octokit/rest';
+import { getRepoGroups, openDatabase } from '../db.js';
+import { importGitHubTeams } from '../groups.js';
+
+type Team = { slug: string; name: string; description: string | null; repos: string[] };
+
+/** Fakes `teams.list` and `teams.listReposInOrg` for one org's teams. */
+function makeOctokit(teams: Team[] | Error) {
+  const list = vi.fn();
+  const listReposInOrg = vi.fn();
+  const paginate = vi.fn(async (method: unknown, params: { team_slug?: string }) => {
+    if (teams instanceof Error) throw teams;
+    if (method === list) return teams;
+    const team = teams.find((t) => t.slug === params.team_slug);
+    return (team?.repos ?? []).map((name) => ({ name, owner: { login: 'acme' } }));
+  });
+  return { paginate, rest: { teams: { list, listReposInOrg } } } as unknown as Octokit;
+}
+
+describe('importGitHubTeams', () => {
+  it('saves each team as a group of its repos', async () => {
+    const db = openDatabase(':memory:');
+    const octokit = makeOctokit([
+      { slug: 'payments', name: 'Payments', description: 'Owns billing', repos: ['billing'] },
+      { slug: 'platform', name: 'Platform', description: null, repos: ['api', 'infra'] },
+    ]);
+
+    const groups = await importGitHubTeams(db, octokit, 'acme');
+
+    expect(groups.map((g) => [g.name, g.description, g.source, g.repos])).toEqual([
+      ['acme/payments', 'Owns billing', 'github_team', ['acme/billing']],
+      ['acme/platform', 'Platform', 'github_team', ['acme/api', 'acme/infra']],
+    ]);
+  });
+
+  it('host-qualifies names and repos off the default host', async () => {
+    const db = openDatabase(':memory:');
+    const octokit = makeOctokit([{ slug: 'ops', name: 'Ops', description: null, repos: ['tools'] }]);
+
+    const [group] = await importGitHubTeams(db, octokit, 'acme', 'ghe.example.com');
+
+    expect(group.name).toBe('ghe.example.com:acme/ops');
+    expect(group.repos).toEqual(['ghe.example.com:acme/tools']);
+  });
+
+  it('replaces the repos of teams imported before', async () => {
+    const db = openDatabase(':memory:');
+    await importGitHubTeams(
+      db,
+      makeOctokit([{ slug: 'payments', name: 'Payments', description: null, repos: ['billing'] }]),
+      'acme'
+    );
+    await importGitHubTeams(
+      db,
+      makeOctokit([{ slug: 'payments', name: 'Payments', description: null, repos: ['ledger'] }]),
+      'acme'
+    );
+
+    expect(getRepoGroups(db).map((g) => g.repos)).toEqual([['acme/ledger']]);
+  });
+
+  it('classifies GitHub failures', async () => {
+    const db = openDatabase(':memory:');
+    const forbidden = Object.assign(new Error('Forbidden'), {
+      status: 403,
+      response: { headers: {} },
+    });
+
+    await expect(importGitHubTeams(db, makeOctokit(forbidden), 'acme')).rejects.toMatchObject({
+      kind: 'forbidden',
+    });
+    expect(getRepoGroups(db)).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_HOST,
+  hostTokenVariable,
+  parseHostTarget,
+  parseRepoKey,
+  resolveHosts,
+  toRepoKey,
+} from "../hosts.js";
+
+describe("repo keys", () => {
+  it("keeps plain owner/name keys for the default host", () => {
+    expect(toRepoKey(DEFAULT_HOST, "octo", "app")).toBe("octo/app");
+    expect(parseRepoKey("octo/app")).toEqual({
+      host: DEFAULT_HOST,
+      owner: "octo",
+      name: "app",
+      fullName: "octo/app",
+    });
+  });
+
+  it("qualifies repos on other hosts", () => {
+    expect(toRepoKey("ghes", "octo", "app")).toBe("ghes:octo/app");
+    expect(parseRepoKey("ghes:octo/app")).toEqual({
+      host: "ghes",
+      owner: "octo",
+      name: "app",
+      fullName: "ghes:octo/app",
+    });
+  });
+
+  it("rejects malformed keys", () => {
+    expect(parseRepoKey("octo")).toBeNull();
+    expect(parseRepoKey("a:b:octo/app")).toBeNull();
+    expect(parseRepoKey("octo/app/extra")).toBeNull();
+  });
+});
+
+describe("parseHostTarget", () => {
+  it("splits host-qualified targets", () => {
+    expect(parseHostTarget("ghes:platform")).toEqual({ host: "ghes", value: "platform" });
+    expect(parseHostTarget("acme")).toEqual({ host: DEFAULT_HOST, value: "acme" });
+  });
+});
+
+describe("resolveHosts", () => {
+  it("returns only the default host without configuration", () => {
+    expect(resolveHosts({})).toEqual([{ name: DEFAULT_HOST, baseUrl: null, token: null }]);
+  });
+
+  it("points the default host at GITHUB_API_URL", () => {
+    expect(resolveHosts({ GITHUB_API_URL: "https://ghe.example.com/api/v3" })[0].baseUrl).toBe(
+      "https://ghe.example.com/api/v3"
+    );
+  });
+
+  it("reads named hosts with their tokens", () => {
+    const hosts = resolveHosts({
+      GH_MONIT_HOSTS: "ghes=https://ghe.example.com/api/v3/, eu-ghes=https://eu.example.com/api/v3",
+      GH_MONIT_HOST_GHES_TOKEN: "ghp_one",
+      GH_MONIT_HOST_EU_GHES_TOKEN: "ghp_two",
+    });
+
+    expect(hosts.slice(1)).toEqual([
+      { name: "ghes", baseUrl: "https://ghe.example.com/api/v3", token: "ghp_one" },
+      { name: "eu-ghes", baseUrl: "https://eu.example.com/api/v3", token: "ghp_two" },
+    ]);
+    expect(hostTokenVariable("eu-ghes")).toBe("GH_MONIT_HOST_EU_GHES_TOKEN");
+  });
+
+  it("rejects malformed and duplicate entries", () => {
+    expect(() => resolveHosts({ GH_MONIT_HOSTS: "https://ghe.example.com" })).toThrow(
+      /Invalid GH_MONIT_HOSTS entry/
+    );
+    expect(() => resolveHosts({ GH_MONIT_HOSTS: "a=https://x,a=https://y" })).toThrow(
+      /more than once/
+    );
+  });
+});
@@ -0,0 +1,453 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import http from 'node:http';
+import net from 'node:net';
+import type { AddressInfo } from 'node:net';
+import type Database from 'better-sqlite3';
+import {
+  createNotificationChannel,
+  getAlertEvents,
+  getNotificationChannel,
+  openDatabase,
+  saveAlerts,
+  saveCodeScanningAlerts,
+  saveSecretScanningAlerts,
+} from '../db.js';
+import { dispatchNotifications, resolveSmtpConfig } from '../notifications.js';
+import { sendMail } from '../smtp.js';
+import type { SmtpConfig } from '../smtp.js';
+import type { NotificationChannelInput } from '../../types.js';
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 86_400_000).toISOString();
+}
+
+function alert(alertNumber: number, state: string, severity: string, createdAt: string) {
+  return {
+    repo: 'owner/repo',
+    alertNumber,
+    state,
+    severity,
+    packageName: 'lodash',
+    manifestPath: 'package.json',
+    ecosystem: 'npm',
+    createdAt,
+    updatedAt: createdAt,
+    dismissedAt: null,
+    fixedAt: null,
+    htmlUrl: `https://github.com/owner/repo/security/dependabot/${alertNumber}`,
+    ghsaId: 'GHSA-1111',
+    cveId: null,
+    advisorySummary: null,
+    cvssScore: null,
+    patchedVersion: null,
+    dismissedReason: null,
+    dismissedComment: null,
+    dismissedBy: null,
+    rawJson: '{}',
+  };
+}
+
+/**
+ * Syncs, relative to now: #1 (high) and #3 (low) created a day ago, #2
+ * (critical) first seen 10 days ago and past its 2-day SLA since, #4 (high)
+ * fixed 50 days ago and reopened 2 days ago, and code scanning alert #7
+ * (high) created 3 days ago.
+ */
+function seedAlerts(db: Database.Database): void {
+  const old = daysAgo(100);
+  saveAlerts(db, 'owner/repo', [alert(4, 'open', 'high', old)], old);
+  saveAlerts(db, 'owner/repo', [alert(4, 'fixed', 'high', old)], daysAgo(50));
+  saveAlerts(db, 'owner/repo', [alert(2, 'open', 'critical', daysAgo(60))], daysAgo(10));
+  saveAlerts(db, 'owner/repo', [alert(4, 'open', 'high', old)], daysAgo(2));
+  saveAlerts(
+    db,
+    'owner/repo',
+    [alert(1, 'open', 'high', daysAgo(1)), alert(3, 'open', 'low', daysAgo(1.5))],
+    daysAgo(1)
+  );
+  saveCodeScanningAlerts(
+    db,
+    'owner/repo',
+    [
+      {
+        repo: 'owner/repo',
+        alertNumber: 7,
+        state: 'open',
+        severity: 'high',
+        ruleId: 'js/sql-injection',
+        ruleDescription: null,
+        toolName: 'CodeQL',
+        path: 'src/db.js',
+        createdAt: daysAgo(3),
+        updatedAt: daysAgo(3),
+        dismissedAt: null,
+        fixedAt: null,
+        htmlUrl: null,
+        rawJson: '{}',
+      },
+    ],
+    daysAgo(3)
+  );
+}
+
+/** Syncs open secret scanning alert `alertNumber`, created and first seen `days` ago. */
+function saveSecret(db: Database.Database, alertNumber: number, days: number) {
+  saveSecretScanningAlerts(
+    db,
+    'owner/repo',
+    [
+      {
+        repo: 'owner/repo',
+        alertNumber,
+        state: 'open',
+        secretType: 'github_personal_access_token',
+        secretTypeDisplayName: 'GitHub Personal Access Token',
+        validity: 'active',
+        pushProtectionBypassed: false,
+        pushProtectionBypassedBy: null,
+        pushProtectionBypassedAt: null,
+        resolution: null,
+        resolvedAt: null,
+        resolvedBy: null,
+        createdAt: daysAgo(days),
+        updatedAt: daysAgo(days),
+        htmlUrl: null,
+        rawJson: '{}',
+      },
+    ],
+    daysAgo(days)
+  );
+}
+
+function addChannel(db: Database.Database, input: Partial<NotificationChannelInput>) {
+  return createNotificationChannel(
+    db,
+    {
+      type: 'webhook',
+      name: 'Hook',
+      target: 'http://127.0.0.1:1/',
+      minSeverity: 'high',
+      events: ['new', 'reopened', 'sla_breached'],
+      enabled: true,
+      ...input,
+    },
+    daysAgo(30)
+  );
+}
+
+/** Local HTTP stand-in for webhook channels, answering with `status`. */
+async function startHttpServer() {
+  const received: { url: string; body: any }[] = [];
+  const state = { status: 200 };
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      received.push({ url: req.url ?? '', body: JSON.parse(body) });
+      res.writeHead(state.status).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, received, state, url: (path: string) => `http://127.0.0.1:${port}${path}` };
+}
+
+/** Local SMTP stand-in that accepts every message and records the session. */
+async function startSmtpServer() {
+  const commands: string[] = [];
+  const messages: string[] = [];
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let data: string[] | null = null;
+    socket.write('220 localhost ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        if (data) {
+          if (line === '.') {
+            messages.push(data.join('\r\n'));
+            data = null;
+            socket.write('250 Queued\r\n');
+          } else {
+            data.push(line);
+          }
+          continue;
+        }
+        commands.push(line);
+        if (line.startsWith('EHLO')) socket.write('250-localhost\r\n250 AUTH PLAIN\r\n');
+        else if (line.startsWith('AUTH')) socket.write('235 Authenticated\r\n');
+        else if (line === 'DATA') {
+          data = [];
+          socket.write('354 Go ahead\r\n');
+        } else if (line === 'QUIT') socket.end('221 Bye\r\n');
+        else socket.write('250 OK\r\n');
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, commands, messages, port };
+}
+
+describe('getAlertEvents', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = openDatabase(':memory:');
+    seedAlerts(db);
+  });
+
+  it('reports new, reopened and SLA-breached alerts since a time, oldest first', () => {
+    const events = getAlertEvents(db, daysAgo(30));
+
+    expect(events.map((e) => [e.kind, e.source, e.alertNumber])).toEqual([
+      ['sla_breached', 'dependabot', 2],
+      ['new', 'code_scanning', 7],
+      ['reopened', 'dependabot', 4],
+      ['new', 'dependabot', 3],
+      ['new', 'dependabot', 1],
+    ]);
+    expect(events[1]).toMatchObject({ severity: 'high', subject: 'js/sql-injection' });
+  });
+
+  it('leaves out events before the given time', () => {
+    expect(getAlertEvents(db, daysAgo(1.2)).map((e) => e.alertNumber)).toEqual([1]);
+  });
+
+  it('reads only events detected after the given detection time', () => {
+    // Created on GitHub five days ago, first synced now
+    saveAlerts(db, 'owner/repo', [alert(5, 'open', 'medium', daysAgo(5))], daysAgo(0));
+
+    const events = getAlertEvents(db, daysAgo(30), daysAgo(0.5));
+
+    expect(events.map((e) => [e.kind, e.alertNumber])).toEqual([['new', 5]]);
+    expect(Date.parse(events[0].occurredAt)).toBeLessThan(Date.parse(daysAgo(4)));
+  });
+
+  it('reports secret scanning alerts as critical', () => {
+    saveSecret(db, 8, 3);
+
+    const secrets = getAlertEvents(db, daysAgo(30)).filter((e) => e.source === 'secret_scanning');
+
+    // Past the one-day secret SLA two days ago
+    expect(secrets.map((e) => [e.kind, e.alertNumber, e.severity])).toEqual([
+      ['new', 8, 'critical'],
+      ['sla_breached', 8, 'critical'],
+    ]);
+    expect(secrets[0].subject).toBe('GitHub Personal Access Token');
+  });
+});
+
+describe('dispatchNotifications', () => {
+  let db: Database.Database;
+  let hooks: Awaited<ReturnType<typeof startHttpServer>>;
+
+  beforeEach(async () => {
+    db = openDatabase(':memory:');
+    seedAlerts(db);
+    hooks = await startHttpServer();
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => hooks.server.close(resolve));
+  });
+
+  it('sends each channel its events at or above its threshold, only once', async () => {
+    const slack = addChannel(db, { type: 'slack', name: 'Slack', target: hooks.url('/slack') });
+    const teams = addChannel(db, {
+      type: 'teams',
+      name: 'Teams',
+      target: hooks.url('/teams'),
+      minSeverity: 'critical',
+    });
+    const webhook = addChannel(db, {
+      name: 'Hook',
+      target: hooks.url('/hook'),
+      minSeverity: 'low',
+      events: ['new'],
+    });
+    addChannel(db, { name: 'Off', target: hooks.url('/off'), enabled: false });
+
+    const deliveries = await dispatchNotifications(db, { smtp: null });
+
+    expect(deliveries).toEqual([
+      { channelId: slack.id, name: 'Slack', sent: 4, error: null },
+      { channelId: teams.id, name: 'Teams', sent: 1, error: null },
+      { channelId: webhook.id, name: 'Hook', sent: 3, error: null },
+    ]);
+    expect(hooks.received.map((r) => r.url)).toEqual(['/slack', '/teams', '/hook']);
+
+    const [slackBody, teamsBody, hookBody] = hooks.received.map((r) => r.body);
+    expect(slackBody.text).toContain('*gh-monit: 2 new, 1 reopened, 1 SLA breached alerts*');
+    expect(slackBody.text).toContain(
+      '• <https://github.com/owner/repo/security/dependabot/4|owner/repo#4> ' +
+        '[reopened] high Dependabot alert (lodash)'
+    );
+    expect(teamsBody).toMatchObject({
+      '@type': 'MessageCard',
+      title: 'gh-monit: 1 SLA breached alert',
+    });
+    expect(hookBody.events.map((e: { alertNumber: number }) => e.alertNumber)).toEqual([7, 3, 1]);
+    expect(getNotificationChannel(db, slack.id)).toMatchObject({ lastError: null });
+    expect(getNotificationChannel(db, slack.id)?.lastSentAt).not.toBeNull();
+
+    expect(await dispatchNotifications(db, { smtp: null })).toEqual([]);
+    expect(hooks.received).toHaveLength(3);
+  });
+
+  it('scans only from the cursor of the last dispatch on', async () => {
+    const channel = addChannel(db, { target: hooks.url('/hook'), minSeverity: 'critical' });
+    expect((await dispatchNotifications(db, { smtp: null }))[0]).toMatchObject({ sent: 1 });
+
+    // With the log gone, only the cursor keeps old events from being read again
+    db.exec('DELETE FROM notification_log');
+    expect(await dispatchNotifications(db, { smtp: null })).toEqual([]);
+
+    // Detected after the cursor, though GitHub created them earlier
+    saveSecret(db, 8, 0);
+    saveAlerts(db, 'owner/repo', [alert(5, 'open', 'critical', daysAgo(5))], daysAgo(0));
+    const [delivery] = await dispatchNotifications(db, { smtp: null });
+    expect(delivery).toMatchObject({ channelId: channel.id, sent: 2 });
+    expect(hooks.received[1].body.events.map((e: { source: string }) => e.source)).toEqual([
+      'dependabot',
+      'secret_scanning',
+    ]);
+  });
+
+  it('keeps events of a failed delivery for the next dispatch', async () => {
+    const channel = addChannel(db, { target: hooks.url('/hook') });
+    hooks.state.status = 500;
+
+    expect(await dispatchNotifications(db, { smtp: null })).toEqual([
+      { channelId: channel.id, name: 'Hook', sent: 0, error: 'HTTP 500 Internal Server Error' },
+    ]);
+    expect(getNotificationChannel(db, channel.id)).toMatchObject({
+      lastSentAt: null,
+      lastError: 'HTTP 500 Internal Server Error',
+    });
+
+    hooks.state.status = 200;
+    expect((await dispatchNotifications(db, { smtp: null }))[0]).toMatchObject({
+      sent: 4,
+      error: null,
+    });
+    expect(getNotificationChannel(db, channel.id)?.lastError).toBeNull();
+  });
+
+  it('emails events through the SMTP server', async () => {
+    const smtp = await startSmtpServer();
+    const config: SmtpConfig = {
+      host: '127.0.0.1',
+      port: smtp.port,
+      secure: false,
+      user: null,
+      password: null,
+      from: 'gh-monit <gh-monit@example.com>',
+    };
+    addChannel(db, {
+      type: 'email',
+      name: 'AppSec',
+      target: 'a@example.com, b@example.com',
+      events: ['reopened'],
+    });
+
+    try {
+      const [delivery] = await dispatchNotifications(db, { smtp: config });
+      expect(delivery).toMatchObject({ sent: 1, error: null });
+    } finally {
+      await new Promise((resolve) => smtp.server.close(resolve));
+    }
+
+    expect(smtp.commands.slice(1)).toEqual([
+      'MAIL FROM:<gh-monit@example.com>',
+      'RCPT TO:<a@example.com>',
+      'RCPT TO:<b@example.com>',
+      'DATA',
+      'QUIT',
+    ]);
+    expect(smtp.messages[0]).toContain('From: gh-monit <gh-monit@example.com>\r\n');
+    expect(smtp.messages[0]).toContain('Subject: gh-monit: 1 reopened alert\r\n');
+    expect(smtp.messages[0]).toContain(
+      'owner/repo#4 [reopened] high Dependabot alert (lodash)\r\n' +
+        '  https://github.com/owner/repo/security/dependabot/4'
+    );
+  });
+
+  it('reports email channels without an SMTP server', async () => {
+    addChannel(db, { type: 'email', name: 'AppSec', target: 'a@example.com' });
+
+    const [delivery] = await dispatchNotifications(db, { smtp: null });
+
+    expect(delivery.error).toMatch(/No SMTP server configured/);
+  });
+});
+
+describe('sendMail', () => {
+  const message = { to: ['a@example.com'], subject: 'Test', text: 'Hello' };
+
+  it('refuses to send the password without TLS', async () => {
+    const smtp = await startSmtpServer();
+    const config: SmtpConfig = {
+      host: '127.0.0.1',
+      port: smtp.port,
+      secure: false,
+      user: 'monit',
+      password: 's3cret',
+      from: 'gh-monit@example.com',
+    };
+
+    try {
+      await expect(sendMail(config, message)).rejects.toThrow(/does not offer STARTTLS/);
+    } finally {
+      await new Promise((resolve) => smtp.server.close(resolve));
+    }
+
+    expect(smtp.commands.some((line) => line.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('times out a connection that never completes', async () => {
+    // A TLS handshake against a server that never answers stalls until the timeout
+    const sockets: net.Socket[] = [];
+    const server = net.createServer((socket) => sockets.push(socket));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const config: SmtpConfig = {
+      host: '127.0.0.1',
+      port,
+      secure: true,
+      user: null,
+      password: null,
+      from: 'gh-monit@example.com',
+    };
+
+    try {
+      await expect(sendMail(config, message, 50)).rejects.toThrow(/Could not connect.*timed out/);
+    } finally {
+      sockets.forEach((socket) => socket.destroy());
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
+
+describe('resolveSmtpConfig', () => {
+  it('needs a host and a sender and defaults the port', () => {
+    expect(resolveSmtpConfig({ GH_MONIT_SMTP_HOST: 'smtp.example.com' })).toBeNull();
+    expect(
+      resolveSmtpConfig({
+        GH_MONIT_SMTP_HOST: 'smtp.example.com',
+        GH_MONIT_SMTP_FROM: 'gh-monit@example.com',
+        GH_MONIT_SMTP_SECURE: 'true',
+      })
+    ).toEqual({
+      host: 'smtp.example.com',
+      port: 465,
+      secure: true,
+      user: null,
+      password: null,
+      from: 'gh-monit@example.com',
+    });
+  });
+});
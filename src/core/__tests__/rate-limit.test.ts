@@ -0,0 +1,182 @@
+import { describe, it, expect, vi } from "vitest";
+import type { Octokit } from "@octokit/rest";
+import { getRateLimitStatus, installRateLimiter } from "../rate-limit.js";
+import type { RateLimiterOptions } from "../rate-limit.js";
+
+type Wrapper = (request: (opts: unknown) => Promise<unknown>, opts: unknown) => Promise<unknown>;
+
+const NOW = Date.parse("2024-01-01T00:00:00Z");
+const RESET = NOW / 1000 + 600;
+
+function makeOctokit() {
+  let wrapper: Wrapper | null = null;
+  const octokit = {
+    hook: {
+      wrap: (_name: string, fn: Wrapper) => {
+        wrapper = fn;
+      },
+    },
+  } as unknown as Octokit;
+  const send = (request: (opts: unknown) => Promise<unknown>, opts: unknown = { url: "/" }) =>
+    wrapper!(request, opts);
+  return { octokit, send };
+}
+
+function install(
+  octokit: Octokit,
+  sleep = vi.fn(async (_ms: number) => {}),
+  options: RateLimiterOptions = {}
+) {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  installRateLimiter(octokit, {
+    sleep,
+    random: () => 0.5,
+    now: () => NOW,
+    ...options,
+  });
+  return { sleep };
+}
+
+function rateLimitError(status: number, headers: Record<string, string>, message = "Forbidden") {
+  return Object.assign(new Error(message), { status, response: { headers } });
+}
+
+function quotaHeaders(remaining: number) {
+  return {
+    "x-ratelimit-limit": "5000",
+    "x-ratelimit-remaining": String(remaining),
+    "x-ratelimit-used": String(5000 - remaining),
+    "x-ratelimit-reset": String(RESET),
+    "x-ratelimit-resource": "core",
+  };
+}
+
+describe("installRateLimiter", () => {
+  it("records the quota from response headers", async () => {
+    const { octokit, send } = makeOctokit();
+    install(octokit);
+
+    await send(async () => ({ data: [], headers: quotaHeaders(4200) }));
+
+    const status = getRateLimitStatus(octokit);
+    expect(status).toMatchObject({
+      resource: "core",
+      limit: 5000,
+      remaining: 4200,
+      used: 800,
+      resetAt: new Date(RESET * 1000).toISOString(),
+      retries: 0,
+    });
+  });
+
+  it("retries after the retry-after header", async () => {
+    const { octokit, send } = makeOctokit();
+    const { sleep } = install(octokit);
+    const request = vi
+      .fn()
+      .mockRejectedValueOnce(rateLimitError(403, { "retry-after": "30" }, "secondary rate limit"))
+      .mockResolvedValueOnce({ data: "ok", headers: {} });
+
+    await expect(send(request)).resolves.toMatchObject({ data: "ok" });
+    expect(request).toHaveBeenCalledTimes(2);
+    // 30s plus half of the 1s base delay as jitter
+    expect(sleep).toHaveBeenCalledWith(30_500);
+    expect(getRateLimitStatus(octokit)?.retries).toBe(1);
+  });
+
+  it("waits for the reset time when the primary quota is exhausted", async () => {
+    const { octokit, send } = makeOctokit();
+    const { sleep } = install(octokit);
+    const request = vi
+      .fn()
+      .mockRejectedValueOnce(rateLimitError(403, quotaHeaders(0)))
+      .mockResolvedValueOnce({ data: "ok", headers: {} });
+
+    await send(request);
+    expect(sleep).toHaveBeenCalledWith(600_500);
+  });
+
+  it("backs off exponentially on 429 without hints", async () => {
+    const { octokit, send } = makeOctokit();
+    const { sleep } = install(octokit);
+    const request = vi
+      .fn()
+      .mockRejectedValueOnce(rateLimitError(429, {}))
+      .mockRejectedValueOnce(rateLimitError(429, {}))
+      .mockResolvedValueOnce({ data: "ok", headers: {} });
+
+    await send(request);
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([1500, 2500]);
+    expect(getRateLimitStatus(octokit)?.retries).toBe(2);
+  });
+
+  it("rethrows a plain 403 without retrying", async () => {
+    const { octokit, send } = makeOctokit();
+    const { sleep } = install(octokit);
+    const request = vi.fn().mockRejectedValue(rateLimitError(403, quotaHeaders(4000)));
+
+    await expect(send(request)).rejects.toThrow("Forbidden");
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it("gives up after maxRetries", async () => {
+    const { octokit, send } = makeOctokit();
+    install(octokit);
+    const request = vi.fn().mockRejectedValue(rateLimitError(429, {}));
+
+    await expect(send(request)).rejects.toThrow("Forbidden");
+    expect(request).toHaveBeenCalledTimes(4);
+  });
+
+  it("spreads requests out once the remaining budget is low", async () => {
+    const { octokit, send } = makeOctokit();
+    const { sleep } = install(octokit);
+
+    await send(async () => ({ data: [], headers: quotaHeaders(9) }));
+    expect(sleep).not.toHaveBeenCalled();
+
+    await send(async () => ({ data: [], headers: quotaHeaders(8) }));
+    // 600s until reset shared across the 10 remaining slots
+    expect(sleep).toHaveBeenCalledWith(60_000);
+  });
+
+  it("queues concurrent requests into consecutive slots", async () => {
+    const { octokit, send } = makeOctokit();
+    const { sleep } = install(octokit);
+    await send(async () => ({ data: [], headers: quotaHeaders(9) }));
+
+    await Promise.all([
+      send(async () => ({ data: [], headers: {} })),
+      send(async () => ({ data: [], headers: {} })),
+    ]);
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([60_000, 120_000]);
+  });
+});
+
+describe("separate quotas", () => {
+  it("paces each quota on its own and reports the most constrained one", async () => {
+    const { octokit, send } = makeOctokit();
+    const { sleep } = install(octokit, undefined, {
+      quotaKey: (request) => request.request?.installationAccount ?? "",
+    });
+    const acme = { url: "/", request: { installationAccount: "acme" } };
+    const octo = { url: "/", request: { installationAccount: "octo" } };
+
+    await send(async () => ({ data: [], headers: quotaHeaders(8) }), acme);
+    await send(async () => ({ data: [], headers: quotaHeaders(4000) }), octo);
+    await send(async () => ({ data: [], headers: {} }), octo);
+    expect(sleep).not.toHaveBeenCalled();
+
+    await send(async () => ({ data: [], headers: {} }), acme);
+    expect(sleep).toHaveBeenCalledTimes(1);
+    expect(getRateLimitStatus(octokit)?.remaining).toBe(8);
+  });
+});
+
+describe("getRateLimitStatus", () => {
+  it("returns null for a client without a limiter", () => {
+    const { octokit } = makeOctokit();
+    expect(getRateLimitStatus(octokit)).toBeNull();
+  });
+});
@@ -1,5 +1,20 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { CronExpressionParser } from 'cron-parser';
+import type { Octokit } from '@octokit/rest';
+import {
+  getAllRepoSummaries,
+  getCacheValidators,
+  getSyncRun,
+  openDatabase,
+  saveAlerts,
+  setUpstreamState,
+} from '../db.js';
+import {
+  refreshAllRepos,
+  refreshRepos,
+  resolveRefreshConcurrency,
+  syncRepo,
+} from '../scheduler.js';
 
 /**
  * Tests for cron next-run date computation.
@@ -63,3 +78,241 @@ describe('cron expression next-run computation', () => {
     expect(getNextRunDate('99 99 99 99 99')).toBeNull();
   });
 });
+
+describe('syncRepo conditional refresh', () => {
+  const repo = { owner: 'owner', name: 'repo', fullName: 'owner/repo' };
+  const dependabotAlert = {
+    number: 1,
+    state: 'fixed',
+    dependency: { package: { name: 'lodash', ecosystem: 'npm' } },
+    security_advisory: { severity: 'high' },
+  };
+
+  function makeOctokit(scanning?: () => unknown[]) {
+    const request = vi.fn(async (route: string, params: { headers?: Record<string, string> }) => {
+      if (scanning && route.includes('-scanning/')) {
+        return { data: scanning(), headers: { etag: '"scanning"' } };
+      }
+      if (params.headers?.['if-none-match']) {
+        throw Object.assign(new Error('Not Modified'), { status: 304 });
+      }
+      const data = route.includes('/dependabot/') ? [dependabotAlert] : [];
+      return { data, headers: { etag: `"${route}"` } };
+    });
+    return { request } as unknown as Octokit;
+  }
+
+  it('stores validators on the first sync and reports unchanged on a 304', async () => {
+    const db = openDatabase(':memory:');
+    const octokit = makeOctokit();
+
+    expect(await syncRepo(db, octokit, repo)).toBe('updated');
+    expect(getCacheValidators(db, 'owner/repo', 'dependabot')?.etag).toContain('dependabot');
+    const firstSync = getAllRepoSummaries(db)[0].lastSync!;
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    expect(await syncRepo(db, octokit, repo)).toBe('unchanged');
+    expect(getAllRepoSummaries(db)[0].lastSync! > firstSync).toBe(true);
+
+    db.close();
+  });
+
+  it('reports updated when a listing answers 200 with no alerts', async () => {
+    const db = openDatabase(':memory:');
+    await syncRepo(db, makeOctokit(), repo);
+
+    expect(await syncRepo(db, makeOctokit(() => []), repo)).toBe('updated');
+    expect(getCacheValidators(db, 'owner/repo', 'code_scanning')?.etag).toBe('"scanning"');
+
+    db.close();
+  });
+
+  it('reports unchanged when the scanning features are disabled', async () => {
+    const db = openDatabase(':memory:');
+    await syncRepo(db, makeOctokit(), repo);
+
+    const disabled = makeOctokit(() => {
+      throw Object.assign(new Error('Not Found'), { status: 404 });
+    });
+    expect(await syncRepo(db, disabled, repo)).toBe('unchanged');
+
+    db.close();
+  });
+});
+
+describe('refreshAllRepos worker pool', () => {
+  const openAlert = {
+    number: 1,
+    state: 'open',
+    dependency: { package: { name: 'lodash', ecosystem: 'npm' } },
+    security_advisory: { severity: 'high' },
+  };
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 2));
+
+  function seed(count: number) {
+    const db = openDatabase(':memory:');
+    for (let i = 0; i < count; i++) {
+      saveAlerts(db, `owner/repo-${i}`, [], '2024-01-01T00:00:00Z');
+    }
+    return db;
+  }
+
+  function makeOctokit(log: string[]) {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const request = vi.fn(async (route: string, params: { repo: string }) => {
+      const isDependabot = route.includes('/dependabot/');
+      if (isDependabot) {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        log.push(`alerts ${params.repo}`);
+      }
+      await tick();
+      if (isDependabot) inFlight--;
+      return { data: isDependabot ? [openAlert] : [], headers: {} };
+    });
+    const getContent = vi.fn(async ({ repo, path }: { repo: string; path: string }) => {
+      log.push(`${path.endsWith('CODEOWNERS') ? 'codeowners' : 'lockfile'} ${repo}`);
+      throw Object.assign(new Error('Not Found'), { status: 404 });
+    });
+    const octokit = { request, rest: { repos: { getContent } } } as unknown as Octokit;
+    return { octokit, maxInFlight: () => maxInFlight };
+  }
+
+  it('bounds parallel syncs and resolves lock files after all alerts', async () => {
+    const db = seed(6);
+    const log: string[] = [];
+    const { octokit, maxInFlight } = makeOctokit(log);
+
+    const result = await refreshAllRepos(db, new Map([['github.com', octokit]]), undefined, {
+      concurrency: 3,
+    });
+
+    expect(result).toMatchObject({ refreshed: 6, failed: 0, total: 6 });
+    expect(result.results.map((r) => r.repo)).toEqual(
+      Array.from({ length: 6 }, (_, i) => `owner/repo-${i}`)
+    );
+    expect(maxInFlight()).toBe(3);
+
+    const lastAlerts = log.map((entry) => entry.startsWith('alerts')).lastIndexOf(true);
+    const firstLockfile = log.findIndex((entry) => entry.startsWith('lockfile'));
+    expect(firstLockfile).toBeGreaterThan(lastAlerts);
+
+    db.close();
+  });
+
+  it('delivers progress events one at a time in completed order', async () => {
+    const db = seed(5);
+    const { octokit } = makeOctokit([]);
+    const completed: number[] = [];
+    let active = 0;
+
+    await refreshAllRepos(
+      db,
+      new Map([['github.com', octokit]]),
+      async (event) => {
+        active++;
+        expect(active).toBe(1);
+        await tick();
+        completed.push(event.completed);
+        active--;
+      },
+      { concurrency: 4 }
+    );
+
+    expect(completed).toEqual([1, 2, 3, 4, 5]);
+    db.close();
+  });
+
+  it('fails repos whose host has no client', async () => {
+    const db = openDatabase(':memory:');
+    saveAlerts(db, 'ghes:owner/repo', [], '2024-01-01T00:00:00Z');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await refreshAllRepos(db, new Map(), undefined, { concurrency: 2 });
+    expect(result).toMatchObject({ refreshed: 0, failed: 1, total: 1 });
+
+    db.close();
+  });
+
+  it('stores a typed error on repos that fail and clears it on the next success', async () => {
+    const db = seed(1);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const disabled = {
+      request: vi.fn(async () => {
+        throw Object.assign(new Error('Dependabot alerts are disabled for this repository.'), {
+          status: 403,
+        });
+      }),
+    } as unknown as Octokit;
+
+    const failed = await refreshAllRepos(db, new Map([['github.com', disabled]]));
+    expect(failed.results[0].error).toMatchObject({ kind: 'dependabot_disabled' });
+    expect(getAllRepoSummaries(db)[0].lastError?.kind).toBe('dependabot_disabled');
+
+    const { octokit } = makeOctokit([]);
+    await refreshAllRepos(db, new Map([['github.com', octokit]]));
+    expect(getAllRepoSummaries(db)[0].lastError).toBeNull();
+
+    db.close();
+  });
+
+  it('records the run with each repo outcome and alert delta', async () => {
+    const db = seed(2);
+    saveAlerts(db, 'ghes:owner/repo', [], '2024-01-01T00:00:00Z');
+    const { octokit } = makeOctokit([]);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await refreshAllRepos(db, new Map([['github.com', octokit]]), undefined, {
+      trigger: 'cron',
+    });
+
+    const run = getSyncRun(db, result.runId);
+    expect(run).toMatchObject({
+      triggeredBy: 'cron',
+      status: 'completed',
+      total: 3,
+      refreshed: 2,
+      failed: 1,
+    });
+    expect(run!.repos.map((r) => [r.repo, r.outcome, r.alertDelta, r.error])).toEqual([
+      ['ghes:owner/repo', 'failed', 0, 'No GitHub client configured for this host'],
+      ['owner/repo-0', 'updated', 1, null],
+      ['owner/repo-1', 'updated', 1, null],
+    ]);
+
+    db.close();
+  });
+
+  it('skips repos deleted upstream until a refresh of that repo succeeds', async () => {
+    const db = seed(3);
+    setUpstreamState(db, 'owner/repo-1', 'deleted');
+    setUpstreamState(db, 'owner/repo-2', 'archived');
+    const log: string[] = [];
+    const { octokit } = makeOctokit(log);
+    const clients = new Map([['github.com', octokit]]);
+
+    const result = await refreshAllRepos(db, clients);
+    expect(result.results.map((r) => r.repo)).toEqual(['owner/repo-0', 'owner/repo-2']);
+    expect(log).not.toContain('alerts repo-1');
+
+    const repo = { owner: 'owner', name: 'repo-1', fullName: 'owner/repo-1' };
+    await refreshRepos(db, clients, [repo]);
+    const states = getAllRepoSummaries(db).map((s) => [s.repo, s.upstreamState]);
+    expect(states).toEqual([
+      ['owner/repo-0', null],
+      ['owner/repo-1', null],
+      ['owner/repo-2', 'archived'],
+    ]);
+
+    db.close();
+  });
+});
+
+describe('resolveRefreshConcurrency', () => {
+  it('reads GH_MONIT_REFRESH_CONCURRENCY and falls back to the default', () => {
+    expect(resolveRefreshConcurrency({ GH_MONIT_REFRESH_CONCURRENCY: '8' })).toBe(8);
+    expect(resolveRefreshConcurrency({ GH_MONIT_REFRESH_CONCURRENCY: '0' })).toBe(4);
+    expect(resolveRefreshConcurrency({})).toBe(4);
+  });
+});
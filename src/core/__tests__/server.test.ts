@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { Hono } from 'hono';
+import type { Octokit } from '@octokit/rest';
+import type Database from 'better-sqlite3';
+import { openDatabase, saveAlerts } from '../db.js';
+import { createServer } from '../server.js';
+
+function send(app: Hono, method: string, url: string, body: string) {
+  return app.request(url, { method, headers: { 'content-type': 'application/json' }, body });
+}
+
+describe('JSON bodies', () => {
+  let db: Database.Database;
+  let app: Hono;
+
+  beforeEach(() => {
+    db = openDatabase(':memory:');
+    app = createServer(db, new Map(), '/nonexistent');
+  });
+
+  it.each([
+    ['PUT', '/api/settings/risk'],
+    ['POST', '/api/exceptions'],
+    ['PUT', '/api/exceptions/1'],
+    ['POST', '/api/exceptions/1/revoke'],
+    ['POST', '/api/alerts/dismiss'],
+    ['POST', '/api/alerts/reopen'],
+    ['POST', '/api/groups'],
+    ['PUT', '/api/settings/sla'],
+    ['POST', '/api/notifications/channels'],
+  ])('rejects a body that is not an object on %s %s', async (method, url) => {
+    for (const body of ['null', '"x"', '1', '[]']) {
+      const res = await send(app, method, url, body);
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({ error: 'Expected a JSON object body' });
+    }
+  });
+
+  it('rejects a null alert annotation', async () => {
+    saveAlerts(
+      db,
+      'owner/repo',
+      [
+        {
+          repo: 'owner/repo',
+          alertNumber: 1,
+          state: 'open',
+          severity: 'high',
+          packageName: 'lodash',
+          manifestPath: 'package.json',
+          ecosystem: 'npm',
+          createdAt: '2024-01-01T00:00:00Z',
+          updatedAt: '2024-01-01T00:00:00Z',
+          dismissedAt: null,
+          fixedAt: null,
+          htmlUrl: null,
+          ghsaId: 'GHSA-1111',
+          cveId: null,
+          advisorySummary: null,
+          cvssScore: null,
+          patchedVersion: null,
+          dismissedReason: null,
+          dismissedComment: null,
+          dismissedBy: null,
+          rawJson: '{}',
+        },
+      ],
+      '2024-01-01T00:00:00Z'
+    );
+
+    const res = await send(app, 'PUT', '/api/repos/owner/repo/alerts/1/annotation', 'null');
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: 'Expected a JSON object body' });
+  });
+
+  it.each([
+    ['POST', '/api/groups', '{"name":5}'],
+    ['PUT', '/api/groups/1', '{"name":5}'],
+    ['POST', '/api/groups', '{"name":"Platform","description":5}'],
+    ['POST', '/api/groups/import', '{"org":5}'],
+  ])('rejects non-string group fields on %s %s', async (method, url, body) => {
+    const res = await send(app, method, url, body);
+    expect(res.status).toBe(400);
+  });
+
+  it.each([
+    '{"type":"org","name":5}',
+    '{"type":"org","name":"acme","host":5}',
+    '{"type":"org","name":"acme","namePattern":5}',
+  ])('rejects non-string watch target fields in %s', async (body) => {
+    const withHost = createServer(db, new Map([['github.com', {} as Octokit]]), '/nonexistent');
+
+    const res = await send(withHost, 'POST', '/api/watch-targets', body);
+
+    expect(res.status).toBe(400);
+  });
+
+  it('still reads a malformed body as empty', async () => {
+    const res = await send(app, 'POST', '/api/exceptions', '{');
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toMatch(/^Expected scope/);
+  });
+});
+
+describe('risk weights', () => {
+  const weights = {
+    severity: { critical: 10, high: 5, medium: 2, low: 1 },
+    cvss: 1,
+    epss: 1,
+    kev: 3,
+    developmentScope: 0,
+    overdue: 2,
+    agePerYear: 0.5,
+  };
+
+  it('rejects kev or overdue multipliers below 1', async () => {
+    const app = createServer(openDatabase(':memory:'), new Map(), '/nonexistent');
+
+    for (const factor of ['kev', 'overdue']) {
+      const body = JSON.stringify({ ...weights, [factor]: 0 });
+      const res = await send(app, 'PUT', '/api/settings/risk', body);
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toMatch(/at least 1/);
+    }
+
+    const res = await send(app, 'PUT', '/api/settings/risk', JSON.stringify(weights));
+    expect(res.status).toBe(200);
+  });
+});
+
+describe('SLA history', () => {
+  it.each(['/api/history/sla', '/api/history/sla/compliance'])(
+    'rejects an unknown source on %s',
+    async (url) => {
+      const app = createServer(openDatabase(':memory:'), new Map(), '/nonexistent');
+
+      const res = await app.request(`${url}?source=secret_scanning`);
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toMatch(/Expected source to be one of/);
+
+      expect((await app.request(`${url}?source=code_scanning`)).status).toBe(200);
+    }
+  );
+});
+
+describe('threat intel import', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gh-monit-server-'));
+  });
+
+  afterEach(() => {
+    delete process.env.GH_MONIT_KEV_URL;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads only the configured feed, never a source from the request', async () => {
+    const feed = path.join(dir, 'kev.json');
+    fs.writeFileSync(feed, JSON.stringify({ vulnerabilities: [] }));
+    process.env.GH_MONIT_KEV_URL = feed;
+    const app = createServer(openDatabase(':memory:'), new Map(), '/nonexistent');
+
+    const res = await send(app, 'POST', '/api/threat-intel/kev/import', '{"source":"/etc/passwd"}');
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).source).toBe(feed);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { gzipSync } from "node:zlib";
+import {
+  DEFAULT_KEV_URL,
+  parseEpssCsv,
+  parseKevJson,
+  readDataset,
+  resolveDatasetUrl,
+  ThreatIntelError,
+} from "../threat-intel.js";
+
+describe("parseEpssCsv", () => {
+  it("reads the score date and scores, skipping malformed rows", () => {
+    const dataset = parseEpssCsv(
+      [
+        "#model_version:v2025.03.14,score_date:2025-06-01T12:55:00Z",
+        "cve,epss,percentile",
+        "CVE-2024-0001,0.94321,0.99912",
+        "cve-2024-0002,0.0004,0.1",
+        "not-a-cve,0.5,0.5",
+        "CVE-2024-0003,,0.2",
+        "",
+      ].join("\r\n")
+    );
+    expect(dataset).toEqual({
+      scoredOn: "2025-06-01",
+      scores: [
+        { cveId: "CVE-2024-0001", epss: 0.94321, percentile: 0.99912 },
+        { cveId: "CVE-2024-0002", epss: 0.0004, percentile: 0.1 },
+      ],
+    });
+  });
+
+  it("finds columns by header name", () => {
+    expect(parseEpssCsv("percentile,cve,epss\n0.5,CVE-2024-0001,0.01").scores).toEqual([
+      { cveId: "CVE-2024-0001", epss: 0.01, percentile: 0.5 },
+    ]);
+  });
+
+  it("rejects content without the expected header", () => {
+    expect(() => parseEpssCsv("cveID,score\nCVE-2024-0001,0.1")).toThrow(ThreatIntelError);
+    expect(() => parseEpssCsv("# only a comment")).toThrow(/no header row/);
+  });
+});
+
+describe("parseKevJson", () => {
+  it("maps catalog entries", () => {
+    const catalog = parseKevJson(
+      JSON.stringify({
+        title: "CISA Catalog of Known Exploited Vulnerabilities",
+        catalogVersion: "2025.06.01",
+        dateReleased: "2025-06-01T15:00:00.000Z",
+        count: 1,
+        vulnerabilities: [
+          {
+            cveID: "CVE-2021-44228",
+            vendorProject: "Apache",
+            product: "Log4j2",
+            vulnerabilityName: "Apache Log4j2 Remote Code Execution Vulnerability",
+            dateAdded: "2021-12-10",
+            dueDate: "2021-12-24",
+            knownRansomwareCampaignUse: "Known",
+            notes: "",
+          },
+        ],
+      })
+    );
+    expect(catalog).toEqual({
+      catalogVersion: "2025.06.01",
+      releasedAt: "2025-06-01T15:00:00.000Z",
+      entries: [
+        {
+          cveId: "CVE-2021-44228",
+          vendorProject: "Apache",
+          product: "Log4j2",
+          vulnerabilityName: "Apache Log4j2 Remote Code Execution Vulnerability",
+          dateAdded: "2021-12-10",
+          dueDate: "2021-12-24",
+          knownRansomware: true,
+        },
+      ],
+    });
+  });
+
+  it("reports invalid JSON and malformed entries as parse errors", () => {
+    expect(() => parseKevJson("root:x:0:0")).toThrow(/^KEV catalog is not valid JSON$/);
+    try {
+      parseKevJson(JSON.stringify({ vulnerabilities: [{ cveID: 42 }] }));
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ThreatIntelError);
+      expect((error as ThreatIntelError).kind).toBe("parse");
+      expect((error as ThreatIntelError).message).toMatch(/vulnerabilities\.0\.cveID/);
+    }
+  });
+});
+
+describe("readDataset", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "gh-monit-intel-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reads plain and gzipped files", async () => {
+    fs.writeFileSync(path.join(dir, "kev.json"), "{}");
+    fs.writeFileSync(path.join(dir, "epss.csv.gz"), gzipSync("cve,epss,percentile\n"));
+
+    expect(await readDataset(path.join(dir, "kev.json"))).toBe("{}");
+    expect(await readDataset(path.join(dir, "epss.csv.gz"))).toBe("cve,epss,percentile\n");
+  });
+
+  it("reports unreadable sources as read errors", async () => {
+    await expect(readDataset(path.join(dir, "missing.csv"))).rejects.toMatchObject({
+      kind: "read",
+    });
+  });
+});
+
+describe("resolveDatasetUrl", () => {
+  it("prefers the configured source and falls back to the published feed", () => {
+    expect(resolveDatasetUrl("epss", { GH_MONIT_EPSS_URL: "/data/epss.csv.gz" })).toBe(
+      "/data/epss.csv.gz"
+    );
+    expect(resolveDatasetUrl("kev", { GH_MONIT_KEV_URL: "  " })).toBe(DEFAULT_KEV_URL);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type Database from 'better-sqlite3';
+import type { Octokit } from '@octokit/rest';
+import {
+  getAdvisoryAlertRefs,
+  getAlertTimeline,
+  getCachedAlerts,
+  getGlobalSummary,
+  openDatabase,
+  saveAlerts,
+} from '../db.js';
+import { changeAlertStates } from '../triage.js';
+
+function githubAlert(number: number, state: string, ghsaId = 'GHSA-1111') {
+  return {
+    number,
+    state,
+    html_url: `https://github.com/owner/repo/security/dependabot/${number}`,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-03-01T00:00:00Z',
+    dismissed_at: state === 'dismissed' ? '2024-03-01T00:00:00Z' : null,
+    dependency: { package: { name: 'lodash', ecosystem: 'npm' }, manifest_path: 'package.json' },
+    security_advisory: { ghsa_id: ghsaId, severity: 'high' },
+  };
+}
+
+/** Fakes the update-alert endpoint, answering with the alert in its new state. */
+function makeOctokit(fail: Record<number, Error> = {}) {
+  const request = vi.fn(async (_route: string, params: { alert_number: number; state: string }) => {
+    const error = fail[params.alert_number];
+    if (error) throw error;
+    return { data: githubAlert(params.alert_number, params.state) };
+  });
+  return { request } as unknown as Octokit & { request: typeof request };
+}
+
+describe('changeAlertStates', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = openDatabase(':memory:');
+    saveAlerts(
+      db,
+      'owner/repo',
+      [1, 2].map((n) => ({
+        repo: 'owner/repo',
+        alertNumber: n,
+        state: 'open',
+        severity: 'high',
+        packageName: 'lodash',
+        manifestPath: 'package.json',
+        ecosystem: 'npm',
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:00Z',
+        dismissedAt: null,
+        fixedAt: null,
+        htmlUrl: null,
+        ghsaId: 'GHSA-1111',
+        cveId: null,
+        advisorySummary: null,
+        cvssScore: null,
+        patchedVersion: null,
+        dismissedReason: null,
+        dismissedComment: null,
+        dismissedBy: null,
+        rawJson: '{}',
+      })),
+      '2024-01-01T00:00:00Z'
+    );
+  });
+
+  it('dismisses on GitHub and updates the stored alert and its history at once', async () => {
+    const octokit = makeOctokit();
+    const result = await changeAlertStates(
+      db,
+      new Map([['github.com', octokit]]),
+      [{ repo: 'owner/repo', alertNumber: 1 }],
+      { state: 'dismissed', dismissedReason: 'tolerable_risk', dismissedComment: 'Dev only' }
+    );
+
+    expect(result).toEqual({ updated: [{ repo: 'owner/repo', alertNumber: 1 }], failed: [] });
+    expect(octokit.request).toHaveBeenCalledWith(
+      'PATCH /repos/{owner}/{repo}/dependabot/alerts/{alert_number}',
+      {
+        owner: 'owner',
+        repo: 'repo',
+        alert_number: 1,
+        state: 'dismissed',
+        dismissed_reason: 'tolerable_risk',
+        dismissed_comment: 'Dev only',
+      }
+    );
+    const stored = getCachedAlerts(db, 'owner/repo').alerts.find((a) => a.alertNumber === 1);
+    expect(stored).toMatchObject({ state: 'dismissed', dismissedAt: '2024-03-01T00:00:00Z' });
+    expect(getAlertTimeline(db, 'owner/repo').map((e) => [e.alertNumber, e.state])).toContainEqual([
+      1,
+      'dismissed',
+    ]);
+    expect(getGlobalSummary(db).totalAlerts).toBe(1);
+    // The sync time still reflects the last full sync
+    expect(getCachedAlerts(db, 'owner/repo').lastSync).toBe('2024-01-01T00:00:00Z');
+  });
+
+  it('reports failures per alert and keeps going', async () => {
+    const forbidden = Object.assign(new Error('Resource not accessible by integration'), {
+      status: 403,
+    });
+    const result = await changeAlertStates(
+      db,
+      new Map([['github.com', makeOctokit({ 1: forbidden })]]),
+      [
+        { repo: 'owner/repo', alertNumber: 1 },
+        { repo: 'owner/repo', alertNumber: 2 },
+        { repo: 'ghe.example.com:owner/repo', alertNumber: 3 },
+      ],
+      { state: 'dismissed', dismissedReason: 'not_used', dismissedComment: null }
+    );
+
+    expect(result.updated).toEqual([{ repo: 'owner/repo', alertNumber: 2 }]);
+    expect(result.failed.map((f) => [f.repo, f.alertNumber, f.kind])).toEqual([
+      ['owner/repo', 1, 'forbidden'],
+      ['ghe.example.com:owner/repo', 3, 'unknown'],
+    ]);
+    expect(getAdvisoryAlertRefs(db, 'GHSA-1111', 'open')).toEqual([
+      { repo: 'owner/repo', alertNumber: 1 },
+    ]);
+  });
+
+  it('reopens dismissed alerts', async () => {
+    const clients = new Map([['github.com', makeOctokit()]]);
+    const refs = [{ repo: 'owner/repo', alertNumber: 1 }];
+    await changeAlertStates(db, clients, refs, {
+      state: 'dismissed',
+      dismissedReason: 'inaccurate',
+      dismissedComment: null,
+    });
+    await changeAlertStates(db, clients, getAdvisoryAlertRefs(db, 'GHSA-1111', 'dismissed'), {
+      state: 'open',
+    });
+
+    expect(getAdvisoryAlertRefs(db, 'GHSA-1111', 'open')).toHaveLength(2);
+  });
+});
@@ -1,7 +1,22 @@
-import type { NormalizedAlert, SeverityCounts } from "../types.js";
+import type {
+  NormalizedAlert,
+  NormalizedCodeScanningAlert,
+  NormalizedSecretScanningAlert,
+  SeverityCounts,
+} from "../types.js";
 
 export const SEVERITY_ORDER = ["critical", "high", "medium", "low", "unknown"];
 
+/**
+ * Maps non-security code scanning rule severities onto the Dependabot scale
+ * so both sources can share severity counts and SLA limits.
+ */
+const RULE_SEVERITY_MAP: Record<string, string> = {
+  error: "high",
+  warning: "medium",
+  note: "low",
+};
+
 export function normalizeAlerts(
   repo: string,
   alerts: unknown[]
@@ -34,11 +49,76 @@ export function normalizeAlerts(
       cvssScore,
       patchedVersion:
         alert?.security_vulnerability?.first_patched_version?.identifier ?? null,
+      dismissedReason: alert?.dismissed_reason ?? null,
+      dismissedComment: alert?.dismissed_comment ?? null,
+      dismissedBy: alert?.dismissed_by?.login ?? null,
+      rawJson: JSON.stringify(alert),
+    };
+  });
+}
+
+export function normalizeCodeScanningAlerts(
+  repo: string,
+  alerts: unknown[]
+): NormalizedCodeScanningAlert[] {
+  return alerts.map((alert: any) => {
+    const ruleSeverity = alert?.rule?.severity ?? null;
+    const severity =
+      alert?.rule?.security_severity_level ??
+      (ruleSeverity ? RULE_SEVERITY_MAP[ruleSeverity] : null) ??
+      "unknown";
+
+    return {
+      repo,
+      alertNumber: Number(alert?.number ?? 0),
+      state: String(alert?.state ?? "unknown"),
+      severity: String(severity),
+      ruleId: alert?.rule?.id ?? null,
+      ruleDescription: alert?.rule?.description ?? null,
+      toolName: alert?.tool?.name ?? null,
+      path: alert?.most_recent_instance?.location?.path ?? null,
+      createdAt: alert?.created_at ?? null,
+      updatedAt: alert?.updated_at ?? null,
+      dismissedAt: alert?.dismissed_at ?? null,
+      fixedAt: alert?.fixed_at ?? null,
+      htmlUrl: alert?.html_url ?? null,
       rawJson: JSON.stringify(alert),
     };
   });
 }
 
+/**
+ * Normalizes secret scanning alerts. The leaked `secret` value is dropped
+ * from the stored raw JSON so it never lands in the local database.
+ */
+export function normalizeSecretScanningAlerts(
+  repo: string,
+  alerts: unknown[]
+): NormalizedSecretScanningAlert[] {
+  return alerts.map((alert: any) => {
+    const { secret: _secret, ...rest } = alert ?? {};
+
+    return {
+      repo,
+      alertNumber: Number(alert?.number ?? 0),
+      state: String(alert?.state ?? "unknown"),
+      secretType: String(alert?.secret_type ?? "unknown"),
+      secretTypeDisplayName: alert?.secret_type_display_name ?? null,
+      validity: alert?.validity ?? null,
+      pushProtectionBypassed: Boolean(alert?.push_protection_bypassed),
+      pushProtectionBypassedBy: alert?.push_protection_bypassed_by?.login ?? null,
+      pushProtectionBypassedAt: alert?.push_protection_bypassed_at ?? null,
+      resolution: alert?.resolution ?? null,
+      resolvedAt: alert?.resolved_at ?? null,
+      resolvedBy: alert?.resolved_by?.login ?? null,
+      createdAt: alert?.created_at ?? null,
+      updatedAt: alert?.updated_at ?? null,
+      htmlUrl: alert?.html_url ?? null,
+      rawJson: JSON.stringify(rest),
+    };
+  });
+}
+
 export function summarizeAlerts(alerts: NormalizedAlert[]): SeverityCounts {
   return alerts.reduce<SeverityCounts>((acc, alert) => {
     const key = alert.severity.toLowerCase();
@@ -47,7 +127,7 @@ export function summarizeAlerts(alerts: NormalizedAlert[]): SeverityCounts {
   }, {});
 }
 
-export function sortAlerts(alerts: NormalizedAlert[]): NormalizedAlert[] {
+export function sortAlerts<T extends NormalizedAlert>(alerts: T[]): T[] {
   return [...alerts].sort((a, b) => {
     const aSeverity = a.severity.toLowerCase();
     const bSeverity = b.severity.toLowerCase();
@@ -0,0 +1,130 @@
+import type { Octokit } from '@octokit/rest';
+import { fetchDefaultBranchHead, toGitHubApiError } from './github.js';
+import type { CacheValidators, RepoRef } from '../types.js';
+
+/** Where GitHub looks for CODEOWNERS, in the order it checks them. */
+export const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+export type CodeownersFile = {
+  path: string;
+  content: string;
+};
+
+/** One CODEOWNERS line. A rule without owners leaves matching paths unowned. */
+export type CodeownersRule = {
+  pattern: string;
+  owners: string[];
+  matcher: RegExp;
+};
+
+export type CodeownersFetchResult = {
+  /** The file, or null when the repo has none. */
+  file: CodeownersFile | null;
+  /** Validators of the default branch head the file was read at. */
+  validators: CacheValidators | null;
+};
+
+/**
+ * Fetches the repo's CODEOWNERS from the first location that has one, at
+ * the head of the default branch. With `validators` from a previous fetch
+ * the head is looked up conditionally, and when it has not moved the file
+ * lookups are skipped and null is returned. Failures throw a `GitHubApiError`.
+ */
+export async function fetchCodeowners(
+  octokit: Octokit,
+  repo: RepoRef,
+  validators: CacheValidators | null = null
+): Promise<CodeownersFetchResult | null> {
+  const head = await fetchDefaultBranchHead(octokit, repo, validators);
+  if (head.sha === null) return null;
+
+  for (const path of CODEOWNERS_PATHS) {
+    try {
+      const { data } = await octokit.rest.repos.getContent({
+        owner: repo.owner,
+        repo: repo.name,
+        path,
+        ref: head.sha,
+        mediaType: { format: 'raw' },
+      });
+      const file = { path, content: typeof data === 'string' ? data : String(data) };
+      return { file, validators: head.validators };
+    } catch (error) {
+      const apiError = toGitHubApiError(error);
+      if (apiError.kind !== 'not_found') throw apiError;
+    }
+  }
+  return { file: null, validators: head.validators };
+}
+
+/**
+ * Parses CODEOWNERS content into rules, in file order. Blank lines,
+ * comments and lines with an invalid pattern are skipped.
+ */
+export function parseCodeowners(content: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    // Whitespace in patterns is escaped with a backslash
+    const tokens = trimmed.match(/(?:\\.|[^\s\\])+/g) ?? [];
+    const [rawPattern, ...rest] = tokens;
+    if (!rawPattern) continue;
+    const commentAt = rest.findIndex((token) => token.startsWith('#'));
+    const owners = commentAt === -1 ? rest : rest.slice(0, commentAt);
+    const pattern = rawPattern.replace(/\\(.)/g, '$1');
+
+    const matcher = toMatcher(pattern);
+    if (matcher) rules.push({ pattern, owners, matcher });
+  }
+  return rules;
+}
+
+/** Owners of a repo-relative path: those of the last matching rule, as GitHub resolves them. */
+export function matchCodeowners(rules: CodeownersRule[], filePath: string): string[] {
+  const normalized = filePath.replace(/^\/+/, '');
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (rules[i].matcher.test(normalized)) return rules[i].owners;
+  }
+  return [];
+}
+
+/**
+ * Converts a gitignore-style CODEOWNERS pattern to a RegExp over
+ * repo-relative paths. A pattern with a leading or inner `/` is anchored
+ * at the root; otherwise it matches at any depth. A pattern naming a
+ * directory also covers everything beneath it, except that a trailing
+ * `/*` only covers the directory's direct children.
+ */
+function toMatcher(pattern: string): RegExp | null {
+  const anchored = pattern.slice(0, -1).includes('/');
+  const directoryOnly = pattern.endsWith('/');
+  const body = pattern.replace(/^\//, '').replace(/\/$/, '');
+  if (!body) return null;
+
+  let source = '';
+  for (let i = 0; i < body.length; i++) {
+    if (body.startsWith('**/', i)) {
+      source += '(?:.*/)?';
+      i += 2;
+    } else if (body.startsWith('**', i)) {
+      source += '.*';
+      i += 1;
+    } else if (body[i] === '*') {
+      source += '[^/]*';
+    } else if (body[i] === '?') {
+      source += '[^/]';
+    } else {
+      source += body[i].replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const prefix = anchored ? '^' : '^(?:.*/)?';
+  const suffix = directoryOnly ? '/.*$' : body.endsWith('/*') ? '$' : '(?:/.*)?$';
+  try {
+    return new RegExp(prefix + source + suffix);
+  } catch {
+    return null;
+  }
+}
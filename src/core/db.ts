@@ -5,19 +5,75 @@ import path from "node:path";
 import { z } from "zod";
 
 import type {
+  AlertAnnotation,
+  AlertAnnotationInput,
+  AlertRef,
+  AlertSource,
+  AlertState,
+  CacheValidators,
   AlertTimelineEntry,
+  AnnotationFilters,
+  ClosedAlertPage,
+  CodeScanningAlert,
   DependencyGroup,
+  DismissalAnalytics,
+  DismissalGroupStats,
+  DismissReason,
   EcosystemBreakdown,
   FixAction,
   FixAdvisorResponse,
+  GroupRollup,
+  HistoryRange,
+  LateResolvedAlert,
+  MttrDistribution,
   MttrMetric,
+  MttrStats,
   NormalizedAlert,
+  NotificationChannel,
+  NotificationChannelInput,
+  NotificationEvent,
+  NotificationEventSource,
+  OwnedAlert,
+  NormalizedCodeScanningAlert,
+  NormalizedSecretScanningAlert,
+  RepoGroup,
+  RepoGroupInput,
+  RepoMetadata,
+  RepoRisk,
   RepoSummary,
+  RepoSyncError,
+  RiskException,
+  RiskExceptionInput,
+  RiskExceptionStatus,
+  RiskExceptionUpdate,
+  RiskWeights,
+  SecretMttrMetric,
+  SecretScanningAlert,
+  SecretSlaViolation,
+  SlaComplianceReport,
+  SlaComplianceStat,
+  SlaLimits,
+  SlaPolicy,
+  SlaSeverity,
   SlaViolation,
+  SyncRun,
+  SyncRunDetail,
+  SyncRunPage,
+  SyncRunRepo,
+  SyncRunStatus,
+  SyncTrigger,
+  ThreatDataset,
+  ThreatDatasetStatus,
+  ThreatIntel,
+  TrendBucket,
   TrendPoint,
+  UpstreamState,
   VulnerabilityGroup,
+  WatchTarget,
+  WatchTargetInput,
 } from "../types.js";
 import { sortAlerts } from "./alerts.js";
+import { DEFAULT_HOST, repoHost } from "./hosts.js";
 import {
   buildInsert,
   buildUpsert,
@@ -25,6 +81,7 @@ import {
   queryGet,
   runMigrations,
   type Migration,
+  type Schema,
 } from "./db-helpers.js";
 
 // --- Constants ---
@@ -53,33 +110,139 @@ const alertSchema = z.object({
   advisorySummary: z.string().nullable(),
   cvssScore: z.number().nullable(),
   patchedVersion: z.string().nullable(),
+  dismissedReason: z.string().nullable(),
+  dismissedComment: z.string().nullable(),
+  dismissedBy: z.string().nullable(),
   rawJson: z.string(),
 });
 
+const codeScanningAlertSchema = z.object({
+  repo: z.string(),
+  alertNumber: z.number(),
+  state: z.string(),
+  severity: z.string(),
+  ruleId: z.string().nullable(),
+  ruleDescription: z.string().nullable(),
+  toolName: z.string().nullable(),
+  path: z.string().nullable(),
+  createdAt: z.string().nullable(),
+  updatedAt: z.string().nullable(),
+  dismissedAt: z.string().nullable(),
+  fixedAt: z.string().nullable(),
+  htmlUrl: z.string().nullable(),
+});
+
+const secretScanningAlertSchema = z.object({
+  repo: z.string(),
+  alertNumber: z.number(),
+  state: z.string(),
+  secretType: z.string(),
+  secretTypeDisplayName: z.string().nullable(),
+  validity: z.string().nullable(),
+  pushProtectionBypassed: z.number().transform((v) => v !== 0),
+  pushProtectionBypassedBy: z.string().nullable(),
+  pushProtectionBypassedAt: z.string().nullable(),
+  resolution: z.string().nullable(),
+  resolvedAt: z.string().nullable(),
+  resolvedBy: z.string().nullable(),
+  createdAt: z.string().nullable(),
+  updatedAt: z.string().nullable(),
+  htmlUrl: z.string().nullable(),
+});
+
+const alertSourceSchema = z.enum(["dependabot", "code_scanning"]);
+
 const syncRowSchema = z.object({
-  lastSync: z.string(),
+  lastSync: z.string().nullable(),
 });
 
+const repoErrorKindSchema = z.enum([
+  "not_found",
+  "dependabot_disabled",
+  "forbidden",
+  "rate_limited",
+  "network",
+  "unknown",
+]);
+
 const summaryRowSchema = z.object({
   repo: z.string(),
-  lastSync: z.string(),
+  lastSync: z.string().nullable(),
+  lastErrorKind: repoErrorKindSchema.nullable(),
+  lastError: z.string().nullable(),
+  lastErrorAt: z.string().nullable(),
+  upstreamState: z.enum(["archived", "deleted"]).nullable(),
+  topics: z.string().nullable(),
+  visibility: z.enum(["public", "private", "internal"]).nullable(),
+  archived: z.number().nullable(),
+  defaultBranch: z.string().nullable(),
+  language: z.string().nullable(),
+  metadataUpdatedAt: z.string().nullable(),
+  source: alertSourceSchema.nullable(),
   severity: z.string().nullable(),
   count: z.number(),
 });
 
+const snapshotRowSchema = z.object({
+  day: z.string(),
+  repo: z.string(),
+  severity: z.string(),
+  openCount: z.number(),
+});
+
+const historyReplayRowSchema = z.object({
+  repo: z.string(),
+  alertNumber: z.number(),
+  state: z.string(),
+  severity: z.string(),
+  day: z.string(),
+});
+
+const severityCountRowSchema = z.object({
+  severity: z.string(),
+  count: z.number(),
+});
+
 const trendRowSchema = z.object({
   day: z.string(),
   severity: z.string(),
   count: z.number(),
 });
 
+const snapshotBoundsSchema = z.object({ firstDay: z.string().nullable() });
+
 const mttrRowSchema = z.object({
+  period: z.string().optional(),
   repo: z.string(),
   severity: z.string().transform((s) => s.toLowerCase()),
   avgDays: z.number().transform((v) => Math.round(v * 10) / 10),
   resolvedCount: z.number(),
 });
 
+const resolutionRowSchema = z.object({
+  period: z.string(),
+  severity: z.string().transform((s) => s.toLowerCase()),
+  state: z.enum(["fixed", "dismissed"]),
+  days: z.number(),
+});
+
+const secretMttrRowSchema = z.object({
+  repo: z.string(),
+  avgDays: z.number().transform((v) => Math.round(v * 10) / 10),
+  resolvedCount: z.number(),
+});
+
+const secretSlaRowSchema = z.object({
+  repo: z.string(),
+  alertNumber: z.number(),
+  secretType: z.string(),
+  secretTypeDisplayName: z.string().nullable(),
+  validity: z.string().nullable(),
+  htmlUrl: z.string().nullable(),
+  firstSeen: z.string(),
+  openDays: z.number(),
+});
+
 const timelineRowSchema = z.object({
   alertNumber: z.number(),
   state: z.string(),
@@ -89,20 +252,34 @@ const timelineRowSchema = z.object({
 
 const slaRowSchema = z.object({
   repo: z.string(),
+  source: alertSourceSchema,
   alertNumber: z.number(),
   severity: z.string(),
   packageName: z.string().nullable(),
+  ruleId: z.string().nullable(),
   htmlUrl: z.string().nullable(),
   firstSeen: z.string(),
   openDays: z.number(),
 });
 
+const slaLifecycleRowSchema = z.object({
+  source: alertSourceSchema,
+  repo: z.string(),
+  alertNumber: z.number(),
+  severity: z.string().transform((s) => s.toLowerCase()),
+  openedAt: z.string(),
+  resolvedAt: z.string().nullable(),
+});
+
 const vulnRowSchema = z.object({
   ghsaId: z.string(),
   cveId: z.string().nullable(),
   severity: z.string().transform((s) => s.toLowerCase()),
   summary: z.string().nullable(),
   cvssScore: z.number().nullable(),
+  epssScore: z.number().nullable(),
+  epssPercentile: z.number().nullable(),
+  kev: z.number().transform((v) => v !== 0),
   patchedVersion: z.string().nullable(),
   affectedRepos: z.number(),
   totalAlerts: z.number(),
@@ -158,6 +335,54 @@ const ALERT_FIELDS = [
   "advisorySummary",
   "cvssScore",
   "patchedVersion",
+  "dismissedReason",
+  "dismissedComment",
+  "dismissedBy",
+  "rawJson",
+];
+
+const CODE_SCANNING_FIELDS = [
+  "repo",
+  "alertNumber",
+  "state",
+  "severity",
+  "ruleId",
+  "ruleDescription",
+  "toolName",
+  "path",
+  "createdAt",
+  "updatedAt",
+  "dismissedAt",
+  "fixedAt",
+  "htmlUrl",
+  "rawJson",
+];
+
+const SECRET_SCANNING_FIELDS = [
+  "repo",
+  "alertNumber",
+  "state",
+  "secretType",
+  "secretTypeDisplayName",
+  "validity",
+  "pushProtectionBypassed",
+  "pushProtectionBypassedBy",
+  "pushProtectionBypassedAt",
+  "resolution",
+  "resolvedAt",
+  "resolvedBy",
+  "createdAt",
+  "updatedAt",
+  "htmlUrl",
+  "rawJson",
+];
+
+const SECRET_HISTORY_FIELDS = [
+  "repo",
+  "alertNumber",
+  "state",
+  "validity",
+  "recordedAt",
   "rawJson",
 ];
 
@@ -272,754 +497,4062 @@ const migrations: Migration[] = [
       );
     },
   },
-];
-
-// --- Database setup ---
-
-export function resolveDbPath(dbPath: string): string {
-  if (dbPath === DEFAULT_DB_PATH) {
-    const dir = path.dirname(dbPath);
-    fs.mkdirSync(dir, { recursive: true });
-  } else {
-    const dir = path.dirname(path.resolve(dbPath));
-    fs.mkdirSync(dir, { recursive: true });
-  }
-  return path.resolve(dbPath);
-}
-
-export function openDatabase(dbPath: string): Database.Database {
-  const db = new Database(dbPath);
-  db.pragma("journal_mode = WAL");
-  runMigrations(db, migrations);
-  return db;
-}
-
-// --- Database management ---
-
-/** Deletes all alert and sync data, leaving the schema intact. */
-export function clearDatabase(db: Database.Database): void {
-  db.exec('DELETE FROM alert_history; DELETE FROM alerts; DELETE FROM repo_sync; DELETE FROM dependency_chain;');
-}
-
-/** Removes all data for a single tracked repository. */
-export function removeRepo(db: Database.Database, fullName: string): void {
-  db.transaction(() => {
-    db.prepare('DELETE FROM alert_history WHERE repo = ?').run(fullName);
-    db.prepare('DELETE FROM alerts WHERE repo = ?').run(fullName);
-    db.prepare('DELETE FROM repo_sync WHERE repo = ?').run(fullName);
-    db.prepare('DELETE FROM dependency_chain WHERE repo = ?').run(fullName);
-  })();
-}
-
-// --- CRUD operations ---
-
-export function getCachedAlerts(
-  db: Database.Database,
-  repo: string
-): { alerts: NormalizedAlert[]; lastSync: string | null; hasCache: boolean } {
-  const sync = queryGet(
-    db,
-    "SELECT last_sync FROM repo_sync WHERE repo = ?",
-    syncRowSchema,
-    repo
-  );
-
-  if (!sync) {
-    return { alerts: [], lastSync: null, hasCache: false };
-  }
-
-  const alerts = queryAll(
-    db,
-    [
-      "SELECT repo, alert_number, state, severity, package_name, manifest_path,",
-      "  ecosystem, created_at, updated_at, dismissed_at, fixed_at, html_url,",
-      "  ghsa_id, cve_id, advisory_summary, cvss_score, patched_version, raw_json",
-      "FROM alerts WHERE repo = ?",
-    ].join(" "),
-    alertSchema,
-    repo
-  );
-
-  return { alerts, lastSync: sync.lastSync, hasCache: true };
-}
-
-export function saveAlerts(
-  db: Database.Database,
-  repo: string,
-  alerts: NormalizedAlert[],
-  lastSync: string
-): void {
-  const existingRows = queryAll(
-    db,
-    "SELECT alert_number, state, severity FROM alerts WHERE repo = ?",
-    existingAlertSchema,
-    repo
-  );
-  const existingMap = new Map<number, { state: string; severity: string }>();
-  for (const row of existingRows) {
-    existingMap.set(row.alertNumber, {
-      state: row.state,
-      severity: row.severity,
-    });
-  }
-
-  const insert = db.prepare(
-    buildUpsert("alerts", ALERT_FIELDS, ["repo", "alertNumber"])
-  );
-  const insertHistory = db.prepare(buildInsert("alert_history", HISTORY_FIELDS));
-  const updateSync = db.prepare(
-    buildUpsert("repo_sync", ["repo", "lastSync"], ["repo"])
-  );
-
-  const transaction = db.transaction(() => {
-    for (const alert of alerts) {
-      const existing = existingMap.get(alert.alertNumber);
-      const hasChanged =
-        !existing ||
-        existing.state !== alert.state ||
-        existing.severity !== alert.severity;
-
-      if (hasChanged) {
-        insertHistory.run({
-          repo,
-          alertNumber: alert.alertNumber,
-          state: alert.state,
-          severity: alert.severity,
-          recordedAt: lastSync,
-          rawJson: alert.rawJson,
-        });
-      }
-
-      insert.run(alert);
-    }
-    updateSync.run({ repo, lastSync });
-  });
-
-  transaction();
-}
-
-// --- Read queries ---
-
-const globalSummaryRowSchema = z.object({
-  totalRepos: z.number(),
-  totalAlerts: z.number(),
-  severity: z.string().nullable(),
-  count: z.number(),
-});
-
-/**
- * Returns global summary totals (total repos, total alerts, per-severity counts)
- * without fetching per-repo breakdowns — cheaper than getAllRepoSummaries().
- */
-export function getGlobalSummary(
-  db: Database.Database
-): { totalRepos: number; totalAlerts: number; severityCounts: Record<string, number> } {
-  const rows = queryAll(
-    db,
-    [
-      "SELECT",
-      "  (SELECT COUNT(*) FROM repo_sync) AS total_repos,",
-      "  COUNT(a.alert_number) AS total_alerts,",
-      "  a.severity,",
-      "  COUNT(a.alert_number) AS count",
-      "FROM alerts a",
-      "WHERE a.state = 'open'",
-      "GROUP BY a.severity",
-    ].join(" "),
-    globalSummaryRowSchema
-  );
-
-  const severityCounts: Record<string, number> = {};
-  let totalAlerts = 0;
-  let totalRepos = 0;
-
-  for (const row of rows) {
-    totalRepos = row.totalRepos;
-    if (row.severity) {
-      const key = row.severity.toLowerCase();
-      severityCounts[key] = row.count;
-      totalAlerts += row.count;
-    }
-  }
-
-  // Handle case with no open alerts (rows will be empty)
-  if (rows.length === 0) {
-    const countRow = queryGet(
-      db,
-      "SELECT COUNT(*) AS total_repos FROM repo_sync",
-      z.object({ totalRepos: z.number() })
-    );
-    totalRepos = countRow?.totalRepos ?? 0;
-  }
-
-  return { totalRepos, totalAlerts, severityCounts };
-}
-
-/**
- * Returns all tracked repos with their severity counts and last sync time.
- * Pivots grouped rows into RepoSummary objects in code.
- */
-export function getAllRepoSummaries(db: Database.Database): RepoSummary[] {
-  const rows = queryAll(
-    db,
-    [
-      "SELECT rs.repo, rs.last_sync, a.severity, COUNT(*) AS count",
-      "FROM repo_sync rs",
-      "LEFT JOIN alerts a ON a.repo = rs.repo AND a.state = 'open'",
-      "GROUP BY rs.repo, a.severity",
-      "ORDER BY rs.repo",
-    ].join(" "),
+  {
+    version: 5,
+    up: (db) => {
+      db.exec(
+        [
+          "CREATE TABLE IF NOT EXISTS code_scanning_alerts (",
+          "  repo TEXT NOT NULL,",
+          "  alert_number INTEGER NOT NULL,",
+          "  state TEXT NOT NULL,",
+          "  severity TEXT NOT NULL,",
+          "  rule_id TEXT,",
+          "  rule_description TEXT,",
+          "  tool_name TEXT,",
+          "  path TEXT,",
+          "  created_at TEXT,",
+          "  updated_at TEXT,",
+          "  dismissed_at TEXT,",
+          "  fixed_at TEXT,",
+          "  html_url TEXT,",
+          "  raw_json TEXT NOT NULL,",
+          "  PRIMARY KEY (repo, alert_number)",
+          ");",
+          "CREATE TABLE IF NOT EXISTS code_scanning_history (",
+          "  id INTEGER PRIMARY KEY AUTOINCREMENT,",
+          "  repo TEXT NOT NULL,",
+          "  alert_number INTEGER NOT NULL,",
+          "  state TEXT NOT NULL,",
+          "  severity TEXT NOT NULL,",
+          "  recorded_at TEXT NOT NULL,",
+          "  raw_json TEXT NOT NULL",
+          ");",
+          "CREATE INDEX IF NOT EXISTS idx_code_scanning_repo_state ON code_scanning_alerts(repo, state);",
+          "CREATE INDEX IF NOT EXISTS idx_code_scanning_history_repo_alert ON code_scanning_history(repo, alert_number, state);",
+        ].join("\n")
+      );
+    },
+  },
+  {
+    version: 6,
+    up: (db) => {
+      db.exec(
+        [
+          "CREATE TABLE IF NOT EXISTS secret_scanning_alerts (",
+          "  repo TEXT NOT NULL,",
+          "  alert_number INTEGER NOT NULL,",
+          "  state TEXT NOT NULL,",
+          "  secret_type TEXT NOT NULL,",
+          "  secret_type_display_name TEXT,",
+          "  validity TEXT,",
+          "  push_protection_bypassed INTEGER NOT NULL DEFAULT 0,",
+          "  push_protection_bypassed_by TEXT,",
+          "  push_protection_bypassed_at TEXT,",
+          "  resolution TEXT,",
+          "  resolved_at TEXT,",
+          "  resolved_by TEXT,",
+          "  created_at TEXT,",
+          "  updated_at TEXT,",
+          "  html_url TEXT,",
+          "  raw_json TEXT NOT NULL,",
+          "  PRIMARY KEY (repo, alert_number)",
+          ");",
+          "CREATE TABLE IF NOT EXISTS secret_scanning_history (",
+          "  id INTEGER PRIMARY KEY AUTOINCREMENT,",
+          "  repo TEXT NOT NULL,",
+          "  alert_number INTEGER NOT NULL,",
+          "  state TEXT NOT NULL,",
+          "  validity TEXT,",
+          "  recorded_at TEXT NOT NULL,",
+          "  raw_json TEXT NOT NULL",
+          ");",
+          "CREATE INDEX IF NOT EXISTS idx_secret_scanning_repo_state ON secret_scanning_alerts(repo, state);",
+          "CREATE INDEX IF NOT EXISTS idx_secret_scanning_history_repo_alert ON secret_scanning_history(repo, alert_number, state);",
+        ].join("\n")
+      );
+    },
+  },
+  {
+    version: 7,
+    up: (db) => {
+      db.exec(
+        [
+          "CREATE TABLE IF NOT EXISTS sync_cache (",
+          "  repo TEXT NOT NULL,",
+          "  source TEXT NOT NULL,",
+          "  etag TEXT,",
+          "  last_modified TEXT,",
+          "  PRIMARY KEY (repo, source)",
+          ");",
+        ].join("\n")
+      );
+    },
+  },
+  {
+    version: 8,
+    up: (db) => {
+      db.exec(
+        [
+          "CREATE TABLE IF NOT EXISTS sync_runs (",
+          "  id INTEGER PRIMARY KEY AUTOINCREMENT,",
+          "  triggered_by TEXT NOT NULL,",
+          "  status TEXT NOT NULL,",
+          "  started_at TEXT NOT NULL,",
+          "  finished_at TEXT,",
+          "  total INTEGER NOT NULL DEFAULT 0,",
+          "  refreshed INTEGER NOT NULL DEFAULT 0,",
+          "  unchanged INTEGER NOT NULL DEFAULT 0,",
+          "  failed INTEGER NOT NULL DEFAULT 0,",
+          "  error TEXT",
+          ");",
+          "CREATE INDEX IF NOT EXISTS idx_sync_runs_started ON sync_runs(started_at);",
+          "CREATE TABLE IF NOT EXISTS sync_run_repos (",
+          "  run_id INTEGER NOT NULL REFERENCES sync_runs(id) ON DELETE CASCADE,",
+          "  repo TEXT NOT NULL,",
+          "  outcome TEXT NOT NULL,",
+          "  error TEXT,",
+          "  started_at TEXT NOT NULL,",
+          "  finished_at TEXT NOT NULL,",
+          "  open_before INTEGER NOT NULL,",
+          "  open_after INTEGER NOT NULL,",
+          "  PRIMARY KEY (run_id, repo)",
+          ");",
+          "CREATE INDEX IF NOT EXISTS idx_sync_run_repos_repo ON sync_run_repos(repo, started_at);",
+        ].join("\n")
+      );
+    },
+  },
+  {
+    version: 9,
+    up: (db) => {
+      for (const col of ["last_error_kind TEXT", "last_error TEXT", "last_error_at TEXT"]) {
+        db.exec(`ALTER TABLE repo_sync ADD COLUMN ${col}`);
+      }
+    },
+  },
+  {
+    version: 10,
+    up: (db) => {
+      db.exec(
+        [
+          "CREATE TABLE IF NOT EXISTS watch_targets (",
+          "  id INTEGER PRIMARY KEY AUTOINCREMENT,",
+          "  host TEXT NOT NULL,",
+          "  type TEXT NOT NULL,",
+          "  name TEXT NOT NULL COLLATE NOCASE,",
+          "  include_forks INTEGER NOT NULL DEFAULT 0,",
+          "  include_archived INTEGER NOT NULL DEFAULT 0,",
+          "  name_pattern TEXT,",
+          "  created_at TEXT NOT NULL,",
+          "  last_checked_at TEXT,",
+          "  last_error TEXT,",
+          "  UNIQUE (host, type, name)",
+          ");",
+          "ALTER TABLE repo_sync ADD COLUMN upstream_state TEXT;",
+        ].join("\n")
+      );
+    },
+  },
+  {
+    version: 11,
+    up: (db) => {
+      db.exec(
+        [
+          "CREATE TABLE IF NOT EXISTS repo_metadata (",
+          "  repo TEXT PRIMARY KEY,",
+          "  topics TEXT NOT NULL DEFAULT '[]',",
+          "  visibility TEXT,",
+          "  archived INTEGER NOT NULL DEFAULT 0,",
+          "  default_branch TEXT,",
+          "  language TEXT,",
+          "  updated_at TEXT NOT NULL",
+          ");",
+        ].join("\n")
+      );
+    },
+  },
+  {
+    version: 12,
+    up: (db) => {
+      db.exec(
+        [
+          "CREATE TABLE IF NOT EXISTS repo_groups (",
+          "  id INTEGER PRIMARY KEY AUTOINCREMENT,",
+          "  name TEXT NOT NULL UNIQUE COLLATE NOCASE,",
+          "  description TEXT,",
+          "  source TEXT NOT NULL DEFAULT 'manual',",
+          "  created_at TEXT NOT NULL",
+          ");",
+          "CREATE TABLE IF NOT EXISTS repo_group_members (",
+          "  group_id INTEGER NOT NULL,",
+          "  repo TEXT NOT NULL,",
+          "  PRIMARY KEY (group_id, repo)",
+          ");",
+          "CREATE INDEX IF NOT EXISTS idx_repo_group_members_repo ON repo_group_members(repo);",
+        ].join("\n")
+      );
+    },
+  },
+  {
+    version: 13,
+    up: (db) => {
+      db.exec(
+        [
+          "CREATE TABLE IF NOT EXISTS repo_codeowners (",
+          "  repo TEXT PRIMARY KEY,",
+          "  path TEXT NOT NULL,",
+          "  content TEXT NOT NULL,",
+          "  fetched_at TEXT NOT NULL",
+          ");",
+          "CREATE TABLE IF NOT EXISTS alert_owners (",
+          "  repo TEXT NOT NULL,",
+          "  source TEXT NOT NULL,",
+          "  alert_number INTEGER NOT NULL,",
+          "  owner TEXT NOT NULL COLLATE NOCASE,",
+          "  PRIMARY KEY (repo, source, alert_number, owner)",
+          ");",
+          "CREATE INDEX IF NOT EXISTS idx_alert_owners_owner ON alert_owners(owner);",
+        ].join("\n")
+      );
+    },
+  },
+  {
+    version: 14,
+    up: (db) => {
+      db.exec(
+        [
+          "CREATE TABLE IF NOT EXISTS settings (",
+          "  key TEXT PRIMARY KEY,",
+          "  value TEXT NOT NULL,",
+          "  updated_at TEXT NOT NULL",
+          ");",
+        ].join("\n")
+      );
+    },
+  },
+  {
+    version: 15,
+    up: (db) => {
+      db.exec(
+        [
+          "CREATE TABLE IF NOT EXISTS daily_snapshots (",
+          "  day TEXT NOT NULL,",
+          "  repo TEXT NOT NULL,",
+          "  severity TEXT NOT NULL,",
+          "  open_count INTEGER NOT NULL,",
+          "  PRIMARY KEY (day, repo, severity)",
+          ");",
+          "CREATE INDEX IF NOT EXISTS idx_daily_snapshots_repo ON daily_snapshots(repo, day);",
+        ].join("\n")
+      );
+      rebuildDailySnapshots(db);
+    },
+  },
+  {
+    version: 16,
+    up: (db) => {
+      db.exec(
+        [
+          "CREATE TABLE IF NOT EXISTS epss_scores (",
+          "  cve_id TEXT PRIMARY KEY,",
+          "  epss REAL NOT NULL,",
+          "  percentile REAL NOT NULL",
+          ");",
+          "CREATE TABLE IF NOT EXISTS kev_entries (",
+          "  cve_id TEXT PRIMARY KEY,",
+          "  vendor_project TEXT,",
+          "  product TEXT,",
+          "  vulnerability_name TEXT,",
+          "  date_added TEXT,",
+          "  due_date TEXT,",
+          "  known_ransomware INTEGER NOT NULL DEFAULT 0",
+          ");",
+          "CREATE TABLE IF NOT EXISTS threat_dataset_imports (",
+          "  dataset TEXT PRIMARY KEY,",
+          "  source TEXT NOT NULL,",
+          "  imported_at TEXT NOT NULL,",
+          "  record_count INTEGER NOT NULL,",
+          "  published_at TEXT",
+          ");",
+        ].join("\n")
+      );
+    },
+  },
+  {
+    version: 17,
+    up: (db) => {
+      db.exec(
+        [
+          "CREATE TABLE IF NOT EXISTS risk_exceptions (",
+          "  id INTEGER PRIMARY KEY AUTOINCREMENT,",
+          "  scope TEXT NOT NULL,",
+          "  repo TEXT,",
+          "  alert_number INTEGER,",
+          "  ghsa_id TEXT,",
+          "  package_name TEXT,",
+          "  ecosystem TEXT,",
+          "  justification TEXT NOT NULL,",
+          "  approver TEXT NOT NULL,",
+          "  expires_at TEXT NOT NULL,",
+          "  created_at TEXT NOT NULL,",
+          "  revoked_at TEXT",
+          ");",
+          "CREATE TABLE IF NOT EXISTS risk_exception_events (",
+          "  id INTEGER PRIMARY KEY AUTOINCREMENT,",
+          "  exception_id INTEGER NOT NULL,",
+          "  action TEXT NOT NULL,",
+          "  actor TEXT NOT NULL,",
+          "  note TEXT,",
+          "  recorded_at TEXT NOT NULL",
+          ");",
+          "CREATE INDEX IF NOT EXISTS idx_risk_exception_events ON risk_exception_events(exception_id);",
+        ].join("\n")
+      );
+    },
+  },
+  {
+    version: 18,
+    up: (db) => {
+      for (const col of ["dismissed_reason TEXT", "dismissed_comment TEXT", "dismissed_by TEXT"]) {
+        db.exec(`ALTER TABLE alerts ADD COLUMN ${col}`);
+      }
+      db.exec(
+        [
+          "UPDATE alerts SET",
+          "  dismissed_reason = json_extract(raw_json, '$.dismissed_reason'),",
+          "  dismissed_comment = json_extract(raw_json, '$.dismissed_comment'),",
+          "  dismissed_by = json_extract(raw_json, '$.dismissed_by.login')",
+          "WHERE json_valid(raw_json);",
+          "CREATE INDEX IF NOT EXISTS idx_alerts_state_reason ON alerts(state, dismissed_reason);",
+        ].join("\n")
+      );
+    },
+  },
+  {
+    version: 19,
+    up: (db) => {
+      db.exec(
+        [
+          "CREATE TABLE IF NOT EXISTS alert_annotations (",
+          "  repo TEXT NOT NULL,",
+          "  alert_number INTEGER NOT NULL,",
+          "  note TEXT,",
+          "  tags TEXT NOT NULL DEFAULT '[]',",
+          "  assignee TEXT COLLATE NOCASE,",
+          "  updated_at TEXT NOT NULL,",
+          "  PRIMARY KEY (repo, alert_number)",
+          ");",
+          "CREATE INDEX IF NOT EXISTS idx_alert_annotations_assignee ON alert_annotations(assignee);",
+        ].join("\n")
+      );
+    },
+  },
+  {
+    version: 20,
+    up: (db) => {
+      db.exec(
+        [
+          "CREATE TABLE IF NOT EXISTS notification_channels (",
+          "  id INTEGER PRIMARY KEY AUTOINCREMENT,",
+          "  type TEXT NOT NULL,",
+          "  name TEXT NOT NULL,",
+          "  target TEXT NOT NULL,",
+          "  min_severity TEXT NOT NULL,",
+          "  events TEXT NOT NULL,",
+          "  enabled INTEGER NOT NULL DEFAULT 1,",
+          "  created_at TEXT NOT NULL,",
+          "  last_sent_at TEXT,",
+          "  last_error TEXT",
+          ");",
+          "CREATE TABLE IF NOT EXISTS notification_log (",
+          "  channel_id INTEGER NOT NULL,",
+          "  kind TEXT NOT NULL,",
+          "  source TEXT NOT NULL,",
+          "  repo TEXT NOT NULL,",
+          "  alert_number INTEGER NOT NULL,",
+          "  sent_at TEXT NOT NULL,",
+          "  PRIMARY KEY (channel_id, kind, source, repo, alert_number)",
+          ");",
+        ].join("\n")
+      );
+    },
+  },
+  {
+    version: 21,
+    up: (db) => {
+      // A repo whose first sync failed has an error but no sync time. SQLite
+      // cannot drop NOT NULL in place, so the table is rebuilt.
+      db.exec(
+        [
+          "CREATE TABLE repo_sync_new (",
+          "  repo TEXT PRIMARY KEY,",
+          "  last_sync TEXT,",
+          "  last_error_kind TEXT,",
+          "  last_error TEXT,",
+          "  last_error_at TEXT,",
+          "  upstream_state TEXT",
+          ");",
+          "INSERT INTO repo_sync_new",
+          "  SELECT repo, last_sync, last_error_kind, last_error, last_error_at, upstream_state",
+          "  FROM repo_sync;",
+          "DROP TABLE repo_sync;",
+          "ALTER TABLE repo_sync_new RENAME TO repo_sync;",
+        ].join("\n")
+      );
+    },
+  },
+  {
+    version: 22,
+    up: (db) => {
+      db.exec("ALTER TABLE notification_channels ADD COLUMN dispatched_until TEXT;");
+    },
+  },
+];
+
+// --- Database setup ---
+
+export function resolveDbPath(dbPath: string): string {
+  if (dbPath === DEFAULT_DB_PATH) {
+    const dir = path.dirname(dbPath);
+    fs.mkdirSync(dir, { recursive: true });
+  } else {
+    const dir = path.dirname(path.resolve(dbPath));
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  return path.resolve(dbPath);
+}
+
+export function openDatabase(dbPath: string): Database.Database {
+  const db = new Database(dbPath);
+  db.pragma("journal_mode = WAL");
+  runMigrations(db, migrations);
+  return db;
+}
+
+// --- Database management ---
+
+/**
+ * Deletes all alert and sync data, leaving the schema intact. Settings,
+ * groups, risk exceptions, alert annotations, notification channels (with
+ * the events they were sent) and imported threat intel are kept.
+ */
+export function clearDatabase(db: Database.Database): void {
+  db.exec(
+    [
+      'DELETE FROM alert_history; DELETE FROM alerts; DELETE FROM repo_sync; DELETE FROM dependency_chain;',
+      'DELETE FROM code_scanning_history; DELETE FROM code_scanning_alerts;',
+      'DELETE FROM secret_scanning_history; DELETE FROM secret_scanning_alerts;',
+      'DELETE FROM sync_cache; DELETE FROM sync_run_repos; DELETE FROM sync_runs;',
+      'DELETE FROM repo_metadata; DELETE FROM repo_codeowners; DELETE FROM alert_owners;',
+      'DELETE FROM daily_snapshots;',
+    ].join(' ')
+  );
+}
+
+/** Removes all data for a single tracked repository. */
+export function removeRepo(db: Database.Database, fullName: string): void {
+  db.transaction(() => {
+    db.prepare('DELETE FROM alert_history WHERE repo = ?').run(fullName);
+    db.prepare('DELETE FROM alerts WHERE repo = ?').run(fullName);
+    db.prepare('DELETE FROM repo_sync WHERE repo = ?').run(fullName);
+    db.prepare('DELETE FROM dependency_chain WHERE repo = ?').run(fullName);
+    db.prepare('DELETE FROM code_scanning_history WHERE repo = ?').run(fullName);
+    db.prepare('DELETE FROM code_scanning_alerts WHERE repo = ?').run(fullName);
+    db.prepare('DELETE FROM secret_scanning_history WHERE repo = ?').run(fullName);
+    db.prepare('DELETE FROM secret_scanning_alerts WHERE repo = ?').run(fullName);
+    db.prepare('DELETE FROM sync_cache WHERE repo = ?').run(fullName);
+    db.prepare('DELETE FROM repo_metadata WHERE repo = ?').run(fullName);
+    db.prepare('DELETE FROM repo_codeowners WHERE repo = ?').run(fullName);
+    db.prepare('DELETE FROM alert_owners WHERE repo = ?').run(fullName);
+    db.prepare('DELETE FROM daily_snapshots WHERE repo = ?').run(fullName);
+    db.prepare('DELETE FROM alert_annotations WHERE repo = ?').run(fullName);
+    db.prepare('DELETE FROM notification_log WHERE repo = ?').run(fullName);
+  })();
+}
+
+// --- CRUD operations ---
+
+export function getCachedAlerts(
+  db: Database.Database,
+  repo: string
+): { alerts: NormalizedAlert[]; lastSync: string | null; hasCache: boolean } {
+  const sync = queryGet(
+    db,
+    "SELECT last_sync FROM repo_sync WHERE repo = ?",
+    syncRowSchema,
+    repo
+  );
+
+  // A row without a sync time only records a failed first sync
+  if (!sync?.lastSync) {
+    return { alerts: [], lastSync: null, hasCache: false };
+  }
+
+  const alerts = queryAll(
+    db,
+    [
+      "SELECT repo, alert_number, state, severity, package_name, manifest_path,",
+      "  ecosystem, created_at, updated_at, dismissed_at, fixed_at, html_url,",
+      "  ghsa_id, cve_id, advisory_summary, cvss_score, patched_version,",
+      "  dismissed_reason, dismissed_comment, dismissed_by, raw_json",
+      "FROM alerts WHERE repo = ?",
+    ].join(" "),
+    alertSchema,
+    repo
+  );
+
+  return { alerts, lastSync: sync.lastSync, hasCache: true };
+}
+
+export function saveAlerts(
+  db: Database.Database,
+  repo: string,
+  alerts: NormalizedAlert[],
+  lastSync: string
+): void {
+  const existingRows = queryAll(
+    db,
+    "SELECT alert_number, state, severity FROM alerts WHERE repo = ?",
+    existingAlertSchema,
+    repo
+  );
+  const existingMap = new Map<number, { state: string; severity: string }>();
+  for (const row of existingRows) {
+    existingMap.set(row.alertNumber, {
+      state: row.state,
+      severity: row.severity,
+    });
+  }
+
+  const insert = db.prepare(
+    buildUpsert("alerts", ALERT_FIELDS, ["repo", "alertNumber"])
+  );
+  const insertHistory = db.prepare(buildInsert("alert_history", HISTORY_FIELDS));
+  const updateSync = db.prepare(
+    buildUpsert("repo_sync", ["repo", "lastSync"], ["repo"])
+  );
+
+  const transaction = db.transaction(() => {
+    for (const alert of alerts) {
+      const existing = existingMap.get(alert.alertNumber);
+      const hasChanged =
+        !existing ||
+        existing.state !== alert.state ||
+        existing.severity !== alert.severity;
+
+      if (hasChanged) {
+        insertHistory.run({
+          repo,
+          alertNumber: alert.alertNumber,
+          state: alert.state,
+          severity: alert.severity,
+          recordedAt: lastSync,
+          rawJson: alert.rawJson,
+        });
+      }
+
+      insert.run(alert);
+    }
+    updateSync.run({ repo, lastSync });
+    writeDailySnapshot(db, repo, lastSync.slice(0, 10));
+  });
+
+  transaction();
+}
+
+/**
+ * Stores one alert as returned by a write-back to GitHub, appending to
+ * alert_history when its state or severity changed and refreshing today's
+ * snapshot, so the change shows before the next sync. The repo's sync time
+ * is left alone.
+ */
+export function saveAlertUpdate(
+  db: Database.Database,
+  alert: NormalizedAlert,
+  recordedAt: string = new Date().toISOString()
+): void {
+  const existing = queryGet(
+    db,
+    [
+      "SELECT alert_number, state, severity FROM alerts",
+      "WHERE repo = @repo AND alert_number = @alertNumber",
+    ].join(" "),
+    existingAlertSchema,
+    { repo: alert.repo, alertNumber: alert.alertNumber }
+  );
+
+  db.transaction(() => {
+    if (!existing || existing.state !== alert.state || existing.severity !== alert.severity) {
+      db.prepare(buildInsert("alert_history", HISTORY_FIELDS)).run({
+        repo: alert.repo,
+        alertNumber: alert.alertNumber,
+        state: alert.state,
+        severity: alert.severity,
+        recordedAt,
+        rawJson: alert.rawJson,
+      });
+    }
+    db.prepare(buildUpsert("alerts", ALERT_FIELDS, ["repo", "alertNumber"])).run(alert);
+    writeDailySnapshot(db, alert.repo, recordedAt.slice(0, 10));
+  })();
+}
+
+/** Alerts of an advisory across all repos, optionally limited to one state. */
+export function getAdvisoryAlertRefs(
+  db: Database.Database,
+  ghsaId: string,
+  state: string | null = null
+): AlertRef[] {
+  return queryAll(
+    db,
+    [
+      "SELECT repo, alert_number FROM alerts",
+      "WHERE ghsa_id = @ghsaId AND (@state IS NULL OR state = @state)",
+      "ORDER BY repo, alert_number",
+    ].join(" "),
+    z.object({ repo: z.string(), alertNumber: z.number() }),
+    { ghsaId, state }
+  );
+}
+
+/**
+ * Saves code scanning alerts for a repo, appending to code_scanning_history
+ * whenever an alert is new or its state/severity changed.
+ * Does not touch repo_sync — the Dependabot sync owns the repo's sync time.
+ */
+export function saveCodeScanningAlerts(
+  db: Database.Database,
+  repo: string,
+  alerts: NormalizedCodeScanningAlert[],
+  lastSync: string
+): void {
+  const existingRows = queryAll(
+    db,
+    "SELECT alert_number, state, severity FROM code_scanning_alerts WHERE repo = ?",
+    existingAlertSchema,
+    repo
+  );
+  const existingMap = new Map(existingRows.map((row) => [row.alertNumber, row]));
+
+  const insert = db.prepare(
+    buildUpsert("code_scanning_alerts", CODE_SCANNING_FIELDS, ["repo", "alertNumber"])
+  );
+  const insertHistory = db.prepare(
+    buildInsert("code_scanning_history", HISTORY_FIELDS)
+  );
+
+  const transaction = db.transaction(() => {
+    for (const alert of alerts) {
+      const existing = existingMap.get(alert.alertNumber);
+      const hasChanged =
+        !existing ||
+        existing.state !== alert.state ||
+        existing.severity !== alert.severity;
+
+      if (hasChanged) {
+        insertHistory.run({
+          repo,
+          alertNumber: alert.alertNumber,
+          state: alert.state,
+          severity: alert.severity,
+          recordedAt: lastSync,
+          rawJson: alert.rawJson,
+        });
+      }
+
+      insert.run(alert);
+    }
+  });
+
+  transaction();
+}
+
+/**
+ * Returns code scanning alerts for a repo, most severe first.
+ */
+export function getCodeScanningAlerts(
+  db: Database.Database,
+  repo: string
+): CodeScanningAlert[] {
+  return queryAll(
+    db,
+    [
+      "SELECT repo, alert_number, state, severity, rule_id, rule_description,",
+      "  tool_name, path, created_at, updated_at, dismissed_at, fixed_at, html_url",
+      "FROM code_scanning_alerts WHERE repo = ?",
+      "ORDER BY",
+      "  CASE LOWER(severity)",
+      "    WHEN 'critical' THEN 0 WHEN 'high' THEN 1",
+      "    WHEN 'medium' THEN 2 WHEN 'low' THEN 3 ELSE 4",
+      "  END,",
+      "  created_at DESC",
+    ].join(" "),
+    codeScanningAlertSchema,
+    repo
+  );
+}
+
+/**
+ * Saves secret scanning alerts for a repo, appending to secret_scanning_history
+ * whenever an alert is new or its state/validity changed.
+ */
+export function saveSecretScanningAlerts(
+  db: Database.Database,
+  repo: string,
+  alerts: NormalizedSecretScanningAlert[],
+  lastSync: string
+): void {
+  const existingRows = queryAll(
+    db,
+    "SELECT alert_number, state, validity FROM secret_scanning_alerts WHERE repo = ?",
+    z.object({
+      alertNumber: z.number(),
+      state: z.string(),
+      validity: z.string().nullable(),
+    }),
+    repo
+  );
+  const existingMap = new Map(existingRows.map((row) => [row.alertNumber, row]));
+
+  const insert = db.prepare(
+    buildUpsert("secret_scanning_alerts", SECRET_SCANNING_FIELDS, ["repo", "alertNumber"])
+  );
+  const insertHistory = db.prepare(
+    buildInsert("secret_scanning_history", SECRET_HISTORY_FIELDS)
+  );
+
+  const transaction = db.transaction(() => {
+    for (const alert of alerts) {
+      const existing = existingMap.get(alert.alertNumber);
+      const hasChanged =
+        !existing ||
+        existing.state !== alert.state ||
+        existing.validity !== alert.validity;
+
+      if (hasChanged) {
+        insertHistory.run({
+          repo,
+          alertNumber: alert.alertNumber,
+          state: alert.state,
+          validity: alert.validity,
+          recordedAt: lastSync,
+          rawJson: alert.rawJson,
+        });
+      }
+
+      // SQLite has no boolean type
+      insert.run({
+        ...alert,
+        pushProtectionBypassed: alert.pushProtectionBypassed ? 1 : 0,
+      });
+    }
+  });
+
+  transaction();
+}
+
+/**
+ * Returns secret scanning alerts for a repo, open alerts first, newest first.
+ */
+export function getSecretScanningAlerts(
+  db: Database.Database,
+  repo: string
+): SecretScanningAlert[] {
+  return queryAll(
+    db,
+    [
+      "SELECT repo, alert_number, state, secret_type, secret_type_display_name,",
+      "  validity, push_protection_bypassed, push_protection_bypassed_by,",
+      "  push_protection_bypassed_at, resolution, resolved_at, resolved_by,",
+      "  created_at, updated_at, html_url",
+      "FROM secret_scanning_alerts WHERE repo = ?",
+      "ORDER BY state = 'open' DESC, created_at DESC",
+    ].join(" "),
+    secretScanningAlertSchema,
+    repo
+  );
+}
+
+/**
+ * Returns the stored HTTP cache validators for one alert source of a repo,
+ * or null if the listing has never been fetched.
+ */
+export function getCacheValidators(
+  db: Database.Database,
+  repo: string,
+  source: string
+): CacheValidators | null {
+  return (
+    queryGet(
+      db,
+      "SELECT etag, last_modified FROM sync_cache WHERE repo = @repo AND source = @source",
+      z.object({ etag: z.string().nullable(), lastModified: z.string().nullable() }),
+      { repo, source }
+    ) ?? null
+  );
+}
+
+/** Stores the validators of the latest full fetch, replacing older ones. */
+export function saveCacheValidators(
+  db: Database.Database,
+  repo: string,
+  source: string,
+  validators: CacheValidators
+): void {
+  db.prepare(
+    buildUpsert("sync_cache", ["repo", "source", "etag", "lastModified"], ["repo", "source"])
+  ).run({ repo, source, ...validators });
+}
+
+/**
+ * Bumps a repo's last sync time without touching its alerts.
+ * Used when every alert listing came back 304 Not Modified.
+ */
+export function touchRepoSync(
+  db: Database.Database,
+  repo: string,
+  lastSync: string
+): void {
+  db.prepare("UPDATE repo_sync SET last_sync = ? WHERE repo = ?").run(lastSync, repo);
+}
+
+/**
+ * Stores why a repo's sync failed. The cached alerts and last sync time
+ * are left as they are, so the repo keeps showing its last known state.
+ * A repo whose first sync fails is tracked with the error and no sync time.
+ */
+export function recordRepoSyncError(
+  db: Database.Database,
+  repo: string,
+  error: RepoSyncError
+): void {
+  db.prepare(
+    buildUpsert("repo_sync", ["repo", "lastErrorKind", "lastError", "lastErrorAt"], ["repo"])
+  ).run({
+    repo,
+    lastErrorKind: error.kind,
+    lastError: error.message,
+    lastErrorAt: error.occurredAt,
+  });
+}
+
+/** Whether a repo has a sync row, i.e. it is listed on the dashboard. */
+export function isRepoTracked(db: Database.Database, repo: string): boolean {
+  return db.prepare("SELECT 1 FROM repo_sync WHERE repo = ?").get(repo) !== undefined;
+}
+
+/** Clears the stored sync error after a successful sync. */
+export function clearRepoSyncError(db: Database.Database, repo: string): void {
+  db.prepare(
+    "UPDATE repo_sync SET last_error_kind = NULL, last_error = NULL, last_error_at = NULL WHERE repo = ?"
+  ).run(repo);
+}
+
+/** Stores the latest GitHub metadata of a repo, replacing what was there. */
+export function saveRepoMetadata(
+  db: Database.Database,
+  repo: string,
+  metadata: RepoMetadata
+): void {
+  db.prepare(
+    buildUpsert(
+      "repo_metadata",
+      ["repo", "topics", "visibility", "archived", "defaultBranch", "language", "updatedAt"],
+      ["repo"]
+    )
+  ).run({
+    repo,
+    ...metadata,
+    topics: JSON.stringify(metadata.topics),
+    archived: metadata.archived ? 1 : 0,
+  });
+}
+
+// --- Read queries ---
+
+/**
+ * Open alerts from every source, tagged with a `source` column.
+ * Used as a subquery by the summary and SLA queries. Dependabot alerts
+ * accepted by an active risk exception are left out.
+ */
+const OPEN_ALERTS_BY_SOURCE = [
+  "SELECT 'dependabot' AS source, repo, alert_number, severity,",
+  "  package_name, NULL AS rule_id, html_url",
+  `FROM alerts a WHERE state = 'open' AND ${notExcepted("a")}`,
+  "UNION ALL",
+  "SELECT 'code_scanning' AS source, repo, alert_number, severity,",
+  "  NULL AS package_name, rule_id, html_url",
+  "FROM code_scanning_alerts WHERE state = 'open'",
+].join(" ");
+
+const globalSummaryRowSchema = z.object({
+  source: alertSourceSchema,
+  severity: z.string(),
+  count: z.number(),
+});
+
+/**
+ * Returns global summary totals (total repos, total alerts, per-severity counts)
+ * without fetching per-repo breakdowns — cheaper than getAllRepoSummaries().
+ * `sourceCounts` splits the severity counts by alert source.
+ */
+export function getGlobalSummary(
+  db: Database.Database
+): {
+  totalRepos: number;
+  totalAlerts: number;
+  severityCounts: Record<string, number>;
+  sourceCounts: Partial<Record<AlertSource, Record<string, number>>>;
+} {
+  const rows = queryAll(
+    db,
+    [
+      "SELECT source, severity, COUNT(*) AS count",
+      `FROM (${OPEN_ALERTS_BY_SOURCE})`,
+      "GROUP BY source, severity",
+    ].join(" "),
+    globalSummaryRowSchema
+  );
+
+  const severityCounts: Record<string, number> = {};
+  const sourceCounts: Partial<Record<AlertSource, Record<string, number>>> = {};
+  let totalAlerts = 0;
+
+  for (const row of rows) {
+    const key = row.severity.toLowerCase();
+    severityCounts[key] = (severityCounts[key] ?? 0) + row.count;
+    const bySource = (sourceCounts[row.source] ??= {});
+    bySource[key] = (bySource[key] ?? 0) + row.count;
+    totalAlerts += row.count;
+  }
+
+  const countRow = queryGet(
+    db,
+    "SELECT COUNT(*) AS total_repos FROM repo_sync",
+    z.object({ totalRepos: z.number() })
+  );
+  const totalRepos = countRow?.totalRepos ?? 0;
+
+  return { totalRepos, totalAlerts, severityCounts, sourceCounts };
+}
+
+/**
+ * Returns all tracked repos with their severity counts and last sync time.
+ * Pivots grouped rows into RepoSummary objects in code.
+ */
+export function getAllRepoSummaries(db: Database.Database): RepoSummary[] {
+  const rows = queryAll(
+    db,
+    [
+      "SELECT rs.repo, rs.last_sync, rs.last_error_kind, rs.last_error, rs.last_error_at, rs.upstream_state,",
+      "  rm.topics, rm.visibility, rm.archived, rm.default_branch, rm.language,",
+      "  rm.updated_at AS metadata_updated_at,",
+      "  a.source, a.severity, COUNT(a.alert_number) AS count",
+      "FROM repo_sync rs",
+      "LEFT JOIN repo_metadata rm ON rm.repo = rs.repo",
+      `LEFT JOIN (${OPEN_ALERTS_BY_SOURCE}) a ON a.repo = rs.repo`,
+      "GROUP BY rs.repo, a.source, a.severity",
+      "ORDER BY rs.repo",
+    ].join(" "),
     summaryRowSchema
   );
 
-  const repoMap = new Map<string, RepoSummary>();
+  const repoMap = new Map<string, RepoSummary>();
+  const riskByRepo = new Map(getRiskScores(db).map((r) => [r.repo, r.riskScore]));
+
+  for (const row of rows) {
+    let summary = repoMap.get(row.repo);
+    if (!summary) {
+      summary = {
+        repo: row.repo,
+        host: repoHost(row.repo),
+        lastSync: row.lastSync,
+        severityCounts: {},
+        totalAlerts: 0,
+        sourceCounts: {},
+        lastError:
+          row.lastErrorKind && row.lastErrorAt
+            ? { kind: row.lastErrorKind, message: row.lastError ?? "", occurredAt: row.lastErrorAt }
+            : null,
+        upstreamState: row.upstreamState,
+        metadata: row.metadataUpdatedAt
+          ? {
+              topics: JSON.parse(row.topics ?? "[]") as string[],
+              visibility: row.visibility,
+              archived: row.archived === 1,
+              defaultBranch: row.defaultBranch,
+              language: row.language,
+              updatedAt: row.metadataUpdatedAt,
+            }
+          : null,
+        groups: [],
+        riskScore: riskByRepo.get(row.repo) ?? 0,
+      };
+      repoMap.set(row.repo, summary);
+    }
+
+    if (row.source && row.severity) {
+      const key = row.severity.toLowerCase();
+      summary.severityCounts[key] = (summary.severityCounts[key] ?? 0) + row.count;
+      summary.totalAlerts += row.count;
+      const bySource = (summary.sourceCounts[row.source] ??= {});
+      bySource[key] = (bySource[key] ?? 0) + row.count;
+    }
+  }
+
+  const memberships = queryAll(
+    db,
+    [
+      "SELECT m.repo, g.name FROM repo_group_members m",
+      "JOIN repo_groups g ON g.id = m.group_id",
+      "ORDER BY g.name COLLATE NOCASE",
+    ].join(" "),
+    z.object({ repo: z.string(), name: z.string() })
+  );
+  for (const { repo, name } of memberships) {
+    repoMap.get(repo)?.groups.push(name);
+  }
+
+  return [...repoMap.values()];
+}
+
+/**
+ * Returns a repo's Dependabot alerts, sorted, each with its CODEOWNERS
+ * owners, the EPSS/KEV data of its CVE, the expiry of any risk exception
+ * accepting it and its annotation. `owner` keeps the alerts that owner
+ * (case-insensitive) owns, `state` one state, and `tag` and `assignee` the
+ * alerts annotated so.
+ */
+export function getRepoAlerts(
+  db: Database.Database,
+  repo: string,
+  filters: { owner?: string | null; state?: string | null } & AnnotationFilters = {}
+): { alerts: OwnedAlert[]; lastSync: string | null } {
+  const { owner, state, tag, assignee } = filters;
+  const cached = getCachedAlerts(db, repo);
+  const owners = getAlertOwners(db, repo, "dependabot");
+  const intel = getAlertThreatIntel(db, repo);
+  const accepted = getAcceptedUntil(db, repo);
+  const annotations = new Map(
+    getAlertAnnotations(db, { repo }).map((a) => [a.alertNumber, a])
+  );
+  const sameText = (a: string | null, b: string) => a?.toLowerCase() === b.toLowerCase();
+  const alerts = cached.alerts
+    .map((alert) => {
+      const annotation = annotations.get(alert.alertNumber);
+      return {
+        ...alert,
+        ...(intel.get(alert.alertNumber) ?? NO_THREAT_INTEL),
+        owners: owners.get(alert.alertNumber) ?? [],
+        acceptedUntil: accepted.get(alert.alertNumber) ?? null,
+        note: annotation?.note ?? null,
+        tags: annotation?.tags ?? [],
+        assignee: annotation?.assignee ?? null,
+      };
+    })
+    .filter(
+      (alert) =>
+        (!state || alert.state === state) &&
+        (!owner || alert.owners.some((o) => sameText(o, owner))) &&
+        (!tag || alert.tags.some((t) => sameText(t, tag))) &&
+        (!assignee || sameText(alert.assignee, assignee))
+    );
+  return {
+    alerts: sortAlerts(alerts),
+    lastSync: cached.lastSync,
+  };
+}
+
+// --- History analytics queries ---
+
+/**
+ * SQL condition limiting `column` to the repos of group `@groupId`;
+ * a null group matches every repo. Callers bind `groupId`.
+ */
+function inGroup(column: string): string {
+  return `(@groupId IS NULL OR ${column} IN (SELECT repo FROM repo_group_members WHERE group_id = @groupId))`;
+}
+
+/**
+ * SQL condition keeping the alerts CODEOWNERS owner `@owner` owns (alias
+ * `a` with `repo` and `alert_number`); a null owner matches every alert.
+ * Callers bind `owner`.
+ */
+function ownedBy(source: string): string {
+  return [
+    "(@owner IS NULL OR EXISTS (SELECT 1 FROM alert_owners o",
+    `  WHERE o.repo = a.repo AND o.source = ${source} AND o.alert_number = a.alert_number`,
+    "  AND o.owner = @owner))",
+  ].join(" ");
+}
+
+/**
+ * SQL condition keeping the alerts tagged `@tag` and assigned to
+ * `@assignee` (alias `a` with `repo` and `alert_number`); null filters
+ * match every alert. Only Dependabot alerts carry annotations, so other
+ * sources match no filter. Callers bind `tag` and `assignee`.
+ */
+function annotatedWith(source: string): string {
+  return [
+    "((@tag IS NULL AND @assignee IS NULL) OR EXISTS (SELECT 1 FROM alert_annotations n",
+    `  WHERE ${source} = 'dependabot' AND n.repo = a.repo AND n.alert_number = a.alert_number`,
+    "  AND (@assignee IS NULL OR n.assignee = @assignee)",
+    "  AND (@tag IS NULL OR EXISTS (SELECT 1 FROM json_each(n.tags)",
+    "    WHERE value = @tag COLLATE NOCASE))))",
+  ].join(" ");
+}
+
+/**
+ * SQL condition matching the alerts (alias `alias` of `alerts`) that the
+ * risk exception aliased `x` covers; see `RiskExceptionScope`.
+ */
+function exceptionCovers(alias: string): string {
+  // Only alert and repo exceptions require a repo; the others span repos without one
+  return [
+    `(((x.scope = 'alert' AND x.alert_number = ${alias}.alert_number)`,
+    ` OR (x.scope = 'advisory' AND x.ghsa_id = ${alias}.ghsa_id)`,
+    ` OR (x.scope = 'package' AND x.package_name = ${alias}.package_name`,
+    `  AND (x.ecosystem IS NULL OR x.ecosystem = ${alias}.ecosystem))`,
+    " OR x.scope = 'repo')",
+    ` AND (x.repo IS NULL OR x.repo = ${alias}.repo))`,
+  ].join(" ");
+}
+
+/**
+ * SQL condition keeping the Dependabot alerts (alias `alias` of `alerts`)
+ * that no active risk exception covers.
+ */
+function notExcepted(alias: string): string {
+  return [
+    "NOT EXISTS (SELECT 1 FROM risk_exceptions x",
+    "  WHERE x.revoked_at IS NULL AND x.expires_at > strftime('%Y-%m-%dT%H:%M:%fZ', 'now')",
+    `  AND ${exceptionCovers(alias)})`,
+  ].join(" ");
+}
+
+/** Joins the EPSS score (`epss`) and KEV entry (`kev`) of alias `a`'s CVE. */
+const THREAT_INTEL_JOIN = [
+  "LEFT JOIN epss_scores epss ON epss.cve_id = a.cve_id",
+  "LEFT JOIN kev_entries kev ON kev.cve_id = a.cve_id",
+].join(" ");
+
+/** SLA limits in days used until a policy is saved. */
+export const DEFAULT_SLA_LIMITS: SlaLimits = {
+  critical: 2,
+  high: 7,
+  medium: 30,
+  low: 90,
+};
+
+// --- Risk scores ---
+
+/** Risk weights used until others are saved. */
+export const DEFAULT_RISK_WEIGHTS: RiskWeights = {
+  severity: { critical: 10, high: 5, medium: 2, low: 1 },
+  cvss: 1,
+  developmentScope: 0.25,
+  epss: 1,
+  kev: 3,
+  overdue: 2,
+  agePerYear: 0.5,
+};
+
+const riskRowSchema = z.object({
+  repo: z.string(),
+  severity: z.string().transform((s) => s.toLowerCase()),
+  cvssScore: z.number().nullable(),
+  epssPercentile: z.number().nullable(),
+  kev: z.number().transform((v) => v !== 0),
+  scope: z.string().nullable(),
+  openDays: z.number().nullable(),
+});
+
+/**
+ * Scores every tracked repo's open Dependabot alerts with the stored risk
+ * weights (see `RiskWeights`), highest risk first. Alert age counts from
+ * the first history entry, overdue uses the repo's SLA limits, and EPSS
+ * and KEV come from the imported threat intel. Accepted alerts don't count.
+ */
+export function getRiskScores(
+  db: Database.Database,
+  filters: { groupId?: number | null } = {}
+): RepoRisk[] {
+  const weights = getRiskWeights(db);
+  const limitsFor = slaLimitsResolver(db);
+
+  const rows = queryAll(
+    db,
+    [
+      "WITH first_open AS (",
+      "  SELECT repo, alert_number, MIN(recorded_at) AS first_at",
+      "  FROM alert_history",
+      "  GROUP BY repo, alert_number",
+      ")",
+      "SELECT a.repo, a.severity, a.cvss_score,",
+      "  epss.percentile AS epss_percentile, kev.cve_id IS NOT NULL AS kev,",
+      "  json_extract(a.raw_json, '$.dependency.scope') AS scope,",
+      "  julianday('now') - julianday(COALESCE(fo.first_at, a.created_at)) AS open_days",
+      "FROM alerts a",
+      "LEFT JOIN first_open fo ON fo.repo = a.repo AND fo.alert_number = a.alert_number",
+      THREAT_INTEL_JOIN,
+      "WHERE a.state = 'open'",
+      `  AND ${notExcepted("a")}`,
+      `  AND ${inGroup("a.repo")}`,
+    ].join(" "),
+    riskRowSchema,
+    { groupId: filters.groupId ?? null }
+  );
+
+  const tracked = queryAll(
+    db,
+    `SELECT repo FROM repo_sync WHERE ${inGroup("repo")} ORDER BY repo`,
+    z.object({ repo: z.string() }),
+    { groupId: filters.groupId ?? null }
+  );
+  const byRepo = new Map<string, RepoRisk>(
+    tracked.map(({ repo }) => [
+      repo,
+      {
+        repo,
+        riskScore: 0,
+        openAlerts: 0,
+        runtimeAlerts: 0,
+        overdueAlerts: 0,
+        kevAlerts: 0,
+        maxCvss: null,
+      },
+    ])
+  );
+
+  for (const row of rows) {
+    const risk = byRepo.get(row.repo);
+    if (!risk) continue;
+    const severity = row.severity as SlaSeverity;
+    const openDays = Math.max(row.openDays ?? 0, 0);
+    const overdue = openDays > (limitsFor(row.repo)[severity] ?? DEFAULT_SLA_LIMITS.low);
+    const development = row.scope === "development";
+
+    risk.riskScore +=
+      (weights.severity[severity] ?? 0) *
+      (1 + (weights.cvss * (row.cvssScore ?? 0)) / 10) *
+      (1 + weights.epss * (row.epssPercentile ?? 0)) *
+      (row.kev ? weights.kev : 1) *
+      (development ? weights.developmentScope : 1) *
+      (overdue ? weights.overdue : 1) *
+      (1 + (weights.agePerYear * openDays) / 365);
+    risk.openAlerts += 1;
+    if (!development) risk.runtimeAlerts += 1;
+    if (overdue) risk.overdueAlerts += 1;
+    if (row.kev) risk.kevAlerts += 1;
+    if (row.cvssScore !== null) risk.maxCvss = Math.max(risk.maxCvss ?? 0, row.cvssScore);
+  }
+
+  return [...byRepo.values()]
+    .map((risk) => ({ ...risk, riskScore: Math.round(risk.riskScore * 10) / 10 }))
+    .sort((a, b) => b.riskScore - a.riskScore || a.repo.localeCompare(b.repo));
+}
+
+// --- Daily snapshots ---
+
+const DAY_MS = 86_400_000;
+
+function isoDay(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+/**
+ * Open alert counts per severity from a map of alert number to latest state.
+ * Always has the four standard severities so a drop to zero is recorded.
+ */
+function countOpen(states: Iterable<{ state: string; severity: string }>): Map<string, number> {
+  const counts = new Map<string, number>(SLA_SEVERITIES.map((severity) => [severity, 0]));
+  for (const { state, severity } of states) {
+    if (state !== "open") continue;
+    const key = severity.toLowerCase();
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function saveSnapshot(
+  db: Database.Database,
+  day: string,
+  repo: string,
+  counts: Map<string, number>
+): void {
+  const upsert = db.prepare(
+    buildUpsert("daily_snapshots", ["day", "repo", "severity", "openCount"], ["day", "repo", "severity"])
+  );
+  for (const [severity, openCount] of counts) {
+    upsert.run({ day, repo, severity, openCount });
+  }
+}
+
+/** Records a repo's open Dependabot alerts per severity as of `day` (`YYYY-MM-DD`). */
+export function writeDailySnapshot(db: Database.Database, repo: string, day: string): void {
+  const rows = queryAll(
+    db,
+    "SELECT severity, COUNT(*) AS count FROM alerts WHERE repo = ? AND state = 'open' GROUP BY severity",
+    severityCountRowSchema,
+    repo
+  );
+  const counts = countOpen([]);
+  for (const row of rows) counts.set(row.severity.toLowerCase(), row.count);
+  saveSnapshot(db, day, repo, counts);
+}
+
+/**
+ * Rebuilds all snapshots from alert_history by replaying each repo's state
+ * transitions, writing one snapshot per day that had a transition.
+ */
+export function rebuildDailySnapshots(db: Database.Database): void {
+  const rows = queryAll(
+    db,
+    [
+      "SELECT repo, alert_number, state, severity, date(recorded_at) AS day",
+      "FROM alert_history",
+      "ORDER BY repo, recorded_at, id",
+    ].join(" "),
+    historyReplayRowSchema
+  );
+
+  db.transaction(() => {
+    db.prepare("DELETE FROM daily_snapshots").run();
+    let states = new Map<number, { state: string; severity: string }>();
+    rows.forEach((row, i) => {
+      if (i > 0 && rows[i - 1].repo !== row.repo) states = new Map();
+      states.set(row.alertNumber, { state: row.state, severity: row.severity });
+
+      const next = rows[i + 1];
+      if (!next || next.repo !== row.repo || next.day !== row.day) {
+        saveSnapshot(db, row.day, row.repo, countOpen(states.values()));
+      }
+    });
+  })();
+}
+
+/** SQL expression for the first day of the bucket `column` falls in. */
+function bucketStart(column: string, bucket: TrendBucket): string {
+  switch (bucket) {
+    case "week":
+      return `date(${column}, 'weekday 0', '-6 days')`;
+    case "month":
+      return `date(${column}, 'start of month')`;
+    default:
+      return `date(${column})`;
+  }
+}
+
+/**
+ * Returns open Dependabot alert counts per severity for each bucket of the
+ * range, labelled by the bucket's first day. A bucket counts the backlog on
+ * its last day in the range, carrying each repo's latest snapshot forward
+ * over days without one. The range is clamped to the first snapshot
+ * through today, which is also its default, and is by day unless bucketed.
+ * `groupId` limits the counts to the repos of one group.
+ */
+export function getTrendData(
+  db: Database.Database,
+  repo?: string | null,
+  groupId?: number | null,
+  range: HistoryRange = {}
+): TrendPoint[] {
+  const filters = { repo: repo ?? null, groupId: groupId ?? null };
+  const firstDay = queryGet(
+    db,
+    [
+      "SELECT MIN(day) AS first_day FROM daily_snapshots",
+      `WHERE (repo = @repo OR @repo IS NULL) AND ${inGroup("repo")}`,
+    ].join(" "),
+    snapshotBoundsSchema,
+    filters
+  )?.firstDay;
+  if (!firstDay) return [];
+  // The day series below is generated row by row, so keep it to days that can have data
+  const today = isoDay(Date.now());
+  const from = range.from && range.from > firstDay ? range.from : firstDay;
+  const to = range.to && range.to < today ? range.to : today;
+
+  const rows = queryAll(
+    db,
+    [
+      "WITH RECURSIVE days(day) AS (",
+      "  SELECT @from WHERE @from <= @to",
+      "  UNION ALL",
+      "  SELECT date(day, '+1 day') FROM days WHERE day < @to",
+      "),",
+      "buckets AS (",
+      `  SELECT ${bucketStart("day", range.bucket ?? "day")} AS bucket, MAX(day) AS last_day`,
+      "  FROM days GROUP BY bucket",
+      "),",
+      "series AS (",
+      "  SELECT DISTINCT repo, severity FROM daily_snapshots",
+      `  WHERE (repo = @repo OR @repo IS NULL) AND ${inGroup("repo")}`,
+      ")",
+      "SELECT b.bucket AS day, s.severity,",
+      "  SUM(COALESCE((",
+      "    SELECT ds.open_count FROM daily_snapshots ds",
+      "    WHERE ds.repo = s.repo AND ds.severity = s.severity AND ds.day <= b.last_day",
+      "    ORDER BY ds.day DESC LIMIT 1",
+      "  ), 0)) AS count",
+      "FROM buckets b CROSS JOIN series s",
+      "GROUP BY b.bucket, s.severity",
+      "ORDER BY b.bucket",
+    ].join(" "),
+    trendRowSchema,
+    { ...filters, from, to }
+  );
+
+  const dayMap = new Map<string, TrendPoint>();
+
+  for (const row of rows) {
+    let point = dayMap.get(row.day);
+    if (!point) {
+      point = { day: row.day, critical: 0, high: 0, medium: 0, low: 0 };
+      dayMap.set(row.day, point);
+    }
+    const key = row.severity.toLowerCase() as keyof Omit<TrendPoint, "day">;
+    if (key in point) {
+      point[key] += row.count;
+    }
+  }
+
+  return [...dayMap.values()];
+}
+
+/**
+ * Computes mean time to remediate per repo and severity,
+ * optionally for the repos of one group. `range` keeps alerts resolved
+ * within `from`/`to`; with a `bucket`, metrics are split per resolution
+ * period and carry its first day as `period`.
+ */
+export function getMttrMetrics(
+  db: Database.Database,
+  repo?: string | null,
+  groupId?: number | null,
+  range: HistoryRange = {}
+): MttrMetric[] {
+  const period = range.bucket ? `${bucketStart("res_ev.first_at", range.bucket)} AS period, ` : "";
+  return queryAll(
+    db,
+    [
+      "WITH first_events AS (",
+      "  SELECT repo, alert_number, state, severity,",
+      "         MIN(id) AS first_id, MIN(recorded_at) AS first_at",
+      "  FROM alert_history",
+      "  GROUP BY repo, alert_number, state",
+      ")",
+      `SELECT ${period}open_ev.repo, open_ev.severity,`,
+      "  AVG(julianday(res_ev.first_at) - julianday(open_ev.first_at)) AS avg_days,",
+      "  COUNT(*) AS resolved_count",
+      "FROM first_events open_ev",
+      "JOIN first_events res_ev",
+      "  ON open_ev.repo = res_ev.repo AND open_ev.alert_number = res_ev.alert_number",
+      "WHERE open_ev.state = 'open'",
+      "  AND res_ev.state IN ('fixed', 'dismissed')",
+      "  AND (open_ev.repo = @repo OR @repo IS NULL)",
+      `  AND ${inGroup("open_ev.repo")}`,
+      "  AND (@from IS NULL OR date(res_ev.first_at) >= @from)",
+      "  AND (@to IS NULL OR date(res_ev.first_at) <= @to)",
+      `GROUP BY ${period ? "period, " : ""}open_ev.repo, open_ev.severity`,
+      period ? "ORDER BY period" : "",
+    ].join(" "),
+    mttrRowSchema,
+    {
+      repo: repo ?? null,
+      groupId: groupId ?? null,
+      from: range.from ?? null,
+      to: range.to ?? null,
+    }
+  );
+}
+
+/**
+ * Computes the spread of remediation times: mean, median, p75 and p90 per
+ * severity, overall and split into fixed and dismissed alerts, plus the same
+ * figures per resolution period (`range.bucket`, month by default). Each
+ * alert counts once, at its first fix or dismissal; the range keeps alerts
+ * resolved within it.
+ */
+export function getMttrDistribution(
+  db: Database.Database,
+  repo?: string | null,
+  groupId?: number | null,
+  range: HistoryRange = {}
+): MttrDistribution {
+  const rows = queryAll(
+    db,
+    [
+      "WITH first_events AS (",
+      "  SELECT repo, alert_number, state, severity, MIN(recorded_at) AS first_at",
+      "  FROM alert_history",
+      "  GROUP BY repo, alert_number, state",
+      "),",
+      "resolutions AS (",
+      "  SELECT open_ev.severity, res_ev.state, res_ev.first_at AS resolved_at,",
+      "    julianday(res_ev.first_at) - julianday(open_ev.first_at) AS days,",
+      "    ROW_NUMBER() OVER (",
+      "      PARTITION BY open_ev.repo, open_ev.alert_number ORDER BY res_ev.first_at",
+      "    ) AS nth",
+      "  FROM first_events open_ev",
+      "  JOIN first_events res_ev",
+      "    ON open_ev.repo = res_ev.repo AND open_ev.alert_number = res_ev.alert_number",
+      "  WHERE open_ev.state = 'open'",
+      "    AND res_ev.state IN ('fixed', 'dismissed')",
+      "    AND (open_ev.repo = @repo OR @repo IS NULL)",
+      `    AND ${inGroup("open_ev.repo")}`,
+      ")",
+      `SELECT ${bucketStart("resolved_at", range.bucket ?? "month")} AS period, severity, state, days`,
+      "FROM resolutions",
+      "WHERE nth = 1",
+      "  AND (@from IS NULL OR date(resolved_at) >= @from)",
+      "  AND (@to IS NULL OR date(resolved_at) <= @to)",
+      "ORDER BY days",
+    ].join(" "),
+    resolutionRowSchema,
+    {
+      repo: repo ?? null,
+      groupId: groupId ?? null,
+      from: range.from ?? null,
+      to: range.to ?? null,
+    }
+  );
+
+  const severities = SLA_SEVERITIES.flatMap((severity) => {
+    const all = rows.filter((r) => r.severity === severity);
+    if (all.length === 0) return [];
+    return [
+      {
+        severity,
+        all: mttrStats(all.map((r) => r.days)),
+        fixed: mttrStats(all.filter((r) => r.state === "fixed").map((r) => r.days)),
+        dismissed: mttrStats(all.filter((r) => r.state === "dismissed").map((r) => r.days)),
+      },
+    ];
+  });
+
+  // Rows are sorted by duration, so each period's list stays sorted too
+  const byPeriod = new Map<string, number[]>();
+  for (const row of rows) {
+    const key = `${row.period}|${row.severity}`;
+    const days = byPeriod.get(key) ?? [];
+    days.push(row.days);
+    byPeriod.set(key, days);
+  }
+  const periods = [...byPeriod]
+    .map(([key, days]) => {
+      const [period, severity] = key.split("|");
+      return { period, severity, ...mttrStats(days) };
+    })
+    .sort(
+      (a, b) =>
+        a.period.localeCompare(b.period) ||
+        SLA_SEVERITIES.indexOf(a.severity as SlaSeverity) -
+          SLA_SEVERITIES.indexOf(b.severity as SlaSeverity)
+    );
+
+  return { severities, periods };
+}
+
+/** Summarizes remediation times (sorted ascending), rounded to a tenth of a day. */
+function mttrStats(sortedDays: number[]): MttrStats {
+  const round = (v: number | null) => (v === null ? null : Math.round(v * 10) / 10);
+  const total = sortedDays.reduce((sum, d) => sum + d, 0);
+  return {
+    resolvedCount: sortedDays.length,
+    meanDays: round(sortedDays.length > 0 ? total / sortedDays.length : null),
+    medianDays: round(percentile(sortedDays, 0.5)),
+    p75Days: round(percentile(sortedDays, 0.75)),
+    p90Days: round(percentile(sortedDays, 0.9)),
+  };
+}
+
+/** Percentile of a sorted list, interpolating linearly between the closest ranks. */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/** Days a leaked secret may stay open before it counts as an SLA violation. */
+export const DEFAULT_SECRET_SLA_DAYS = 1;
+
+/**
+ * Computes MTTR for secret scanning alerts per repo, measured from the
+ * first 'open' history entry to the first 'resolved' one.
+ */
+export function getSecretMttrMetrics(
+  db: Database.Database,
+  repo?: string | null
+): SecretMttrMetric[] {
+  return queryAll(
+    db,
+    [
+      "WITH first_events AS (",
+      "  SELECT repo, alert_number, state, MIN(recorded_at) AS first_at",
+      "  FROM secret_scanning_history",
+      "  GROUP BY repo, alert_number, state",
+      ")",
+      "SELECT open_ev.repo,",
+      "  AVG(julianday(res_ev.first_at) - julianday(open_ev.first_at)) AS avg_days,",
+      "  COUNT(*) AS resolved_count",
+      "FROM first_events open_ev",
+      "JOIN first_events res_ev",
+      "  ON open_ev.repo = res_ev.repo AND open_ev.alert_number = res_ev.alert_number",
+      "WHERE open_ev.state = 'open'",
+      "  AND res_ev.state = 'resolved'",
+      "  AND (open_ev.repo = @repo OR @repo IS NULL)",
+      "GROUP BY open_ev.repo",
+    ].join(" "),
+    secretMttrRowSchema,
+    { repo: repo ?? null }
+  );
+}
+
+/**
+ * Checks currently open secret scanning alerts against a single SLA limit.
+ */
+export function getSecretSlaViolations(
+  db: Database.Database,
+  slaLimitDays: number = DEFAULT_SECRET_SLA_DAYS
+): SecretSlaViolation[] {
+  const rows = queryAll(
+    db,
+    [
+      "WITH first_open AS (",
+      "  SELECT repo, alert_number, MIN(recorded_at) AS first_at",
+      "  FROM secret_scanning_history",
+      "  GROUP BY repo, alert_number",
+      ")",
+      "SELECT a.repo, a.alert_number, a.secret_type, a.secret_type_display_name,",
+      "  a.validity, a.html_url,",
+      "  fo.first_at AS first_seen,",
+      "  julianday('now') - julianday(fo.first_at) AS open_days",
+      "FROM secret_scanning_alerts a",
+      "JOIN first_open fo ON a.repo = fo.repo AND a.alert_number = fo.alert_number",
+      "WHERE a.state = 'open'",
+    ].join(" "),
+    secretSlaRowSchema
+  );
+
+  return rows
+    .map((row) => {
+      const openDays = Math.round(row.openDays * 10) / 10;
+      return {
+        ...row,
+        openDays,
+        slaLimitDays,
+        overdue: openDays > slaLimitDays,
+      };
+    })
+    .sort((a, b) => b.openDays - a.openDays);
+}
+
+/**
+ * Returns all history entries for a given repo.
+ */
+export function getAlertTimeline(
+  db: Database.Database,
+  repo: string
+): AlertTimelineEntry[] {
+  return queryAll(
+    db,
+    [
+      "SELECT alert_number, state, severity, recorded_at",
+      "FROM alert_history",
+      "WHERE repo = ?",
+      "ORDER BY alert_number, recorded_at",
+    ].join(" "),
+    timelineRowSchema,
+    repo
+  );
+}
+
+/**
+ * Checks currently open alerts against SLA thresholds.
+ * Limits come from the stored SLA policy, resolved per repo; `slaConfig`
+ * replaces the policy defaults.
+ * Covers Dependabot and code scanning alerts; pass `source` to keep one,
+ * `groupId` to keep the repos of one group, `owner` to keep the alerts
+ * a CODEOWNERS owner owns and `tag` or `assignee` to keep annotated alerts.
+ */
+export function getSlaViolations(
+  db: Database.Database,
+  slaConfig?: Partial<SlaLimits>,
+  filters: {
+    source?: AlertSource | null;
+    groupId?: number | null;
+    owner?: string | null;
+  } & AnnotationFilters = {}
+): SlaViolation[] {
+  const limitsFor = slaLimitsResolver(db, slaConfig);
+
+  const rows = queryAll(
+    db,
+    [
+      "WITH first_open AS (",
+      "  SELECT 'dependabot' AS source, repo, alert_number, MIN(recorded_at) AS first_at",
+      "  FROM alert_history",
+      "  GROUP BY repo, alert_number",
+      "  UNION ALL",
+      "  SELECT 'code_scanning' AS source, repo, alert_number, MIN(recorded_at) AS first_at",
+      "  FROM code_scanning_history",
+      "  GROUP BY repo, alert_number",
+      ")",
+      "SELECT a.repo, a.source, a.alert_number, a.severity, a.package_name, a.rule_id, a.html_url,",
+      "  fo.first_at AS first_seen,",
+      "  julianday('now') - julianday(fo.first_at) AS open_days",
+      `FROM (${OPEN_ALERTS_BY_SOURCE}) a`,
+      "JOIN first_open fo",
+      "  ON a.source = fo.source AND a.repo = fo.repo AND a.alert_number = fo.alert_number",
+      "WHERE (a.source = @source OR @source IS NULL)",
+      `  AND ${inGroup("a.repo")}`,
+      `  AND ${ownedBy("a.source")}`,
+      `  AND ${annotatedWith("a.source")}`,
+    ].join(" "),
+    slaRowSchema,
+    {
+      source: filters.source ?? null,
+      groupId: filters.groupId ?? null,
+      owner: filters.owner ?? null,
+      tag: filters.tag ?? null,
+      assignee: filters.assignee ?? null,
+    }
+  );
+
+  return rows
+    .map((row) => {
+      const severity = row.severity.toLowerCase();
+      const slaLimitDays = limitsFor(row.repo)[severity as SlaSeverity] ?? 90;
+      const openDays = Math.round(row.openDays * 10) / 10;
+
+      return {
+        repo: row.repo,
+        source: row.source,
+        alertNumber: row.alertNumber,
+        severity,
+        packageName: row.packageName,
+        ruleId: row.ruleId,
+        htmlUrl: row.htmlUrl,
+        firstSeen: row.firstSeen,
+        openDays,
+        slaLimitDays,
+        overdue: openDays > slaLimitDays,
+      };
+    })
+    .sort((a, b) => {
+      const aDiff = a.openDays - a.slaLimitDays;
+      const bDiff = b.openDays - b.slaLimitDays;
+      return bDiff - aDiff;
+    });
+}
+
+/**
+ * Returns a lookup of each repo's SLA limits under the stored policy,
+ * with `slaConfig` replacing the policy defaults.
+ */
+function slaLimitsResolver(
+  db: Database.Database,
+  slaConfig?: Partial<SlaLimits>
+): (repo: string) => SlaLimits {
+  const stored = getSlaPolicy(db);
+  const policy = { ...stored, defaults: { ...stored.defaults, ...slaConfig } };
+  const groupIds = getGroupIdsByRepo(db);
+  const limitsByRepo = new Map<string, SlaLimits>();
+  return (repo) => {
+    let limits = limitsByRepo.get(repo);
+    if (!limits) {
+      limits = resolveSlaLimits(policy, repo, groupIds.get(repo) ?? []);
+      limitsByRepo.set(repo, limits);
+    }
+    return limits;
+  };
+}
+
+/** First day of the quarter three quarters before the one `to` falls in. */
+function fourQuartersBefore(to: string): string {
+  const date = new Date(`${to}T00:00:00Z`);
+  const quarterMonth = Math.floor(date.getUTCMonth() / 3) * 3;
+  return isoDay(Date.UTC(date.getUTCFullYear(), quarterMonth - 9, 1));
+}
+
+function emptyComplianceStats(): Record<SlaSeverity, SlaComplianceStat> {
+  const stats = {} as Record<SlaSeverity, SlaComplianceStat>;
+  for (const severity of SLA_SEVERITIES) {
+    stats[severity] = {
+      severity,
+      resolved: 0,
+      withinSla: 0,
+      late: 0,
+      attainmentRate: null,
+      breachDays: 0,
+      openOverdue: 0,
+    };
+  }
+  return stats;
+}
+
+function finishComplianceStats(stats: Record<SlaSeverity, SlaComplianceStat>): SlaComplianceStat[] {
+  return SLA_SEVERITIES.map((severity) => {
+    const stat = stats[severity];
+    return {
+      ...stat,
+      attainmentRate:
+        stat.resolved > 0 ? Math.round((stat.withinSla / stat.resolved) * 1000) / 1000 : null,
+      breachDays: Math.round(stat.breachDays * 10) / 10,
+    };
+  });
+}
+
+/**
+ * Measures SLA compliance over a date range (inclusive `YYYY-MM-DD` days;
+ * `to` defaults to today and `from` to the start of the fourth quarter
+ * back), per severity and calendar quarter.
+ * Reconstructs each alert's lifecycle from alert_history and
+ * code_scanning_history: opened at its first 'open' entry, resolved at its
+ * first later fixed or dismissed entry. Limits come from the current SLA
+ * policy, applied retroactively. Alerts under an active risk exception are
+ * left out.
+ */
+export function getSlaCompliance(
+  db: Database.Database,
+  range: { from?: string | null; to?: string | null } = {},
+  filters: { source?: AlertSource | null; groupId?: number | null } = {}
+): SlaComplianceReport {
+  const to = range.to ?? isoDay(Date.now());
+  const from = range.from ?? fourQuartersBefore(to);
+  const startMs = Date.parse(`${from}T00:00:00Z`);
+  const endMs = Date.parse(`${to}T00:00:00Z`) + DAY_MS;
+  const nowMs = Date.now();
+  const limitsFor = slaLimitsResolver(db);
+
+  const rows = queryAll(
+    db,
+    [
+      "WITH events AS (",
+      "  SELECT 'dependabot' AS source, repo, alert_number, state, severity, recorded_at",
+      "  FROM alert_history",
+      "  UNION ALL",
+      "  SELECT 'code_scanning' AS source, repo, alert_number, state, severity, recorded_at",
+      "  FROM code_scanning_history",
+      "),",
+      "opened AS (",
+      "  SELECT source, repo, alert_number, severity, MIN(recorded_at) AS opened_at",
+      "  FROM events WHERE state = 'open'",
+      "  GROUP BY source, repo, alert_number",
+      "),",
+      "resolved AS (",
+      "  SELECT source, repo, alert_number, MIN(recorded_at) AS resolved_at",
+      "  FROM events WHERE state <> 'open'",
+      "  GROUP BY source, repo, alert_number",
+      ")",
+      "SELECT o.source, o.repo, o.alert_number, o.severity, o.opened_at, r.resolved_at",
+      "FROM opened o",
+      "LEFT JOIN resolved r",
+      "  ON r.source = o.source AND r.repo = o.repo AND r.alert_number = o.alert_number",
+      "  AND r.resolved_at >= o.opened_at",
+      // Risk exceptions only cover Dependabot alerts
+      "LEFT JOIN alerts a",
+      "  ON o.source = 'dependabot' AND a.repo = o.repo AND a.alert_number = o.alert_number",
+      "WHERE o.opened_at < @end",
+      "  AND (r.resolved_at IS NULL OR r.resolved_at >= @start)",
+      `  AND (a.repo IS NULL OR ${notExcepted("a")})`,
+      "  AND (o.source = @source OR @source IS NULL)",
+      `  AND ${inGroup("o.repo")}`,
+    ].join(" "),
+    slaLifecycleRowSchema,
+    {
+      start: new Date(startMs).toISOString(),
+      end: new Date(endMs).toISOString(),
+      source: filters.source ?? null,
+      groupId: filters.groupId ?? null,
+    }
+  );
+
+  const periods: {
+    period: string;
+    startMs: number;
+    endMs: number;
+    stats: Record<SlaSeverity, SlaComplianceStat>;
+  }[] = [];
+  const first = new Date(startMs);
+  for (
+    let quarter = Date.UTC(first.getUTCFullYear(), Math.floor(first.getUTCMonth() / 3) * 3, 1);
+    quarter < endMs;
+  ) {
+    const date = new Date(quarter);
+    const next = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 3, 1);
+    periods.push({
+      period: `${date.getUTCFullYear()}-Q${Math.floor(date.getUTCMonth() / 3) + 1}`,
+      startMs: Math.max(quarter, startMs),
+      endMs: Math.min(next, endMs),
+      stats: emptyComplianceStats(),
+    });
+    quarter = next;
+  }
+
+  const lateResolved: LateResolvedAlert[] = [];
+  for (const row of rows) {
+    const severity = SLA_SEVERITIES.find((s) => s === row.severity);
+    if (!severity) continue;
+    const slaLimitDays = limitsFor(row.repo)[severity];
+    const openedMs = Date.parse(row.openedAt);
+    const deadlineMs = openedMs + slaLimitDays * DAY_MS;
+    const resolvedMs = row.resolvedAt === null ? null : Date.parse(row.resolvedAt);
+
+    for (const period of periods) {
+      const stat = period.stats[severity];
+      if (resolvedMs !== null && resolvedMs >= period.startMs && resolvedMs < period.endMs) {
+        stat.resolved++;
+        if (resolvedMs <= deadlineMs) stat.withinSla++;
+        else stat.late++;
+      }
+
+      // Time past the deadline, clipped to the period and to now
+      const periodEnd = Math.min(period.endMs, nowMs);
+      const breachStart = Math.max(deadlineMs, period.startMs);
+      const breachEnd = Math.min(resolvedMs ?? periodEnd, periodEnd);
+      if (breachEnd > breachStart) stat.breachDays += (breachEnd - breachStart) / DAY_MS;
+
+      const openAtEnd = openedMs < periodEnd && (resolvedMs === null || resolvedMs >= periodEnd);
+      if (openAtEnd && deadlineMs < periodEnd) stat.openOverdue++;
+    }
+
+    const resolvedInRange = resolvedMs !== null && resolvedMs >= startMs && resolvedMs < endMs;
+    if (resolvedInRange && resolvedMs > deadlineMs) {
+      lateResolved.push({
+        repo: row.repo,
+        source: row.source,
+        alertNumber: row.alertNumber,
+        severity,
+        openedAt: row.openedAt,
+        resolvedAt: row.resolvedAt as string,
+        slaLimitDays,
+        daysLate: Math.round(((resolvedMs - deadlineMs) / DAY_MS) * 10) / 10,
+      });
+    }
+  }
+
+  // Totals sum the quarters; open overdue alerts are counted at the end of the range
+  const totals = emptyComplianceStats();
+  for (const period of periods) {
+    for (const severity of SLA_SEVERITIES) {
+      const stat = period.stats[severity];
+      totals[severity].resolved += stat.resolved;
+      totals[severity].withinSla += stat.withinSla;
+      totals[severity].late += stat.late;
+      totals[severity].breachDays += stat.breachDays;
+      totals[severity].openOverdue = stat.openOverdue;
+    }
+  }
+
+  return {
+    from,
+    to,
+    totals: finishComplianceStats(totals),
+    periods: periods.map((period) => ({
+      period: period.period,
+      from: isoDay(period.startMs),
+      to: isoDay(period.endMs - DAY_MS),
+      severities: finishComplianceStats(period.stats),
+    })),
+    lateResolved: lateResolved.sort((a, b) => b.resolvedAt.localeCompare(a.resolvedAt)),
+  };
+}
+
+// --- Cross-repo vulnerability & dependency queries ---
+
+/**
+ * Groups open alerts by GHSA advisory across all repos, with the EPSS and
+ * KEV data of the advisory's CVE.
+ */
+export function getVulnerabilityGroups(
+  db: Database.Database
+): VulnerabilityGroup[] {
+  return queryAll(
+    db,
+    [
+      "SELECT a.ghsa_id, a.cve_id, a.severity, a.advisory_summary AS summary, a.cvss_score,",
+      "  a.patched_version, epss.epss AS epss_score, epss.percentile AS epss_percentile,",
+      "  kev.cve_id IS NOT NULL AS kev,",
+      "  COUNT(DISTINCT a.repo) AS affected_repos,",
+      "  COUNT(*) AS total_alerts,",
+      "  GROUP_CONCAT(DISTINCT a.repo) AS repos",
+      "FROM alerts a",
+      THREAT_INTEL_JOIN,
+      "WHERE a.state = 'open' AND a.ghsa_id IS NOT NULL",
+      "GROUP BY a.ghsa_id",
+      "ORDER BY affected_repos DESC, cvss_score DESC",
+    ].join(" "),
+    vulnRowSchema
+  );
+}
+
+/**
+ * Groups open alerts by package across all repos.
+ */
+export function getDependencyLandscape(
+  db: Database.Database
+): DependencyGroup[] {
+  return queryAll(
+    db,
+    [
+      "SELECT package_name, ecosystem,",
+      "  COUNT(*) AS total_alerts,",
+      "  COUNT(DISTINCT repo) AS affected_repos,",
+      "  SUM(CASE WHEN severity = 'critical' THEN 1 ELSE 0 END) AS critical_count,",
+      "  SUM(CASE WHEN severity = 'high' THEN 1 ELSE 0 END) AS high_count,",
+      "  GROUP_CONCAT(DISTINCT repo) AS repos",
+      "FROM alerts",
+      "WHERE state = 'open' AND package_name IS NOT NULL",
+      "GROUP BY package_name, ecosystem",
+      "ORDER BY critical_count DESC, total_alerts DESC",
+    ].join(" "),
+    depRowSchema
+  );
+}
+
+// --- Fix Advisor ---
+
+const SEVERITY_RANK: Record<string, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+  unknown: 4,
+};
+
+function severityRank(s: string): number {
+  return SEVERITY_RANK[s.toLowerCase()] ?? 4;
+}
+
+const fixAdvisorGroupSchema = z.object({
+  packageName: z.string(),
+  ecosystem: z.string().nullable(),
+  manifestPaths: z
+    .string()
+    .nullable()
+    .transform((s) => (s ? [...new Set(s.split(","))] : [])),
+  ghsaIds: z
+    .string()
+    .nullable()
+    .transform((s) => (s ? [...new Set(s.split(","))] : [])),
+  cveIds: z
+    .string()
+    .nullable()
+    .transform((s) => (s ? [...new Set(s.split(","))] : [])),
+  maxCvssScore: z.number().nullable(),
+  maxEpssPercentile: z.number().nullable(),
+  kevAlerts: z.number(),
+  alertCount: z.number(),
+  affectedRepos: z.number(),
+  repos: z
+    .string()
+    .nullable()
+    .transform((s) => (s ? [...new Set(s.split(","))] : [])),
+  patchedVersion: z.string().nullable(),
+});
+
+const fixAdvisorAlertSchema = z.object({
+  repo: z.string(),
+  alertNumber: z.number(),
+  severity: z.string().transform((s) => s.toLowerCase()),
+  advisorySummary: z.string().nullable(),
+  rawJson: z.string(),
+  packageName: z.string(),
+  ecosystem: z.string().nullable(),
+});
+
+/**
+ * Groups open alerts by (package_name, ecosystem) into fix actions.
+ * When repo is provided, scopes to that repo; otherwise aggregates cross-repo,
+ * over the repos of `groupId` when given. `owner` keeps the alerts a
+ * CODEOWNERS owner owns, `tag` and `assignee` the alerts annotated so.
+ */
+export function getFixAdvisor(
+  db: Database.Database,
+  repo?: string | null,
+  filters: { groupId?: number | null; owner?: string | null } & AnnotationFilters = {}
+): FixAdvisorResponse {
+  const isPerRepo = !!repo;
+  const narrowing = {
+    owner: filters.owner ?? null,
+    tag: filters.tag ?? null,
+    assignee: filters.assignee ?? null,
+  };
+  const params = isPerRepo
+    ? { repo, groupId: null, ...narrowing }
+    : { groupId: filters.groupId ?? null, ...narrowing };
+
+  const groups = queryAll(
+    db,
+    [
+      "SELECT package_name, ecosystem,",
+      "  GROUP_CONCAT(DISTINCT manifest_path) AS manifest_paths,",
+      "  GROUP_CONCAT(DISTINCT ghsa_id) AS ghsa_ids,",
+      "  GROUP_CONCAT(DISTINCT a.cve_id) AS cve_ids,",
+      "  MAX(cvss_score) AS max_cvss_score,",
+      "  MAX(epss.percentile) AS max_epss_percentile,",
+      "  COUNT(kev.cve_id) AS kev_alerts,",
+      "  COUNT(*) AS alert_count,",
+      "  COUNT(DISTINCT repo) AS affected_repos,",
+      "  GROUP_CONCAT(DISTINCT repo) AS repos,",
+      "  MAX(patched_version) AS patched_version",
+      "FROM alerts a",
+      THREAT_INTEL_JOIN,
+      "WHERE state = 'open' AND package_name IS NOT NULL",
+      isPerRepo ? "  AND repo = @repo" : "",
+      `  AND ${inGroup("repo")}`,
+      `  AND ${ownedBy("'dependabot'")}`,
+      `  AND ${annotatedWith("'dependabot'")}`,
+      "GROUP BY package_name, ecosystem",
+    ].join(" "),
+    fixAdvisorGroupSchema,
+    params
+  );
+
+  // Fetch individual alerts to build per-group alert lists and severity breakdowns
+  const alertDetails = queryAll(
+    db,
+    [
+      "SELECT repo, alert_number, severity, advisory_summary, raw_json,",
+      "  package_name, ecosystem",
+      "FROM alerts a",
+      "WHERE state = 'open' AND package_name IS NOT NULL",
+      isPerRepo ? "  AND repo = @repo" : "",
+      `  AND ${inGroup("repo")}`,
+      `  AND ${ownedBy("'dependabot'")}`,
+      `  AND ${annotatedWith("'dependabot'")}`,
+      "ORDER BY",
+      "  CASE LOWER(severity)",
+      "    WHEN 'critical' THEN 0 WHEN 'high' THEN 1",
+      "    WHEN 'medium' THEN 2 WHEN 'low' THEN 3 ELSE 4",
+      "  END,",
+      "  alert_number",
+    ].join(" "),
+    fixAdvisorAlertSchema,
+    params
+  );
+
+  // Build lookup: "packageName|ecosystem" -> alert details
+  const alertsByKey = new Map<string, typeof alertDetails>();
+  for (const alert of alertDetails) {
+    const key = `${alert.packageName}|${alert.ecosystem ?? ""}`;
+    let list = alertsByKey.get(key);
+    if (!list) {
+      list = [];
+      alertsByKey.set(key, list);
+    }
+    list.push(alert);
+  }
+
+  // Build fix actions
+  const actions: FixAction[] = [];
+  const noFixAvailable: FixAction[] = [];
+
+  for (const group of groups) {
+    const key = `${group.packageName}|${group.ecosystem ?? ""}`;
+    const groupAlerts = alertsByKey.get(key) ?? [];
+
+    // Compute severity breakdown
+    const severityBreakdown: Record<string, number> = {};
+    let bestSeverity = "unknown";
+    let bestRank = 4;
+
+    for (const alert of groupAlerts) {
+      const sev = alert.severity;
+      severityBreakdown[sev] = (severityBreakdown[sev] ?? 0) + 1;
+      const rank = severityRank(sev);
+      if (rank < bestRank) {
+        bestRank = rank;
+        bestSeverity = sev;
+      }
+    }
+
+    // Extract scope from first alert's raw JSON
+    let scope: string | null = null;
+    if (groupAlerts.length > 0) {
+      try {
+        const raw = JSON.parse(groupAlerts[0].rawJson);
+        scope = raw?.dependency?.scope ?? null;
+      } catch {
+        // ignore malformed JSON
+      }
+    }
+
+    const hasFix = group.patchedVersion !== null;
+    const action: FixAction = {
+      packageName: group.packageName,
+      ecosystem: group.ecosystem,
+      manifestPaths: group.manifestPaths,
+      scope,
+      groupSeverity: bestSeverity,
+      alertCount: group.alertCount,
+      severityBreakdown,
+      ghsaIds: group.ghsaIds,
+      cveIds: group.cveIds,
+      maxCvssScore: group.maxCvssScore,
+      maxEpssPercentile: group.maxEpssPercentile,
+      kevAlerts: group.kevAlerts,
+      patchedVersion: group.patchedVersion,
+      hasFix,
+      alerts: groupAlerts.map((a) => ({
+        ...(isPerRepo ? {} : { repo: a.repo }),
+        alertNumber: a.alertNumber,
+        severity: a.severity,
+        summary: a.advisorySummary,
+      })),
+    };
+
+    if (!isPerRepo) {
+      action.affectedRepos = group.affectedRepos;
+      action.repos = group.repos;
+    }
+
+    if (hasFix) {
+      actions.push(action);
+    } else {
+      noFixAvailable.push(action);
+    }
+  }
+
+  // Sort: known exploited first, then severity desc, EPSS percentile desc
+  // and alert count desc within tier
+  const sortActions = (a: FixAction, b: FixAction) => {
+    const kevDiff = Number(b.kevAlerts > 0) - Number(a.kevAlerts > 0);
+    if (kevDiff !== 0) return kevDiff;
+    const sevDiff = severityRank(a.groupSeverity) - severityRank(b.groupSeverity);
+    if (sevDiff !== 0) return sevDiff;
+    const epssDiff = (b.maxEpssPercentile ?? -1) - (a.maxEpssPercentile ?? -1);
+    if (epssDiff !== 0) return epssDiff;
+    return b.alertCount - a.alertCount;
+  };
+  actions.sort(sortActions);
+  noFixAvailable.sort(sortActions);
+
+  const totalAlerts = actions.reduce((s, a) => s + a.alertCount, 0)
+    + noFixAvailable.reduce((s, a) => s + a.alertCount, 0);
+
+  return {
+    repo: repo ?? "all",
+    totalActions: actions.length,
+    totalAlerts,
+    actions,
+    noFixAvailable,
+  };
+}
+
+// --- Dependency chain ---
+
+import type { DependencyChain } from './lockfile.js';
+
+const CHAIN_FIELDS = [
+  "repo",
+  "vulnerablePackage",
+  "directDependency",
+  "directVersion",
+  "chainDepth",
+  "updatedAt",
+];
+
+/**
+ * Saves dependency chain mappings for a repo.
+ * Upserts so re-syncs update existing rows.
+ */
+export function saveDependencyChains(
+  db: Database.Database,
+  repo: string,
+  chains: DependencyChain[]
+): void {
+  const stmt = db.prepare(
+    buildUpsert("dependency_chain", CHAIN_FIELDS, ["repo", "vulnerablePackage"])
+  );
+
+  const now = new Date().toISOString();
+  const transaction = db.transaction(() => {
+    // Clear old chains for this repo before saving new ones
+    db.prepare("DELETE FROM dependency_chain WHERE repo = ?").run(repo);
+
+    for (const chain of chains) {
+      stmt.run({ ...chain, updatedAt: now });
+    }
+  });
+
+  transaction();
+}
+
+const actionPlanRowSchema = z.object({
+  directDependency: z.string(),
+  directVersion: z.string().nullable(),
+  criticalAlerts: z.number(),
+  highAlerts: z.number(),
+  totalAlerts: z.number(),
+  affectedRepos: z.number(),
+  repos: z
+    .string()
+    .nullable()
+    .transform((s) => (s ? [...new Set(s.split(","))] : [])),
+  vulnerablePackages: z
+    .string()
+    .nullable()
+    .transform((s) => (s ? [...new Set(s.split(","))] : [])),
+});
+
+export type ActionPlanEntry = {
+  directDependency: string;
+  directVersion: string | null;
+  criticalAlerts: number;
+  highAlerts: number;
+  totalAlerts: number;
+  affectedRepos: number;
+  repos: string[];
+  vulnerablePackages: string[];
+};
+
+/**
+ * Returns an action plan: direct dependencies to update, ranked by
+ * how many critical+high alerts they would eliminate.
+ */
+export function getActionPlan(db: Database.Database): ActionPlanEntry[] {
+  return queryAll(
+    db,
+    [
+      "SELECT dc.direct_dependency, dc.direct_version,",
+      "  SUM(CASE WHEN LOWER(a.severity) = 'critical' THEN 1 ELSE 0 END) AS critical_alerts,",
+      "  SUM(CASE WHEN LOWER(a.severity) = 'high' THEN 1 ELSE 0 END) AS high_alerts,",
+      "  COUNT(*) AS total_alerts,",
+      "  COUNT(DISTINCT a.repo) AS affected_repos,",
+      "  GROUP_CONCAT(DISTINCT a.repo) AS repos,",
+      "  GROUP_CONCAT(DISTINCT a.package_name) AS vulnerable_packages",
+      "FROM dependency_chain dc",
+      "JOIN alerts a ON a.repo = dc.repo AND a.package_name = dc.vulnerable_package AND a.state = 'open'",
+      "GROUP BY dc.direct_dependency",
+      "ORDER BY critical_alerts DESC, high_alerts DESC, total_alerts DESC",
+    ].join(" "),
+    actionPlanRowSchema
+  );
+}
+
+/**
+ * Returns alert distribution by ecosystem.
+ */
+export function getEcosystemBreakdown(
+  db: Database.Database
+): EcosystemBreakdown[] {
+  return queryAll(
+    db,
+    [
+      "SELECT ecosystem,",
+      "  COUNT(*) AS total_alerts,",
+      "  COUNT(DISTINCT repo) AS affected_repos,",
+      "  COUNT(DISTINCT package_name) AS unique_packages",
+      "FROM alerts",
+      "WHERE state = 'open' AND ecosystem IS NOT NULL",
+      "GROUP BY ecosystem",
+      "ORDER BY total_alerts DESC",
+    ].join(" "),
+    ecoRowSchema
+  );
+}
+
+// --- Closed alerts ---
+
+/** The dismissal reasons GitHub accepts; stored reasons outside it count as "unknown". */
+export const DISMISS_REASONS: DismissReason[] = [
+  "fix_started",
+  "inaccurate",
+  "no_bandwidth",
+  "not_used",
+  "tolerable_risk",
+];
+
+const closedAlertRowSchema = z.object({
+  repo: z.string(),
+  alertNumber: z.number(),
+  state: z.enum(["dismissed", "fixed", "auto_dismissed"]),
+  severity: z.string(),
+  packageName: z.string().nullable(),
+  ecosystem: z.string().nullable(),
+  ghsaId: z.string().nullable(),
+  advisorySummary: z.string().nullable(),
+  htmlUrl: z.string().nullable(),
+  closedAt: z.string().nullable(),
+  // Stored as GitHub sent it, which may be a reason added after this list
+  dismissedReason: z.string().nullable(),
+  dismissedComment: z.string().nullable(),
+  dismissedBy: z.string().nullable(),
+});
+
+/**
+ * Returns dismissed and fixed Dependabot alerts across repos, most recently
+ * closed first. Filters left null match every alert.
+ */
+export function getClosedAlerts(
+  db: Database.Database,
+  options: {
+    limit: number;
+    offset: number;
+    state?: Exclude<AlertState, "open"> | null;
+    reason?: string | null;
+    repo?: string | null;
+    groupId?: number | null;
+  }
+): ClosedAlertPage {
+  const params = {
+    limit: options.limit,
+    offset: options.offset,
+    state: options.state ?? null,
+    reason: options.reason ?? null,
+    repo: options.repo ?? null,
+    groupId: options.groupId ?? null,
+  };
+  const where = [
+    "WHERE a.state IN ('dismissed', 'fixed', 'auto_dismissed')",
+    "  AND (@state IS NULL OR a.state = @state)",
+    "  AND (@reason IS NULL OR a.dismissed_reason = @reason)",
+    "  AND (@repo IS NULL OR a.repo = @repo)",
+    `  AND ${inGroup("a.repo")}`,
+  ].join(" ");
+
+  const alerts = queryAll(
+    db,
+    [
+      "SELECT a.repo, a.alert_number, a.state, a.severity, a.package_name, a.ecosystem,",
+      "  a.ghsa_id, a.advisory_summary, a.html_url,",
+      "  CASE a.state WHEN 'fixed' THEN a.fixed_at WHEN 'dismissed' THEN a.dismissed_at",
+      "    ELSE a.updated_at END AS closed_at,",
+      "  a.dismissed_reason, a.dismissed_comment, a.dismissed_by",
+      "FROM alerts a",
+      where,
+      "ORDER BY closed_at DESC, a.repo, a.alert_number",
+      "LIMIT @limit OFFSET @offset",
+    ].join(" "),
+    closedAlertRowSchema,
+    params
+  );
+  const total = queryGet(
+    db,
+    `SELECT COUNT(*) AS count FROM alerts a ${where}`,
+    z.object({ count: z.number() }),
+    params
+  )!.count;
+
+  return { alerts, total, limit: options.limit, offset: options.offset };
+}
+
+/**
+ * Breaks down why Dependabot alerts were dismissed: per reason, per group
+ * (next to how many alerts the group fixed) and per dismisser. A group
+ * dismissing far more than it fixes, mostly as `tolerable_risk` or
+ * `no_bandwidth`, is likely silencing alerts. Auto-dismissed alerts are
+ * left out, as no one chose to dismiss them. Missing reasons, and reasons
+ * GitHub added after the five known ones, count as `unknown`.
+ */
+export function getDismissalAnalytics(
+  db: Database.Database,
+  groupId: number | null = null
+): DismissalAnalytics {
+  const rows = queryAll(
+    db,
+    [
+      "SELECT a.repo, a.state, COALESCE(a.dismissed_reason, 'unknown') AS reason,",
+      "  a.dismissed_by, COUNT(*) AS count",
+      "FROM alerts a",
+      "WHERE a.state IN ('dismissed', 'fixed')",
+      `  AND ${inGroup("a.repo")}`,
+      "GROUP BY a.repo, a.state, reason, a.dismissed_by",
+    ].join(" "),
+    z.object({
+      repo: z.string(),
+      state: z.enum(["dismissed", "fixed"]),
+      reason: z
+        .string()
+        .transform((r) => DISMISS_REASONS.find((known) => known === r) ?? "unknown"),
+      dismissedBy: z.string().nullable(),
+      count: z.number(),
+    }),
+    { groupId }
+  );
+
+  const reasons = new Map<DismissReason | "unknown", number>();
+  const dismissers = new Map<string, number>();
+  for (const row of rows) {
+    if (row.state !== "dismissed") continue;
+    reasons.set(row.reason, (reasons.get(row.reason) ?? 0) + row.count);
+    if (row.dismissedBy) {
+      dismissers.set(row.dismissedBy, (dismissers.get(row.dismissedBy) ?? 0) + row.count);
+    }
+  }
+
+  const stats = (id: number | null, name: string, repos: Set<string>): DismissalGroupStats => {
+    const result: DismissalGroupStats = {
+      groupId: id,
+      name,
+      fixed: 0,
+      dismissed: 0,
+      reasons: {},
+    };
+    for (const row of rows) {
+      if (!repos.has(row.repo)) continue;
+      if (row.state === "fixed") {
+        result.fixed += row.count;
+      } else {
+        result.dismissed += row.count;
+        result.reasons[row.reason] = (result.reasons[row.reason] ?? 0) + row.count;
+      }
+    }
+    return result;
+  };
+
+  const allGroups = getRepoGroups(db);
+  const groups = allGroups
+    .filter((g) => groupId === null || g.id === groupId)
+    .map((g) => stats(g.id, g.name, new Set(g.repos)));
+  if (groupId === null) {
+    const grouped = new Set(allGroups.flatMap((g) => g.repos));
+    const unassigned = new Set(rows.map((r) => r.repo).filter((repo) => !grouped.has(repo)));
+    if (unassigned.size > 0) {
+      groups.push(stats(null, "Unassigned", unassigned));
+    }
+  }
+
+  return {
+    reasons: [...reasons]
+      .map(([reason, count]) => ({ reason, count }))
+      .sort((a, b) => b.count - a.count),
+    groups,
+    dismissers: [...dismissers]
+      .map(([login, dismissed]) => ({ login, dismissed }))
+      .sort((a, b) => b.dismissed - a.dismissed || a.login.localeCompare(b.login)),
+  };
+}
+
+// --- Sync run history ---
+
+const syncTriggerSchema = z.enum(["cron", "manual", "api"]);
+
+const syncRunRowSchema = z.object({
+  id: z.number(),
+  triggeredBy: syncTriggerSchema,
+  status: z.enum(["running", "completed", "failed", "interrupted"]),
+  startedAt: z.string(),
+  finishedAt: z.string().nullable(),
+  total: z.number(),
+  refreshed: z.number(),
+  unchanged: z.number(),
+  failed: z.number(),
+  error: z.string().nullable(),
+});
+
+const syncRunRepoRowSchema = z
+  .object({
+    runId: z.number(),
+    triggeredBy: syncTriggerSchema,
+    repo: z.string(),
+    outcome: z.enum(["updated", "unchanged", "failed"]),
+    error: z.string().nullable(),
+    startedAt: z.string(),
+    finishedAt: z.string(),
+    openBefore: z.number(),
+    openAfter: z.number(),
+  })
+  .transform((row) => ({ ...row, alertDelta: row.openAfter - row.openBefore }));
+
+const SYNC_RUN_REPO_FIELDS = [
+  "runId",
+  "repo",
+  "outcome",
+  "error",
+  "startedAt",
+  "finishedAt",
+  "openBefore",
+  "openAfter",
+];
+
+const SYNC_RUN_REPO_COLUMNS = [
+  "r.run_id, s.triggered_by, r.repo, r.outcome, r.error,",
+  "r.started_at, r.finished_at, r.open_before, r.open_after",
+].join(" ");
+
+/** Records the start of a sync run and returns its ID. */
+export function startSyncRun(
+  db: Database.Database,
+  triggeredBy: SyncTrigger,
+  total: number,
+  startedAt: string = new Date().toISOString()
+): number {
+  const result = db
+    .prepare(
+      "INSERT INTO sync_runs (triggered_by, status, started_at, total) VALUES (?, 'running', ?, ?)"
+    )
+    .run(triggeredBy, startedAt, total);
+  return Number(result.lastInsertRowid);
+}
+
+/** Records the outcome of one repo within a sync run. */
+export function recordSyncRunRepo(
+  db: Database.Database,
+  entry: Omit<SyncRunRepo, "triggeredBy" | "alertDelta">
+): void {
+  db.prepare(buildUpsert("sync_run_repos", SYNC_RUN_REPO_FIELDS, ["runId", "repo"])).run(entry);
+}
+
+/** Closes a sync run with its final status and counts. */
+export function finishSyncRun(
+  db: Database.Database,
+  runId: number,
+  result: {
+    status: Exclude<SyncRunStatus, "running">;
+    refreshed: number;
+    unchanged: number;
+    failed: number;
+    error?: string | null;
+  },
+  finishedAt: string = new Date().toISOString()
+): void {
+  db.prepare(
+    [
+      "UPDATE sync_runs SET status = @status, finished_at = @finishedAt,",
+      "  refreshed = @refreshed, unchanged = @unchanged, failed = @failed, error = @error",
+      "WHERE id = @runId",
+    ].join(" ")
+  ).run({ ...result, error: result.error ?? null, finishedAt, runId });
+}
+
+/**
+ * Marks runs left 'running' by a previous process as interrupted.
+ * Called on startup, before any new run can begin.
+ */
+export function markInterruptedSyncRuns(db: Database.Database): number {
+  return db
+    .prepare("UPDATE sync_runs SET status = 'interrupted' WHERE status = 'running'")
+    .run().changes;
+}
+
+/** Returns sync runs newest first, optionally limited to one trigger. */
+export function getSyncRuns(
+  db: Database.Database,
+  options: { limit: number; offset: number; triggeredBy?: SyncTrigger | null }
+): SyncRunPage {
+  const where = options.triggeredBy ? "WHERE triggered_by = @triggeredBy" : "";
+  const params = { ...options, triggeredBy: options.triggeredBy ?? null };
+
+  const runs = queryAll(
+    db,
+    [
+      "SELECT * FROM sync_runs",
+      where,
+      "ORDER BY started_at DESC, id DESC",
+      "LIMIT @limit OFFSET @offset",
+    ].join(" "),
+    syncRunRowSchema,
+    params
+  );
+  const total = queryGet(
+    db,
+    `SELECT COUNT(*) AS count FROM sync_runs ${where}`,
+    z.object({ count: z.number() }),
+    params
+  )!.count;
+
+  return { runs, total, limit: options.limit, offset: options.offset };
+}
 
-  for (const row of rows) {
-    let summary = repoMap.get(row.repo);
-    if (!summary) {
-      summary = {
-        repo: row.repo,
-        lastSync: row.lastSync,
-        severityCounts: {},
-        totalAlerts: 0,
-      };
-      repoMap.set(row.repo, summary);
+/** Returns one sync run with its per-repo outcomes, or null if unknown. */
+export function getSyncRun(db: Database.Database, runId: number): SyncRunDetail | null {
+  const run = queryGet(db, "SELECT * FROM sync_runs WHERE id = ?", syncRunRowSchema, runId);
+  if (!run) return null;
+
+  const repos = queryAll(
+    db,
+    [
+      `SELECT ${SYNC_RUN_REPO_COLUMNS}`,
+      "FROM sync_run_repos r JOIN sync_runs s ON s.id = r.run_id",
+      "WHERE r.run_id = ?",
+      "ORDER BY r.outcome = 'failed' DESC, r.repo",
+    ].join(" "),
+    syncRunRepoRowSchema,
+    runId
+  );
+  return { ...run, repos };
+}
+
+/** Returns the latest run of a trigger, used to restore scheduler state on startup. */
+export function getLatestSyncRun(
+  db: Database.Database,
+  triggeredBy: SyncTrigger
+): SyncRun | null {
+  return (
+    queryGet(
+      db,
+      "SELECT * FROM sync_runs WHERE triggered_by = ? ORDER BY started_at DESC, id DESC LIMIT 1",
+      syncRunRowSchema,
+      triggeredBy
+    ) ?? null
+  );
+}
+
+/** Returns a repo's sync history across runs, newest first. */
+export function getRepoSyncRuns(
+  db: Database.Database,
+  repo: string,
+  limit: number = 50
+): SyncRunRepo[] {
+  return queryAll(
+    db,
+    [
+      `SELECT ${SYNC_RUN_REPO_COLUMNS}`,
+      "FROM sync_run_repos r JOIN sync_runs s ON s.id = r.run_id",
+      "WHERE r.repo = @repo",
+      "ORDER BY r.started_at DESC",
+      "LIMIT @limit",
+    ].join(" "),
+    syncRunRepoRowSchema,
+    { repo, limit }
+  );
+}
+
+/** Counts a repo's open Dependabot, code scanning and secret scanning alerts. */
+export function countOpenAlerts(db: Database.Database, repo: string): number {
+  // Counts accepted alerts too, so exceptions expiring between syncs don't skew the delta
+  return queryGet(
+    db,
+    [
+      "SELECT (SELECT COUNT(*) FROM alerts WHERE repo = @repo AND state = 'open')",
+      "  + (SELECT COUNT(*) FROM code_scanning_alerts WHERE repo = @repo AND state = 'open')",
+      "  + (SELECT COUNT(*) FROM secret_scanning_alerts WHERE repo = @repo AND state = 'open')",
+      "  AS count",
+    ].join(" "),
+    z.object({ count: z.number() }),
+    { repo }
+  )!.count;
+}
+
+// --- Watch targets ---
+
+const watchTargetRowSchema = z.object({
+  id: z.number(),
+  host: z.string(),
+  type: z.enum(["user", "org"]),
+  name: z.string(),
+  includeForks: z.number().transform((v) => v !== 0),
+  includeArchived: z.number().transform((v) => v !== 0),
+  namePattern: z.string().nullable(),
+  createdAt: z.string(),
+  lastCheckedAt: z.string().nullable(),
+  lastError: z.string().nullable(),
+});
+
+/** Returns all watch targets in the order they were added. */
+export function getWatchTargets(db: Database.Database): WatchTarget[] {
+  return queryAll(db, "SELECT * FROM watch_targets ORDER BY id", watchTargetRowSchema);
+}
+
+/**
+ * Adds a watch target. Returns null when the same user or org is already
+ * watched on that host (names compare case-insensitively).
+ */
+export function addWatchTarget(
+  db: Database.Database,
+  input: WatchTargetInput,
+  createdAt: string = new Date().toISOString()
+): WatchTarget | null {
+  const result = db
+    .prepare(
+      [
+        "INSERT OR IGNORE INTO watch_targets",
+        "  (host, type, name, include_forks, include_archived, name_pattern, created_at)",
+        "VALUES (@host, @type, @name, @includeForks, @includeArchived, @namePattern, @createdAt)",
+      ].join(" ")
+    )
+    .run({
+      host: input.host ?? DEFAULT_HOST,
+      type: input.type,
+      name: input.name,
+      includeForks: input.includeForks ? 1 : 0,
+      includeArchived: input.includeArchived ? 1 : 0,
+      namePattern: input.namePattern || null,
+      createdAt,
+    });
+  if (result.changes === 0) return null;
+
+  return queryGet(
+    db,
+    "SELECT * FROM watch_targets WHERE id = ?",
+    watchTargetRowSchema,
+    Number(result.lastInsertRowid)
+  )!;
+}
+
+/** Removes a watch target. Repos it enrolled stay tracked. */
+export function removeWatchTarget(db: Database.Database, id: number): boolean {
+  return db.prepare("DELETE FROM watch_targets WHERE id = ?").run(id).changes > 0;
+}
+
+/** Records the outcome of listing a watch target's repos. */
+export function recordWatchTargetCheck(
+  db: Database.Database,
+  id: number,
+  error: string | null,
+  checkedAt: string = new Date().toISOString()
+): void {
+  db.prepare("UPDATE watch_targets SET last_checked_at = ?, last_error = ? WHERE id = ?").run(
+    checkedAt,
+    error,
+    id
+  );
+}
+
+/** Clears a repo's deleted-upstream flag, leaving an archived flag in place. */
+export function clearDeletedUpstreamState(db: Database.Database, repo: string): void {
+  db.prepare(
+    "UPDATE repo_sync SET upstream_state = NULL WHERE repo = ? AND upstream_state = 'deleted'"
+  ).run(repo);
+}
+
+/** Flags a tracked repo as archived or deleted upstream, or clears the flag. */
+export function setUpstreamState(
+  db: Database.Database,
+  repo: string,
+  state: UpstreamState | null
+): void {
+  db.prepare("UPDATE repo_sync SET upstream_state = ? WHERE repo = ?").run(state, repo);
+}
+
+// --- Repo groups ---
+
+const repoGroupRowSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string().nullable(),
+  source: z.enum(["manual", "github_team"]),
+  createdAt: z.string(),
+  repos: z
+    .string()
+    .nullable()
+    .transform((s) => (s ? s.split(",").sort() : [])),
+});
+
+const REPO_GROUP_SELECT = [
+  "SELECT g.id, g.name, g.description, g.source, g.created_at,",
+  "  GROUP_CONCAT(m.repo) AS repos",
+  "FROM repo_groups g",
+  "LEFT JOIN repo_group_members m ON m.group_id = g.id",
+].join(" ");
+
+/** Returns all groups with their repos, by name. */
+export function getRepoGroups(db: Database.Database): RepoGroup[] {
+  return queryAll(
+    db,
+    `${REPO_GROUP_SELECT} GROUP BY g.id ORDER BY g.name COLLATE NOCASE`,
+    repoGroupRowSchema
+  );
+}
+
+/** Returns one group with its repos, or null when it does not exist. */
+export function getRepoGroup(db: Database.Database, id: number): RepoGroup | null {
+  return queryGet(db, `${REPO_GROUP_SELECT} WHERE g.id = ? GROUP BY g.id`, repoGroupRowSchema, id) ?? null;
+}
+
+/** Returns the group with the given name (case-insensitive), or null. */
+export function findRepoGroupByName(db: Database.Database, name: string): RepoGroup | null {
+  return (
+    queryGet(db, `${REPO_GROUP_SELECT} WHERE g.name = ? GROUP BY g.id`, repoGroupRowSchema, name) ??
+    null
+  );
+}
+
+function setGroupRepos(db: Database.Database, groupId: number, repos: string[]): void {
+  db.prepare("DELETE FROM repo_group_members WHERE group_id = ?").run(groupId);
+  const insert = db.prepare("INSERT OR IGNORE INTO repo_group_members (group_id, repo) VALUES (?, ?)");
+  for (const repo of repos) {
+    insert.run(groupId, repo);
+  }
+}
+
+/**
+ * Creates a group with its repos. Returns null when a group with the same
+ * name (case-insensitive) already exists.
+ */
+export function createRepoGroup(
+  db: Database.Database,
+  input: RepoGroupInput,
+  source: RepoGroup["source"] = "manual",
+  createdAt: string = new Date().toISOString()
+): RepoGroup | null {
+  const id = db.transaction(() => {
+    const result = db
+      .prepare(
+        [
+          "INSERT OR IGNORE INTO repo_groups (name, description, source, created_at)",
+          "VALUES (@name, @description, @source, @createdAt)",
+        ].join(" ")
+      )
+      .run({ name: input.name, description: input.description ?? null, source, createdAt });
+    if (result.changes === 0) return null;
+
+    const groupId = Number(result.lastInsertRowid);
+    setGroupRepos(db, groupId, input.repos ?? []);
+    return groupId;
+  })();
+
+  return id === null ? null : getRepoGroup(db, id);
+}
+
+/**
+ * Updates a group's name, description and/or repos; omitted fields are kept.
+ * Returns null when the group does not exist. The caller checks that a new
+ * name is not taken.
+ */
+export function updateRepoGroup(
+  db: Database.Database,
+  id: number,
+  input: Partial<RepoGroupInput>
+): RepoGroup | null {
+  const existing = getRepoGroup(db, id);
+  if (!existing) return null;
+
+  db.transaction(() => {
+    db.prepare("UPDATE repo_groups SET name = @name, description = @description WHERE id = @id").run({
+      id,
+      name: input.name ?? existing.name,
+      description: input.description !== undefined ? input.description : existing.description,
+    });
+    if (input.repos) {
+      setGroupRepos(db, id, input.repos);
     }
+  })();
 
-    if (row.severity) {
-      const key = row.severity.toLowerCase();
-      summary.severityCounts[key] = row.count;
-      summary.totalAlerts += row.count;
+  return getRepoGroup(db, id);
+}
+
+/** Deletes a group; its repos stay tracked. */
+/** Deletes a group and its SLA override; its repos stay tracked. */
+export function deleteRepoGroup(db: Database.Database, id: number): boolean {
+  return db.transaction(() => {
+    db.prepare("DELETE FROM repo_group_members WHERE group_id = ?").run(id);
+    const policy = getSlaPolicy(db);
+    const overrides = policy.overrides.filter((o) => !(o.scope === "group" && o.groupId === id));
+    if (overrides.length !== policy.overrides.length) {
+      saveSlaPolicy(db, { ...policy, overrides });
     }
+    return db.prepare("DELETE FROM repo_groups WHERE id = ?").run(id).changes > 0;
+  })();
+}
+
+/** Group ids of every repo that belongs to a group. */
+function getGroupIdsByRepo(db: Database.Database): Map<string, number[]> {
+  const rows = queryAll(
+    db,
+    "SELECT repo, group_id FROM repo_group_members",
+    z.object({ repo: z.string(), groupId: z.number() })
+  );
+  const groupIds = new Map<string, number[]>();
+  for (const row of rows) {
+    groupIds.set(row.repo, [...(groupIds.get(row.repo) ?? []), row.groupId]);
   }
+  return groupIds;
+}
 
-  return [...repoMap.values()];
+/**
+ * Creates or refreshes the group of an imported GitHub team, replacing its
+ * repos with the team's current ones.
+ */
+export function saveTeamGroup(
+  db: Database.Database,
+  name: string,
+  description: string | null,
+  repos: string[]
+): RepoGroup {
+  const existing = findRepoGroupByName(db, name);
+  if (!existing) {
+    return createRepoGroup(db, { name, description, repos }, "github_team")!;
+  }
+
+  db.prepare("UPDATE repo_groups SET source = 'github_team' WHERE id = ?").run(existing.id);
+  return updateRepoGroup(db, existing.id, { description, repos })!;
 }
 
 /**
- * Returns sorted alerts for a given repo from the cache.
+ * Rolls open alerts, overdue SLA alerts and MTTR up per group, over the
+ * tracked repos of each group. Tracked repos in no group are summed in a
+ * final "Unassigned" row (omitted when every repo has a group).
  */
-export function getRepoAlerts(
+export function getGroupRollups(
   db: Database.Database,
-  repo: string
-): { alerts: NormalizedAlert[]; lastSync: string | null } {
-  const cached = getCachedAlerts(db, repo);
-  return {
-    alerts: sortAlerts(cached.alerts),
-    lastSync: cached.lastSync,
+  slaConfig?: Partial<SlaLimits>
+): GroupRollup[] {
+  const summaries = new Map(getAllRepoSummaries(db).map((s) => [s.repo, s]));
+  const overdueByRepo = new Map<string, number>();
+  for (const v of getSlaViolations(db, slaConfig)) {
+    if (v.overdue) overdueByRepo.set(v.repo, (overdueByRepo.get(v.repo) ?? 0) + 1);
+  }
+  const mttrByRepo = new Map<string, MttrMetric[]>();
+  for (const m of getMttrMetrics(db)) {
+    mttrByRepo.set(m.repo, [...(mttrByRepo.get(m.repo) ?? []), m]);
+  }
+
+  const rollup = (groupId: number | null, name: string, repos: string[]): GroupRollup => {
+    const result: GroupRollup = {
+      groupId,
+      name,
+      repoCount: 0,
+      totalAlerts: 0,
+      severityCounts: {},
+      overdue: 0,
+      avgMttrDays: null,
+    };
+    let resolved = 0;
+    let mttrTotal = 0;
+
+    for (const repo of repos) {
+      const summary = summaries.get(repo);
+      if (!summary) continue;
+
+      result.repoCount++;
+      result.totalAlerts += summary.totalAlerts;
+      for (const [severity, count] of Object.entries(summary.severityCounts)) {
+        result.severityCounts[severity] = (result.severityCounts[severity] ?? 0) + count;
+      }
+      result.overdue += overdueByRepo.get(repo) ?? 0;
+      for (const m of mttrByRepo.get(repo) ?? []) {
+        resolved += m.resolvedCount;
+        mttrTotal += m.avgDays * m.resolvedCount;
+      }
+    }
+
+    if (resolved > 0) {
+      result.avgMttrDays = Math.round((mttrTotal / resolved) * 10) / 10;
+    }
+    return result;
   };
+
+  const rollups = getRepoGroups(db).map((g) => rollup(g.id, g.name, g.repos));
+  const unassigned = [...summaries.values()]
+    .filter((s) => s.groups.length === 0)
+    .map((s) => s.repo);
+  if (unassigned.length > 0) {
+    rollups.push(rollup(null, "Unassigned", unassigned));
+  }
+  return rollups;
 }
 
-// --- History analytics queries ---
+// --- CODEOWNERS ---
 
-const DEFAULT_SLA_LIMITS: Record<string, number> = {
-  critical: 2,
-  high: 7,
-  medium: 30,
-  low: 90,
-};
+import {
+  matchCodeowners,
+  parseCodeowners,
+  type CodeownersFile,
+} from "./codeowners.js";
+
+const codeownersRowSchema = z.object({
+  path: z.string(),
+  content: z.string(),
+  fetchedAt: z.string(),
+});
+
+const alertOwnerRowSchema = z.object({
+  alertNumber: z.number(),
+  owner: z.string(),
+});
+
+const alertPathRowSchema = z.object({
+  source: alertSourceSchema,
+  alertNumber: z.number(),
+  path: z.string(),
+});
+
+/** Stores the repo's CODEOWNERS file, or forgets it when the repo has none (null). */
+export function saveCodeowners(
+  db: Database.Database,
+  repo: string,
+  file: CodeownersFile | null,
+  fetchedAt: string = new Date().toISOString()
+): void {
+  if (!file) {
+    db.prepare("DELETE FROM repo_codeowners WHERE repo = ?").run(repo);
+    return;
+  }
+  db.prepare(buildUpsert("repo_codeowners", ["repo", "path", "content", "fetchedAt"], ["repo"])).run({
+    repo,
+    path: file.path,
+    content: file.content,
+    fetchedAt,
+  });
+}
+
+/** Returns the stored CODEOWNERS file of a repo, or null. */
+export function getCodeowners(
+  db: Database.Database,
+  repo: string
+): (CodeownersFile & { fetchedAt: string }) | null {
+  return (
+    queryGet(
+      db,
+      "SELECT path, content, fetched_at FROM repo_codeowners WHERE repo = ?",
+      codeownersRowSchema,
+      repo
+    ) ?? null
+  );
+}
+
+/**
+ * Re-resolves the owners of every Dependabot alert (by manifest path) and
+ * code scanning alert (by file path) of a repo against its stored
+ * CODEOWNERS. Alerts without a path, or in repos without CODEOWNERS, get
+ * no owners.
+ */
+export function resolveAlertOwners(db: Database.Database, repo: string): void {
+  const codeowners = getCodeowners(db, repo);
+  const rules = codeowners ? parseCodeowners(codeowners.content) : [];
+  const paths = rules.length
+    ? queryAll(
+        db,
+        [
+          "SELECT 'dependabot' AS source, alert_number, manifest_path AS path",
+          "FROM alerts WHERE repo = @repo AND manifest_path IS NOT NULL",
+          "UNION ALL",
+          "SELECT 'code_scanning' AS source, alert_number, path",
+          "FROM code_scanning_alerts WHERE repo = @repo AND path IS NOT NULL",
+        ].join(" "),
+        alertPathRowSchema,
+        { repo }
+      )
+    : [];
+
+  const insert = db.prepare(
+    "INSERT OR IGNORE INTO alert_owners (repo, source, alert_number, owner) VALUES (?, ?, ?, ?)"
+  );
+  db.transaction(() => {
+    db.prepare("DELETE FROM alert_owners WHERE repo = ?").run(repo);
+    for (const { source, alertNumber, path } of paths) {
+      for (const owner of matchCodeowners(rules, path)) {
+        insert.run(repo, source, alertNumber, owner);
+      }
+    }
+  })();
+}
+
+/** Owners of a repo's alerts from one source, by alert number. */
+export function getAlertOwners(
+  db: Database.Database,
+  repo: string,
+  source: AlertSource
+): Map<number, string[]> {
+  const rows = queryAll(
+    db,
+    [
+      "SELECT alert_number, owner FROM alert_owners",
+      "WHERE repo = @repo AND source = @source",
+      "ORDER BY alert_number, owner",
+    ].join(" "),
+    alertOwnerRowSchema,
+    { repo, source }
+  );
+  const owners = new Map<number, string[]>();
+  for (const row of rows) {
+    owners.set(row.alertNumber, [...(owners.get(row.alertNumber) ?? []), row.owner]);
+  }
+  return owners;
+}
+
+// --- Threat intel ---
+
+import type { EpssDataset, KevCatalog } from "./threat-intel.js";
+
+/** Enrichment of alerts whose CVE is in neither dataset, or that have no CVE. */
+const NO_THREAT_INTEL: ThreatIntel = { epssScore: null, epssPercentile: null, kev: false };
+
+const threatDatasetSchema = z.enum(["epss", "kev"]);
+
+const datasetImportRowSchema = z.object({
+  dataset: threatDatasetSchema,
+  source: z.string(),
+  importedAt: z.string(),
+  recordCount: z.number(),
+  publishedAt: z.string().nullable(),
+});
+
+const alertThreatIntelRowSchema = z.object({
+  alertNumber: z.number(),
+  epssScore: z.number().nullable(),
+  epssPercentile: z.number().nullable(),
+  kev: z.number().transform((v) => v !== 0),
+});
+
+function recordDatasetImport(
+  db: Database.Database,
+  status: ThreatDatasetStatus
+): ThreatDatasetStatus {
+  db.prepare(
+    buildUpsert(
+      "threat_dataset_imports",
+      ["dataset", "source", "importedAt", "recordCount", "publishedAt"],
+      ["dataset"]
+    )
+  ).run(status);
+  return status;
+}
+
+/** Replaces all stored EPSS scores with an imported dataset. */
+export function saveEpssScores(
+  db: Database.Database,
+  source: string,
+  dataset: EpssDataset,
+  importedAt: string = new Date().toISOString()
+): ThreatDatasetStatus {
+  const insert = db.prepare(
+    "INSERT OR REPLACE INTO epss_scores (cve_id, epss, percentile) VALUES (?, ?, ?)"
+  );
+  return db.transaction(() => {
+    db.prepare("DELETE FROM epss_scores").run();
+    for (const score of dataset.scores) {
+      insert.run(score.cveId, score.epss, score.percentile);
+    }
+    return recordDatasetImport(db, {
+      dataset: "epss",
+      source,
+      importedAt,
+      recordCount: dataset.scores.length,
+      publishedAt: dataset.scoredOn,
+    });
+  })();
+}
+
+/** Replaces all stored KEV entries with an imported catalog. */
+export function saveKevEntries(
+  db: Database.Database,
+  source: string,
+  catalog: KevCatalog,
+  importedAt: string = new Date().toISOString()
+): ThreatDatasetStatus {
+  const insert = db.prepare(
+    buildUpsert(
+      "kev_entries",
+      [
+        "cveId",
+        "vendorProject",
+        "product",
+        "vulnerabilityName",
+        "dateAdded",
+        "dueDate",
+        "knownRansomware",
+      ],
+      ["cveId"]
+    )
+  );
+  return db.transaction(() => {
+    db.prepare("DELETE FROM kev_entries").run();
+    for (const entry of catalog.entries) {
+      insert.run({ ...entry, knownRansomware: entry.knownRansomware ? 1 : 0 });
+    }
+    return recordDatasetImport(db, {
+      dataset: "kev",
+      source,
+      importedAt,
+      recordCount: catalog.entries.length,
+      publishedAt: catalog.releasedAt,
+    });
+  })();
+}
+
+/** The last import of each dataset; datasets never imported are left out. */
+export function getThreatIntelStatus(db: Database.Database): ThreatDatasetStatus[] {
+  return queryAll(
+    db,
+    [
+      "SELECT dataset, source, imported_at, record_count, published_at",
+      "FROM threat_dataset_imports ORDER BY dataset",
+    ].join(" "),
+    datasetImportRowSchema
+  );
+}
 
-/**
- * Returns daily counts of open alerts grouped by severity.
- * Reconstructs daily snapshots from the alert_history table.
- */
-export function getTrendData(
+/** EPSS and KEV data of a repo's Dependabot alerts with a known CVE, by alert number. */
+export function getAlertThreatIntel(
   db: Database.Database,
-  repo?: string | null
-): TrendPoint[] {
+  repo: string
+): Map<number, ThreatIntel> {
   const rows = queryAll(
     db,
     [
-      "SELECT date(recorded_at) AS day, severity, COUNT(DISTINCT alert_number) AS count",
-      "FROM alert_history",
-      "WHERE state = 'open'",
-      "  AND (repo = @repo OR @repo IS NULL)",
-      "GROUP BY day, severity",
-      "ORDER BY day",
+      "SELECT a.alert_number, epss.epss AS epss_score, epss.percentile AS epss_percentile,",
+      "  kev.cve_id IS NOT NULL AS kev",
+      "FROM alerts a",
+      THREAT_INTEL_JOIN,
+      "WHERE a.repo = @repo AND (epss.cve_id IS NOT NULL OR kev.cve_id IS NOT NULL)",
     ].join(" "),
-    trendRowSchema,
-    { repo: repo ?? null }
+    alertThreatIntelRowSchema,
+    { repo }
   );
+  return new Map(rows.map(({ alertNumber, ...intel }) => [alertNumber, intel]));
+}
 
-  const dayMap = new Map<string, TrendPoint>();
+// --- Risk exceptions ---
 
-  for (const row of rows) {
-    let point = dayMap.get(row.day);
-    if (!point) {
-      point = { day: row.day, critical: 0, high: 0, medium: 0, low: 0 };
-      dayMap.set(row.day, point);
-    }
-    const key = row.severity.toLowerCase() as keyof Omit<TrendPoint, "day">;
-    if (key in point) {
-      point[key] = row.count;
-    }
-  }
+const riskExceptionRowSchema = z.object({
+  id: z.number(),
+  scope: z.enum(["alert", "advisory", "package", "repo"]),
+  repo: z.string().nullable(),
+  alertNumber: z.number().nullable(),
+  ghsaId: z.string().nullable(),
+  packageName: z.string().nullable(),
+  ecosystem: z.string().nullable(),
+  justification: z.string(),
+  approver: z.string(),
+  expiresAt: z.string(),
+  createdAt: z.string(),
+  revokedAt: z.string().nullable(),
+  status: z.enum(["active", "expired", "revoked"]),
+});
 
-  return [...dayMap.values()];
+const riskExceptionEventRowSchema = z.object({
+  exceptionId: z.number(),
+  action: z.enum(["created", "updated", "revoked"]),
+  actor: z.string(),
+  note: z.string().nullable(),
+  recordedAt: z.string(),
+});
+
+const acceptedAlertRowSchema = z.object({
+  exceptionId: z.number(),
+  repo: z.string(),
+  alertNumber: z.number(),
+  severity: z.string().transform((s) => s.toLowerCase()),
+  packageName: z.string().nullable(),
+  ghsaId: z.string().nullable(),
+  htmlUrl: z.string().nullable(),
+});
+
+const RISK_EXCEPTION_SELECT = [
+  "SELECT x.id, x.scope, x.repo, x.alert_number, x.ghsa_id, x.package_name, x.ecosystem,",
+  "  x.justification, x.approver, x.expires_at, x.created_at, x.revoked_at,",
+  "  CASE WHEN x.revoked_at IS NOT NULL THEN 'revoked'",
+  "    WHEN x.expires_at <= strftime('%Y-%m-%dT%H:%M:%fZ', 'now') THEN 'expired'",
+  "    ELSE 'active' END AS status",
+  "FROM risk_exceptions x",
+].join(" ");
+
+function recordExceptionEvent(
+  db: Database.Database,
+  exceptionId: number,
+  action: "created" | "updated" | "revoked",
+  actor: string,
+  note: string | null,
+  recordedAt: string
+): void {
+  db.prepare(
+    buildInsert("risk_exception_events", ["exceptionId", "action", "actor", "note", "recordedAt"])
+  ).run({ exceptionId, action, actor, note, recordedAt });
 }
 
 /**
- * Computes mean time to remediate per repo and severity.
+ * Returns risk exceptions, newest first, each with its audit trail and,
+ * while active, the open alerts it covers. `status` keeps one status.
  */
-export function getMttrMetrics(
+export function getRiskExceptions(
   db: Database.Database,
-  repo?: string | null
-): MttrMetric[] {
-  return queryAll(
+  filters: { status?: RiskExceptionStatus | null; id?: number } = {}
+): RiskException[] {
+  const rows = queryAll(
     db,
     [
-      "WITH first_events AS (",
-      "  SELECT repo, alert_number, state, severity,",
-      "         MIN(id) AS first_id, MIN(recorded_at) AS first_at",
-      "  FROM alert_history",
-      "  GROUP BY repo, alert_number, state",
-      ")",
-      "SELECT open_ev.repo, open_ev.severity,",
-      "  AVG(julianday(res_ev.first_at) - julianday(open_ev.first_at)) AS avg_days,",
-      "  COUNT(*) AS resolved_count",
-      "FROM first_events open_ev",
-      "JOIN first_events res_ev",
-      "  ON open_ev.repo = res_ev.repo AND open_ev.alert_number = res_ev.alert_number",
-      "WHERE open_ev.state = 'open'",
-      "  AND res_ev.state IN ('fixed', 'dismissed')",
-      "  AND (open_ev.repo = @repo OR @repo IS NULL)",
-      "GROUP BY open_ev.repo, open_ev.severity",
+      `SELECT * FROM (${RISK_EXCEPTION_SELECT})`,
+      "WHERE (@status IS NULL OR status = @status) AND (@id IS NULL OR id = @id)",
+      "ORDER BY created_at DESC, id DESC",
     ].join(" "),
-    mttrRowSchema,
-    { repo: repo ?? null }
+    riskExceptionRowSchema,
+    { status: filters.status ?? null, id: filters.id ?? null }
   );
-}
+  if (rows.length === 0) return [];
 
-/**
- * Returns all history entries for a given repo.
- */
-export function getAlertTimeline(
-  db: Database.Database,
-  repo: string
-): AlertTimelineEntry[] {
-  return queryAll(
+  const events = queryAll(
     db,
     [
-      "SELECT alert_number, state, severity, recorded_at",
-      "FROM alert_history",
-      "WHERE repo = ?",
-      "ORDER BY alert_number, recorded_at",
+      "SELECT exception_id, action, actor, note, recorded_at",
+      "FROM risk_exception_events",
+      "WHERE @id IS NULL OR exception_id = @id",
+      "ORDER BY recorded_at, id",
     ].join(" "),
-    timelineRowSchema,
-    repo
+    riskExceptionEventRowSchema,
+    { id: filters.id ?? null }
+  );
+  const alerts = queryAll(
+    db,
+    [
+      "SELECT x.id AS exception_id, a.repo, a.alert_number, a.severity, a.package_name,",
+      "  a.ghsa_id, a.html_url",
+      "FROM risk_exceptions x",
+      `JOIN alerts a ON a.state = 'open' AND ${exceptionCovers("a")}`,
+      "WHERE x.revoked_at IS NULL AND x.expires_at > strftime('%Y-%m-%dT%H:%M:%fZ', 'now')",
+      "  AND (@id IS NULL OR x.id = @id)",
+      "ORDER BY a.repo, a.alert_number",
+    ].join(" "),
+    acceptedAlertRowSchema,
+    { id: filters.id ?? null }
   );
+
+  return rows.map((row) => ({
+    ...row,
+    alerts: alerts
+      .filter((a) => a.exceptionId === row.id)
+      .map(({ exceptionId: _, ...alert }) => alert),
+    events: events
+      .filter((e) => e.exceptionId === row.id)
+      .map(({ exceptionId: _, ...event }) => event),
+  }));
+}
+
+/** Returns one risk exception, or null when it does not exist. */
+export function getRiskException(db: Database.Database, id: number): RiskException | null {
+  return getRiskExceptions(db, { id })[0] ?? null;
 }
 
 /**
- * Checks currently open alerts against SLA thresholds.
+ * Records a risk exception and its creation in the audit trail, attributed
+ * to the approver. The caller validates the input.
  */
-export function getSlaViolations(
+export function createRiskException(
   db: Database.Database,
-  slaConfig?: Record<string, number>
-): SlaViolation[] {
-  const limits = { ...DEFAULT_SLA_LIMITS, ...slaConfig };
+  input: RiskExceptionInput,
+  createdAt: string = new Date().toISOString()
+): RiskException {
+  const id = db.transaction(() => {
+    const result = db
+      .prepare(
+        buildInsert("risk_exceptions", [
+          "scope",
+          "repo",
+          "alertNumber",
+          "ghsaId",
+          "packageName",
+          "ecosystem",
+          "justification",
+          "approver",
+          "expiresAt",
+          "createdAt",
+        ])
+      )
+      .run({ ...input, createdAt });
+    const exceptionId = Number(result.lastInsertRowid);
+    const { approver, justification } = input;
+    recordExceptionEvent(db, exceptionId, "created", approver, justification, createdAt);
+    return exceptionId;
+  })();
+  return getRiskException(db, id)!;
+}
 
-  const rows = queryAll(
-    db,
-    [
-      "WITH first_open AS (",
-      "  SELECT repo, alert_number, MIN(recorded_at) AS first_at",
-      "  FROM alert_history",
-      "  GROUP BY repo, alert_number",
-      ")",
-      "SELECT a.repo, a.alert_number, a.severity, a.package_name, a.html_url,",
-      "  fo.first_at AS first_seen,",
-      "  julianday('now') - julianday(fo.first_at) AS open_days",
-      "FROM alerts a",
-      "JOIN first_open fo ON a.repo = fo.repo AND a.alert_number = fo.alert_number",
-      "WHERE a.state = 'open'",
-    ].join(" "),
-    slaRowSchema
-  );
+/**
+ * Amends or renews an exception (justification, approver, expiry) and
+ * records the changed fields in the audit trail. An expired exception
+ * given a later expiry becomes active again. Returns null when the
+ * exception does not exist or was revoked.
+ */
+export function updateRiskException(
+  db: Database.Database,
+  id: number,
+  update: RiskExceptionUpdate,
+  updatedAt: string = new Date().toISOString()
+): RiskException | null {
+  const existing = getRiskException(db, id);
+  if (!existing || existing.status === "revoked") return null;
 
-  return rows
-    .map((row) => {
-      const severity = row.severity.toLowerCase();
-      const slaLimitDays = limits[severity] ?? 90;
-      const openDays = Math.round(row.openDays * 10) / 10;
+  const fields = ["justification", "approver", "expiresAt"] as const;
+  const changes = fields
+    .filter((field) => update[field] !== undefined && update[field] !== existing[field])
+    .map((field) => `${field}: ${existing[field]} → ${update[field]}`);
+  if (changes.length === 0) return existing;
 
-      return {
-        repo: row.repo,
-        alertNumber: row.alertNumber,
-        severity,
-        packageName: row.packageName,
-        htmlUrl: row.htmlUrl,
-        firstSeen: row.firstSeen,
-        openDays,
-        slaLimitDays,
-        overdue: openDays > slaLimitDays,
-      };
-    })
-    .sort((a, b) => {
-      const aDiff = a.openDays - a.slaLimitDays;
-      const bDiff = b.openDays - b.slaLimitDays;
-      return bDiff - aDiff;
+  db.transaction(() => {
+    db.prepare(
+      [
+        "UPDATE risk_exceptions",
+        "SET justification = @justification, approver = @approver, expires_at = @expiresAt",
+        "WHERE id = @id",
+      ].join(" ")
+    ).run({
+      id,
+      justification: update.justification ?? existing.justification,
+      approver: update.approver ?? existing.approver,
+      expiresAt: update.expiresAt ?? existing.expiresAt,
     });
+    recordExceptionEvent(db, id, "updated", update.actor, changes.join("; "), updatedAt);
+  })();
+  return getRiskException(db, id);
 }
 
-// --- Cross-repo vulnerability & dependency queries ---
-
 /**
- * Groups open alerts by GHSA advisory across all repos.
+ * Revokes an exception so its alerts count again; the record and its
+ * audit trail are kept. Returns null when it does not exist or was already
+ * revoked.
  */
-export function getVulnerabilityGroups(
-  db: Database.Database
-): VulnerabilityGroup[] {
-  return queryAll(
+export function revokeRiskException(
+  db: Database.Database,
+  id: number,
+  actor: string,
+  reason: string | null = null,
+  revokedAt: string = new Date().toISOString()
+): RiskException | null {
+  const revoked = db.transaction(() => {
+    const result = db
+      .prepare("UPDATE risk_exceptions SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL")
+      .run(revokedAt, id);
+    if (result.changes === 0) return false;
+    recordExceptionEvent(db, id, "revoked", actor, reason, revokedAt);
+    return true;
+  })();
+  return revoked ? getRiskException(db, id) : null;
+}
+
+/** Latest expiry of the active exceptions covering each of a repo's alerts, by alert number. */
+function getAcceptedUntil(db: Database.Database, repo: string): Map<number, string> {
+  const rows = queryAll(
     db,
     [
-      "SELECT ghsa_id, cve_id, severity, advisory_summary AS summary, cvss_score, patched_version,",
-      "  COUNT(DISTINCT repo) AS affected_repos,",
-      "  COUNT(*) AS total_alerts,",
-      "  GROUP_CONCAT(DISTINCT repo) AS repos",
-      "FROM alerts",
-      "WHERE state = 'open' AND ghsa_id IS NOT NULL",
-      "GROUP BY ghsa_id",
-      "ORDER BY affected_repos DESC, cvss_score DESC",
+      "SELECT a.alert_number, MAX(x.expires_at) AS expires_at",
+      "FROM alerts a",
+      `JOIN risk_exceptions x ON ${exceptionCovers("a")}`,
+      "WHERE a.repo = @repo AND x.revoked_at IS NULL",
+      "  AND x.expires_at > strftime('%Y-%m-%dT%H:%M:%fZ', 'now')",
+      "GROUP BY a.alert_number",
     ].join(" "),
-    vulnRowSchema
+    z.object({ alertNumber: z.number(), expiresAt: z.string() }),
+    { repo }
   );
+  return new Map(rows.map((row) => [row.alertNumber, row.expiresAt]));
 }
 
+// --- Alert annotations ---
+
+const alertAnnotationRowSchema = z.object({
+  repo: z.string(),
+  alertNumber: z.number(),
+  note: z.string().nullable(),
+  tags: z.string().transform((s) => JSON.parse(s) as string[]),
+  assignee: z.string().nullable(),
+  updatedAt: z.string(),
+});
+
 /**
- * Groups open alerts by package across all repos.
+ * Returns alert annotations by repo and alert number. `repo` keeps one
+ * repo's, `tag` and `assignee` (case-insensitive) the matching ones.
  */
-export function getDependencyLandscape(
-  db: Database.Database
-): DependencyGroup[] {
+export function getAlertAnnotations(
+  db: Database.Database,
+  filters: { repo?: string | null } & AnnotationFilters = {}
+): AlertAnnotation[] {
   return queryAll(
     db,
     [
-      "SELECT package_name, ecosystem,",
-      "  COUNT(*) AS total_alerts,",
-      "  COUNT(DISTINCT repo) AS affected_repos,",
-      "  SUM(CASE WHEN severity = 'critical' THEN 1 ELSE 0 END) AS critical_count,",
-      "  SUM(CASE WHEN severity = 'high' THEN 1 ELSE 0 END) AS high_count,",
-      "  GROUP_CONCAT(DISTINCT repo) AS repos",
-      "FROM alerts",
-      "WHERE state = 'open' AND package_name IS NOT NULL",
-      "GROUP BY package_name, ecosystem",
-      "ORDER BY critical_count DESC, total_alerts DESC",
+      "SELECT repo, alert_number, note, tags, assignee, updated_at",
+      "FROM alert_annotations n",
+      "WHERE (@repo IS NULL OR repo = @repo)",
+      "  AND (@assignee IS NULL OR assignee = @assignee)",
+      "  AND (@tag IS NULL OR EXISTS (SELECT 1 FROM json_each(n.tags)",
+      "    WHERE value = @tag COLLATE NOCASE))",
+      "ORDER BY repo, alert_number",
     ].join(" "),
-    depRowSchema
+    alertAnnotationRowSchema,
+    {
+      repo: filters.repo ?? null,
+      tag: filters.tag ?? null,
+      assignee: filters.assignee ?? null,
+    }
   );
 }
 
-// --- Fix Advisor ---
+/** Returns the annotation of one alert, or null when it has none. */
+export function getAlertAnnotation(db: Database.Database, ref: AlertRef): AlertAnnotation | null {
+  return (
+    queryGet(
+      db,
+      [
+        "SELECT repo, alert_number, note, tags, assignee, updated_at",
+        "FROM alert_annotations WHERE repo = @repo AND alert_number = @alertNumber",
+      ].join(" "),
+      alertAnnotationRowSchema,
+      ref
+    ) ?? null
+  );
+}
 
-const SEVERITY_RANK: Record<string, number> = {
-  critical: 0,
-  high: 1,
-  medium: 2,
-  low: 3,
-  unknown: 4,
-};
+/**
+ * Replaces the annotation of an alert. Annotations are keyed by repo and
+ * alert number, so they survive refreshes; the caller validates the input.
+ */
+export function saveAlertAnnotation(
+  db: Database.Database,
+  ref: AlertRef,
+  input: AlertAnnotationInput,
+  updatedAt: string = new Date().toISOString()
+): AlertAnnotation {
+  db.prepare(
+    buildUpsert(
+      "alert_annotations",
+      ["repo", "alertNumber", "note", "tags", "assignee", "updatedAt"],
+      ["repo", "alertNumber"]
+    )
+  ).run({ ...ref, ...input, tags: JSON.stringify(input.tags), updatedAt });
+  return getAlertAnnotation(db, ref)!;
+}
 
-function severityRank(s: string): number {
-  return SEVERITY_RANK[s.toLowerCase()] ?? 4;
+/** Deletes the annotation of an alert. Returns false when it had none. */
+export function deleteAlertAnnotation(db: Database.Database, ref: AlertRef): boolean {
+  return (
+    db
+      .prepare("DELETE FROM alert_annotations WHERE repo = ? AND alert_number = ?")
+      .run(ref.repo, ref.alertNumber).changes > 0
+  );
 }
 
-const fixAdvisorGroupSchema = z.object({
-  packageName: z.string(),
-  ecosystem: z.string().nullable(),
-  manifestPaths: z
-    .string()
-    .nullable()
-    .transform((s) => (s ? [...new Set(s.split(","))] : [])),
-  ghsaIds: z
-    .string()
-    .nullable()
-    .transform((s) => (s ? [...new Set(s.split(","))] : [])),
-  cveIds: z
-    .string()
-    .nullable()
-    .transform((s) => (s ? [...new Set(s.split(","))] : [])),
-  maxCvssScore: z.number().nullable(),
-  alertCount: z.number(),
-  affectedRepos: z.number(),
-  repos: z
+// --- Notifications ---
+
+const notificationChannelRowSchema = z.object({
+  id: z.number(),
+  type: z.enum(["slack", "teams", "webhook", "email"]),
+  name: z.string(),
+  target: z.string(),
+  minSeverity: z.enum(["critical", "high", "medium", "low"]),
+  events: z
     .string()
-    .nullable()
-    .transform((s) => (s ? [...new Set(s.split(","))] : [])),
-  patchedVersion: z.string().nullable(),
+    .transform((s) => JSON.parse(s) as NotificationChannelInput["events"]),
+  enabled: z.number().transform((v) => v !== 0),
+  createdAt: z.string(),
+  lastSentAt: z.string().nullable(),
+  lastError: z.string().nullable(),
 });
 
-const fixAdvisorAlertSchema = z.object({
+const notificationSourceSchema = z.enum(["dependabot", "code_scanning", "secret_scanning"]);
+
+const notificationEventRowSchema = z.object({
+  kind: z.enum(["new", "reopened", "sla_breached"]),
+  source: notificationSourceSchema,
   repo: z.string(),
   alertNumber: z.number(),
   severity: z.string().transform((s) => s.toLowerCase()),
-  advisorySummary: z.string().nullable(),
-  rawJson: z.string(),
-  packageName: z.string(),
-  ecosystem: z.string().nullable(),
+  subject: z.string().nullable(),
+  htmlUrl: z.string().nullable(),
+  occurredAt: z.string(),
 });
 
+/** Returns all notification channels in the order they were added. */
+export function getNotificationChannels(db: Database.Database): NotificationChannel[] {
+  return queryAll(
+    db,
+    "SELECT * FROM notification_channels ORDER BY id",
+    notificationChannelRowSchema
+  );
+}
+
+/** Returns one channel, or null when it does not exist. */
+export function getNotificationChannel(
+  db: Database.Database,
+  id: number
+): NotificationChannel | null {
+  return (
+    queryGet(
+      db,
+      "SELECT * FROM notification_channels WHERE id = ?",
+      notificationChannelRowSchema,
+      id
+    ) ?? null
+  );
+}
+
+/** Adds a channel; the caller validates the input. */
+export function createNotificationChannel(
+  db: Database.Database,
+  input: NotificationChannelInput,
+  createdAt: string = new Date().toISOString()
+): NotificationChannel {
+  const result = db
+    .prepare(
+      buildInsert("notification_channels", [
+        "type",
+        "name",
+        "target",
+        "minSeverity",
+        "events",
+        "enabled",
+        "createdAt",
+      ])
+    )
+    .run({
+      ...input,
+      events: JSON.stringify(input.events),
+      enabled: input.enabled ? 1 : 0,
+      createdAt,
+    });
+  return getNotificationChannel(db, Number(result.lastInsertRowid))!;
+}
+
+/**
+ * Changes some of a channel's fields. Returns null when the channel does
+ * not exist.
+ */
+export function updateNotificationChannel(
+  db: Database.Database,
+  id: number,
+  update: Partial<NotificationChannelInput>
+): NotificationChannel | null {
+  const existing = getNotificationChannel(db, id);
+  if (!existing) return null;
+
+  const next = { ...existing, ...update };
+  db.prepare(
+    [
+      "UPDATE notification_channels",
+      "SET type = @type, name = @name, target = @target, min_severity = @minSeverity,",
+      "  events = @events, enabled = @enabled",
+      "WHERE id = @id",
+    ].join(" ")
+  ).run({
+    id,
+    type: next.type,
+    name: next.name,
+    target: next.target,
+    minSeverity: next.minSeverity,
+    events: JSON.stringify(next.events),
+    enabled: next.enabled ? 1 : 0,
+  });
+  return getNotificationChannel(db, id);
+}
+
+/** Deletes a channel and the record of what it was sent. */
+export function deleteNotificationChannel(db: Database.Database, id: number): boolean {
+  return db.transaction(() => {
+    db.prepare("DELETE FROM notification_log WHERE channel_id = ?").run(id);
+    return db.prepare("DELETE FROM notification_channels WHERE id = ?").run(id).changes > 0;
+  })();
+}
+
+/** Scan time of a channel's last completed dispatch; null before its first. */
+export function getNotificationCursor(db: Database.Database, id: number): string | null {
+  return (
+    queryGet(
+      db,
+      "SELECT dispatched_until FROM notification_channels WHERE id = ?",
+      z.object({ dispatchedUntil: z.string().nullable() }),
+      id
+    )?.dispatchedUntil ?? null
+  );
+}
+
+/** Moves a channel's cursor once its pending events are delivered. */
+export function saveNotificationCursor(
+  db: Database.Database,
+  id: number,
+  dispatchedUntil: string
+): void {
+  db.prepare("UPDATE notification_channels SET dispatched_until = ? WHERE id = ?").run(
+    dispatchedUntil,
+    id
+  );
+}
+
+/** Records the outcome of a delivery to a channel. */
+export function recordNotificationDelivery(
+  db: Database.Database,
+  id: number,
+  error: string | null,
+  sentAt: string = new Date().toISOString()
+): void {
+  if (error) {
+    db.prepare("UPDATE notification_channels SET last_error = ? WHERE id = ?").run(error, id);
+  } else {
+    db.prepare(
+      "UPDATE notification_channels SET last_sent_at = ?, last_error = NULL WHERE id = ?"
+    ).run(sentAt, id);
+  }
+}
+
 /**
- * Groups open alerts by (package_name, ecosystem) into fix actions.
- * When repo is provided, scopes to that repo; otherwise aggregates cross-repo.
+ * SQL selecting the open alerts of one source (alias `a`) that were
+ * created, or reopened, as `kind`/`occurred_at` rows. An alert counts as
+ * reopened at its first open history entry after its last closed one.
+ * `detected_at` is when a sync first recorded a new alert; reopened
+ * alerts are detected when they occur, so theirs is null.
  */
-export function getFixAdvisor(
-  db: Database.Database,
-  repo?: string | null
-): FixAdvisorResponse {
-  const isPerRepo = !!repo;
-
-  const groups = queryAll(
-    db,
-    [
-      "SELECT package_name, ecosystem,",
-      "  GROUP_CONCAT(DISTINCT manifest_path) AS manifest_paths,",
-      "  GROUP_CONCAT(DISTINCT ghsa_id) AS ghsa_ids,",
-      "  GROUP_CONCAT(DISTINCT cve_id) AS cve_ids,",
-      "  MAX(cvss_score) AS max_cvss_score,",
-      "  COUNT(*) AS alert_count,",
-      "  COUNT(DISTINCT repo) AS affected_repos,",
-      "  GROUP_CONCAT(DISTINCT repo) AS repos,",
-      "  MAX(patched_version) AS patched_version",
-      "FROM alerts",
-      "WHERE state = 'open' AND package_name IS NOT NULL",
-      isPerRepo ? "  AND repo = @repo" : "",
-      "GROUP BY package_name, ecosystem",
-    ].join(" "),
-    fixAdvisorGroupSchema,
-    isPerRepo ? { repo } : undefined
-  );
+function openedAlertEvents(
+  source: NotificationEventSource,
+  table: string,
+  history: string,
+  subject: string,
+  severity = "a.severity"
+): string {
+  const columns = [
+    `'${source}' AS source, a.repo, a.alert_number, ${severity} AS severity,`,
+    `${subject} AS subject, a.html_url`,
+  ].join(" ");
+  const accepted = source === "dependabot" ? `AND ${notExcepted("a")}` : "";
+  return [
+    `SELECT 'new' AS kind, ${columns}, a.created_at AS occurred_at,`,
+    `  (SELECT MIN(d.recorded_at) FROM ${history} d`,
+    "   WHERE d.repo = a.repo AND d.alert_number = a.alert_number) AS detected_at",
+    `FROM ${table} a WHERE a.state = 'open' ${accepted}`,
+    "UNION ALL",
+    `SELECT 'reopened' AS kind, ${columns},`,
+    `  (SELECT MIN(h.recorded_at) FROM ${history} h`,
+    "   WHERE h.repo = a.repo AND h.alert_number = a.alert_number AND h.state = 'open'",
+    `   AND h.recorded_at > (SELECT MAX(c.recorded_at) FROM ${history} c`,
+    "     WHERE c.repo = a.repo AND c.alert_number = a.alert_number AND c.state <> 'open'))",
+    "  AS occurred_at, NULL AS detected_at",
+    `FROM ${table} a WHERE a.state = 'open' ${accepted}`,
+  ].join(" ");
+}
 
-  // Fetch individual alerts to build per-group alert lists and severity breakdowns
-  const alertDetails = queryAll(
+/**
+ * Returns the events after `since` on open Dependabot, code scanning and
+ * secret scanning alerts, oldest first: alerts created (by GitHub's
+ * creation time), reopened (by their history) or past their SLA limit.
+ * Only events a sync detected after `detectedSince` are read, which
+ * bounds the scan for channels that were dispatched to before. Secret
+ * scanning alerts have no severity and count as critical. Alerts a risk
+ * exception accepts raise none.
+ */
+export function getAlertEvents(
+  db: Database.Database,
+  since: string,
+  detectedSince: string = since
+): NotificationEvent[] {
+  const opened = queryAll(
     db,
     [
-      "SELECT repo, alert_number, severity, advisory_summary, raw_json,",
-      "  package_name, ecosystem",
-      "FROM alerts",
-      "WHERE state = 'open' AND package_name IS NOT NULL",
-      isPerRepo ? "  AND repo = @repo" : "",
-      "ORDER BY",
-      "  CASE LOWER(severity)",
-      "    WHEN 'critical' THEN 0 WHEN 'high' THEN 1",
-      "    WHEN 'medium' THEN 2 WHEN 'low' THEN 3 ELSE 4",
-      "  END,",
-      "  alert_number",
+      "SELECT * FROM (",
+      openedAlertEvents("dependabot", "alerts", "alert_history", "a.package_name"),
+      "UNION ALL",
+      openedAlertEvents(
+        "code_scanning",
+        "code_scanning_alerts",
+        "code_scanning_history",
+        "a.rule_id"
+      ),
+      "UNION ALL",
+      openedAlertEvents(
+        "secret_scanning",
+        "secret_scanning_alerts",
+        "secret_scanning_history",
+        "COALESCE(a.secret_type_display_name, a.secret_type)",
+        "'critical'"
+      ),
+      ") WHERE julianday(occurred_at) > julianday(@since)",
+      "  AND julianday(COALESCE(detected_at, occurred_at)) > julianday(@detectedSince)",
     ].join(" "),
-    fixAdvisorAlertSchema,
-    isPerRepo ? { repo } : undefined
+    notificationEventRowSchema,
+    { since, detectedSince }
   );
 
-  // Build lookup: "packageName|ecosystem" -> alert details
-  const alertsByKey = new Map<string, typeof alertDetails>();
-  for (const alert of alertDetails) {
-    const key = `${alert.packageName}|${alert.ecosystem ?? ""}`;
-    let list = alertsByKey.get(key);
-    if (!list) {
-      list = [];
-      alertsByKey.set(key, list);
-    }
-    list.push(alert);
-  }
-
-  // Build fix actions
-  const actions: FixAction[] = [];
-  const noFixAvailable: FixAction[] = [];
+  // A breach is detected when its time comes, so it passes both bounds
+  const afterMs = Math.max(Date.parse(since), Date.parse(detectedSince));
+  const breachedAt = (firstSeen: string, slaLimitDays: number) =>
+    new Date(Date.parse(firstSeen) + slaLimitDays * DAY_MS).toISOString();
+  const breached = [
+    ...getSlaViolations(db)
+      .filter((v) => v.overdue)
+      .map((v): NotificationEvent => ({
+        kind: "sla_breached",
+        source: v.source,
+        repo: v.repo,
+        alertNumber: v.alertNumber,
+        severity: v.severity,
+        subject: v.packageName ?? v.ruleId,
+        htmlUrl: v.htmlUrl,
+        occurredAt: breachedAt(v.firstSeen, v.slaLimitDays),
+      })),
+    ...getSecretSlaViolations(db)
+      .filter((v) => v.overdue)
+      .map((v): NotificationEvent => ({
+        kind: "sla_breached",
+        source: "secret_scanning",
+        repo: v.repo,
+        alertNumber: v.alertNumber,
+        severity: "critical",
+        subject: v.secretTypeDisplayName ?? v.secretType,
+        htmlUrl: v.htmlUrl,
+        occurredAt: breachedAt(v.firstSeen, v.slaLimitDays),
+      })),
+  ].filter((e) => Date.parse(e.occurredAt) > afterMs);
 
-  for (const group of groups) {
-    const key = `${group.packageName}|${group.ecosystem ?? ""}`;
-    const groupAlerts = alertsByKey.get(key) ?? [];
+  return [...opened, ...breached].sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
+}
 
-    // Compute severity breakdown
-    const severityBreakdown: Record<string, number> = {};
-    let bestSeverity = "unknown";
-    let bestRank = 4;
+/** Identifies an event for dedupe: one per kind and alert. */
+export function notificationEventKey(
+  event: Pick<NotificationEvent, "kind" | "source" | "repo" | "alertNumber">
+): string {
+  return `${event.kind}:${event.source}:${event.repo}#${event.alertNumber}`;
+}
 
-    for (const alert of groupAlerts) {
-      const sev = alert.severity;
-      severityBreakdown[sev] = (severityBreakdown[sev] ?? 0) + 1;
-      const rank = severityRank(sev);
-      if (rank < bestRank) {
-        bestRank = rank;
-        bestSeverity = sev;
-      }
-    }
+/** Keys (see `notificationEventKey`) of those of `events` a channel was already sent. */
+export function getNotifiedEventKeys(
+  db: Database.Database,
+  channelId: number,
+  events: NotificationEvent[]
+): Set<string> {
+  const sent = db.prepare(
+    [
+      "SELECT 1 FROM notification_log",
+      "WHERE channel_id = @channelId AND kind = @kind AND source = @source",
+      "  AND repo = @repo AND alert_number = @alertNumber",
+    ].join(" ")
+  );
+  return new Set(
+    events
+      .filter(({ kind, source, repo, alertNumber }) =>
+        sent.get({ channelId, kind, source, repo, alertNumber })
+      )
+      .map(notificationEventKey)
+  );
+}
 
-    // Extract scope from first alert's raw JSON
-    let scope: string | null = null;
-    if (groupAlerts.length > 0) {
-      try {
-        const raw = JSON.parse(groupAlerts[0].rawJson);
-        scope = raw?.dependency?.scope ?? null;
-      } catch {
-        // ignore malformed JSON
-      }
+/** Records events as sent to a channel so they are never sent to it again. */
+export function recordNotifiedEvents(
+  db: Database.Database,
+  channelId: number,
+  events: NotificationEvent[],
+  sentAt: string = new Date().toISOString()
+): void {
+  const insert = db.prepare(
+    [
+      "INSERT OR IGNORE INTO notification_log",
+      "  (channel_id, kind, source, repo, alert_number, sent_at)",
+      "VALUES (@channelId, @kind, @source, @repo, @alertNumber, @sentAt)",
+    ].join(" ")
+  );
+  db.transaction(() => {
+    for (const { kind, source, repo, alertNumber } of events) {
+      insert.run({ channelId, kind, source, repo, alertNumber, sentAt });
     }
+  })();
+}
 
-    const hasFix = group.patchedVersion !== null;
-    const action: FixAction = {
-      packageName: group.packageName,
-      ecosystem: group.ecosystem,
-      manifestPaths: group.manifestPaths,
-      scope,
-      groupSeverity: bestSeverity,
-      alertCount: group.alertCount,
-      severityBreakdown,
-      ghsaIds: group.ghsaIds,
-      cveIds: group.cveIds,
-      maxCvssScore: group.maxCvssScore,
-      patchedVersion: group.patchedVersion,
-      hasFix,
-      alerts: groupAlerts.map((a) => ({
-        ...(isPerRepo ? {} : { repo: a.repo }),
-        alertNumber: a.alertNumber,
-        severity: a.severity,
-        summary: a.advisorySummary,
-      })),
-    };
+// --- Settings ---
 
-    if (!isPerRepo) {
-      action.affectedRepos = group.affectedRepos;
-      action.repos = group.repos;
-    }
+/** Severities with an SLA limit, most severe first. */
+export const SLA_SEVERITIES: SlaSeverity[] = ["critical", "high", "medium", "low"];
 
-    if (hasFix) {
-      actions.push(action);
-    } else {
-      noFixAvailable.push(action);
-    }
-  }
+const settingRowSchema = z.object({ value: z.string() });
 
-  // Sort: severity desc, then alert count desc within tier
-  const sortActions = (a: FixAction, b: FixAction) => {
-    const sevDiff = severityRank(a.groupSeverity) - severityRank(b.groupSeverity);
-    if (sevDiff !== 0) return sevDiff;
-    return b.alertCount - a.alertCount;
-  };
-  actions.sort(sortActions);
-  noFixAvailable.sort(sortActions);
+const slaDaysSchema = z.number().positive();
 
-  const totalAlerts = actions.reduce((s, a) => s + a.alertCount, 0)
-    + noFixAvailable.reduce((s, a) => s + a.alertCount, 0);
+const slaPolicySchema = z.object({
+  defaults: z.object({
+    critical: slaDaysSchema,
+    high: slaDaysSchema,
+    medium: slaDaysSchema,
+    low: slaDaysSchema,
+  }),
+  overrides: z.array(
+    z.discriminatedUnion("scope", [
+      z.object({
+        scope: z.literal("group"),
+        groupId: z.number(),
+        limits: z.partialRecord(z.enum(SLA_SEVERITIES), slaDaysSchema),
+      }),
+      z.object({
+        scope: z.literal("repo"),
+        repo: z.string(),
+        limits: z.partialRecord(z.enum(SLA_SEVERITIES), slaDaysSchema),
+      }),
+    ])
+  ),
+});
 
-  return {
-    repo: repo ?? "all",
-    totalActions: actions.length,
-    totalAlerts,
-    actions,
-    noFixAvailable,
-  };
+/** Reads a JSON setting; null when unset or no longer valid. */
+function getSetting<T>(db: Database.Database, key: string, schema: Schema<T>): T | null {
+  const row = queryGet(db, "SELECT value FROM settings WHERE key = ?", settingRowSchema, key);
+  if (!row) return null;
+  try {
+    return schema.parse(JSON.parse(row.value));
+  } catch {
+    return null;
+  }
 }
 
-// --- Dependency chain ---
+function saveSetting(db: Database.Database, key: string, value: unknown): void {
+  db.prepare(buildUpsert("settings", ["key", "value", "updatedAt"], ["key"])).run({
+    key,
+    value: JSON.stringify(value),
+    updatedAt: new Date().toISOString(),
+  });
+}
 
-import type { DependencyChain } from './lockfile.js';
+/** Returns the stored SLA policy, or the built-in defaults without overrides. */
+export function getSlaPolicy(db: Database.Database): SlaPolicy {
+  return (
+    getSetting(db, "sla_policy", slaPolicySchema) ?? {
+      defaults: { ...DEFAULT_SLA_LIMITS },
+      overrides: [],
+    }
+  );
+}
 
-const CHAIN_FIELDS = [
-  "repo",
-  "vulnerablePackage",
-  "directDependency",
-  "directVersion",
-  "chainDepth",
-  "updatedAt",
-];
+/** Replaces the SLA policy. The caller validates group ids and limits. */
+export function saveSlaPolicy(db: Database.Database, policy: SlaPolicy): SlaPolicy {
+  saveSetting(db, "sla_policy", policy);
+  return getSlaPolicy(db);
+}
 
 /**
- * Saves dependency chain mappings for a repo.
- * Upserts so re-syncs update existing rows.
+ * Resolves a repo's SLA limits, per severity: the repo's override, else
+ * the strictest override of its groups, else the policy default.
  */
-export function saveDependencyChains(
-  db: Database.Database,
+export function resolveSlaLimits(
+  policy: SlaPolicy,
   repo: string,
-  chains: DependencyChain[]
-): void {
-  const stmt = db.prepare(
-    buildUpsert("dependency_chain", CHAIN_FIELDS, ["repo", "vulnerablePackage"])
+  groupIds: number[]
+): SlaLimits {
+  const limits = { ...policy.defaults };
+  const groupOverrides = policy.overrides.filter(
+    (o) => o.scope === "group" && groupIds.includes(o.groupId)
   );
+  const repoOverride = policy.overrides.find((o) => o.scope === "repo" && o.repo === repo);
 
-  const now = new Date().toISOString();
-  const transaction = db.transaction(() => {
-    // Clear old chains for this repo before saving new ones
-    db.prepare("DELETE FROM dependency_chain WHERE repo = ?").run(repo);
-
-    for (const chain of chains) {
-      stmt.run({ ...chain, updatedAt: now });
-    }
-  });
+  for (const severity of SLA_SEVERITIES) {
+    const groupDays = groupOverrides
+      .map((o) => o.limits[severity])
+      .filter((days): days is number => days !== undefined);
+    if (groupDays.length > 0) limits[severity] = Math.min(...groupDays);
 
-  transaction();
+    const repoDays = repoOverride?.limits[severity];
+    if (repoDays !== undefined) limits[severity] = repoDays;
+  }
+  return limits;
 }
 
-const actionPlanRowSchema = z.object({
-  directDependency: z.string(),
-  directVersion: z.string().nullable(),
-  criticalAlerts: z.number(),
-  highAlerts: z.number(),
-  totalAlerts: z.number(),
-  affectedRepos: z.number(),
-  repos: z
-    .string()
-    .nullable()
-    .transform((s) => (s ? [...new Set(s.split(","))] : [])),
-  vulnerablePackages: z
-    .string()
-    .nullable()
-    .transform((s) => (s ? [...new Set(s.split(","))] : [])),
-});
+const riskWeightSchema = z.number().nonnegative();
 
-export type ActionPlanEntry = {
-  directDependency: string;
-  directVersion: string | null;
-  criticalAlerts: number;
-  highAlerts: number;
-  totalAlerts: number;
-  affectedRepos: number;
-  repos: string[];
-  vulnerablePackages: string[];
-};
+const riskWeightsSchema = z.object({
+  severity: z.object({
+    critical: riskWeightSchema,
+    high: riskWeightSchema,
+    medium: riskWeightSchema,
+    low: riskWeightSchema,
+  }),
+  cvss: riskWeightSchema,
+  // Weights saved before EPSS/KEV enrichment lack these
+  epss: riskWeightSchema.default(DEFAULT_RISK_WEIGHTS.epss),
+  kev: riskWeightSchema.default(DEFAULT_RISK_WEIGHTS.kev),
+  developmentScope: riskWeightSchema,
+  overdue: riskWeightSchema,
+  agePerYear: riskWeightSchema,
+});
 
-/**
- * Returns an action plan: direct dependencies to update, ranked by
- * how many critical+high alerts they would eliminate.
- */
-export function getActionPlan(db: Database.Database): ActionPlanEntry[] {
-  return queryAll(
-    db,
-    [
-      "SELECT dc.direct_dependency, dc.direct_version,",
-      "  SUM(CASE WHEN LOWER(a.severity) = 'critical' THEN 1 ELSE 0 END) AS critical_alerts,",
-      "  SUM(CASE WHEN LOWER(a.severity) = 'high' THEN 1 ELSE 0 END) AS high_alerts,",
-      "  COUNT(*) AS total_alerts,",
-      "  COUNT(DISTINCT a.repo) AS affected_repos,",
-      "  GROUP_CONCAT(DISTINCT a.repo) AS repos,",
-      "  GROUP_CONCAT(DISTINCT a.package_name) AS vulnerable_packages",
-      "FROM dependency_chain dc",
-      "JOIN alerts a ON a.repo = dc.repo AND a.package_name = dc.vulnerable_package AND a.state = 'open'",
-      "GROUP BY dc.direct_dependency",
-      "ORDER BY critical_alerts DESC, high_alerts DESC, total_alerts DESC",
-    ].join(" "),
-    actionPlanRowSchema
+/** Returns the stored risk weights, or the built-in defaults. */
+export function getRiskWeights(db: Database.Database): RiskWeights {
+  return (
+    getSetting(db, "risk_weights", riskWeightsSchema) ?? {
+      ...DEFAULT_RISK_WEIGHTS,
+      severity: { ...DEFAULT_RISK_WEIGHTS.severity },
+    }
   );
 }
 
-/**
- * Returns alert distribution by ecosystem.
- */
-export function getEcosystemBreakdown(
-  db: Database.Database
-): EcosystemBreakdown[] {
-  return queryAll(
-    db,
-    [
-      "SELECT ecosystem,",
-      "  COUNT(*) AS total_alerts,",
-      "  COUNT(DISTINCT repo) AS affected_repos,",
-      "  COUNT(DISTINCT package_name) AS unique_packages",
-      "FROM alerts",
-      "WHERE state = 'open' AND ecosystem IS NOT NULL",
-      "GROUP BY ecosystem",
-      "ORDER BY total_alerts DESC",
-    ].join(" "),
-    ecoRowSchema
-  );
+/** Replaces the risk weights. The caller validates them. */
+export function saveRiskWeights(db: Database.Database, weights: RiskWeights): RiskWeights {
+  saveSetting(db, "risk_weights", weights);
+  return getRiskWeights(db);
 }
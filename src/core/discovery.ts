@@ -0,0 +1,185 @@
+import type Database from 'better-sqlite3';
+import type { Octokit } from '@octokit/rest';
+import chalk from 'chalk';
+import {
+  addWatchTarget,
+  getAllRepoSummaries,
+  getWatchTargets,
+  recordWatchTargetCheck,
+  saveRepoMetadata,
+  setUpstreamState,
+} from './db.js';
+import { fetchRepoState, listOrgRepos, listUserRepos, toGitHubApiError } from './github.js';
+import { parseHostTarget, parseRepoKey } from './hosts.js';
+import type { GitHubClients } from './hosts.js';
+import type { DiscoveryResult, RepoRef, UpstreamState, WatchTarget } from '../types.js';
+
+/** Whether a repo name matches a `*`/`?` glob, case-insensitively. Null matches all. */
+export function matchesNamePattern(pattern: string | null, name: string): boolean {
+  if (!pattern) return true;
+  const source = pattern
+    .split('')
+    .map((ch) => (ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 'i').test(name);
+}
+
+/**
+ * Seeds watch targets from GH_MONIT_USER / GH_MONIT_ORG (comma-separated,
+ * optionally `host:name`) when none exist yet. Returns the number added.
+ */
+export function seedWatchTargets(
+  db: Database.Database,
+  env: NodeJS.ProcessEnv = process.env
+): number {
+  if (getWatchTargets(db).length > 0) return 0;
+
+  const entries = [
+    ...(env.GH_MONIT_USER ?? '').split(',').map((value) => ({ type: 'user' as const, value })),
+    ...(env.GH_MONIT_ORG ?? '').split(',').map((value) => ({ type: 'org' as const, value })),
+  ];
+
+  let added = 0;
+  for (const { type, value } of entries) {
+    if (!value.trim()) continue;
+    const { host, value: name } = parseHostTarget(value.trim());
+    if (addWatchTarget(db, { type, name, host })) added++;
+  }
+  return added;
+}
+
+/**
+ * Re-lists the repos of every watch target. Repos that pass a target's
+ * filters and are not tracked yet are returned in `added` for the caller
+ * to sync. Tracked repos of a watched account are flagged when they show
+ * up archived, or when they are missing from the listing and GitHub
+ * confirms they are gone; the flag is cleared once they are active again.
+ * The listing's metadata is stored for tracked and added repos.
+ */
+export async function discoverRepos(
+  db: Database.Database,
+  clients: GitHubClients
+): Promise<DiscoveryResult> {
+  const result: DiscoveryResult = {
+    added: [],
+    archived: [],
+    deleted: [],
+    restored: [],
+    failedTargets: 0,
+  };
+
+  // Tracked repo keys by lowercased key, since listings may differ in case
+  const tracked = new Map(
+    getAllRepoSummaries(db).map((summary) => [
+      summary.repo.toLowerCase(),
+      { repo: summary.repo, upstreamState: summary.upstreamState },
+    ])
+  );
+
+  const flag = (key: string, state: UpstreamState | null) => {
+    const entry = tracked.get(key.toLowerCase());
+    if (!entry || entry.upstreamState === state) return;
+
+    setUpstreamState(db, entry.repo, state);
+    if (state === 'archived') result.archived.push(entry.repo);
+    else if (state === 'deleted') result.deleted.push(entry.repo);
+    else result.restored.push(entry.repo);
+    entry.upstreamState = state;
+  };
+
+  for (const target of getWatchTargets(db)) {
+    const octokit = clients.get(target.host);
+    let listing: RepoRef[] | null = null;
+    let error = `Host "${target.host}" is not configured`;
+    if (octokit) {
+      try {
+        listing = await listTargetRepos(octokit, target);
+      } catch (err) {
+        error = `Failed to list repositories: ${toGitHubApiError(err).message}`;
+      }
+    }
+    if (!octokit || !listing) {
+      recordWatchTargetCheck(db, target.id, error);
+      result.failedTargets++;
+      continue;
+    }
+    recordWatchTargetCheck(db, target.id, null);
+
+    const listed = new Set<string>();
+    for (const repo of listing) {
+      const key = repo.fullName.toLowerCase();
+      listed.add(key);
+
+      const entry = tracked.get(key);
+      if (entry) {
+        flag(key, repo.archived ? 'archived' : null);
+        if (repo.metadata) saveRepoMetadata(db, entry.repo, repo.metadata);
+      } else if (isWanted(target, repo) && !result.added.includes(repo.fullName)) {
+        result.added.push(repo.fullName);
+        if (repo.metadata) saveRepoMetadata(db, repo.fullName, repo.metadata);
+      }
+    }
+
+    // Missing from the listing: confirm with GitHub before flagging, since
+    // listings of other users only include public repos
+    for (const [key, { repo }] of tracked) {
+      const ref = parseRepoKey(repo);
+      if (
+        !ref ||
+        listed.has(key) ||
+        ref.host !== target.host ||
+        ref.owner.toLowerCase() !== target.name.toLowerCase()
+      ) {
+        continue;
+      }
+
+      try {
+        const state = await fetchRepoState(octokit, ref);
+        flag(key, state === 'active' ? null : state);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(chalk.yellow(`  Discovery: could not check ${repo} — ${message}`));
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Lists the repos of every watch target that pass its filters, without
+ * touching the database. Used by the setup wizard to offer repos to seed.
+ */
+export async function listWatchedRepos(
+  db: Database.Database,
+  clients: GitHubClients
+): Promise<RepoRef[]> {
+  const repos = new Map<string, RepoRef>();
+  for (const target of getWatchTargets(db)) {
+    const octokit = clients.get(target.host);
+    // Targets that cannot be listed are skipped; discovery records why
+    const listing = octokit ? await listTargetRepos(octokit, target).catch(() => []) : [];
+    for (const repo of listing) {
+      if (isWanted(target, repo)) repos.set(repo.fullName, repo);
+    }
+  }
+  return [...repos.values()];
+}
+
+/**
+ * Lists every repo of a target, forks included; filters are applied by the
+ * caller. Failures are thrown as a `GitHubApiError`.
+ */
+function listTargetRepos(octokit: Octokit, target: WatchTarget): Promise<RepoRef[]> {
+  return target.type === 'user'
+    ? listUserRepos(octokit, target.name, true, target.host)
+    : listOrgRepos(octokit, target.name, true, target.host);
+}
+
+function isWanted(target: WatchTarget, repo: RepoRef): boolean {
+  return (
+    (target.includeForks || !repo.fork) &&
+    (target.includeArchived || !repo.archived) &&
+    matchesNamePattern(target.namePattern, repo.name)
+  );
+}
@@ -0,0 +1,246 @@
+import { createSign } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import type { Octokit } from '@octokit/rest';
+import type { QuotaRequest } from './rate-limit.js';
+
+export type GitHubAppCredentials = {
+  appId: string;
+  privateKey: string;
+  /** Pins every request to one installation instead of picking one per owner. */
+  installationId: number | null;
+};
+
+export type AppAuthOptions = {
+  now?: () => number;
+};
+
+type InstallationToken = {
+  token: string;
+  expiresAt: number;
+};
+
+// Minimal shape of the request function Octokit hands to auth hooks
+type HookRequest = {
+  (options: EndpointOptions): Promise<{ data: unknown; headers: Record<string, unknown> }>;
+  endpoint: { merge: (route: unknown, parameters?: unknown) => EndpointOptions };
+};
+
+type EndpointOptions = {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  request?: { installationAccount?: string };
+  [key: string]: unknown;
+};
+
+/** Installation tokens live one hour; renew them this long before expiry. */
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+const appClients = new WeakSet<Octokit>();
+
+/**
+ * Reads GitHub App credentials from the environment:
+ * GH_MONIT_APP_ID plus GH_MONIT_APP_PRIVATE_KEY_PATH (or the PEM itself in
+ * GH_MONIT_APP_PRIVATE_KEY), and optionally GH_MONIT_APP_INSTALLATION_ID.
+ * Returns null when no app is configured.
+ */
+export function resolveAppCredentials(
+  env: NodeJS.ProcessEnv = process.env
+): GitHubAppCredentials | null {
+  const appId = env.GH_MONIT_APP_ID;
+  if (!appId) {
+    return null;
+  }
+
+  const privateKey = env.GH_MONIT_APP_PRIVATE_KEY_PATH
+    ? readFileSync(env.GH_MONIT_APP_PRIVATE_KEY_PATH, 'utf-8')
+    : env.GH_MONIT_APP_PRIVATE_KEY?.replace(/\\n/g, '\n');
+  if (!privateKey) {
+    throw new Error(
+      'GH_MONIT_APP_ID is set but neither GH_MONIT_APP_PRIVATE_KEY_PATH nor GH_MONIT_APP_PRIVATE_KEY is.'
+    );
+  }
+
+  const installationId = env.GH_MONIT_APP_INSTALLATION_ID
+    ? Number(env.GH_MONIT_APP_INSTALLATION_ID)
+    : null;
+  if (installationId !== null && !Number.isInteger(installationId)) {
+    throw new Error('GH_MONIT_APP_INSTALLATION_ID must be a numeric installation ID.');
+  }
+
+  return { appId, privateKey, installationId };
+}
+
+/**
+ * Signs a short-lived RS256 JWT identifying the app itself. The issued-at
+ * time is backdated a minute to tolerate clock drift, as GitHub recommends.
+ */
+export function createAppJwt(appId: string, privateKey: string, now = Date.now()): string {
+  const iat = Math.floor(now / 1000) - 60;
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({ iat, exp: iat + 10 * 60, iss: appId }));
+  const signature = createSign('RSA-SHA256')
+    .update(`${header}.${payload}`)
+    .sign(privateKey, 'base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+/**
+ * Builds an Octokit `authStrategy` that authenticates as a GitHub App.
+ *
+ * `/app` endpoints are called with the app JWT. Every other request gets an
+ * installation token for the account it targets (the `owner`, `org` or
+ * `username` of the route), found through `GET /app/installations`.
+ * Tokens are cached and renewed shortly before they expire, so a long-lived
+ * Octokit instance never sees an expired token. `quotaKey` names the rate
+ * limit a request draws on, since each installation has its own.
+ */
+export function createAppAuth(credentials: GitHubAppCredentials, options: AppAuthOptions = {}) {
+  const now = options.now ?? Date.now;
+  const tokens = new Map<number, Promise<InstallationToken>>();
+  let installations: Map<string, number> | null = null;
+
+  const appAuthorization = () =>
+    `bearer ${createAppJwt(credentials.appId, credentials.privateKey, now())}`;
+
+  const loadInstallations = async (request: HookRequest): Promise<Map<string, number>> => {
+    const byAccount = new Map<string, number>();
+    for (let page = 1; ; page++) {
+      const { data } = await request(
+        request.endpoint.merge('GET /app/installations', {
+          per_page: 100,
+          page,
+          headers: { authorization: appAuthorization() },
+        })
+      );
+      const batch = data as Array<{ id: number; account: { login: string } | null }>;
+      for (const installation of batch) {
+        if (installation.account) {
+          byAccount.set(installation.account.login.toLowerCase(), installation.id);
+        }
+      }
+      if (batch.length < 100) break;
+    }
+    return byAccount;
+  };
+
+  const findInstallation = async (
+    request: HookRequest,
+    account: string | null
+  ): Promise<number> => {
+    if (credentials.installationId !== null) {
+      return credentials.installationId;
+    }
+
+    // Reload once on a miss, in case the app was installed since the last lookup
+    for (const reload of [false, true]) {
+      if (!installations || reload) {
+        installations = await loadInstallations(request);
+      }
+      if (account) {
+        const id = installations.get(account.toLowerCase());
+        if (id !== undefined) return id;
+      } else if (installations.size === 1) {
+        return [...installations.values()][0];
+      }
+    }
+
+    throw new Error(
+      account
+        ? `The GitHub App is not installed on "${account}".`
+        : 'Cannot choose a GitHub App installation for this request; set GH_MONIT_APP_INSTALLATION_ID.'
+    );
+  };
+
+  const createToken = async (
+    request: HookRequest,
+    installationId: number
+  ): Promise<InstallationToken> => {
+    const { data } = await request(
+      request.endpoint.merge('POST /app/installations/{installation_id}/access_tokens', {
+        installation_id: installationId,
+        headers: { authorization: appAuthorization() },
+      })
+    );
+    const { token, expires_at } = data as { token: string; expires_at: string };
+    return { token, expiresAt: Date.parse(expires_at) };
+  };
+
+  const installationToken = async (
+    request: HookRequest,
+    installationId: number
+  ): Promise<string> => {
+    const cached = tokens.get(installationId);
+    if (cached) {
+      const current = await cached.catch(() => null);
+      if (current && current.expiresAt - now() > TOKEN_REFRESH_MARGIN_MS) {
+        return current.token;
+      }
+    }
+
+    // Share one in-flight exchange between concurrent requests
+    const pending = createToken(request, installationId);
+    tokens.set(installationId, pending);
+    pending.catch(() => {
+      if (tokens.get(installationId) === pending) tokens.delete(installationId);
+    });
+    return (await pending).token;
+  };
+
+  const hook = async (request: HookRequest, route: unknown, parameters?: unknown) => {
+    const endpoint = request.endpoint.merge(route, parameters);
+
+    if (isAppEndpoint(endpoint)) {
+      endpoint.headers.authorization = appAuthorization();
+      return request(endpoint);
+    }
+
+    const account = endpoint.request?.installationAccount ?? resolveAccount(endpoint);
+    const installationId = await findInstallation(request, account);
+    endpoint.headers.authorization = `token ${await installationToken(request, installationId)}`;
+    return request(endpoint);
+  };
+
+  const quotaKey = (endpoint: QuotaRequest): string => {
+    if (isAppEndpoint(endpoint)) return 'app';
+    if (credentials.installationId !== null) return `installation:${credentials.installationId}`;
+    // One installation per account, so the account stands in for its installation
+    const account = endpoint.request?.installationAccount ?? resolveAccount(endpoint);
+    return `account:${account?.toLowerCase() ?? ''}`;
+  };
+
+  const auth = async () => ({ type: 'app' as const, appId: credentials.appId });
+  return Object.assign(auth, { hook, quotaKey });
+}
+
+/** Marks `octokit` as authenticated through a GitHub App. */
+export function registerAppClient(octokit: Octokit): void {
+  appClients.add(octokit);
+}
+
+/**
+ * Whether `octokit` authenticates as a GitHub App. Installation tokens cannot
+ * call `/user`, so repo discovery goes through `/installation/repositories`.
+ */
+export function isAppClient(octokit: Octokit): boolean {
+  return appClients.has(octokit);
+}
+
+/** `/app` endpoints authenticate as the app itself, against the app's own quota. */
+function isAppEndpoint(endpoint: { url: string }): boolean {
+  return /^\/app(\/|$)/.test(endpoint.url);
+}
+
+/** The account a request targets, from its parameters or its URL path. */
+function resolveAccount(endpoint: QuotaRequest): string | null {
+  for (const key of ['owner', 'org', 'username']) {
+    const value = endpoint[key];
+    if (typeof value === 'string' && value) return value;
+  }
+  const match = endpoint.url.match(/^(?:https?:\/\/[^/]+)?(?:\/api\/v3)?\/(?:repos|orgs|users)\/([^/?{]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+function base64url(value: string): string {
+  return Buffer.from(value).toString('base64url');
+}
@@ -1,28 +1,70 @@
 import { execFileSync } from 'node:child_process';
 import chalk from 'chalk';
 import { Octokit } from '@octokit/rest';
+import { createAppAuth, registerAppClient, resolveAppCredentials } from './github-app.js';
+import { DEFAULT_HOST, hostTokenVariable, resolveHosts } from './hosts.js';
+import type { GitHubClients } from './hosts.js';
+import { installRateLimiter } from './rate-limit.js';
 
 /**
- * Creates an authenticated Octokit instance.
+ * Creates one authenticated Octokit instance per configured host (see
+ * hosts.ts), each with its own rate limiter installed, so every GitHub call
+ * is paced against the remaining quota of the host (and, for a GitHub App,
+ * the installation) it goes to.
  *
- * Resolution order:
- * 1. GITHUB_TOKEN environment variable (preferred for server/Docker deployments)
- * 2. `gh auth token` CLI fallback (convenient for local development)
+ * The default host resolves its credentials in this order:
+ * 1. GitHub App (GH_MONIT_APP_ID + private key), using per-installation tokens
+ * 2. GITHUB_TOKEN environment variable (preferred for server/Docker deployments)
+ * 3. `gh auth token` CLI fallback (convenient for local development)
+ *
+ * Additional hosts authenticate with GH_MONIT_HOST_<NAME>_TOKEN.
  */
-export function createGitHubClient(): Octokit | null {
-  const token = resolveToken();
-  if (!token) {
-    console.error(chalk.red('No GitHub token found.'));
-    console.error(
-      chalk.yellow(
-        'Set the GITHUB_TOKEN environment variable, or install the GitHub CLI and run `gh auth login`.'
-      )
-    );
+export function createGitHubClients(): GitHubClients | null {
+  let hosts;
+  let appCredentials;
+  try {
+    hosts = resolveHosts();
+    appCredentials = resolveAppCredentials();
+  } catch (error) {
+    console.error(chalk.red('Invalid GitHub host configuration.'));
+    console.error(chalk.gray(error instanceof Error ? error.message : String(error)));
     process.exitCode = 1;
     return null;
   }
 
-  return new Octokit({ auth: token });
+  const clients: GitHubClients = new Map();
+  for (const host of hosts) {
+    const baseUrl = host.baseUrl ?? undefined;
+
+    if (host.name === DEFAULT_HOST && appCredentials) {
+      const appAuth = createAppAuth(appCredentials);
+      const octokit = new Octokit({ authStrategy: () => appAuth, baseUrl });
+      registerAppClient(octokit);
+      installRateLimiter(octokit, { quotaKey: appAuth.quotaKey });
+      clients.set(host.name, octokit);
+      continue;
+    }
+
+    const token = host.name === DEFAULT_HOST ? resolveToken() : host.token;
+    if (!token) {
+      console.error(chalk.red(`No GitHub token found for ${host.name}.`));
+      console.error(
+        chalk.yellow(
+          host.name === DEFAULT_HOST
+            ? 'Set the GITHUB_TOKEN environment variable, configure a GitHub App (GH_MONIT_APP_ID), or install the GitHub CLI and run `gh auth login`.'
+            : `Set the ${hostTokenVariable(host.name)} environment variable.`
+        )
+      );
+      process.exitCode = 1;
+      return null;
+    }
+
+    const octokit = new Octokit({ auth: token, baseUrl });
+    installRateLimiter(octokit);
+    clients.set(host.name, octokit);
+  }
+
+  return clients;
 }
 
 function resolveToken(): string | null {
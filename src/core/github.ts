@@ -1,40 +1,202 @@
-import chalk from 'chalk';
 import type { Octokit } from '@octokit/rest';
-import type { RepoRef } from '../types.js';
+import type {
+  AlertStateChange,
+  CacheValidators,
+  ConditionalFetchResult,
+  RepoErrorKind,
+  RepoMetadata,
+  RepoRef,
+  RepoVisibility,
+  UpstreamState,
+} from '../types.js';
+import { isAppClient } from './github-app.js';
+import { DEFAULT_HOST, toRepoKey } from './hosts.js';
 
+/** A failed GitHub request, classified so callers can tell users what went wrong. */
+export class GitHubApiError extends Error {
+  constructor(
+    readonly kind: RepoErrorKind,
+    message: string,
+    readonly status: number | null = null
+  ) {
+    super(message);
+    this.name = 'GitHubApiError';
+  }
+}
+
+// Octokit reports failed fetches as status 500 with the underlying message
+const NETWORK_ERROR_PATTERN = /fetch failed|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|socket hang up/i;
+
+type RequestErrorLike = {
+  status?: number;
+  message?: string;
+  response?: { headers?: Record<string, string | number | undefined> };
+};
+
+/**
+ * Classifies an Octokit error. Dependabot answers 403 both for missing
+ * access and for repos with alerts disabled, so the message tells them apart.
+ * Requests that never reached GitHub are network errors.
+ */
+export function toGitHubApiError(error: unknown): GitHubApiError {
+  if (error instanceof GitHubApiError) {
+    return error;
+  }
+
+  const err = (error ?? {}) as RequestErrorLike;
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof err.status === 'number' ? err.status : null;
+  const remaining = err.response?.headers?.['x-ratelimit-remaining'];
+
+  let kind: RepoErrorKind;
+  if ((status === null || status === 500) && NETWORK_ERROR_PATTERN.test(message)) {
+    kind = 'network';
+  } else if (
+    status === 429 ||
+    (status === 403 && (String(remaining) === '0' || /rate limit/i.test(message)))
+  ) {
+    kind = 'rate_limited';
+  } else if (status === 403 && /dependabot alerts are (disabled|not available)/i.test(message)) {
+    kind = 'dependabot_disabled';
+  } else if (status === 401 || status === 403) {
+    kind = 'forbidden';
+  } else if (status === 404) {
+    kind = 'not_found';
+  } else {
+    kind = 'unknown';
+  }
+
+  return new GitHubApiError(kind, message, status);
+}
+
+/**
+ * Fetches Dependabot alerts for a repo. When `validators` from a previous
+ * fetch are passed, the request is conditional and a 304 yields `alerts: null`.
+ * Failures are thrown as a `GitHubApiError`.
+ */
 export async function fetchDependabotAlerts(
   octokit: Octokit,
-  repo: RepoRef
-): Promise<unknown[] | null> {
+  repo: RepoRef,
+  validators: CacheValidators | null = null
+): Promise<ConditionalFetchResult> {
+  try {
+    return await paginateConditional(
+      octokit,
+      'GET /repos/{owner}/{repo}/dependabot/alerts',
+      repo,
+      validators
+    );
+  } catch (error) {
+    throw toGitHubApiError(error);
+  }
+}
+
+/**
+ * Fetches code scanning alerts for a repo.
+ * Repos without code scanning configured (404) or without Advanced Security
+ * (403) have no listing to store, so both resolve like a 304 (`alerts: null`).
+ * Rate limits and other failures are thrown as a `GitHubApiError`.
+ */
+export async function fetchCodeScanningAlerts(
+  octokit: Octokit,
+  repo: RepoRef,
+  validators: CacheValidators | null = null
+): Promise<ConditionalFetchResult> {
+  try {
+    return await paginateConditional(
+      octokit,
+      'GET /repos/{owner}/{repo}/code-scanning/alerts',
+      repo,
+      validators
+    );
+  } catch (error) {
+    return featureUnavailable(error);
+  }
+}
+
+/**
+ * Fetches secret scanning alerts for a repo without the secret values.
+ * As with code scanning, a disabled feature (404) or missing access (403)
+ * resolves to `alerts: null`.
+ */
+export async function fetchSecretScanningAlerts(
+  octokit: Octokit,
+  repo: RepoRef,
+  validators: CacheValidators | null = null
+): Promise<ConditionalFetchResult> {
+  try {
+    return await paginateConditional(
+      octokit,
+      'GET /repos/{owner}/{repo}/secret-scanning/alerts',
+      repo,
+      validators,
+      { hide_secret: true }
+    );
+  } catch (error) {
+    return featureUnavailable(error);
+  }
+}
+
+/**
+ * Dismisses or reopens a Dependabot alert and returns the updated alert.
+ * Needs write access to Dependabot alerts. Failures are thrown as a
+ * `GitHubApiError`.
+ */
+export async function updateDependabotAlert(
+  octokit: Octokit,
+  repo: RepoRef,
+  alertNumber: number,
+  change: AlertStateChange
+): Promise<unknown> {
   try {
-    const alerts = await octokit.paginate(
-      octokit.rest.dependabot.listAlertsForRepo,
-      { owner: repo.owner, repo: repo.name, per_page: 100 }
+    const { data } = await octokit.request(
+      'PATCH /repos/{owner}/{repo}/dependabot/alerts/{alert_number}',
+      {
+        owner: repo.owner,
+        repo: repo.name,
+        alert_number: alertNumber,
+        ...(change.state === 'dismissed'
+          ? {
+              state: 'dismissed',
+              dismissed_reason: change.dismissedReason,
+              ...(change.dismissedComment ? { dismissed_comment: change.dismissedComment } : {}),
+            }
+          : { state: 'open' }),
+      }
     );
-    return alerts as unknown[];
+    return data;
   } catch (error) {
-    return handleApiError(error);
+    throw toGitHubApiError(error);
   }
 }
 
-export async function getAuthenticatedUser(
-  octokit: Octokit
-): Promise<string | null> {
+/** Returns the login of the token's user. Failures are thrown as a `GitHubApiError`. */
+export async function getAuthenticatedUser(octokit: Octokit): Promise<string> {
   try {
     const { data } = await octokit.rest.users.getAuthenticated();
     return data.login;
   } catch (error) {
-    return handleApiError(error);
+    throw toGitHubApiError(error);
   }
 }
 
+/**
+ * Lists the repos owned by a user. `host` qualifies the returned repo keys
+ * when `octokit` talks to a host other than the default one. Failures are
+ * thrown as a `GitHubApiError`.
+ */
 export async function listUserRepos(
   octokit: Octokit,
   username: string,
-  includeForks: boolean
-): Promise<RepoRef[] | null> {
+  includeForks: boolean,
+  host: string = DEFAULT_HOST
+): Promise<RepoRef[]> {
+  if (isAppClient(octokit)) {
+    return listInstallationRepos(octokit, username, includeForks, host);
+  }
+
   const authenticated = await getAuthenticatedUser(octokit);
-  const isSelf = authenticated?.toLowerCase() === username.toLowerCase();
+  const isSelf = authenticated.toLowerCase() === username.toLowerCase();
 
   try {
     const repos = isSelf
@@ -53,21 +215,23 @@ export async function listUserRepos(
           repo.owner?.login.toLowerCase() === username.toLowerCase() &&
           (includeForks || !repo.fork)
       )
-      .map((repo) => ({
-        owner: repo.owner!.login,
-        name: repo.name,
-        fullName: repo.full_name,
-      }));
+      .map((repo) => toRepoRef(host, repo.owner!.login, repo.name, repo));
   } catch (error) {
-    return handleApiError(error);
+    throw toGitHubApiError(error);
   }
 }
 
+/** Lists the repos of an organization; see `listUserRepos` for `host`. */
 export async function listOrgRepos(
   octokit: Octokit,
   org: string,
-  includeForks: boolean
-): Promise<RepoRef[] | null> {
+  includeForks: boolean,
+  host: string = DEFAULT_HOST
+): Promise<RepoRef[]> {
+  if (isAppClient(octokit)) {
+    return listInstallationRepos(octokit, org, includeForks, host);
+  }
+
   try {
     const repos = await octokit.paginate(octokit.rest.repos.listForOrg, {
       org,
@@ -77,25 +241,288 @@ export async function listOrgRepos(
 
     return repos
       .filter((repo) => includeForks || !repo.fork)
-      .map((repo) => ({
-        owner: repo.owner.login,
-        name: repo.name,
-        fullName: repo.full_name,
-      }));
+      .map((repo) => toRepoRef(host, repo.owner.login, repo.name, repo));
   } catch (error) {
-    return handleApiError(error);
+    throw toGitHubApiError(error);
   }
 }
 
-function handleApiError(error: unknown): null {
-  const message = error instanceof Error ? error.message : String(error);
-  console.error(chalk.red('GitHub API request failed.'));
-  console.error(
-    chalk.yellow(
-      'Ensure GITHUB_TOKEN is valid and the target repo/user/org exists.'
-    )
-  );
-  console.error(chalk.gray(message));
-  process.exitCode = 1;
-  return null;
+/** A GitHub team with the keys of the repos it has access to. */
+export type GitHubTeam = {
+  slug: string;
+  name: string;
+  description: string | null;
+  repos: string[];
+};
+
+/**
+ * Lists an organization's teams with their repos. Needs a token that can
+ * read org teams (`read:org`). Failures are thrown as a `GitHubApiError`.
+ */
+export async function listOrgTeams(
+  octokit: Octokit,
+  org: string,
+  host: string = DEFAULT_HOST
+): Promise<GitHubTeam[]> {
+  try {
+    const teams = await octokit.paginate(octokit.rest.teams.list, { org, per_page: 100 });
+    const result: GitHubTeam[] = [];
+    for (const team of teams) {
+      const repos = await octokit.paginate(octokit.rest.teams.listReposInOrg, {
+        org,
+        team_slug: team.slug,
+        per_page: 100,
+      });
+      result.push({
+        slug: team.slug,
+        name: team.name,
+        description: team.description ?? null,
+        repos: repos.map((repo) => toRepoKey(host, repo.owner.login, repo.name)),
+      });
+    }
+    return result;
+  } catch (error) {
+    throw toGitHubApiError(error);
+  }
+}
+
+/**
+ * Looks up whether a repo still exists on GitHub and whether it is archived.
+ * A 404 means deleted (or no longer visible to the token).
+ */
+export async function fetchRepoState(
+  octokit: Octokit,
+  repo: RepoRef
+): Promise<'active' | UpstreamState> {
+  try {
+    const { data } = await octokit.rest.repos.get({ owner: repo.owner, repo: repo.name });
+    return data.archived ? 'archived' : 'active';
+  } catch (error) {
+    const apiError = toGitHubApiError(error);
+    if (apiError.kind === 'not_found') return 'deleted';
+    throw apiError;
+  }
+}
+
+/**
+ * Fetches a repo's topics, visibility, default branch and language. With
+ * `validators` from a previous fetch the request is conditional and a 304
+ * yields `metadata: null`. Failures are thrown as a `GitHubApiError`.
+ */
+export async function fetchRepoMetadata(
+  octokit: Octokit,
+  repo: RepoRef,
+  validators: CacheValidators | null = null
+): Promise<{ metadata: RepoMetadata | null; validators: CacheValidators | null }> {
+  try {
+    const response = await octokit.request('GET /repos/{owner}/{repo}', {
+      owner: repo.owner,
+      repo: repo.name,
+      headers: conditionalHeaders(validators),
+    });
+    return {
+      metadata: toRepoMetadata(response.data),
+      validators: {
+        etag: response.headers.etag ?? null,
+        lastModified: response.headers['last-modified'] ?? null,
+      },
+    };
+  } catch (error) {
+    if ((error as { status?: number }).status === 304) {
+      return { metadata: null, validators };
+    }
+    throw toGitHubApiError(error);
+  }
+}
+
+/**
+ * Looks up the commit SHA at the head of a repo's default branch. With
+ * `validators` from a previous lookup the request is conditional and a 304
+ * (the branch has not moved) yields `sha: null`. Failures are thrown as a
+ * `GitHubApiError`.
+ */
+export async function fetchDefaultBranchHead(
+  octokit: Octokit,
+  repo: RepoRef,
+  validators: CacheValidators | null = null
+): Promise<{ sha: string | null; validators: CacheValidators | null }> {
+  try {
+    const response = await octokit.request('GET /repos/{owner}/{repo}/commits/{ref}', {
+      owner: repo.owner,
+      repo: repo.name,
+      ref: 'HEAD',
+      headers: { accept: 'application/vnd.github.sha', ...conditionalHeaders(validators) },
+    });
+    return {
+      sha: String(response.data),
+      validators: {
+        etag: response.headers.etag ?? null,
+        lastModified: response.headers['last-modified'] ?? null,
+      },
+    };
+  } catch (error) {
+    if ((error as { status?: number }).status === 304) {
+      return { sha: null, validators };
+    }
+    throw toGitHubApiError(error);
+  }
+}
+
+/**
+ * Lists the repos a GitHub App installation on `account` can access.
+ * The installation is picked by the app auth hook from `installationAccount`.
+ */
+async function listInstallationRepos(
+  octokit: Octokit,
+  account: string,
+  includeForks: boolean,
+  host: string
+): Promise<RepoRef[]> {
+  try {
+    // Paginated by hand: octokit.paginate drops the per-request options
+    const repos = [];
+    for (let page = 1; ; page++) {
+      const { data } = await octokit.request('GET /installation/repositories', {
+        per_page: 100,
+        page,
+        request: { installationAccount: account },
+      });
+      repos.push(...data.repositories);
+      if (data.repositories.length < 100) break;
+    }
+
+    return repos
+      .filter(
+        (repo) =>
+          repo.owner.login.toLowerCase() === account.toLowerCase() &&
+          (includeForks || !repo.fork)
+      )
+      .map((repo) => toRepoRef(host, repo.owner.login, repo.name, repo));
+  } catch (error) {
+    throw toGitHubApiError(error);
+  }
+}
+
+/**
+ * Paginates an alert listing of `repo`, sending the stored validators with
+ * the first page only. Listings are sorted by last update so any alert change
+ * also changes the first page — a 304 there means nothing changed at all.
+ * 304s are not counted against the rate limit.
+ */
+async function paginateConditional(
+  octokit: Octokit,
+  route: string,
+  repo: RepoRef,
+  validators: CacheValidators | null,
+  params: Record<string, unknown> = {}
+): Promise<ConditionalFetchResult> {
+  const headers = conditionalHeaders(validators);
+  // Next-page links point at /repositories/{id}/..., which names no account
+  // for the app auth hook to pick an installation by
+  const request = { installationAccount: repo.owner };
+
+  let response;
+  try {
+    response = await octokit.request(route, {
+      ...params,
+      owner: repo.owner,
+      repo: repo.name,
+      sort: 'updated',
+      direction: 'desc',
+      per_page: 100,
+      headers,
+      request,
+    });
+  } catch (error) {
+    if ((error as { status?: number }).status === 304) {
+      return { alerts: null, validators };
+    }
+    throw error;
+  }
+
+  const alerts = [...(response.data as unknown[])];
+  let nextUrl = parseNextLink(response.headers.link);
+  while (nextUrl) {
+    const page = await octokit.request(`GET ${nextUrl}`, { request });
+    alerts.push(...(page.data as unknown[]));
+    nextUrl = parseNextLink(page.headers.link);
+  }
+
+  return {
+    alerts,
+    validators: {
+      etag: response.headers.etag ?? null,
+      lastModified: response.headers['last-modified'] ?? null,
+    },
+  };
+}
+
+/** Request headers that make a fetch conditional on the stored validators. */
+function conditionalHeaders(validators: CacheValidators | null): Record<string, string> {
+  if (validators?.etag) {
+    return { 'if-none-match': validators.etag };
+  }
+  if (validators?.lastModified) {
+    return { 'if-modified-since': validators.lastModified };
+  }
+  return {};
+}
+
+/** The fields of a GitHub repo object that listings and `GET /repos` share. */
+type RepoData = {
+  archived?: boolean;
+  fork?: boolean;
+  private?: boolean;
+  visibility?: string;
+  topics?: string[];
+  default_branch?: string;
+  language?: string | null;
+};
+
+const VISIBILITIES: readonly string[] = ['public', 'private', 'internal'];
+
+function toRepoMetadata(data: RepoData): RepoMetadata {
+  // Older GHES versions omit `visibility`; fall back to the private flag
+  const visibility = VISIBILITIES.includes(data.visibility ?? '')
+    ? (data.visibility as RepoVisibility)
+    : data.private === undefined
+      ? null
+      : data.private
+        ? 'private'
+        : 'public';
+
+  return {
+    topics: data.topics ?? [],
+    visibility,
+    archived: data.archived ?? false,
+    defaultBranch: data.default_branch ?? null,
+    language: data.language ?? null,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+function toRepoRef(host: string, owner: string, name: string, data: RepoData): RepoRef {
+  return {
+    owner,
+    name,
+    fullName: toRepoKey(host, owner, name),
+    host,
+    archived: data.archived ?? false,
+    fork: data.fork ?? false,
+    metadata: toRepoMetadata(data),
+  };
+}
+
+/** No listing for a disabled or inaccessible optional feature; rethrows anything else. */
+function featureUnavailable(error: unknown): ConditionalFetchResult {
+  const apiError = toGitHubApiError(error);
+  if (apiError.kind === 'forbidden' || apiError.kind === 'not_found') {
+    return { alerts: null, validators: null };
+  }
+  throw apiError;
+}
+
+function parseNextLink(link: string | undefined): string | null {
+  const match = link?.match(/<([^>]+)>;\s*rel="next"/);
+  return match ? match[1] : null;
 }
@@ -0,0 +1,23 @@
+import type Database from 'better-sqlite3';
+import type { Octokit } from '@octokit/rest';
+import { saveTeamGroup } from './db.js';
+import { listOrgTeams } from './github.js';
+import { DEFAULT_HOST, toRepoKey } from './hosts.js';
+import type { RepoGroup } from '../types.js';
+
+/**
+ * Imports every team of an org as a repo group named `org/team-slug`
+ * (`host:org/team-slug` off the default host). Re-importing refreshes the
+ * repos of groups imported before; teams removed on GitHub keep their group.
+ */
+export async function importGitHubTeams(
+  db: Database.Database,
+  octokit: Octokit,
+  org: string,
+  host: string = DEFAULT_HOST
+): Promise<RepoGroup[]> {
+  const teams = await listOrgTeams(octokit, org, host);
+  return teams.map((team) =>
+    saveTeamGroup(db, toRepoKey(host, org, team.slug), team.description || team.name, team.repos)
+  );
+}
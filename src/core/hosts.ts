@@ -0,0 +1,85 @@
+import type { Octokit } from '@octokit/rest';
+import type { RepoRef } from '../types.js';
+
+/** Name of the host that unqualified `owner/name` repo keys belong to. */
+export const DEFAULT_HOST = 'github.com';
+
+export type GitHubHost = {
+  name: string;
+  /** REST API root, e.g. `https://ghe.example.com/api/v3`. Null means Octokit's default. */
+  baseUrl: string | null;
+  token: string | null;
+};
+
+/** One Octokit client per configured host, keyed by host name. */
+export type GitHubClients = Map<string, Octokit>;
+
+const HOST_NAME_PATTERN = /^[a-z0-9][a-z0-9.-]*$/i;
+
+/**
+ * Builds the key a repo is stored under. Repos on the default host keep
+ * their plain `owner/name`; others are qualified as `host:owner/name` so the
+ * same name on two hosts never collides.
+ */
+export function toRepoKey(host: string, owner: string, name: string): string {
+  return host === DEFAULT_HOST ? `${owner}/${name}` : `${host}:${owner}/${name}`;
+}
+
+/** Parses a repo key produced by `toRepoKey`. Returns null if invalid. */
+export function parseRepoKey(key: string): RepoRef | null {
+  const match = key.match(/^(?:([^:/]+):)?([^:/]+)\/([^:/]+)$/);
+  if (!match) return null;
+  const [, host = DEFAULT_HOST, owner, name] = match;
+  return { host, owner, name, fullName: key };
+}
+
+/** The host a repo key belongs to. */
+export function repoHost(key: string): string {
+  return parseRepoKey(key)?.host ?? DEFAULT_HOST;
+}
+
+/**
+ * Splits a `host:value` target (e.g. an org in GH_MONIT_ORG) into its host
+ * and value. Unqualified targets belong to the default host.
+ */
+export function parseHostTarget(target: string): { host: string; value: string } {
+  const idx = target.indexOf(':');
+  return idx > 0
+    ? { host: target.slice(0, idx), value: target.slice(idx + 1) }
+    : { host: DEFAULT_HOST, value: target };
+}
+
+/**
+ * Reads the configured hosts. The default host talks to GITHUB_API_URL
+ * (or api.github.com). Additional hosts are listed in GH_MONIT_HOSTS as
+ * comma-separated `name=baseUrl` pairs, each with its token in
+ * GH_MONIT_HOST_<NAME>_TOKEN.
+ */
+export function resolveHosts(env: NodeJS.ProcessEnv = process.env): GitHubHost[] {
+  const hosts: GitHubHost[] = [
+    { name: DEFAULT_HOST, baseUrl: env.GITHUB_API_URL || null, token: null },
+  ];
+
+  for (const entry of (env.GH_MONIT_HOSTS ?? '').split(',')) {
+    if (!entry.trim()) continue;
+
+    const idx = entry.indexOf('=');
+    const name = (idx > 0 ? entry.slice(0, idx) : '').trim();
+    const baseUrl = entry.slice(idx + 1).trim().replace(/\/+$/, '');
+    if (!HOST_NAME_PATTERN.test(name) || !baseUrl) {
+      throw new Error(`Invalid GH_MONIT_HOSTS entry "${entry.trim()}". Expected name=baseUrl.`);
+    }
+    if (hosts.some((host) => host.name === name)) {
+      throw new Error(`Host "${name}" is configured more than once.`);
+    }
+
+    hosts.push({ name, baseUrl, token: env[hostTokenVariable(name)] || null });
+  }
+
+  return hosts;
+}
+
+/** Environment variable holding the token for a named host. */
+export function hostTokenVariable(name: string): string {
+  return `GH_MONIT_HOST_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_TOKEN`;
+}
@@ -0,0 +1,310 @@
+import type Database from 'better-sqlite3';
+import type {
+  NotificationChannel,
+  NotificationChannelInput,
+  NotificationChannelType,
+  NotificationDelivery,
+  NotificationEvent,
+  NotificationEventKind,
+  NotificationEventSource,
+} from '../types.js';
+import { SEVERITY_ORDER } from './alerts.js';
+import {
+  getAlertEvents,
+  getNotificationChannels,
+  getNotificationCursor,
+  getNotifiedEventKeys,
+  notificationEventKey,
+  recordNotificationDelivery,
+  recordNotifiedEvents,
+  saveNotificationCursor,
+} from './db.js';
+import { sendMail } from './smtp.js';
+import type { SmtpConfig } from './smtp.js';
+
+export const NOTIFICATION_CHANNEL_TYPES: NotificationChannelType[] = [
+  'slack',
+  'teams',
+  'webhook',
+  'email',
+];
+
+export const NOTIFICATION_EVENT_KINDS: NotificationEventKind[] = [
+  'new',
+  'reopened',
+  'sla_breached',
+];
+
+/** Chat messages list this many events and count the rest. */
+const MAX_LISTED_EVENTS = 20;
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+/**
+ * Syncs stamp what they record with their start time, so a dispatch
+ * rereads this much before the channel's cursor to catch syncs that were
+ * still running at the last one. The log keeps those from being resent.
+ */
+const CURSOR_OVERLAP_MS = 60 * 60 * 1000;
+
+const KIND_LABEL: Record<NotificationEventKind, string> = {
+  new: 'new',
+  reopened: 'reopened',
+  sla_breached: 'SLA breached',
+};
+
+const SOURCE_LABEL: Record<NotificationEventSource, string> = {
+  dependabot: 'Dependabot',
+  code_scanning: 'code scanning',
+  secret_scanning: 'secret scanning',
+};
+
+/** A channel that is not usable as configured (`config`) or refused delivery (`delivery`). */
+export class NotificationError extends Error {
+  constructor(
+    readonly kind: 'config' | 'delivery',
+    message: string
+  ) {
+    super(message);
+    this.name = 'NotificationError';
+  }
+}
+
+/**
+ * Reads the SMTP server for email channels from GH_MONIT_SMTP_HOST,
+ * GH_MONIT_SMTP_PORT, GH_MONIT_SMTP_SECURE, GH_MONIT_SMTP_USER,
+ * GH_MONIT_SMTP_PASSWORD and GH_MONIT_SMTP_FROM. Returns null unless both
+ * the host and the sender are set.
+ */
+export function resolveSmtpConfig(env: NodeJS.ProcessEnv = process.env): SmtpConfig | null {
+  const host = env.GH_MONIT_SMTP_HOST?.trim();
+  const from = env.GH_MONIT_SMTP_FROM?.trim();
+  if (!host || !from) return null;
+
+  const secure = /^(1|true)$/i.test(env.GH_MONIT_SMTP_SECURE?.trim() ?? '');
+  const port = Number(env.GH_MONIT_SMTP_PORT);
+  return {
+    host,
+    port: Number.isInteger(port) && port > 0 ? port : secure ? 465 : 587,
+    secure,
+    user: env.GH_MONIT_SMTP_USER?.trim() || null,
+    password: env.GH_MONIT_SMTP_PASSWORD || null,
+    from,
+  };
+}
+
+/** Splits an email channel's target into its recipient addresses. */
+export function parseRecipients(target: string): string[] {
+  return target
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+}
+
+/** Whether an event is at or above a channel's threshold; unknown severities count as low. */
+function meetsThreshold(event: NotificationEvent, channel: NotificationChannelInput): boolean {
+  const rank = (severity: string) => {
+    const index = SEVERITY_ORDER.indexOf(severity);
+    return index === -1 || severity === 'unknown' ? SEVERITY_ORDER.indexOf('low') : index;
+  };
+  return rank(event.severity) <= rank(channel.minSeverity);
+}
+
+/**
+ * Returns the events a channel has yet to be sent: those since it was
+ * added, of the kinds it subscribes to and at or above its threshold.
+ * Only events detected since the channel's cursor (see
+ * `dispatchNotifications`) are read; the log of sent events dedupes them.
+ */
+export function getPendingEvents(
+  db: Database.Database,
+  channel: NotificationChannel
+): NotificationEvent[] {
+  const cursor = getNotificationCursor(db, channel.id);
+  const detectedSince = cursor
+    ? new Date(Date.parse(cursor) - CURSOR_OVERLAP_MS).toISOString()
+    : channel.createdAt;
+  const events = getAlertEvents(db, channel.createdAt, detectedSince).filter(
+    (event) => channel.events.includes(event.kind) && meetsThreshold(event, channel)
+  );
+  const sent = getNotifiedEventKeys(db, channel.id, events);
+  return events.filter((event) => !sent.has(notificationEventKey(event)));
+}
+
+function notificationTitle(events: NotificationEvent[]): string {
+  const counts = NOTIFICATION_EVENT_KINDS.flatMap((kind) => {
+    const count = events.filter((event) => event.kind === kind).length;
+    return count > 0 ? [`${count} ${KIND_LABEL[kind]}`] : [];
+  });
+  return `gh-monit: ${counts.join(', ')} alert${events.length === 1 ? '' : 's'}`;
+}
+
+function describeEvent(event: NotificationEvent): string {
+  const subject = event.subject ? ` (${event.subject})` : '';
+  const source = SOURCE_LABEL[event.source];
+  return `[${KIND_LABEL[event.kind]}] ${event.severity} ${source} alert${subject}`;
+}
+
+/** Lists up to MAX_LISTED_EVENTS events, one line each, then how many were left out. */
+function listEvents(events: NotificationEvent[], line: (event: NotificationEvent) => string) {
+  const lines = events.slice(0, MAX_LISTED_EVENTS).map(line);
+  if (events.length > MAX_LISTED_EVENTS) {
+    lines.push(`…and ${events.length - MAX_LISTED_EVENTS} more`);
+  }
+  return lines;
+}
+
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/** Slack incoming webhook message in mrkdwn. */
+function slackPayload(title: string, events: NotificationEvent[]) {
+  const lines = listEvents(events, (event) => {
+    const ref = escapeSlack(`${event.repo}#${event.alertNumber}`);
+    const link = event.htmlUrl ? `<${event.htmlUrl}|${ref}>` : ref;
+    return `• ${link} ${escapeSlack(describeEvent(event))}`;
+  });
+  return { text: [`*${escapeSlack(title)}*`, ...lines].join('\n') };
+}
+
+/** Microsoft Teams incoming webhook message card in Markdown. */
+function teamsPayload(title: string, events: NotificationEvent[]) {
+  const lines = listEvents(events, (event) => {
+    const ref = `${event.repo}#${event.alertNumber}`;
+    const link = event.htmlUrl ? `[${ref}](${event.htmlUrl})` : ref;
+    return `- ${link} ${describeEvent(event)}`;
+  });
+  return {
+    '@type': 'MessageCard',
+    '@context': 'https://schema.org/extensions',
+    summary: title,
+    title,
+    text: lines.join('\n'),
+  };
+}
+
+function emailText(events: NotificationEvent[]): string {
+  return events
+    .map((event) => {
+      const lines = [`${event.repo}#${event.alertNumber} ${describeEvent(event)}`];
+      if (event.htmlUrl) lines.push(`  ${event.htmlUrl}`);
+      return lines.join('\n');
+    })
+    .join('\n');
+}
+
+async function postJson(url: string, body: unknown): Promise<void> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+  } catch (error) {
+    // fetch reports network failures as "fetch failed" with the reason as its cause
+    const cause = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+    const message = cause instanceof Error ? cause.message : String(cause);
+    throw new NotificationError('delivery', message);
+  }
+  if (!response.ok) {
+    const status = `HTTP ${response.status} ${response.statusText}`.trim();
+    throw new NotificationError('delivery', status);
+  }
+}
+
+/**
+ * Sends events to a channel in a single message. Email channels need an
+ * SMTP server (see `resolveSmtpConfig`).
+ */
+export async function deliverNotification(
+  channel: NotificationChannelInput,
+  events: NotificationEvent[],
+  smtp: SmtpConfig | null,
+  title: string = notificationTitle(events)
+): Promise<void> {
+  switch (channel.type) {
+    case 'slack':
+      return postJson(channel.target, slackPayload(title, events));
+    case 'teams':
+      return postJson(channel.target, teamsPayload(title, events));
+    case 'webhook':
+      return postJson(channel.target, { title, sentAt: new Date().toISOString(), events });
+    case 'email': {
+      if (!smtp) {
+        throw new NotificationError(
+          'config',
+          'No SMTP server configured: set GH_MONIT_SMTP_HOST and GH_MONIT_SMTP_FROM'
+        );
+      }
+      const to = parseRecipients(channel.target);
+      try {
+        await sendMail(smtp, { to, subject: title, text: emailText(events) }, DELIVERY_TIMEOUT_MS);
+      } catch (error) {
+        throw new NotificationError('delivery', (error as Error).message);
+      }
+    }
+  }
+}
+
+/**
+ * Sends each enabled channel, in one message, the events it has not been
+ * sent yet. Events are recorded per channel only once delivered, so a
+ * failed delivery is retried on the next dispatch and a delivered event
+ * is never sent to that channel again. A failure affects only that
+ * channel and is stored as its last error. Otherwise the channel's cursor
+ * moves to the time of this scan, so the next one starts from there.
+ */
+export async function dispatchNotifications(
+  db: Database.Database,
+  options: { smtp?: SmtpConfig | null } = {}
+): Promise<NotificationDelivery[]> {
+  const smtp = options.smtp === undefined ? resolveSmtpConfig() : options.smtp;
+  const deliveries: NotificationDelivery[] = [];
+
+  for (const channel of getNotificationChannels(db)) {
+    if (!channel.enabled) continue;
+    const scannedAt = new Date().toISOString();
+    const events = getPendingEvents(db, channel);
+    if (events.length === 0) {
+      saveNotificationCursor(db, channel.id, scannedAt);
+      continue;
+    }
+
+    const delivery = { channelId: channel.id, name: channel.name };
+    const sentAt = new Date().toISOString();
+    try {
+      await deliverNotification(channel, events, smtp);
+      recordNotifiedEvents(db, channel.id, events, sentAt);
+      recordNotificationDelivery(db, channel.id, null, sentAt);
+      saveNotificationCursor(db, channel.id, scannedAt);
+      deliveries.push({ ...delivery, sent: events.length, error: null });
+    } catch (error) {
+      const message = (error as Error).message;
+      recordNotificationDelivery(db, channel.id, message, sentAt);
+      deliveries.push({ ...delivery, sent: 0, error: message });
+    }
+  }
+
+  return deliveries;
+}
+
+/** Sends a sample event to check a channel's settings. Nothing is recorded. */
+export async function sendTestNotification(
+  channel: NotificationChannelInput,
+  smtp: SmtpConfig | null = resolveSmtpConfig()
+): Promise<void> {
+  const sample: NotificationEvent = {
+    kind: 'new',
+    source: 'dependabot',
+    repo: 'octo-org/example',
+    alertNumber: 1,
+    severity: 'high',
+    subject: 'example-package',
+    htmlUrl: null,
+    occurredAt: new Date().toISOString(),
+  };
+  await deliverNotification(channel, [sample], smtp, 'gh-monit test notification');
+}
@@ -9,18 +9,28 @@ export const openapiSpec = {
     title: 'gh-monit API',
     version: '1.0.0',
     description:
-      'REST API for gh-monit — a GitHub Dependabot alert monitor. ' +
+      'REST API for gh-monit — a GitHub Dependabot and code scanning alert monitor. ' +
       'Provides endpoints for repository management, alert data, ' +
       'history analytics, cross-repo analytics, and setup.',
   },
   tags: [
     { name: 'Dashboard', description: 'Global summary and repository list' },
     { name: 'Repos', description: 'Per-repository alert data and actions' },
+    { name: 'Alert Triage', description: 'Dismiss or reopen Dependabot alerts on GitHub' },
+    { name: 'Closed Alerts', description: 'Dismissed and fixed alerts across repos' },
+    { name: 'Alert Annotations', description: 'Local notes, tags and assignees on Dependabot alerts' },
     { name: 'History', description: 'Trend, MTTR, SLA and timeline analytics' },
     { name: 'Analytics', description: 'Cross-repo vulnerability and dependency insights' },
     { name: 'Setup', description: 'Initial setup wizard and database reset' },
     { name: 'Fix Advisor', description: 'Grouped fix recommendations for Dependabot alerts' },
     { name: 'Scheduler', description: 'Background refresh scheduler status' },
+    { name: 'Sync Runs', description: 'Persistent history of refresh jobs and per-repo outcomes' },
+    { name: 'Watch Targets', description: 'Users and orgs whose new repos are tracked automatically' },
+    { name: 'Groups', description: 'Repo groups (teams) for ownership, analytics filtering and rollups' },
+    { name: 'Settings', description: 'Stored policies such as per-severity SLA limits' },
+    { name: 'Risk Exceptions', description: 'Time-boxed risk acceptances with an audit trail' },
+    { name: 'Threat Intel', description: 'Imported EPSS scores and CISA KEV catalog used to enrich alerts' },
+    { name: 'Notifications', description: 'Slack, Teams, webhook and email channels notified after each sync' },
   ],
   paths: {
     '/api/summary': {
@@ -66,11 +76,21 @@ export const openapiSpec = {
       get: {
         tags: ['Repos'],
         summary: 'Get repo alerts',
-        description: 'Returns all open Dependabot alerts for a specific repository.',
+        description:
+          'Returns the Dependabot alerts of a specific repository in every state, each with the CODEOWNERS owners of its manifest. Pass `state` to list only open, dismissed or fixed alerts.',
         operationId: 'getRepoAlerts',
         parameters: [
           { $ref: '#/components/parameters/owner' },
           { $ref: '#/components/parameters/name' },
+          { $ref: '#/components/parameters/codeOwner' },
+          { $ref: '#/components/parameters/tag' },
+          { $ref: '#/components/parameters/assignee' },
+          {
+            name: 'state',
+            in: 'query',
+            required: false,
+            schema: { $ref: '#/components/schemas/AlertState' },
+          },
         ],
         responses: {
           '200': {
@@ -81,6 +101,64 @@ export const openapiSpec = {
               },
             },
           },
+          '400': {
+            description: 'Invalid state',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/repos/{owner}/{name}/code-scanning': {
+      get: {
+        tags: ['Repos'],
+        summary: 'Get repo code scanning alerts',
+        description: 'Returns all cached code scanning alerts for a specific repository, ordered by severity.',
+        operationId: 'getCodeScanningAlerts',
+        parameters: [
+          { $ref: '#/components/parameters/owner' },
+          { $ref: '#/components/parameters/name' },
+        ],
+        responses: {
+          '200': {
+            description: 'Code scanning alerts for the repository',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/CodeScanningAlert' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/repos/{owner}/{name}/secret-scanning': {
+      get: {
+        tags: ['Repos'],
+        summary: 'Get repo secret scanning alerts',
+        description: 'Returns all cached secret scanning alerts for a specific repository, open alerts first. Secret values are never stored or returned.',
+        operationId: 'getSecretScanningAlerts',
+        parameters: [
+          { $ref: '#/components/parameters/owner' },
+          { $ref: '#/components/parameters/name' },
+        ],
+        responses: {
+          '200': {
+            description: 'Secret scanning alerts for the repository',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/SecretScanningAlert' },
+                },
+              },
+            },
+          },
         },
       },
     },
@@ -115,6 +193,7 @@ export const openapiSpec = {
         parameters: [
           { $ref: '#/components/parameters/owner' },
           { $ref: '#/components/parameters/name' },
+          { $ref: '#/components/parameters/trigger' },
         ],
         responses: {
           '200': {
@@ -125,11 +204,51 @@ export const openapiSpec = {
               },
             },
           },
+          '400': {
+            description: 'The repo key is invalid or its host is not configured',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '403': {
+            description: 'Access denied or Dependabot alerts disabled (`kind` tells which)',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/RepoErrorResponse' },
+              },
+            },
+          },
+          '404': {
+            description: 'The repository was not found on GitHub',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/RepoErrorResponse' },
+              },
+            },
+          },
+          '429': {
+            description: 'GitHub rate limit exhausted',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/RepoErrorResponse' },
+              },
+            },
+          },
           '500': {
             description: 'GitHub API request failed',
             content: {
               'application/json': {
-                schema: { $ref: '#/components/schemas/ErrorResponse' },
+                schema: { $ref: '#/components/schemas/RepoErrorResponse' },
+              },
+            },
+          },
+          '502': {
+            description: 'GitHub could not be reached',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/RepoErrorResponse' },
               },
             },
           },
@@ -144,9 +263,13 @@ export const openapiSpec = {
           'Triggers a full refresh of all tracked repositories. ' +
           'Returns a **Server-Sent Events** stream with three event types:\n\n' +
           '- `start` — `{ total: number }` — refresh started\n' +
-          '- `progress` — `{ repo, success, index, total }` — per-repo result\n' +
-          '- `done` — `{ refreshed, failed, total }` — all done',
+          '- `progress` — `{ repo, success, unchanged, error, completed, total }` — per-repo result, ' +
+          'in completion order (repos are synced in parallel); `error` is a `RepoSyncError` or null\n' +
+          '- `done` — `{ runId, refreshed, unchanged, failed, total }` — all done\n\n' +
+          'Alert listings are fetched with conditional requests; repos whose listings ' +
+          'answered 304 Not Modified are counted as `unchanged` (a subset of `refreshed`).',
         operationId: 'refreshAllRepos',
+        parameters: [{ $ref: '#/components/parameters/trigger' }],
         responses: {
           '200': {
             description: 'SSE stream (text/event-stream)',
@@ -163,7 +286,7 @@ export const openapiSpec = {
       get: {
         tags: ['Scheduler'],
         summary: 'Scheduler status',
-        description: 'Returns the current state of the background cron scheduler (enabled, interval, last/next run).',
+        description: 'Returns the current state of the background cron scheduler (running, cron expression, last/next run) and the remaining GitHub API quota.',
         operationId: 'getSchedulerStatus',
         responses: {
           '200': {
@@ -177,59 +300,93 @@ export const openapiSpec = {
         },
       },
     },
-    '/api/history/trends': {
+    '/api/alerts/closed': {
       get: {
-        tags: ['History'],
-        summary: 'Alert trends',
-        description: 'Returns daily open alert counts per severity over time, optionally filtered to a single repository.',
-        operationId: 'getTrends',
+        tags: ['Closed Alerts'],
+        summary: 'List closed alerts',
+        description:
+          'Returns dismissed, auto-dismissed and fixed Dependabot alerts across repos, most recently closed first, with the dismissal reason, comment and dismisser.',
+        operationId: 'getClosedAlerts',
         parameters: [
+          {
+            name: 'state',
+            in: 'query',
+            required: false,
+            schema: { type: 'string', enum: ['dismissed', 'fixed', 'auto_dismissed'] },
+          },
+          {
+            name: 'reason',
+            in: 'query',
+            description: 'Limit to alerts dismissed for this reason',
+            required: false,
+            schema: { $ref: '#/components/schemas/DismissReason' },
+          },
           {
             name: 'repo',
             in: 'query',
-            description: 'Filter to a specific repo (e.g. `owner/name`). Omit for all repos.',
             required: false,
             schema: { type: 'string' },
           },
+          { $ref: '#/components/parameters/group' },
+          {
+            name: 'limit',
+            in: 'query',
+            required: false,
+            schema: { type: 'integer', default: 50, maximum: 100 },
+          },
+          {
+            name: 'offset',
+            in: 'query',
+            required: false,
+            schema: { type: 'integer', default: 0 },
+          },
         ],
         responses: {
           '200': {
-            description: 'Trend data points',
+            description: 'A page of closed alerts',
             content: {
               'application/json': {
-                schema: {
-                  type: 'array',
-                  items: { $ref: '#/components/schemas/TrendPoint' },
-                },
+                schema: { $ref: '#/components/schemas/ClosedAlertPage' },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid state or reason',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
               },
             },
           },
+          '404': { $ref: '#/components/responses/GroupNotFound' },
         },
       },
     },
-    '/api/history/mttr': {
+    '/api/annotations': {
       get: {
-        tags: ['History'],
-        summary: 'MTTR metrics',
-        description: 'Returns Mean Time to Remediate metrics per repo and severity level, optionally filtered to a single repository.',
-        operationId: 'getMttr',
+        tags: ['Alert Annotations'],
+        summary: 'List alert annotations',
+        description: 'Returns the annotated alerts, by repo and alert number.',
+        operationId: 'getAlertAnnotations',
         parameters: [
           {
             name: 'repo',
             in: 'query',
-            description: 'Filter to a specific repo (e.g. `owner/name`). Omit for all repos.',
             required: false,
+            description: 'Limit to one repo (repo key, e.g. `octocat/hello-world`)',
             schema: { type: 'string' },
           },
+          { $ref: '#/components/parameters/tag' },
+          { $ref: '#/components/parameters/assignee' },
         ],
         responses: {
           '200': {
-            description: 'MTTR metrics array',
+            description: 'Alert annotations',
             content: {
               'application/json': {
                 schema: {
                   type: 'array',
-                  items: { $ref: '#/components/schemas/MttrMetric' },
+                  items: { $ref: '#/components/schemas/AlertAnnotation' },
                 },
               },
             },
@@ -237,232 +394,1707 @@ export const openapiSpec = {
         },
       },
     },
-    '/api/repos/{owner}/{name}/history': {
+    '/api/repos/{owner}/{name}/alerts/{number}/annotation': {
       get: {
-        tags: ['History'],
-        summary: 'Repo alert timeline',
-        description: 'Returns the full state-change timeline (open/dismissed/fixed) for all alerts in a repository.',
-        operationId: 'getRepoHistory',
+        tags: ['Alert Annotations'],
+        summary: 'Get alert annotation',
+        operationId: 'getAlertAnnotation',
         parameters: [
           { $ref: '#/components/parameters/owner' },
           { $ref: '#/components/parameters/name' },
+          { $ref: '#/components/parameters/alertNumber' },
         ],
         responses: {
           '200': {
-            description: 'Alert timeline entries',
+            description: 'The annotation',
             content: {
               'application/json': {
-                schema: {
-                  type: 'array',
-                  items: { $ref: '#/components/schemas/AlertTimelineEntry' },
-                },
+                schema: { $ref: '#/components/schemas/AlertAnnotation' },
               },
             },
           },
-        },
-      },
-    },
-    '/api/history/sla': {
-      get: {
-        tags: ['History'],
-        summary: 'SLA violations',
-        description: 'Returns open alerts that have exceeded their severity-based SLA thresholds (critical: 7d, high: 30d, medium: 90d, low: 180d).',
-        operationId: 'getSlaViolations',
-        responses: {
-          '200': {
-            description: 'SLA violation records',
+          '404': {
+            description: 'The alert has no annotation',
             content: {
               'application/json': {
-                schema: {
-                  type: 'array',
-                  items: { $ref: '#/components/schemas/SlaViolation' },
-                },
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
               },
             },
           },
         },
       },
-    },
-    '/api/analytics/vulnerabilities': {
-      get: {
-        tags: ['Analytics'],
-        summary: 'Vulnerability groups',
-        description: 'Returns alerts grouped by GHSA advisory ID, showing how many repos and alerts each vulnerability affects.',
-        operationId: 'getVulnerabilities',
-        responses: {
-          '200': {
-            description: 'Vulnerability groups',
-            content: {
-              'application/json': {
-                schema: {
-                  type: 'array',
-                  items: { $ref: '#/components/schemas/VulnerabilityGroup' },
-                },
-              },
+      put: {
+        tags: ['Alert Annotations'],
+        summary: 'Save alert annotation',
+        description:
+          'Replaces the note, tags and assignee of a Dependabot alert. Annotations stay local and survive refreshes. Tags are trimmed and deduplicated case-insensitively.',
+        operationId: 'saveAlertAnnotation',
+        parameters: [
+          { $ref: '#/components/parameters/owner' },
+          { $ref: '#/components/parameters/name' },
+          { $ref: '#/components/parameters/alertNumber' },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/AlertAnnotationInput' },
             },
           },
         },
-      },
-    },
-    '/api/analytics/dependencies': {
-      get: {
-        tags: ['Analytics'],
-        summary: 'Dependency landscape',
-        description: 'Returns alerts grouped by package name, showing which packages have the most alerts across repos.',
-        operationId: 'getDependencies',
         responses: {
           '200': {
-            description: 'Dependency groups',
+            description: 'Saved annotation',
             content: {
               'application/json': {
-                schema: {
-                  type: 'array',
-                  items: { $ref: '#/components/schemas/DependencyGroup' },
-                },
+                schema: { $ref: '#/components/schemas/AlertAnnotation' },
               },
             },
           },
-        },
-      },
-    },
-    '/api/analytics/ecosystems': {
-      get: {
-        tags: ['Analytics'],
-        summary: 'Ecosystem breakdown',
-        description: 'Returns alert distribution grouped by package ecosystem (npm, pip, maven, etc.).',
-        operationId: 'getEcosystems',
-        responses: {
-          '200': {
-            description: 'Ecosystem breakdown',
+          '400': {
+            description: 'Invalid note or tags',
             content: {
               'application/json': {
-                schema: {
-                  type: 'array',
-                  items: { $ref: '#/components/schemas/EcosystemBreakdown' },
-                },
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
               },
             },
           },
-        },
-      },
-    },
-    '/api/fix-advisor': {
-      get: {
-        tags: ['Fix Advisor'],
-        summary: 'Cross-repo fix plan',
-        description: 'Returns grouped fix recommendations across all tracked repositories. Alerts are grouped by package name and ecosystem, with severity breakdown and patched version info.',
-        operationId: 'getFixAdvisor',
-        responses: {
-          '200': {
-            description: 'Fix advisor response',
+          '404': {
+            description: 'Alert not found',
             content: {
               'application/json': {
-                schema: { $ref: '#/components/schemas/FixAdvisorResponse' },
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
               },
             },
           },
         },
       },
-    },
-    '/api/repos/{owner}/{name}/fix-advisor': {
-      get: {
-        tags: ['Fix Advisor'],
-        summary: 'Repo fix plan',
-        description: 'Returns grouped fix recommendations for a specific repository.',
-        operationId: 'getRepoFixAdvisor',
+      delete: {
+        tags: ['Alert Annotations'],
+        summary: 'Delete alert annotation',
+        operationId: 'deleteAlertAnnotation',
         parameters: [
           { $ref: '#/components/parameters/owner' },
           { $ref: '#/components/parameters/name' },
+          { $ref: '#/components/parameters/alertNumber' },
         ],
         responses: {
           '200': {
-            description: 'Fix advisor response for the repository',
+            description: 'Annotation deleted',
             content: {
               'application/json': {
-                schema: { $ref: '#/components/schemas/FixAdvisorResponse' },
+                schema: {
+                  type: 'object',
+                  properties: { ok: { type: 'boolean' } },
+                },
               },
             },
           },
-        },
-      },
-    },
-    '/api/setup/status': {
-      get: {
-        tags: ['Setup'],
-        summary: 'Setup status',
-        description: 'Returns whether the database is empty and whether GitHub targets (user/org) are configured via environment variables.',
-        operationId: 'getSetupStatus',
-        responses: {
-          '200': {
-            description: 'Setup status',
+          '404': {
+            description: 'The alert has no annotation',
             content: {
               'application/json': {
-                schema: { $ref: '#/components/schemas/SetupStatus' },
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
               },
             },
           },
         },
       },
     },
-    '/api/setup/repos': {
-      get: {
-        tags: ['Setup'],
-        summary: 'List available repos',
-        description: 'Lists all repositories accessible via the configured `GH_MONIT_USER` / `GH_MONIT_ORG` environment variables. Used by the setup wizard.',
-        operationId: 'listSetupRepos',
-        responses: {
-          '200': {
-            description: 'Available repositories',
-            content: {
-              'application/json': {
-                schema: {
-                  type: 'array',
-                  items: { $ref: '#/components/schemas/RepoOption' },
+    '/api/alerts/dismiss': {
+      post: {
+        tags: ['Alert Triage'],
+        summary: 'Dismiss alerts on GitHub',
+        description:
+          'Dismisses each alert through the Dependabot update-alert API, then updates the stored alert and its history without waiting for the next refresh. Each alert succeeds or fails on its own. Needs write access to Dependabot alerts.',
+        operationId: 'dismissAlerts',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  alerts: {
+                    type: 'array',
+                    items: { $ref: '#/components/schemas/AlertRef' },
+                  },
+                  ghsaId: {
+                    type: 'string',
+                    description: 'Instead of `alerts`: every open alert of this advisory, across repos',
+                  },
+                  reason: { $ref: '#/components/schemas/DismissReason' },
+                  comment: { type: 'string', maxLength: 280, nullable: true },
                 },
+                required: ['reason'],
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Alerts updated on GitHub and locally, and alerts that failed',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/AlertStateChangeResult' },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid reason, comment too long, or no alerts given',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/alerts/reopen': {
+      post: {
+        tags: ['Alert Triage'],
+        summary: 'Reopen dismissed alerts on GitHub',
+        description:
+          'Reopens each dismissed alert on GitHub and updates the stored alert and its history. Needs write access to Dependabot alerts.',
+        operationId: 'reopenAlerts',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  alerts: {
+                    type: 'array',
+                    items: { $ref: '#/components/schemas/AlertRef' },
+                  },
+                  ghsaId: {
+                    type: 'string',
+                    description: 'Instead of `alerts`: every dismissed alert of this advisory, across repos',
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Alerts updated on GitHub and locally, and alerts that failed',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/AlertStateChangeResult' },
+              },
+            },
+          },
+          '400': {
+            description: 'No alerts given',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/sync-runs': {
+      get: {
+        tags: ['Sync Runs'],
+        summary: 'List sync runs',
+        description: 'Returns recorded refresh jobs (cron, manual and API), newest first.',
+        operationId: 'getSyncRuns',
+        parameters: [
+          {
+            name: 'limit',
+            in: 'query',
+            required: false,
+            schema: { type: 'integer', default: 20, maximum: 100 },
+          },
+          {
+            name: 'offset',
+            in: 'query',
+            required: false,
+            schema: { type: 'integer', default: 0 },
+          },
+          {
+            name: 'trigger',
+            in: 'query',
+            description: 'Limit to runs started by one trigger',
+            required: false,
+            schema: { $ref: '#/components/schemas/SyncTrigger' },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'A page of sync runs',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/SyncRunPage' },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid trigger',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/sync-runs/{id}': {
+      get: {
+        tags: ['Sync Runs'],
+        summary: 'Get sync run',
+        description: 'Returns one sync run with the outcome, error and alert delta of every repo it refreshed.',
+        operationId: 'getSyncRun',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+        ],
+        responses: {
+          '200': {
+            description: 'Sync run with per-repo outcomes',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/SyncRunDetail' },
+              },
+            },
+          },
+          '404': {
+            description: 'Sync run not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/repos/{owner}/{name}/sync-runs': {
+      get: {
+        tags: ['Sync Runs'],
+        summary: 'Repo sync history',
+        description: 'Returns the outcome of a repository in each sync run, newest first.',
+        operationId: 'getRepoSyncRuns',
+        parameters: [
+          { $ref: '#/components/parameters/owner' },
+          { $ref: '#/components/parameters/name' },
+          {
+            name: 'limit',
+            in: 'query',
+            required: false,
+            schema: { type: 'integer', default: 50, maximum: 100 },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Per-repo sync outcomes',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/SyncRunRepo' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/history/trends': {
+      get: {
+        tags: ['History'],
+        summary: 'Alert trends',
+        description:
+          'Returns the open Dependabot alert count per severity for each day, week or month of the range, optionally filtered to a single repository or group. The range is clamped to the first snapshot through today, which is also its default. A bucket counts the backlog on its last day in the range and is labelled by its first day. Days without a sync carry forward each repo\'s last snapshot.',
+        operationId: 'getTrends',
+        parameters: [
+          {
+            name: 'repo',
+            in: 'query',
+            description: 'Filter to a specific repo (e.g. `owner/name`). Omit for all repos.',
+            required: false,
+            schema: { type: 'string' },
+          },
+          { $ref: '#/components/parameters/group' },
+          { $ref: '#/components/parameters/from' },
+          { $ref: '#/components/parameters/to' },
+          { $ref: '#/components/parameters/days' },
+          { $ref: '#/components/parameters/bucket' },
+        ],
+        responses: {
+          '200': {
+            description: 'Trend data points',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/TrendPoint' },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid date, days or bucket, or `from` combined with `days`',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '404': { $ref: '#/components/responses/GroupNotFound' },
+        },
+      },
+    },
+    '/api/history/mttr': {
+      get: {
+        tags: ['History'],
+        summary: 'MTTR metrics',
+        description:
+          'Returns Mean Time to Remediate metrics per repo and severity level, optionally filtered to a single repository or group. The range keeps alerts resolved within it; with `bucket`, metrics are also split by resolution period.',
+        operationId: 'getMttr',
+        parameters: [
+          {
+            name: 'repo',
+            in: 'query',
+            description: 'Filter to a specific repo (e.g. `owner/name`). Omit for all repos.',
+            required: false,
+            schema: { type: 'string' },
+          },
+          { $ref: '#/components/parameters/group' },
+          { $ref: '#/components/parameters/from' },
+          { $ref: '#/components/parameters/to' },
+          { $ref: '#/components/parameters/days' },
+          { $ref: '#/components/parameters/bucket' },
+        ],
+        responses: {
+          '200': {
+            description: 'MTTR metrics array',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/MttrMetric' },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid date, days or bucket, or `from` combined with `days`',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '404': { $ref: '#/components/responses/GroupNotFound' },
+        },
+      },
+    },
+    '/api/history/mttr/distribution': {
+      get: {
+        tags: ['History'],
+        summary: 'MTTR distribution',
+        description:
+          'Returns the mean, median, p75 and p90 time to remediate per severity, overall and split into fixed and dismissed alerts, plus the same figures per resolution period (month unless `bucket` is given). Each alert counts once, at its first fix or dismissal; the range keeps alerts resolved within it.',
+        operationId: 'getMttrDistribution',
+        parameters: [
+          {
+            name: 'repo',
+            in: 'query',
+            description: 'Filter to a specific repo (e.g. `owner/name`). Omit for all repos.',
+            required: false,
+            schema: { type: 'string' },
+          },
+          { $ref: '#/components/parameters/group' },
+          { $ref: '#/components/parameters/from' },
+          { $ref: '#/components/parameters/to' },
+          { $ref: '#/components/parameters/days' },
+          { $ref: '#/components/parameters/bucket' },
+        ],
+        responses: {
+          '200': {
+            description: 'MTTR distribution',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/MttrDistribution' },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid date, days or bucket, or `from` combined with `days`',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '404': { $ref: '#/components/responses/GroupNotFound' },
+        },
+      },
+    },
+    '/api/repos/{owner}/{name}/history': {
+      get: {
+        tags: ['History'],
+        summary: 'Repo alert timeline',
+        description: 'Returns the full state-change timeline (open/dismissed/fixed) for all alerts in a repository.',
+        operationId: 'getRepoHistory',
+        parameters: [
+          { $ref: '#/components/parameters/owner' },
+          { $ref: '#/components/parameters/name' },
+        ],
+        responses: {
+          '200': {
+            description: 'Alert timeline entries',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/AlertTimelineEntry' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/history/sla': {
+      get: {
+        tags: ['History'],
+        summary: 'SLA violations',
+        description:
+          'Returns open alerts that have exceeded their severity-based SLA limits. Limits come from the SLA policy (`/api/settings/sla`), resolved per repo.',
+        operationId: 'getSlaViolations',
+        parameters: [
+          {
+            name: 'source',
+            in: 'query',
+            description: 'Limit to one alert source. Omit for all sources.',
+            required: false,
+            schema: { $ref: '#/components/schemas/AlertSource' },
+          },
+          { $ref: '#/components/parameters/group' },
+          { $ref: '#/components/parameters/codeOwner' },
+          { $ref: '#/components/parameters/tag' },
+          { $ref: '#/components/parameters/assignee' },
+        ],
+        responses: {
+          '200': {
+            description: 'SLA violation records',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/SlaViolation' },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid source',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '404': { $ref: '#/components/responses/GroupNotFound' },
+        },
+      },
+    },
+    '/api/history/sla/compliance': {
+      get: {
+        tags: ['History'],
+        summary: 'SLA compliance history',
+        description:
+          'Reconstructs alert lifecycles from history and reports, per severity and calendar quarter: the share of resolved alerts fixed or dismissed within their SLA limit, days spent past the limit, and alerts still open past it at the end of the quarter. Also lists the alerts resolved late. Limits come from the current SLA policy; alerts under an active risk exception are left out.',
+        operationId: 'getSlaCompliance',
+        parameters: [
+          {
+            name: 'from',
+            in: 'query',
+            description: 'First day of the range. Defaults to the start of the fourth quarter before `to`.',
+            required: false,
+            schema: { type: 'string', format: 'date', example: '2025-01-01' },
+          },
+          {
+            name: 'to',
+            in: 'query',
+            description: 'Last day of the range, inclusive. Defaults to today.',
+            required: false,
+            schema: { type: 'string', format: 'date', example: '2025-12-31' },
+          },
+          {
+            name: 'source',
+            in: 'query',
+            description: 'Limit to one alert source. Omit for all sources.',
+            required: false,
+            schema: { $ref: '#/components/schemas/AlertSource' },
+          },
+          { $ref: '#/components/parameters/group' },
+        ],
+        responses: {
+          '200': {
+            description: 'Compliance report',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/SlaComplianceReport' },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid date or source, or `from` after `to`',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '404': { $ref: '#/components/responses/GroupNotFound' },
+        },
+      },
+    },
+    '/api/history/secrets/mttr': {
+      get: {
+        tags: ['History'],
+        summary: 'Secret scanning MTTR',
+        description: 'Returns the mean time to resolve secret scanning alerts per repository.',
+        operationId: 'getSecretMttr',
+        parameters: [
+          {
+            name: 'repo',
+            in: 'query',
+            description: 'Filter to a specific repo (e.g. `owner/name`). Omit for all repos.',
+            required: false,
+            schema: { type: 'string' },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Secret MTTR metrics',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/SecretMttrMetric' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/history/secrets/sla': {
+      get: {
+        tags: ['History'],
+        summary: 'Secret scanning SLA violations',
+        description: 'Returns open secret scanning alerts checked against the secret SLA limit (1 day), longest open first.',
+        operationId: 'getSecretSlaViolations',
+        responses: {
+          '200': {
+            description: 'Secret SLA records',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/SecretSlaViolation' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/analytics/vulnerabilities': {
+      get: {
+        tags: ['Analytics'],
+        summary: 'Vulnerability groups',
+        description: 'Returns alerts grouped by GHSA advisory ID, showing how many repos and alerts each vulnerability affects.',
+        operationId: 'getVulnerabilities',
+        responses: {
+          '200': {
+            description: 'Vulnerability groups',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/VulnerabilityGroup' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/analytics/dependencies': {
+      get: {
+        tags: ['Analytics'],
+        summary: 'Dependency landscape',
+        description: 'Returns alerts grouped by package name, showing which packages have the most alerts across repos.',
+        operationId: 'getDependencies',
+        responses: {
+          '200': {
+            description: 'Dependency groups',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/DependencyGroup' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/analytics/ecosystems': {
+      get: {
+        tags: ['Analytics'],
+        summary: 'Ecosystem breakdown',
+        description: 'Returns alert distribution grouped by package ecosystem (npm, pip, maven, etc.).',
+        operationId: 'getEcosystems',
+        responses: {
+          '200': {
+            description: 'Ecosystem breakdown',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/EcosystemBreakdown' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/analytics/dismissals': {
+      get: {
+        tags: ['Analytics'],
+        summary: 'Dismissal reasons',
+        description:
+          'Counts dismissed Dependabot alerts per reason, per group (next to the alerts it fixed) and per dismisser, to spot teams that dismiss alerts to silence them. Auto-dismissed alerts are left out.',
+        operationId: 'getDismissalAnalytics',
+        parameters: [{ $ref: '#/components/parameters/group' }],
+        responses: {
+          '200': {
+            description: 'Dismissal breakdown',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/DismissalAnalytics' },
+              },
+            },
+          },
+          '404': { $ref: '#/components/responses/GroupNotFound' },
+        },
+      },
+    },
+    '/api/analytics/risk': {
+      get: {
+        tags: ['Analytics'],
+        summary: 'Risk leaderboard',
+        description:
+          'Returns every tracked repo with its risk score, highest first. Each open Dependabot alert scores its severity weight, scaled by CVSS, dependency scope, SLA overdue and age as set in the risk weights.',
+        operationId: 'getRiskLeaderboard',
+        parameters: [{ $ref: '#/components/parameters/group' }],
+        responses: {
+          '200': {
+            description: 'Repos by risk score',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/RepoRisk' },
+                },
+              },
+            },
+          },
+          '404': { $ref: '#/components/responses/GroupNotFound' },
+        },
+      },
+    },
+    '/api/fix-advisor': {
+      get: {
+        tags: ['Fix Advisor'],
+        summary: 'Cross-repo fix plan',
+        description: 'Returns grouped fix recommendations across all tracked repositories. Alerts are grouped by package name and ecosystem, with severity breakdown and patched version info.',
+        operationId: 'getFixAdvisor',
+        parameters: [
+          { $ref: '#/components/parameters/group' },
+          { $ref: '#/components/parameters/codeOwner' },
+          { $ref: '#/components/parameters/tag' },
+          { $ref: '#/components/parameters/assignee' },
+        ],
+        responses: {
+          '200': {
+            description: 'Fix advisor response',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/FixAdvisorResponse' },
+              },
+            },
+          },
+          '404': { $ref: '#/components/responses/GroupNotFound' },
+        },
+      },
+    },
+    '/api/repos/{owner}/{name}/fix-advisor': {
+      get: {
+        tags: ['Fix Advisor'],
+        summary: 'Repo fix plan',
+        description: 'Returns grouped fix recommendations for a specific repository.',
+        operationId: 'getRepoFixAdvisor',
+        parameters: [
+          { $ref: '#/components/parameters/owner' },
+          { $ref: '#/components/parameters/name' },
+          { $ref: '#/components/parameters/codeOwner' },
+          { $ref: '#/components/parameters/tag' },
+          { $ref: '#/components/parameters/assignee' },
+        ],
+        responses: {
+          '200': {
+            description: 'Fix advisor response for the repository',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/FixAdvisorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/watch-targets': {
+      get: {
+        tags: ['Watch Targets'],
+        summary: 'List watch targets',
+        description: 'Returns the users and orgs whose repos are discovered on every scheduler cycle.',
+        operationId: 'listWatchTargets',
+        responses: {
+          '200': {
+            description: 'Watch targets',
+            content: {
+              'application/json': {
+                schema: { type: 'array', items: { $ref: '#/components/schemas/WatchTarget' } },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        tags: ['Watch Targets'],
+        summary: 'Add watch target',
+        description: 'Starts watching a user or org. New repos that pass its filters are enrolled on the next scheduler cycle or discovery run.',
+        operationId: 'addWatchTarget',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/WatchTargetInput' },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Watch target added',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/WatchTarget' },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid type or name, or unknown host',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '409': {
+            description: 'The user or org is already watched on that host',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/watch-targets/{id}': {
+      delete: {
+        tags: ['Watch Targets'],
+        summary: 'Remove watch target',
+        description: 'Stops watching a user or org. Repos it enrolled stay tracked.',
+        operationId: 'removeWatchTarget',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+        ],
+        responses: {
+          '200': {
+            description: 'Watch target removed',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/OkResponse' },
+              },
+            },
+          },
+          '404': {
+            description: 'Watch target not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/watch-targets/discover': {
+      post: {
+        tags: ['Watch Targets'],
+        summary: 'Run repo discovery',
+        description:
+          'Re-lists the repos of every watch target, as the scheduler does before each cycle. ' +
+          'New repos are synced right away (recorded as a sync run); tracked repos are flagged ' +
+          'when they were archived or deleted upstream.',
+        operationId: 'discoverRepos',
+        parameters: [{ $ref: '#/components/parameters/trigger' }],
+        responses: {
+          '200': {
+            description: 'Discovery outcome',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/DiscoveryResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/setup/status': {
+      get: {
+        tags: ['Setup'],
+        summary: 'Setup status',
+        description: 'Returns whether the database is empty and whether any watch targets (users/orgs) are configured.',
+        operationId: 'getSetupStatus',
+        responses: {
+          '200': {
+            description: 'Setup status',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/SetupStatus' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/setup/repos': {
+      get: {
+        tags: ['Setup'],
+        summary: 'List available repos',
+        description: 'Lists the repositories of every watch target that pass its filters. Targets are seeded from `GH_MONIT_USER` / `GH_MONIT_ORG` on startup. Used by the setup wizard.',
+        operationId: 'listSetupRepos',
+        responses: {
+          '200': {
+            description: 'Available repositories',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/RepoOption' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/setup/reset': {
+      post: {
+        tags: ['Setup'],
+        summary: 'Reset database',
+        description: 'Clears all data from the database, returning the app to its initial empty state.',
+        operationId: 'resetDatabase',
+        responses: {
+          '200': {
+            description: 'Database cleared',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/OkResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/setup/initialize': {
+      post: {
+        tags: ['Setup'],
+        summary: 'Initialize with selected repos',
+        description: 'Seeds the database by fetching Dependabot alerts for the selected repositories from GitHub.',
+        operationId: 'initializeSetup',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/InitializeRequest' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Initialization result',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/InitializeResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/groups': {
+      get: {
+        tags: ['Groups'],
+        summary: 'List groups',
+        description: 'Returns all repo groups with their repos.',
+        operationId: 'listGroups',
+        responses: {
+          '200': {
+            description: 'Repo groups',
+            content: {
+              'application/json': {
+                schema: { type: 'array', items: { $ref: '#/components/schemas/RepoGroup' } },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        tags: ['Groups'],
+        summary: 'Create group',
+        description: 'Creates a user-defined group. Repo keys need not be tracked yet.',
+        operationId: 'createGroup',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/RepoGroupInput' },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Group created',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/RepoGroup' },
+              },
+            },
+          },
+          '400': {
+            description: 'Missing name or invalid repos',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '409': {
+            description: 'A group with that name already exists',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/groups/{id}': {
+      put: {
+        tags: ['Groups'],
+        summary: 'Update group',
+        description: 'Renames a group or replaces its description or repos. Omitted fields are kept.',
+        operationId: 'updateGroup',
+        parameters: [{ $ref: '#/components/parameters/groupId' }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/RepoGroupInput' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Updated group',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/RepoGroup' },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid repos',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '404': { $ref: '#/components/responses/GroupNotFound' },
+          '409': {
+            description: 'Another group already has that name',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+      delete: {
+        tags: ['Groups'],
+        summary: 'Delete group',
+        description: 'Deletes a group. Its repos stay tracked.',
+        operationId: 'deleteGroup',
+        parameters: [{ $ref: '#/components/parameters/groupId' }],
+        responses: {
+          '200': {
+            description: 'Group deleted',
+            content: {
+              'application/json': {
+                schema: { type: 'object', properties: { ok: { type: 'boolean' } } },
+              },
+            },
+          },
+          '404': { $ref: '#/components/responses/GroupNotFound' },
+        },
+      },
+    },
+    '/api/groups/import': {
+      post: {
+        tags: ['Groups'],
+        summary: 'Import GitHub teams',
+        description:
+          'Creates or refreshes one group per team of an org, named `org/team-slug`, with the repos the team has access to. Requires a token that can read org teams (`read:org`).',
+        operationId: 'importGroups',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  org: { type: 'string', example: 'octo-org' },
+                  host: { type: 'string', default: 'github.com' },
+                },
+                required: ['org'],
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Imported groups',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    imported: { type: 'integer' },
+                    groups: { type: 'array', items: { $ref: '#/components/schemas/RepoGroup' } },
+                  },
+                  required: ['imported', 'groups'],
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Missing org or unknown host',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '403': {
+            description: 'The token cannot read the org teams',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/RepoErrorResponse' },
+              },
+            },
+          },
+          '404': {
+            description: 'Org not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/RepoErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/groups/rollup': {
+      get: {
+        tags: ['Groups'],
+        summary: 'Per-group rollup',
+        description:
+          'Returns open alerts by severity, overdue SLA alerts and mean time to remediate per group, over the tracked repos of each. Tracked repos in no group are summed in a final `Unassigned` row.',
+        operationId: 'getGroupRollup',
+        responses: {
+          '200': {
+            description: 'Group rollups',
+            content: {
+              'application/json': {
+                schema: { type: 'array', items: { $ref: '#/components/schemas/GroupRollup' } },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/settings/sla': {
+      get: {
+        tags: ['Settings'],
+        summary: 'SLA policy',
+        description:
+          'Returns the SLA limits in days per severity, with per-group and per-repo overrides. Defaults to critical 2, high 7, medium 30 and low 90 until a policy is saved.',
+        operationId: 'getSlaPolicy',
+        responses: {
+          '200': {
+            description: 'SLA policy',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/SlaPolicy' },
+              },
+            },
+          },
+        },
+      },
+      put: {
+        tags: ['Settings'],
+        summary: 'Replace SLA policy',
+        description:
+          'Replaces the SLA policy. A repo override wins over group overrides; a repo in several groups gets the strictest group limit. Severities an override omits fall back to the next level.',
+        operationId: 'saveSlaPolicy',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/SlaPolicy' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Saved policy',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/SlaPolicy' },
+              },
+            },
+          },
+          '400': {
+            description: 'Missing or non-positive limits, or an override naming an unknown group',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/settings/risk': {
+      get: {
+        tags: ['Settings'],
+        summary: 'Risk weights',
+        description:
+          'Returns the weights of the repo risk score. Defaults to severity weights critical 10, high 5, medium 2 and low 1, cvss 1, epss 1, kev 3, developmentScope 0.25, overdue 2 and agePerYear 0.5 until others are saved.',
+        operationId: 'getRiskWeights',
+        responses: {
+          '200': {
+            description: 'Risk weights',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/RiskWeights' },
+              },
+            },
+          },
+        },
+      },
+      put: {
+        tags: ['Settings'],
+        summary: 'Replace risk weights',
+        description: 'Replaces the risk weights. Every weight is required and must be zero or more.',
+        operationId: 'saveRiskWeights',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/RiskWeights' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Saved weights',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/RiskWeights' },
+              },
+            },
+          },
+          '400': {
+            description: 'A missing or negative weight',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/exceptions': {
+      get: {
+        tags: ['Risk Exceptions'],
+        summary: 'List risk exceptions',
+        description:
+          'Returns risk exceptions, newest first, with their audit trail. Active exceptions list the open Dependabot alerts they cover; those alerts are left out of summaries, SLA and risk metrics until the exception expires or is revoked.',
+        operationId: 'getRiskExceptions',
+        parameters: [
+          {
+            name: 'status',
+            in: 'query',
+            required: false,
+            schema: { type: 'string', enum: ['active', 'expired', 'revoked'] },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Risk exceptions',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/RiskException' },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Unknown status',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        tags: ['Risk Exceptions'],
+        summary: 'Create risk exception',
+        description:
+          'Accepts the risk of one alert, an advisory, a package or a whole repo until `expiresAt`. A date without a time runs to the end of that day (UTC).',
+        operationId: 'createRiskException',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/RiskExceptionInput' },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Exception created',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/RiskException' },
+              },
+            },
+          },
+          '400': {
+            description: 'Missing scope fields, justification or approver, or an expiry not in the future',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/exceptions/{id}': {
+      put: {
+        tags: ['Risk Exceptions'],
+        summary: 'Update risk exception',
+        description:
+          'Changes the justification, approver or expiry and records the change. Giving an expired exception a later expiry renews it.',
+        operationId: 'updateRiskException',
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'integer' },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/RiskExceptionUpdate' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Updated exception',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/RiskException' },
+              },
+            },
+          },
+          '400': {
+            description: 'Missing actor or invalid fields',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '404': {
+            description: 'Exception not found or revoked',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/exceptions/{id}/revoke': {
+      post: {
+        tags: ['Risk Exceptions'],
+        summary: 'Revoke risk exception',
+        description: 'Ends an exception early so its alerts count again. The record is kept.',
+        operationId: 'revokeRiskException',
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'integer' },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  actor: { type: 'string' },
+                  reason: { type: 'string', nullable: true },
+                },
+                required: ['actor'],
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Revoked exception',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/RiskException' },
+              },
+            },
+          },
+          '400': {
+            description: 'Missing actor',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '404': {
+            description: 'Exception not found or already revoked',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
               },
             },
           },
         },
       },
     },
-    '/api/setup/reset': {
+    '/api/threat-intel': {
+      get: {
+        tags: ['Threat Intel'],
+        summary: 'Threat intel import status',
+        description: 'Returns the last import of each dataset. Datasets never imported are left out.',
+        operationId: 'getThreatIntelStatus',
+        responses: {
+          '200': {
+            description: 'Dataset imports',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/ThreatDatasetStatus' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/threat-intel/{dataset}/import': {
       post: {
-        tags: ['Setup'],
-        summary: 'Reset database',
-        description: 'Clears all data from the database, returning the app to its initial empty state.',
-        operationId: 'resetDatabase',
+        tags: ['Threat Intel'],
+        summary: 'Import a threat intel dataset',
+        description:
+          'Reads an EPSS scores CSV (`epss`) or the CISA KEV catalog JSON (`kev`) from the configured feed, GH_MONIT_EPSS_URL or GH_MONIT_KEV_URL (defaulting to the published feed), optionally gzipped, and replaces the stored dataset. Importing a local file is only possible from the CLI.',
+        operationId: 'importThreatDataset',
+        parameters: [
+          {
+            name: 'dataset',
+            in: 'path',
+            required: true,
+            schema: { type: 'string', enum: ['epss', 'kev'] },
+          },
+        ],
         responses: {
           '200': {
-            description: 'Database cleared',
+            description: 'The completed import',
             content: {
               'application/json': {
-                schema: { $ref: '#/components/schemas/OkResponse' },
+                schema: { $ref: '#/components/schemas/ThreatDatasetStatus' },
+              },
+            },
+          },
+          '400': {
+            description: 'The dataset could not be parsed',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '404': {
+            description: 'Unknown dataset',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '502': {
+            description: 'The source could not be read',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
               },
             },
           },
         },
       },
     },
-    '/api/setup/initialize': {
+    '/api/notifications/channels': {
+      get: {
+        tags: ['Notifications'],
+        summary: 'List notification channels',
+        operationId: 'getNotificationChannels',
+        responses: {
+          '200': {
+            description: 'Channels in the order they were added',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/NotificationChannel' },
+                },
+              },
+            },
+          },
+        },
+      },
       post: {
-        tags: ['Setup'],
-        summary: 'Initialize with selected repos',
-        description: 'Seeds the database by fetching Dependabot alerts for the selected repositories from GitHub.',
-        operationId: 'initializeSetup',
+        tags: ['Notifications'],
+        summary: 'Add notification channel',
+        description:
+          'Adds a channel that is sent, after each refresh of all repos, the alerts created, reopened or past their SLA limit since it was added. Each alert event is sent to a channel once.',
+        operationId: 'createNotificationChannel',
         requestBody: {
           required: true,
           content: {
             'application/json': {
-              schema: { $ref: '#/components/schemas/InitializeRequest' },
+              schema: { $ref: '#/components/schemas/NotificationChannelInput' },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Channel created',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/NotificationChannel' },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid type, target, severity or events',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/notifications/channels/{id}': {
+      put: {
+        tags: ['Notifications'],
+        summary: 'Update notification channel',
+        description: 'Fields left out keep their current value.',
+        operationId: 'updateNotificationChannel',
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'integer' },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/NotificationChannelInput' },
             },
           },
         },
         responses: {
           '200': {
-            description: 'Initialization result',
+            description: 'Updated channel',
             content: {
               'application/json': {
-                schema: { $ref: '#/components/schemas/InitializeResponse' },
+                schema: { $ref: '#/components/schemas/NotificationChannel' },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid type, target, severity or events',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '404': {
+            description: 'Channel not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+      delete: {
+        tags: ['Notifications'],
+        summary: 'Remove notification channel',
+        operationId: 'deleteNotificationChannel',
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'integer' },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Channel removed',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/OkResponse' },
+              },
+            },
+          },
+          '404': {
+            description: 'Channel not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/notifications/channels/{id}/test': {
+      post: {
+        tags: ['Notifications'],
+        summary: 'Send a test notification',
+        description: 'Sends a sample event to the channel. Nothing is recorded as sent.',
+        operationId: 'testNotificationChannel',
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'integer' },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Delivered',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/OkResponse' },
+              },
+            },
+          },
+          '400': {
+            description: 'Email channel without an SMTP server configured',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '404': {
+            description: 'Channel not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '502': {
+            description: 'The channel refused or could not be reached',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
               },
             },
           },
@@ -476,7 +2108,8 @@ export const openapiSpec = {
         name: 'owner',
         in: 'path',
         required: true,
-        description: 'GitHub repository owner (user or org login)',
+        description:
+          'GitHub repository owner (user or org login). For repos on a non-default host, prefix the host name: `ghes:octocat`.',
         schema: { type: 'string', example: 'octocat' },
       },
       name: {
@@ -486,6 +2119,96 @@ export const openapiSpec = {
         description: 'GitHub repository name',
         schema: { type: 'string', example: 'hello-world' },
       },
+      trigger: {
+        name: 'trigger',
+        in: 'query',
+        required: false,
+        description: 'Recorded on the sync run. The dashboard sends `manual`; anything else is recorded as `api`.',
+        schema: { type: 'string', enum: ['manual', 'api'], default: 'api' },
+      },
+      group: {
+        name: 'group',
+        in: 'query',
+        required: false,
+        description: 'Limit to the repos of one group (by id). Omit for all repos.',
+        schema: { type: 'integer' },
+      },
+      from: {
+        name: 'from',
+        in: 'query',
+        required: false,
+        description: 'First day of the range (`YYYY-MM-DD`). Cannot be combined with `days`.',
+        schema: { type: 'string', format: 'date' },
+      },
+      to: {
+        name: 'to',
+        in: 'query',
+        required: false,
+        description: 'Last day of the range, inclusive. Defaults to today.',
+        schema: { type: 'string', format: 'date' },
+      },
+      days: {
+        name: 'days',
+        in: 'query',
+        required: false,
+        description: 'Shorthand for the last N days up to `to`.',
+        schema: { type: 'integer', minimum: 1, example: 90 },
+      },
+      bucket: {
+        name: 'bucket',
+        in: 'query',
+        required: false,
+        description: 'Granularity. Weeks start on Monday.',
+        schema: { type: 'string', enum: ['day', 'week', 'month'], default: 'day' },
+      },
+      codeOwner: {
+        name: 'owner',
+        in: 'query',
+        required: false,
+        description:
+          'Limit to alerts a CODEOWNERS owner owns (e.g. `@acme/payments`), matched case-insensitively. Omit for all alerts.',
+        schema: { type: 'string' },
+      },
+      tag: {
+        name: 'tag',
+        in: 'query',
+        required: false,
+        description:
+          'Limit to Dependabot alerts annotated with this tag, matched case-insensitively. Omit for all alerts.',
+        schema: { type: 'string' },
+      },
+      assignee: {
+        name: 'assignee',
+        in: 'query',
+        required: false,
+        description:
+          'Limit to Dependabot alerts annotated with this assignee, matched case-insensitively. Omit for all alerts.',
+        schema: { type: 'string' },
+      },
+      alertNumber: {
+        name: 'number',
+        in: 'path',
+        required: true,
+        description: 'Dependabot alert number',
+        schema: { type: 'integer' },
+      },
+      groupId: {
+        name: 'id',
+        in: 'path',
+        required: true,
+        description: 'Group id',
+        schema: { type: 'integer' },
+      },
+    },
+    responses: {
+      GroupNotFound: {
+        description: 'Group not found',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/ErrorResponse' },
+          },
+        },
+      },
     },
     schemas: {
       SeverityCounts: {
@@ -494,43 +2217,294 @@ export const openapiSpec = {
         additionalProperties: { type: 'integer' },
         example: { critical: 2, high: 5, medium: 3, low: 1 },
       },
+      AlertSource: {
+        type: 'string',
+        enum: ['dependabot', 'code_scanning'],
+      },
+      SourceCounts: {
+        type: 'object',
+        description: 'Open alert severity counts keyed by alert source',
+        additionalProperties: { $ref: '#/components/schemas/SeverityCounts' },
+        example: { dependabot: { critical: 1, high: 2 }, code_scanning: { medium: 3 } },
+      },
       GlobalSummary: {
         type: 'object',
         properties: {
           totalRepos: { type: 'integer' },
           totalAlerts: { type: 'integer' },
           severityCounts: { $ref: '#/components/schemas/SeverityCounts' },
+          sourceCounts: { $ref: '#/components/schemas/SourceCounts' },
         },
-        required: ['totalRepos', 'totalAlerts', 'severityCounts'],
+        required: ['totalRepos', 'totalAlerts', 'severityCounts', 'sourceCounts'],
       },
       RepoSummary: {
         type: 'object',
         properties: {
-          repo: { type: 'string', example: 'octocat/hello-world' },
-          lastSync: { type: 'string', format: 'date-time' },
+          repo: {
+            type: 'string',
+            example: 'octocat/hello-world',
+            description: 'Repo key; `host:owner/name` for repos on a non-default host',
+          },
+          host: { type: 'string', example: 'github.com' },
+          lastSync: {
+            type: 'string',
+            format: 'date-time',
+            nullable: true,
+            description: 'Null while every sync so far has failed',
+          },
           severityCounts: { $ref: '#/components/schemas/SeverityCounts' },
           totalAlerts: { type: 'integer' },
+          sourceCounts: { $ref: '#/components/schemas/SourceCounts' },
+          lastError: {
+            allOf: [{ $ref: '#/components/schemas/RepoSyncError' }],
+            nullable: true,
+            description: 'Why the most recent sync failed; null once a sync succeeds',
+          },
+          upstreamState: {
+            type: 'string',
+            enum: ['archived', 'deleted'],
+            nullable: true,
+            description: 'Set when repo discovery found the repo archived or deleted on GitHub',
+          },
+          metadata: {
+            allOf: [{ $ref: '#/components/schemas/RepoMetadata' }],
+            nullable: true,
+            description: 'GitHub repo details from the last listing or refresh; null until first fetched',
+          },
+          groups: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Names of the groups (teams) the repo belongs to',
+          },
+          riskScore: {
+            type: 'number',
+            description: 'Weighted risk of the open Dependabot alerts (see `RiskWeights`)',
+            example: 84.5,
+          },
+        },
+        required: [
+          'repo',
+          'host',
+          'lastSync',
+          'severityCounts',
+          'totalAlerts',
+          'sourceCounts',
+          'lastError',
+          'upstreamState',
+          'metadata',
+          'groups',
+          'riskScore',
+        ],
+      },
+      RepoMetadata: {
+        type: 'object',
+        properties: {
+          topics: { type: 'array', items: { type: 'string' }, example: ['production'] },
+          visibility: { type: 'string', enum: ['public', 'private', 'internal'], nullable: true },
+          archived: { type: 'boolean' },
+          defaultBranch: { type: 'string', nullable: true, example: 'main' },
+          language: { type: 'string', nullable: true, example: 'TypeScript' },
+          updatedAt: { type: 'string', format: 'date-time', description: 'When the metadata was fetched' },
         },
-        required: ['repo', 'lastSync', 'severityCounts', 'totalAlerts'],
+        required: ['topics', 'visibility', 'archived', 'defaultBranch', 'language', 'updatedAt'],
       },
-      Alert: {
+      RepoErrorKind: {
+        type: 'string',
+        enum: ['not_found', 'dependabot_disabled', 'forbidden', 'rate_limited', 'network', 'unknown'],
+      },
+      RepoSyncError: {
+        type: 'object',
+        properties: {
+          kind: { $ref: '#/components/schemas/RepoErrorKind' },
+          message: { type: 'string', example: 'Dependabot alerts are disabled for this repository.' },
+          occurredAt: { type: 'string', format: 'date-time' },
+        },
+        required: ['kind', 'message', 'occurredAt'],
+      },
+      CodeScanningAlert: {
         type: 'object',
         properties: {
+          repo: { type: 'string' },
           alertNumber: { type: 'integer' },
           state: { type: 'string', enum: ['open', 'dismissed', 'fixed'] },
+          severity: { type: 'string', enum: ['critical', 'high', 'medium', 'low', 'unknown'] },
+          ruleId: { type: 'string', nullable: true },
+          ruleDescription: { type: 'string', nullable: true },
+          toolName: { type: 'string', nullable: true, example: 'CodeQL' },
+          path: { type: 'string', nullable: true },
+          createdAt: { type: 'string', format: 'date-time', nullable: true },
+          updatedAt: { type: 'string', format: 'date-time', nullable: true },
+          dismissedAt: { type: 'string', format: 'date-time', nullable: true },
+          fixedAt: { type: 'string', format: 'date-time', nullable: true },
+          htmlUrl: { type: 'string', format: 'uri', nullable: true },
+        },
+        required: ['repo', 'alertNumber', 'state', 'severity'],
+      },
+      Alert: {
+        type: 'object',
+        properties: {
+          alertNumber: { type: 'integer' },
+          state: { $ref: '#/components/schemas/AlertState' },
           severity: { type: 'string', enum: ['critical', 'high', 'medium', 'low'] },
           packageName: { type: 'string', nullable: true },
           ecosystem: { type: 'string', nullable: true },
           ghsaId: { type: 'string', nullable: true },
           cveId: { type: 'string', nullable: true },
+          dismissedAt: { type: 'string', format: 'date-time', nullable: true },
+          dismissedReason: {
+            type: 'string',
+            nullable: true,
+            description:
+              'As GitHub reported it: usually a DismissReason, but newer values pass through',
+          },
+          dismissedComment: { type: 'string', nullable: true },
+          dismissedBy: { type: 'string', nullable: true, description: 'Login of the dismisser' },
+          fixedAt: { type: 'string', format: 'date-time', nullable: true },
           summary: { type: 'string', nullable: true },
           htmlUrl: { type: 'string', format: 'uri', nullable: true },
           cvssScore: { type: 'number', nullable: true },
           patchedVersion: { type: 'string', nullable: true },
+          manifestPath: { type: 'string', nullable: true },
+          owners: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'CODEOWNERS owners of the manifest path; empty when unowned or unresolved',
+          },
+          epssScore: { type: 'number', nullable: true, description: 'EPSS score of the CVE' },
+          epssPercentile: { type: 'number', nullable: true },
+          kev: { type: 'boolean', description: 'CVE is in the CISA KEV catalog' },
+          acceptedUntil: {
+            type: 'string',
+            format: 'date-time',
+            nullable: true,
+            description: 'Expiry of the active risk exception covering the alert, if any',
+          },
+          note: { type: 'string', nullable: true, description: 'Local annotation note' },
+          tags: { type: 'array', items: { type: 'string' }, description: 'Local annotation tags' },
+          assignee: { type: 'string', nullable: true, description: 'Local annotation assignee' },
           firstSeen: { type: 'string', format: 'date-time' },
           lastSeen: { type: 'string', format: 'date-time' },
         },
       },
+      AlertState: {
+        type: 'string',
+        enum: ['open', 'dismissed', 'fixed', 'auto_dismissed'],
+      },
+      DismissReason: {
+        type: 'string',
+        enum: ['fix_started', 'inaccurate', 'no_bandwidth', 'not_used', 'tolerable_risk'],
+      },
+      AlertRef: {
+        type: 'object',
+        properties: {
+          repo: { type: 'string', example: 'octo-org/billing' },
+          alertNumber: { type: 'integer' },
+        },
+        required: ['repo', 'alertNumber'],
+      },
+      AlertStateChangeResult: {
+        type: 'object',
+        properties: {
+          updated: { type: 'array', items: { $ref: '#/components/schemas/AlertRef' } },
+          failed: {
+            type: 'array',
+            items: {
+              allOf: [
+                { $ref: '#/components/schemas/AlertRef' },
+                {
+                  type: 'object',
+                  properties: {
+                    kind: { $ref: '#/components/schemas/RepoErrorKind' },
+                    error: { type: 'string' },
+                  },
+                },
+              ],
+            },
+          },
+        },
+        required: ['updated', 'failed'],
+      },
+      ClosedAlert: {
+        type: 'object',
+        properties: {
+          repo: { type: 'string' },
+          alertNumber: { type: 'integer' },
+          state: { type: 'string', enum: ['dismissed', 'fixed', 'auto_dismissed'] },
+          severity: { type: 'string' },
+          packageName: { type: 'string', nullable: true },
+          ecosystem: { type: 'string', nullable: true },
+          ghsaId: { type: 'string', nullable: true },
+          advisorySummary: { type: 'string', nullable: true },
+          htmlUrl: { type: 'string', format: 'uri', nullable: true },
+          closedAt: {
+            type: 'string',
+            format: 'date-time',
+            nullable: true,
+            description: 'When the alert was fixed or dismissed',
+          },
+          dismissedReason: {
+            type: 'string',
+            nullable: true,
+            description:
+              'As GitHub reported it: usually a DismissReason, but newer values pass through',
+          },
+          dismissedComment: { type: 'string', nullable: true },
+          dismissedBy: { type: 'string', nullable: true, description: 'Login of the dismisser' },
+        },
+        required: ['repo', 'alertNumber', 'state', 'severity', 'closedAt'],
+      },
+      ClosedAlertPage: {
+        type: 'object',
+        properties: {
+          alerts: { type: 'array', items: { $ref: '#/components/schemas/ClosedAlert' } },
+          total: { type: 'integer' },
+          limit: { type: 'integer' },
+          offset: { type: 'integer' },
+        },
+        required: ['alerts', 'total', 'limit', 'offset'],
+      },
+      DismissalAnalytics: {
+        type: 'object',
+        properties: {
+          reasons: {
+            type: 'array',
+            description: 'Dismissed alerts per reason, most used first; `unknown` when none was given',
+            items: {
+              type: 'object',
+              properties: { reason: { type: 'string' }, count: { type: 'integer' } },
+            },
+          },
+          groups: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                groupId: {
+                  type: 'integer',
+                  nullable: true,
+                  description: 'Null for the `Unassigned` row',
+                },
+                name: { type: 'string' },
+                fixed: { type: 'integer' },
+                dismissed: { type: 'integer' },
+                reasons: {
+                  type: 'object',
+                  additionalProperties: { type: 'integer' },
+                  description: 'Dismissed alerts per reason',
+                },
+              },
+            },
+          },
+          dismissers: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { login: { type: 'string' }, dismissed: { type: 'integer' } },
+            },
+          },
+        },
+        required: ['reasons', 'groups', 'dismissers'],
+      },
       RepoAlerts: {
         type: 'object',
         properties: {
@@ -552,6 +2526,11 @@ export const openapiSpec = {
       MttrMetric: {
         type: 'object',
         properties: {
+          period: {
+            type: 'string',
+            format: 'date',
+            description: 'First day of the resolution bucket; only set when `bucket` is given',
+          },
           repo: { type: 'string' },
           severity: { type: 'string' },
           avgDays: { type: 'number' },
@@ -559,6 +2538,57 @@ export const openapiSpec = {
         },
         required: ['repo', 'severity', 'avgDays', 'resolvedCount'],
       },
+      MttrStats: {
+        type: 'object',
+        description: 'Remediation times in days; the figures are null when nothing was resolved',
+        properties: {
+          resolvedCount: { type: 'integer' },
+          meanDays: { type: 'number', nullable: true },
+          medianDays: { type: 'number', nullable: true },
+          p75Days: { type: 'number', nullable: true },
+          p90Days: { type: 'number', nullable: true },
+        },
+        required: ['resolvedCount', 'meanDays', 'medianDays', 'p75Days', 'p90Days'],
+      },
+      MttrDistribution: {
+        type: 'object',
+        properties: {
+          severities: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                severity: { type: 'string' },
+                all: { $ref: '#/components/schemas/MttrStats' },
+                fixed: { $ref: '#/components/schemas/MttrStats' },
+                dismissed: { $ref: '#/components/schemas/MttrStats' },
+              },
+              required: ['severity', 'all', 'fixed', 'dismissed'],
+            },
+          },
+          periods: {
+            type: 'array',
+            items: {
+              allOf: [
+                { $ref: '#/components/schemas/MttrStats' },
+                {
+                  type: 'object',
+                  properties: {
+                    period: {
+                      type: 'string',
+                      format: 'date',
+                      description: 'First day of the resolution period',
+                    },
+                    severity: { type: 'string' },
+                  },
+                  required: ['period', 'severity'],
+                },
+              ],
+            },
+          },
+        },
+        required: ['severities', 'periods'],
+      },
       AlertTimelineEntry: {
         type: 'object',
         properties: {
@@ -573,16 +2603,64 @@ export const openapiSpec = {
         type: 'object',
         properties: {
           repo: { type: 'string' },
+          source: { $ref: '#/components/schemas/AlertSource' },
           alertNumber: { type: 'integer' },
           severity: { type: 'string' },
-          packageName: { type: 'string', nullable: true },
+          packageName: { type: 'string', nullable: true, description: 'Set for Dependabot alerts' },
+          ruleId: { type: 'string', nullable: true, description: 'Set for code scanning alerts' },
           htmlUrl: { type: 'string', format: 'uri', nullable: true },
           firstSeen: { type: 'string', format: 'date-time' },
           openDays: { type: 'integer' },
           slaLimitDays: { type: 'integer' },
           overdue: { type: 'boolean' },
         },
-        required: ['repo', 'alertNumber', 'severity', 'firstSeen', 'openDays', 'slaLimitDays', 'overdue'],
+        required: ['repo', 'source', 'alertNumber', 'severity', 'firstSeen', 'openDays', 'slaLimitDays', 'overdue'],
+      },
+      SecretScanningAlert: {
+        type: 'object',
+        properties: {
+          repo: { type: 'string' },
+          alertNumber: { type: 'integer' },
+          state: { type: 'string', enum: ['open', 'resolved'] },
+          secretType: { type: 'string', example: 'github_personal_access_token' },
+          secretTypeDisplayName: { type: 'string', nullable: true },
+          validity: { type: 'string', nullable: true, enum: ['active', 'inactive', 'unknown', null] },
+          pushProtectionBypassed: { type: 'boolean' },
+          pushProtectionBypassedBy: { type: 'string', nullable: true },
+          pushProtectionBypassedAt: { type: 'string', format: 'date-time', nullable: true },
+          resolution: { type: 'string', nullable: true, example: 'revoked' },
+          resolvedAt: { type: 'string', format: 'date-time', nullable: true },
+          resolvedBy: { type: 'string', nullable: true },
+          createdAt: { type: 'string', format: 'date-time', nullable: true },
+          updatedAt: { type: 'string', format: 'date-time', nullable: true },
+          htmlUrl: { type: 'string', format: 'uri', nullable: true },
+        },
+        required: ['repo', 'alertNumber', 'state', 'secretType', 'pushProtectionBypassed'],
+      },
+      SecretMttrMetric: {
+        type: 'object',
+        properties: {
+          repo: { type: 'string' },
+          avgDays: { type: 'number' },
+          resolvedCount: { type: 'integer' },
+        },
+        required: ['repo', 'avgDays', 'resolvedCount'],
+      },
+      SecretSlaViolation: {
+        type: 'object',
+        properties: {
+          repo: { type: 'string' },
+          alertNumber: { type: 'integer' },
+          secretType: { type: 'string' },
+          secretTypeDisplayName: { type: 'string', nullable: true },
+          validity: { type: 'string', nullable: true },
+          htmlUrl: { type: 'string', format: 'uri', nullable: true },
+          firstSeen: { type: 'string', format: 'date-time' },
+          openDays: { type: 'number' },
+          slaLimitDays: { type: 'integer' },
+          overdue: { type: 'boolean' },
+        },
+        required: ['repo', 'alertNumber', 'secretType', 'firstSeen', 'openDays', 'slaLimitDays', 'overdue'],
       },
       VulnerabilityGroup: {
         type: 'object',
@@ -592,12 +2670,15 @@ export const openapiSpec = {
           severity: { type: 'string' },
           summary: { type: 'string', nullable: true },
           cvssScore: { type: 'number', nullable: true },
+          epssScore: { type: 'number', nullable: true },
+          epssPercentile: { type: 'number', nullable: true },
+          kev: { type: 'boolean' },
           patchedVersion: { type: 'string', nullable: true },
           affectedRepos: { type: 'integer' },
           totalAlerts: { type: 'integer' },
           repos: { type: 'array', items: { type: 'string' } },
         },
-        required: ['ghsaId', 'severity', 'affectedRepos', 'totalAlerts', 'repos'],
+        required: ['ghsaId', 'severity', 'kev', 'affectedRepos', 'totalAlerts', 'repos'],
       },
       DependencyGroup: {
         type: 'object',
@@ -646,6 +2727,8 @@ export const openapiSpec = {
           ghsaIds: { type: 'array', items: { type: 'string' } },
           cveIds: { type: 'array', items: { type: 'string' } },
           maxCvssScore: { type: 'number', nullable: true },
+          maxEpssPercentile: { type: 'number', nullable: true },
+          kevAlerts: { type: 'integer', description: 'Alerts whose CVE is in the CISA KEV catalog' },
           patchedVersion: { type: 'string', nullable: true },
           hasFix: { type: 'boolean' },
           affectedRepos: { type: 'integer', description: 'Only present in cross-repo responses' },
@@ -660,7 +2743,7 @@ export const openapiSpec = {
           repo: { type: 'string', description: '"all" for cross-repo, or "owner/name" for single repo' },
           totalActions: { type: 'integer' },
           totalAlerts: { type: 'integer' },
-          actions: { type: 'array', items: { $ref: '#/components/schemas/FixAction' }, description: 'Fixable groups sorted by severity' },
+          actions: { type: 'array', items: { $ref: '#/components/schemas/FixAction' }, description: 'Fixable groups, known exploited first, then by severity and EPSS percentile' },
           noFixAvailable: { type: 'array', items: { $ref: '#/components/schemas/FixAction' }, description: 'Groups with no patched version available' },
         },
         required: ['repo', 'totalActions', 'totalAlerts', 'actions', 'noFixAvailable'],
@@ -668,18 +2751,111 @@ export const openapiSpec = {
       SchedulerStatus: {
         type: 'object',
         properties: {
-          enabled: { type: 'boolean' },
-          intervalHours: { type: 'number', nullable: true },
+          running: { type: 'boolean' },
+          cronExpression: { type: 'string', example: '0 6 * * *' },
           lastRun: { type: 'string', format: 'date-time', nullable: true },
+          lastResult: {
+            type: 'object',
+            nullable: true,
+            properties: {
+              refreshed: { type: 'integer' },
+              unchanged: { type: 'integer', description: 'Repos whose alert listings were not modified' },
+              failed: { type: 'integer' },
+              total: { type: 'integer' },
+            },
+          },
           nextRun: { type: 'string', format: 'date-time', nullable: true },
+          rateLimit: { $ref: '#/components/schemas/RateLimitStatus' },
+          rateLimits: {
+            type: 'object',
+            description: 'Quota per configured host; `rateLimit` is the default host entry',
+            additionalProperties: { $ref: '#/components/schemas/RateLimitStatus' },
+          },
+        },
+        required: ['running', 'cronExpression'],
+      },
+      SyncTrigger: {
+        type: 'string',
+        enum: ['cron', 'manual', 'api'],
+      },
+      SyncRun: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          triggeredBy: { $ref: '#/components/schemas/SyncTrigger' },
+          status: { type: 'string', enum: ['running', 'completed', 'failed', 'interrupted'] },
+          startedAt: { type: 'string', format: 'date-time' },
+          finishedAt: { type: 'string', format: 'date-time', nullable: true },
+          total: { type: 'integer' },
+          refreshed: { type: 'integer' },
+          unchanged: { type: 'integer' },
+          failed: { type: 'integer' },
+          error: { type: 'string', nullable: true },
+        },
+        required: ['id', 'triggeredBy', 'status', 'startedAt', 'total', 'refreshed', 'unchanged', 'failed'],
+      },
+      SyncRunRepo: {
+        type: 'object',
+        properties: {
+          runId: { type: 'integer' },
+          triggeredBy: { $ref: '#/components/schemas/SyncTrigger' },
+          repo: { type: 'string' },
+          outcome: { type: 'string', enum: ['updated', 'unchanged', 'failed'] },
+          error: { type: 'string', nullable: true },
+          startedAt: { type: 'string', format: 'date-time' },
+          finishedAt: { type: 'string', format: 'date-time' },
+          openBefore: { type: 'integer' },
+          openAfter: { type: 'integer' },
+          alertDelta: {
+            type: 'integer',
+            description: 'Change in open Dependabot, code scanning and secret scanning alerts',
+          },
+        },
+        required: ['runId', 'repo', 'outcome', 'startedAt', 'finishedAt', 'openBefore', 'openAfter', 'alertDelta'],
+      },
+      SyncRunDetail: {
+        allOf: [
+          { $ref: '#/components/schemas/SyncRun' },
+          {
+            type: 'object',
+            properties: {
+              repos: { type: 'array', items: { $ref: '#/components/schemas/SyncRunRepo' } },
+            },
+            required: ['repos'],
+          },
+        ],
+      },
+      SyncRunPage: {
+        type: 'object',
+        properties: {
+          runs: { type: 'array', items: { $ref: '#/components/schemas/SyncRun' } },
+          total: { type: 'integer' },
+          limit: { type: 'integer' },
+          offset: { type: 'integer' },
+        },
+        required: ['runs', 'total', 'limit', 'offset'],
+      },
+      RateLimitStatus: {
+        type: 'object',
+        nullable: true,
+        description:
+          'GitHub API quota from the latest response headers. A GitHub App has one quota per installation; this is the most constrained one.',
+        properties: {
+          resource: { type: 'string', nullable: true, example: 'core' },
+          limit: { type: 'integer', nullable: true, example: 5000 },
+          remaining: { type: 'integer', nullable: true, example: 4312 },
+          used: { type: 'integer', nullable: true },
+          resetAt: { type: 'string', format: 'date-time', nullable: true },
+          throttledUntil: { type: 'string', format: 'date-time', nullable: true, description: 'Set while requests are paused after a rate limit response' },
+          retries: { type: 'integer', description: 'Rate-limited requests retried since startup' },
+          updatedAt: { type: 'string', format: 'date-time', nullable: true },
         },
-        required: ['enabled'],
       },
       SetupStatus: {
         type: 'object',
         properties: {
           isEmpty: { type: 'boolean', description: 'True when no repositories have been tracked yet' },
-          hasTargets: { type: 'boolean', description: 'True when GH_MONIT_USER or GH_MONIT_ORG is set' },
+          hasTargets: { type: 'boolean', description: 'True when at least one watch target is configured' },
         },
         required: ['isEmpty', 'hasTargets'],
       },
@@ -736,6 +2912,434 @@ export const openapiSpec = {
         },
         required: ['error'],
       },
+      WatchTarget: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          host: { type: 'string', example: 'github.com' },
+          type: { type: 'string', enum: ['user', 'org'] },
+          name: { type: 'string', example: 'octo-org' },
+          includeForks: { type: 'boolean' },
+          includeArchived: { type: 'boolean' },
+          namePattern: {
+            type: 'string',
+            nullable: true,
+            example: 'api-*',
+            description: 'Glob matched against repo names (`*`, `?`); null matches all',
+          },
+          createdAt: { type: 'string', format: 'date-time' },
+          lastCheckedAt: { type: 'string', format: 'date-time', nullable: true },
+          lastError: { type: 'string', nullable: true },
+        },
+        required: [
+          'id',
+          'host',
+          'type',
+          'name',
+          'includeForks',
+          'includeArchived',
+          'namePattern',
+          'createdAt',
+          'lastCheckedAt',
+          'lastError',
+        ],
+      },
+      WatchTargetInput: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['user', 'org'] },
+          name: { type: 'string', example: 'octo-org' },
+          host: { type: 'string', default: 'github.com' },
+          includeForks: { type: 'boolean', default: false },
+          includeArchived: { type: 'boolean', default: false },
+          namePattern: { type: 'string', nullable: true, example: 'api-*' },
+        },
+        required: ['type', 'name'],
+      },
+      DiscoveryResponse: {
+        type: 'object',
+        properties: {
+          added: { type: 'array', items: { type: 'string' }, description: 'Newly enrolled repos' },
+          archived: { type: 'array', items: { type: 'string' } },
+          deleted: { type: 'array', items: { type: 'string' } },
+          restored: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Previously flagged repos that are active again',
+          },
+          failedTargets: { type: 'integer' },
+          runId: {
+            type: 'integer',
+            nullable: true,
+            description: 'Sync run that synced the new repos; null when none were found',
+          },
+        },
+        required: ['added', 'archived', 'deleted', 'restored', 'failedTargets', 'runId'],
+      },
+      RepoErrorResponse: {
+        type: 'object',
+        properties: {
+          error: { type: 'string', example: 'Dependabot alerts are disabled for this repository.' },
+          kind: { $ref: '#/components/schemas/RepoErrorKind' },
+        },
+        required: ['error', 'kind'],
+      },
+      RepoGroup: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          name: { type: 'string', example: 'octo-org/payments' },
+          description: { type: 'string', nullable: true },
+          source: {
+            type: 'string',
+            enum: ['manual', 'github_team'],
+            description: '`github_team` for groups imported from GitHub teams',
+          },
+          repos: { type: 'array', items: { type: 'string' }, description: 'Repo keys in the group' },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+        required: ['id', 'name', 'description', 'source', 'repos', 'createdAt'],
+      },
+      RepoGroupInput: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', example: 'Payments' },
+          description: { type: 'string', nullable: true },
+          repos: { type: 'array', items: { type: 'string' }, example: ['octo-org/billing'] },
+        },
+        required: ['name'],
+      },
+      GroupRollup: {
+        type: 'object',
+        properties: {
+          groupId: {
+            type: 'integer',
+            nullable: true,
+            description: 'Null for the `Unassigned` row',
+          },
+          name: { type: 'string' },
+          repoCount: { type: 'integer', description: 'Tracked repos in the group' },
+          totalAlerts: { type: 'integer' },
+          severityCounts: { $ref: '#/components/schemas/SeverityCounts' },
+          overdue: { type: 'integer', description: 'Open alerts past their SLA limit' },
+          avgMttrDays: {
+            type: 'number',
+            nullable: true,
+            description: 'Mean days to remediate, weighted by resolved alerts',
+          },
+        },
+        required: ['groupId', 'name', 'repoCount', 'totalAlerts', 'severityCounts', 'overdue', 'avgMttrDays'],
+      },
+      SlaLimits: {
+        type: 'object',
+        description: 'Days an open alert of each severity may stay open',
+        properties: {
+          critical: { type: 'number', example: 1 },
+          high: { type: 'number', example: 5 },
+          medium: { type: 'number', example: 20 },
+          low: { type: 'number', example: 60 },
+        },
+        required: ['critical', 'high', 'medium', 'low'],
+      },
+      SlaOverride: {
+        type: 'object',
+        properties: {
+          scope: { type: 'string', enum: ['group', 'repo'] },
+          groupId: { type: 'integer', description: 'Set when `scope` is `group`' },
+          repo: { type: 'string', description: 'Repo key, set when `scope` is `repo`' },
+          limits: {
+            type: 'object',
+            description: 'Severities to override; omitted ones are inherited',
+            properties: {
+              critical: { type: 'number' },
+              high: { type: 'number' },
+              medium: { type: 'number' },
+              low: { type: 'number' },
+            },
+          },
+        },
+        required: ['scope', 'limits'],
+      },
+      SlaPolicy: {
+        type: 'object',
+        properties: {
+          defaults: { $ref: '#/components/schemas/SlaLimits' },
+          overrides: { type: 'array', items: { $ref: '#/components/schemas/SlaOverride' } },
+        },
+        required: ['defaults', 'overrides'],
+      },
+      RiskWeights: {
+        type: 'object',
+        description:
+          'Each open Dependabot alert scores `severity[sev] × (1 + cvss × score / 10) × (1 + epss × EPSS percentile)`, times `kev` when its CVE is in the CISA KEV catalog, times `developmentScope` for development-only dependencies, times `overdue` past its SLA limit, times `1 + agePerYear × years open`.',
+        properties: {
+          severity: {
+            type: 'object',
+            properties: {
+              critical: { type: 'number', minimum: 0 },
+              high: { type: 'number', minimum: 0 },
+              medium: { type: 'number', minimum: 0 },
+              low: { type: 'number', minimum: 0 },
+            },
+            required: ['critical', 'high', 'medium', 'low'],
+          },
+          cvss: { type: 'number', minimum: 0 },
+          epss: { type: 'number', minimum: 0 },
+          kev: { type: 'number', minimum: 1 },
+          developmentScope: { type: 'number', minimum: 0 },
+          overdue: { type: 'number', minimum: 1 },
+          agePerYear: { type: 'number', minimum: 0 },
+        },
+        required: ['severity', 'cvss', 'epss', 'kev', 'developmentScope', 'overdue', 'agePerYear'],
+      },
+      RepoRisk: {
+        type: 'object',
+        properties: {
+          repo: { type: 'string' },
+          riskScore: { type: 'number' },
+          openAlerts: { type: 'integer' },
+          runtimeAlerts: {
+            type: 'integer',
+            description: 'Open alerts on runtime (non-development) dependencies',
+          },
+          overdueAlerts: { type: 'integer' },
+          kevAlerts: { type: 'integer', description: 'Open alerts whose CVE is in the CISA KEV catalog' },
+          maxCvss: { type: 'number', nullable: true },
+        },
+        required: [
+          'repo',
+          'riskScore',
+          'openAlerts',
+          'runtimeAlerts',
+          'overdueAlerts',
+          'kevAlerts',
+          'maxCvss',
+        ],
+      },
+      RiskExceptionInput: {
+        type: 'object',
+        properties: {
+          scope: {
+            type: 'string',
+            enum: ['alert', 'advisory', 'package', 'repo'],
+            description:
+              '`alert` needs repo and alertNumber, `advisory` a ghsaId, `package` a packageName and `repo` a repo. Advisory and package exceptions apply to every repo unless repo is set.',
+          },
+          repo: { type: 'string', nullable: true, example: 'octo-org/billing' },
+          alertNumber: { type: 'integer', nullable: true },
+          ghsaId: { type: 'string', nullable: true },
+          packageName: { type: 'string', nullable: true },
+          ecosystem: { type: 'string', nullable: true, description: 'Narrows a package exception' },
+          justification: { type: 'string' },
+          approver: { type: 'string' },
+          expiresAt: { type: 'string', example: '2026-12-31' },
+        },
+        required: ['scope', 'justification', 'approver', 'expiresAt'],
+      },
+      RiskExceptionUpdate: {
+        type: 'object',
+        properties: {
+          actor: { type: 'string', description: 'Who made the change, for the audit trail' },
+          justification: { type: 'string' },
+          approver: { type: 'string' },
+          expiresAt: { type: 'string' },
+        },
+        required: ['actor'],
+      },
+      AlertAnnotationInput: {
+        type: 'object',
+        properties: {
+          note: { type: 'string', nullable: true, maxLength: 2000, example: 'Waiting on upstream' },
+          tags: {
+            type: 'array',
+            maxItems: 20,
+            items: { type: 'string', maxLength: 50 },
+            example: ['SEC-123', 'upstream'],
+          },
+          assignee: { type: 'string', nullable: true, example: 'Alice' },
+        },
+      },
+      AlertAnnotation: {
+        type: 'object',
+        properties: {
+          repo: { type: 'string' },
+          alertNumber: { type: 'integer' },
+          note: { type: 'string', nullable: true },
+          tags: { type: 'array', items: { type: 'string' } },
+          assignee: { type: 'string', nullable: true },
+          updatedAt: { type: 'string', format: 'date-time' },
+        },
+        required: ['repo', 'alertNumber', 'note', 'tags', 'assignee', 'updatedAt'],
+      },
+      RiskExceptionEvent: {
+        type: 'object',
+        properties: {
+          action: { type: 'string', enum: ['created', 'updated', 'revoked'] },
+          actor: { type: 'string' },
+          note: {
+            type: 'string',
+            nullable: true,
+            description: 'Justification, changed fields or revocation reason',
+          },
+          recordedAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      AcceptedAlert: {
+        type: 'object',
+        properties: {
+          repo: { type: 'string' },
+          alertNumber: { type: 'integer' },
+          severity: { type: 'string', enum: ['critical', 'high', 'medium', 'low'] },
+          packageName: { type: 'string', nullable: true },
+          ghsaId: { type: 'string', nullable: true },
+          htmlUrl: { type: 'string', format: 'uri', nullable: true },
+        },
+      },
+      RiskException: {
+        allOf: [
+          { $ref: '#/components/schemas/RiskExceptionInput' },
+          {
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              status: { type: 'string', enum: ['active', 'expired', 'revoked'] },
+              expiresAt: { type: 'string', format: 'date-time' },
+              createdAt: { type: 'string', format: 'date-time' },
+              revokedAt: { type: 'string', format: 'date-time', nullable: true },
+              alerts: {
+                type: 'array',
+                items: { $ref: '#/components/schemas/AcceptedAlert' },
+                description: 'Open alerts covered; empty unless active',
+              },
+              events: {
+                type: 'array',
+                items: { $ref: '#/components/schemas/RiskExceptionEvent' },
+                description: 'Audit trail, oldest first',
+              },
+            },
+          },
+        ],
+      },
+      ThreatDatasetStatus: {
+        type: 'object',
+        properties: {
+          dataset: { type: 'string', enum: ['epss', 'kev'] },
+          source: { type: 'string', description: 'URL or file path the data was read from' },
+          importedAt: { type: 'string', format: 'date-time' },
+          recordCount: { type: 'integer' },
+          publishedAt: {
+            type: 'string',
+            nullable: true,
+            description: 'EPSS score date or KEV catalog release date',
+          },
+        },
+        required: ['dataset', 'source', 'importedAt', 'recordCount', 'publishedAt'],
+      },
+      NotificationChannelInput: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['slack', 'teams', 'webhook', 'email'] },
+          name: { type: 'string', example: 'Security channel' },
+          target: {
+            type: 'string',
+            description: 'Incoming webhook URL, or comma-separated recipient addresses for `email`',
+          },
+          minSeverity: {
+            type: 'string',
+            enum: ['critical', 'high', 'medium', 'low'],
+            default: 'high',
+            description: 'Lowest severity notified',
+          },
+          events: {
+            type: 'array',
+            items: { type: 'string', enum: ['new', 'reopened', 'sla_breached'] },
+            description: 'Event kinds notified; all by default',
+          },
+          enabled: { type: 'boolean', default: true },
+        },
+        required: ['type', 'name', 'target'],
+      },
+      NotificationChannel: {
+        allOf: [
+          { $ref: '#/components/schemas/NotificationChannelInput' },
+          {
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              createdAt: {
+                type: 'string',
+                format: 'date-time',
+                description: 'Events before this time are never sent',
+              },
+              lastSentAt: { type: 'string', format: 'date-time', nullable: true },
+              lastError: {
+                type: 'string',
+                nullable: true,
+                description: 'Why the last delivery failed; cleared by the next successful one',
+              },
+            },
+            required: ['id', 'createdAt', 'lastSentAt', 'lastError'],
+          },
+        ],
+      },
+      SlaComplianceStat: {
+        type: 'object',
+        properties: {
+          severity: { type: 'string', enum: ['critical', 'high', 'medium', 'low'] },
+          resolved: { type: 'integer', description: 'Alerts fixed or dismissed in the period' },
+          withinSla: { type: 'integer' },
+          late: { type: 'integer' },
+          attainmentRate: {
+            type: 'number',
+            nullable: true,
+            description: '`withinSla / resolved`; null when nothing was resolved',
+            example: 0.92,
+          },
+          breachDays: { type: 'number', description: 'Days alerts spent past their limit within the period' },
+          openOverdue: { type: 'integer', description: 'Alerts open past their limit at the end of the period' },
+        },
+        required: ['severity', 'resolved', 'withinSla', 'late', 'attainmentRate', 'breachDays', 'openOverdue'],
+      },
+      LateResolvedAlert: {
+        type: 'object',
+        properties: {
+          repo: { type: 'string' },
+          source: { $ref: '#/components/schemas/AlertSource' },
+          alertNumber: { type: 'integer' },
+          severity: { type: 'string' },
+          openedAt: { type: 'string', format: 'date-time' },
+          resolvedAt: { type: 'string', format: 'date-time' },
+          slaLimitDays: { type: 'number' },
+          daysLate: { type: 'number' },
+        },
+        required: ['repo', 'source', 'alertNumber', 'severity', 'openedAt', 'resolvedAt', 'slaLimitDays', 'daysLate'],
+      },
+      SlaComplianceReport: {
+        type: 'object',
+        properties: {
+          from: { type: 'string', format: 'date' },
+          to: { type: 'string', format: 'date' },
+          totals: { type: 'array', items: { $ref: '#/components/schemas/SlaComplianceStat' } },
+          periods: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                period: { type: 'string', example: '2025-Q1' },
+                from: { type: 'string', format: 'date' },
+                to: { type: 'string', format: 'date' },
+                severities: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/SlaComplianceStat' },
+                },
+              },
+              required: ['period', 'from', 'to', 'severities'],
+            },
+          },
+          lateResolved: { type: 'array', items: { $ref: '#/components/schemas/LateResolvedAlert' } },
+        },
+        required: ['from', 'to', 'totals', 'periods', 'lateResolved'],
+      },
     },
   },
 };
@@ -0,0 +1,205 @@
+import chalk from 'chalk';
+import type { Octokit } from '@octokit/rest';
+import type { RateLimitStatus } from '../types.js';
+
+export type RateLimiterOptions = {
+  /** Retries per request after a rate limit response. */
+  maxRetries?: number;
+  /** Below this many remaining requests, calls are spread out until reset. */
+  lowWatermark?: number;
+  /** Base delay for exponential backoff when GitHub gives no hint. */
+  baseDelayMs?: number;
+  /** Upper bound for any single wait. */
+  maxDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+  now?: () => number;
+  /**
+   * Names the quota a request counts against, for clients whose requests
+   * draw on separate limits (one per GitHub App installation). Each quota is
+   * tracked and paced on its own; by default all requests share one.
+   */
+  quotaKey?: (request: QuotaRequest) => string;
+};
+
+/** The request options a `quotaKey` is given. */
+export type QuotaRequest = {
+  url: string;
+  request?: { installationAccount?: string };
+  [key: string]: unknown;
+};
+
+type Headers = Record<string, string | number | undefined>;
+
+type RequestErrorLike = {
+  status?: number;
+  message?: string;
+  response?: { headers?: Headers };
+};
+
+const DEFAULTS = {
+  maxRetries: 3,
+  lowWatermark: 100,
+  baseDelayMs: 1000,
+  maxDelayMs: 60 * 60 * 1000,
+};
+
+type Quota = {
+  status: RateLimitStatus;
+  /** When the next paced request may go out. */
+  nextSlotAt: number;
+};
+
+const limiters = new WeakMap<Octokit, Map<string, Quota>>();
+
+/**
+ * Installs a request hook on `octokit` that tracks the x-ratelimit-* headers
+ * of every response, paces requests once the remaining budget runs low,
+ * and retries 403/429 rate limit responses after `retry-after`, the reset
+ * time, or an exponential backoff with jitter.
+ */
+export function installRateLimiter(octokit: Octokit, options: RateLimiterOptions = {}): void {
+  const maxRetries = options.maxRetries ?? DEFAULTS.maxRetries;
+  const lowWatermark = options.lowWatermark ?? DEFAULTS.lowWatermark;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULTS.baseDelayMs;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULTS.maxDelayMs;
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>((r) => setTimeout(r, ms)));
+  const random = options.random ?? Math.random;
+  const now = options.now ?? Date.now;
+  const quotaKey = options.quotaKey ?? (() => 'default');
+
+  const quotas = new Map<string, Quota>();
+  limiters.set(octokit, quotas);
+
+  const quotaFor = (request: QuotaRequest): Quota => {
+    const key = quotaKey(request);
+    let quota = quotas.get(key);
+    if (!quota) {
+      quota = { status: emptyStatus(), nextSlotAt: 0 };
+      quotas.set(key, quota);
+    }
+    return quota;
+  };
+
+  const record = ({ status }: Quota, headers: Headers | undefined) => {
+    const remaining = toNumber(headers?.['x-ratelimit-remaining']);
+    if (remaining === null) return;
+    const reset = toNumber(headers?.['x-ratelimit-reset']);
+    status.resource = headers?.['x-ratelimit-resource']?.toString() ?? status.resource;
+    status.limit = toNumber(headers?.['x-ratelimit-limit']);
+    status.remaining = remaining;
+    status.used = toNumber(headers?.['x-ratelimit-used']);
+    status.resetAt = reset !== null ? new Date(reset * 1000).toISOString() : null;
+    status.updatedAt = new Date(now()).toISOString();
+  };
+
+  /** Delay before the next request: honor a pause, then pace a low budget. */
+  const paceDelay = (quota: Quota): number => {
+    const { status } = quota;
+    const t = now();
+    if (status.throttledUntil) {
+      const until = Date.parse(status.throttledUntil);
+      if (until > t) return until - t;
+      status.throttledUntil = null;
+    }
+    if (status.remaining === null || status.resetAt === null) return 0;
+    if (status.remaining > lowWatermark) return 0;
+
+    const untilReset = Date.parse(status.resetAt) - t;
+    if (untilReset <= 0) return 0;
+
+    // Reserve the next free slot so concurrent callers queue up behind each
+    // other instead of all waiting one interval and firing together
+    const interval = Math.ceil(untilReset / (status.remaining + 1));
+    quota.nextSlotAt = Math.max(t, quota.nextSlotAt) + interval;
+    return Math.min(maxDelayMs, quota.nextSlotAt - t);
+  };
+
+  /** Wait after a rate limit response, or null if it was a plain 403. */
+  const backoffDelay = (error: RequestErrorLike, attempt: number): number | null => {
+    const headers = error.response?.headers;
+    const retryAfter = toNumber(headers?.['retry-after']);
+    const remaining = toNumber(headers?.['x-ratelimit-remaining']);
+    const reset = toNumber(headers?.['x-ratelimit-reset']);
+    const isSecondary = /secondary rate limit/i.test(error.message ?? '');
+
+    if (error.status !== 429 && retryAfter === null && remaining !== 0 && !isSecondary) {
+      return null;
+    }
+
+    const jitter = random() * baseDelayMs;
+    if (retryAfter !== null) return retryAfter * 1000 + jitter;
+    if (remaining === 0 && reset !== null) return Math.max(0, reset * 1000 - now()) + jitter;
+    return baseDelayMs * 2 ** attempt + jitter;
+  };
+
+  octokit.hook.wrap('request', async (request, requestOptions) => {
+    const quota = quotaFor(requestOptions as QuotaRequest);
+    for (let attempt = 0; ; attempt++) {
+      const wait = paceDelay(quota);
+      if (wait > 0) await sleep(wait);
+
+      try {
+        const response = await request(requestOptions);
+        record(quota, response.headers as Headers);
+        return response;
+      } catch (error) {
+        const err = error as RequestErrorLike;
+        record(quota, err.response?.headers);
+
+        const isRateLimitStatus = err.status === 403 || err.status === 429;
+        const delay = isRateLimitStatus ? backoffDelay(err, attempt) : null;
+        if (delay === null || attempt >= maxRetries) throw error;
+
+        const capped = Math.min(delay, maxDelayMs);
+        quota.status.retries += 1;
+        quota.status.throttledUntil = new Date(now() + capped).toISOString();
+        console.error(
+          chalk.yellow(
+            `GitHub rate limit hit — retrying in ${Math.ceil(capped / 1000)}s (attempt ${attempt + 1}/${maxRetries}).`
+          )
+        );
+      }
+    }
+  });
+}
+
+/**
+ * Returns a snapshot of the quota tracked for `octokit`, or null if no
+ * limiter is installed. With several quotas (see `quotaKey`), this is the
+ * most constrained one: a paused quota first, else the fewest remaining.
+ */
+export function getRateLimitStatus(octokit: Octokit): RateLimitStatus | null {
+  const quotas = limiters.get(octokit);
+  if (!quotas) return null;
+  let tightest: RateLimitStatus | null = null;
+  for (const { status } of quotas.values()) {
+    if (!tightest || constraint(status) < constraint(tightest)) tightest = status;
+  }
+  return { ...(tightest ?? emptyStatus()) };
+}
+
+/** Sorts a paused quota before any other, then by remaining requests (unknown last). */
+function constraint(status: RateLimitStatus): number {
+  if (status.throttledUntil && Date.parse(status.throttledUntil) > Date.now()) return -1;
+  return status.remaining ?? Infinity;
+}
+
+function emptyStatus(): RateLimitStatus {
+  return {
+    resource: null,
+    limit: null,
+    remaining: null,
+    used: null,
+    resetAt: null,
+    throttledUntil: null,
+    retries: 0,
+    updatedAt: null,
+  };
+}
+
+function toNumber(value: string | number | undefined): number | null {
+  if (value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
@@ -3,16 +3,82 @@ import { CronExpressionParser } from 'cron-parser';
 import type Database from 'better-sqlite3';
 import type { Octokit } from '@octokit/rest';
 import chalk from 'chalk';
-import { getAllRepoSummaries, saveAlerts, saveDependencyChains } from './db.js';
-import { normalizeAlerts } from './alerts.js';
-import { fetchDependabotAlerts } from './github.js';
+import {
+  clearDeletedUpstreamState,
+  clearRepoSyncError,
+  countOpenAlerts,
+  finishSyncRun,
+  getAllRepoSummaries,
+  getCacheValidators,
+  getLatestSyncRun,
+  markInterruptedSyncRuns,
+  recordRepoSyncError,
+  recordSyncRunRepo,
+  startSyncRun,
+  resolveAlertOwners,
+  saveAlerts,
+  saveCacheValidators,
+  saveCodeowners,
+  saveCodeScanningAlerts,
+  saveDependencyChains,
+  saveRepoMetadata,
+  saveSecretScanningAlerts,
+  touchRepoSync,
+} from './db.js';
+import {
+  normalizeAlerts,
+  normalizeCodeScanningAlerts,
+  normalizeSecretScanningAlerts,
+} from './alerts.js';
+import { fetchCodeowners } from './codeowners.js';
+import { discoverRepos } from './discovery.js';
+import { dispatchNotifications } from './notifications.js';
+import {
+  fetchCodeScanningAlerts,
+  fetchDependabotAlerts,
+  fetchRepoMetadata,
+  fetchSecretScanningAlerts,
+  toGitHubApiError,
+} from './github.js';
+import { parseRepoKey } from './hosts.js';
+import type { GitHubClients } from './hosts.js';
 import { fetchLockFile, fetchPackageJson, resolveAllChains } from './lockfile.js';
+import type {
+  ConditionalFetchResult,
+  DiscoveryResult,
+  RepoRef,
+  RepoSyncError,
+  SyncTrigger,
+} from '../types.js';
 
+export const DEFAULT_REFRESH_CONCURRENCY = 4;
+
+/** Lock-file resolution is secondary, so it runs with fewer workers. */
+const CHAIN_CONCURRENCY = 2;
+
+/**
+ * Outcome of syncing one repo. 'unchanged' means every alert listing
+ * answered 304 Not Modified, so nothing but the sync time was written.
+ */
+export type SyncOutcome = 'updated' | 'unchanged' | 'failed';
+
+/** `refreshed` counts every successful repo; `unchanged` is the subset that returned 304. */
 export type RefreshResult = {
+  runId: number;
   refreshed: number;
+  unchanged: number;
   failed: number;
   total: number;
-  results: { repo: string; success: boolean }[];
+  results: { repo: string; success: boolean; unchanged: boolean; error: RepoSyncError | null }[];
+};
+
+export type RefreshOptions = {
+  /** Repos synced in parallel; defaults to GH_MONIT_REFRESH_CONCURRENCY. */
+  concurrency?: number;
+  /** Recorded on the sync run; defaults to 'api'. */
+  trigger?: SyncTrigger;
+  /** Run repo discovery over the watch targets first and sync new repos too. */
+  discover?: boolean;
 };
 
 export type RefreshProgressEvent = {
@@ -20,18 +86,19 @@ export type RefreshProgressEvent = {
   total: number;
   repo: string;
   success: boolean;
+  unchanged: boolean;
+  /** Why the repo failed to sync; null on success. */
+  error: RepoSyncError | null;
 };
 
 export type SchedulerState = {
   running: boolean;
   lastRun: string | null;
-  lastResult: Omit<RefreshResult, 'results'> | null;
+  lastResult: Omit<RefreshResult, 'runId' | 'results'> | null;
   nextRun: string | null;
   cronExpression: string;
 };
 
-const STAGGER_DELAY_MS = 2000;
-
 let state: SchedulerState = {
   running: false,
   lastRun: null,
@@ -42,10 +109,6 @@ let state: SchedulerState = {
 
 let task: cron.ScheduledTask | null = null;
 
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
 function getNextRunDate(expression: string): string | null {
   try {
     const interval = CronExpressionParser.parse(expression);
@@ -55,74 +118,350 @@ function getNextRunDate(expression: string): string | null {
   }
 }
 
+/** Alert ingestion result, plus the open packages to resolve chains for. */
+type IngestResult = {
+  outcome: SyncOutcome;
+  openPackages: string[];
+};
+
+/**
+ * Fetches and stores the latest Dependabot, code scanning and secret scanning
+ * alerts, the repo metadata and CODEOWNERS for a single repo, resolves alert
+ * owners, then resolves dependency chains from its lock file.
+ * Listings are fetched conditionally; a source that answers 304 is skipped.
+ * A failed fetch throws a `GitHubApiError` and leaves the stored alerts as they were.
+ */
+export async function syncRepo(
+  db: Database.Database,
+  octokit: Octokit,
+  repo: RepoRef
+): Promise<SyncOutcome> {
+  const { outcome, openPackages } = await ingestAlerts(db, octokit, repo);
+  await resolveDependencyChains(db, octokit, repo, openPackages);
+  return outcome;
+}
+
+async function ingestAlerts(
+  db: Database.Database,
+  octokit: Octokit,
+  repo: RepoRef
+): Promise<IngestResult> {
+  const [dependabot, codeScanning, secretScanning, metadata, codeowners] = await Promise.all([
+    fetchDependabotAlerts(octokit, repo, getCacheValidators(db, repo.fullName, 'dependabot')),
+    fetchCodeScanningAlerts(octokit, repo, getCacheValidators(db, repo.fullName, 'code_scanning')),
+    fetchSecretScanningAlerts(octokit, repo, getCacheValidators(db, repo.fullName, 'secret_scanning')),
+    // Metadata is informational — a failed lookup doesn't fail the sync
+    fetchRepoMetadata(octokit, repo, getCacheValidators(db, repo.fullName, 'metadata')).catch(
+      () => null
+    ),
+    // Likewise CODEOWNERS; unchanged or failed lookups keep the stored file (null)
+    fetchCodeowners(octokit, repo, getCacheValidators(db, repo.fullName, 'codeowners')).catch(
+      () => null
+    ),
+  ]);
+
+  const lastSync = new Date().toISOString();
+  // A 200 is a change even when the listing is empty; only 304s are skipped
+  const changed = (result: ConditionalFetchResult) => result.alerts !== null;
+  clearRepoSyncError(db, repo.fullName);
+
+  if (metadata?.metadata) {
+    saveRepoMetadata(db, repo.fullName, metadata.metadata);
+    if (metadata.validators) {
+      saveCacheValidators(db, repo.fullName, 'metadata', metadata.validators);
+    }
+  }
+
+  if (changed(codeScanning)) {
+    saveCodeScanningAlerts(
+      db,
+      repo.fullName,
+      normalizeCodeScanningAlerts(repo.fullName, codeScanning.alerts!),
+      lastSync
+    );
+  }
+  saveValidators(db, repo.fullName, 'code_scanning', codeScanning);
+
+  if (changed(secretScanning)) {
+    saveSecretScanningAlerts(
+      db,
+      repo.fullName,
+      normalizeSecretScanningAlerts(repo.fullName, secretScanning.alerts!),
+      lastSync
+    );
+  }
+  saveValidators(db, repo.fullName, 'secret_scanning', secretScanning);
+
+  if (codeowners) {
+    saveCodeowners(db, repo.fullName, codeowners.file, lastSync);
+    if (codeowners.validators) {
+      saveCacheValidators(db, repo.fullName, 'codeowners', codeowners.validators);
+    }
+  }
+
+  if (dependabot.alerts === null) {
+    touchRepoSync(db, repo.fullName, lastSync);
+    resolveAlertOwners(db, repo.fullName);
+    const outcome = changed(codeScanning) || changed(secretScanning) ? 'updated' : 'unchanged';
+    return { outcome, openPackages: [] };
+  }
+
+  const alerts = normalizeAlerts(repo.fullName, dependabot.alerts);
+  saveAlerts(db, repo.fullName, alerts, lastSync);
+  saveValidators(db, repo.fullName, 'dependabot', dependabot);
+  resolveAlertOwners(db, repo.fullName);
+
+  const openPackages = alerts
+    .filter((a) => a.state === 'open' && a.packageName)
+    .map((a) => a.packageName!);
+  return { outcome: 'updated', openPackages };
+}
+
+/** Resolves dependency chains for the given open packages from the repo's lock file. */
+async function resolveDependencyChains(
+  db: Database.Database,
+  octokit: Octokit,
+  repo: RepoRef,
+  openPackages: string[]
+): Promise<void> {
+  if (openPackages.length === 0) {
+    return;
+  }
+
+  try {
+    const [packageJson, lockFile] = await Promise.all([
+      fetchPackageJson(octokit, repo.owner, repo.name),
+      fetchLockFile(octokit, repo.owner, repo.name),
+    ]);
+    if (packageJson && lockFile) {
+      const chains = resolveAllChains(repo.fullName, packageJson, lockFile, openPackages);
+      saveDependencyChains(db, repo.fullName, chains);
+    }
+  } catch {
+    // Lock file resolution is best-effort — don't fail the sync
+  }
+}
+
+function saveValidators(
+  db: Database.Database,
+  repo: string,
+  source: string,
+  result: ConditionalFetchResult
+): void {
+  if (result.alerts != null && result.validators) {
+    saveCacheValidators(db, repo, source, result.validators);
+  }
+}
+
 /**
- * Refreshes all tracked repos sequentially with a staggered delay.
+ * Returns the client for the host a repo lives on, or null (with a warning)
+ * when that host is no longer configured.
+ */
+export function clientForRepo(clients: GitHubClients, repo: RepoRef): Octokit | null {
+  const host = repo.host ?? parseRepoKey(repo.fullName)?.host;
+  const octokit = host ? clients.get(host) : undefined;
+  if (!octokit) {
+    console.warn(chalk.yellow(`  No GitHub client configured for host "${host}" (${repo.fullName})`));
+    return null;
+  }
+  return octokit;
+}
+
+/**
+ * Reads the refresh worker count from GH_MONIT_REFRESH_CONCURRENCY,
+ * falling back to DEFAULT_REFRESH_CONCURRENCY when unset or invalid.
+ */
+export function resolveRefreshConcurrency(env: NodeJS.ProcessEnv = process.env): number {
+  const value = Number(env.GH_MONIT_REFRESH_CONCURRENCY);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_REFRESH_CONCURRENCY;
+}
+
+/**
+ * Refreshes all tracked repos; see `refreshRepos`.
  * Shared by the cron scheduler and the manual refresh-all endpoint.
+ * With `discover`, repos newly found under the watch targets are synced too.
+ * Repos flagged as deleted upstream are skipped until discovery finds them
+ * again or a refresh of that repo alone succeeds.
+ * Alert notifications are dispatched once the refresh completes.
  */
 export async function refreshAllRepos(
   db: Database.Database,
-  octokit: Octokit,
-  onProgress?: (event: RefreshProgressEvent) => void | Promise<void>
+  clients: GitHubClients,
+  onProgress?: (event: RefreshProgressEvent) => void | Promise<void>,
+  options: RefreshOptions = {}
 ): Promise<RefreshResult> {
-  const repos = getAllRepoSummaries(db);
-  const results: { repo: string; success: boolean }[] = [];
-
-  for (let i = 0; i < repos.length; i++) {
-    const { repo } = repos[i];
-    const [owner, name] = repo.split('/');
+  let added: string[] = [];
+  if (options.discover) {
+    const discovery = await discoverRepos(db, clients);
+    logDiscovery(discovery);
+    added = discovery.added;
+  }
+  const keys = getAllRepoSummaries(db)
+    .filter(({ upstreamState }) => upstreamState !== 'deleted')
+    .map(({ repo }) => repo);
+  keys.push(...added);
 
-    try {
-      const raw = await fetchDependabotAlerts(octokit, {
-        owner,
-        name,
-        fullName: repo,
-      });
-      if (raw) {
-        const alerts = normalizeAlerts(repo, raw);
-        saveAlerts(db, repo, alerts, new Date().toISOString());
-
-        // Resolve dependency chains from lock file
-        const openPackages = alerts
-          .filter((a) => a.state === 'open' && a.packageName)
-          .map((a) => a.packageName!);
-
-        if (openPackages.length > 0) {
-          try {
-            const [packageJson, lockFile] = await Promise.all([
-              fetchPackageJson(octokit, owner, name),
-              fetchLockFile(octokit, owner, name),
-            ]);
-            if (packageJson && lockFile) {
-              const chains = resolveAllChains(repo, packageJson, lockFile, openPackages);
-              saveDependencyChains(db, repo, chains);
-            }
-          } catch {
-            // Lock file resolution is best-effort — don't fail the sync
-          }
-        }
+  const repos = keys.map((key) => parseRepoKey(key) ?? { owner: '', name: '', fullName: key });
+  const result = await refreshRepos(db, clients, repos, onProgress, options);
+  await notifyAfterRefresh(db);
+  return result;
+}
 
-        results.push({ repo, success: true });
+/** Dispatches alert notifications; a failure is logged and never fails the refresh. */
+async function notifyAfterRefresh(db: Database.Database): Promise<void> {
+  try {
+    for (const delivery of await dispatchNotifications(db)) {
+      if (delivery.error) {
+        console.warn(chalk.yellow(`  Notifications: ${delivery.name} failed: ${delivery.error}`));
       } else {
-        results.push({ repo, success: false });
+        const sent = `${delivery.sent} events sent to ${delivery.name}`;
+        console.log(chalk.cyan(`  Notifications: ${sent}`));
       }
-    } catch {
-      results.push({ repo, success: false });
     }
+  } catch (error) {
+    console.warn(chalk.yellow(`  Notifications failed: ${(error as Error).message}`));
+  }
+}
 
-    if (onProgress) {
-      const last = results[results.length - 1];
-      await onProgress({ completed: results.length, total: repos.length, repo, success: last.success });
-    }
+/**
+ * Refreshes the given repos with a bounded pool of workers, each repo
+ * through the client of its host. Pacing is left to the rate limiter
+ * installed on each Octokit client (see rate-limit.ts), which queues
+ * concurrent requests once the quota runs low.
+ *
+ * Alerts are ingested first; lock-file chain resolution runs as a second,
+ * lower-concurrency stage so it never delays alert ingestion. Progress
+ * events are delivered one at a time with increasing `completed` counts.
+ * Every call is recorded as a sync run with its per-repo outcomes.
+ */
+export async function refreshRepos(
+  db: Database.Database,
+  clients: GitHubClients,
+  repos: RepoRef[],
+  onProgress?: (event: RefreshProgressEvent) => void | Promise<void>,
+  options: RefreshOptions = {}
+): Promise<RefreshResult> {
+  const concurrency = options.concurrency ?? resolveRefreshConcurrency();
+  const runId = startSyncRun(db, options.trigger ?? 'api', repos.length);
+  const results: RefreshResult['results'] = new Array(repos.length);
+  const chainQueue: { octokit: Octokit; repo: RepoRef; openPackages: string[] }[] = [];
 
-    if (i < repos.length - 1) {
-      await delay(STAGGER_DELAY_MS);
-    }
+  let completed = 0;
+  let progress: Promise<void> = Promise.resolve();
+
+  try {
+    await runPool(repos, concurrency, async (ref, index) => {
+      const startedAt = new Date().toISOString();
+      const openBefore = countOpenAlerts(db, ref.fullName);
+      const octokit = clientForRepo(clients, ref);
+
+      let outcome: SyncOutcome = 'failed';
+      let error: RepoSyncError | null = null;
+      if (!octokit) {
+        error = {
+          kind: 'unknown',
+          message: 'No GitHub client configured for this host',
+          occurredAt: new Date().toISOString(),
+        };
+      } else {
+        try {
+          const ingested = await ingestAlerts(db, octokit, ref);
+          outcome = ingested.outcome;
+          // GitHub answered for the repo, so it is not deleted after all
+          clearDeletedUpstreamState(db, ref.fullName);
+          if (ingested.openPackages.length > 0) {
+            chainQueue.push({ octokit, repo: ref, openPackages: ingested.openPackages });
+          }
+        } catch (err) {
+          const apiError = toGitHubApiError(err);
+          error = {
+            kind: apiError.kind,
+            message: apiError.message,
+            occurredAt: new Date().toISOString(),
+          };
+          console.warn(chalk.yellow(`  Failed to sync ${ref.fullName}: ${apiError.message}`));
+        }
+      }
+      if (error) {
+        recordRepoSyncError(db, ref.fullName, error);
+      }
+
+      recordSyncRunRepo(db, {
+        runId,
+        repo: ref.fullName,
+        outcome,
+        error: error?.message ?? null,
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        openBefore,
+        openAfter: countOpenAlerts(db, ref.fullName),
+      });
+      results[index] = {
+        repo: ref.fullName,
+        success: outcome !== 'failed',
+        unchanged: outcome === 'unchanged',
+        error,
+      };
+
+      if (onProgress) {
+        const event = { completed: ++completed, total: repos.length, ...results[index] };
+        progress = progress.then(() => onProgress(event));
+        await progress;
+      }
+    });
+
+    await runPool(chainQueue, CHAIN_CONCURRENCY, ({ octokit, repo, openPackages }) =>
+      resolveDependencyChains(db, octokit, repo, openPackages)
+    );
+  } catch (err) {
+    const done = results.filter(Boolean);
+    finishSyncRun(db, runId, {
+      status: 'failed',
+      refreshed: done.filter((r) => r.success).length,
+      unchanged: done.filter((r) => r.unchanged).length,
+      failed: done.filter((r) => !r.success).length,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    throw err;
   }
 
   const refreshed = results.filter((r) => r.success).length;
+  const unchanged = results.filter((r) => r.unchanged).length;
   const failed = results.filter((r) => !r.success).length;
+  finishSyncRun(db, runId, { status: 'completed', refreshed, unchanged, failed });
 
-  return { refreshed, failed, total: repos.length, results };
+  return { runId, refreshed, unchanged, failed, total: repos.length, results };
+}
+
+function logDiscovery(discovery: DiscoveryResult): void {
+  const changes = [
+    discovery.added.length > 0 && `${discovery.added.length} new`,
+    discovery.archived.length > 0 && `${discovery.archived.length} archived`,
+    discovery.deleted.length > 0 && `${discovery.deleted.length} deleted`,
+    discovery.restored.length > 0 && `${discovery.restored.length} restored`,
+  ].filter(Boolean);
+  if (changes.length > 0) {
+    console.log(chalk.cyan(`  Discovery: ${changes.join(', ')} repos`));
+  }
+  if (discovery.failedTargets > 0) {
+    console.warn(chalk.yellow(`  Discovery: ${discovery.failedTargets} watch targets could not be listed`));
+  }
+}
+
+/** Runs `worker` over `items` with at most `concurrency` calls in flight. */
+async function runPool<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, run));
 }
 
 export function getSchedulerStatus(): SchedulerState {
@@ -135,17 +474,28 @@ export function getSchedulerStatus(): SchedulerState {
  */
 export function startScheduler(
   db: Database.Database,
-  octokit: Octokit,
+  clients: GitHubClients,
   cronExpression: string
 ): SchedulerState {
   if (task) {
     task.stop();
   }
 
+  // Runs still marked running were cut short by a restart
+  markInterruptedSyncRuns(db);
+  const lastCronRun = getLatestSyncRun(db, 'cron');
+
   state = {
     running: false,
-    lastRun: null,
-    lastResult: null,
+    lastRun: lastCronRun?.startedAt ?? null,
+    lastResult: lastCronRun
+      ? {
+          refreshed: lastCronRun.refreshed,
+          unchanged: lastCronRun.unchanged,
+          failed: lastCronRun.failed,
+          total: lastCronRun.total,
+        }
+      : null,
     nextRun: getNextRunDate(cronExpression),
     cronExpression,
   };
@@ -165,10 +515,14 @@ export function startScheduler(
     );
 
     try {
-      const result = await refreshAllRepos(db, octokit);
+      const result = await refreshAllRepos(db, clients, undefined, {
+        trigger: 'cron',
+        discover: true,
+      });
       state.lastRun = startTime.toISOString();
       state.lastResult = {
         refreshed: result.refreshed,
+        unchanged: result.unchanged,
         failed: result.failed,
         total: result.total,
       };
@@ -177,6 +531,7 @@ export function startScheduler(
       console.log(
         chalk.green(
           `  Scheduler: refresh complete — ${result.refreshed}/${result.total} repos updated` +
+            (result.unchanged > 0 ? ` (${result.unchanged} unchanged)` : '') +
             (result.failed > 0 ? `, ${result.failed} failed` : '')
         )
       );
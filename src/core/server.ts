@@ -1,34 +1,554 @@
 import { Hono } from 'hono';
+import type { Context } from 'hono';
 import { streamSSE } from 'hono/streaming';
 import { swaggerUI } from '@hono/swagger-ui';
 import type Database from 'better-sqlite3';
-import type { Octokit } from '@octokit/rest';
 import fs from 'node:fs';
 import path from 'node:path';
 import { openapiSpec } from './openapi.js';
 import {
+  addWatchTarget,
   clearDatabase,
+  DISMISS_REASONS,
+  SLA_SEVERITIES,
+  createRepoGroup,
+  deleteAlertAnnotation,
+  deleteRepoGroup,
+  findRepoGroupByName,
+  getGroupRollups,
+  getRepoGroup,
+  getRepoGroups,
+  updateRepoGroup,
+  getSlaPolicy,
+  saveSlaPolicy,
+  getRiskScores,
+  getRiskWeights,
+  createRiskException,
+  getRiskExceptions,
+  revokeRiskException,
+  updateRiskException,
+  saveRiskWeights,
   getAlertTimeline,
   getAllRepoSummaries,
   getActionPlan,
+  getAdvisoryAlertRefs,
+  getAlertAnnotation,
+  getAlertAnnotations,
+  getCachedAlerts,
+  getClosedAlerts,
+  getCodeScanningAlerts,
+  getDismissalAnalytics,
+  getSecretMttrMetrics,
+  getSecretScanningAlerts,
+  getSecretSlaViolations,
   getFixAdvisor,
   getGlobalSummary,
-  saveDependencyChains,
   removeRepo,
   getDependencyLandscape,
   getEcosystemBreakdown,
+  getMttrDistribution,
   getMttrMetrics,
   getRepoAlerts,
+  getRepoSyncRuns,
+  getSlaCompliance,
   getSlaViolations,
+  getSyncRun,
+  getSyncRuns,
+  getThreatIntelStatus,
   getTrendData,
   getVulnerabilityGroups,
-  saveAlerts,
+  getWatchTargets,
+  removeWatchTarget,
+  saveAlertAnnotation,
+  createNotificationChannel,
+  deleteNotificationChannel,
+  getNotificationChannel,
+  getNotificationChannels,
+  updateNotificationChannel,
 } from './db.js';
-import { normalizeAlerts } from './alerts.js';
-import { fetchDependabotAlerts, listOrgRepos, listUserRepos } from './github.js';
-import { fetchLockFile, fetchPackageJson, resolveAllChains } from './lockfile.js';
-import { getSchedulerStatus, refreshAllRepos } from './scheduler.js';
-import type { SeverityCounts } from '../types.js';
+import { discoverRepos, listWatchedRepos } from './discovery.js';
+import { toGitHubApiError } from './github.js';
+import { importGitHubTeams } from './groups.js';
+import { DEFAULT_HOST, parseRepoKey } from './hosts.js';
+import type { GitHubClients } from './hosts.js';
+import {
+  NOTIFICATION_CHANNEL_TYPES,
+  NOTIFICATION_EVENT_KINDS,
+  NotificationError,
+  parseRecipients,
+  sendTestNotification,
+} from './notifications.js';
+import { getRateLimitStatus } from './rate-limit.js';
+import { getSchedulerStatus, refreshAllRepos, refreshRepos } from './scheduler.js';
+import { importThreatDataset, ThreatIntelError, THREAT_DATASETS } from './threat-intel.js';
+import { changeAlertStates, MAX_DISMISS_COMMENT_LENGTH } from './triage.js';
+import type {
+  AlertAnnotationInput,
+  AlertRef,
+  AlertSource,
+  AlertState,
+  AnnotationFilters,
+  HistoryRange,
+  NotificationChannelInput,
+  RepoErrorKind,
+  RepoGroupInput,
+  RepoRef,
+  RiskExceptionInput,
+  RiskExceptionScope,
+  RiskExceptionStatus,
+  RiskExceptionUpdate,
+  RiskWeights,
+  SlaLimits,
+  SlaOverride,
+  SlaPolicy,
+  SyncTrigger,
+  ThreatDataset,
+  TrendBucket,
+} from '../types.js';
+
+const ALERT_SOURCES: AlertSource[] = ['dependabot', 'code_scanning'];
+
+const SYNC_TRIGGERS: SyncTrigger[] = ['cron', 'manual', 'api'];
+
+const TREND_BUCKETS: TrendBucket[] = ['day', 'week', 'month'];
+
+const MAX_PAGE_SIZE = 100;
+
+const EXCEPTION_SCOPES: RiskExceptionScope[] = ['alert', 'advisory', 'package', 'repo'];
+
+const EXCEPTION_STATUSES: RiskExceptionStatus[] = ['active', 'expired', 'revoked'];
+
+const ALERT_STATES: AlertState[] = ['open', 'dismissed', 'fixed', 'auto_dismissed'];
+
+const CLOSED_ALERT_STATES = ALERT_STATES.filter(
+  (s): s is Exclude<AlertState, 'open'> => s !== 'open'
+);
+
+const MAX_NOTE_LENGTH = 2000;
+
+const MAX_TAGS = 20;
+
+const MAX_TAG_LENGTH = 50;
+
+/** HTTP status returned by a single-repo refresh that failed for each reason. */
+const ERROR_STATUS: Record<RepoErrorKind, 404 | 403 | 429 | 502 | 500> = {
+  not_found: 404,
+  dependabot_disabled: 403,
+  forbidden: 403,
+  rate_limited: 429,
+  network: 502,
+  unknown: 500,
+};
+
+/** Refreshes started over HTTP are 'api' unless the dashboard marks them 'manual'. */
+function requestTrigger(value: string | undefined): SyncTrigger {
+  return value === 'manual' ? 'manual' : 'api';
+}
+
+/** Parses a non-negative integer query param, clamped to `max`. */
+function intParam(value: string | undefined, fallback: number, max = Infinity): number {
+  const n = Number(value);
+  return Number.isInteger(n) && n >= 0 ? Math.min(n, max) : fallback;
+}
+
+/**
+ * Resolves the `?group=` analytics filter to a group id. Returns undefined
+ * when the param is absent and null when it names no existing group.
+ */
+function groupParam(db: Database.Database, value: string | undefined): number | null | undefined {
+  if (!value) return undefined;
+  const id = Number(value);
+  return Number.isInteger(id) && getRepoGroup(db, id) ? id : null;
+}
+
+/**
+ * Parses a `YYYY-MM-DD` query param. Returns undefined when the param is
+ * absent and null when it is not a valid day.
+ */
+function dateParam(value: string | undefined): string | null | undefined {
+  if (!value) return undefined;
+  const valid = /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+  return valid ? value : null;
+}
+
+/**
+ * Parses the `from`/`to`/`days`/`bucket` history params. `days` is
+ * shorthand for the last N days up to `to` (default today) and cannot be
+ * combined with `from`.
+ */
+function historyRangeParams(
+  query: (name: string) => string | undefined
+): { error: string } | HistoryRange {
+  const from = dateParam(query('from'));
+  const to = dateParam(query('to'));
+  if (from === null || to === null) {
+    return { error: 'Expected from and to as YYYY-MM-DD' };
+  }
+  const bucketParam = query('bucket');
+  const bucket = TREND_BUCKETS.find((b) => b === bucketParam);
+  if (bucketParam && !bucket) {
+    return { error: `Expected bucket to be one of ${TREND_BUCKETS.join(', ')}` };
+  }
+
+  const daysParam = query('days');
+  if (daysParam) {
+    const days = Number(daysParam);
+    if (!Number.isInteger(days) || days < 1) {
+      return { error: 'Expected days to be a positive integer' };
+    }
+    if (from) {
+      return { error: 'Expected either from or days, not both' };
+    }
+    const end = Date.parse(`${to ?? new Date().toISOString().slice(0, 10)}T00:00:00Z`);
+    return {
+      from: new Date(end - (days - 1) * 86_400_000).toISOString().slice(0, 10),
+      to,
+      bucket,
+    };
+  }
+  if (from && to && from > to) {
+    return { error: 'Expected from to be on or before to' };
+  }
+  return { from, to, bucket };
+}
+
+/** Validates a group create/update body; returns an error message or the input. */
+function parseGroupInput(
+  body: Record<string, unknown>,
+  requireName: boolean
+): { error: string } | Partial<RepoGroupInput> {
+  if (body.name !== undefined && typeof body.name !== 'string') {
+    return { error: 'Expected name to be a string' };
+  }
+  const name = textField(body.name);
+  if (requireName && !name) {
+    return { error: 'Expected a group name' };
+  }
+  if (body.description != null && typeof body.description !== 'string') {
+    return { error: 'Expected description to be a string' };
+  }
+  const repos = body.repos;
+  if (repos !== undefined && (!Array.isArray(repos) || repos.some((r) => typeof r !== 'string'))) {
+    return { error: 'Expected repos to be an array of repo keys' };
+  }
+  return {
+    ...(name ? { name } : {}),
+    ...(body.description !== undefined ? { description: textField(body.description) } : {}),
+    ...(repos ? { repos: [...new Set(repos as string[])] } : {}),
+  };
+}
+
+/** Keeps the severities of `value` that map to a positive number of days. */
+function parseSlaLimits(value: unknown): Partial<SlaLimits> | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const limits: Partial<SlaLimits> = {};
+  for (const [key, days] of Object.entries(value)) {
+    const severity = SLA_SEVERITIES.find((s) => s === key);
+    if (!severity || typeof days !== 'number' || !(days > 0)) return null;
+    limits[severity] = days;
+  }
+  return limits;
+}
+
+/** Validates an SLA policy body; returns an error message or the policy. */
+function parseSlaPolicy(
+  db: Database.Database,
+  body: { defaults?: unknown; overrides?: unknown }
+): { error: string } | SlaPolicy {
+  const defaults = parseSlaLimits(body.defaults);
+  if (!defaults || SLA_SEVERITIES.some((s) => defaults[s] === undefined)) {
+    return { error: 'Expected defaults with a positive number of days per severity' };
+  }
+  if (!Array.isArray(body.overrides)) {
+    return { error: 'Expected overrides to be an array' };
+  }
+
+  const overrides: SlaOverride[] = [];
+  for (const raw of body.overrides as Array<Record<string, unknown> | null>) {
+    const limits = parseSlaLimits(raw?.limits);
+    if (!limits) {
+      return { error: 'Expected override limits with a positive number of days per severity' };
+    }
+    if (raw?.scope === 'group' && typeof raw.groupId === 'number' && getRepoGroup(db, raw.groupId)) {
+      overrides.push({ scope: 'group', groupId: raw.groupId, limits });
+    } else if (raw?.scope === 'repo' && typeof raw.repo === 'string' && raw.repo.trim()) {
+      overrides.push({ scope: 'repo', repo: raw.repo.trim(), limits });
+    } else {
+      return { error: 'Expected each override to name an existing group or a repo' };
+    }
+  }
+  return { defaults: defaults as SlaLimits, overrides };
+}
+
+/** Validates a risk weights body; returns an error message or the weights. */
+function parseRiskWeights(body: Record<string, unknown>): { error: string } | RiskWeights {
+  const isWeight = (value: unknown): value is number => typeof value === 'number' && value >= 0;
+  const severity = body.severity as Record<string, unknown> | null | undefined;
+  if (
+    !severity ||
+    typeof severity !== 'object' ||
+    !SLA_SEVERITIES.every((s) => isWeight(severity[s]))
+  ) {
+    return { error: 'Expected severity with a non-negative weight per severity' };
+  }
+  const { cvss, epss, kev, developmentScope, overdue, agePerYear } = body;
+  if (
+    !isWeight(cvss) ||
+    !isWeight(epss) ||
+    !isWeight(kev) ||
+    !isWeight(developmentScope) ||
+    !isWeight(overdue) ||
+    !isWeight(agePerYear)
+  ) {
+    return {
+      error: 'Expected non-negative cvss, epss, kev, developmentScope, overdue and agePerYear weights',
+    };
+  }
+  // Both scale the whole alert score, so below 1 they would shrink it rather than drop out
+  if (kev < 1 || overdue < 1) {
+    return { error: 'Expected kev and overdue weights of at least 1 (1 leaves the score as is)' };
+  }
+  return {
+    severity: {
+      critical: severity.critical as number,
+      high: severity.high as number,
+      medium: severity.medium as number,
+      low: severity.low as number,
+    },
+    cvss,
+    epss,
+    kev,
+    developmentScope,
+    overdue,
+    agePerYear,
+  };
+}
+
+/** Error for a JSON body that is valid but not an object, such as `null` or `[]`. */
+const NOT_AN_OBJECT = { error: 'Expected a JSON object body' };
+
+/**
+ * Reads a JSON request body as an object; a missing or malformed body
+ * reads as `{}`. Null when the JSON is valid but not an object.
+ */
+async function readJsonObject(c: Context): Promise<Record<string, unknown> | null> {
+  const body: unknown = await c.req.json().catch(() => ({}));
+  return typeof body === 'object' && body !== null && !Array.isArray(body)
+    ? (body as Record<string, unknown>)
+    : null;
+}
+
+/** Trims a string field; null when it is not a non-empty string. */
+function textField(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Parses an exception expiry as an ISO timestamp. A bare `YYYY-MM-DD`
+ * runs to the end of that day (UTC). Null when invalid or not in the future.
+ */
+function parseExpiry(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const raw = /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59.999Z` : value;
+  const time = Date.parse(raw);
+  return Number.isNaN(time) || time <= Date.now() ? null : new Date(time).toISOString();
+}
+
+/** Validates a risk exception body; returns an error message or the input. */
+function parseRiskException(body: Record<string, unknown>): { error: string } | RiskExceptionInput {
+  const scope = EXCEPTION_SCOPES.find((s) => s === body.scope);
+  if (!scope) {
+    return { error: `Expected scope to be one of ${EXCEPTION_SCOPES.join(', ')}` };
+  }
+  const repo = textField(body.repo);
+  const alertNumber =
+    Number.isInteger(body.alertNumber) && (body.alertNumber as number) > 0
+      ? (body.alertNumber as number)
+      : null;
+  const ghsaId = textField(body.ghsaId);
+  const packageName = textField(body.packageName);
+  if (scope === 'alert' && (!repo || !alertNumber)) {
+    return { error: 'Expected a repo and alertNumber for an alert exception' };
+  }
+  if (scope === 'advisory' && !ghsaId) {
+    return { error: 'Expected a ghsaId for an advisory exception' };
+  }
+  if (scope === 'package' && !packageName) {
+    return { error: 'Expected a packageName for a package exception' };
+  }
+  if (scope === 'repo' && !repo) {
+    return { error: 'Expected a repo for a repo exception' };
+  }
+
+  const justification = textField(body.justification);
+  const approver = textField(body.approver);
+  if (!justification || !approver) {
+    return { error: 'Expected a justification and an approver' };
+  }
+  const expiresAt = parseExpiry(body.expiresAt);
+  if (!expiresAt) {
+    return { error: 'Expected expiresAt to be a future date' };
+  }
+
+  // Only the fields of the chosen scope narrow the match
+  return {
+    scope,
+    repo,
+    alertNumber: scope === 'alert' ? alertNumber : null,
+    ghsaId: scope === 'advisory' ? ghsaId : null,
+    packageName: scope === 'package' ? packageName : null,
+    ecosystem: scope === 'package' ? textField(body.ecosystem) : null,
+    justification,
+    approver,
+    expiresAt,
+  };
+}
+
+/** Validates a risk exception update body; returns an error message or the update. */
+function parseRiskExceptionUpdate(
+  body: Record<string, unknown>
+): { error: string } | RiskExceptionUpdate {
+  const actor = textField(body.actor);
+  if (!actor) {
+    return { error: 'Expected an actor' };
+  }
+  const update: RiskExceptionUpdate = { actor };
+  if (body.justification !== undefined) {
+    const justification = textField(body.justification);
+    if (!justification) return { error: 'Expected justification to be non-empty' };
+    update.justification = justification;
+  }
+  if (body.approver !== undefined) {
+    const approver = textField(body.approver);
+    if (!approver) return { error: 'Expected approver to be non-empty' };
+    update.approver = approver;
+  }
+  if (body.expiresAt !== undefined) {
+    const expiresAt = parseExpiry(body.expiresAt);
+    if (!expiresAt) return { error: 'Expected expiresAt to be a future date' };
+    update.expiresAt = expiresAt;
+  }
+  return update;
+}
+
+/**
+ * Resolves the alerts a dismiss or reopen body targets: an explicit
+ * `alerts` list, or every alert of advisory `ghsaId` in state `fromState`.
+ */
+function parseAlertTargets(
+  db: Database.Database,
+  body: Record<string, unknown>,
+  fromState: string
+): { error: string } | AlertRef[] {
+  const ghsaId = textField(body.ghsaId);
+  if (ghsaId) {
+    return getAdvisoryAlertRefs(db, ghsaId, fromState);
+  }
+  const alerts = body.alerts;
+  const valid =
+    Array.isArray(alerts) &&
+    alerts.length > 0 &&
+    alerts.every(
+      (a) =>
+        typeof a?.repo === 'string' && Number.isInteger(a.alertNumber) && a.alertNumber > 0
+    );
+  if (!valid) {
+    return { error: 'Expected a ghsaId or a non-empty alerts array of { repo, alertNumber }' };
+  }
+  return (alerts as AlertRef[]).map(({ repo, alertNumber }) => ({ repo, alertNumber }));
+}
+
+/** Reads the `?tag=` and `?assignee=` alert annotation filters. */
+function annotationFilters(query: Record<string, string>): AnnotationFilters {
+  return { tag: query.tag || null, assignee: query.assignee || null };
+}
+
+/**
+ * Validates an alert annotation body; returns an error message or the
+ * input. Tags are trimmed and deduplicated case-insensitively.
+ */
+function parseAlertAnnotation(
+  body: Record<string, unknown>
+): { error: string } | AlertAnnotationInput {
+  const note = textField(body.note);
+  if (note && note.length > MAX_NOTE_LENGTH) {
+    return { error: `Expected note to be at most ${MAX_NOTE_LENGTH} characters` };
+  }
+  const rawTags = body.tags ?? [];
+  if (!Array.isArray(rawTags) || rawTags.some((t) => typeof t !== 'string')) {
+    return { error: 'Expected tags to be an array of strings' };
+  }
+  const tags = new Map<string, string>();
+  for (const tag of (rawTags as string[]).map((t) => t.trim()).filter(Boolean)) {
+    if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+  }
+  if (tags.size > MAX_TAGS || [...tags.values()].some((t) => t.length > MAX_TAG_LENGTH)) {
+    return { error: `Expected at most ${MAX_TAGS} tags of up to ${MAX_TAG_LENGTH} characters` };
+  }
+  return { note, tags: [...tags.values()], assignee: textField(body.assignee) };
+}
+
+/** Whether a notification target is a valid URL, or recipient list for email. */
+function validNotificationTarget(type: NotificationChannelInput['type'], target: string): boolean {
+  if (type === 'email') {
+    const recipients = parseRecipients(target);
+    return recipients.length > 0 && recipients.every((r) => /^[^\s@<>]+@[^\s@<>]+$/.test(r));
+  }
+  try {
+    return ['http:', 'https:'].includes(new URL(target).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validates a notification channel body; returns an error message or the
+ * input. Channels get every event kind from high severity up by default.
+ */
+function parseNotificationChannel(
+  body: Record<string, unknown>
+): { error: string } | NotificationChannelInput {
+  const type = NOTIFICATION_CHANNEL_TYPES.find((t) => t === body.type);
+  if (!type) {
+    return { error: `Expected type to be one of ${NOTIFICATION_CHANNEL_TYPES.join(', ')}` };
+  }
+  const name = textField(body.name);
+  if (!name) {
+    return { error: 'Expected a name' };
+  }
+  const target = textField(body.target);
+  if (!target || !validNotificationTarget(type, target)) {
+    return {
+      error:
+        type === 'email'
+          ? 'Expected target to be comma-separated email addresses'
+          : 'Expected target to be an http(s) webhook URL',
+    };
+  }
+  const minSeverity = body.minSeverity ?? 'high';
+  const severity = SLA_SEVERITIES.find((s) => s === minSeverity);
+  if (!severity) {
+    return { error: `Expected minSeverity to be one of ${SLA_SEVERITIES.join(', ')}` };
+  }
+  const events = body.events ?? NOTIFICATION_EVENT_KINDS;
+  const kinds = NOTIFICATION_EVENT_KINDS.filter((k) => Array.isArray(events) && events.includes(k));
+  if (!Array.isArray(events) || kinds.length === 0 || kinds.length !== new Set(events).size) {
+    return {
+      error: `Expected events to be a non-empty list of ${NOTIFICATION_EVENT_KINDS.join(', ')}`,
+    };
+  }
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+    return { error: 'Expected enabled to be a boolean' };
+  }
+  return {
+    type,
+    name,
+    target,
+    minSeverity: severity,
+    events: kinds,
+    enabled: body.enabled ?? true,
+  };
+}
 
 const MIME_TYPES: Record<string, string> = {
   '.html': 'text/html; charset=utf-8',
@@ -66,11 +586,11 @@ function makeCache<T>() {
 /**
  * Creates a Hono app with API routes and static file serving.
  * The server reads from the SQLite database and delegates GitHub
- * API calls to the Octokit client.
+ * API calls to the Octokit client of each repo's host.
  */
 export function createServer(
   db: Database.Database,
-  octokit: Octokit,
+  clients: GitHubClients,
   dashboardDir: string
 ): Hono {
   const app = new Hono();
@@ -112,10 +632,34 @@ export function createServer(
     const owner = c.req.param('owner');
     const name = c.req.param('name');
     const fullName = `${owner}/${name}`;
-    const result = getRepoAlerts(db, fullName);
+    const stateParam = c.req.query('state');
+    const state = ALERT_STATES.find((s) => s === stateParam);
+    if (stateParam && !state) {
+      return c.json({ error: `Expected state to be one of ${ALERT_STATES.join(', ')}` }, 400);
+    }
+    // `?owner=` is a CODEOWNERS owner, not the repo owner in the path
+    const result = getRepoAlerts(db, fullName, {
+      owner: c.req.query('owner') || null,
+      state: state ?? null,
+      ...annotationFilters(c.req.query()),
+    });
     return c.json(result);
   });
 
+  app.get('/api/repos/:owner/:name/code-scanning', (c) => {
+    const owner = c.req.param('owner');
+    const name = c.req.param('name');
+    const fullName = `${owner}/${name}`;
+    return c.json(getCodeScanningAlerts(db, fullName));
+  });
+
+  app.get('/api/repos/:owner/:name/secret-scanning', (c) => {
+    const owner = c.req.param('owner');
+    const name = c.req.param('name');
+    const fullName = `${owner}/${name}`;
+    return c.json(getSecretScanningAlerts(db, fullName));
+  });
+
   app.delete('/api/repos/:owner/:name', (c) => {
     const owner = c.req.param('owner');
     const name = c.req.param('name');
@@ -130,36 +674,21 @@ export function createServer(
     const name = c.req.param('name');
     const fullName = `${owner}/${name}`;
 
-    const raw = await fetchDependabotAlerts(octokit, { owner, name, fullName });
-    if (!raw) {
-      return c.json({ error: 'GitHub API request failed' }, 500);
-    }
-
-    const alerts = normalizeAlerts(fullName, raw);
-    const lastSync = new Date().toISOString();
-    saveAlerts(db, fullName, alerts, lastSync);
-
-    // Resolve dependency chains
-    const openPackages = alerts
-      .filter((a) => a.state === 'open' && a.packageName)
-      .map((a) => a.packageName!);
-    if (openPackages.length > 0) {
-      try {
-        const [packageJson, lockFile] = await Promise.all([
-          fetchPackageJson(octokit, owner, name),
-          fetchLockFile(octokit, owner, name),
-        ]);
-        if (packageJson && lockFile) {
-          const chains = resolveAllChains(fullName, packageJson, lockFile, openPackages);
-          saveDependencyChains(db, fullName, chains);
-        }
-      } catch {
-        // best-effort
-      }
+    const repo = parseRepoKey(fullName);
+    if (!repo || !clients.has(repo.host ?? DEFAULT_HOST)) {
+      return c.json({ error: `Unknown repo or host: ${fullName}` }, 400);
     }
 
+    const result = await refreshRepos(db, clients, [repo], undefined, {
+      trigger: requestTrigger(c.req.query('trigger')),
+    });
     invalidateDashboardCache();
 
+    const failure = result.results[0]?.error;
+    if (failure) {
+      return c.json({ error: failure.message, kind: failure.kind }, ERROR_STATUS[failure.kind]);
+    }
+
     const updated = getRepoAlerts(db, fullName);
     return c.json(updated);
   });
@@ -169,34 +698,561 @@ export function createServer(
       const repos = getAllRepoSummaries(db);
       await stream.writeSSE({ event: 'start', data: JSON.stringify({ total: repos.length }) });
 
-      const result = await refreshAllRepos(db, octokit, async (progress) => {
-        await stream.writeSSE({ event: 'progress', data: JSON.stringify(progress) });
-      });
+      const result = await refreshAllRepos(
+        db,
+        clients,
+        async (progress) => {
+          await stream.writeSSE({ event: 'progress', data: JSON.stringify(progress) });
+        },
+        { trigger: requestTrigger(c.req.query('trigger')) }
+      );
 
       invalidateDashboardCache();
 
       await stream.writeSSE({
         event: 'done',
-        data: JSON.stringify({ refreshed: result.refreshed, failed: result.failed, total: result.total }),
+        data: JSON.stringify({
+          runId: result.runId,
+          refreshed: result.refreshed,
+          unchanged: result.unchanged,
+          failed: result.failed,
+          total: result.total,
+        }),
       });
     });
   });
 
   app.get('/api/scheduler', (c) => {
-    return c.json(getSchedulerStatus());
+    const rateLimits = Object.fromEntries(
+      [...clients].map(([host, octokit]) => [host, getRateLimitStatus(octokit)])
+    );
+    return c.json({
+      ...getSchedulerStatus(),
+      rateLimit: rateLimits[DEFAULT_HOST] ?? null,
+      rateLimits,
+    });
+  });
+
+  // --- Closed alerts ---
+
+  app.get('/api/alerts/closed', (c) => {
+    const stateParam = c.req.query('state');
+    const state = CLOSED_ALERT_STATES.find((s) => s === stateParam);
+    if (stateParam && !state) {
+      return c.json(
+        { error: `Expected state to be one of ${CLOSED_ALERT_STATES.join(', ')}` },
+        400
+      );
+    }
+    const reasonParam = c.req.query('reason');
+    const reason = DISMISS_REASONS.find((r) => r === reasonParam);
+    if (reasonParam && !reason) {
+      return c.json({ error: `Expected reason to be one of ${DISMISS_REASONS.join(', ')}` }, 400);
+    }
+    const groupId = groupParam(db, c.req.query('group'));
+    if (groupId === null) {
+      return c.json({ error: 'Group not found' }, 404);
+    }
+    const page = getClosedAlerts(db, {
+      limit: intParam(c.req.query('limit'), 50, MAX_PAGE_SIZE),
+      offset: intParam(c.req.query('offset'), 0),
+      state: state ?? null,
+      reason: reason ?? null,
+      repo: c.req.query('repo') || null,
+      groupId,
+    });
+    return c.json(page);
+  });
+
+  // --- Alert annotations (local notes, tags and assignees) ---
+
+  app.get('/api/annotations', (c) => {
+    const data = getAlertAnnotations(db, {
+      repo: c.req.query('repo') || null,
+      ...annotationFilters(c.req.query()),
+    });
+    return c.json(data);
+  });
+
+  app.get('/api/repos/:owner/:name/alerts/:number/annotation', (c) => {
+    const owner = c.req.param('owner');
+    const name = c.req.param('name');
+    const ref = { repo: `${owner}/${name}`, alertNumber: Number(c.req.param('number')) };
+    const annotation = getAlertAnnotation(db, ref);
+    if (!annotation) {
+      return c.json({ error: 'Annotation not found' }, 404);
+    }
+    return c.json(annotation);
+  });
+
+  app.put('/api/repos/:owner/:name/alerts/:number/annotation', async (c) => {
+    const owner = c.req.param('owner');
+    const name = c.req.param('name');
+    const ref = { repo: `${owner}/${name}`, alertNumber: Number(c.req.param('number')) };
+    if (!getCachedAlerts(db, ref.repo).alerts.some((a) => a.alertNumber === ref.alertNumber)) {
+      return c.json({ error: 'Alert not found' }, 404);
+    }
+    const body = await readJsonObject(c);
+    if (!body) {
+      return c.json(NOT_AN_OBJECT, 400);
+    }
+    const input = parseAlertAnnotation(body);
+    if ('error' in input) {
+      return c.json(input, 400);
+    }
+    return c.json(saveAlertAnnotation(db, ref, input));
+  });
+
+  app.delete('/api/repos/:owner/:name/alerts/:number/annotation', (c) => {
+    const owner = c.req.param('owner');
+    const name = c.req.param('name');
+    const ref = { repo: `${owner}/${name}`, alertNumber: Number(c.req.param('number')) };
+    if (!deleteAlertAnnotation(db, ref)) {
+      return c.json({ error: 'Annotation not found' }, 404);
+    }
+    return c.json({ ok: true });
+  });
+
+  // --- Alert triage (write-back to GitHub) ---
+
+  app.post('/api/alerts/dismiss', async (c) => {
+    const body = await readJsonObject(c);
+    if (!body) {
+      return c.json(NOT_AN_OBJECT, 400);
+    }
+    const reason = DISMISS_REASONS.find((r) => r === body.reason);
+    if (!reason) {
+      return c.json({ error: `Expected reason to be one of ${DISMISS_REASONS.join(', ')}` }, 400);
+    }
+    const comment = textField(body.comment);
+    if (comment && comment.length > MAX_DISMISS_COMMENT_LENGTH) {
+      return c.json(
+        { error: `Expected comment to be at most ${MAX_DISMISS_COMMENT_LENGTH} characters` },
+        400
+      );
+    }
+    const targets = parseAlertTargets(db, body, 'open');
+    if ('error' in targets) {
+      return c.json(targets, 400);
+    }
+
+    const result = await changeAlertStates(db, clients, targets, {
+      state: 'dismissed',
+      dismissedReason: reason,
+      dismissedComment: comment,
+    });
+    invalidateDashboardCache();
+    return c.json(result);
+  });
+
+  app.post('/api/alerts/reopen', async (c) => {
+    const body = await readJsonObject(c);
+    if (!body) {
+      return c.json(NOT_AN_OBJECT, 400);
+    }
+    const targets = parseAlertTargets(db, body, 'dismissed');
+    if ('error' in targets) {
+      return c.json(targets, 400);
+    }
+
+    const result = await changeAlertStates(db, clients, targets, { state: 'open' });
+    invalidateDashboardCache();
+    return c.json(result);
+  });
+
+  // --- Sync run history ---
+
+  app.get('/api/sync-runs', (c) => {
+    const trigger = c.req.query('trigger') as SyncTrigger | undefined;
+    if (trigger && !SYNC_TRIGGERS.includes(trigger)) {
+      return c.json({ error: `Invalid trigger. Expected one of: ${SYNC_TRIGGERS.join(', ')}` }, 400);
+    }
+    const page = getSyncRuns(db, {
+      limit: intParam(c.req.query('limit'), 20, MAX_PAGE_SIZE),
+      offset: intParam(c.req.query('offset'), 0),
+      triggeredBy: trigger ?? null,
+    });
+    return c.json(page);
+  });
+
+  app.get('/api/sync-runs/:id', (c) => {
+    const run = getSyncRun(db, Number(c.req.param('id')));
+    if (!run) {
+      return c.json({ error: 'Sync run not found' }, 404);
+    }
+    return c.json(run);
+  });
+
+  app.get('/api/repos/:owner/:name/sync-runs', (c) => {
+    const owner = c.req.param('owner');
+    const name = c.req.param('name');
+    const fullName = `${owner}/${name}`;
+    const limit = intParam(c.req.query('limit'), 50, MAX_PAGE_SIZE);
+    return c.json(getRepoSyncRuns(db, fullName, limit));
+  });
+
+  // --- Watch targets (repo auto-discovery) ---
+
+  app.get('/api/watch-targets', (c) => {
+    return c.json(getWatchTargets(db));
+  });
+
+  app.post('/api/watch-targets', async (c) => {
+    const body = await readJsonObject(c);
+    if (!body) {
+      return c.json(NOT_AN_OBJECT, 400);
+    }
+    const host = body.host || DEFAULT_HOST;
+    const name = textField(body.name);
+    if ((body.type !== 'user' && body.type !== 'org') || !name) {
+      return c.json({ error: 'Expected a type of "user" or "org" and a name' }, 400);
+    }
+    if (typeof host !== 'string' || !clients.has(host)) {
+      return c.json({ error: `Unknown host: ${host}` }, 400);
+    }
+    if (body.namePattern != null && typeof body.namePattern !== 'string') {
+      return c.json({ error: 'Expected namePattern to be a string' }, 400);
+    }
+
+    const target = addWatchTarget(db, {
+      type: body.type,
+      name,
+      host,
+      includeForks: Boolean(body.includeForks),
+      includeArchived: Boolean(body.includeArchived),
+      namePattern: textField(body.namePattern),
+    });
+    if (!target) {
+      return c.json({ error: `${body.type} "${name}" is already watched` }, 409);
+    }
+    return c.json(target, 201);
+  });
+
+  app.delete('/api/watch-targets/:id', (c) => {
+    if (!removeWatchTarget(db, Number(c.req.param('id')))) {
+      return c.json({ error: 'Watch target not found' }, 404);
+    }
+    return c.json({ ok: true });
+  });
+
+  app.post('/api/watch-targets/discover', async (c) => {
+    const discovery = await discoverRepos(db, clients);
+    const added = discovery.added
+      .map((key) => parseRepoKey(key))
+      .filter((repo): repo is RepoRef => repo !== null);
+    const refresh = added.length > 0
+      ? await refreshRepos(db, clients, added, undefined, {
+          trigger: requestTrigger(c.req.query('trigger')),
+        })
+      : null;
+    invalidateDashboardCache();
+
+    return c.json({ ...discovery, runId: refresh?.runId ?? null });
+  });
+
+  // --- Repo groups (team ownership) ---
+
+  app.get('/api/groups', (c) => {
+    return c.json(getRepoGroups(db));
+  });
+
+  app.post('/api/groups', async (c) => {
+    const body = await readJsonObject(c);
+    if (!body) {
+      return c.json(NOT_AN_OBJECT, 400);
+    }
+    const input = parseGroupInput(body, true);
+    if ('error' in input) {
+      return c.json(input, 400);
+    }
+
+    const group = createRepoGroup(db, input as RepoGroupInput);
+    if (!group) {
+      return c.json({ error: `Group "${input.name}" already exists` }, 409);
+    }
+    reposCache.invalidate();
+    return c.json(group, 201);
+  });
+
+  app.put('/api/groups/:id', async (c) => {
+    const id = Number(c.req.param('id'));
+    const body = await readJsonObject(c);
+    if (!body) {
+      return c.json(NOT_AN_OBJECT, 400);
+    }
+    const input = parseGroupInput(body, false);
+    if ('error' in input) {
+      return c.json(input, 400);
+    }
+    const clash = input.name ? findRepoGroupByName(db, input.name) : null;
+    if (clash && clash.id !== id) {
+      return c.json({ error: `Group "${input.name}" already exists` }, 409);
+    }
+
+    const group = updateRepoGroup(db, id, input);
+    if (!group) {
+      return c.json({ error: 'Group not found' }, 404);
+    }
+    reposCache.invalidate();
+    return c.json(group);
+  });
+
+  app.delete('/api/groups/:id', (c) => {
+    if (!deleteRepoGroup(db, Number(c.req.param('id')))) {
+      return c.json({ error: 'Group not found' }, 404);
+    }
+    reposCache.invalidate();
+    return c.json({ ok: true });
+  });
+
+  app.post('/api/groups/import', async (c) => {
+    const body = await readJsonObject(c);
+    if (!body) {
+      return c.json(NOT_AN_OBJECT, 400);
+    }
+    const org = textField(body.org);
+    const host = body.host || DEFAULT_HOST;
+    if (!org) {
+      return c.json({ error: 'Expected an org' }, 400);
+    }
+    const octokit = typeof host === 'string' ? clients.get(host) : undefined;
+    if (typeof host !== 'string' || !octokit) {
+      return c.json({ error: `Unknown host: ${host}` }, 400);
+    }
+
+    try {
+      const groups = await importGitHubTeams(db, octokit, org, host);
+      reposCache.invalidate();
+      return c.json({ imported: groups.length, groups });
+    } catch (err) {
+      const apiError = toGitHubApiError(err);
+      return c.json({ error: apiError.message, kind: apiError.kind }, ERROR_STATUS[apiError.kind]);
+    }
+  });
+
+  app.get('/api/groups/rollup', (c) => {
+    return c.json(getGroupRollups(db));
+  });
+
+  // --- Settings ---
+
+  app.get('/api/settings/sla', (c) => {
+    return c.json(getSlaPolicy(db));
+  });
+
+  app.put('/api/settings/sla', async (c) => {
+    const body = await readJsonObject(c);
+    if (!body) {
+      return c.json(NOT_AN_OBJECT, 400);
+    }
+    const policy = parseSlaPolicy(db, body);
+    if ('error' in policy) {
+      return c.json(policy, 400);
+    }
+    return c.json(saveSlaPolicy(db, policy));
+  });
+
+  app.get('/api/settings/risk', (c) => {
+    return c.json(getRiskWeights(db));
+  });
+
+  app.put('/api/settings/risk', async (c) => {
+    const body = await readJsonObject(c);
+    if (!body) {
+      return c.json(NOT_AN_OBJECT, 400);
+    }
+    const weights = parseRiskWeights(body);
+    if ('error' in weights) {
+      return c.json(weights, 400);
+    }
+    return c.json(saveRiskWeights(db, weights));
+  });
+
+  // --- Risk exceptions ---
+
+  app.get('/api/exceptions', (c) => {
+    const statusParam = c.req.query('status');
+    const status = EXCEPTION_STATUSES.find((s) => s === statusParam);
+    if (statusParam && !status) {
+      return c.json(
+        { error: `Expected status to be one of ${EXCEPTION_STATUSES.join(', ')}` },
+        400
+      );
+    }
+    return c.json(getRiskExceptions(db, { status }));
+  });
+
+  app.post('/api/exceptions', async (c) => {
+    const body = await readJsonObject(c);
+    if (!body) {
+      return c.json(NOT_AN_OBJECT, 400);
+    }
+    const input = parseRiskException(body);
+    if ('error' in input) {
+      return c.json(input, 400);
+    }
+    const exception = createRiskException(db, input);
+    invalidateDashboardCache();
+    return c.json(exception, 201);
+  });
+
+  app.put('/api/exceptions/:id', async (c) => {
+    const body = await readJsonObject(c);
+    if (!body) {
+      return c.json(NOT_AN_OBJECT, 400);
+    }
+    const update = parseRiskExceptionUpdate(body);
+    if ('error' in update) {
+      return c.json(update, 400);
+    }
+    const exception = updateRiskException(db, Number(c.req.param('id')), update);
+    if (!exception) {
+      return c.json({ error: 'Exception not found or revoked' }, 404);
+    }
+    invalidateDashboardCache();
+    return c.json(exception);
+  });
+
+  app.post('/api/exceptions/:id/revoke', async (c) => {
+    const body = await readJsonObject(c);
+    if (!body) {
+      return c.json(NOT_AN_OBJECT, 400);
+    }
+    const actor = textField(body.actor);
+    if (!actor) {
+      return c.json({ error: 'Expected an actor' }, 400);
+    }
+    const id = Number(c.req.param('id'));
+    const exception = revokeRiskException(db, id, actor, textField(body.reason));
+    if (!exception) {
+      return c.json({ error: 'Exception not found or already revoked' }, 404);
+    }
+    invalidateDashboardCache();
+    return c.json(exception);
+  });
+
+  // --- Threat intel ---
+
+  app.get('/api/threat-intel', (c) => {
+    return c.json(getThreatIntelStatus(db));
+  });
+
+  app.post('/api/threat-intel/:dataset/import', async (c) => {
+    const dataset = c.req.param('dataset') as ThreatDataset;
+    if (!THREAT_DATASETS.includes(dataset)) {
+      return c.json({ error: `Unknown dataset: ${dataset}` }, 404);
+    }
+    // Only the configured feed: a client-chosen source could read server files or internal URLs
+    try {
+      return c.json(await importThreatDataset(db, dataset));
+    } catch (err) {
+      if (err instanceof ThreatIntelError) {
+        return c.json({ error: err.message }, err.kind === 'read' ? 502 : 400);
+      }
+      throw err;
+    }
+  });
+
+  // --- Notifications ---
+
+  app.get('/api/notifications/channels', (c) => {
+    return c.json(getNotificationChannels(db));
+  });
+
+  app.post('/api/notifications/channels', async (c) => {
+    const body = await readJsonObject(c);
+    if (!body) {
+      return c.json(NOT_AN_OBJECT, 400);
+    }
+    const input = parseNotificationChannel(body);
+    if ('error' in input) {
+      return c.json(input, 400);
+    }
+    return c.json(createNotificationChannel(db, input), 201);
+  });
+
+  app.put('/api/notifications/channels/:id', async (c) => {
+    const id = Number(c.req.param('id'));
+    const existing = getNotificationChannel(db, id);
+    if (!existing) {
+      return c.json({ error: 'Notification channel not found' }, 404);
+    }
+    // Fields left out keep their current value
+    const body = await readJsonObject(c);
+    if (!body) {
+      return c.json(NOT_AN_OBJECT, 400);
+    }
+    const input = parseNotificationChannel({ ...existing, ...body });
+    if ('error' in input) {
+      return c.json(input, 400);
+    }
+    return c.json(updateNotificationChannel(db, id, input));
+  });
+
+  app.delete('/api/notifications/channels/:id', (c) => {
+    if (!deleteNotificationChannel(db, Number(c.req.param('id')))) {
+      return c.json({ error: 'Notification channel not found' }, 404);
+    }
+    return c.json({ ok: true });
+  });
+
+  app.post('/api/notifications/channels/:id/test', async (c) => {
+    const channel = getNotificationChannel(db, Number(c.req.param('id')));
+    if (!channel) {
+      return c.json({ error: 'Notification channel not found' }, 404);
+    }
+    try {
+      await sendTestNotification(channel);
+      return c.json({ ok: true });
+    } catch (err) {
+      if (err instanceof NotificationError) {
+        return c.json({ error: err.message }, err.kind === 'config' ? 400 : 502);
+      }
+      throw err;
+    }
   });
 
   // --- History analytics routes ---
 
   app.get('/api/history/trends', (c) => {
     const repo = c.req.query('repo') || null;
-    const data = getTrendData(db, repo);
+    const range = historyRangeParams((name) => c.req.query(name));
+    if ('error' in range) {
+      return c.json(range, 400);
+    }
+    const groupId = groupParam(db, c.req.query('group'));
+    if (groupId === null) {
+      return c.json({ error: 'Group not found' }, 404);
+    }
+    const data = getTrendData(db, repo, groupId, range);
     return c.json(data);
   });
 
   app.get('/api/history/mttr', (c) => {
     const repo = c.req.query('repo') || null;
-    const data = getMttrMetrics(db, repo);
+    const range = historyRangeParams((name) => c.req.query(name));
+    if ('error' in range) {
+      return c.json(range, 400);
+    }
+    const groupId = groupParam(db, c.req.query('group'));
+    if (groupId === null) {
+      return c.json({ error: 'Group not found' }, 404);
+    }
+    const data = getMttrMetrics(db, repo, groupId, range);
+    return c.json(data);
+  });
+
+  app.get('/api/history/mttr/distribution', (c) => {
+    const repo = c.req.query('repo') || null;
+    const range = historyRangeParams((name) => c.req.query(name));
+    if ('error' in range) {
+      return c.json(range, 400);
+    }
+    const groupId = groupParam(db, c.req.query('group'));
+    if (groupId === null) {
+      return c.json({ error: 'Group not found' }, 404);
+    }
+    const data = getMttrDistribution(db, repo, groupId, range);
     return c.json(data);
   });
 
@@ -209,7 +1265,54 @@ export function createServer(
   });
 
   app.get('/api/history/sla', (c) => {
-    const data = getSlaViolations(db);
+    const sourceParam = c.req.query('source');
+    const source = ALERT_SOURCES.find((s) => s === sourceParam) ?? null;
+    if (sourceParam && !source) {
+      return c.json({ error: `Expected source to be one of ${ALERT_SOURCES.join(', ')}` }, 400);
+    }
+    const groupId = groupParam(db, c.req.query('group'));
+    if (groupId === null) {
+      return c.json({ error: 'Group not found' }, 404);
+    }
+    const data = getSlaViolations(db, undefined, {
+      source,
+      groupId,
+      owner: c.req.query('owner') || null,
+      ...annotationFilters(c.req.query()),
+    });
+    return c.json(data);
+  });
+
+  app.get('/api/history/sla/compliance', (c) => {
+    const from = dateParam(c.req.query('from'));
+    const to = dateParam(c.req.query('to'));
+    if (from === null || to === null) {
+      return c.json({ error: 'Expected from and to as YYYY-MM-DD' }, 400);
+    }
+    if (from && to && from > to) {
+      return c.json({ error: 'Expected from to be on or before to' }, 400);
+    }
+    const sourceParam = c.req.query('source');
+    const source = ALERT_SOURCES.find((s) => s === sourceParam) ?? null;
+    if (sourceParam && !source) {
+      return c.json({ error: `Expected source to be one of ${ALERT_SOURCES.join(', ')}` }, 400);
+    }
+    const groupId = groupParam(db, c.req.query('group'));
+    if (groupId === null) {
+      return c.json({ error: 'Group not found' }, 404);
+    }
+    const data = getSlaCompliance(db, { from, to }, { source, groupId });
+    return c.json(data);
+  });
+
+  app.get('/api/history/secrets/mttr', (c) => {
+    const repo = c.req.query('repo') || null;
+    const data = getSecretMttrMetrics(db, repo);
+    return c.json(data);
+  });
+
+  app.get('/api/history/secrets/sla', (c) => {
+    const data = getSecretSlaViolations(db);
     return c.json(data);
   });
 
@@ -230,18 +1333,47 @@ export function createServer(
     return c.json(data);
   });
 
+  app.get('/api/analytics/dismissals', (c) => {
+    const groupId = groupParam(db, c.req.query('group'));
+    if (groupId === null) {
+      return c.json({ error: 'Group not found' }, 404);
+    }
+    const data = getDismissalAnalytics(db, groupId);
+    return c.json(data);
+  });
+
+  app.get('/api/analytics/risk', (c) => {
+    const groupId = groupParam(db, c.req.query('group'));
+    if (groupId === null) {
+      return c.json({ error: 'Group not found' }, 404);
+    }
+    const data = getRiskScores(db, { groupId });
+    return c.json(data);
+  });
+
   // --- Fix advisor routes ---
 
   app.get('/api/repos/:owner/:name/fix-advisor', (c) => {
     const owner = c.req.param('owner');
     const name = c.req.param('name');
     const fullName = `${owner}/${name}`;
-    const data = getFixAdvisor(db, fullName);
+    const data = getFixAdvisor(db, fullName, {
+      owner: c.req.query('owner') || null,
+      ...annotationFilters(c.req.query()),
+    });
     return c.json(data);
   });
 
   app.get('/api/fix-advisor', (c) => {
-    const data = getFixAdvisor(db);
+    const groupId = groupParam(db, c.req.query('group'));
+    if (groupId === null) {
+      return c.json({ error: 'Group not found' }, 404);
+    }
+    const data = getFixAdvisor(db, null, {
+      groupId,
+      owner: c.req.query('owner') || null,
+      ...annotationFilters(c.req.query()),
+    });
     return c.json(data);
   });
 
@@ -257,28 +1389,13 @@ export function createServer(
   app.get('/api/setup/status', (c) => {
     const repos = getAllRepoSummaries(db);
     const isEmpty = repos.length === 0;
-    const hasTargets = !!(process.env.GH_MONIT_USER || process.env.GH_MONIT_ORG);
+    const hasTargets = getWatchTargets(db).length > 0;
     return c.json({ isEmpty, hasTargets });
   });
 
   app.get('/api/setup/repos', async (c) => {
-    const user = process.env.GH_MONIT_USER;
-    const org = process.env.GH_MONIT_ORG;
-    if (!user && !org) return c.json([]);
-
-    const targets = [
-      ...(user ? user.split(',').map((u) => ({ type: 'user' as const, value: u.trim() })) : []),
-      ...(org  ? org.split(',').map((o) => ({ type: 'org'  as const, value: o.trim() })) : []),
-    ];
-
-    const all: { owner: string; name: string; fullName: string }[] = [];
-    for (const target of targets) {
-      const list = target.type === 'user'
-        ? await listUserRepos(octokit, target.value, false)
-        : await listOrgRepos(octokit, target.value, false);
-      if (list) all.push(...list);
-    }
-    return c.json(all);
+    // Watch targets are seeded from GH_MONIT_USER / GH_MONIT_ORG on startup
+    return c.json(await listWatchedRepos(db, clients));
   });
 
   app.post('/api/setup/reset', (c) => {
@@ -288,23 +1405,15 @@ export function createServer(
   });
 
   app.post('/api/setup/initialize', async (c) => {
-    const body = await c.req.json<{ repos: { owner: string; name: string; fullName: string }[] }>();
+    const body = await c.req.json<{ repos: RepoRef[] }>();
     const selected = body.repos ?? [];
     if (selected.length === 0) return c.json({ seeded: 0, total: 0, results: [] });
 
-    const results: { repo: string; success: boolean }[] = [];
-    for (const repo of selected) {
-      const raw = await fetchDependabotAlerts(octokit, repo);
-      if (raw) {
-        const alerts = normalizeAlerts(repo.fullName, raw);
-        saveAlerts(db, repo.fullName, alerts, new Date().toISOString());
-        invalidateDashboardCache();
-        results.push({ repo: repo.fullName, success: true });
-      } else {
-        results.push({ repo: repo.fullName, success: false });
-      }
-    }
-    const seeded = results.filter((r) => r.success).length;
+    const result = await refreshRepos(db, clients, selected, undefined, { trigger: 'manual' });
+    invalidateDashboardCache();
+
+    const results = result.results.map(({ repo, success }) => ({ repo, success }));
+    const seeded = result.refreshed;
     return c.json({ seeded, total: selected.length, results });
   });
 
@@ -0,0 +1,217 @@
+import net from 'node:net';
+import os from 'node:os';
+import tls from 'node:tls';
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  /** Connect over TLS from the start (port 465); otherwise STARTTLS is used when offered. */
+  secure: boolean;
+  /** Only sent over TLS: without it, sending fails rather than expose the password. */
+  user: string | null;
+  password: string | null;
+  /** A bare address or `Name <address>`. */
+  from: string;
+};
+
+export type MailMessage = {
+  to: string[];
+  subject: string;
+  text: string;
+};
+
+/** The SMTP server could not be reached or refused a command (`code`). */
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    readonly code: number | null = null
+  ) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+type Reply = { code: number; lines: string[] };
+
+/** Reads replies off a connection, joining the lines of multi-line replies. */
+class SmtpSession {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: Reply[] = [];
+  private waiter: { resolve: (reply: Reply) => void; reject: (error: Error) => void } | null =
+    null;
+  private failure: Error | null = null;
+
+  constructor(
+    private socket: net.Socket,
+    private readonly timeoutMs: number
+  ) {
+    this.attach(socket);
+  }
+
+  /** Sends a command (none for the greeting) and checks the reply code. */
+  async command(line: string | null, expected: number[]): Promise<Reply> {
+    if (line !== null) this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      // Name the verb only: AUTH lines carry credentials
+      const verb = line === null ? 'Greeting' : line.split(/[\s:]/, 1)[0];
+      throw new SmtpError(`${verb} failed: ${reply.code} ${reply.lines.join(' ')}`, reply.code);
+    }
+    return reply;
+  }
+
+  /** Switches the connection to TLS after a successful STARTTLS. */
+  async upgrade(host: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    plain.setTimeout(0);
+    this.socket = await new Promise<net.Socket>((resolve, reject) => {
+      const secure = tls.connect({ socket: plain, servername: host }, () => resolve(secure));
+      secure.once('error', (error) => reject(new SmtpError(`TLS failed: ${error.message}`)));
+    });
+    this.attach(this.socket);
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setTimeout(this.timeoutMs, () =>
+      socket.destroy(new SmtpError('Timed out waiting for the SMTP server'))
+    );
+    socket.on('data', (chunk: Buffer) => this.receive(chunk.toString('utf8')));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new SmtpError('SMTP server closed the connection')));
+  }
+
+  private receive(data: string): void {
+    this.buffer += data;
+    let end: number;
+    while ((end = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, end).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(end + 1);
+      this.lines.push(line.slice(4));
+      // "250-..." continues a reply, "250 ..." ends it
+      if (line[3] === '-') continue;
+
+      const reply = { code: Number(line.slice(0, 3)), lines: this.lines };
+      this.lines = [];
+      if (this.waiter) {
+        this.waiter.resolve(reply);
+        this.waiter = null;
+      } else {
+        this.replies.push(reply);
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error instanceof SmtpError ? error : new SmtpError(error.message);
+    this.waiter?.reject(this.failure);
+    this.waiter = null;
+  }
+
+  private read(): Promise<Reply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+}
+
+function connect(config: SmtpConfig, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const { host, port } = config;
+    const socket = config.secure
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+    const timer = setTimeout(() => socket.destroy(new Error('timed out')), timeoutMs);
+    socket.once(config.secure ? 'secureConnect' : 'connect', () => {
+      clearTimeout(timer);
+      socket.removeAllListeners('error');
+      resolve(socket);
+    });
+    socket.once('error', (error) => {
+      clearTimeout(timer);
+      reject(new SmtpError(`Could not connect to ${host}:${port}: ${error.message}`));
+    });
+  });
+}
+
+/** The bare address of a `Name <address>` mailbox, for the envelope. */
+function envelopeAddress(mailbox: string): string {
+  return /<([^<>]*)>\s*$/.exec(mailbox)?.[1].trim() ?? mailbox.trim();
+}
+
+/** Encodes a header value as RFC 2047 UTF-8 when it is not plain ASCII. */
+function encodeHeader(value: string): string {
+  const line = value.replace(/[\r\n]+/g, ' ');
+  if (/^[\x20-\x7e]*$/.test(line)) return line;
+  return `=?UTF-8?B?${Buffer.from(line, 'utf8').toString('base64')}?=`;
+}
+
+/** Builds the DATA payload: headers, body with leading dots doubled, and the final dot. */
+export function formatMailData(from: string, message: MailMessage, date = new Date()): string {
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  const body = message.text
+    .split(/\r?\n/)
+    .map((line) => (line.startsWith('.') ? `.${line}` : line));
+  return [...headers, '', ...body, '.'].join('\r\n');
+}
+
+/**
+ * Delivers a plain-text message. Upgrades to TLS when the server offers
+ * STARTTLS and authenticates with AUTH PLAIN when a user is configured;
+ * with a user but no TLS, it fails before sending the password.
+ */
+export async function sendMail(
+  config: SmtpConfig,
+  message: MailMessage,
+  timeoutMs = 30_000
+): Promise<void> {
+  const session = new SmtpSession(await connect(config, timeoutMs), timeoutMs);
+  const ehlo = `EHLO ${os.hostname() || 'localhost'}`;
+  try {
+    await session.command(null, [220]);
+    const features = await session.command(ehlo, [250]);
+    let encrypted = config.secure;
+    if (!encrypted && features.lines.some((line) => /^STARTTLS\b/i.test(line))) {
+      await session.command('STARTTLS', [220]);
+      await session.upgrade(config.host);
+      await session.command(ehlo, [250]);
+      encrypted = true;
+    }
+    if (config.user) {
+      if (!encrypted) {
+        throw new SmtpError(
+          'SMTP server does not offer STARTTLS; refusing to send the password unencrypted'
+        );
+      }
+      const token = Buffer.from(`\0${config.user}\0${config.password ?? ''}`).toString('base64');
+      await session.command(`AUTH PLAIN ${token}`, [235]);
+    }
+    await session.command(`MAIL FROM:<${envelopeAddress(config.from)}>`, [250]);
+    for (const to of message.to) {
+      await session.command(`RCPT TO:<${to}>`, [250, 251]);
+    }
+    await session.command('DATA', [354]);
+    await session.command(formatMailData(config.from, message), [250]);
+    await session.command('QUIT', [221]);
+  } finally {
+    session.close();
+  }
+}
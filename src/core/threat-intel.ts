@@ -0,0 +1,210 @@
+import type Database from 'better-sqlite3';
+import fs from 'node:fs/promises';
+import { gunzipSync } from 'node:zlib';
+import { z } from 'zod';
+import type { ThreatDataset, ThreatDatasetStatus } from '../types.js';
+import { saveEpssScores, saveKevEntries } from './db.js';
+
+/** Daily EPSS scores for every published CVE, gzipped CSV. */
+export const DEFAULT_EPSS_URL = 'https://epss.empiricalsecurity.com/epss_scores-current.csv.gz';
+
+/** The CISA Known Exploited Vulnerabilities catalog, JSON. */
+export const DEFAULT_KEV_URL =
+  'https://www.cisa.gov/sites/default/files/feeds/known_exploited_vulnerabilities.json';
+
+export const THREAT_DATASETS: ThreatDataset[] = ['epss', 'kev'];
+
+/** A dataset that could not be read (`read`) or did not parse (`parse`). */
+export class ThreatIntelError extends Error {
+  constructor(
+    readonly kind: 'read' | 'parse',
+    message: string
+  ) {
+    super(message);
+    this.name = 'ThreatIntelError';
+  }
+}
+
+export type EpssScore = {
+  cveId: string;
+  epss: number;
+  percentile: number;
+};
+
+export type EpssDataset = {
+  /** Score date from the CSV's leading comment, when present. */
+  scoredOn: string | null;
+  scores: EpssScore[];
+};
+
+export type KevEntry = {
+  cveId: string;
+  vendorProject: string | null;
+  product: string | null;
+  vulnerabilityName: string | null;
+  dateAdded: string | null;
+  dueDate: string | null;
+  knownRansomware: boolean;
+};
+
+export type KevCatalog = {
+  catalogVersion: string | null;
+  releasedAt: string | null;
+  entries: KevEntry[];
+};
+
+/**
+ * Reads the dataset source for GH_MONIT_EPSS_URL or GH_MONIT_KEV_URL,
+ * falling back to the published feed when unset.
+ */
+export function resolveDatasetUrl(
+  dataset: ThreatDataset,
+  env: NodeJS.ProcessEnv = process.env
+): string {
+  if (dataset === 'epss') return env.GH_MONIT_EPSS_URL?.trim() || DEFAULT_EPSS_URL;
+  return env.GH_MONIT_KEV_URL?.trim() || DEFAULT_KEV_URL;
+}
+
+/**
+ * Reads a dataset from an http(s) URL or a local file path. Gzipped
+ * content is detected by its magic bytes and decompressed.
+ */
+export async function readDataset(source: string): Promise<string> {
+  let bytes: Buffer;
+  try {
+    if (/^https?:\/\//i.test(source)) {
+      const response = await fetch(source);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+      }
+      bytes = Buffer.from(await response.arrayBuffer());
+    } else {
+      bytes = await fs.readFile(source);
+    }
+    if (bytes[0] === 0x1f && bytes[1] === 0x8b) bytes = gunzipSync(bytes);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ThreatIntelError('read', `Could not read ${source}: ${message}`);
+  }
+  return bytes.toString('utf8');
+}
+
+const CVE_PATTERN = /^CVE-\d{4}-\d{4,}$/i;
+
+/**
+ * Parses an EPSS scores CSV (`cve,epss,percentile`, optionally preceded by
+ * a `#model_version:…,score_date:…` comment). Rows without a valid CVE id
+ * or numeric scores are skipped.
+ */
+export function parseEpssCsv(content: string): EpssDataset {
+  let scoredOn: string | null = null;
+  let columns: { cve: number; epss: number; percentile: number } | null = null;
+  const scores: EpssScore[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    if (line.startsWith('#')) {
+      const date = /score_date:(\d{4}-\d{2}-\d{2})/.exec(line);
+      if (date) scoredOn = date[1];
+      continue;
+    }
+    const cells = line.split(',').map((cell) => cell.trim());
+    if (!columns) {
+      const header = cells.map((cell) => cell.toLowerCase());
+      columns = {
+        cve: header.indexOf('cve'),
+        epss: header.indexOf('epss'),
+        percentile: header.indexOf('percentile'),
+      };
+      if (columns.cve < 0 || columns.epss < 0 || columns.percentile < 0) {
+        throw new ThreatIntelError(
+          'parse',
+          'EPSS CSV header must have cve, epss and percentile columns'
+        );
+      }
+      continue;
+    }
+    const cveId = cells[columns.cve] ?? '';
+    // Number('') is 0, so blank cells must not count as scores
+    const epss = Number(cells[columns.epss] || NaN);
+    const percentile = Number(cells[columns.percentile] || NaN);
+    if (!CVE_PATTERN.test(cveId) || !Number.isFinite(epss) || !Number.isFinite(percentile)) {
+      continue;
+    }
+    scores.push({ cveId: cveId.toUpperCase(), epss, percentile });
+  }
+
+  if (!columns) throw new ThreatIntelError('parse', 'EPSS CSV has no header row');
+  return { scoredOn, scores };
+}
+
+const optionalText = z
+  .string()
+  .nullish()
+  .transform((s) => s?.trim() || null);
+
+const kevCatalogSchema = z.object({
+  catalogVersion: optionalText,
+  dateReleased: optionalText,
+  vulnerabilities: z.array(
+    z.object({
+      cveID: z.string().regex(CVE_PATTERN),
+      vendorProject: optionalText,
+      product: optionalText,
+      vulnerabilityName: optionalText,
+      dateAdded: optionalText,
+      dueDate: optionalText,
+      knownRansomwareCampaignUse: optionalText,
+    })
+  ),
+});
+
+/** Parses the CISA KEV catalog JSON. */
+export function parseKevJson(content: string): KevCatalog {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    // JSON.parse quotes the content it failed on, so its message is not passed on
+    throw new ThreatIntelError('parse', 'KEV catalog is not valid JSON');
+  }
+  const result = kevCatalogSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new ThreatIntelError(
+      'parse',
+      `KEV catalog is malformed at ${issue.path.join('.') || 'root'}: ${issue.message}`
+    );
+  }
+  return {
+    catalogVersion: result.data.catalogVersion,
+    releasedAt: result.data.dateReleased,
+    entries: result.data.vulnerabilities.map((v) => ({
+      cveId: v.cveID.toUpperCase(),
+      vendorProject: v.vendorProject,
+      product: v.product,
+      vulnerabilityName: v.vulnerabilityName,
+      dateAdded: v.dateAdded,
+      dueDate: v.dueDate,
+      knownRansomware: v.knownRansomwareCampaignUse?.toLowerCase() === 'known',
+    })),
+  };
+}
+
+/**
+ * Reads, parses and stores one dataset, replacing its previous import.
+ * `source` defaults to `resolveDatasetUrl`. Throws a `ThreatIntelError`
+ * when the source cannot be read or parsed; stored data is then kept.
+ */
+export async function importThreatDataset(
+  db: Database.Database,
+  dataset: ThreatDataset,
+  source: string = resolveDatasetUrl(dataset)
+): Promise<ThreatDatasetStatus> {
+  const content = await readDataset(source);
+  if (dataset === 'epss') {
+    return saveEpssScores(db, source, parseEpssCsv(content));
+  }
+  return saveKevEntries(db, source, parseKevJson(content));
+}
@@ -0,0 +1,48 @@
+import type Database from 'better-sqlite3';
+import { normalizeAlerts } from './alerts.js';
+import { saveAlertUpdate } from './db.js';
+import { toGitHubApiError, updateDependabotAlert } from './github.js';
+import { DEFAULT_HOST, parseRepoKey } from './hosts.js';
+import type { GitHubClients } from './hosts.js';
+import type { AlertRef, AlertStateChange, AlertStateChangeResult } from '../types.js';
+
+/** GitHub rejects longer dismissal comments. */
+export const MAX_DISMISS_COMMENT_LENGTH = 280;
+
+/**
+ * Writes a state change back to GitHub for each alert in turn, storing each
+ * updated alert locally as soon as GitHub accepts it. A failure affects only
+ * that alert and is reported with its error kind.
+ */
+export async function changeAlertStates(
+  db: Database.Database,
+  clients: GitHubClients,
+  refs: AlertRef[],
+  change: AlertStateChange
+): Promise<AlertStateChangeResult> {
+  const result: AlertStateChangeResult = { updated: [], failed: [] };
+
+  for (const ref of refs) {
+    const repo = parseRepoKey(ref.repo);
+    const octokit = repo ? clients.get(repo.host ?? DEFAULT_HOST) : undefined;
+    if (!repo || !octokit) {
+      result.failed.push({
+        ...ref,
+        kind: 'unknown',
+        error: `No GitHub client configured for ${ref.repo}`,
+      });
+      continue;
+    }
+
+    try {
+      const data = await updateDependabotAlert(octokit, repo, ref.alertNumber, change);
+      saveAlertUpdate(db, normalizeAlerts(ref.repo, [data])[0]);
+      result.updated.push(ref);
+    } catch (error) {
+      const apiError = toGitHubApiError(error);
+      result.failed.push({ ...ref, kind: apiError.kind, error: apiError.message });
+    }
+  }
+
+  return result;
+}
@@ -2,6 +2,7 @@ import { Command } from "commander";
 import { registerDashboardCommand } from "./cli/dashboard.js";
 import { registerDependabotCommand } from "./cli/dependabot.js";
 import { registerFixPlanCommand } from "./cli/fix-plan.js";
+import { registerThreatIntelCommand } from "./cli/threat-intel.js";
 
 const program = new Command();
 
@@ -13,6 +14,7 @@ program
 registerDependabotCommand(program);
 registerDashboardCommand(program);
 registerFixPlanCommand(program);
+registerThreatIntelCommand(program);
 
 program.parseAsync(process.argv).catch((error: Error) => {
   console.error("Unexpected error:", error.message);
@@ -1,18 +1,87 @@
 // Re-export shared types used by both backend and frontend
 export type {
+  AcceptedAlert,
+  AlertAnnotation,
+  AlertAnnotationInput,
+  AlertRef,
+  AlertSource,
+  AlertState,
+  AlertStateChange,
+  AlertStateChangeResult,
   AlertTimelineEntry,
+  AnnotationFilters,
+  ClosedAlert,
+  ClosedAlertPage,
+  CodeScanningAlert,
   DependencyGroup,
+  DiscoveryResult,
+  DismissalAnalytics,
+  DismissalGroupStats,
+  DismissReason,
   EcosystemBreakdown,
   FixAction,
   FixActionAlert,
   FixAdvisorResponse,
+  GroupRollup,
+  HistoryRange,
+  LateResolvedAlert,
+  MttrDistribution,
   MttrMetric,
+  MttrPeriodStats,
+  MttrSeverityDistribution,
+  MttrStats,
+  NotificationChannel,
+  NotificationChannelInput,
+  NotificationChannelType,
+  NotificationDelivery,
+  NotificationEvent,
+  NotificationEventKind,
+  NotificationEventSource,
+  RateLimitStatus,
+  RepoErrorKind,
+  RepoGroup,
+  RepoGroupInput,
+  RepoMetadata,
+  RepoRisk,
   RepoSummary,
+  RepoSyncError,
+  RepoVisibility,
+  RiskException,
+  RiskExceptionEvent,
+  RiskExceptionInput,
+  RiskExceptionScope,
+  RiskExceptionStatus,
+  RiskExceptionUpdate,
+  RiskWeights,
+  SecretMttrMetric,
+  SecretScanningAlert,
+  SecretSlaViolation,
   SeverityCounts,
+  SlaCompliancePeriod,
+  SlaComplianceReport,
+  SlaComplianceStat,
+  SlaLimits,
+  SlaOverride,
+  SlaPolicy,
+  SlaSeverity,
   SlaViolation,
+  SyncRun,
+  SyncRunDetail,
+  SyncRunPage,
+  SyncRunRepo,
+  SyncRunStatus,
+  SyncTrigger,
+  ThreatDataset,
+  ThreatDatasetStatus,
+  ThreatIntel,
+  TrendBucket,
   TrendPoint,
+  UpstreamState,
   VulnerabilityGroup,
+  WatchTarget,
+  WatchTargetInput,
 } from '../shared/types.js';
+import type { AlertAnnotationInput, RepoMetadata, ThreatIntel } from '../shared/types.js';
 
 // Backend-only types
 
@@ -34,13 +103,91 @@ export type NormalizedAlert = {
   advisorySummary: string | null;
   cvssScore: number | null;
   patchedVersion: string | null;
+  /** Set while dismissed; see `DismissReason`. */
+  dismissedReason: string | null;
+  dismissedComment: string | null;
+  /** Login of the user who dismissed the alert. */
+  dismissedBy: string | null;
   rawJson: string;
 };
 
+/**
+ * A stored Dependabot alert with the CODEOWNERS owners of its manifest, the
+ * EPSS and KEV data of its CVE, any risk exception accepting it and its
+ * local annotation (empty when it has none).
+ */
+export type OwnedAlert = NormalizedAlert &
+  ThreatIntel &
+  AlertAnnotationInput & {
+    owners: string[];
+    /** Expiry of the latest active risk exception covering the alert, or null. */
+    acceptedUntil: string | null;
+  };
+
+export type NormalizedCodeScanningAlert = {
+  repo: string;
+  alertNumber: number;
+  state: string;
+  severity: string;
+  ruleId: string | null;
+  ruleDescription: string | null;
+  toolName: string | null;
+  path: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+  dismissedAt: string | null;
+  fixedAt: string | null;
+  htmlUrl: string | null;
+  rawJson: string;
+};
+
+export type NormalizedSecretScanningAlert = {
+  repo: string;
+  alertNumber: number;
+  state: string;
+  secretType: string;
+  secretTypeDisplayName: string | null;
+  validity: string | null;
+  pushProtectionBypassed: boolean;
+  pushProtectionBypassedBy: string | null;
+  pushProtectionBypassedAt: string | null;
+  resolution: string | null;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+  htmlUrl: string | null;
+  rawJson: string;
+};
+
+/** HTTP cache validators from the last full fetch of an alert listing. */
+export type CacheValidators = {
+  etag: string | null;
+  lastModified: string | null;
+};
+
+/**
+ * Result of a conditional alert listing fetch.
+ * `alerts` is null when GitHub answered 304 Not Modified, or when the feature
+ * is disabled for the repo; a 200 with no alerts is an empty array.
+ */
+export type ConditionalFetchResult = {
+  alerts: unknown[] | null;
+  validators: CacheValidators | null;
+};
+
 export type RepoRef = {
   owner: string;
   name: string;
+  /** Repo key in the database — `owner/name`, or `host:owner/name` off the default host. */
   fullName: string;
+  /** Configured host name; the default host when omitted. */
+  host?: string;
+  /** Whether the repo is archived or a fork; set by repo listings only. */
+  archived?: boolean;
+  fork?: boolean;
+  /** Repo details from the listing; set by repo listings only. */
+  metadata?: RepoMetadata;
 };
 
 export type RepoAlertsResult = {